@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "BookingCheckInStatus" AS ENUM ('PENDING', 'CHECKED_IN');
+
+-- AlterTable
+ALTER TABLE "Floorplan"
+ADD COLUMN "deskCheckInGraceMinutes" INTEGER,
+ADD COLUMN "parkingCheckInGraceMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Booking"
+ADD COLUMN "checkInStatus" "BookingCheckInStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "checkedInAt" TIMESTAMP(3);
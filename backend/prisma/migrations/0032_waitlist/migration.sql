@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'BOOKED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" TEXT NOT NULL,
+    "floorplanId" TEXT NOT NULL,
+    "kind" "ResourceKind" NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "daySlot" "DaySlot",
+    "startMinute" INTEGER NOT NULL,
+    "endMinute" INTEGER NOT NULL,
+    "autoBook" BOOLEAN NOT NULL DEFAULT true,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "offeredDeskId" TEXT,
+    "offerExpiresAt" TIMESTAMP(3),
+    "bookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_floorplanId_kind_date_status_idx" ON "WaitlistEntry"("floorplanId", "kind", "date", "status");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_employeeId_date_idx" ON "WaitlistEntry"("employeeId", "date");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_offeredDeskId_idx" ON "WaitlistEntry"("offeredDeskId");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_floorplanId_fkey" FOREIGN KEY ("floorplanId") REFERENCES "Floorplan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_offeredDeskId_fkey" FOREIGN KEY ("offeredDeskId") REFERENCES "Desk"("id") ON DELETE SET NULL ON UPDATE CASCADE;
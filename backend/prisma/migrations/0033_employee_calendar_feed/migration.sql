@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "calendarFeedToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Employee_calendarFeedToken_key" ON "Employee"("calendarFeedToken");
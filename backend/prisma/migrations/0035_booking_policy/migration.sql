@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "BookingPolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "floorplanId" TEXT,
+    "resourceKind" "ResourceKind",
+    "tenantId" TEXT,
+    "minLeadDays" INTEGER,
+    "maxAdvanceDays" INTEGER,
+    "maxBookingsPerWeek" INTEGER,
+    "minDurationMinutes" INTEGER,
+    "maxDurationMinutes" INTEGER,
+    "blockedWeekdays" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookingPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingPolicy_floorplanId_idx" ON "BookingPolicy"("floorplanId");
+
+-- CreateIndex
+CREATE INDEX "BookingPolicy_tenantId_idx" ON "BookingPolicy"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "BookingPolicy" ADD CONSTRAINT "BookingPolicy_floorplanId_fkey" FOREIGN KEY ("floorplanId") REFERENCES "Floorplan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingPolicy" ADD CONSTRAINT "BookingPolicy_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
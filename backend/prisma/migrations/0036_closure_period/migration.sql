@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ClosurePeriod" (
+    "id" TEXT NOT NULL,
+    "floorplanId" TEXT NOT NULL,
+    "deskId" TEXT,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "startMinute" INTEGER,
+    "endMinute" INTEGER,
+    "reason" TEXT NOT NULL,
+    "createdByEmployeeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClosurePeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClosurePeriod_floorplanId_startDate_endDate_idx" ON "ClosurePeriod"("floorplanId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "ClosurePeriod_deskId_idx" ON "ClosurePeriod"("deskId");
+
+-- AddForeignKey
+ALTER TABLE "ClosurePeriod" ADD CONSTRAINT "ClosurePeriod_floorplanId_fkey" FOREIGN KEY ("floorplanId") REFERENCES "Floorplan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClosurePeriod" ADD CONSTRAINT "ClosurePeriod_deskId_fkey" FOREIGN KEY ("deskId") REFERENCES "Desk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "graphEventId" TEXT,
+ADD COLUMN "graphEventUserId" TEXT;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "AttendeeResponse" AS ENUM ('PENDING', 'ACCEPTED', 'TENTATIVE', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "Desk" ADD COLUMN "capacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "title" TEXT;
+
+-- CreateTable
+CREATE TABLE "BookingAttendee" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "name" TEXT,
+    "email" TEXT,
+    "response" "AttendeeResponse" NOT NULL DEFAULT 'PENDING',
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingAttendee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingAttendee_bookingId_employeeId_key" ON "BookingAttendee"("bookingId", "employeeId");
+
+-- CreateIndex
+CREATE INDEX "BookingAttendee_employeeId_idx" ON "BookingAttendee"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "BookingAttendee" ADD CONSTRAINT "BookingAttendee_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingAttendee" ADD CONSTRAINT "BookingAttendee_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ResourceEquipment" AS ENUM ('MONITOR', 'DOCKING_STATION', 'HEIGHT_ADJUSTABLE', 'VIDEO_CONFERENCING', 'ACCESSIBLE');
+
+-- AlterTable
+ALTER TABLE "Desk" ADD COLUMN "equipment" "ResourceEquipment"[] NOT NULL DEFAULT ARRAY[]::"ResourceEquipment"[];
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "EmployeeFollow" (
+    "followerId" TEXT NOT NULL,
+    "followeeId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmployeeFollow_pkey" PRIMARY KEY ("followerId","followeeId")
+);
+
+-- CreateIndex
+CREATE INDEX "EmployeeFollow_followeeId_idx" ON "EmployeeFollow"("followeeId");
+
+-- AddForeignKey
+ALTER TABLE "EmployeeFollow" ADD CONSTRAINT "EmployeeFollow_followerId_fkey" FOREIGN KEY ("followerId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmployeeFollow" ADD CONSTRAINT "EmployeeFollow_followeeId_fkey" FOREIGN KEY ("followeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
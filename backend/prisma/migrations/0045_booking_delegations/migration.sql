@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "BookingDelegation" (
+    "principalId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingDelegation_pkey" PRIMARY KEY ("principalId","delegateId")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingDelegation_delegateId_idx" ON "BookingDelegation"("delegateId");
+
+-- AddForeignKey
+ALTER TABLE "BookingDelegation" ADD CONSTRAINT "BookingDelegation_principalId_fkey" FOREIGN KEY ("principalId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingDelegation" ADD CONSTRAINT "BookingDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "Visitor" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "email" TEXT,
+    "company" TEXT,
+    "hostEmployeeId" TEXT NOT NULL,
+    "expectedArrivalMinute" INTEGER,
+    "code" TEXT NOT NULL,
+    "arrivedAt" TIMESTAMP(3),
+    "departedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Visitor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Visitor_bookingId_key" ON "Visitor"("bookingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Visitor_code_key" ON "Visitor"("code");
+
+-- CreateIndex
+CREATE INDEX "Visitor_hostEmployeeId_idx" ON "Visitor"("hostEmployeeId");
+
+-- AddForeignKey
+ALTER TABLE "Visitor" ADD CONSTRAINT "Visitor_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Visitor" ADD CONSTRAINT "Visitor_hostEmployeeId_fkey" FOREIGN KEY ("hostEmployeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
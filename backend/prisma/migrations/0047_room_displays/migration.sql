@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "RoomDisplay" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "deskId" TEXT NOT NULL,
+    "tokenPrefix" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "createdByEmployeeId" TEXT NOT NULL,
+    "lastSeenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomDisplay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomDisplay_tokenHash_key" ON "RoomDisplay"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "RoomDisplay_deskId_idx" ON "RoomDisplay"("deskId");
+
+-- CreateIndex
+CREATE INDEX "RoomDisplay_createdByEmployeeId_idx" ON "RoomDisplay"("createdByEmployeeId");
+
+-- AddForeignKey
+ALTER TABLE "RoomDisplay" ADD CONSTRAINT "RoomDisplay_deskId_fkey" FOREIGN KEY ("deskId") REFERENCES "Desk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomDisplay" ADD CONSTRAINT "RoomDisplay_createdByEmployeeId_fkey" FOREIGN KEY ("createdByEmployeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "RoomDisplay" ADD COLUMN "allowShortBookings" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "roomDisplayId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Booking_roomDisplayId_idx" ON "Booking"("roomDisplayId");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_roomDisplayId_fkey" FOREIGN KEY ("roomDisplayId") REFERENCES "RoomDisplay"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Walk-ins booked before this migration were attributed to the admin who registered the display.
+UPDATE "Booking" b
+SET "roomDisplayId" = d."id"
+FROM "RoomDisplay" d
+WHERE b."bookedFor" = 'GUEST'
+  AND b."title" = 'Spontanbuchung'
+  AND b."guestName" = 'Spontanbuchung'
+  AND b."deskId" = d."deskId"
+  AND b."createdByEmployeeId" = d."createdByEmployeeId";
@@ -0,0 +1,116 @@
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashApiToken } from './apiTokens';
+import { devUserHeaders, requestJson } from './integrationTestServer';
+import { prisma } from './prisma';
+
+type ApiTokenFixture = {
+  id: string;
+  scopes: string[];
+  employeeId: string | null;
+  serviceAccountId: string | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  employee: { id: string; email: string; displayName: string; role: 'admin' | 'user'; isActive: boolean } | null;
+  serviceAccount: { id: string; name: string; isActive: boolean } | null;
+};
+
+const adminEmployee = { id: 'admin-1', email: 'admin@example.com', displayName: 'Admin', role: 'admin' as const, isActive: true };
+
+const tokens = new Map<string, ApiTokenFixture>();
+const writes: string[] = [];
+const addToken = (token: string, fixture: Partial<ApiTokenFixture>) => {
+  tokens.set(hashApiToken(token), {
+    id: `token-${tokens.size + 1}`,
+    scopes: [],
+    employeeId: adminEmployee.id,
+    serviceAccountId: null,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    revokedAt: null,
+    lastUsedAt: new Date(),
+    employee: adminEmployee,
+    serviceAccount: null,
+    ...fixture
+  });
+};
+
+beforeEach(() => {
+  tokens.clear();
+  writes.length = 0;
+  addToken('rbms_read', { scopes: ['bookings:read'] });
+  addToken('rbms_write', { scopes: ['bookings:write'] });
+  addToken('rbms_admin', { scopes: ['admin'] });
+  addToken('rbms_revoked', { scopes: ['admin'], revokedAt: new Date() });
+  addToken('rbms_service', { scopes: ['bookings:read', 'bookings:write'], employeeId: null, employee: null, serviceAccountId: 'sa-1', serviceAccount: { id: 'sa-1', name: 'Sync', isActive: true } });
+
+  (prisma.apiToken.findUnique as unknown) = async ({ where }: { where: { tokenHash: string } }) => tokens.get(where.tokenHash) ?? null;
+  (prisma.apiToken.update as unknown) = async ({ data }: { data: Record<string, unknown> }) => {
+    if (!('lastUsedAt' in data)) writes.push('apiToken.update');
+    return {};
+  };
+  (prisma.apiToken.create as unknown) = async () => {
+    writes.push('apiToken.create');
+    return {};
+  };
+  (prisma.serviceAccount.findUnique as unknown) = async ({ where: { id } }: { where: { id: string } }) => (id === 'sa-1' ? { id } : null);
+  (prisma.webhookSubscription.findMany as unknown) = async () => [{ id: 'hook-1', secret: 'whsec_secret' }];
+  (prisma.employee.findMany as unknown) = async () => [];
+});
+
+const requestWithToken = (token: string, method: 'GET' | 'POST' | 'PATCH' | 'DELETE', path: string, body?: unknown) => (
+  requestJson<{ role?: string; code?: string }>(method, path, { headers: { authorization: `Bearer ${token}` }, body })
+);
+
+test('an admin token without the admin scope acts as a regular user', async () => {
+  assert.deepEqual(await requestWithToken('rbms_read', 'GET', '/me').then(({ status, body }) => ({ status, role: body.role })), { status: 200, role: 'user' });
+  assert.deepEqual(await requestWithToken('rbms_admin', 'GET', '/me').then(({ status, body }) => ({ status, role: body.role })), { status: 200, role: 'admin' });
+});
+
+test('/admin routes need the admin scope even for admin employees', async () => {
+  const response = await requestWithToken('rbms_write', 'GET', '/admin/employees');
+  assert.equal(response.status, 403);
+  assert.equal(response.body.code, 'INSUFFICIENT_SCOPE');
+});
+
+test('writes need the bookings:write scope', async () => {
+  const response = await requestWithToken('rbms_read', 'DELETE', '/bookings/booking-1');
+  assert.equal(response.status, 403);
+  assert.equal(response.body.code, 'INSUFFICIENT_SCOPE');
+});
+
+test('API tokens cannot manage API tokens', async () => {
+  const response = await requestWithToken('rbms_admin', 'GET', '/admin/api-tokens');
+  assert.equal(response.status, 403);
+  assert.equal(response.body.code, 'SESSION_REQUIRED');
+});
+
+test('admin tokens cannot use the database editor to mint tokens or read secrets', async () => {
+  const requests = [
+    requestWithToken('rbms_admin', 'GET', '/admin/db/tables'),
+    requestWithToken('rbms_admin', 'GET', '/admin/db/webhook-subscription/rows'),
+    requestWithToken('rbms_admin', 'POST', '/admin/db/api-token/rows', { data: { tokenHash: 'chosen', scopes: ['admin'] } }),
+    requestWithToken('rbms_admin', 'PATCH', '/admin/db/api-token/rows/token-4', { data: { revokedAt: null } }),
+    requestWithToken('rbms_admin', 'DELETE', '/admin/db/api-token/rows')
+  ];
+  for (const response of await Promise.all(requests)) {
+    assert.equal(response.status, 403);
+    assert.equal(response.body.code, 'SESSION_REQUIRED');
+  }
+  assert.deepEqual(writes, []);
+});
+
+test('service accounts cannot book, so they never hold bookings:write', async () => {
+  const booking = await requestWithToken('rbms_service', 'POST', '/bookings', { deskId: 'desk-1', date: '2026-11-02' });
+  assert.equal(booking.status, 403);
+  assert.equal(booking.body.code, 'INSUFFICIENT_SCOPE');
+
+  const issued = await requestJson('POST', '/admin/service-accounts/sa-1/tokens', { headers: devUserHeaders('admin-1', 'admin'), body: { name: 'Sync', scopes: ['bookings:write'] } });
+  assert.equal(issued.status, 400);
+  assert.deepEqual(writes, []);
+});
+
+test('revoked and unknown tokens are rejected without falling back', async () => {
+  assert.equal((await requestWithToken('rbms_revoked', 'GET', '/me')).status, 401);
+  assert.equal((await requestWithToken('rbms_unknown', 'GET', '/me')).status, 401);
+});
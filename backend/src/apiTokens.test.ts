@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createApiToken, hashApiToken, hasApiTokenScope, isApiTokenUsable, parseApiTokenInput, parseBearerToken, requiredApiTokenScope } from './apiTokens';
+
+test('created tokens are prefixed and only their hash is kept', () => {
+  const { token, tokenPrefix, tokenHash } = createApiToken();
+  assert.match(token, /^rbms_[A-Za-z0-9_-]{43}$/);
+  assert.equal(tokenPrefix, token.slice(0, 11));
+  assert.equal(tokenHash, hashApiToken(token));
+  assert.notEqual(createApiToken().tokenHash, tokenHash);
+
+  assert.equal(parseBearerToken(`Bearer ${token}`), token);
+  assert.equal(parseBearerToken(`bearer  ${token} `), token);
+  assert.equal(parseBearerToken('Basic abc'), null);
+  assert.equal(parseBearerToken(undefined), null);
+});
+
+test('token input validates scopes and lifetime', () => {
+  const now = new Date('2026-10-20T08:00:00.000Z');
+  assert.deepEqual(parseApiTokenInput({ name: ' Reporting ', scopes: ['bookings:write', 'bookings:read'], expiresInDays: 30 }, { allowAdminScope: false, allowWriteScope: true, now }), {
+    ok: true,
+    value: { name: 'Reporting', scopes: ['bookings:read', 'bookings:write'], expiresAt: new Date('2026-11-19T08:00:00.000Z') }
+  });
+
+  const defaulted = parseApiTokenInput({ name: 'Sync', scopes: ['admin'] }, { allowAdminScope: true, allowWriteScope: true, now });
+  assert.equal(defaulted.ok && defaulted.value.expiresAt.toISOString(), '2027-01-18T08:00:00.000Z');
+
+  assert.equal(parseApiTokenInput({ name: 'Sync', scopes: ['admin'] }, { allowAdminScope: false, allowWriteScope: true, now }).ok, false);
+  assert.equal(parseApiTokenInput({ name: 'Sync', scopes: ['bookings:read', 'bookings:write'] }, { allowAdminScope: true, allowWriteScope: false, now }).ok, false);
+  assert.equal(parseApiTokenInput({ name: 'Sync', scopes: ['bookings:delete'] }, { allowAdminScope: true, allowWriteScope: true, now }).ok, false);
+  assert.equal(parseApiTokenInput({ name: 'Sync', scopes: [] }, { allowAdminScope: true, allowWriteScope: true, now }).ok, false);
+  assert.equal(parseApiTokenInput({ name: 'Sync', scopes: ['bookings:read'], expiresInDays: 366 }, { allowAdminScope: true, allowWriteScope: true, now }).ok, false);
+  assert.equal(parseApiTokenInput({ name: '', scopes: ['bookings:read'] }, { allowAdminScope: true, allowWriteScope: true, now }).ok, false);
+});
+
+test('scopes map to routes and methods', () => {
+  assert.equal(requiredApiTokenScope('GET', '/bookings'), 'bookings:read');
+  assert.equal(requiredApiTokenScope('post', '/bookings'), 'bookings:write');
+  assert.equal(requiredApiTokenScope('GET', '/admin/bookings'), 'admin');
+  assert.equal(requiredApiTokenScope('GET', '/administration'), 'bookings:read');
+
+  assert.equal(hasApiTokenScope(['bookings:read'], 'bookings:read'), true);
+  assert.equal(hasApiTokenScope(['bookings:read'], 'bookings:write'), false);
+  assert.equal(hasApiTokenScope(['bookings:write'], 'bookings:read'), true);
+  assert.equal(hasApiTokenScope(['bookings:write'], 'admin'), false);
+  assert.equal(hasApiTokenScope(['admin'], 'bookings:write'), true);
+});
+
+test('revoked and expired tokens are rejected', () => {
+  const now = new Date('2026-10-20T08:00:00.000Z');
+  assert.equal(isApiTokenUsable({ expiresAt: new Date('2026-10-21T00:00:00.000Z'), revokedAt: null }, now), true);
+  assert.equal(isApiTokenUsable({ expiresAt: now, revokedAt: null }, now), false);
+  assert.equal(isApiTokenUsable({ expiresAt: new Date('2026-10-21T00:00:00.000Z'), revokedAt: new Date('2026-10-19T00:00:00.000Z') }, now), false);
+});
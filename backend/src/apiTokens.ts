@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+export const API_TOKEN_SCOPES = ['bookings:read', 'bookings:write', 'admin'] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_PREFIX = 'rbms_';
+export const API_TOKEN_DEFAULT_LIFETIME_DAYS = 90;
+export const API_TOKEN_MAX_LIFETIME_DAYS = 365;
+// Shown in lists so users can tell their tokens apart without the secret part.
+const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export type ApiTokenInput = { name: string; scopes: ApiTokenScope[]; expiresAt: Date };
+
+export const isApiTokenScope = (value: unknown): value is ApiTokenScope => typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+
+// Tokens carry 256 bits of randomness, so a fast hash is enough; bcrypt would only slow down every API request.
+export const hashApiToken = (token: string): string => createHash('sha256').update(token, 'utf8').digest('hex');
+
+export const createApiToken = (): { token: string; tokenPrefix: string; tokenHash: string } => {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenPrefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH), tokenHash: hashApiToken(token) };
+};
+
+export const parseBearerToken = (header: string | undefined): string | null => {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? '');
+  return match ? match[1] : null;
+};
+
+// `allowAdminScope` is false for personal tokens of non-admins, so a token never grants more than its owner has.
+// `allowWriteScope` is false for service accounts: bookings always belong to an employee, which they are not.
+export const parseApiTokenInput = (body: unknown, options: { allowAdminScope: boolean; allowWriteScope: boolean; now: Date }): { ok: true; value: ApiTokenInput } | { ok: false; message: string } => {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as { name?: unknown; scopes?: unknown; expiresInDays?: unknown };
+
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { ok: false, message: 'name ist erforderlich' };
+  if (raw.name.trim().length > 120) return { ok: false, message: 'name darf höchstens 120 Zeichen lang sein' };
+
+  if (!Array.isArray(raw.scopes) || raw.scopes.length === 0) return { ok: false, message: 'scopes muss eine nicht leere Liste sein' };
+  const invalid = raw.scopes.find((scope) => !isApiTokenScope(scope));
+  if (invalid !== undefined) return { ok: false, message: `unbekannter Scope: ${String(invalid)}` };
+  const scopes = API_TOKEN_SCOPES.filter((scope) => (raw.scopes as unknown[]).includes(scope));
+  if (scopes.includes('admin') && !options.allowAdminScope) return { ok: false, message: 'Den Scope admin gibt es nur für Admin-Konten' };
+  if (scopes.includes('bookings:write') && !options.allowWriteScope) return { ok: false, message: 'Den Scope bookings:write gibt es nur für persönliche Tokens' };
+
+  const expiresInDays = raw.expiresInDays === undefined ? API_TOKEN_DEFAULT_LIFETIME_DAYS : raw.expiresInDays;
+  if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > API_TOKEN_MAX_LIFETIME_DAYS) {
+    return { ok: false, message: `expiresInDays muss eine ganze Zahl zwischen 1 und ${API_TOKEN_MAX_LIFETIME_DAYS} sein` };
+  }
+
+  return { ok: true, value: { name: raw.name.trim(), scopes, expiresAt: new Date(options.now.getTime() + expiresInDays * 24 * 60 * 60 * 1000) } };
+};
+
+export const isApiTokenUsable = (token: { expiresAt: Date; revokedAt: Date | null }, now: Date): boolean => !token.revokedAt && token.expiresAt.getTime() > now.getTime();
+
+// Scopes are checked per request: /admin needs `admin`, reads need `bookings:read`, everything else `bookings:write`.
+// `admin` includes both booking scopes and `bookings:write` includes `bookings:read`.
+export const requiredApiTokenScope = (method: string, path: string): ApiTokenScope => {
+  if (path === '/admin' || path.startsWith('/admin/')) return 'admin';
+  const upperMethod = method.toUpperCase();
+  return upperMethod === 'GET' || upperMethod === 'HEAD' || upperMethod === 'OPTIONS' ? 'bookings:read' : 'bookings:write';
+};
+
+export const hasApiTokenScope = (scopes: readonly string[], required: ApiTokenScope): boolean => {
+  if (scopes.includes('admin')) return true;
+  if (required === 'bookings:read') return scopes.includes('bookings:read') || scopes.includes('bookings:write');
+  return scopes.includes(required);
+};
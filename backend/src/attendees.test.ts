@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { countRoomOccupants, exceedsRoomCapacity, parseAttendeeResponse, parseAttendeesInput, parseMeetingTitle } from './attendees';
+
+test('attendee input accepts employees and external guests and drops duplicates', () => {
+  const parsed = parseAttendeesInput([
+    { employeeId: 'emp-1' },
+    { employeeId: 'emp-1' },
+    { name: ' Erika Muster ', email: 'Erika@Example.com' },
+    { name: 'E. Muster', email: 'erika@example.com' },
+    { name: 'Max' }
+  ]);
+  assert.ok(parsed.ok);
+  assert.deepEqual(parsed.value, [
+    { employeeId: 'emp-1', name: null, email: null },
+    { employeeId: null, name: 'Erika Muster', email: 'erika@example.com' },
+    { employeeId: null, name: 'Max', email: null }
+  ]);
+
+  assert.equal(parseAttendeesInput('emp-1').ok, false);
+  assert.equal(parseAttendeesInput([{ name: 'X' }]).ok, false);
+  assert.equal(parseAttendeesInput([{ name: 'Max', email: 'max@' }]).ok, false);
+  assert.equal(parseAttendeesInput(Array.from({ length: 51 }, (_, index) => ({ employeeId: `emp-${index}` }))).ok, false);
+});
+
+test('room occupancy counts the booker once and compares against capacity', () => {
+  const attendees = [{ employeeId: 'emp-1' }, { employeeId: 'emp-2' }, { employeeId: null }];
+  assert.equal(countRoomOccupants(attendees, 'emp-1'), 3);
+  assert.equal(countRoomOccupants(attendees, null), 4);
+  assert.equal(countRoomOccupants([], 'emp-1'), 1);
+
+  assert.equal(exceedsRoomCapacity(3, 3), false);
+  assert.equal(exceedsRoomCapacity(3, 4), true);
+  assert.equal(exceedsRoomCapacity(null, 40), false);
+});
+
+test('titles and responses are normalized', () => {
+  assert.deepEqual(parseMeetingTitle('  Sprint Review '), { ok: true, value: 'Sprint Review' });
+  assert.deepEqual(parseMeetingTitle('   '), { ok: true, value: null });
+  assert.equal(parseMeetingTitle('x'.repeat(121)).ok, false);
+
+  assert.equal(parseAttendeeResponse('accepted'), 'ACCEPTED');
+  assert.equal(parseAttendeeResponse('PENDING'), null);
+  assert.equal(parseAttendeeResponse(1), null);
+});
@@ -0,0 +1,65 @@
+import type { AttendeeResponse } from '@prisma/client';
+
+export type AttendeeInput =
+  | { employeeId: string; name: null; email: null }
+  | { employeeId: null; name: string; email: string | null };
+
+export const MAX_BOOKING_ATTENDEES = 50;
+export const MAX_MEETING_TITLE_LENGTH = 120;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const RESPONSES: AttendeeResponse[] = ['ACCEPTED', 'TENTATIVE', 'DECLINED'];
+
+export const parseMeetingTitle = (value: unknown): { ok: true; value: string | null } | { ok: false; message: string } => {
+  if (value === null || value === undefined) return { ok: true, value: null };
+  if (typeof value !== 'string') return { ok: false, message: 'title muss ein String sein' };
+  const title = value.trim();
+  if (title.length > MAX_MEETING_TITLE_LENGTH) return { ok: false, message: `title darf höchstens ${MAX_MEETING_TITLE_LENGTH} Zeichen lang sein` };
+  return { ok: true, value: title || null };
+};
+
+// Employees are referenced by id; external guests need a name and may carry an e-mail for invitations.
+// Duplicates (same employee, same guest e-mail) are dropped so the attendee count stays honest.
+export const parseAttendeesInput = (value: unknown): { ok: true; value: AttendeeInput[] } | { ok: false; message: string } => {
+  if (value === null || value === undefined) return { ok: true, value: [] };
+  if (!Array.isArray(value)) return { ok: false, message: 'attendees muss ein Array sein' };
+  if (value.length > MAX_BOOKING_ATTENDEES) return { ok: false, message: `at most ${MAX_BOOKING_ATTENDEES} attendees are allowed` };
+
+  const attendees: AttendeeInput[] = [];
+  const seen = new Set<string>();
+  for (const entry of value as unknown[]) {
+    if (typeof entry !== 'object' || entry === null) return { ok: false, message: 'attendees darf nur Objekte enthalten' };
+    const raw = entry as { employeeId?: unknown; name?: unknown; email?: unknown };
+
+    if (typeof raw.employeeId === 'string' && raw.employeeId.trim()) {
+      const employeeId = raw.employeeId.trim();
+      if (seen.has(`employee:${employeeId}`)) continue;
+      seen.add(`employee:${employeeId}`);
+      attendees.push({ employeeId, name: null, email: null });
+      continue;
+    }
+
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (name.length < 2) return { ok: false, message: 'external attendees need a name with at least 2 characters' };
+    const email = typeof raw.email === 'string' && raw.email.trim() ? raw.email.trim().toLowerCase() : null;
+    if (email && !EMAIL_PATTERN.test(email)) return { ok: false, message: `Teilnehmer-E-Mail ${email} ist ungültig` };
+    const key = email ? `email:${email}` : `name:${name.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    attendees.push({ employeeId: null, name: name.slice(0, 80), email });
+  }
+  return { ok: true, value: attendees };
+};
+
+// The person the room is booked for (employee or guest) always occupies a seat in addition to the attendees.
+export const countRoomOccupants = (attendees: Array<{ employeeId: string | null }>, bookerEmployeeId: string | null): number => (
+  1 + attendees.filter((attendee) => !bookerEmployeeId || attendee.employeeId !== bookerEmployeeId).length
+);
+
+export const exceedsRoomCapacity = (capacity: number | null, occupantCount: number): boolean => capacity !== null && occupantCount > capacity;
+
+export const parseAttendeeResponse = (value: unknown): AttendeeResponse | null => (
+  typeof value === 'string' && RESPONSES.includes(value.trim().toUpperCase() as AttendeeResponse)
+    ? value.trim().toUpperCase() as AttendeeResponse
+    : null
+);
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { toAuditSnapshot } from './audit';
+
+test('audit snapshots serialize dates and drop secrets', () => {
+  const snapshot = toAuditSnapshot({
+    id: 'emp-1',
+    email: 'a@example.com',
+    passwordHash: 'secret',
+    photoData: new Uint8Array([1, 2, 3]),
+    calendarFeedToken: 'token',
+    secret: 'whsec_test',
+    tokenHash: 'abc123',
+    createdAt: new Date('2026-10-19T08:00:00.000Z'),
+    nested: { date: new Date('2026-10-20T00:00:00.000Z'), skipped: undefined }
+  });
+
+  assert.deepEqual(snapshot, {
+    id: 'emp-1',
+    email: 'a@example.com',
+    createdAt: '2026-10-19T08:00:00.000Z',
+    nested: { date: '2026-10-20T00:00:00.000Z' }
+  });
+});
+
+test('inline images are replaced and missing snapshots stay empty', () => {
+  assert.deepEqual(toAuditSnapshot({ imageUrl: 'data:image/png;base64,AAAA', list: [undefined, 1] }), { imageUrl: '[data-url]', list: [null, 1] });
+  assert.equal(toAuditSnapshot(null), undefined);
+  assert.equal(toAuditSnapshot(undefined), undefined);
+});
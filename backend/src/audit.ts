@@ -0,0 +1,45 @@
+import type { Prisma } from '@prisma/client';
+
+export type AuditAction =
+  | 'CREATE'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'CANCEL'
+  | 'CHECK_IN'
+  | 'AUTO_RELEASE'
+  | 'WAITLIST_BOOK'
+  | 'REVOKE'
+  | 'DB_CREATE'
+  | 'DB_UPDATE'
+  | 'DB_DELETE'
+  | 'DB_CLEAR';
+
+export type AuditEntityType = 'Booking' | 'RecurringBooking' | 'Desk' | 'Floorplan' | 'Tenant' | 'Employee' | 'BookingPolicy' | 'ClosurePeriod' | 'BookingAttendee' | 'Team' | 'Zone' | 'WebhookSubscription' | 'ServiceAccount' | 'ApiToken' | 'BookingDelegation' | 'Visitor' | 'RoomDisplay' | (string & {});
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['Booking', 'RecurringBooking', 'Desk', 'Floorplan', 'Tenant', 'Employee', 'BookingPolicy', 'ClosurePeriod', 'BookingAttendee', 'Team', 'Zone', 'WebhookSubscription', 'ServiceAccount', 'ApiToken', 'BookingDelegation', 'Visitor', 'RoomDisplay'];
+
+// Secrets and binary blobs never end up in the audit trail, no matter which route wrote the row.
+const REDACTED_KEYS = new Set(['passwordHash', 'photoData', 'calendarFeedToken', 'graphAccessToken', 'secret', 'tokenHash']);
+
+const toAuditValue = (value: unknown): Prisma.InputJsonValue | null | undefined => {
+  if (value === null) return null;
+  if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return undefined;
+  if (typeof value === 'bigint') return value.toString();
+  // Floorplan images are stored inline as data URLs and would bloat every snapshot.
+  if (typeof value === 'string' && value.startsWith('data:')) return '[data-url]';
+  if (typeof value !== 'object') return value as Prisma.InputJsonValue;
+  if (Array.isArray(value)) return value.map((entry) => toAuditValue(entry) ?? null);
+
+  const result: Record<string, Prisma.InputJsonValue | null> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (REDACTED_KEYS.has(key)) continue;
+    const converted = toAuditValue(entry);
+    if (converted !== undefined) result[key] = converted;
+  }
+  return result;
+};
+
+// Returns undefined for missing snapshots so Prisma stores SQL NULL instead of a JSON null literal.
+export const toAuditSnapshot = (value: unknown): Prisma.InputJsonValue | undefined => toAuditValue(value) ?? undefined;
@@ -2,15 +2,23 @@ export type CancelActor = {
   employeeId: string;
   email: string;
   isAdmin: boolean;
+  // Employees who delegated their bookings to the actor.
+  principalEmployeeIds?: readonly string[];
 };
 
 export type CancelBooking = {
   bookedFor: 'SELF' | 'GUEST';
   employeeId?: string | null;
   createdByEmployeeId: string;
+  // Set on walk-ins from a room display; the admin stored as creator never made them.
+  roomDisplayId?: string | null;
 };
 
 export const canCancelBooking = ({ booking, actor }: { booking: CancelBooking; actor: CancelActor }): boolean => {
-  return (booking.bookedFor === 'SELF' && booking.employeeId === actor.employeeId)
-    || (booking.bookedFor === 'GUEST' && booking.createdByEmployeeId === actor.employeeId);
+  const actsFor = (employeeId?: string | null): boolean => {
+    if (!employeeId) return false;
+    return employeeId === actor.employeeId || (actor.principalEmployeeIds?.includes(employeeId) ?? false);
+  };
+  return (booking.bookedFor === 'SELF' && actsFor(booking.employeeId))
+    || (booking.bookedFor === 'GUEST' && !booking.roomDisplayId && actsFor(booking.createdByEmployeeId));
 };
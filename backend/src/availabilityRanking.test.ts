@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { rankResources } from './availabilityRanking';
+
+const desk = (id: string, floorplanId: string, x: number | null, y: number | null) => ({ id, floorplanId, x, y });
+
+test('resources the user booked before rank above unknown ones', () => {
+  const ranked = rankResources([desk('d-1', 'fp-1', 0, 0), desk('d-2', 'fp-2', 0, 0), desk('d-3', 'fp-2', 5, 5)], {
+    deskUsage: new Map([['d-3', 4]]),
+    floorplanUsage: new Map([['fp-2', 4]]),
+    teammates: []
+  });
+  assert.deepEqual(ranked.map((entry) => entry.resource.id), ['d-3', 'd-2', 'd-1']);
+  assert.deepEqual(ranked[0].reasons, ['USED_BEFORE']);
+  assert.deepEqual(ranked[1].reasons, ['FAMILIAR_FLOORPLAN']);
+  assert.equal(ranked[2].score, 0);
+});
+
+test('colleagues on the same floorplan pull nearby resources up', () => {
+  const ranked = rankResources([desk('far', 'fp-1', 900, 0), desk('near', 'fp-1', 100, 0), desk('other-floor', 'fp-2', 100, 0), desk('unplaced', 'fp-1', null, null)], {
+    deskUsage: new Map(),
+    floorplanUsage: new Map(),
+    teammates: [{ floorplanId: 'fp-1', x: 100, y: 0 }]
+  });
+  assert.deepEqual(ranked.map((entry) => entry.resource.id), ['near', 'far', 'unplaced', 'other-floor']);
+  assert.equal(ranked[0].score, 20);
+  assert.equal(ranked[1].score, 10);
+  assert.deepEqual(ranked[2].reasons, ['NEAR_TEAM']);
+  assert.deepEqual(ranked[3].reasons, []);
+});
+
+test('desks in a zone of the own team come first', () => {
+  const ranked = rankResources([{ ...desk('d-1', 'fp-1', 0, 0), zoneId: null }, { ...desk('d-2', 'fp-1', 0, 0), zoneId: 'zone-team' }], {
+    deskUsage: new Map([['d-1', 5]]),
+    floorplanUsage: new Map(),
+    teammates: [],
+    teamZoneIds: new Set(['zone-team'])
+  });
+  assert.deepEqual(ranked.map((entry) => entry.resource.id), ['d-2', 'd-1']);
+  assert.deepEqual(ranked[0].reasons, ['TEAM_ZONE']);
+});
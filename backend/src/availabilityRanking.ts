@@ -0,0 +1,84 @@
+export const USAGE_LOOKBACK_DAYS = 90;
+
+export type RankableResource = { id: string; floorplanId: string; zoneId?: string | null; x: number | null; y: number | null };
+export type TeammatePosition = { floorplanId: string; x: number | null; y: number | null };
+export type RankingReason = 'TEAM_ZONE' | 'USED_BEFORE' | 'FAMILIAR_FLOORPLAN' | 'NEAR_TEAM';
+
+export type RankingSignals = {
+  // Own bookings within USAGE_LOOKBACK_DAYS, per desk and per floorplan.
+  deskUsage: Map<string, number>;
+  floorplanUsage: Map<string, number>;
+  // Where colleagues of the actor sit on the searched day.
+  teammates: TeammatePosition[];
+  // Zones assigned to one of the actor's teams.
+  teamZoneIds?: ReadonlySet<string>;
+};
+
+export type RankedResource<T> = { resource: T; score: number; reasons: RankingReason[] };
+
+const DESK_USAGE_WEIGHT = 3;
+const DESK_USAGE_CAP = 10;
+const FLOORPLAN_USAGE_CAP = 20;
+const TEAM_ZONE_BONUS = 25;
+const TEAM_FLOORPLAN_BONUS = 10;
+const TEAM_DISTANCE_BONUS = 10;
+
+const distance = (left: { x: number; y: number }, right: { x: number; y: number }): number => Math.hypot(left.x - right.x, left.y - right.y);
+
+const hasPosition = <T extends { x: number | null; y: number | null }>(value: T): value is T & { x: number; y: number } => value.x !== null && value.y !== null;
+
+// Desk coordinates are stored in different units per floorplan (pixels or fractions), so distances are only
+// compared within one floorplan: the candidate closest to a colleague gets the full bonus, the farthest none.
+export const rankResources = <T extends RankableResource>(resources: T[], signals: RankingSignals): RankedResource<T>[] => {
+  const nearestTeammateDistance = new Map<string, number>();
+  for (const resource of resources) {
+    if (!hasPosition(resource)) continue;
+    const distances = signals.teammates
+      .filter((teammate) => teammate.floorplanId === resource.floorplanId && hasPosition(teammate))
+      .map((teammate) => distance(resource, teammate as { x: number; y: number }));
+    if (distances.length > 0) nearestTeammateDistance.set(resource.id, Math.min(...distances));
+  }
+
+  const maxDistanceByFloorplan = new Map<string, number>();
+  for (const resource of resources) {
+    const nearest = nearestTeammateDistance.get(resource.id);
+    if (nearest === undefined) continue;
+    maxDistanceByFloorplan.set(resource.floorplanId, Math.max(maxDistanceByFloorplan.get(resource.floorplanId) ?? 0, nearest));
+  }
+
+  return resources
+    .map((resource, index) => {
+      const reasons: RankingReason[] = [];
+      let score = 0;
+
+      if (resource.zoneId && signals.teamZoneIds?.has(resource.zoneId)) {
+        score += TEAM_ZONE_BONUS;
+        reasons.push('TEAM_ZONE');
+      }
+
+      const deskUsage = signals.deskUsage.get(resource.id) ?? 0;
+      const floorplanUsage = signals.floorplanUsage.get(resource.floorplanId) ?? 0;
+      if (deskUsage > 0) {
+        score += Math.min(deskUsage, DESK_USAGE_CAP) * DESK_USAGE_WEIGHT;
+        reasons.push('USED_BEFORE');
+      }
+      if (floorplanUsage > 0) {
+        score += Math.min(floorplanUsage, FLOORPLAN_USAGE_CAP);
+        if (deskUsage === 0) reasons.push('FAMILIAR_FLOORPLAN');
+      }
+
+      if (signals.teammates.some((teammate) => teammate.floorplanId === resource.floorplanId)) {
+        score += TEAM_FLOORPLAN_BONUS;
+        const nearest = nearestTeammateDistance.get(resource.id);
+        const maxDistance = maxDistanceByFloorplan.get(resource.floorplanId) ?? 0;
+        if (nearest !== undefined) {
+          score += maxDistance === 0 ? TEAM_DISTANCE_BONUS : TEAM_DISTANCE_BONUS * (1 - nearest / maxDistance);
+        }
+        reasons.push('NEAR_TEAM');
+      }
+
+      return { resource, score: Math.round(score * 10) / 10, reasons, index };
+    })
+    .sort((left, right) => right.score - left.score || left.index - right.index)
+    .map(({ resource, score, reasons }) => ({ resource, score, reasons }));
+};
@@ -18,8 +18,10 @@ type BookingFixture = {
 };
 
 const bookings = new Map<string, BookingFixture>();
+const delegations: Array<{ principalId: string; delegateId: string }> = [];
 beforeEach(() => {
   bookings.clear();
+  delegations.length = 0;
 
   bookings.set('booking-b-self', {
     id: 'booking-b-self',
@@ -113,6 +115,8 @@ beforeEach(() => {
     return { count };
   };
   (prisma.recurringBooking.deleteMany as unknown) = async () => ({ count: 1 });
+  (prisma.bookingDelegation.findMany as unknown) = async ({ where }: { where: { delegateId: string } }) => delegations.filter((delegation) => delegation.delegateId === where.delegateId);
+  (prisma.webhookSubscription.findMany as unknown) = async () => [];
   (prisma.$transaction as unknown) = async (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma);
 });
 
@@ -162,6 +166,13 @@ test('A cancels A_GUEST -> 200', async () => {
   assert.equal(bookings.has('booking-a-guest'), false);
 });
 
+test('Delegate A cancels B_SELF -> 200', async () => {
+  delegations.push({ principalId: 'user-b', delegateId: 'user-a' });
+  const response = await cancelAs({ bookingId: 'booking-b-self', userId: 'user-a', email: 'user-a@example.com' });
+  assert.equal(response.status, 200);
+  assert.equal(bookings.has('booking-b-self'), false);
+});
+
 test('Admin cancels B_SELF in user endpoint -> 403', async () => {
   const response = await cancelAs({ bookingId: 'booking-b-self', userId: 'admin-user', email: 'admin@example.com', role: 'admin' });
   assert.equal(response.status, 403);
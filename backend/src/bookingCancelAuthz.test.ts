@@ -47,3 +47,25 @@ test('Admin in user flow cancels foreign booking -> forbidden', () => {
   assert.equal(selfAllowed, false);
   assert.equal(guestAllowed, false);
 });
+
+test('Delegate of B cancels B SELF and B GUEST -> allowed', () => {
+  const actor = { employeeId: 'emp-a', email: 'user-a@example.com', isAdmin: false, principalEmployeeIds: ['emp-b'] };
+  assert.equal(canCancelBooking({ booking: { bookedFor: 'SELF', employeeId: 'emp-b', createdByEmployeeId: 'emp-b' }, actor }), true);
+  assert.equal(canCancelBooking({ booking: { bookedFor: 'GUEST', employeeId: null, createdByEmployeeId: 'emp-b' }, actor }), true);
+});
+
+test('Delegate of B cancels C SELF booked by B -> forbidden', () => {
+  const allowed = canCancelBooking({
+    booking: { bookedFor: 'SELF', employeeId: 'emp-c', createdByEmployeeId: 'emp-b' },
+    actor: { employeeId: 'emp-a', email: 'user-a@example.com', isAdmin: false, principalEmployeeIds: ['emp-b'] }
+  });
+  assert.equal(allowed, false);
+});
+
+test('Admin who registered a room display cancels its walk-in as creator -> forbidden', () => {
+  const allowed = canCancelBooking({
+    booking: { bookedFor: 'GUEST', employeeId: null, createdByEmployeeId: 'emp-admin', roomDisplayId: 'display-1' },
+    actor: { employeeId: 'emp-admin', email: 'admin@example.com', isAdmin: false }
+  });
+  assert.equal(allowed, false);
+});
@@ -0,0 +1,116 @@
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { devUserHeaders, requestJson, stubPrismaSideEffects } from './integrationTestServer';
+import { prisma } from './prisma';
+
+type EmployeeFixture = { id: string; email: string; tenantDomainId: string | null };
+type BookingFixture = {
+  id: string;
+  deskId: string;
+  date: Date;
+  bookedFor: 'SELF' | 'GUEST';
+  userEmail: string | null;
+  employeeId: string | null;
+  createdByEmployeeId: string;
+};
+
+const employees: EmployeeFixture[] = [
+  { id: 'user-a', email: 'user-a@example.com', tenantDomainId: 'tenant-a' },
+  { id: 'user-b', email: 'user-b@example.com', tenantDomainId: 'tenant-b' }
+];
+
+// Only bookable for tenant B, so a delegate from tenant A has to be checked against the principal's tenant.
+const desk = {
+  id: 'desk-b',
+  name: 'Tisch B',
+  floorplanId: 'floorplan-1',
+  kind: 'TISCH',
+  capacity: null,
+  allowSeriesOverride: null,
+  tenantScope: 'SELECTED',
+  employeeScope: 'ALL',
+  deskTenants: [{ tenantId: 'tenant-b' }],
+  deskEmployees: [],
+  floorplan: { defaultAllowSeries: true, tenantScope: 'ALL', floorplanTenants: [] },
+  zone: null
+};
+
+const bookings = new Map<string, BookingFixture>();
+const delegations: Array<{ principalId: string; delegateId: string }> = [];
+beforeEach(() => {
+  bookings.clear();
+  delegations.length = 0;
+
+  bookings.set('booking-b-self', {
+    id: 'booking-b-self',
+    deskId: 'desk-b',
+    date: new Date('2026-11-02T00:00:00.000Z'),
+    bookedFor: 'SELF',
+    userEmail: 'user-b@example.com',
+    employeeId: 'user-b',
+    createdByEmployeeId: 'user-b'
+  });
+
+  stubPrismaSideEffects();
+  (prisma.employee.findUnique as unknown) = async ({ where }: { where: { id?: string; email?: string } }) => {
+    const employee = employees.find((candidate) => candidate.id === where.id || candidate.email === where.email);
+    return employee ? { ...employee, entraOid: null, isActive: true } : null;
+  };
+  (prisma.desk.findUnique as unknown) = async ({ where: { id } }: { where: { id: string } }) => (id === desk.id ? desk : null);
+  (prisma.closurePeriod.findMany as unknown) = async () => [];
+  (prisma.bookingPolicy.findMany as unknown) = async () => [];
+  (prisma.teamMember.findMany as unknown) = async () => [];
+  (prisma.bookingDelegation.count as unknown) = async ({ where }: { where: { principalId: string; delegateId: string } }) => (
+    delegations.filter((delegation) => delegation.principalId === where.principalId && delegation.delegateId === where.delegateId).length
+  );
+  (prisma.bookingDelegation.findMany as unknown) = async ({ where }: { where: { delegateId: string } }) => delegations.filter((delegation) => delegation.delegateId === where.delegateId);
+  (prisma.booking.findUnique as unknown) = async ({ where: { id } }: { where: { id: string } }) => {
+    const booking = bookings.get(id);
+    return booking ? { ...booking, attendees: [] } : null;
+  };
+  (prisma.booking.findMany as unknown) = async () => [];
+  (prisma.booking.create as unknown) = async ({ data }: { data: Omit<BookingFixture, 'id'> }) => {
+    const booking = { ...data, id: `booking-${bookings.size + 1}` };
+    bookings.set(booking.id, booking);
+    return booking;
+  };
+  (prisma.$executeRaw as unknown) = async () => 1;
+});
+
+const requestAs = (method: 'POST' | 'PUT', path: string, body: Record<string, unknown>, userId = 'user-a') => (
+  requestJson<{ code?: string; createdCount?: number }>(method, path, { headers: devUserHeaders(userId), body })
+);
+
+test('A books a range for B without delegation -> 403 DELEGATION_REQUIRED', async () => {
+  const response = await requestAs('POST', '/bookings/range', { deskId: 'desk-b', userEmail: 'user-b@example.com', from: '2026-11-03', to: '2026-11-04' });
+  assert.equal(response.status, 403);
+  assert.equal(response.body.code, 'DELEGATION_REQUIRED');
+  assert.equal(bookings.size, 1);
+});
+
+test('Delegate A books a range for B -> 201 in B\'s name and tenant', async () => {
+  delegations.push({ principalId: 'user-b', delegateId: 'user-a' });
+  const response = await requestAs('POST', '/bookings/range', { deskId: 'desk-b', userEmail: 'user-b@example.com', from: '2026-11-03', to: '2026-11-04' });
+  assert.equal(response.status, 201);
+  assert.equal(response.body.createdCount, 2);
+  const created = Array.from(bookings.values()).filter((booking) => booking.id !== 'booking-b-self');
+  assert.equal(created.length, 2);
+  for (const booking of created) {
+    assert.equal(booking.userEmail, 'user-b@example.com');
+    assert.equal(booking.employeeId, 'user-b');
+    assert.equal(booking.createdByEmployeeId, 'user-a');
+  }
+});
+
+test('A books a single day for B without delegation -> 403 DELEGATION_REQUIRED', async () => {
+  const response = await requestAs('POST', '/bookings', { deskId: 'desk-b', userEmail: 'user-b@example.com', date: '2026-11-03' });
+  assert.equal(response.status, 403);
+  assert.equal(response.body.code, 'DELEGATION_REQUIRED');
+  assert.equal(bookings.size, 1);
+});
+
+test('A moves B_SELF without delegation -> 403', async () => {
+  const response = await requestAs('PUT', '/bookings/booking-b-self', { deskId: 'desk-b', date: '2026-11-03' });
+  assert.equal(response.status, 403);
+  assert.equal(bookings.get('booking-b-self')?.date.toISOString(), '2026-11-02T00:00:00.000Z');
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { type BookingPolicyRule, evaluateBookingPolicies, isoWeekStart, parseBookingPolicyInput } from './bookingPolicy';
+
+const basePolicy: BookingPolicyRule = {
+  id: 'policy-1',
+  name: 'Standard',
+  floorplanId: null,
+  resourceKind: null,
+  tenantId: null,
+  minLeadDays: null,
+  maxAdvanceDays: null,
+  maxBookingsPerWeek: null,
+  minDurationMinutes: null,
+  maxDurationMinutes: null,
+  blockedWeekdays: []
+};
+
+const scope = { floorplanId: 'fp-1', kind: 'RAUM' as const, tenantId: 'tenant-1' };
+const today = '2026-10-19';
+
+test('horizon, weekday and duration limits reject with stable codes', () => {
+  const policies = [{ ...basePolicy, minLeadDays: 1, maxAdvanceDays: 14, blockedWeekdays: [6, 7], minDurationMinutes: 60, maxDurationMinutes: 240 }];
+  const codes = (date: string, durationMinutes: number | null) => evaluateBookingPolicies({ policies, scope, today, candidates: [{ date, durationMinutes }] }).map((violation) => violation.code);
+
+  assert.deepEqual(codes('2026-10-19', null), ['POLICY_LEAD_TIME']);
+  assert.deepEqual(codes('2026-11-03', null), ['POLICY_MAX_ADVANCE']);
+  assert.deepEqual(codes('2026-10-24', null), ['POLICY_WEEKDAY_BLOCKED']);
+  assert.deepEqual(codes('2026-10-20', 30), ['POLICY_MIN_DURATION']);
+  assert.deepEqual(codes('2026-10-20', 300), ['POLICY_MAX_DURATION']);
+  assert.deepEqual(codes('2026-10-20', null), []);
+  assert.deepEqual(codes('2026-11-02', 240), []);
+});
+
+test('policies only apply to their floorplan, resource kind and tenant', () => {
+  const candidates = [{ date: '2026-10-24', durationMinutes: null }];
+  const blockSaturday = { ...basePolicy, blockedWeekdays: [6] };
+
+  assert.equal(evaluateBookingPolicies({ policies: [{ ...blockSaturday, floorplanId: 'fp-2' }], scope, today, candidates }).length, 0);
+  assert.equal(evaluateBookingPolicies({ policies: [{ ...blockSaturday, resourceKind: 'TISCH' }], scope, today, candidates }).length, 0);
+  assert.equal(evaluateBookingPolicies({ policies: [{ ...blockSaturday, tenantId: 'tenant-2' }], scope, today, candidates }).length, 0);
+  assert.equal(evaluateBookingPolicies({ policies: [{ ...blockSaturday, floorplanId: 'fp-1', resourceKind: 'RAUM', tenantId: 'tenant-1' }], scope, today, candidates }).length, 1);
+});
+
+test('weekly limit counts booking days within the policy scope', () => {
+  const policies = [{ ...basePolicy, resourceKind: 'RAUM' as const, maxBookingsPerWeek: 2 }];
+  const existingBookings = [
+    { date: '2026-10-19', floorplanId: 'fp-1', kind: 'RAUM' as const },
+    { date: '2026-10-20', floorplanId: 'fp-9', kind: 'TISCH' as const }
+  ];
+
+  assert.equal(isoWeekStart('2026-10-25'), '2026-10-19');
+  assert.deepEqual(evaluateBookingPolicies({ policies, scope, today, existingBookings, candidates: [{ date: '2026-10-21', durationMinutes: 60 }] }), []);
+  assert.deepEqual(evaluateBookingPolicies({ policies, scope, today, existingBookings, candidates: [{ date: '2026-10-19', durationMinutes: 60 }] }), []);
+
+  const violations = evaluateBookingPolicies({
+    policies,
+    scope,
+    today,
+    existingBookings,
+    candidates: ['2026-10-21', '2026-10-22', '2026-10-26'].map((date) => ({ date, durationMinutes: 60 }))
+  });
+  assert.deepEqual(violations.map((violation) => [violation.code, violation.date, violation.limit]), [['POLICY_WEEKLY_LIMIT', '2026-10-22', 2]]);
+});
+
+test('policy input is validated and normalized', () => {
+  const parsed = parseBookingPolicyInput({ name: ' Räume ', resourceKind: 'RAUM', floorplanId: '', maxAdvanceDays: 30, blockedWeekdays: [7, 6, 6] });
+  assert.ok(parsed.ok);
+  assert.equal(parsed.value.name, 'Räume');
+  assert.equal(parsed.value.floorplanId, null);
+  assert.deepEqual(parsed.value.blockedWeekdays, [6, 7]);
+  assert.equal(parsed.value.isActive, true);
+
+  assert.equal(parseBookingPolicyInput({ name: 'x', minLeadDays: 10, maxAdvanceDays: 5 }).ok, false);
+  assert.equal(parseBookingPolicyInput({ name: 'x', maxBookingsPerWeek: 0 }).ok, false);
+  assert.equal(parseBookingPolicyInput({ name: 'x', blockedWeekdays: [0] }).ok, false);
+  assert.equal(parseBookingPolicyInput({ name: 'x', resourceKind: 'LAGER' }).ok, false);
+});
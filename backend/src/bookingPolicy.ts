@@ -0,0 +1,202 @@
+import type { ResourceKind } from '@prisma/client';
+
+export type BookingPolicyRule = {
+  id: string;
+  name: string;
+  floorplanId: string | null;
+  resourceKind: ResourceKind | null;
+  tenantId: string | null;
+  minLeadDays: number | null;
+  maxAdvanceDays: number | null;
+  maxBookingsPerWeek: number | null;
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+  blockedWeekdays: number[];
+};
+
+export type BookingPolicyScope = { floorplanId: string; kind: ResourceKind; tenantId: string | null };
+
+// durationMinutes is only set for CUSTOM (time window) bookings; day slots are not duration-limited.
+export type BookingPolicyCandidate = { date: string; durationMinutes: number | null };
+
+export type BookingPolicyExistingBooking = { date: string; floorplanId: string; kind: ResourceKind };
+
+export type BookingPolicyCode =
+  | 'POLICY_LEAD_TIME'
+  | 'POLICY_MAX_ADVANCE'
+  | 'POLICY_WEEKDAY_BLOCKED'
+  | 'POLICY_MIN_DURATION'
+  | 'POLICY_MAX_DURATION'
+  | 'POLICY_WEEKLY_LIMIT';
+
+export type BookingPolicyViolation = {
+  code: BookingPolicyCode;
+  policyId: string;
+  policyName: string;
+  date: string;
+  limit: number;
+  message: string;
+};
+
+export type BookingPolicyInput = Omit<BookingPolicyRule, 'id'> & { isActive: boolean };
+
+const WEEKDAY_LABELS = ['Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag', 'Sonntag'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDay = (date: string): number => Date.parse(`${date}T00:00:00.000Z`);
+
+// ISO weekday, Monday = 1 … Sunday = 7 (same numbering as recurrence byWeekday).
+export const isoWeekday = (date: string): number => {
+  const day = new Date(parseDay(date)).getUTCDay();
+  return day === 0 ? 7 : day;
+};
+
+export const isoWeekStart = (date: string): string => new Date(parseDay(date) - (isoWeekday(date) - 1) * DAY_MS).toISOString().slice(0, 10);
+
+export const bookingPolicyApplies = (policy: Pick<BookingPolicyRule, 'floorplanId' | 'resourceKind' | 'tenantId'>, scope: BookingPolicyScope): boolean => (
+  (policy.floorplanId === null || policy.floorplanId === scope.floorplanId)
+  && (policy.resourceKind === null || policy.resourceKind === scope.kind)
+  && (policy.tenantId === null || policy.tenantId === scope.tenantId)
+);
+
+const checkCandidate = (policy: BookingPolicyRule, candidate: BookingPolicyCandidate, today: string): BookingPolicyViolation | null => {
+  const base = { policyId: policy.id, policyName: policy.name, date: candidate.date };
+  const daysAhead = Math.round((parseDay(candidate.date) - parseDay(today)) / DAY_MS);
+
+  if (policy.minLeadDays !== null && daysAhead < policy.minLeadDays) {
+    return { ...base, code: 'POLICY_LEAD_TIME', limit: policy.minLeadDays, message: `Buchungen sind frühestens ${policy.minLeadDays} Tag(e) im Voraus möglich.` };
+  }
+  if (policy.maxAdvanceDays !== null && daysAhead > policy.maxAdvanceDays) {
+    return { ...base, code: 'POLICY_MAX_ADVANCE', limit: policy.maxAdvanceDays, message: `Buchungen sind höchstens ${policy.maxAdvanceDays} Tag(e) im Voraus möglich.` };
+  }
+  const weekday = isoWeekday(candidate.date);
+  if (policy.blockedWeekdays.includes(weekday)) {
+    return { ...base, code: 'POLICY_WEEKDAY_BLOCKED', limit: weekday, message: `${WEEKDAY_LABELS[weekday - 1]} ist für diese Ressource nicht buchbar.` };
+  }
+  if (candidate.durationMinutes !== null) {
+    if (policy.minDurationMinutes !== null && candidate.durationMinutes < policy.minDurationMinutes) {
+      return { ...base, code: 'POLICY_MIN_DURATION', limit: policy.minDurationMinutes, message: `Die Mindestdauer beträgt ${policy.minDurationMinutes} Minuten.` };
+    }
+    if (policy.maxDurationMinutes !== null && candidate.durationMinutes > policy.maxDurationMinutes) {
+      return { ...base, code: 'POLICY_MAX_DURATION', limit: policy.maxDurationMinutes, message: `Die Höchstdauer beträgt ${policy.maxDurationMinutes} Minuten.` };
+    }
+  }
+  return null;
+};
+
+// The weekly limit counts booking days: a second booking on an already booked day (e.g. AM + PM) does not use up quota,
+// and a request only fails if it adds new days to a week that then exceeds the limit.
+const checkWeeklyLimit = (
+  policy: BookingPolicyRule & { maxBookingsPerWeek: number },
+  scope: BookingPolicyScope,
+  candidates: BookingPolicyCandidate[],
+  existingBookings: BookingPolicyExistingBooking[]
+): BookingPolicyViolation[] => {
+  const existingDaysByWeek = new Map<string, Set<string>>();
+  for (const booking of existingBookings) {
+    if (!bookingPolicyApplies({ ...policy, tenantId: null }, { ...scope, floorplanId: booking.floorplanId, kind: booking.kind })) continue;
+    const week = isoWeekStart(booking.date);
+    existingDaysByWeek.set(week, (existingDaysByWeek.get(week) ?? new Set()).add(booking.date));
+  }
+
+  const candidateDaysByWeek = new Map<string, Set<string>>();
+  for (const candidate of candidates) {
+    const week = isoWeekStart(candidate.date);
+    candidateDaysByWeek.set(week, (candidateDaysByWeek.get(week) ?? new Set()).add(candidate.date));
+  }
+
+  const violations: BookingPolicyViolation[] = [];
+  for (const [week, candidateDays] of Array.from(candidateDaysByWeek.entries()).sort(([left], [right]) => left.localeCompare(right))) {
+    const existingDays = existingDaysByWeek.get(week) ?? new Set<string>();
+    const newDays = Array.from(candidateDays).filter((day) => !existingDays.has(day)).sort();
+    if (newDays.length === 0 || existingDays.size + newDays.length <= policy.maxBookingsPerWeek) continue;
+    violations.push({
+      code: 'POLICY_WEEKLY_LIMIT',
+      policyId: policy.id,
+      policyName: policy.name,
+      date: newDays[Math.max(policy.maxBookingsPerWeek - existingDays.size, 0)] ?? newDays[0],
+      limit: policy.maxBookingsPerWeek,
+      message: `Pro Woche sind höchstens ${policy.maxBookingsPerWeek} Buchungstag(e) erlaubt.`
+    });
+  }
+  return violations;
+};
+
+export const evaluateBookingPolicies = (params: {
+  policies: BookingPolicyRule[];
+  scope: BookingPolicyScope;
+  today: string;
+  candidates: BookingPolicyCandidate[];
+  existingBookings?: BookingPolicyExistingBooking[];
+}): BookingPolicyViolation[] => {
+  const violations: BookingPolicyViolation[] = [];
+  for (const policy of params.policies.filter((entry) => bookingPolicyApplies(entry, params.scope))) {
+    for (const candidate of params.candidates) {
+      const violation = checkCandidate(policy, candidate, params.today);
+      if (violation) violations.push(violation);
+    }
+    if (policy.maxBookingsPerWeek !== null && params.existingBookings) {
+      violations.push(...checkWeeklyLimit({ ...policy, maxBookingsPerWeek: policy.maxBookingsPerWeek }, params.scope, params.candidates, params.existingBookings));
+    }
+  }
+  return violations.sort((left, right) => left.date.localeCompare(right.date));
+};
+
+const RESOURCE_KINDS: ResourceKind[] = ['TISCH', 'PARKPLATZ', 'RAUM', 'SONSTIGES'];
+
+const parseOptionalLimit = (value: unknown, field: string, min: number): { ok: true; value: number | null } | { ok: false; message: string } => {
+  if (value === null || value === undefined || value === '') return { ok: true, value: null };
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    return { ok: false, message: `${field} muss eine ganze Zahl >= ${min} oder null sein` };
+  }
+  return { ok: true, value };
+};
+
+export const parseBookingPolicyInput = (body: Record<string, unknown>): { ok: true; value: BookingPolicyInput } | { ok: false; message: string } => {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return { ok: false, message: 'name ist erforderlich' };
+
+  const resourceKind = body.resourceKind === null || body.resourceKind === undefined || body.resourceKind === '' ? null : body.resourceKind;
+  if (resourceKind !== null && !RESOURCE_KINDS.includes(resourceKind as ResourceKind)) {
+    return { ok: false, message: 'resourceKind muss TISCH, PARKPLATZ, RAUM, SONSTIGES oder null sein' };
+  }
+
+  const limits = {
+    minLeadDays: parseOptionalLimit(body.minLeadDays, 'minLeadDays', 0),
+    maxAdvanceDays: parseOptionalLimit(body.maxAdvanceDays, 'maxAdvanceDays', 0),
+    maxBookingsPerWeek: parseOptionalLimit(body.maxBookingsPerWeek, 'maxBookingsPerWeek', 1),
+    minDurationMinutes: parseOptionalLimit(body.minDurationMinutes, 'minDurationMinutes', 1),
+    maxDurationMinutes: parseOptionalLimit(body.maxDurationMinutes, 'maxDurationMinutes', 1)
+  };
+  for (const result of Object.values(limits)) {
+    if (!result.ok) return result;
+  }
+  const value = Object.fromEntries(Object.entries(limits).map(([key, result]) => [key, result.ok ? result.value : null])) as Pick<BookingPolicyRule, 'minLeadDays' | 'maxAdvanceDays' | 'maxBookingsPerWeek' | 'minDurationMinutes' | 'maxDurationMinutes'>;
+
+  if (value.minLeadDays !== null && value.maxAdvanceDays !== null && value.minLeadDays > value.maxAdvanceDays) {
+    return { ok: false, message: 'minLeadDays darf nicht größer als maxAdvanceDays sein' };
+  }
+  if (value.minDurationMinutes !== null && value.maxDurationMinutes !== null && value.minDurationMinutes > value.maxDurationMinutes) {
+    return { ok: false, message: 'minDurationMinutes darf nicht größer als maxDurationMinutes sein' };
+  }
+
+  const rawWeekdays = body.blockedWeekdays ?? [];
+  if (!Array.isArray(rawWeekdays) || rawWeekdays.some((day) => !Number.isInteger(day) || day < 1 || day > 7)) {
+    return { ok: false, message: 'blockedWeekdays darf nur ISO-Wochentage zwischen 1 (Montag) und 7 (Sonntag) enthalten' };
+  }
+
+  const optionalId = (input: unknown): string | null => (typeof input === 'string' && input.trim() ? input.trim() : null);
+
+  return {
+    ok: true,
+    value: {
+      name,
+      floorplanId: optionalId(body.floorplanId),
+      resourceKind: resourceKind as ResourceKind | null,
+      tenantId: optionalId(body.tenantId),
+      ...value,
+      blockedWeekdays: Array.from(new Set(rawWeekdays as number[])).sort((a, b) => a - b),
+      isActive: body.isActive !== false
+    }
+  };
+};
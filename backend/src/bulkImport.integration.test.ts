@@ -0,0 +1,64 @@
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { devUserHeaders, requestJson, stubPrismaSideEffects } from './integrationTestServer';
+import { prisma } from './prisma';
+
+type EmployeeFixture = { id: string; email: string; displayName: string; role: 'admin' | 'user'; isActive: boolean };
+
+const employees = new Map<string, EmployeeFixture>();
+const writes: string[] = [];
+beforeEach(() => {
+  employees.clear();
+  writes.length = 0;
+  employees.set('e1', { id: 'e1', email: 'anna@example.com', displayName: 'Anna', role: 'user', isActive: true });
+
+  stubPrismaSideEffects();
+  (prisma.employee.findMany as unknown) = async () => Array.from(employees.values());
+  (prisma.employee.create as unknown) = async () => {
+    writes.push('create');
+    throw new Error('unexpected create');
+  };
+  (prisma.employee.update as unknown) = async ({ where: { id }, data }: { where: { id: string }; data: Partial<EmployeeFixture> }) => {
+    writes.push(`update:${id}`);
+    const employee = { ...employees.get(id)!, ...data };
+    employees.set(id, employee);
+    return employee;
+  };
+});
+
+const csv = (lines: string[]) => Buffer.from(lines.join('\n')).toString('base64');
+
+const importAs = (role: 'admin' | 'user', body: Record<string, unknown>) => requestJson<{ code?: string; dryRun?: boolean; summary?: Record<string, number> }>(
+  'POST',
+  '/admin/employees/import',
+  { headers: devUserHeaders(`${role}-1`, role), body: { fileName: 'employees.csv', ...body } }
+);
+
+test('regular users cannot import employees', async () => {
+  const response = await importAs('user', { content: csv(['email,displayName,role', 'anna@example.com,Anna Neu,admin']), dryRun: false });
+  assert.equal(response.status, 403);
+  assert.deepEqual(writes, []);
+  assert.equal(employees.get('e1')?.role, 'user');
+});
+
+test('the import is a dry run unless dryRun is false', async () => {
+  const response = await importAs('admin', { content: csv(['email,displayName', 'anna@example.com,Anna Neu']) });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.dryRun, true);
+  assert.equal(response.body.summary?.update, 1);
+  assert.deepEqual(writes, []);
+});
+
+test('applying a file with row errors writes nothing', async () => {
+  const response = await importAs('admin', { content: csv(['email,displayName', 'anna@example.com,Anna Neu', 'not-an-email,Nobody']), dryRun: false });
+  assert.equal(response.status, 400);
+  assert.equal(response.body.code, 'IMPORT_HAS_ERRORS');
+  assert.deepEqual(writes, []);
+});
+
+test('applying a valid file updates the employees', async () => {
+  const response = await importAs('admin', { content: csv(['email,displayName', 'anna@example.com,Anna Neu']), dryRun: false });
+  assert.equal(response.status, 200);
+  assert.deepEqual(writes, ['update:e1']);
+  assert.equal(employees.get('e1')?.displayName, 'Anna Neu');
+});
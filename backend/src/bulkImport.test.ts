@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { type DeskImportContext, type ImportTable, parseCsv, planDeskImport, planEmployeeImport, readImportTable } from './bulkImport';
+import { createZip } from './zip';
+
+const table = (rows: Array<Record<string, string>>): ImportTable => ({
+  columns: Array.from(new Set(rows.flatMap((row) => Object.keys(row)))),
+  rows: rows.map((values, index) => ({ row: index + 2, values }))
+});
+
+test('CSV files are parsed with quotes and the delimiter of the header line', () => {
+  assert.deepEqual(parseCsv('\uFEFFname,kind\r\n"A, 1",TISCH\n"Say ""hi""",\n'), [['name', 'kind'], ['A, 1', 'TISCH'], ['Say "hi"', '']]);
+  assert.deepEqual(parseCsv('name;x;y\nA-1;0,25;0,5'), [['name', 'x', 'y'], ['A-1', '0,25', '0,5']]);
+});
+
+test('uploads are decoded from base64 into rows keyed by normalized headers', () => {
+  const csv = Buffer.from('Name;Has Charger;Notiz\nA-1;ja;\n;;\nA-2;;x\n', 'utf8').toString('base64');
+  assert.deepEqual(readImportTable({ fileName: 'desks.csv', content: `data:text/csv;base64,${csv}` }), {
+    ok: true,
+    value: { columns: ['name', 'hascharger', 'notiz'], rows: [{ row: 2, values: { name: 'A-1', hascharger: 'ja', notiz: '' } }, { row: 4, values: { name: 'A-2', hascharger: '', notiz: 'x' } }] }
+  });
+
+  const latin1 = Buffer.from('email,displayName\nm@x.de,Jörg\n', 'latin1').toString('base64');
+  const decoded = readImportTable({ fileName: 'people.csv', content: latin1 });
+  assert.equal(decoded.ok && decoded.value.rows[0].values.displayname, 'Jörg');
+
+  const xlsx = createZip([{ name: 'xl/worksheets/sheet1.xml', data: '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>email</t></is></c></row><row r="2"><c r="A2" t="inlineStr"><is><t>a@x.de</t></is></c></row></sheetData></worksheet>' }]);
+  assert.deepEqual(readImportTable({ fileName: 'upload', content: xlsx.toString('base64') }), { ok: true, value: { columns: ['email'], rows: [{ row: 2, values: { email: 'a@x.de' } }] } });
+
+  assert.deepEqual(readImportTable({ fileName: 'a.csv', content: '' }), { ok: false, message: 'content muss die Base64-kodierte Datei sein' });
+  assert.deepEqual(readImportTable({ fileName: 'a.csv', content: Buffer.from('name\n').toString('base64') }), { ok: false, message: 'the file contains no data rows' });
+  assert.equal(readImportTable({ fileName: 'a.xlsx', content: Buffer.from('name\nA').toString('base64') }).ok, false);
+});
+
+const deskContext: DeskImportContext = {
+  defaultKind: 'TISCH',
+  existingDesks: [
+    { id: 'd1', name: 'A-1', kind: 'TISCH', hasCharger: false, x: 0.1, y: 0.2, tenantScope: 'ALL', tenantIds: [], employeeScope: 'ALL', employeeIds: [] },
+    { id: 'd2', name: 'P-1', kind: 'PARKPLATZ', hasCharger: true, x: null, y: null, tenantScope: 'SELECTED', tenantIds: ['t1'], employeeScope: 'ALL', employeeIds: [] }
+  ],
+  tenants: [{ id: 't1', domain: 'avency.de' }, { id: 't2', domain: 'partner.de' }],
+  employees: [{ id: 'e1', email: 'anna@avency.de', tenantDomainId: 't1' }, { id: 'e2', email: 'ben@partner.de', tenantDomainId: 't2' }]
+};
+
+test('desk rows are planned as creates, updates and unchanged rows against the floorplan', () => {
+  const plan = planDeskImport(table([
+    { name: 'a-1', hascharger: 'ja', x: '0,1', y: '0,2' },
+    { name: 'P-1' },
+    { name: 'A-2', kind: 'raum', tenants: 'avency.de', employees: 'anna@avency.de' },
+    { name: 'A-3', extra: 'ignored' }
+  ]), deskContext);
+  assert.ok(plan.ok);
+  assert.deepEqual(plan.value.summary, { create: 2, update: 1, unchanged: 1, error: 0 });
+  assert.deepEqual(plan.value.ignoredColumns, ['extra']);
+  assert.deepEqual(plan.value.rows.map((row) => [row.row, row.action, row.changes, row.targetId]), [[2, 'update', ['name', 'hasCharger'], 'd1'], [3, 'unchanged', [], 'd2'], [4, 'create', [], null], [5, 'create', [], null]]);
+  assert.deepEqual(plan.value.rows[2].data, { name: 'A-2', kind: 'RAUM', hasCharger: false, x: null, y: null, tenantScope: 'SELECTED', tenantIds: ['t1'], employeeScope: 'SELECTED', employeeIds: ['e1'] });
+  assert.equal(plan.value.rows[1].data?.tenantIds[0], 't1');
+});
+
+test('invalid desk rows collect every error', () => {
+  const plan = planDeskImport(table([
+    { name: 'B-1', kind: 'BUERO', hascharger: 'vielleicht', x: '1' },
+    { name: 'B-2', tenantscope: 'ALL', tenants: 'unknown.de' },
+    { name: 'B-3', tenants: 'avency.de', employees: 'ben@partner.de;nobody@avency.de' },
+    { name: 'b-2' },
+    { name: 'P-1', tenantscope: 'SELECTED', tenants: '' }
+  ]), deskContext);
+  assert.ok(plan.ok);
+  assert.deepEqual(plan.value.rows.map((row) => row.errors), [
+    ['kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein', 'hasCharger muss true oder false sein', 'x und y müssen zusammen angegeben werden'],
+    ['unbekannte Mandanten: unknown.de', 'tenants setzt tenantScope SELECTED voraus'],
+    ['unbekannte Mitarbeiter: nobody@avency.de', 'employees müssen zu den ausgewählten Mandanten gehören'],
+    ['name wird schon in Zeile 3 verwendet'],
+    []
+  ]);
+  assert.equal(plan.value.summary.error, 4);
+  assert.deepEqual(planDeskImport(table([{ kind: 'TISCH' }]), deskContext), { ok: false, message: 'missing column(s): name' });
+});
+
+test('employee rows are matched by email and keep at least one admin', () => {
+  const plan = planEmployeeImport(table([
+    { email: 'Anna@avency.de', displayname: 'Anna A.', role: '' },
+    { email: 'ben@partner.de', displayname: '', role: 'USER' },
+    { email: 'carl@avency.de', displayname: 'Carl', role: 'admin', tenantdomain: '@avency.de' },
+    { email: 'dora@avency.de', displayname: '', tenantdomain: 'partner.de' },
+    { email: 'carl@avency.de', displayname: 'Carl 2' }
+  ]), {
+    existingEmployees: [
+      { id: 'e1', email: 'anna@avency.de', displayName: 'Anna', role: 'user', isActive: true },
+      { id: 'e2', email: 'ben@partner.de', displayName: 'Ben', role: 'admin', isActive: true }
+    ]
+  });
+  assert.ok(plan.ok);
+  assert.deepEqual(plan.value.rows.map((row) => [row.action, row.changes, row.errors]), [
+    ['update', ['displayName'], []],
+    ['error', [], ['Mindestens ein Admin muss erhalten bleiben']],
+    ['create', [], []],
+    ['error', [], ['displayName ist für neue Mitarbeiter erforderlich', 'tenantDomain partner.de passt nicht zur E-Mail-Domain avency.de']],
+    ['error', [], ['email wird schon in Zeile 4 verwendet']]
+  ]);
+  assert.deepEqual(plan.value.rows[2].data, { email: 'carl@avency.de', displayName: 'Carl', role: 'admin' });
+});
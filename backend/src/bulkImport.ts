@@ -0,0 +1,329 @@
+import type { DeskEmployeeScope, DeskTenantScope, ResourceKind } from '@prisma/client';
+import { readXlsxRows, XlsxFormatError } from './xlsx';
+import { isZipArchive } from './zip';
+
+// Bulk import of resources and employees from CSV or XLSX. Files are parsed and planned without touching the
+// database: every row becomes a create, update, unchanged or error entry, so the same plan can be shown as a
+// dry-run preview and then applied in one transaction.
+
+export const MAX_IMPORT_FILE_BYTES = 4 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 1_000;
+export const MAX_DESK_NAME_LENGTH = 60;
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+export type ImportTableRow = { row: number; values: Record<string, string> };
+export type ImportTable = { columns: string[]; rows: ImportTableRow[] };
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+export type ImportRowPlan<T> = { row: number; key: string; action: ImportAction; changes: string[]; errors: string[]; targetId: string | null; data: T | null };
+export type ImportPlan<T> = { rows: ImportRowPlan<T>[]; summary: Record<ImportAction, number>; ignoredColumns: string[] };
+
+// Headers are matched without case, spaces, dashes or underscores: "Display Name", "display_name" and
+// "displayName" are the same column.
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const detectDelimiter = (headerLine: string): string => {
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: headerLine.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+};
+
+// RFC 4180 with the delimiter taken from the header line, so semicolon files from a German Excel work as well.
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"' && cell === '') quoted = true;
+    else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += char;
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Excel on Windows saves CSV as Windows-1252 unless told otherwise; undecodable UTF-8 falls back to Latin-1.
+const decodeText = (data: Buffer): string => {
+  const utf8 = data.toString('utf8');
+  return utf8.includes('\uFFFD') ? data.toString('latin1') : utf8;
+};
+
+// Uploads travel as base64 in JSON (optionally as data URL straight from a FileReader).
+export const decodeUploadedFile = (content: unknown, maxBytes = MAX_IMPORT_FILE_BYTES): ParseResult<Buffer> => {
+  if (typeof content !== 'string' || !content.trim()) return { ok: false, message: 'content muss die Base64-kodierte Datei sein' };
+  const base64 = content.replace(/^data:[^;,]*;base64,/, '').replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) return { ok: false, message: 'content muss die Base64-kodierte Datei sein' };
+  const data = Buffer.from(base64, 'base64');
+  if (data.length > maxBytes) return { ok: false, message: `Die Datei darf höchstens ${maxBytes / 1024 / 1024} MB groß sein` };
+  return { ok: true, value: data };
+};
+
+export const readImportTable = (input: { fileName?: unknown; content?: unknown }): ParseResult<ImportTable> => {
+  const decoded = decodeUploadedFile(input.content);
+  if (!decoded.ok) return decoded;
+  const data = decoded.value;
+
+  const fileName = typeof input.fileName === 'string' ? input.fileName.trim().toLowerCase() : '';
+  const isXlsx = fileName.endsWith('.xlsx') || (!fileName.endsWith('.csv') && isZipArchive(data));
+  let grid: string[][];
+  try {
+    grid = isXlsx ? readXlsxRows(data) : parseCsv(decodeText(data));
+  } catch (error) {
+    if (error instanceof XlsxFormatError) return { ok: false, message: error.message };
+    throw error;
+  }
+
+  const [header = [], ...body] = grid;
+  const columns = header.map(normalizeHeader);
+  if (columns.every((column) => !column)) return { ok: false, message: 'Die erste Zeile muss die Spaltennamen enthalten' };
+
+  const rows = body
+    .map((cells, index) => ({ row: index + 2, values: Object.fromEntries(columns.map((column, columnIndex) => [column, (cells[columnIndex] ?? '').trim()]).filter(([column]) => column)) }))
+    .filter((entry) => Object.values(entry.values).some(Boolean));
+  if (rows.length === 0) return { ok: false, message: 'the file contains no data rows' };
+  if (rows.length > MAX_IMPORT_ROWS) return { ok: false, message: `at most ${MAX_IMPORT_ROWS} rows can be imported at once` };
+  return { ok: true, value: { columns: columns.filter(Boolean), rows } };
+};
+
+const summarize = <T>(rows: ImportRowPlan<T>[], ignoredColumns: string[]): ImportPlan<T> => ({
+  rows,
+  summary: {
+    create: rows.filter((row) => row.action === 'create').length,
+    update: rows.filter((row) => row.action === 'update').length,
+    unchanged: rows.filter((row) => row.action === 'unchanged').length,
+    error: rows.filter((row) => row.action === 'error').length
+  },
+  ignoredColumns
+});
+
+const requireColumns = (table: ImportTable, known: readonly string[], required: readonly string[]): ParseResult<string[]> => {
+  const missing = required.filter((column) => !table.columns.includes(column));
+  if (missing.length > 0) return { ok: false, message: `missing column(s): ${missing.join(', ')}` };
+  return { ok: true, value: table.columns.filter((column) => !known.includes(column)) };
+};
+
+const parseBooleanCell = (value: string): boolean | null | undefined => {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  if (['true', '1', 'yes', 'ja', 'x', 'wahr'].includes(normalized)) return true;
+  if (['false', '0', 'no', 'nein', 'falsch'].includes(normalized)) return false;
+  return null;
+};
+
+// Decimal commas are accepted because that is how German spreadsheets write 0.25.
+const parseNumberCell = (value: string): number | null | undefined => {
+  if (!value) return undefined;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const splitList = (value: string): string[] => Array.from(new Set(value.split(/[;|,\n]/).map((entry) => entry.trim().toLowerCase()).filter(Boolean)));
+
+const sameSet = (left: string[], right: string[]): boolean => left.length === right.length && left.every((entry) => right.includes(entry));
+
+const RESOURCE_KINDS: ResourceKind[] = ['TISCH', 'PARKPLATZ', 'RAUM', 'SONSTIGES'];
+const SCOPES = ['ALL', 'SELECTED'] as const;
+
+export const DESK_IMPORT_COLUMNS = ['name', 'kind', 'hascharger', 'x', 'y', 'tenantscope', 'tenants', 'employeescope', 'employees'] as const;
+
+export type DeskImportData = {
+  name: string;
+  kind: ResourceKind;
+  hasCharger: boolean;
+  x: number | null;
+  y: number | null;
+  tenantScope: DeskTenantScope;
+  tenantIds: string[];
+  employeeScope: DeskEmployeeScope;
+  employeeIds: string[];
+};
+export type ExistingDesk = DeskImportData & { id: string };
+
+export type DeskImportContext = {
+  defaultKind: ResourceKind;
+  existingDesks: ExistingDesk[];
+  tenants: Array<{ id: string; domain: string }>;
+  employees: Array<{ id: string; email: string; tenantDomainId: string | null }>;
+};
+
+// Desks are matched by name (ignoring case) within the floorplan. Empty cells keep the current value on update
+// and fall back to the defaults of POST /admin/floorplans/:id/desks on create. Tenants are listed by domain and
+// employees by email, separated by semicolons.
+export const planDeskImport = (table: ImportTable, context: DeskImportContext): ParseResult<ImportPlan<DeskImportData>> => {
+  const columns = requireColumns(table, DESK_IMPORT_COLUMNS, ['name']);
+  if (!columns.ok) return columns;
+
+  const tenantIdByDomain = new Map(context.tenants.map((tenant) => [tenant.domain.toLowerCase(), tenant.id]));
+  const employeeByEmail = new Map(context.employees.map((employee) => [employee.email.toLowerCase(), employee]));
+  const seenNames = new Map<string, number>();
+
+  const rows = table.rows.map(({ row, values }): ImportRowPlan<DeskImportData> => {
+    const errors: string[] = [];
+    const name = values.name ?? '';
+    const key = name.toLowerCase();
+    if (!name) errors.push('name ist erforderlich');
+    if (name.length > MAX_DESK_NAME_LENGTH) errors.push(`name darf höchstens ${MAX_DESK_NAME_LENGTH} Zeichen lang sein`);
+    const duplicateOf = seenNames.get(key);
+    if (name && duplicateOf) errors.push(`name wird schon in Zeile ${duplicateOf} verwendet`);
+    if (name && !duplicateOf) seenNames.set(key, row);
+
+    const matches = context.existingDesks.filter((desk) => desk.name.toLowerCase() === key);
+    if (matches.length > 1) errors.push(`${matches.length} Ressourcen auf diesem Grundriss heißen "${name}"`);
+    const existing = matches.length === 1 ? matches[0] : null;
+
+    let kind = existing?.kind ?? context.defaultKind;
+    if (values.kind) {
+      const parsed = values.kind.toUpperCase() as ResourceKind;
+      if (RESOURCE_KINDS.includes(parsed)) kind = parsed;
+      else errors.push(`kind muss einer der Werte ${RESOURCE_KINDS.join(', ')} sein`);
+    }
+
+    const hasChargerCell = parseBooleanCell(values.hascharger ?? '');
+    if (hasChargerCell === null) errors.push('hasCharger muss true oder false sein');
+    const hasCharger = hasChargerCell ?? existing?.hasCharger ?? false;
+
+    const xCell = parseNumberCell(values.x ?? '');
+    const yCell = parseNumberCell(values.y ?? '');
+    if (xCell === null || yCell === null) errors.push('x und y müssen Zahlen sein');
+    if ((xCell === undefined) !== (yCell === undefined)) errors.push('x und y müssen zusammen angegeben werden');
+    const hasPosition = typeof xCell === 'number' && typeof yCell === 'number';
+    const x = hasPosition ? xCell : existing?.x ?? null;
+    const y = hasPosition ? yCell : existing?.y ?? null;
+
+    const resolveScope = (scopeCell: string | undefined, listCell: string | undefined, current: 'ALL' | 'SELECTED' | undefined, label: string): 'ALL' | 'SELECTED' => {
+      if (scopeCell) {
+        const parsed = scopeCell.toUpperCase();
+        if ((SCOPES as readonly string[]).includes(parsed)) return parsed as 'ALL' | 'SELECTED';
+        errors.push(`${label}Scope muss ALL oder SELECTED sein`);
+      }
+      if (listCell) return 'SELECTED';
+      return current ?? 'ALL';
+    };
+
+    const tenantScope = resolveScope(values.tenantscope, values.tenants, existing?.tenantScope, 'tenant');
+    let tenantIds = tenantScope === 'SELECTED' ? existing?.tenantIds ?? [] : [];
+    if (values.tenants) {
+      const domains = splitList(values.tenants).map((domain) => domain.replace(/^@+/, ''));
+      const unknown = domains.filter((domain) => !tenantIdByDomain.has(domain));
+      if (unknown.length > 0) errors.push(`unbekannte Mandanten: ${unknown.join(', ')}`);
+      if (tenantScope === 'ALL') errors.push('tenants setzt tenantScope SELECTED voraus');
+      tenantIds = domains.flatMap((domain) => tenantIdByDomain.get(domain) ?? []);
+    }
+    if (tenantScope === 'SELECTED' && tenantIds.length === 0 && !values.tenants) errors.push('tenants darf bei tenantScope SELECTED nicht leer sein');
+
+    const employeeScope = resolveScope(values.employeescope, values.employees, existing?.employeeScope, 'employee');
+    let employeeIds = employeeScope === 'SELECTED' ? existing?.employeeIds ?? [] : [];
+    if (values.employees) {
+      const emails = splitList(values.employees);
+      const unknown = emails.filter((email) => !employeeByEmail.has(email));
+      if (unknown.length > 0) errors.push(`unbekannte Mitarbeiter: ${unknown.join(', ')}`);
+      if (employeeScope === 'ALL') errors.push('employees setzt employeeScope SELECTED voraus');
+      employeeIds = emails.flatMap((email) => employeeByEmail.get(email)?.id ?? []);
+    }
+    if (employeeScope === 'SELECTED' && employeeIds.length === 0 && !values.employees) errors.push('employees darf bei employeeScope SELECTED nicht leer sein');
+    if (employeeScope === 'SELECTED') {
+      const employeeTenants = context.employees.filter((employee) => employeeIds.includes(employee.id)).map((employee) => employee.tenantDomainId);
+      if (employeeTenants.some((tenantId) => !tenantId || (tenantScope === 'SELECTED' && !tenantIds.includes(tenantId)))) errors.push('employees müssen zu den ausgewählten Mandanten gehören');
+    }
+
+    if (errors.length > 0) return { row, key: name, action: 'error', changes: [], errors, targetId: existing?.id ?? null, data: null };
+
+    const data: DeskImportData = { name, kind, hasCharger, x, y, tenantScope, tenantIds, employeeScope, employeeIds };
+    if (!existing) return { row, key: name, action: 'create', changes: [], errors, targetId: null, data };
+
+    const changes = [
+      existing.name !== name ? 'name' : null,
+      existing.kind !== kind ? 'kind' : null,
+      existing.hasCharger !== hasCharger ? 'hasCharger' : null,
+      existing.x !== x || existing.y !== y ? 'position' : null,
+      existing.tenantScope !== tenantScope || !sameSet(existing.tenantIds, tenantIds) ? 'tenants' : null,
+      existing.employeeScope !== employeeScope || !sameSet(existing.employeeIds, employeeIds) ? 'employees' : null
+    ].filter((change): change is string => change !== null);
+    return { row, key: name, action: changes.length > 0 ? 'update' : 'unchanged', changes, errors, targetId: existing.id, data };
+  });
+
+  return { ok: true, value: summarize(rows, columns.value) };
+};
+
+export const EMPLOYEE_IMPORT_COLUMNS = ['email', 'displayname', 'role', 'tenantdomain'] as const;
+
+type EmployeeRole = 'admin' | 'user';
+
+export type EmployeeImportData = { email: string; displayName: string; role: EmployeeRole };
+
+export type EmployeeImportContext = {
+  existingEmployees: Array<{ id: string; email: string; displayName: string; role: EmployeeRole; isActive: boolean }>;
+};
+
+// Employees are matched by email. The tenant always follows the email domain (it is re-derived on every start),
+// so a tenantDomain column only serves as a check that the spreadsheet and the addresses agree.
+export const planEmployeeImport = (table: ImportTable, context: EmployeeImportContext): ParseResult<ImportPlan<EmployeeImportData>> => {
+  const columns = requireColumns(table, EMPLOYEE_IMPORT_COLUMNS, ['email']);
+  if (!columns.ok) return columns;
+
+  const existingByEmail = new Map(context.existingEmployees.map((employee) => [employee.email.toLowerCase(), employee]));
+  let remainingAdmins = context.existingEmployees.filter((employee) => employee.role === 'admin' && employee.isActive).length;
+  const seenEmails = new Map<string, number>();
+
+  const rows = table.rows.map(({ row, values }): ImportRowPlan<EmployeeImportData> => {
+    const errors: string[] = [];
+    const email = (values.email ?? '').toLowerCase();
+    const domain = email.includes('@') ? email.slice(email.lastIndexOf('@') + 1) : '';
+    if (!email) errors.push('email ist erforderlich');
+    else if (!domain) errors.push('email muss ein @ enthalten');
+    const duplicateOf = seenEmails.get(email);
+    if (email && duplicateOf) errors.push(`email wird schon in Zeile ${duplicateOf} verwendet`);
+    if (email && !duplicateOf) seenEmails.set(email, row);
+
+    const existing = existingByEmail.get(email) ?? null;
+    const displayName = values.displayname || existing?.displayName || '';
+    if (!displayName) errors.push('displayName ist für neue Mitarbeiter erforderlich');
+
+    let role: EmployeeRole = existing?.role ?? 'user';
+    if (values.role) {
+      const parsed = values.role.toLowerCase();
+      if (parsed === 'admin' || parsed === 'user') role = parsed;
+      else errors.push('role muss admin oder user sein');
+    }
+
+    const tenantDomain = (values.tenantdomain ?? '').toLowerCase().replace(/^@+/, '');
+    if (tenantDomain && domain && tenantDomain !== domain) errors.push(`tenantDomain ${tenantDomain} passt nicht zur E-Mail-Domain ${domain}`);
+
+    if (existing?.role === 'admin' && existing.isActive && role !== 'admin' && errors.length === 0) {
+      if (remainingAdmins <= 1) errors.push('Mindestens ein Admin muss erhalten bleiben');
+      else remainingAdmins -= 1;
+    }
+
+    if (errors.length > 0) return { row, key: email, action: 'error', changes: [], errors, targetId: existing?.id ?? null, data: null };
+
+    const data: EmployeeImportData = { email, displayName, role };
+    if (!existing) return { row, key: email, action: 'create', changes: [], errors, targetId: null, data };
+
+    const changes = [existing.displayName !== displayName ? 'displayName' : null, existing.role !== role ? 'role' : null].filter((change): change is string => change !== null);
+    return { row, key: email, action: changes.length > 0 ? 'update' : 'unchanged', changes, errors, targetId: existing.id, data };
+  });
+
+  return { ok: true, value: summarize(rows, columns.value) };
+};
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { isCheckInOpen, isCheckInOverdue, resolveCheckInDeadlineMinute, resolveCheckInGraceMinutes } from './checkIn';
+
+test('grace period is resolved per resource kind and rooms never require check-in', () => {
+  const policy = { deskCheckInGraceMinutes: 30, parkingCheckInGraceMinutes: 60 };
+  assert.equal(resolveCheckInGraceMinutes('TISCH', policy), 30);
+  assert.equal(resolveCheckInGraceMinutes('PARKPLATZ', policy), 60);
+  assert.equal(resolveCheckInGraceMinutes('RAUM', policy), null);
+  assert.equal(resolveCheckInGraceMinutes('TISCH', { deskCheckInGraceMinutes: null, parkingCheckInGraceMinutes: 60 }), null);
+});
+
+test('day slot deadlines start at the office morning or at noon', () => {
+  assert.equal(resolveCheckInDeadlineMinute({ mode: 'day', daySlot: 'FULL' }, 30), 8 * 60 + 30);
+  assert.equal(resolveCheckInDeadlineMinute({ mode: 'day', daySlot: 'PM' }, 30), 12 * 60 + 30);
+  assert.equal(resolveCheckInDeadlineMinute({ mode: 'time', startMinute: 9 * 60, endMinute: 17 * 60 }, 15), 9 * 60 + 15);
+});
+
+test('late bookings get the full grace period from their creation time', () => {
+  assert.equal(resolveCheckInDeadlineMinute({ mode: 'day', daySlot: 'FULL' }, 30, 11 * 60), 11 * 60 + 30);
+  assert.equal(isCheckInOverdue({ window: { mode: 'day', daySlot: 'FULL' }, graceMinutes: 30, nowMinute: 11 * 60 + 10, createdMinute: 11 * 60 }), false);
+});
+
+test('overdue only between deadline and end of the booked window', () => {
+  const window = { mode: 'time' as const, startMinute: 8 * 60, endMinute: 12 * 60 };
+  assert.equal(isCheckInOverdue({ window, graceMinutes: 30, nowMinute: 8 * 60 + 29 }), false);
+  assert.equal(isCheckInOverdue({ window, graceMinutes: 30, nowMinute: 8 * 60 + 30 }), true);
+  assert.equal(isCheckInOverdue({ window, graceMinutes: 30, nowMinute: 12 * 60 }), false);
+});
+
+test('check-in opens shortly before the booked window and closes at its end', () => {
+  const window = { mode: 'day' as const, daySlot: 'AM' as const };
+  assert.equal(isCheckInOpen(window, 7 * 60 + 29), false);
+  assert.equal(isCheckInOpen(window, 7 * 60 + 30), true);
+  assert.equal(isCheckInOpen(window, 12 * 60), false);
+});
@@ -0,0 +1,38 @@
+import type { DaySlot, ResourceKind } from '@prisma/client';
+
+export type CheckInWindow = { mode: 'day'; daySlot: DaySlot } | { mode: 'time'; startMinute: number; endMinute: number };
+export type CheckInGracePolicy = { deskCheckInGraceMinutes: number | null; parkingCheckInGraceMinutes: number | null };
+
+export const CHECK_IN_DAY_START_MINUTE = 8 * 60;
+export const CHECK_IN_EARLY_MINUTES = 30;
+export const MAX_CHECK_IN_GRACE_MINUTES = 12 * 60;
+
+export const resolveCheckInGraceMinutes = (kind: ResourceKind, policy: CheckInGracePolicy): number | null => {
+  if (kind === 'TISCH') return policy.deskCheckInGraceMinutes;
+  if (kind === 'PARKPLATZ') return policy.parkingCheckInGraceMinutes;
+  return null;
+};
+
+export const resolveCheckInStartMinute = (window: CheckInWindow): number => {
+  if (window.mode === 'time') return window.startMinute;
+  return window.daySlot === 'PM' ? 12 * 60 : CHECK_IN_DAY_START_MINUTE;
+};
+
+const resolveCheckInEndMinute = (window: CheckInWindow): number => {
+  if (window.mode === 'time') return window.endMinute;
+  return window.daySlot === 'AM' ? 12 * 60 : 24 * 60;
+};
+
+export const isCheckInOpen = (window: CheckInWindow, nowMinute: number): boolean => (
+  nowMinute >= resolveCheckInStartMinute(window) - CHECK_IN_EARLY_MINUTES && nowMinute < resolveCheckInEndMinute(window)
+);
+
+// Bookings made after their slot started get the full grace period from the moment they were created.
+export const resolveCheckInDeadlineMinute = (window: CheckInWindow, graceMinutes: number, createdMinute = 0): number => (
+  Math.max(resolveCheckInStartMinute(window), createdMinute) + graceMinutes
+);
+
+export const isCheckInOverdue = (params: { window: CheckInWindow; graceMinutes: number; nowMinute: number; createdMinute?: number }): boolean => (
+  params.nowMinute >= resolveCheckInDeadlineMinute(params.window, params.graceMinutes, params.createdMinute)
+  && params.nowMinute < resolveCheckInEndMinute(params.window)
+);
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { type ClosureRule, findBlockingClosure, fullyClosedDates } from './closures';
+
+const holiday: ClosureRule = { id: 'c-1', floorplanId: 'fp-1', deskId: null, startDate: '2026-12-24', endDate: '2026-12-26', startMinute: null, endMinute: null, reason: 'Weihnachten' };
+const maintenance: ClosureRule = { id: 'c-2', floorplanId: 'fp-1', deskId: 'desk-2', startDate: '2026-10-20', endDate: '2026-10-20', startMinute: 8 * 60, endMinute: 12 * 60, reason: 'Wartung' };
+
+const target = (overrides: Partial<{ floorplanId: string; deskId: string; date: string; startMinute: number; endMinute: number }>) => ({
+  floorplanId: 'fp-1',
+  deskId: 'desk-1',
+  date: '2026-12-24',
+  startMinute: 0,
+  endMinute: 24 * 60,
+  ...overrides
+});
+
+test('floorplan closures block every desk on the closed dates', () => {
+  assert.equal(findBlockingClosure([holiday], target({}))?.id, 'c-1');
+  assert.equal(findBlockingClosure([holiday], target({ date: '2026-12-26', startMinute: 12 * 60 }))?.id, 'c-1');
+  assert.equal(findBlockingClosure([holiday], target({ date: '2026-12-27' })), null);
+  assert.equal(findBlockingClosure([holiday], target({ floorplanId: 'fp-2' })), null);
+});
+
+test('desk closures with a time window only block overlapping bookings on that desk', () => {
+  const closures = [maintenance];
+  assert.equal(findBlockingClosure(closures, target({ deskId: 'desk-2', date: '2026-10-20', startMinute: 11 * 60, endMinute: 13 * 60 }))?.id, 'c-2');
+  assert.equal(findBlockingClosure(closures, target({ deskId: 'desk-2', date: '2026-10-20', startMinute: 12 * 60, endMinute: 18 * 60 })), null);
+  assert.equal(findBlockingClosure(closures, target({ deskId: 'desk-1', date: '2026-10-20', startMinute: 9 * 60, endMinute: 10 * 60 })), null);
+});
+
+test('only full-day floorplan closures mark calendar days as closed', () => {
+  const closed = fullyClosedDates([holiday, maintenance], 'fp-1', '2026-10-01', '2026-12-25');
+  assert.deepEqual(Array.from(closed.entries()), [['2026-12-24', 'Weihnachten'], ['2026-12-25', 'Weihnachten']]);
+  assert.equal(fullyClosedDates([holiday], 'fp-2', '2026-12-01', '2026-12-31').size, 0);
+});
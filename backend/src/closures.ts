@@ -0,0 +1,47 @@
+import { overlapsHalfOpenIntervals } from './timeOverlap';
+
+export type ClosureRule = {
+  id: string;
+  floorplanId: string;
+  deskId: string | null;
+  startDate: string;
+  endDate: string;
+  startMinute: number | null;
+  endMinute: number | null;
+  reason: string;
+};
+
+export type ClosureTarget = { floorplanId: string; deskId: string; date: string; startMinute: number; endMinute: number };
+
+const FULL_DAY = { startMinute: 0, endMinute: 24 * 60 };
+
+export const isFullDayClosure = (closure: Pick<ClosureRule, 'startMinute' | 'endMinute'>): boolean => closure.startMinute === null || closure.endMinute === null;
+
+// Desk closures also carry their floorplan id, so a single floorplan query finds both kinds.
+export const closureBlocks = (closure: ClosureRule, target: ClosureTarget): boolean => {
+  if (closure.floorplanId !== target.floorplanId) return false;
+  if (closure.deskId !== null && closure.deskId !== target.deskId) return false;
+  if (target.date < closure.startDate || target.date > closure.endDate) return false;
+  const window = isFullDayClosure(closure) ? FULL_DAY : { startMinute: closure.startMinute as number, endMinute: closure.endMinute as number };
+  return overlapsHalfOpenIntervals(window.startMinute, window.endMinute, target.startMinute, target.endMinute);
+};
+
+export const findBlockingClosure = (closures: ClosureRule[], target: ClosureTarget): ClosureRule | null => (
+  closures.find((closure) => closureBlocks(closure, target)) ?? null
+);
+
+// Days on which the whole floorplan is closed; desk-level and partial closures leave the day bookable elsewhere.
+export const fullyClosedDates = (closures: ClosureRule[], floorplanId: string, from: string, to: string): Map<string, string> => {
+  const closed = new Map<string, string>();
+  for (const closure of closures) {
+    if (closure.floorplanId !== floorplanId || closure.deskId !== null || !isFullDayClosure(closure)) continue;
+    const cursor = new Date(`${closure.startDate > from ? closure.startDate : from}T00:00:00.000Z`);
+    const last = closure.endDate < to ? closure.endDate : to;
+    while (cursor.toISOString().slice(0, 10) <= last) {
+      const key = cursor.toISOString().slice(0, 10);
+      if (!closed.has(key)) closed.set(key, closure.reason);
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  }
+  return closed;
+};
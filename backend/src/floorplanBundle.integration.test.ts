@@ -0,0 +1,72 @@
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFloorplanBundle } from './floorplanBundle';
+import { devUserHeaders, requestJson, stubPrismaSideEffects } from './integrationTestServer';
+import { prisma } from './prisma';
+
+const bundle = buildFloorplanBundle({
+  floorplan: {
+    name: 'HQ 1. OG',
+    sortOrder: 1,
+    tenantScope: 'SELECTED',
+    tenants: ['example.com', 'unknown.de'],
+    defaultResourceKind: 'TISCH',
+    defaultAllowSeries: true,
+    deskCheckInGraceMinutes: null,
+    parkingCheckInGraceMinutes: null,
+    imageUrl: 'data:image/png;base64,iVBORw0KGgo='
+  },
+  desks: [
+    { name: 'A-1', kind: 'TISCH', hasCharger: false, capacity: null, equipment: [], allowSeriesOverride: null, x: 0.5, y: 0.5, tenantScope: 'ALL', tenants: [], employeeScope: 'ALL', employees: [] }
+  ]
+}, new Date('2026-10-19T08:00:00.000Z'));
+const content = Buffer.from(JSON.stringify(bundle)).toString('base64');
+
+const writes: string[] = [];
+beforeEach(() => {
+  writes.length = 0;
+
+  stubPrismaSideEffects();
+  (prisma.tenant.findMany as unknown) = async () => [{ id: 'tenant-1', domain: 'example.com' }];
+  (prisma.employee.findMany as unknown) = async () => [];
+  (prisma.floorplan.findUnique as unknown) = async () => {
+    writes.push('floorplan.findUnique');
+    return null;
+  };
+  (prisma.floorplan.create as unknown) = async ({ data }: { data: { name: string; isDefault: boolean; floorplanTenants: { create: Array<{ tenantId: string }> } } }) => {
+    writes.push(`floorplan.create:${data.name}:${data.isDefault}`);
+    return { id: 'fp-new', name: data.name, isDefault: data.isDefault, floorplanTenants: data.floorplanTenants.create };
+  };
+  (prisma.desk.create as unknown) = async ({ data }: { data: { name: string; floorplanId: string } }) => {
+    writes.push(`desk.create:${data.name}:${data.floorplanId}`);
+    return { id: `desk-${data.name}`, ...data, deskTenants: [], deskEmployees: [] };
+  };
+});
+
+type BundlePreview = { dryRun?: boolean; floorplanId?: string | null; deskCount?: number; unmapped?: Array<{ value: string }> };
+const requestAs = (role: 'admin' | 'user', method: 'GET' | 'POST', path: string, body?: Record<string, unknown>) => (
+  requestJson<BundlePreview>(method, path, { headers: devUserHeaders(`${role}-1`, role), body })
+);
+
+test('regular users can neither export nor import floorplans', async () => {
+  assert.equal((await requestAs('user', 'GET', '/admin/floorplans/fp-1/export')).status, 403);
+  assert.equal((await requestAs('user', 'POST', '/admin/floorplans/import', { fileName: 'hq.json', content, dryRun: false })).status, 403);
+  assert.deepEqual(writes, []);
+});
+
+test('the bundle import is a dry run unless dryRun is false', async () => {
+  const response = await requestAs('admin', 'POST', '/admin/floorplans/import', { fileName: 'hq.json', content });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.dryRun, true);
+  assert.equal(response.body.floorplanId, null);
+  assert.equal(response.body.deskCount, 1);
+  assert.deepEqual(response.body.unmapped?.map((entry) => entry.value), ['unknown.de']);
+  assert.deepEqual(writes, []);
+});
+
+test('applying a bundle creates a new non-default floorplan with its desks', async () => {
+  const response = await requestAs('admin', 'POST', '/admin/floorplans/import', { fileName: 'hq.json', content, dryRun: false });
+  assert.equal(response.status, 201);
+  assert.equal(response.body.floorplanId, 'fp-new');
+  assert.deepEqual(writes, ['floorplan.create:HQ 1. OG:false', 'desk.create:A-1:fp-new']);
+});
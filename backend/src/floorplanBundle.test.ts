@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildFloorplanBundle, type FloorplanBundleSource, floorplanBundleToZip, planFloorplanBundleImport, readFloorplanBundle } from './floorplanBundle';
+import { readZip } from './zip';
+
+const source: FloorplanBundleSource = {
+  floorplan: {
+    name: 'HQ 1. OG',
+    sortOrder: 2,
+    tenantScope: 'SELECTED',
+    tenants: ['Partner.de', 'avency.de'],
+    defaultResourceKind: 'TISCH',
+    defaultAllowSeries: false,
+    deskCheckInGraceMinutes: 30,
+    parkingCheckInGraceMinutes: null,
+    imageUrl: 'data:image/png;base64,iVBORw0KGgo='
+  },
+  desks: [
+    { name: 'A-10', kind: 'TISCH', hasCharger: false, capacity: null, equipment: ['MONITOR'], allowSeriesOverride: null, x: 0.5, y: 0.25, tenantScope: 'ALL', tenants: [], employeeScope: 'SELECTED', employees: ['anna@avency.de', 'ghost@avency.de', 'ben@partner.de'] },
+    { name: 'A-2', kind: 'RAUM', hasCharger: false, capacity: 8, equipment: [], allowSeriesOverride: true, x: null, y: null, tenantScope: 'SELECTED', tenants: ['unknown.de'], employeeScope: 'ALL', employees: [] }
+  ]
+};
+
+test('bundles embed uploaded images and round-trip through JSON and ZIP', () => {
+  const bundle = buildFloorplanBundle(source, new Date('2026-10-19T08:00:00.000Z'));
+  assert.equal(bundle.version, 1);
+  assert.deepEqual(bundle.floorplan.tenants, ['avency.de', 'partner.de']);
+  assert.deepEqual(bundle.floorplan.image, { url: null, contentType: 'image/png', data: 'iVBORw0KGgo=' });
+  assert.deepEqual(bundle.desks.map((desk) => desk.name), ['A-2', 'A-10']);
+
+  const json = Buffer.from(JSON.stringify(bundle)).toString('base64');
+  assert.deepEqual(readFloorplanBundle({ fileName: 'hq.json', content: json }), { ok: true, value: bundle });
+
+  const zip = floorplanBundleToZip(bundle);
+  const entries = readZip(zip);
+  assert.deepEqual(Array.from(entries.keys()), ['floorplan.json', 'image.png']);
+  assert.equal(JSON.parse(entries.get('floorplan.json')!.toString('utf8')).floorplan.image.file, 'image.png');
+  assert.deepEqual(readFloorplanBundle({ fileName: 'hq.zip', content: zip.toString('base64') }), { ok: true, value: { ...bundle, floorplan: { ...bundle.floorplan, image: { url: null, contentType: 'image/png', data: 'iVBORw0KGgo=' } } } });
+
+  const linked = buildFloorplanBundle({ ...source, floorplan: { ...source.floorplan, imageUrl: 'https://cdn.example.com/hq.png' } }, new Date());
+  assert.deepEqual(linked.floorplan.image, { url: 'https://cdn.example.com/hq.png', contentType: null });
+  assert.deepEqual(Array.from(readZip(floorplanBundleToZip(linked)).keys()), ['floorplan.json']);
+});
+
+test('unreadable or incompatible bundles are rejected', () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+  const bundle = buildFloorplanBundle(source, new Date('2026-10-19T08:00:00.000Z'));
+  assert.deepEqual(readFloorplanBundle({ content: Buffer.from('{').toString('base64') }), { ok: false, message: 'bundle is not valid JSON' });
+  assert.deepEqual(readFloorplanBundle({ content: encode({ format: 'other' }) }), { ok: false, message: 'file is not a floorplan bundle' });
+  assert.deepEqual(readFloorplanBundle({ content: encode({ ...bundle, version: 2 }) }), { ok: false, message: 'bundle version 2 is newer than the supported version 1' });
+  assert.deepEqual(readFloorplanBundle({ content: encode({ ...bundle, desks: [{ ...bundle.desks[0], kind: 'BUERO' }] }) }), { ok: false, message: 'Ungültiges Bundle: desks[0].kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
+  assert.deepEqual(readFloorplanBundle({ content: encode({ ...bundle, floorplan: { ...bundle.floorplan, image: { url: null, contentType: 'image/png', file: 'image.png' } } }) }), { ok: false, message: 'bundle image image.png is missing' });
+});
+
+test('imports map tenants by domain and employees by email and report the rest', () => {
+  const bundle = buildFloorplanBundle(source, new Date('2026-10-19T08:00:00.000Z'));
+  const plan = planFloorplanBundleImport(bundle, {
+    tenants: [{ id: 't1', domain: 'avency.de' }],
+    employees: [{ id: 'e1', email: 'Anna@avency.de', tenantDomainId: 't1' }, { id: 'e2', email: 'ben@partner.de', tenantDomainId: null }]
+  }, { name: ' HQ Kopie ' });
+
+  assert.equal(plan.floorplan.name, 'HQ Kopie');
+  assert.equal(plan.floorplan.imageUrl, 'data:image/png;base64,iVBORw0KGgo=');
+  assert.deepEqual(plan.floorplan.tenantIds, ['t1']);
+  assert.deepEqual(plan.desks.map((desk) => [desk.name, desk.tenantIds, desk.employeeIds]), [['A-2', [], []], ['A-10', [], ['e1']]]);
+  assert.deepEqual(plan.unmapped, [
+    { target: 'HQ Kopie', type: 'tenant', value: 'partner.de', reason: 'Mandanten-Domain unbekannt' },
+    { target: 'A-2', type: 'tenant', value: 'unknown.de', reason: 'Mandanten-Domain unbekannt' },
+    { target: 'A-10', type: 'employee', value: 'ben@partner.de', reason: 'Mitarbeiter gehört zu keinem ausgewählten Mandanten' },
+    { target: 'A-10', type: 'employee', value: 'ghost@avency.de', reason: 'Mitarbeiter unbekannt' }
+  ]);
+  assert.deepEqual(plan.errors, ['A-2: keiner der ausgewählten Mandanten existiert hier']);
+});
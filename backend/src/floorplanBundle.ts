@@ -0,0 +1,225 @@
+import { decodeUploadedFile } from './bulkImport';
+import { MAX_CHECK_IN_GRACE_MINUTES } from './checkIn';
+import { type Infer, s, validate } from './schema';
+import { createZip, isZipArchive, readZip, ZipFormatError } from './zip';
+
+// Floorplan bundles move a floorplan with its image and resources between installations (staging → production).
+// Tenants and employees are referenced by domain and email because ids differ per installation; the import maps
+// them back and reports what it could not resolve instead of silently widening or dropping access.
+
+export const FLOORPLAN_BUNDLE_FORMAT = 'rbms-floorplan-bundle';
+export const FLOORPLAN_BUNDLE_VERSION = 1;
+export const MAX_FLOORPLAN_BUNDLE_BYTES = 4 * 1024 * 1024;
+export const FLOORPLAN_BUNDLE_MANIFEST = 'floorplan.json';
+
+const RESOURCE_KINDS = ['TISCH', 'PARKPLATZ', 'RAUM', 'SONSTIGES'] as const;
+const EQUIPMENT = ['MONITOR', 'DOCKING_STATION', 'HEIGHT_ADJUSTABLE', 'VIDEO_CONFERENCING', 'ACCESSIBLE'] as const;
+const SCOPES = ['ALL', 'SELECTED'] as const;
+const IMAGE_CONTENT_TYPE = /^image\/[a-z0-9.+-]+$/;
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+
+const checkInGrace = () => s.nullable(s.integer({ min: 1, max: MAX_CHECK_IN_GRACE_MINUTES }));
+
+// An uploaded image (data URL) travels inside the bundle, as base64 `data` in JSON or as `file` in the ZIP.
+// Any other URL is kept as reference and must be reachable from the target installation.
+const bundleImageSchema = s.object({
+  url: s.nullable(s.string({ description: 'Original image URL when the image is not embedded' })),
+  contentType: s.nullable(s.string({ pattern: IMAGE_CONTENT_TYPE, patternLabel: 'an image content type' })),
+  data: s.optional(s.string({ description: 'Base64 encoded image (JSON bundles)' })),
+  file: s.optional(s.string({ description: 'Image entry in the ZIP archive' }))
+});
+
+const bundleDeskSchema = s.object({
+  name: s.string({ minLength: 1, maxLength: 60 }),
+  kind: s.enum(RESOURCE_KINDS),
+  hasCharger: s.boolean(),
+  capacity: s.nullable(s.integer({ min: 1, max: 999 })),
+  equipment: s.array(s.enum(EQUIPMENT)),
+  allowSeriesOverride: s.nullable(s.boolean()),
+  x: s.nullable(s.number()),
+  y: s.nullable(s.number()),
+  tenantScope: s.enum(SCOPES),
+  tenants: s.array(s.string(), { description: 'Tenant domains' }),
+  employeeScope: s.enum(SCOPES),
+  employees: s.array(s.string(), { description: 'Employee emails' })
+});
+
+export const floorplanBundleSchema = s.object({
+  format: s.literal(FLOORPLAN_BUNDLE_FORMAT),
+  version: s.integer({ min: 1 }),
+  exportedAt: s.dateTime(),
+  floorplan: s.object({
+    name: s.string({ minLength: 1 }),
+    sortOrder: s.integer({ min: 0 }),
+    tenantScope: s.enum(SCOPES),
+    tenants: s.array(s.string(), { description: 'Tenant domains' }),
+    defaultResourceKind: s.enum(RESOURCE_KINDS),
+    defaultAllowSeries: s.boolean(),
+    deskCheckInGraceMinutes: checkInGrace(),
+    parkingCheckInGraceMinutes: checkInGrace(),
+    image: bundleImageSchema
+  }),
+  desks: s.array(bundleDeskSchema)
+});
+
+export type FloorplanBundle = Infer<typeof floorplanBundleSchema>;
+export type FloorplanBundleDesk = FloorplanBundle['desks'][number];
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+export type FloorplanBundleSource = {
+  floorplan: Omit<FloorplanBundle['floorplan'], 'image'> & { imageUrl: string };
+  desks: FloorplanBundleDesk[];
+};
+
+const parseDataUrl = (value: string): { contentType: string; data: string } | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(value);
+  return match && IMAGE_CONTENT_TYPE.test(match[1].toLowerCase()) ? { contentType: match[1].toLowerCase(), data: match[2].replace(/\s+/g, '') } : null;
+};
+
+const sortedUnique = (values: string[]): string[] => Array.from(new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean))).sort();
+
+export const buildFloorplanBundle = (source: FloorplanBundleSource, exportedAt: Date): FloorplanBundle => {
+  const { imageUrl, ...floorplan } = source.floorplan;
+  const embedded = parseDataUrl(imageUrl);
+  return {
+    format: FLOORPLAN_BUNDLE_FORMAT,
+    version: FLOORPLAN_BUNDLE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    floorplan: {
+      ...floorplan,
+      tenants: sortedUnique(floorplan.tenants),
+      image: embedded ? { url: null, contentType: embedded.contentType, data: embedded.data } : { url: imageUrl, contentType: null }
+    },
+    desks: [...source.desks]
+      .sort((left, right) => left.name.localeCompare(right.name, 'de', { numeric: true }))
+      .map((desk) => ({ ...desk, tenants: sortedUnique(desk.tenants), employees: sortedUnique(desk.employees) }))
+  };
+};
+
+// The ZIP keeps the image as a real file so the archive can be inspected and edited by hand.
+export const floorplanBundleToZip = (bundle: FloorplanBundle): Buffer => {
+  const { data, ...image } = bundle.floorplan.image;
+  if (!data || !image.contentType) return createZip([{ name: FLOORPLAN_BUNDLE_MANIFEST, data: `${JSON.stringify(bundle, null, 2)}\n` }], new Date(bundle.exportedAt));
+
+  const file = `image.${IMAGE_EXTENSIONS[image.contentType] ?? 'bin'}`;
+  const manifest: FloorplanBundle = { ...bundle, floorplan: { ...bundle.floorplan, image: { ...image, file } } };
+  return createZip([
+    { name: FLOORPLAN_BUNDLE_MANIFEST, data: `${JSON.stringify(manifest, null, 2)}\n` },
+    { name: file, data: Buffer.from(data, 'base64') }
+  ], new Date(bundle.exportedAt));
+};
+
+const parseManifest = (text: string): ParseResult<unknown> => {
+  try {
+    return { ok: true, value: JSON.parse(text.replace(/^\uFEFF/, '')) };
+  } catch {
+    return { ok: false, message: 'bundle is not valid JSON' };
+  }
+};
+
+export const readFloorplanBundle = (input: { fileName?: unknown; content?: unknown }): ParseResult<FloorplanBundle> => {
+  const decoded = decodeUploadedFile(input.content, MAX_FLOORPLAN_BUNDLE_BYTES);
+  if (!decoded.ok) return decoded;
+
+  let manifest: ParseResult<unknown>;
+  let entries: Map<string, Buffer> | null = null;
+  const fileName = typeof input.fileName === 'string' ? input.fileName.trim().toLowerCase() : '';
+  if (fileName.endsWith('.zip') || isZipArchive(decoded.value)) {
+    try {
+      entries = readZip(decoded.value);
+    } catch (error) {
+      if (error instanceof ZipFormatError) return { ok: false, message: `not a valid bundle archive: ${error.message}` };
+      throw error;
+    }
+    const manifestEntry = entries.get(FLOORPLAN_BUNDLE_MANIFEST);
+    if (!manifestEntry) return { ok: false, message: `Das Bundle-Archiv muss ${FLOORPLAN_BUNDLE_MANIFEST} enthalten` };
+    manifest = parseManifest(manifestEntry.toString('utf8'));
+  } else {
+    manifest = parseManifest(decoded.value.toString('utf8'));
+  }
+  if (!manifest.ok) return manifest;
+
+  const raw = manifest.value as { format?: unknown; version?: unknown } | null;
+  if (!raw || typeof raw !== 'object' || raw.format !== FLOORPLAN_BUNDLE_FORMAT) return { ok: false, message: 'file is not a floorplan bundle' };
+  if (typeof raw.version === 'number' && raw.version > FLOORPLAN_BUNDLE_VERSION) return { ok: false, message: `bundle version ${raw.version} is newer than the supported version ${FLOORPLAN_BUNDLE_VERSION}` };
+
+  const issues = validate(floorplanBundleSchema, raw);
+  if (issues.length > 0) return { ok: false, message: `Ungültiges Bundle: ${issues.slice(0, 5).map((issue) => `${issue.path} ${issue.message}`).join('; ')}` };
+  const bundle = raw as FloorplanBundle;
+
+  const { file, ...image } = bundle.floorplan.image;
+  if (file) {
+    const imageEntry = entries?.get(file);
+    if (!imageEntry) return { ok: false, message: `bundle image ${file} is missing` };
+    return { ok: true, value: { ...bundle, floorplan: { ...bundle.floorplan, image: { ...image, data: imageEntry.toString('base64') } } } };
+  }
+  return { ok: true, value: bundle };
+};
+
+export type FloorplanBundleContext = {
+  tenants: Array<{ id: string; domain: string }>;
+  employees: Array<{ id: string; email: string; tenantDomainId: string | null }>;
+};
+
+export type UnmappedReference = { target: string; type: 'tenant' | 'employee'; value: string; reason: string };
+
+export type FloorplanImportData = Omit<FloorplanBundle['floorplan'], 'tenants' | 'image'> & { imageUrl: string; tenantIds: string[] };
+export type BundleDeskImportData = Omit<FloorplanBundleDesk, 'tenants' | 'employees'> & { tenantIds: string[]; employeeIds: string[] };
+
+export type FloorplanBundlePlan = {
+  floorplan: FloorplanImportData;
+  desks: BundleDeskImportData[];
+  unmapped: UnmappedReference[];
+  errors: string[];
+};
+
+// Unknown references are dropped and reported. A SELECTED scope that loses every entry is an error rather
+// than an empty (invalid) selection or a silent switch to ALL.
+export const planFloorplanBundleImport = (bundle: FloorplanBundle, context: FloorplanBundleContext, options: { name?: string } = {}): FloorplanBundlePlan => {
+  const tenantsByDomain = new Map(context.tenants.map((tenant) => [tenant.domain.toLowerCase(), tenant.id]));
+  const employeesByEmail = new Map(context.employees.map((employee) => [employee.email.toLowerCase(), employee]));
+  const unmapped: UnmappedReference[] = [];
+  const errors: string[] = [];
+
+  const mapTenants = (target: string, domains: string[]): string[] => domains.flatMap((domain) => {
+    const tenantId = tenantsByDomain.get(domain.toLowerCase());
+    if (tenantId) return [tenantId];
+    unmapped.push({ target, type: 'tenant', value: domain, reason: 'Mandanten-Domain unbekannt' });
+    return [];
+  });
+
+  const { tenants, image, ...floorplanFields } = bundle.floorplan;
+  const name = options.name?.trim() || floorplanFields.name;
+  const floorplanTenantIds = floorplanFields.tenantScope === 'SELECTED' ? mapTenants(name, tenants) : [];
+  if (floorplanFields.tenantScope === 'SELECTED' && floorplanTenantIds.length === 0) errors.push(`${name}: keiner der ausgewählten Mandanten existiert hier`);
+
+  let imageUrl = image.url ?? '';
+  if (image.data && image.contentType) imageUrl = `data:${image.contentType};base64,${image.data}`;
+  if (!imageUrl) errors.push(`${name}: das Bundle enthält kein Bild`);
+
+  const desks = bundle.desks.map((desk) => {
+    const { tenants: deskTenants, employees: deskEmployees, ...fields } = desk;
+    const target = desk.name;
+    const tenantIds = desk.tenantScope === 'SELECTED' ? mapTenants(target, deskTenants) : [];
+    if (desk.tenantScope === 'SELECTED' && tenantIds.length === 0) errors.push(`${target}: keiner der ausgewählten Mandanten existiert hier`);
+
+    const employeeIds = desk.employeeScope !== 'SELECTED' ? [] : deskEmployees.flatMap((email) => {
+      const employee = employeesByEmail.get(email.toLowerCase());
+      if (!employee) {
+        unmapped.push({ target, type: 'employee', value: email, reason: 'Mitarbeiter unbekannt' });
+        return [];
+      }
+      if (!employee.tenantDomainId || (desk.tenantScope === 'SELECTED' && !tenantIds.includes(employee.tenantDomainId))) {
+        unmapped.push({ target, type: 'employee', value: email, reason: 'Mitarbeiter gehört zu keinem ausgewählten Mandanten' });
+        return [];
+      }
+      return [employee.id];
+    });
+    if (desk.employeeScope === 'SELECTED' && employeeIds.length === 0) errors.push(`${target}: keiner der ausgewählten Mitarbeiter existiert hier`);
+
+    return { ...fields, tenantIds, employeeIds };
+  });
+
+  return { floorplan: { ...floorplanFields, name, imageUrl, tenantIds: floorplanTenantIds }, desks, unmapped, errors };
+};
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+import { buildRoomEventPayload, createGraphCalendarClient, GraphCalendarError } from './graphCalendar';
+
+type RecordedRequest = { method: string; url: string; authorization: string | undefined; body: unknown };
+
+// Minimal stand-in for the Graph events API: keeps events in memory per mailbox.
+const startFakeGraph = async (): Promise<{ server: Server; baseUrl: string; requests: RecordedRequest[]; events: Map<string, unknown> }> => {
+  const requests: RecordedRequest[] = [];
+  const events = new Map<string, unknown>();
+  let nextId = 1;
+
+  const readBody = async (req: IncomingMessage): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : null;
+  };
+
+  const server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    requests.push({ method: req.method ?? '', url: req.url ?? '', authorization: req.headers.authorization, body });
+    const match = /^\/v1\.0\/users\/([^/]+)\/events(?:\/([^/]+))?$/.exec(req.url ?? '');
+    if (!match || req.headers.authorization !== 'Bearer app-token') {
+      res.writeHead(401, { 'content-type': 'application/json' }).end(JSON.stringify({ error: { code: 'InvalidAuthenticationToken', message: 'Access token is empty.' } }));
+      return;
+    }
+    const [, mailbox, eventId] = match;
+    const key = `${decodeURIComponent(mailbox)}/${eventId ?? ''}`;
+
+    if (req.method === 'POST' && !eventId) {
+      const id = `evt-${nextId++}`;
+      events.set(`${decodeURIComponent(mailbox)}/${id}`, body);
+      res.writeHead(201, { 'content-type': 'application/json' }).end(JSON.stringify({ id, ...(body as object) }));
+      return;
+    }
+    if (!events.has(key)) {
+      res.writeHead(404, { 'content-type': 'application/json' }).end(JSON.stringify({ error: { code: 'ErrorItemNotFound', message: 'The specified object was not found in the store.' } }));
+      return;
+    }
+    if (req.method === 'PATCH') {
+      events.set(key, { ...(events.get(key) as object), ...(body as object) });
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(events.get(key)));
+      return;
+    }
+    events.delete(key);
+    res.writeHead(204).end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}/v1.0/`, requests, events };
+};
+
+test('room events use Berlin wall-clock times and all-day events for day slots', () => {
+  const timed = buildRoomEventPayload({ subject: 'Raum: Aquarium', roomName: 'Aquarium', floorplanName: 'OG 2', date: '2026-10-20', window: { mode: 'time', startMinute: 9 * 60 + 30, endMinute: 11 * 60 } });
+  assert.deepEqual(timed.start, { dateTime: '2026-10-20T09:30:00', timeZone: 'Europe/Berlin' });
+  assert.deepEqual(timed.end, { dateTime: '2026-10-20T11:00:00', timeZone: 'Europe/Berlin' });
+  assert.equal(timed.isAllDay, false);
+  assert.equal(timed.location.displayName, 'Aquarium (OG 2)');
+  assert.deepEqual(timed.attendees, []);
+
+  const invited = buildRoomEventPayload({ subject: 'Planung', roomName: 'Aquarium', floorplanName: null, date: '2026-10-20', window: { mode: 'time', startMinute: 9 * 60, endMinute: 10 * 60 }, attendees: [{ name: 'Erika', email: 'erika@example.com' }, { name: null, email: 'gast@example.org' }] });
+  assert.deepEqual(invited.attendees.map((attendee) => attendee.emailAddress), [{ address: 'erika@example.com', name: 'Erika' }, { address: 'gast@example.org' }]);
+
+  const allDay = buildRoomEventPayload({ subject: 'Raum: Aquarium', roomName: 'Aquarium', floorplanName: null, date: '2026-12-31', window: { mode: 'day', daySlot: 'FULL' } });
+  assert.equal(allDay.isAllDay, true);
+  assert.equal(allDay.start.dateTime, '2026-12-31T00:00:00');
+  assert.equal(allDay.end.dateTime, '2027-01-01T00:00:00');
+});
+
+test('client creates, updates and deletes events in the mailbox of the target user', async () => {
+  const fake = await startFakeGraph();
+  try {
+    const client = createGraphCalendarClient({ baseUrl: fake.baseUrl });
+    const target = { accessToken: 'app-token', userId: 'anna@example.com' };
+    const event = buildRoomEventPayload({ subject: 'Raum: Aquarium', roomName: 'Aquarium', floorplanName: null, date: '2026-10-20', window: { mode: 'time', startMinute: 9 * 60, endMinute: 10 * 60 } });
+
+    const eventId = await client.createEvent(target, event);
+    assert.equal(eventId, 'evt-1');
+    assert.equal(fake.requests[0].method, 'POST');
+    assert.equal(fake.requests[0].url, '/v1.0/users/anna%40example.com/events');
+    assert.equal(fake.requests[0].authorization, 'Bearer app-token');
+    assert.deepEqual(fake.requests[0].body, event);
+
+    await client.updateEvent(target, eventId, { ...event, subject: 'Raum: Kiosk' });
+    assert.equal(fake.requests[1].method, 'PATCH');
+    assert.equal((fake.events.get('anna@example.com/evt-1') as { subject: string }).subject, 'Raum: Kiosk');
+
+    await client.deleteEvent(target, eventId);
+    assert.equal(fake.events.size, 0);
+    await client.deleteEvent(target, eventId);
+    assert.equal(fake.requests.at(-1)?.method, 'DELETE');
+  } finally {
+    await new Promise((resolve) => fake.server.close(resolve));
+  }
+});
+
+test('client surfaces Graph errors with status and code', async () => {
+  const fake = await startFakeGraph();
+  try {
+    const client = createGraphCalendarClient({ baseUrl: fake.baseUrl });
+    const event = buildRoomEventPayload({ subject: 'Raum: Aquarium', roomName: 'Aquarium', floorplanName: null, date: '2026-10-20', window: { mode: 'day', daySlot: 'AM' } });
+
+    await assert.rejects(client.updateEvent({ accessToken: 'app-token', userId: 'anna@example.com' }, 'missing', event), (error: unknown) => (
+      error instanceof GraphCalendarError && error.status === 404 && error.code === 'ErrorItemNotFound'
+    ));
+    await assert.rejects(client.createEvent({ accessToken: 'expired', userId: 'anna@example.com' }, event), (error: unknown) => (
+      error instanceof GraphCalendarError && error.status === 401 && error.message === 'Access token is empty.'
+    ));
+  } finally {
+    await new Promise((resolve) => fake.server.close(resolve));
+  }
+});
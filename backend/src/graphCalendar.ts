@@ -0,0 +1,121 @@
+import { ICS_TIME_ZONE, type IcsWindow } from './icsFeed';
+
+export const DEFAULT_GRAPH_API_BASE_URL = 'https://graph.microsoft.com/v1.0';
+
+export type GraphDateTime = { dateTime: string; timeZone: string };
+
+export type GraphEventPayload = {
+  subject: string;
+  body: { contentType: 'text'; content: string };
+  start: GraphDateTime;
+  end: GraphDateTime;
+  isAllDay: boolean;
+  location: { displayName: string };
+  showAs: 'busy';
+  attendees: Array<{ emailAddress: { address: string; name?: string }; type: 'required' }>;
+};
+
+// userId is the mailbox owner: Entra object id or UPN/e-mail, as accepted by /users/{id}.
+export type GraphCalendarTarget = { accessToken: string; userId: string };
+
+export type GraphCalendarClient = {
+  createEvent: (target: GraphCalendarTarget, event: GraphEventPayload) => Promise<string>;
+  updateEvent: (target: GraphCalendarTarget, eventId: string, event: GraphEventPayload) => Promise<void>;
+  deleteEvent: (target: GraphCalendarTarget, eventId: string) => Promise<void>;
+};
+
+export class GraphCalendarError extends Error {
+  constructor(message: string, readonly status: number, readonly code: string | null) {
+    super(message);
+    this.name = 'GraphCalendarError';
+  }
+}
+
+const addOneDay = (date: string): string => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+const localDateTime = (date: string, minute: number): GraphDateTime => ({
+  dateTime: `${date}T${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}:00`,
+  timeZone: ICS_TIME_ZONE
+});
+
+// Day-slot bookings have no clock times, so they become all-day events like in the ICS feed.
+export const buildRoomEventPayload = (params: {
+  subject: string;
+  roomName: string;
+  floorplanName: string | null;
+  date: string;
+  window: IcsWindow;
+  note?: string | null;
+  attendees?: Array<{ name: string | null; email: string }>;
+}): GraphEventPayload => {
+  const location = params.floorplanName ? `${params.roomName} (${params.floorplanName})` : params.roomName;
+  const isAllDay = params.window.mode === 'day';
+  return {
+    subject: params.subject,
+    body: { contentType: 'text', content: [`Raumbuchung: ${location}`, params.note ?? null].filter(Boolean).join('\n') },
+    start: params.window.mode === 'day' ? localDateTime(params.date, 0) : localDateTime(params.date, params.window.startMinute),
+    end: params.window.mode === 'day' ? localDateTime(addOneDay(params.date), 0) : localDateTime(params.date, params.window.endMinute),
+    isAllDay,
+    location: { displayName: location },
+    showAs: 'busy',
+    // Graph sends the invitations to these addresses when the event is created or the list changes.
+    attendees: (params.attendees ?? []).map((attendee) => ({
+      emailAddress: attendee.name ? { address: attendee.email, name: attendee.name } : { address: attendee.email },
+      type: 'required' as const
+    }))
+  };
+};
+
+const readGraphError = async (response: Response): Promise<GraphCalendarError> => {
+  let code: string | null = null;
+  let message = `Graph request failed with status ${response.status}`;
+  try {
+    const payload = await response.json() as { error?: { code?: string; message?: string } };
+    code = payload.error?.code ?? null;
+    if (payload.error?.message) message = payload.error.message;
+  } catch {
+    // Body is optional on errors; keep the status-based message.
+  }
+  return new GraphCalendarError(message, response.status, code);
+};
+
+export const createGraphCalendarClient = (options: { baseUrl?: string; fetchImpl?: typeof fetch } = {}): GraphCalendarClient => {
+  const baseUrl = (options.baseUrl ?? DEFAULT_GRAPH_API_BASE_URL).replace(/\/+$/, '');
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  const eventsUrl = (target: GraphCalendarTarget, eventId?: string): string => (
+    `${baseUrl}/users/${encodeURIComponent(target.userId)}/events${eventId ? `/${encodeURIComponent(eventId)}` : ''}`
+  );
+
+  const send = (target: GraphCalendarTarget, method: string, url: string, body?: GraphEventPayload): Promise<Response> => fetchImpl(url, {
+    method,
+    headers: {
+      authorization: `Bearer ${target.accessToken}`,
+      ...(body ? { 'content-type': 'application/json', prefer: `outlook.timezone="${ICS_TIME_ZONE}"` } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  return {
+    createEvent: async (target, event) => {
+      const response = await send(target, 'POST', eventsUrl(target), event);
+      if (!response.ok) throw await readGraphError(response);
+      const payload = await response.json() as { id?: string };
+      if (!payload.id) throw new GraphCalendarError('Graph did not return an event id', response.status, null);
+      return payload.id;
+    },
+    updateEvent: async (target, eventId, event) => {
+      const response = await send(target, 'PATCH', eventsUrl(target, eventId), event);
+      if (!response.ok) throw await readGraphError(response);
+    },
+    // An event the user already removed in Outlook counts as deleted.
+    deleteEvent: async (target, eventId) => {
+      const response = await send(target, 'DELETE', eventsUrl(target, eventId));
+      if (!response.ok && response.status !== 404) throw await readGraphError(response);
+    }
+  };
+};
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { errorCategoryForStatus, toErrorEnvelope } from './httpErrors';
+
+test('error bodies get a category, a message and the request id', () => {
+  assert.deepEqual(toErrorEnvelope(404, { error: 'not_found', message: 'Desk not found' }, 'req-1'), { error: 'not_found', message: 'Desk not found', requestId: 'req-1' });
+  assert.deepEqual(toErrorEnvelope(401, { code: 'FORCED_RELOGIN_REQUIRED', message: 'Bitte neu anmelden' }), { error: 'unauthorized', message: 'Bitte neu anmelden', code: 'FORCED_RELOGIN_REQUIRED' });
+  assert.deepEqual(toErrorEnvelope(500, undefined), { error: 'internal_error', message: 'Internal server error' });
+  assert.deepEqual(toErrorEnvelope(400, 'Bad things'), { error: 'validation', message: 'Bad things' });
+});
+
+test('legacy error identifiers become codes and extra fields are kept', () => {
+  assert.deepEqual(toErrorEnvelope(422, { error: 'policy_violation', code: 'POLICY_MAX_DAYS_AHEAD', message: 'Zu weit im Voraus', details: { violations: [] } }), {
+    error: 'unprocessable',
+    message: 'Zu weit im Voraus',
+    code: 'POLICY_MAX_DAYS_AHEAD',
+    details: { violations: [] }
+  });
+  assert.deepEqual(toErrorEnvelope(400, { error: 'entra_not_linked', message: 'Nicht verknüpft' }), { error: 'validation', message: 'Nicht verknüpft', code: 'ENTRA_NOT_LINKED' });
+  assert.deepEqual(toErrorEnvelope(410, { error: 'deprecated', message: 'Use POST /recurring-bookings' }), { error: 'gone', message: 'Use POST /recurring-bookings', code: 'DEPRECATED' });
+});
+
+test('statuses map to categories', () => {
+  assert.equal(errorCategoryForStatus(409), 'conflict');
+  assert.equal(errorCategoryForStatus(418), 'validation');
+  assert.equal(errorCategoryForStatus(504), 'internal_error');
+});
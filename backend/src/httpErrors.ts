@@ -0,0 +1,142 @@
+import type { ErrorRequestHandler, Express, RequestHandler } from 'express';
+import { s, type SchemaIssue } from './schema';
+
+// Every error response uses this shape. `error` is a coarse category derived from the status, `code` names the
+// specific failure clients may branch on. Route-specific fields (e.g. `details`, `violations`) are kept as-is.
+export type ErrorEnvelope = {
+  error: ErrorCategory;
+  message: string;
+  code?: string;
+  issues?: SchemaIssue[];
+  requestId?: string;
+  [key: string]: unknown;
+};
+
+export const ERROR_CATEGORIES = [
+  'validation',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'gone',
+  'payload_too_large',
+  'unprocessable',
+  'too_many_requests',
+  'internal_error',
+  'bad_gateway',
+  'service_unavailable'
+] as const;
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+const CATEGORY_BY_STATUS: Record<number, ErrorCategory> = {
+  400: 'validation',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  410: 'gone',
+  413: 'payload_too_large',
+  422: 'unprocessable',
+  429: 'too_many_requests',
+  502: 'bad_gateway',
+  503: 'service_unavailable'
+};
+
+const DEFAULT_MESSAGES: Record<ErrorCategory, string> = {
+  validation: 'Invalid request',
+  unauthorized: 'Authentication required',
+  forbidden: 'Forbidden',
+  not_found: 'Not found',
+  conflict: 'Conflict',
+  gone: 'No longer available',
+  payload_too_large: 'Request body is too large',
+  unprocessable: 'Request cannot be processed',
+  too_many_requests: 'Too many requests',
+  internal_error: 'Internal server error',
+  bad_gateway: 'Upstream service failed',
+  service_unavailable: 'Service unavailable'
+};
+
+export const errorCategoryForStatus = (status: number): ErrorCategory => CATEGORY_BY_STATUS[status] ?? (status >= 500 ? 'internal_error' : 'validation');
+
+const isErrorCategory = (value: unknown): value is ErrorCategory => typeof value === 'string' && (ERROR_CATEGORIES as readonly string[]).includes(value);
+
+// Handlers may still send a legacy `error` value such as `policy_violation`; it becomes the `code` unless one is set.
+export const toErrorEnvelope = (status: number, body: unknown, requestId?: string): ErrorEnvelope => {
+  const raw: Record<string, unknown> = typeof body === 'object' && body !== null && !Array.isArray(body)
+    ? { ...(body as Record<string, unknown>) }
+    : typeof body === 'string' && body.trim() ? { message: body } : {};
+  const { error, message, code, ...rest } = raw;
+  const category = errorCategoryForStatus(status);
+  const legacyCode = typeof error === 'string' && error && !isErrorCategory(error) ? error.toUpperCase() : undefined;
+  const resolvedCode = typeof code === 'string' && code ? code : legacyCode;
+
+  return {
+    error: isErrorCategory(error) ? error : category,
+    message: typeof message === 'string' && message.trim() ? message : DEFAULT_MESSAGES[category],
+    ...(resolvedCode ? { code: resolvedCode } : {}),
+    ...rest,
+    ...(requestId && rest.requestId === undefined ? { requestId } : {})
+  };
+};
+
+export const errorEnvelopeSchema = s.named('ErrorEnvelope', s.object({
+  error: s.enum(ERROR_CATEGORIES),
+  message: s.string(),
+  code: s.optional(s.string({ description: 'Specific failure, e.g. FORCED_RELOGIN_REQUIRED or POLICY_MAX_DAYS_AHEAD' })),
+  issues: s.optional(s.array(s.object({ path: s.string(), message: s.string() }), { description: 'Present for schema validation failures' })),
+  details: s.optional(s.unknown({ description: 'Route-specific context' })),
+  requestId: s.optional(s.string())
+}));
+
+// Wraps res.json so error bodies are normalized no matter which handler produced them.
+export const normalizeErrorResponses: RequestHandler = (req, res, next) => {
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => json(res.statusCode >= 400 ? toErrorEnvelope(res.statusCode, body, req.requestId) : body);
+  next();
+};
+
+// Express 4 ignores rejected promises from async handlers, which leaves the request hanging. Every route handler
+// registered so far is wrapped so a rejection reaches the error handler instead.
+export const forwardAsyncRouteErrors = (app: Express): void => {
+  const stack = (app as unknown as { _router?: { stack: Array<{ route?: { stack: Array<{ handle: RequestHandler }> } }> } })._router?.stack ?? [];
+  for (const layer of stack) {
+    for (const routeLayer of layer.route?.stack ?? []) {
+      const handle = routeLayer.handle;
+      if (handle.length > 3) continue;
+      routeLayer.handle = (req, res, next) => {
+        try {
+          const result = handle(req, res, next) as unknown;
+          if (result && typeof (result as Promise<unknown>).catch === 'function') (result as Promise<unknown>).catch(next);
+        } catch (error) {
+          next(error);
+        }
+      };
+    }
+  }
+};
+
+export const handleUncaughtErrors: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const bodyParserError = error as { type?: string; status?: number };
+  if (bodyParserError.type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'validation', code: 'INVALID_JSON', message: 'Request body is not valid JSON' });
+    return;
+  }
+  if (bodyParserError.type === 'entity.too.large') {
+    res.status(413).json({ error: 'payload_too_large', message: 'Request body is too large' });
+    return;
+  }
+
+  console.error('UNHANDLED_ROUTE_ERROR', {
+    requestId: req.requestId ?? 'unknown',
+    method: req.method,
+    path: req.path,
+    error: error instanceof Error ? error.message : String(error)
+  });
+  res.status(500).json({ error: 'internal_error', message: 'Internal server error' });
+};
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildIcsCalendar, buildRecurrenceRule, escapeIcsText, foldIcsLine } from './icsFeed';
+
+const definition = {
+  startDate: '2026-10-05',
+  endDate: '2026-12-18',
+  interval: 1,
+  byWeekday: null,
+  byMonthday: null,
+  bySetPos: null,
+  byMonth: null
+};
+
+test('recurrence rules mirror the stored series pattern', () => {
+  assert.equal(
+    buildRecurrenceRule({ ...definition, patternType: 'WEEKLY', interval: 2, byWeekday: [5, 1, 3] }),
+    'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;WKST=MO;UNTIL=20261218'
+  );
+  assert.equal(buildRecurrenceRule({ ...definition, patternType: 'MONTHLY', byMonthday: 15 }), 'FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261218');
+  assert.equal(
+    buildRecurrenceRule({ ...definition, patternType: 'MONTHLY', byMonthday: 1, byWeekday: [2], bySetPos: -1 }),
+    'FREQ=MONTHLY;BYDAY=TU;BYSETPOS=-1;UNTIL=20261218'
+  );
+  assert.equal(
+    buildRecurrenceRule({ ...definition, patternType: 'DAILY' }, new Date('2026-12-18T22:59:59.000Z')),
+    'FREQ=DAILY;UNTIL=20261218T225959Z'
+  );
+});
+
+test('series events carry exdates in the same form as their start', () => {
+  const calendar = buildIcsCalendar({
+    name: 'Buchungen',
+    stamp: new Date('2026-10-19T08:00:00.000Z'),
+    events: [
+      { uid: 'series-1@rb-ms', summary: 'Parkplatz: P1', date: '2026-10-05', window: { mode: 'time', startMinute: 8 * 60, endMinute: 16 * 60 + 30 }, rrule: 'FREQ=DAILY', exdates: ['2026-10-07'] },
+      { uid: 'booking-1@rb-ms', summary: 'Tisch: A1', date: '2026-10-20', window: { mode: 'day', daySlot: 'FULL' }, exdates: [] }
+    ]
+  });
+  const lines = calendar.split('\r\n');
+
+  assert.ok(lines.includes('DTSTART;TZID=Europe/Berlin:20261005T080000'));
+  assert.ok(lines.includes('DTEND;TZID=Europe/Berlin:20261005T163000'));
+  assert.ok(lines.includes('EXDATE;TZID=Europe/Berlin:20261007T080000'));
+  assert.ok(lines.includes('DTSTART;VALUE=DATE:20261020'));
+  assert.ok(lines.includes('DTEND;VALUE=DATE:20261021'));
+  assert.equal(lines.filter((line) => line.startsWith('EXDATE')).length, 1);
+  assert.ok(calendar.endsWith('END:VCALENDAR\r\n'));
+});
+
+test('text values are escaped and long lines folded', () => {
+  assert.equal(escapeIcsText('Raum; 2, OG\nNord'), 'Raum\\; 2\\, OG\\nNord');
+  const folded = foldIcsLine(`SUMMARY:${'ä'.repeat(60)}`);
+  for (const line of folded.split('\r\n')) {
+    assert.ok(Buffer.byteLength(line, 'utf8') <= 75);
+  }
+  assert.equal(folded.split('\r\n').map((line, index) => (index === 0 ? line : line.slice(1))).join(''), `SUMMARY:${'ä'.repeat(60)}`);
+});
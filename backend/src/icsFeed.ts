@@ -0,0 +1,163 @@
+import type { DaySlot, ResourceKind } from '@prisma/client';
+import type { RecurrenceDefinition } from './recurrence';
+
+export type IcsWindow = { mode: 'day'; daySlot: DaySlot } | { mode: 'time'; startMinute: number; endMinute: number };
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  location?: string | null;
+  description?: string | null;
+  date: string;
+  window: IcsWindow;
+  rrule?: string | null;
+  exdates?: string[];
+  busy?: boolean;
+};
+
+export const ICS_TIME_ZONE = 'Europe/Berlin';
+
+const ICS_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// Bookings store wall-clock times of the office, so events carry a TZID instead of UTC timestamps.
+const BERLIN_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${ICS_TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+const DAY_SLOT_LABELS: Record<DaySlot, string | null> = { FULL: null, AM: 'Vormittag', PM: 'Nachmittag' };
+
+export const resourceKindCalendarLabel = (kind: ResourceKind): string => {
+  if (kind === 'TISCH') return 'Tisch';
+  if (kind === 'PARKPLATZ') return 'Parkplatz';
+  if (kind === 'RAUM') return 'Raum';
+  return 'Ressource';
+};
+
+export const daySlotCalendarLabel = (daySlot: DaySlot): string | null => DAY_SLOT_LABELS[daySlot];
+
+export const escapeIcsText = (value: string): string => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a single space.
+export const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const compactDate = (date: string): string => date.replace(/-/g, '');
+
+const addOneDay = (date: string): string => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+const formatLocalDateTime = (date: string, minute: number): string => (
+  `${compactDate(date)}T${String(Math.floor(minute / 60)).padStart(2, '0')}${String(minute % 60).padStart(2, '0')}00`
+);
+
+export const formatIcsUtcDateTime = (value: Date): string => value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+
+// Timed events need UNTIL as a UTC timestamp; all-day events use the plain end date.
+export const buildRecurrenceRule = (definition: RecurrenceDefinition, untilUtc?: Date | null): string => {
+  const parts = [`FREQ=${definition.patternType}`];
+  if (definition.interval > 1) parts.push(`INTERVAL=${definition.interval}`);
+
+  const weekdays = Array.from(new Set(definition.byWeekday ?? []))
+    .filter((value) => value >= 1 && value <= 7)
+    .sort((a, b) => a - b)
+    .map((value) => ICS_WEEKDAYS[value - 1]);
+
+  if (definition.patternType === 'WEEKLY') {
+    parts.push(`BYDAY=${weekdays.join(',')}`, 'WKST=MO');
+  } else if (definition.patternType === 'MONTHLY') {
+    if (definition.bySetPos && weekdays.length > 0) {
+      parts.push(`BYDAY=${weekdays.join(',')}`, `BYSETPOS=${definition.bySetPos}`);
+    } else if (definition.byMonthday) {
+      parts.push(`BYMONTHDAY=${definition.byMonthday}`);
+    }
+  } else if (definition.patternType === 'YEARLY') {
+    if (definition.byMonth) parts.push(`BYMONTH=${definition.byMonth}`);
+    if (definition.byMonthday) parts.push(`BYMONTHDAY=${definition.byMonthday}`);
+  }
+
+  parts.push(`UNTIL=${untilUtc ? formatIcsUtcDateTime(untilUtc) : compactDate(definition.endDate)}`);
+  return parts.join(';');
+};
+
+const buildEventLines = (event: IcsEvent, stamp: Date): string[] => {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatIcsUtcDateTime(stamp)}`];
+
+  if (event.window.mode === 'day') {
+    lines.push(`DTSTART;VALUE=DATE:${compactDate(event.date)}`, `DTEND;VALUE=DATE:${compactDate(addOneDay(event.date))}`);
+  } else {
+    lines.push(
+      `DTSTART;TZID=${ICS_TIME_ZONE}:${formatLocalDateTime(event.date, event.window.startMinute)}`,
+      `DTEND;TZID=${ICS_TIME_ZONE}:${formatLocalDateTime(event.date, event.window.endMinute)}`
+    );
+  }
+
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  if (event.exdates && event.exdates.length > 0) {
+    const { window } = event;
+    const values = event.exdates.map((date) => (window.mode === 'day' ? compactDate(date) : formatLocalDateTime(date, window.startMinute)));
+    lines.push(window.mode === 'day' ? `EXDATE;VALUE=DATE:${values.join(',')}` : `EXDATE;TZID=${ICS_TIME_ZONE}:${values.join(',')}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  lines.push(`TRANSP:${event.busy ? 'OPAQUE' : 'TRANSPARENT'}`, 'END:VEVENT');
+  return lines;
+};
+
+export const buildIcsCalendar = (params: { name: string; events: IcsEvent[]; stamp?: Date }): string => {
+  const stamp = params.stamp ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//RB-MS//Buchungen//DE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(params.name)}`,
+    `X-WR-TIMEZONE:${ICS_TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...BERLIN_VTIMEZONE,
+    ...params.events.flatMap((event) => buildEventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
@@ -3,11 +3,38 @@ import { canCancelBooking } from './auth/bookingAuth';
 import express from 'express';
 import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
-import { BookedFor, BookingSlot, DaySlot, DeskEmployeeScope, DeskTenantScope, FeedbackReportStatus, FeedbackReportType, FloorplanTenantScope, Prisma, RecurrencePatternType, RecurringBooking, ResourceKind } from '@prisma/client';
+import { BookedFor, BookingSlot, ClosurePeriod, DaySlot, DeskEmployeeScope, DeskTenantScope, FeedbackReportStatus, FeedbackReportType, FloorplanTenantScope, Prisma, RecurrencePatternType, RecurringBooking, ResourceEquipment, ResourceKind, Visitor, WaitlistStatus } from '@prisma/client';
 import { prisma } from './prisma';
 import { expandRecurrence, MAX_SERIES_OCCURRENCES, type RecurrenceDefinition, validateRecurrenceDefinition } from './recurrence';
-import { buildParkingAssignmentProposal, windowsOverlap as parkingWindowsOverlap } from './parkingAssignment';
+import { buildParkingAssignmentProposal, buildParkingWeekProposal, MAX_PARKING_WEEK_DAYS, type ParkingBooking, type ParkingWeekDay, windowsOverlap as parkingWindowsOverlap } from './parkingAssignment';
 import { overlapsHalfOpenIntervals } from './timeOverlap';
+import { isCheckInOpen, isCheckInOverdue, MAX_CHECK_IN_GRACE_MINUTES, resolveCheckInGraceMinutes } from './checkIn';
+import { assignWaitlistCapacity, WAITLIST_OFFER_MINUTES } from './waitlist';
+import { type AuditAction, type AuditEntityType, AUDIT_ENTITY_TYPES, toAuditSnapshot } from './audit';
+import { type BookingPolicyCandidate, bookingPolicyApplies, type BookingPolicyViolation, evaluateBookingPolicies, isoWeekStart, parseBookingPolicyInput } from './bookingPolicy';
+import { type ClosureRule, findBlockingClosure, fullyClosedDates } from './closures';
+import { matchesResourceFilter, parseEquipmentList, type ResourceFilter } from './resourceSearch';
+import { rankResources, type RankingSignals, USAGE_LOOKBACK_DAYS } from './availabilityRanking';
+import { MAX_FOLLOWED_EMPLOYEES, parseEmployeeIdList, parsePresenceRange, pickNearestResource } from './presence';
+import { describeZoneForTeams, isZoneBookableForTeams, parseZoneTeamAssignments, type ZoneAssignment, ZONE_COLOR_PATTERN } from './zones';
+import { type AttendeeInput, countRoomOccupants, exceedsRoomCapacity, parseAttendeeResponse, parseAttendeesInput, parseMeetingTitle } from './attendees';
+import { buildIcsCalendar, buildRecurrenceRule, daySlotCalendarLabel, type IcsEvent, resourceKindCalendarLabel } from './icsFeed';
+import { buildRoomEventPayload, createGraphCalendarClient, DEFAULT_GRAPH_API_BASE_URL, GraphCalendarError, type GraphCalendarTarget } from './graphCalendar';
+import { createMailTransportFromEnv, MailTransportError } from './mail';
+import { type BookingMailDetails, type MailTemplate, parseMailLocale, renderMail } from './mailTemplates';
+import { OUTBOX_BATCH_SIZE, OUTBOX_LEASE_MS, outboxRetryDelayMs, resolveOutboxOutcome } from './outbox';
+import { createWebhookSecret, deliverWebhook, parseWebhookSubscriptionInput, type WebhookEvent, WEBHOOK_EVENTS } from './webhooks';
+import { API_TOKEN_SCOPES, type ApiTokenScope, createApiToken, hashApiToken, hasApiTokenScope, isApiTokenUsable, parseApiTokenInput, parseBearerToken, requiredApiTokenScope } from './apiTokens';
+import { availableMinutesQuery, type AvailableMinutesRow, bookedMinutesQuery, type BookedMinutesRow, buildUtilizationReport, parseUtilizationDimension, parseUtilizationFilter, type UtilizationFilter, utilizationReportToCsv } from './utilization';
+import { buildFloorplanBundle, floorplanBundleToZip, planFloorplanBundleImport, readFloorplanBundle, type FloorplanBundlePlan } from './floorplanBundle';
+import { type ImportPlan, planDeskImport, planEmployeeImport, readImportTable } from './bulkImport';
+import { forwardAsyncRouteErrors, handleUncaughtErrors, normalizeErrorResponses } from './httpErrors';
+import { buildOpenApiDocument, compileRouteSpecs, matchRouteSpec, validateRouteRequest } from './openapi';
+import { routeSpecs } from './routeSpecs';
+import { createVisitorCode, normalizeVisitorCode, parseVisitorInput, resolveVisitorRetentionCutoff, resolveVisitorRetentionDays, resolveVisitorStatus, type VisitorInput } from './visitors';
+import { createOccupancyStreamHub, formatServerSentEvent, OCCUPANCY_STREAM_HEARTBEAT_MS, OCCUPANCY_STREAM_RETRY_MS } from './occupancyStream';
+import { renderResourceLabelSheet, resourceDeepLink } from './resourceLabels';
+import { createRoomDisplayToken, parseRoomDisplayDuration, parseRoomDisplayInput, parseRoomDisplayToken, resolveRoomDisplayState, ROOM_DISPLAY_DURATIONS, ROOM_DISPLAY_TOKEN_HEADER } from './roomDisplay';
 
 const app = express();
 const port = Number(process.env.PORT ?? 3000);
@@ -209,6 +236,10 @@ const ENTRA_CLIENT_SECRET = process.env.ENTRA_CLIENT_SECRET;
 const ENTRA_REDIRECT_URI = process.env.ENTRA_REDIRECT_URI?.trim();
 const ENTRA_POST_LOGIN_REDIRECT = process.env.ENTRA_POST_LOGIN_REDIRECT?.trim() ?? `${process.env.FRONTEND_URL ?? ''}/#/`;
 const GRAPH_APP_SCOPE = 'https://graph.microsoft.com/.default';
+const GRAPH_CALENDAR_SYNC_ENABLED = process.env.GRAPH_CALENDAR_SYNC === 'true';
+const VISITOR_RETENTION_DAYS = resolveVisitorRetentionDays(process.env.VISITOR_RETENTION_DAYS);
+const GRAPH_API_BASE_URL = process.env.GRAPH_API_BASE_URL?.trim() || DEFAULT_GRAPH_API_BASE_URL;
+const mailTransport = createMailTransportFromEnv(process.env, { appTitle: APP_TITLE });
 
 const corsOptions = {
   origin: (origin: string | undefined, callback: (error: Error | null, allow?: boolean) => void) => {
@@ -287,6 +318,10 @@ const parseFloorplanTenantScope = (value: unknown): FloorplanTenantScope | null
   return FLOORPLAN_TENANT_SCOPES.has(normalized) ? normalized : null;
 };
 
+const isValidCheckInGraceMinutes = (value: unknown): value is number | null => (
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_CHECK_IN_GRACE_MINUTES)
+);
+
 const parseBookedFor = (value: unknown): BookedFor => {
   if (typeof value !== 'string') return 'SELF';
   const normalized = value.trim().toUpperCase() as BookedFor;
@@ -342,7 +377,8 @@ type SessionRecord = {
   graphAccessToken?: string;
   graphTokenExpiresAt?: Date;
 };
-type AuthUser = { id: string; email: string; displayName: string; role: EmployeeRole; isActive: boolean; source: 'local' | 'entra' };
+type AuthUser = { id: string; email: string; displayName: string; role: EmployeeRole; isActive: boolean; source: 'local' | 'entra' | 'service_account' };
+type ApiTokenAuth = { id: string; scopes: ApiTokenScope[]; employeeId: string | null; serviceAccountId: string | null };
 
 declare global {
   namespace Express {
@@ -350,7 +386,8 @@ declare global {
       requestId?: string;
       authUser?: AuthUser;
       authSession?: SessionRecord;
-      authFailureReason?: 'MISSING_SESSION_COOKIE' | 'SESSION_INVALID_OR_EXPIRED' | 'USER_MISSING_OR_INACTIVE' | 'FORCED_RELOGIN_REQUIRED';
+      apiToken?: ApiTokenAuth;
+      authFailureReason?: 'MISSING_SESSION_COOKIE' | 'SESSION_INVALID_OR_EXPIRED' | 'USER_MISSING_OR_INACTIVE' | 'FORCED_RELOGIN_REQUIRED' | 'API_TOKEN_INVALID';
     }
   }
 }
@@ -371,6 +408,7 @@ const attachRequestId: express.RequestHandler = (req, res, next) => {
 };
 
 app.use(attachRequestId);
+app.use(normalizeErrorResponses);
 
 const SESSION_COOKIE_NAME = 'rbms_session';
 const SESSION_TTL_MS = 1000 * 60 * 60 * 12;
@@ -614,6 +652,12 @@ const requireAllowedMutationOrigin: express.RequestHandler = (req, res, next) =>
     return;
   }
 
+  // Bearer tokens are never sent implicitly by a browser, so they cannot be abused cross-site.
+  if (req.apiToken) {
+    next();
+    return;
+  }
+
   if (configuredOrigins.length === 0) {
     next();
     return;
@@ -621,7 +665,7 @@ const requireAllowedMutationOrigin: express.RequestHandler = (req, res, next) =>
 
   const origin = req.get('origin');
   if (origin && !configuredOrigins.includes(origin)) {
-    res.status(403).json({ error: 'forbidden', code: 'ORIGIN_NOT_ALLOWED', message: 'Request blocked (Origin)' });
+    res.status(403).json({ error: 'forbidden', code: 'ORIGIN_NOT_ALLOWED', message: 'Anfrage blockiert (Origin)' });
     return;
   }
 
@@ -629,7 +673,7 @@ const requireAllowedMutationOrigin: express.RequestHandler = (req, res, next) =>
     const referer = req.get('referer');
     const refererAllowed = Boolean(referer && configuredOrigins.some((allowedOrigin) => referer.startsWith(allowedOrigin)));
     if (!refererAllowed) {
-      res.status(403).json({ error: 'forbidden', code: 'ORIGIN_NOT_ALLOWED', message: 'Request blocked (Origin)' });
+      res.status(403).json({ error: 'forbidden', code: 'ORIGIN_NOT_ALLOWED', message: 'Anfrage blockiert (Origin)' });
       return;
     }
   }
@@ -637,6 +681,60 @@ const requireAllowedMutationOrigin: express.RequestHandler = (req, res, next) =>
   next();
 };
 
+const API_TOKEN_LAST_USED_RESOLUTION_MS = 60_000;
+// Synthetic address for audit entries and createdByEmail; the .invalid TLD can never collide with an employee.
+const serviceAccountEmail = (serviceAccountId: string) => `${serviceAccountId}@service-accounts.invalid`;
+
+// A bearer token replaces the session cookie entirely: an invalid token never falls back to the cookie.
+// The role is narrowed to the token scopes, so an admin's token without `admin` scope acts like a regular user.
+const attachApiTokenUser = async (req: express.Request, token: string): Promise<void> => {
+  const now = new Date();
+  const row = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      employee: { select: { id: true, email: true, displayName: true, role: true, isActive: true } },
+      serviceAccount: { select: { id: true, name: true, isActive: true } }
+    }
+  });
+  if (!row || !isApiTokenUsable(row, now)) {
+    req.authFailureReason = 'API_TOKEN_INVALID';
+    return;
+  }
+
+  // Service-account tokens issued before bookings:write was refused for them lose it here, so booking writes
+  // end with INSUFFICIENT_SCOPE instead of failing later when no employee can be found for the account.
+  const scopes = row.scopes.filter((scope): scope is ApiTokenScope => (
+    (API_TOKEN_SCOPES as readonly string[]).includes(scope) && !(row.serviceAccount && !row.employee && scope === 'bookings:write')
+  ));
+  if (row.employee?.isActive) {
+    req.authUser = {
+      id: row.employee.id,
+      email: row.employee.email,
+      displayName: row.employee.displayName,
+      role: row.employee.role === 'admin' && scopes.includes('admin') ? 'admin' : 'user',
+      isActive: true,
+      source: 'entra'
+    };
+  } else if (row.serviceAccount?.isActive) {
+    req.authUser = {
+      id: row.serviceAccount.id,
+      email: serviceAccountEmail(row.serviceAccount.id),
+      displayName: row.serviceAccount.name,
+      role: scopes.includes('admin') ? 'admin' : 'user',
+      isActive: true,
+      source: 'service_account'
+    };
+  } else {
+    req.authFailureReason = 'USER_MISSING_OR_INACTIVE';
+    return;
+  }
+
+  req.apiToken = { id: row.id, scopes, employeeId: row.employeeId, serviceAccountId: row.serviceAccountId };
+  if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() > API_TOKEN_LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({ where: { id: row.id }, data: { lastUsedAt: now } });
+  }
+};
+
 const attachAuthUser: express.RequestHandler = async (req, _res, next) => {
   if (AUTH_BYPASS_ENABLED) {
     const devUserHeader = req.get('x-dev-user')?.trim().toLowerCase();
@@ -671,6 +769,13 @@ const attachAuthUser: express.RequestHandler = async (req, _res, next) => {
     }
   }
 
+  const bearerToken = parseBearerToken(req.get('authorization'));
+  if (bearerToken) {
+    await attachApiTokenUser(req, bearerToken);
+    next();
+    return;
+  }
+
   const cookies = parseCookies(req.headers.cookie);
   const sessionId = cookies[SESSION_COOKIE_NAME];
   if (!sessionId) {
@@ -762,7 +867,33 @@ const attachAuthUser: express.RequestHandler = async (req, _res, next) => {
 
 const requireAuthenticated: express.RequestHandler = (req, res, next) => {
   if (!req.authUser) {
-    res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
+    res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
+    return;
+  }
+
+  next();
+};
+
+const requireApiTokenScope: express.RequestHandler = (req, res, next) => {
+  if (!req.apiToken) {
+    next();
+    return;
+  }
+
+  const requiredScope = requiredApiTokenScope(req.method, req.path);
+  if (!hasApiTokenScope(req.apiToken.scopes, requiredScope)) {
+    res.status(403).json({ error: 'forbidden', code: 'INSUFFICIENT_SCOPE', message: `Der API-Token braucht den Scope ${requiredScope}` });
+    return;
+  }
+
+  next();
+};
+
+// Token management stays bound to an interactive login, otherwise a leaked token could mint its own successors.
+// The database editor is included because it can write ApiToken rows and read webhook secrets directly.
+const requireSessionAuth: express.RequestHandler = (req, res, next) => {
+  if (req.apiToken) {
+    res.status(403).json({ error: 'forbidden', code: 'SESSION_REQUIRED', message: 'Das geht nur mit einer Anmeldung, nicht mit einem API-Token' });
     return;
   }
 
@@ -771,12 +902,12 @@ const requireAuthenticated: express.RequestHandler = (req, res, next) => {
 
 const requireAdmin: express.RequestHandler = (req, res, next) => {
   if (!req.authUser) {
-    res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
+    res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
     return;
   }
 
   if (!req.authUser.isActive || req.authUser.role !== 'admin') {
-    res.status(403).json({ error: 'forbidden', message: 'Admin role required' });
+    res.status(403).json({ error: 'forbidden', message: 'Adminrechte erforderlich' });
     return;
   }
 
@@ -864,6 +995,14 @@ const getBerlinDayBoundsUtc = (date: Date): { dayStartUtc: Date; dayEndUtc: Date
   };
 };
 
+const getBerlinNow = (now = new Date()): { date: Date; minute: number } => {
+  const local = new Date(now.getTime() + getTimeZoneOffsetMs(now, BERLIN_TIME_ZONE));
+  return {
+    date: new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())),
+    minute: local.getUTCHours() * 60 + local.getUTCMinutes()
+  };
+};
+
 const mergeTimeIntervals = (intervals: Array<{ start: number; end: number }>): Array<{ start: number; end: number }> => {
   if (intervals.length === 0) return [];
   const sorted = [...intervals].sort((left, right) => left.start - right.start);
@@ -1062,6 +1201,7 @@ type DbDelegate = {
   findMany: (args: { take: number; skip: number; orderBy: { createdAt: 'desc' } | { id: 'desc' }; where?: Record<string, unknown> }) => Promise<unknown[]>;
   count: (args?: { where?: Record<string, unknown> }) => Promise<number>;
   create: (args: { data: Record<string, unknown> }) => Promise<unknown>;
+  findUnique: (args: { where: { id: string } }) => Promise<unknown>;
   update: (args: { where: { id: string }; data: Record<string, unknown> }) => Promise<unknown>;
   delete: (args: { where: { id: string } }) => Promise<unknown>;
   deleteMany: (args?: { where?: Record<string, unknown> }) => Promise<{ count: number }>;
@@ -1090,6 +1230,8 @@ const DB_TABLES_BY_ROUTE = new Map(DB_TABLES.map((table) => [table.routeName, ta
 
 const getDbTableMeta = (table: string): DbTableMeta | null => DB_TABLES_BY_ROUTE.get(table) ?? null;
 
+const READ_ONLY_DB_MODELS = new Set(['AuditEvent']);
+
 const getDbDelegate = (meta: DbTableMeta): DbDelegate | null => {
   const delegates = prisma as unknown as Record<string, DbDelegate | undefined>;
   return delegates[meta.delegateKey] ?? null;
@@ -1210,6 +1352,45 @@ type BookingWithCreator = Prisma.BookingGetPayload<{ include: { createdByEmploye
 type CreatorSummary = { id: string; displayName: string; email: string };
 
 const bookingRequestId = () => (typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `booking-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`);
+type AuditEventInput = { action: AuditAction; entityType: AuditEntityType; entityId?: string | null; before?: unknown; after?: unknown };
+
+const resolveAuditActor = async (req: express.Request): Promise<{ employeeId: string | null; email: string; displayName: string } | null> => {
+  if (!req.authUser) return null;
+  const employee = req.authSession?.employeeId
+    ? { id: req.authSession.employeeId }
+    : await prisma.employee.findUnique({ where: { email: normalizeEmail(req.authUser.email) }, select: { id: true } });
+  return { employeeId: employee?.id ?? null, email: req.authUser.email, displayName: req.authUser.displayName };
+};
+
+// Audit writes are best effort: a failing insert is logged but never turns a finished mutation into an error.
+// Background jobs pass no request and show up as system actions.
+const recordAuditEvents = async (req: express.Request | null, events: AuditEventInput[]): Promise<void> => {
+  if (events.length === 0) return;
+  try {
+    const actor = req ? await resolveAuditActor(req) : null;
+    await prisma.auditEvent.createMany({
+      data: events.map((event) => ({
+        actorEmployeeId: actor?.employeeId ?? null,
+        actorEmail: actor?.email ?? null,
+        actorDisplayName: actor?.displayName ?? null,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId ?? null,
+        before: toAuditSnapshot(event.before),
+        after: toAuditSnapshot(event.after),
+        requestId: req?.requestId ?? null
+      }))
+    });
+  } catch (error) {
+    console.error('AUDIT_WRITE_FAILED', {
+      actions: events.map((event) => `${event.entityType}:${event.action}`),
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+const recordAuditEvent = (req: express.Request | null, event: AuditEventInput): Promise<void> => recordAuditEvents(req, [event]);
+
 const logBookingEvent = (event: string, details: Record<string, unknown>, level: 'info' | 'warn' | 'error' | 'debug' = 'info') => {
   const payload = { event, ...details };
   if (level === 'warn') {
@@ -1276,13 +1457,32 @@ const findBookingIdentity = async (userEmail: string): Promise<BookingIdentity>
 };
 
 
+const isBookingIdentityOf = (identity: BookingIdentity, employee: { id: string; email: string }): boolean => identity.employeeId === employee.id
+  || identity.emailAliases.includes(normalizeEmail(employee.email));
+
+const hasBookingDelegation = async (principalId: string, delegateId: string): Promise<boolean> => (
+  await prisma.bookingDelegation.count({ where: { principalId, delegateId, principal: { isActive: true } } })
+) > 0;
+
+// Ids of the active colleagues who delegated their bookings to the given employee.
+const getBookingPrincipalIds = async (delegateId: string): Promise<string[]> => {
+  const delegations = await prisma.bookingDelegation.findMany({ where: { delegateId, principal: { isActive: true } }, select: { principalId: true } });
+  return delegations.map((delegation) => delegation.principalId);
+};
+
 const requireActorEmployee = async (req: express.Request): Promise<{ id: string; displayName: string; email: string; role: EmployeeRole; tenantDomainId?: string | null }> => {
   if (!req.authUser) {
-    const error = new Error('Authentication required');
+    const error = new Error('Anmeldung erforderlich');
     (error as Error & { status?: number }).status = 401;
     throw error;
   }
 
+  if (req.authUser.source === 'service_account') {
+    const error = new Error('Dienstkonten können nicht als Mitarbeiter handeln');
+    (error as Error & { status?: number }).status = 403;
+    throw error;
+  }
+
   if (AUTH_BYPASS_ENABLED && req.authUser.source === 'local' && !req.authSession?.employeeId) {
     return {
       id: req.authUser.id,
@@ -1309,7 +1509,7 @@ const requireActorEmployee = async (req: express.Request): Promise<{ id: string;
       };
     }
 
-    const error = new Error('No active employee mapped to current session');
+    const error = new Error('Zu dieser Sitzung gibt es keinen aktiven Mitarbeiter');
     (error as Error & { status?: number }).status = 403;
     throw error;
   }
@@ -1355,7 +1555,20 @@ const findDuplicateUserDateGroups = (bookings: Array<{ id: string; userEmail: st
   return Array.from(counts.entries()).filter(([, count]) => count > 1);
 };
 
-const mapBookingResponse = (booking: BookingWithCreator & { employeeId?: string | null }) => ({
+// The code is only returned to whoever books the guest and to reception.
+const mapVisitor = (visitor: Visitor) => ({
+  id: visitor.id,
+  email: visitor.email,
+  company: visitor.company,
+  hostEmployeeId: visitor.hostEmployeeId,
+  expectedArrivalTime: minuteToHHMM(visitor.expectedArrivalMinute) ?? null,
+  code: visitor.code,
+  status: resolveVisitorStatus(visitor),
+  arrivedAt: visitor.arrivedAt,
+  departedAt: visitor.departedAt
+});
+
+const mapBookingResponse = (booking: BookingWithCreator & { employeeId?: string | null; attendees?: BookingAttendeeWithEmployee[]; visitor?: Visitor | null }) => ({
   id: booking.id,
   deskId: booking.deskId,
   userEmail: booking.userEmail,
@@ -1373,6 +1586,11 @@ const mapBookingResponse = (booking: BookingWithCreator & { employeeId?: string
   slot: booking.slot,
   startTime: minuteToHHMM(booking.startMinute ?? (booking.startTime ? booking.startTime.getUTCHours() * 60 + booking.startTime.getUTCMinutes() : null)) ?? null,
   endTime: minuteToHHMM(booking.endMinute ?? (booking.endTime ? booking.endTime.getUTCHours() * 60 + booking.endTime.getUTCMinutes() : null)) ?? null,
+  checkInStatus: booking.checkInStatus,
+  checkedInAt: booking.checkedInAt,
+  title: booking.title ?? null,
+  ...(booking.attendees ? { attendees: booking.attendees.map(mapBookingAttendee) } : {}),
+  ...(booking.visitor ? { visitor: mapVisitor(booking.visitor) } : {}),
   createdAt: booking.createdAt
 });
 
@@ -1422,6 +1640,466 @@ const getGraphAppAccessToken = async (tenantId: string): Promise<string | null>
   return tokenPayload.access_token;
 };
 
+const graphCalendarClient = createGraphCalendarClient({ baseUrl: GRAPH_API_BASE_URL });
+
+type GraphCalendarBookingRef = { id: string; graphEventId: string | null; graphEventUserId: string | null };
+
+// Calendar writes need the application permission Calendars.ReadWrite; the login token only carries User.Read.
+const resolveGraphCalendarTarget = async (employee: { email: string; entraOid: string | null; entraTenantId: string | null }): Promise<GraphCalendarTarget | null> => {
+  const tenantId = normalizeEntraTenantId(employee.entraTenantId) ?? normalizeEntraTenantId(ENTRA_TENANT_ID);
+  const accessToken = tenantId ? await getGraphAppAccessToken(tenantId) : null;
+  return accessToken ? { accessToken, userId: employee.entraOid ?? employee.email } : null;
+};
+
+const removeGraphCalendarEvents = async (bookings: GraphCalendarBookingRef[]): Promise<void> => {
+  if (!GRAPH_CALENDAR_SYNC_ENABLED) return;
+  for (const booking of bookings) {
+    if (!booking.graphEventId || !booking.graphEventUserId) continue;
+    try {
+      const owner = await prisma.employee.findFirst({
+        where: { OR: [{ entraOid: booking.graphEventUserId }, { email: booking.graphEventUserId }] },
+        select: { email: true, entraOid: true, entraTenantId: true }
+      });
+      const target = await resolveGraphCalendarTarget(owner ?? { email: booking.graphEventUserId, entraOid: null, entraTenantId: null });
+      if (!target) {
+        logBookingEvent('GRAPH_CALENDAR_DELETE_SKIPPED', { bookingId: booking.id, reason: 'no_app_token' }, 'warn');
+        continue;
+      }
+      await graphCalendarClient.deleteEvent({ ...target, userId: booking.graphEventUserId }, booking.graphEventId);
+      logBookingEvent('GRAPH_CALENDAR_EVENT_DELETED', { bookingId: booking.id, graphEventId: booking.graphEventId });
+    } catch (error) {
+      logBookingEvent('GRAPH_CALENDAR_DELETE_FAILED', { bookingId: booking.id, status: error instanceof GraphCalendarError ? error.status : null, error: error instanceof Error ? error.message : String(error) }, 'warn');
+    }
+  }
+};
+
+// Best effort: the booking is already committed, so Graph failures are logged and never fail the request.
+const syncRoomBookingCalendarEvent = async (bookingId: string): Promise<void> => {
+  if (!GRAPH_CALENDAR_SYNC_ENABLED) return;
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { desk: { select: { name: true, kind: true, floorplan: { select: { name: true } } } }, attendees: bookingAttendeesInclude }
+    });
+    if (!booking) return;
+
+    const window = bookingToWindow(booking);
+    if (booking.desk.kind !== 'RAUM' || !window) {
+      if (booking.graphEventId) {
+        await removeGraphCalendarEvents([booking]);
+        await prisma.booking.update({ where: { id: booking.id }, data: { graphEventId: null, graphEventUserId: null } });
+      }
+      return;
+    }
+
+    const owner = await prisma.employee.findUnique({
+      where: { id: booking.employeeId ?? booking.createdByEmployeeId },
+      select: { email: true, entraOid: true, entraTenantId: true }
+    });
+    const target = owner ? await resolveGraphCalendarTarget(owner) : null;
+    if (!target) {
+      logBookingEvent('GRAPH_CALENDAR_SYNC_SKIPPED', { bookingId, reason: owner ? 'no_app_token' : 'no_owner' }, 'warn');
+      return;
+    }
+
+    const event = buildRoomEventPayload({
+      subject: booking.title ?? calendarEventSummary(booking.desk, window, booking.bookedFor === 'GUEST' ? booking.guestName : null),
+      roomName: booking.desk.name,
+      floorplanName: booking.desk.floorplan?.name ?? null,
+      date: toISODateOnly(booking.date),
+      window,
+      attendees: booking.attendees
+        .map(mapBookingAttendee)
+        .filter((attendee): attendee is typeof attendee & { email: string } => Boolean(attendee.email))
+    });
+
+    if (booking.graphEventId && booking.graphEventUserId === target.userId) {
+      try {
+        await graphCalendarClient.updateEvent(target, booking.graphEventId, event);
+        logBookingEvent('GRAPH_CALENDAR_EVENT_UPDATED', { bookingId, graphEventId: booking.graphEventId });
+        return;
+      } catch (error) {
+        // Removed in Outlook in the meantime: fall through and create a fresh event.
+        if (!(error instanceof GraphCalendarError) || error.status !== 404) throw error;
+      }
+    } else if (booking.graphEventId) {
+      await removeGraphCalendarEvents([booking]);
+    }
+
+    const graphEventId = await graphCalendarClient.createEvent(target, event);
+    await prisma.booking.update({ where: { id: booking.id }, data: { graphEventId, graphEventUserId: target.userId } });
+    logBookingEvent('GRAPH_CALENDAR_EVENT_CREATED', { bookingId, graphEventId });
+  } catch (error) {
+    logBookingEvent('GRAPH_CALENDAR_SYNC_FAILED', { bookingId, status: error instanceof GraphCalendarError ? error.status : null, error: error instanceof Error ? error.message : String(error) }, 'warn');
+  }
+};
+
+type MailDb = Prisma.TransactionClient | typeof prisma;
+type MailBookingRef = Pick<Prisma.BookingGetPayload<object>, 'deskId' | 'date' | 'daySlot' | 'startTime' | 'endTime' | 'slot' | 'startMinute' | 'endMinute' | 'bookedFor' | 'guestName' | 'employeeId' | 'userEmail' | 'createdByEmployeeId'> & { roomDisplayId?: string | null };
+type MailActor = { employeeId: string | null; displayName: string } | null;
+type MailRecipient = { id: string; email: string; displayName: string; emailLocale: string; emailNotifications: boolean; isActive: boolean };
+
+const mailRecipientSelect = { id: true, email: true, displayName: true, emailLocale: true, emailNotifications: true, isActive: true } as const;
+
+// `visitorId` marks mails about a visitor so the retention purge can delete them together with the visitor.
+const enqueueMail = async (db: MailDb, recipient: MailRecipient, template: MailTemplate, options: { visitorId?: string } = {}): Promise<void> => {
+  if (!mailTransport || !recipient.isActive || !recipient.emailNotifications) return;
+  const rendered = renderMail(template, { locale: parseMailLocale(recipient.emailLocale) ?? 'de', recipientName: recipient.displayName, appTitle: APP_TITLE });
+  await db.outboxMessage.create({
+    data: { topic: 'mail', payload: { to: recipient.email, subject: rendered.subject, text: rendered.text, template: template.kind, ...(options.visitorId ? { visitorId: options.visitorId } : {}) } }
+  });
+};
+
+// Guest bookings notify the person who booked them; everything else the booked employee. Walk-ins from a
+// room display have no such person, so nobody is mailed about them.
+const loadBookingMailRecipients = async (db: MailDb, bookings: MailBookingRef[]) => {
+  const ids = Array.from(new Set(bookings.map((booking) => (booking.bookedFor === 'GUEST' ? (booking.roomDisplayId ? null : booking.createdByEmployeeId) : booking.employeeId)).filter((id): id is string => Boolean(id))));
+  const emails = Array.from(new Set(bookings.filter((booking) => booking.bookedFor === 'SELF' && !booking.employeeId && booking.userEmail).map((booking) => booking.userEmail!.toLowerCase())));
+  const employees = ids.length + emails.length === 0 ? [] : await db.employee.findMany({
+    where: { OR: [{ id: { in: ids } }, { email: { in: emails } }] },
+    select: mailRecipientSelect
+  });
+  return (booking: MailBookingRef): MailRecipient | null => {
+    if (booking.bookedFor === 'GUEST') return booking.roomDisplayId ? null : employees.find((employee) => employee.id === booking.createdByEmployeeId) ?? null;
+    if (booking.employeeId) return employees.find((employee) => employee.id === booking.employeeId) ?? null;
+    return employees.find((employee) => employee.email === booking.userEmail?.toLowerCase()) ?? null;
+  };
+};
+
+const loadBookingMailDetails = async (db: MailDb, bookings: MailBookingRef[]) => {
+  const desks = await db.desk.findMany({
+    where: { id: { in: Array.from(new Set(bookings.map((booking) => booking.deskId))) } },
+    select: { id: true, name: true, kind: true, floorplan: { select: { name: true } } }
+  });
+  return (booking: MailBookingRef): BookingMailDetails | null => {
+    const desk = desks.find((entry) => entry.id === booking.deskId);
+    const window = bookingToWindow(booking);
+    if (!desk || !window) return null;
+    return {
+      resourceName: desk.name,
+      resourceKind: desk.kind,
+      floorplanName: desk.floorplan.name,
+      date: toISODateOnly(booking.date),
+      window,
+      guestName: booking.bookedFor === 'GUEST' ? booking.guestName : null
+    };
+  };
+};
+
+// Runs inside the transaction of the change so the mail is only sent if the change commits.
+// `actorName` is null when the recipient made the change themselves.
+const enqueueBookingMails = async (
+  db: MailDb,
+  bookings: MailBookingRef[],
+  actor: MailActor,
+  buildTemplate: (details: BookingMailDetails, actorName: string | null, booking: MailBookingRef) => MailTemplate | null
+): Promise<void> => {
+  if (!mailTransport || bookings.length === 0) return;
+  const [recipientFor, detailsFor] = await Promise.all([loadBookingMailRecipients(db, bookings), loadBookingMailDetails(db, bookings)]);
+  for (const booking of bookings) {
+    const recipient = recipientFor(booking);
+    const details = detailsFor(booking);
+    if (!recipient || !details) continue;
+    const template = buildTemplate(details, actor && actor.employeeId !== recipient.id ? actor.displayName : null, booking);
+    if (template) await enqueueMail(db, recipient, template);
+  }
+};
+
+const withoutMailDate = ({ date: _date, ...details }: BookingMailDetails): Omit<BookingMailDetails, 'date'> => details;
+
+const recurringBookingMailDetails = (series: Pick<RecurringBooking, 'period' | 'startTime' | 'endTime' | 'bookedFor' | 'guestName'>, resource: { name: string; kind: ResourceKind; floorplan: { name: string } }): Omit<BookingMailDetails, 'date'> | null => {
+  const startMinute = series.startTime ? parseTimeToMinute(series.startTime) : null;
+  const endMinute = series.endTime ? parseTimeToMinute(series.endTime) : null;
+  const window = series.period
+    ? { mode: 'day' as const, daySlot: series.period }
+    : startMinute !== null && endMinute !== null ? { mode: 'time' as const, startMinute, endMinute } : null;
+  if (!window) return null;
+  return { resourceName: resource.name, resourceKind: resource.kind, floorplanName: resource.floorplan.name, window, guestName: series.bookedFor === 'GUEST' ? series.guestName : null };
+};
+
+// Call before the series row is deleted; the summary goes to whoever created the series.
+const enqueueSeriesCancelledMail = async (db: MailDb, recurringBookingId: string, params: { fromDate: string | null; cancelledCount: number; actor: MailActor }): Promise<void> => {
+  if (!mailTransport || params.cancelledCount === 0) return;
+  const series = await db.recurringBooking.findUnique({
+    where: { id: recurringBookingId },
+    include: { resource: { select: { name: true, kind: true, floorplan: { select: { name: true } } } }, createdByEmployee: { select: mailRecipientSelect } }
+  });
+  const details = series ? recurringBookingMailDetails(series, series.resource) : null;
+  if (!series || !details) return;
+  await enqueueMail(db, series.createdByEmployee, {
+    kind: 'SERIES_CANCELLED',
+    booking: details,
+    fromDate: params.fromDate,
+    cancelledCount: params.cancelledCount,
+    actorName: params.actor && params.actor.employeeId !== series.createdByEmployeeId ? params.actor.displayName : null
+  });
+};
+
+let outboxDispatchRunning = false;
+
+// Claims due messages with a lease so a second instance or an overlapping tick cannot send them twice.
+const dispatchOutbox = async (): Promise<void> => {
+  if (!mailTransport || outboxDispatchRunning) return;
+  outboxDispatchRunning = true;
+  try {
+    const now = new Date();
+    const due = await prisma.outboxMessage.findMany({
+      where: { topic: 'mail', status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: OUTBOX_BATCH_SIZE
+    });
+    for (const message of due) {
+      const claimed = await prisma.outboxMessage.updateMany({
+        where: { id: message.id, status: 'PENDING', nextAttemptAt: message.nextAttemptAt },
+        data: { attempts: { increment: 1 }, nextAttemptAt: new Date(Date.now() + OUTBOX_LEASE_MS) }
+      });
+      if (claimed.count === 0) continue;
+
+      const payload = message.payload as { to: string; subject: string; text: string };
+      let error: { message: string; permanent?: boolean } | null = null;
+      try {
+        await mailTransport.send({ to: payload.to, subject: payload.subject, text: payload.text });
+      } catch (sendError) {
+        error = { message: sendError instanceof Error ? sendError.message : String(sendError), permanent: sendError instanceof MailTransportError && sendError.permanent };
+      }
+      const outcome = resolveOutboxOutcome({ attempts: message.attempts + 1, error, now: new Date() });
+      await prisma.outboxMessage.update({ where: { id: message.id }, data: outcome });
+      if (outcome.status !== 'SENT') {
+        console.warn('OUTBOX_MAIL_FAILED', JSON.stringify({ id: message.id, attempts: message.attempts + 1, status: outcome.status, error: outcome.lastError }));
+      }
+    }
+  } catch (error) {
+    console.error('OUTBOX_DISPATCH_FAILED', error);
+  } finally {
+    outboxDispatchRunning = false;
+  }
+};
+
+type WebhookBookingRef = MailBookingRef & Pick<Prisma.BookingGetPayload<object>, 'id' | 'recurringBookingId'>;
+type WebhookContext = { actor?: MailActor; reason?: string };
+
+const toWebhookBooking = (booking: WebhookBookingRef, desk: { name: string; kind: ResourceKind; floorplanId: string } | undefined) => {
+  const window = bookingToWindow(booking);
+  return {
+    id: booking.id,
+    resource: { id: booking.deskId, name: desk?.name ?? null, kind: desk?.kind ?? null, floorplanId: desk?.floorplanId ?? null },
+    date: toISODateOnly(booking.date),
+    daySlot: window?.mode === 'day' ? window.daySlot : null,
+    startTime: window?.mode === 'time' ? minuteToHHMM(window.startMinute) ?? null : null,
+    endTime: window?.mode === 'time' ? minuteToHHMM(window.endMinute) ?? null : null,
+    bookedFor: booking.bookedFor,
+    employeeId: booking.employeeId,
+    userEmail: booking.userEmail,
+    guestName: booking.guestName,
+    createdByEmployeeId: booking.createdByEmployeeId,
+    recurringBookingId: booking.recurringBookingId
+  };
+};
+
+const toWebhookActor = (actor: MailActor | undefined) => (actor ? { employeeId: actor.employeeId, displayName: actor.displayName } : null);
+
+const findWebhookSubscribers = (db: MailDb, event: WebhookEvent) => db.webhookSubscription.findMany({ where: { isActive: true, events: { has: event } }, select: { id: true } });
+
+// One delivery row per matching subscription, written in the caller's transaction like the mail outbox.
+const enqueueWebhookEvents = async (db: MailDb, event: WebhookEvent, items: Prisma.InputJsonObject[], subscribers?: Array<{ id: string }>): Promise<void> => {
+  if (items.length === 0) return;
+  const subscriptions = subscribers ?? await findWebhookSubscribers(db, event);
+  if (subscriptions.length === 0) return;
+  const occurredAt = new Date().toISOString();
+  const payloads = items.map((data) => ({ id: crypto.randomUUID(), event, occurredAt, data }));
+  await db.webhookDelivery.createMany({
+    data: subscriptions.flatMap((subscription) => payloads.map((payload) => ({ subscriptionId: subscription.id, event, payload })))
+  });
+};
+
+const occupancyStreamHub = createOccupancyStreamHub();
+// Bookings touched by transactions since the last flush, with the resource and day they were on before.
+// They are re-read after the commit, so a rolled-back change publishes the unchanged state instead of a
+// phantom booking.
+const pendingOccupancyChanges = new Map<string, { deskId: string; date: string }>();
+
+// The first location queued since the last flush wins, so callers that move a booking queue the old row
+// before the update.
+const queueOccupancyChange = (booking: { id: string; deskId: string; date: Date }) => {
+  if (occupancyStreamHub.size() === 0 || pendingOccupancyChanges.has(booking.id)) return;
+  pendingOccupancyChanges.set(booking.id, { deskId: booking.deskId, date: toISODateOnly(booking.date) });
+};
+
+const publishOccupancyChanges = async (): Promise<void> => {
+  if (pendingOccupancyChanges.size === 0) return;
+  const changes = Array.from(pendingOccupancyChanges);
+  pendingOccupancyChanges.clear();
+  if (occupancyStreamHub.size() === 0) return;
+  try {
+    const bookings = await prisma.booking.findMany({
+      where: { id: { in: changes.map(([bookingId]) => bookingId) } },
+      include: {
+        desk: { select: { id: true, name: true, kind: true, floorplanId: true, floorplan: { select: { deskCheckInGraceMinutes: true, parkingCheckInGraceMinutes: true } } } },
+        createdByEmployee: { select: { id: true, displayName: true, email: true } }
+      }
+    });
+    const previousDesks = await prisma.desk.findMany({
+      where: { id: { in: Array.from(new Set(changes.map(([, previous]) => previous.deskId))) } },
+      select: { id: true, floorplanId: true }
+    });
+    const previousFloorplanIdsByDesk = new Map(previousDesks.map((desk) => [desk.id, desk.floorplanId]));
+    const employeesByEmail = await getActiveEmployeesByEmail(bookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)));
+    const bookingsById = new Map(bookings.map((booking) => [booking.id, booking]));
+    occupancyStreamHub.publish(changes.map(([bookingId, { deskId: previousDeskId, date: previousDate }]) => {
+      const previousFloorplanId = previousFloorplanIdsByDesk.get(previousDeskId);
+      const previous = previousFloorplanId ? { floorplanId: previousFloorplanId, date: previousDate, deskId: previousDeskId } : null;
+      const booking = bookingsById.get(bookingId);
+      if (!booking) return { bookingId, previous, booking: null };
+      return {
+        bookingId,
+        previous,
+        floorplanId: booking.desk.floorplanId,
+        date: toISODateOnly(booking.date),
+        deskId: booking.deskId,
+        booking: mapOccupancyBooking(booking, booking.desk, booking.userEmail ? employeesByEmail.get(normalizeEmail(booking.userEmail)) : undefined, {
+          checkInRequired: resolveCheckInGraceMinutes(booking.desk.kind, booking.desk.floorplan) !== null,
+          isRecurringOccurrence: Boolean(booking.recurringBookingId)
+        })
+      };
+    }));
+  } catch (error) {
+    console.error('OCCUPANCY_STREAM_PUBLISH_FAILED', error);
+  }
+};
+
+// Pass a loader when the rows are only needed for subscribers, e.g. the instances of a new series.
+// Every booking change passes through here, so it also queues the change for the occupancy stream.
+const enqueueBookingWebhooks = async (
+  db: MailDb,
+  event: 'booking.created' | 'booking.updated' | 'booking.cancelled',
+  source: WebhookBookingRef[] | (() => Promise<WebhookBookingRef[]>),
+  context: WebhookContext = {}
+): Promise<void> => {
+  if (Array.isArray(source) && source.length === 0) return;
+  let loaded: WebhookBookingRef[] | null = null;
+  const loadBookings = async () => (loaded ??= Array.isArray(source) ? source : await source());
+  if (occupancyStreamHub.size() > 0) {
+    for (const booking of await loadBookings()) queueOccupancyChange(booking);
+  }
+  const subscribers = await findWebhookSubscribers(db, event);
+  if (subscribers.length === 0) return;
+  const bookings = await loadBookings();
+  const desks = await db.desk.findMany({
+    where: { id: { in: Array.from(new Set(bookings.map((booking) => booking.deskId))) } },
+    select: { id: true, name: true, kind: true, floorplanId: true }
+  });
+  const desksById = new Map(desks.map((desk) => [desk.id, desk]));
+  await enqueueWebhookEvents(db, event, bookings.map((booking) => ({
+    booking: toWebhookBooking(booking, desksById.get(booking.deskId)),
+    actor: toWebhookActor(context.actor),
+    ...(context.reason ? { reason: context.reason } : {})
+  })), subscribers);
+};
+
+const enqueueRecurringWebhook = async (
+  db: MailDb,
+  event: 'recurring.created' | 'recurring.deleted',
+  series: RecurringBooking,
+  context: WebhookContext & { bookingCount: number; fromDate?: string | null; skippedDates?: string[] },
+  subscribers?: Array<{ id: string }>
+): Promise<void> => {
+  await enqueueWebhookEvents(db, event, [{
+    recurringBooking: {
+      id: series.id,
+      groupId: series.groupId,
+      resourceId: series.resourceId,
+      startDate: toISODateOnly(series.startDate),
+      endDate: toISODateOnly(series.endDate),
+      patternType: series.patternType,
+      interval: series.interval,
+      byWeekday: series.byWeekday,
+      byMonthday: series.byMonthday,
+      bySetPos: series.bySetPos,
+      byMonth: series.byMonth,
+      bookedFor: series.bookedFor,
+      guestName: series.guestName,
+      daySlot: series.period,
+      startTime: series.startTime,
+      endTime: series.endTime,
+      createdByEmployeeId: series.createdByEmployeeId
+    },
+    bookingCount: context.bookingCount,
+    ...(context.fromDate !== undefined ? { fromDate: context.fromDate } : {}),
+    ...(context.skippedDates ? { skippedDates: context.skippedDates } : {}),
+    actor: toWebhookActor(context.actor)
+  }], subscribers);
+};
+
+const enqueueSeriesDeletedWebhook = async (db: MailDb, recurringBookingId: string, context: WebhookContext & { bookingCount: number; fromDate: string | null }): Promise<void> => {
+  const subscribers = await findWebhookSubscribers(db, 'recurring.deleted');
+  if (subscribers.length === 0) return;
+  const series = await db.recurringBooking.findUnique({ where: { id: recurringBookingId } });
+  if (series) await enqueueRecurringWebhook(db, 'recurring.deleted', series, context, subscribers);
+};
+
+let webhookDispatchRunning = false;
+
+const dispatchWebhookDeliveries = async (): Promise<void> => {
+  if (webhookDispatchRunning) return;
+  webhookDispatchRunning = true;
+  try {
+    const now = new Date();
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      include: { subscription: { select: { url: true, secret: true, isActive: true } } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: OUTBOX_BATCH_SIZE
+    });
+    for (const delivery of due) {
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+        data: { attempts: { increment: 1 }, nextAttemptAt: new Date(Date.now() + OUTBOX_LEASE_MS) }
+      });
+      if (claimed.count === 0) continue;
+
+      // A paused subscription keeps its backlog; deliveries resume once it is reactivated.
+      if (!delivery.subscription.isActive) {
+        await prisma.webhookDelivery.update({ where: { id: delivery.id }, data: { attempts: delivery.attempts, nextAttemptAt: new Date(Date.now() + outboxRetryDelayMs(1)) } });
+        continue;
+      }
+
+      const result = await deliverWebhook({
+        url: delivery.subscription.url,
+        secret: delivery.subscription.secret,
+        event: delivery.event,
+        deliveryId: delivery.id,
+        body: JSON.stringify(delivery.payload),
+        userAgent: `${APP_TITLE}-Webhooks`
+      });
+      const outcome = resolveOutboxOutcome({ attempts: delivery.attempts + 1, error: result.ok ? null : { message: result.message, permanent: result.permanent }, now: new Date() });
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: outcome.status,
+          lastError: outcome.lastError,
+          responseStatus: result.responseStatus,
+          ...(outcome.status === 'PENDING' ? { nextAttemptAt: outcome.nextAttemptAt } : {}),
+          ...(outcome.status === 'SENT' ? { deliveredAt: outcome.processedAt } : {})
+        }
+      });
+      if (outcome.status !== 'SENT') {
+        console.warn('WEBHOOK_DELIVERY_FAILED', JSON.stringify({ id: delivery.id, event: delivery.event, attempts: delivery.attempts + 1, status: outcome.status, error: outcome.lastError }));
+      }
+    }
+  } catch (error) {
+    console.error('WEBHOOK_DISPATCH_FAILED', error);
+  } finally {
+    webhookDispatchRunning = false;
+  }
+};
+
+// Kicked after every commit that may have written outbox rows; the minute timer picks up retries.
+const flushOutboxes = (): void => {
+  void dispatchOutbox();
+  void dispatchWebhookDeliveries();
+  void publishOccupancyChanges();
+};
+
 type GraphPhotoPayload = { photoData: Buffer; photoType: string; photoEtag: string };
 
 const readGraphPhoto = async (url: string, accessToken: string): Promise<GraphPhotoPayload | null> => {
@@ -1841,6 +2519,8 @@ const getActiveEmployeesByEmail = async (emails: string[]) => {
   return new Map(employees.map((employee) => [employee.email, { id: employee.id, email: employee.email, displayName: employee.displayName, phone: employee.phone, photoUrl: resolveEmployeePhotoUrl(employee) }]));
 };
 
+const deskZoneSelect = { select: { id: true, name: true, color: true, teams: { select: { teamId: true, mode: true } } } } as const;
+
 const getDeskContext = async (deskId: string) => prisma.desk.findUnique({
   where: { id: deskId },
   select: {
@@ -1848,19 +2528,204 @@ const getDeskContext = async (deskId: string) => prisma.desk.findUnique({
     name: true,
     floorplanId: true,
     kind: true,
+    capacity: true,
     allowSeriesOverride: true,
     tenantScope: true,
     employeeScope: true,
     deskTenants: { select: { tenantId: true } },
     deskEmployees: { select: { employeeId: true } },
-    floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }
+    floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } },
+    zone: deskZoneSelect
   }
 });
 
+const isValidDeskCapacity = (value: unknown): value is number | null => value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 999);
+
 const resolveEffectiveAllowSeries = (desk: { allowSeriesOverride: boolean | null; floorplan?: { defaultAllowSeries: boolean } | null }): boolean => (
   desk.allowSeriesOverride ?? desk.floorplan?.defaultAllowSeries ?? true
 );
 
+const toPolicyCandidate = (date: Date, window: { mode: 'day' } | { mode: 'time'; startMinute: number; endMinute: number }): BookingPolicyCandidate => ({
+  date: toISODateOnly(date),
+  durationMinutes: window.mode === 'time' ? window.endMinute - window.startMinute : null
+});
+
+// Policies are loaded per request so admin changes apply immediately; the weekly limit is only checked for SELF bookings.
+const findBookingPolicyViolations = async (params: {
+  floorplanId: string;
+  kind: ResourceKind;
+  tenantId: string | null | undefined;
+  emailAliases: string[] | null;
+  candidates: BookingPolicyCandidate[];
+}): Promise<BookingPolicyViolation[]> => {
+  if (params.candidates.length === 0) return [];
+  const scope = { floorplanId: params.floorplanId, kind: params.kind, tenantId: params.tenantId ?? null };
+  const policies = (await prisma.bookingPolicy.findMany({ where: { isActive: true } })).filter((policy) => bookingPolicyApplies(policy, scope));
+  if (policies.length === 0) return [];
+
+  let existingBookings;
+  if (params.emailAliases && policies.some((policy) => policy.maxBookingsPerWeek !== null)) {
+    const weekStarts = params.candidates.map((candidate) => isoWeekStart(candidate.date)).sort();
+    const rows = await prisma.booking.findMany({
+      where: {
+        bookedFor: 'SELF',
+        userEmail: { in: params.emailAliases },
+        date: { gte: toDateOnly(weekStarts[0])!, lte: addUtcDays(toDateOnly(weekStarts[weekStarts.length - 1])!, 6) }
+      },
+      select: { date: true, desk: { select: { floorplanId: true, kind: true } } }
+    });
+    existingBookings = rows.map((row) => ({ date: toISODateOnly(row.date), floorplanId: row.desk.floorplanId, kind: row.desk.kind }));
+  }
+
+  return evaluateBookingPolicies({ policies, scope, today: toISODateOnly(getBerlinNow().date), candidates: params.candidates, existingBookings });
+};
+
+const sendPolicyViolation = (res: express.Response, violations: BookingPolicyViolation[]) => {
+  const [first] = violations;
+  res.status(422).json({
+    error: 'policy_violation',
+    code: first.code,
+    message: first.message,
+    details: { violations }
+  });
+};
+
+type MeetingDetailsResult =
+  | { ok: true; title: string | null; attendees: AttendeeInput[] }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+// Title and attendees only exist for rooms. The booker is never listed as their own attendee, and the
+// resulting head count must fit the room capacity (rooms without capacity are unlimited).
+const resolveMeetingDetails = async (params: {
+  desk: { kind: ResourceKind; capacity: number | null };
+  title: unknown;
+  attendees: unknown;
+  bookerEmployeeId: string | null;
+}): Promise<MeetingDetailsResult> => {
+  const titleResult = parseMeetingTitle(params.title);
+  if (!titleResult.ok) return { ok: false, status: 400, body: { error: 'validation', message: titleResult.message } };
+  const attendeesResult = parseAttendeesInput(params.attendees);
+  if (!attendeesResult.ok) return { ok: false, status: 400, body: { error: 'validation', message: attendeesResult.message } };
+
+  const attendees = attendeesResult.value.filter((attendee) => !params.bookerEmployeeId || attendee.employeeId !== params.bookerEmployeeId);
+  if (params.desk.kind !== 'RAUM') {
+    if (titleResult.value || attendees.length > 0) {
+      return { ok: false, status: 400, body: { error: 'validation', message: 'Titel und Teilnehmer gibt es nur bei Räumen' } };
+    }
+    return { ok: true, title: null, attendees: [] };
+  }
+
+  const employeeIds = attendees.map((attendee) => attendee.employeeId).filter((value): value is string => Boolean(value));
+  if (employeeIds.length > 0) {
+    const found = await prisma.employee.findMany({ where: { id: { in: employeeIds }, isActive: true }, select: { id: true } });
+    const foundIds = new Set(found.map((employee) => employee.id));
+    const unknownIds = employeeIds.filter((employeeId) => !foundIds.has(employeeId));
+    if (unknownIds.length > 0) {
+      return { ok: false, status: 400, body: { error: 'validation', message: `Unbekannte oder inaktive Teilnehmer: ${unknownIds.join(', ')}` } };
+    }
+  }
+
+  const occupantCount = countRoomOccupants(attendees, params.bookerEmployeeId);
+  if (exceedsRoomCapacity(params.desk.capacity, occupantCount)) {
+    return {
+      ok: false,
+      status: 422,
+      body: {
+        error: 'capacity_exceeded',
+        code: 'ROOM_CAPACITY_EXCEEDED',
+        message: `Der Raum bietet Platz für ${params.desk.capacity} Personen, geplant sind ${occupantCount}.`,
+        details: { capacity: params.desk.capacity, occupantCount }
+      }
+    };
+  }
+
+  return { ok: true, title: titleResult.value, attendees };
+};
+
+const toAttendeeInput = (attendee: { employeeId: string | null; name: string | null; email: string | null }): unknown => (
+  attendee.employeeId ? { employeeId: attendee.employeeId } : { name: attendee.name, email: attendee.email }
+);
+
+const attendeeKey = (attendee: { employeeId: string | null; name: string | null; email: string | null }): string => (
+  attendee.employeeId ? `employee:${attendee.employeeId}` : attendee.email ? `email:${attendee.email}` : `name:${(attendee.name ?? '').toLowerCase()}`
+);
+
+// Keeps rows (and their responses) of attendees that stay on the list; only removed/added entries change.
+const replaceBookingAttendees = async (tx: Prisma.TransactionClient, bookingId: string, attendees: AttendeeInput[]) => {
+  const current = await tx.bookingAttendee.findMany({ where: { bookingId } });
+  const nextKeys = new Set(attendees.map(attendeeKey));
+  const currentKeys = new Set(current.map(attendeeKey));
+  const removedIds = current.filter((attendee) => !nextKeys.has(attendeeKey(attendee))).map((attendee) => attendee.id);
+  if (removedIds.length > 0) await tx.bookingAttendee.deleteMany({ where: { id: { in: removedIds } } });
+  const added = attendees.filter((attendee) => !currentKeys.has(attendeeKey(attendee)));
+  if (added.length > 0) await tx.bookingAttendee.createMany({ data: added.map((attendee) => ({ bookingId, ...attendee })) });
+};
+
+const bookingAttendeesInclude = {
+  orderBy: { createdAt: 'asc' },
+  include: { employee: { select: { displayName: true, email: true } } }
+} as const;
+
+type BookingAttendeeWithEmployee = Prisma.BookingAttendeeGetPayload<{ include: { employee: { select: { displayName: true; email: true } } } }>;
+
+const mapBookingAttendee = (attendee: BookingAttendeeWithEmployee) => ({
+  id: attendee.id,
+  employeeId: attendee.employeeId,
+  name: attendee.employee?.displayName ?? attendee.name,
+  email: attendee.employee?.email ?? attendee.email,
+  isExternal: !attendee.employeeId,
+  response: attendee.response,
+  respondedAt: attendee.respondedAt
+});
+
+const toClosureRule = (closure: ClosurePeriod): ClosureRule => ({
+  id: closure.id,
+  floorplanId: closure.floorplanId,
+  deskId: closure.deskId,
+  startDate: toISODateOnly(closure.startDate),
+  endDate: toISODateOnly(closure.endDate),
+  startMinute: closure.startMinute,
+  endMinute: closure.endMinute,
+  reason: closure.reason
+});
+
+const mapClosureResponse = (closure: ClosureRule) => ({
+  id: closure.id,
+  floorplanId: closure.floorplanId,
+  deskId: closure.deskId,
+  startDate: closure.startDate,
+  endDate: closure.endDate,
+  startTime: minuteToHHMM(closure.startMinute) ?? null,
+  endTime: minuteToHHMM(closure.endMinute) ?? null,
+  reason: closure.reason
+});
+
+const loadClosures = async (floorplanId: string, from: Date, to: Date): Promise<ClosureRule[]> => {
+  const rows = await prisma.closurePeriod.findMany({
+    where: { floorplanId, startDate: { lte: to }, endDate: { gte: from } },
+    orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }]
+  });
+  return rows.map(toClosureRule);
+};
+
+const findClosureForWindow = (closures: ClosureRule[], desk: { id: string; floorplanId: string }, date: Date, window: BookingWindowInput): ClosureRule | null => (
+  findBlockingClosure(closures, {
+    floorplanId: desk.floorplanId,
+    deskId: desk.id,
+    date: toISODateOnly(date),
+    ...(window.mode === 'day' ? daySlotToMinuteRange(window.daySlot) : { startMinute: window.startMinute, endMinute: window.endMinute })
+  })
+);
+
+const sendClosedConflict = (res: express.Response, closure: ClosureRule) => {
+  res.status(409).json({
+    error: 'conflict',
+    code: 'RESOURCE_CLOSED',
+    message: `Geschlossen: ${closure.reason}`,
+    details: { closure: mapClosureResponse(closure) }
+  });
+};
+
 const isDeskBookableForTenant = (desk: { tenantScope: DeskTenantScope; deskTenants?: Array<{ tenantId: string }> }, tenantDomainId?: string | null): boolean => {
   if (desk.tenantScope === 'ALL') return true;
   if (!tenantDomainId) return false;
@@ -1879,6 +2744,7 @@ const isFloorplanVisibleForTenant = (floorplan: { tenantScope: FloorplanTenantSc
   return (floorplan.floorplanTenants ?? []).some((entry) => entry.tenantId === tenantDomainId);
 };
 
+// Zone rules only apply when the desk was loaded with its zone (see deskZoneSelect); pass the team ids of the employee then.
 const isDeskAccessibleForTenant = (
   desk: {
     tenantScope: DeskTenantScope;
@@ -1886,17 +2752,26 @@ const isDeskAccessibleForTenant = (
     employeeScope: DeskEmployeeScope;
     deskEmployees?: Array<{ employeeId: string }>;
     floorplan?: { tenantScope?: FloorplanTenantScope; floorplanTenants?: Array<{ tenantId: string }> } | null;
+    zone?: { teams: ZoneAssignment[] } | null;
   },
   tenantDomainId?: string | null,
-  employeeId?: string | null
+  employeeId?: string | null,
+  teamIds: ReadonlySet<string> = new Set()
 ): boolean => {
   const floorplanVisible = desk.floorplan && desk.floorplan.tenantScope
     ? isFloorplanVisibleForTenant({ tenantScope: desk.floorplan.tenantScope, floorplanTenants: desk.floorplan.floorplanTenants }, tenantDomainId)
     : true;
   if (!floorplanVisible) return false;
+  if (desk.zone && !isZoneBookableForTeams(desk.zone.teams, teamIds)) return false;
   return isDeskBookableForTenant(desk, tenantDomainId) && isDeskBookableForEmployee(desk, employeeId);
 };
 
+const getEmployeeTeamIds = async (employeeId: string | null | undefined): Promise<Set<string>> => {
+  if (!employeeId) return new Set();
+  const memberships = await prisma.teamMember.findMany({ where: { employeeId }, select: { teamId: true } });
+  return new Set(memberships.map((membership) => membership.teamId));
+};
+
 
 app.get('/health', async (_req, res) => {
   try {
@@ -1916,8 +2791,51 @@ app.get('/api/health', async (_req, res) => {
   }
 });
 
+// Built on first request; the route table does not change at runtime.
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+app.get('/api/openapi.json', (_req, res) => {
+  openApiDocument ??= buildOpenApiDocument(routeSpecs, {
+    title: `${APP_TITLE} API`,
+    version: process.env.npm_package_version ?? '1.0.0',
+    description: 'Authenticate with the session cookie from the web app or an API token (Authorization: Bearer rbms_…). Room displays send their device token as x-room-display-token. Errors use the ErrorEnvelope schema.'
+  });
+  res.status(200).json(openApiDocument);
+});
+
+const compiledRouteSpecs = compileRouteSpecs(routeSpecs);
+
+// Runs after authentication: callers without access still get the route's 401/403 rather than a validation error.
+const validateRequestSchema: express.RequestHandler = (req, res, next) => {
+  const match = matchRouteSpec(compiledRouteSpecs, req.method, req.path);
+  if (!match) {
+    next();
+    return;
+  }
+
+  const { spec } = match.route;
+  if ((spec.auth !== 'public' && !req.authUser) || (spec.auth === 'admin' && req.authUser?.role !== 'admin')) {
+    next();
+    return;
+  }
+
+  const issues = validateRouteRequest(spec, { params: match.params, query: req.query, body: req.body });
+  if (issues.length > 0) {
+    res.status(400).json({
+      error: 'validation',
+      code: 'INVALID_REQUEST',
+      message: issues.map((issue) => `${issue.path} ${issue.message}`).join('; '),
+      issues
+    });
+    return;
+  }
+  next();
+};
+
 app.use(attachAuthUser);
 app.use(requireAllowedMutationOrigin);
+app.use(requireApiTokenScope);
+app.use(validateRequestSchema);
 
 const ensureBreakglassAdmin = async () => {
   console.log('BREAKGLASS_ENV_PRESENT', { emailSet: Boolean(ADMIN_EMAIL), passwordSet: Boolean(ADMIN_PASSWORD) });
@@ -2054,7 +2972,7 @@ const upsertEmployeeFromEntraLogin = async (claims: { oid: string; tid: string;
 
 app.get('/auth/entra/start', async (_req, res) => {
   if (!isEntraConfigured()) {
-    res.status(500).json({ code: 'ENTRA_NOT_CONFIGURED', message: 'Microsoft Entra login is not configured' });
+    res.status(500).json({ code: 'ENTRA_NOT_CONFIGURED', message: 'Die Anmeldung mit Microsoft Entra ist nicht eingerichtet' });
     return;
   }
 
@@ -2089,7 +3007,7 @@ app.get('/auth/entra/callback', async (req, res) => {
     const oidcState = await consumeOidcState(stateParam);
     if (!code || !oidcState) {
       console.warn('ENTRA_LOGIN_FAIL_CALLBACK_PARAMS', { requestId, hasCode: Boolean(code), hasValidState: Boolean(oidcState), ip: req.ip });
-      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Invalid callback parameters' });
+      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Ungültige Antwort von Microsoft Entra' });
       return;
     }
 
@@ -2109,14 +3027,14 @@ app.get('/auth/entra/callback', async (req, res) => {
 
     if (!tokenResponse.ok) {
       console.warn('ENTRA_LOGIN_FAIL_TOKEN_EXCHANGE', { requestId, status: tokenResponse.status });
-      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Token exchange failed' });
+      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Die Anmeldung bei Microsoft Entra ist fehlgeschlagen' });
       return;
     }
 
     const tokenPayload = await tokenResponse.json() as { id_token?: string; access_token?: string; expires_in?: number };
     if (!tokenPayload.id_token) {
       console.warn('ENTRA_LOGIN_FAIL_ID_TOKEN_MISSING', { requestId });
-      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'id_token is missing' });
+      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Microsoft Entra hat kein id_token geliefert' });
       return;
     }
 
@@ -2128,7 +3046,7 @@ app.get('/auth/entra/callback', async (req, res) => {
     const allowedTenantIds = await loadAllowedEntraTenantIds();
     if (!normalizedTid || !allowedTenantIds.has(normalizedTid)) {
       console.warn('ENTRA_LOGIN_FAIL_TENANT_NOT_ALLOWED', { requestId, tenantId: normalizedTid ?? tid ?? null });
-      res.status(403).json({ code: 'TENANT_NOT_ALLOWED', message: 'Tenant not allowed' });
+      res.status(403).json({ code: 'TENANT_NOT_ALLOWED', message: 'Mandant nicht erlaubt' });
       return;
     }
 
@@ -2138,7 +3056,7 @@ app.get('/auth/entra/callback', async (req, res) => {
 
     if (!oid || !email || !name) {
       console.warn('ENTRA_LOGIN_FAIL_REQUIRED_CLAIMS_MISSING', { requestId, hasOid: Boolean(oid), hasEmail: Boolean(email), hasName: Boolean(name) });
-      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Required claims are missing' });
+      res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Microsoft Entra hat nicht alle benötigten Angaben geliefert' });
       return;
     }
 
@@ -2165,7 +3083,7 @@ app.get('/auth/entra/callback', async (req, res) => {
     res.redirect(302, ENTRA_POST_LOGIN_REDIRECT);
   } catch (error) {
     console.error('ENTRA_CALLBACK_ERROR', { requestId, errorName: error instanceof Error ? error.name : 'UnknownError' });
-    res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Entra callback validation failed' });
+    res.status(401).json({ code: 'OIDC_VALIDATION_FAILED', message: 'Die Anmeldung bei Microsoft Entra konnte nicht geprüft werden' });
   }
 });
 
@@ -2175,7 +3093,7 @@ app.post('/auth/login', async (req, res) => {
   try {
     const { email, password } = req.body as { email?: string; password?: string };
     if (!email || !password) {
-      res.status(400).json({ code: 'VALIDATION_ERROR', message: 'email and password are required' });
+      res.status(400).json({ code: 'VALIDATION_ERROR', message: 'email und password sind erforderlich' });
       return;
     }
 
@@ -2187,7 +3105,7 @@ app.post('/auth/login', async (req, res) => {
       const retryAfterSeconds = Math.max(1, Math.ceil((rateLimitEntry.blockedUntil - now) / 1000));
       res.setHeader('Retry-After', String(retryAfterSeconds));
       console.warn('LOGIN_RATE_LIMIT_BLOCK', { requestId, email: normalizedEmail, ip: req.ip, retryAfterSeconds });
-      res.status(429).json({ code: 'TOO_MANY_ATTEMPTS', message: 'Too many failed login attempts. Please try again later.' });
+      res.status(429).json({ code: 'TOO_MANY_ATTEMPTS', message: 'Zu viele fehlgeschlagene Anmeldeversuche. Bitte später erneut versuchen.' });
       return;
     }
 
@@ -2201,7 +3119,7 @@ app.post('/auth/login', async (req, res) => {
     if (!user || !user.isActive) {
       registerLoginFailure(loginRateLimitKey, now);
       console.warn('LOGIN_FAIL_USER_NOT_FOUND', { requestId, email: normalizedEmail });
-      res.status(401).json({ code: 'USER_NOT_FOUND', message: 'Invalid credentials' });
+      res.status(401).json({ code: 'USER_NOT_FOUND', message: 'E-Mail oder Passwort ist falsch' });
       return;
     }
 
@@ -2209,7 +3127,7 @@ app.post('/auth/login', async (req, res) => {
     if (!passwordMatches) {
       registerLoginFailure(loginRateLimitKey, now);
       console.warn('LOGIN_FAIL_PASSWORD_MISMATCH', { requestId, userId: user.id });
-      res.status(401).json({ code: 'PASSWORD_MISMATCH', message: 'Invalid credentials' });
+      res.status(401).json({ code: 'PASSWORD_MISMATCH', message: 'E-Mail oder Passwort ist falsch' });
       return;
     }
 
@@ -2248,7 +3166,7 @@ app.post('/auth/login', async (req, res) => {
     const errorName = error instanceof Error ? error.name : 'UnknownError';
     const errorMessage = error instanceof Error ? error.message : 'Unexpected login error';
     console.error('LOGIN_ERROR', { requestId, errorName, errorMessage });
-    res.status(500).json({ code: 'SERVER_ERROR', message: 'Login failed' });
+    res.status(500).json({ code: 'SERVER_ERROR', message: 'Anmeldung fehlgeschlagen' });
   }
 });
 
@@ -2278,7 +3196,7 @@ app.get('/auth/me', (req, res) => {
       return;
     }
 
-    res.status(401).json({ code: 'UNAUTHENTICATED', message: 'Authentication required' });
+    res.status(401).json({ code: 'UNAUTHENTICATED', message: 'Anmeldung erforderlich' });
     return;
   }
 
@@ -2322,7 +3240,7 @@ app.get('/user/me/photo', requireAuthenticated, async (req, res) => {
   }
 
   if (!graphResponse.ok) {
-    res.status(502).json({ code: 'GRAPH_PHOTO_FETCH_FAILED', message: 'Could not load profile photo from Graph' });
+    res.status(502).json({ code: 'GRAPH_PHOTO_FETCH_FAILED', message: 'Das Profilfoto konnte nicht aus Microsoft Graph geladen werden' });
     return;
   }
 
@@ -2334,6 +3252,193 @@ app.get('/user/me/photo', requireAuthenticated, async (req, res) => {
   res.status(200).send(photoBuffer);
 });
 
+app.get('/calendar/:token.ics', async (req, res) => {
+  const token = req.params.token;
+  if (!CALENDAR_FEED_TOKEN_PATTERN.test(token)) {
+    res.status(404).json({ error: 'not_found', message: 'Kalender-Feed nicht gefunden' });
+    return;
+  }
+
+  const employee = await prisma.employee.findUnique({
+    where: { calendarFeedToken: token },
+    select: { id: true, displayName: true, isActive: true }
+  });
+  if (!employee || !employee.isActive) {
+    res.status(404).json({ error: 'not_found', message: 'Kalender-Feed nicht gefunden' });
+    return;
+  }
+
+  const events = await buildEmployeeCalendarEvents(employee.id);
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="buchungen.ics"');
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.status(200).send(buildIcsCalendar({ name: `Buchungen ${employee.displayName}`, events }));
+});
+
+const roomDisplayInclude = {
+  desk: { select: { id: true, name: true, kind: true, capacity: true, equipment: true, floorplanId: true, floorplan: { select: { name: true } } } }
+} satisfies Prisma.RoomDisplayInclude;
+type RoomDisplayWithDesk = Prisma.RoomDisplayGetPayload<{ include: typeof roomDisplayInclude }>;
+
+// lastSeenAt only tells admins whether a tablet is still alive, so it is not written on every poll.
+const ROOM_DISPLAY_LAST_SEEN_INTERVAL_MS = 5 * 60_000;
+const ROOM_DISPLAY_GUEST_NAME = 'Spontanbuchung';
+
+// Answers 401 itself when the token is unknown, the display was removed or its resource is no longer a room.
+const authenticateRoomDisplay = async (req: express.Request, res: express.Response): Promise<RoomDisplayWithDesk | null> => {
+  const token = parseRoomDisplayToken(req.headers[ROOM_DISPLAY_TOKEN_HEADER]);
+  const display = token ? await prisma.roomDisplay.findUnique({ where: { tokenHash: hashApiToken(token) }, include: roomDisplayInclude }) : null;
+  if (!display || display.desk.kind !== 'RAUM') {
+    res.status(401).json({ error: 'unauthorized', code: 'ROOM_DISPLAY_UNKNOWN', message: 'Der Token des Raumdisplays ist ungültig oder wurde widerrufen' });
+    return null;
+  }
+  if (!display.lastSeenAt || Date.now() - display.lastSeenAt.getTime() > ROOM_DISPLAY_LAST_SEEN_INTERVAL_MS) {
+    await prisma.roomDisplay.update({ where: { id: display.id }, data: { lastSeenAt: new Date() } });
+  }
+  return display;
+};
+
+// Tablets hang in the hallway, so meetings only show their title or the organizer's name, never emails.
+const mapRoomDisplayMeeting = (booking: Awaited<ReturnType<typeof loadRoomDayBookings>>[number], window: { startMinute: number; endMinute: number }) => ({
+  id: booking.id,
+  startTime: minuteToHHMM(window.startMinute),
+  endTime: minuteToHHMM(window.endMinute),
+  title: booking.title,
+  organizer: booking.bookedFor === 'GUEST' ? (booking.guestName ?? 'Gast') : (booking.employee?.displayName ?? 'Reserviert')
+});
+
+// Walk-ins follow the booking policies of the app. They have no tenant and no booked employee, so only
+// policies without a tenant apply and the weekly limit never does. Durations below the room minimum
+// additionally need the admin's exemption for this display.
+const findRoomDisplayWalkInViolations = async (display: RoomDisplayWithDesk, date: Date, window: { mode: 'time'; startMinute: number; endMinute: number }) => {
+  if (window.endMinute - window.startMinute < ROOM_MIN_BOOKING_DURATION_MINUTES && !display.allowShortBookings) return { belowRoomMinimum: true, violations: [] };
+  const violations = await findBookingPolicyViolations({
+    floorplanId: display.desk.floorplanId,
+    kind: display.desk.kind,
+    tenantId: null,
+    emailAliases: null,
+    candidates: [toPolicyCandidate(date, window)]
+  });
+  return { belowRoomMinimum: false, violations };
+};
+
+const loadRoomDisplayState = async (display: RoomDisplayWithDesk) => {
+  const { date, minute } = getBerlinNow();
+  const [bookings, closures] = await Promise.all([loadRoomDayBookings(display.deskId, date), loadClosures(display.desk.floorplanId, date, date)]);
+  const entries = bookings.flatMap((booking) => {
+    const window = bookingToWindow(booking);
+    return window?.mode === 'time' ? [{ startMinute: window.startMinute, endMinute: window.endMinute, meeting: mapRoomDisplayMeeting(booking, window) }] : [];
+  });
+  const state = resolveRoomDisplayState(entries, minute);
+  const closureFor = (durationMinutes: number) => findClosureForWindow(closures, display.desk, date, { mode: 'time', startMinute: minute, endMinute: minute + durationMinutes });
+  const closure = state.current ? null : closureFor(ROOM_DISPLAY_DURATIONS[0]);
+  const bookableDurations = await Promise.all(state.availableDurations.filter((duration) => !closureFor(duration)).map(async (duration) => {
+    const result = await findRoomDisplayWalkInViolations(display, date, { mode: 'time', startMinute: minute, endMinute: minute + duration });
+    return !result.belowRoomMinimum && result.violations.length === 0 ? [duration] : [];
+  }));
+
+  return {
+    display: { id: display.id, name: display.name },
+    room: { id: display.desk.id, name: display.desk.name, capacity: display.desk.capacity, equipment: display.desk.equipment, floorplanName: display.desk.floorplan.name },
+    date: toISODateOnly(date),
+    now: minuteToHHMM(minute),
+    meetings: entries.map((entry) => entry.meeting),
+    current: state.current?.meeting ?? null,
+    next: state.next?.meeting ?? null,
+    freeUntil: state.freeUntilMinute === null ? null : minuteToHHMM(state.freeUntilMinute),
+    availableDurations: bookableDurations.flat(),
+    closure: closure ? { reason: closure.reason } : null
+  };
+};
+
+app.get('/room-display', async (req, res) => {
+  const display = await authenticateRoomDisplay(req, res);
+  if (!display) return;
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json(await loadRoomDisplayState(display));
+});
+
+// Walk-in booking from the tablet: always starts now and is booked as a guest booking marked with the display,
+// because there is no signed-in user in front of it. The creator column cannot be empty and keeps the admin who
+// registered the display; roomDisplayId keeps that admin from being mailed about or cancelling it as its creator.
+app.post('/room-display/bookings', async (req, res) => {
+  const requestId = req.requestId ?? 'unknown';
+  const display = await authenticateRoomDisplay(req, res);
+  if (!display) return;
+
+  const durationMinutes = parseRoomDisplayDuration((req.body as { durationMinutes?: unknown } | undefined)?.durationMinutes);
+  if (!durationMinutes) {
+    res.status(400).json({ error: 'validation', message: `durationMinutes muss einer der Werte ${ROOM_DISPLAY_DURATIONS.join(', ')} sein` });
+    return;
+  }
+
+  const { date, minute } = getBerlinNow();
+  const bookingWindow: BookingWindowInput = { mode: 'time', startMinute: minute, endMinute: minute + durationMinutes };
+  if (bookingWindow.endMinute > 24 * 60) {
+    res.status(400).json({ error: 'validation', message: 'Buchungen am Raumdisplay müssen heute enden' });
+    return;
+  }
+
+  const blockingClosure = findClosureForWindow(await loadClosures(display.desk.floorplanId, date, date), display.desk, date, bookingWindow);
+  if (blockingClosure) {
+    logBookingEvent('ROOM_DISPLAY_CREATE_RESOURCE_CLOSED', { requestId, roomDisplayId: display.id, closureId: blockingClosure.id }, 'warn');
+    sendClosedConflict(res, blockingClosure);
+    return;
+  }
+
+  const walkInCheck = await findRoomDisplayWalkInViolations(display, date, { mode: 'time', startMinute: bookingWindow.startMinute, endMinute: bookingWindow.endMinute });
+  if (walkInCheck.belowRoomMinimum) {
+    res.status(400).json({ error: 'validation', message: 'Die Mindestdauer für Raumbuchungen beträgt 60 Minuten.' });
+    return;
+  }
+  if (walkInCheck.violations.length > 0) {
+    logBookingEvent('ROOM_DISPLAY_CREATE_POLICY_VIOLATION', { requestId, roomDisplayId: display.id, violations: walkInCheck.violations }, 'warn');
+    sendPolicyViolation(res, walkInCheck.violations);
+    return;
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    await acquireBookingLock(tx, bookingDeskKeyForDate(display.deskId, date));
+    const deskBookings = await tx.booking.findMany({ where: { deskId: display.deskId, date } });
+    const conflicting = deskBookings.find((candidate) => {
+      const candidateWindow = bookingToWindow(candidate);
+      return candidateWindow ? windowsOverlap(bookingWindow, candidateWindow) : false;
+    });
+    if (conflicting) return { kind: 'conflict' as const, bookingId: conflicting.id };
+
+    const created = await tx.booking.create({
+      data: {
+        deskId: display.deskId,
+        bookedFor: 'GUEST',
+        guestName: ROOM_DISPLAY_GUEST_NAME,
+        createdByEmployeeId: display.createdByEmployeeId,
+        roomDisplayId: display.id,
+        date,
+        startTime: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), Math.floor(bookingWindow.startMinute / 60), bookingWindow.startMinute % 60, 0, 0)),
+        endTime: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), Math.floor(bookingWindow.endMinute / 60), bookingWindow.endMinute % 60, 0, 0)),
+        slot: 'CUSTOM',
+        startMinute: bookingWindow.startMinute,
+        endMinute: bookingWindow.endMinute,
+        title: ROOM_DISPLAY_GUEST_NAME
+      }
+    });
+    await enqueueBookingWebhooks(tx, 'booking.created', [created], { reason: 'room_display' });
+    return { kind: 'ok' as const, booking: created };
+  });
+
+  if (result.kind === 'conflict') {
+    logBookingEvent('ROOM_DISPLAY_CREATE_CONFLICT', { requestId, roomDisplayId: display.id, conflictingBookingId: result.bookingId }, 'warn');
+    sendConflict(res, 'Der Raum ist in diesem Zeitraum bereits gebucht', { deskId: display.deskId, date: toISODateOnly(date), bookingId: result.bookingId });
+    return;
+  }
+
+  logBookingEvent('ROOM_DISPLAY_CREATE_SUCCESS', { requestId, roomDisplayId: display.id, bookingId: result.booking.id, deskId: display.deskId, startMinute: bookingWindow.startMinute, endMinute: bookingWindow.endMinute });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'Booking', entityId: result.booking.id, after: { ...result.booking, roomDisplayId: display.id } });
+  void syncRoomBookingCalendarEvent(result.booking.id);
+  flushOutboxes();
+  res.status(201).json(await loadRoomDisplayState(display));
+});
+
 app.use(requireAuthenticated);
 
 
@@ -2373,7 +3478,243 @@ app.get('/admin/logs', requireAdmin, (req, res) => {
   });
 });
 
-app.get('/admin/db/tables', requireAdmin, (_req, res) => {
+app.get('/admin/audit-events', requireAdmin, async (req, res) => {
+  const page = Math.max(Number.parseInt(String(req.query.page ?? '1'), 10) || 1, 1);
+  const pageSize = Math.min(Math.max(Number.parseInt(String(req.query.pageSize ?? '50'), 10) || 50, 1), 200);
+  const entityType = typeof req.query.entityType === 'string' ? req.query.entityType.trim() : '';
+  const entityId = typeof req.query.entityId === 'string' ? req.query.entityId.trim() : '';
+  const actor = typeof req.query.actor === 'string' ? req.query.actor.trim() : '';
+  const from = typeof req.query.from === 'string' && req.query.from ? toDateOnly(req.query.from) : null;
+  const to = typeof req.query.to === 'string' && req.query.to ? toDateOnly(req.query.to) : null;
+
+  if ((typeof req.query.from === 'string' && req.query.from && !from) || (typeof req.query.to === 'string' && req.query.to && !to)) {
+    res.status(400).json({ error: 'validation', message: 'from/to muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  const where: Prisma.AuditEventWhereInput = {
+    ...(entityType ? { entityType } : {}),
+    ...(entityId ? { entityId } : {}),
+    ...(actor
+      ? {
+        OR: [
+          { actorEmployeeId: actor },
+          { actorEmail: { contains: actor, mode: 'insensitive' } },
+          { actorDisplayName: { contains: actor, mode: 'insensitive' } }
+        ]
+      }
+      : {}),
+    ...(from || to
+      ? {
+        createdAt: {
+          ...(from ? { gte: getBerlinDayBoundsUtc(from).dayStartUtc } : {}),
+          ...(to ? { lt: getBerlinDayBoundsUtc(to).dayEndUtc } : {})
+        }
+      }
+      : {})
+  };
+
+  const [items, total] = await Promise.all([
+    prisma.auditEvent.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], skip: (page - 1) * pageSize, take: pageSize }),
+    prisma.auditEvent.count({ where })
+  ]);
+
+  res.json({
+    items,
+    entityTypes: AUDIT_ENTITY_TYPES,
+    meta: {
+      total,
+      page,
+      pageSize,
+      totalPages: total === 0 ? 1 : Math.ceil(total / pageSize)
+    }
+  });
+});
+
+// Aggregation happens in the database; only the per-dimension sums and the (small) label tables are loaded.
+const loadUtilizationReport = async (filter: UtilizationFilter) => {
+  const [booked, available, desks, floorplans, tenants] = await Promise.all([
+    prisma.$queryRaw<BookedMinutesRow[]>(bookedMinutesQuery(filter)),
+    prisma.$queryRaw<AvailableMinutesRow[]>(availableMinutesQuery(filter)),
+    prisma.desk.findMany({ select: { id: true, name: true, floorplanId: true, kind: true } }),
+    prisma.floorplan.findMany({ select: { id: true, name: true } }),
+    prisma.tenant.findMany({ select: { id: true, name: true, domain: true } })
+  ]);
+  return buildUtilizationReport(filter, booked, available, { desks, floorplans, tenants });
+};
+
+app.get('/admin/reports/utilization', requireAdmin, async (req, res) => {
+  const filter = parseUtilizationFilter(req.query, toISODateOnly(getBerlinNow().date));
+  if (!filter.ok) {
+    res.status(400).json({ error: 'validation', message: filter.message });
+    return;
+  }
+
+  res.json(await loadUtilizationReport(filter.value));
+});
+
+app.get('/admin/reports/utilization.csv', requireAdmin, async (req, res) => {
+  const filter = parseUtilizationFilter(req.query, toISODateOnly(getBerlinNow().date));
+  if (!filter.ok) {
+    res.status(400).json({ error: 'validation', message: filter.message });
+    return;
+  }
+  const dimension = parseUtilizationDimension(req.query.dimension);
+  if (!dimension.ok) {
+    res.status(400).json({ error: 'validation', message: dimension.message });
+    return;
+  }
+
+  const report = await loadUtilizationReport(filter.value);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="auslastung-${dimension.value}-${filter.value.from}-${filter.value.to}.csv"`);
+  res.status(200).send(utilizationReportToCsv(report, dimension.value));
+});
+
+const receptionVisitorInclude = {
+  booking: { select: { id: true, deskId: true, date: true, daySlot: true, startTime: true, endTime: true, slot: true, startMinute: true, endMinute: true, bookedFor: true, guestName: true, employeeId: true, userEmail: true, createdByEmployeeId: true, desk: { select: { name: true, kind: true, floorplan: { select: { id: true, name: true } } } } } },
+  host: { select: { id: true, displayName: true, email: true } }
+} satisfies Prisma.VisitorInclude;
+
+type ReceptionVisitor = Prisma.VisitorGetPayload<{ include: typeof receptionVisitorInclude }>;
+
+const mapReceptionVisitor = (visitor: ReceptionVisitor) => ({
+  ...mapVisitor(visitor),
+  name: visitor.booking.guestName ?? '',
+  host: visitor.host,
+  booking: {
+    id: visitor.booking.id,
+    date: toISODateOnly(visitor.booking.date),
+    deskId: visitor.booking.deskId,
+    deskName: visitor.booking.desk.name,
+    resourceKind: visitor.booking.desk.kind,
+    floorplanId: visitor.booking.desk.floorplan.id,
+    floorplanName: visitor.booking.desk.floorplan.name,
+    daySlot: visitor.booking.daySlot ?? bookingSlotToDaySlot(visitor.booking.slot),
+    startTime: minuteToHHMM(visitor.booking.startMinute) ?? null,
+    endTime: minuteToHHMM(visitor.booking.endMinute) ?? null
+  }
+});
+
+// Guests have no employee record, so the invitation goes out in German under the guest name of the booking.
+const enqueueVisitorInvitation = async (db: MailDb, booking: MailBookingRef, visitor: Visitor): Promise<void> => {
+  if (!mailTransport || !visitor.email) return;
+  const [host, details] = await Promise.all([
+    db.employee.findUnique({ where: { id: visitor.hostEmployeeId }, select: { displayName: true } }),
+    loadBookingMailDetails(db, [booking]).then((detailsFor) => detailsFor(booking))
+  ]);
+  if (!host || !details) return;
+  const guest: MailRecipient = { id: visitor.id, email: visitor.email, displayName: booking.guestName ?? visitor.email, emailLocale: 'de', emailNotifications: true, isActive: true };
+  await enqueueMail(db, guest, { kind: 'VISITOR_INVITATION', booking: details, hostName: host.displayName, code: visitor.code, expectedArrivalMinute: visitor.expectedArrivalMinute }, { visitorId: visitor.id });
+};
+
+// Marks the arrival and tells the host in the same transaction, so a failed update sends no mail.
+// Returns null when someone else checked the visitor in first, which keeps the code single-use.
+const markVisitorArrived = async (req: express.Request, visitor: ReceptionVisitor): Promise<ReceptionVisitor | null> => {
+  const now = new Date();
+  const updated = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.visitor.updateMany({ where: { id: visitor.id, arrivedAt: null }, data: { arrivedAt: now } });
+    if (claimed.count === 0) return null;
+    if (mailTransport) {
+      const [host, details] = await Promise.all([
+        tx.employee.findUnique({ where: { id: visitor.hostEmployeeId }, select: mailRecipientSelect }),
+        loadBookingMailDetails(tx, [visitor.booking]).then((detailsFor) => detailsFor(visitor.booking))
+      ]);
+      if (host && details) {
+        await enqueueMail(tx, host, { kind: 'VISITOR_ARRIVED', booking: details, visitorName: visitor.booking.guestName ?? '', company: visitor.company, arrivedMinute: getBerlinNow(now).minute }, { visitorId: visitor.id });
+      }
+    }
+    return tx.visitor.findUniqueOrThrow({ where: { id: visitor.id }, include: receptionVisitorInclude });
+  });
+  if (!updated) return null;
+  console.info('[MUT] VISITOR_ARRIVED', { visitorId: visitor.id, bookingId: visitor.bookingId });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Visitor', entityId: visitor.id, before: { arrivedAt: null }, after: { arrivedAt: updated.arrivedAt } });
+  flushOutboxes();
+  return updated;
+};
+
+app.get('/admin/visitors', requireAdmin, async (req, res) => {
+  const rawDate = typeof req.query.date === 'string' && req.query.date ? req.query.date : toISODateOnly(getBerlinNow().date);
+  const date = toDateOnly(rawDate);
+  if (!date) {
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  const visitors = await prisma.visitor.findMany({
+    where: { booking: { date } },
+    include: receptionVisitorInclude,
+    orderBy: [{ expectedArrivalMinute: { sort: 'asc', nulls: 'last' } }, { booking: { startMinute: 'asc' } }, { createdAt: 'asc' }]
+  });
+  res.json(visitors.map(mapReceptionVisitor));
+});
+
+// Redeems the one-time code a guest shows at reception; only valid on the day of the visit.
+app.post('/admin/visitors/check-in', requireAdmin, async (req, res) => {
+  const code = normalizeVisitorCode(String((req.body as { code?: unknown }).code ?? ''));
+  const visitor = code ? await prisma.visitor.findUnique({ where: { code }, include: receptionVisitorInclude }) : null;
+  if (!visitor) {
+    res.status(404).json({ error: 'not_found', code: 'VISITOR_CODE_UNKNOWN', message: 'Unbekannter Besuchercode' });
+    return;
+  }
+  if (toISODateOnly(visitor.booking.date) !== toISODateOnly(getBerlinNow().date)) {
+    res.status(409).json({ error: 'conflict', code: 'VISITOR_CODE_NOT_TODAY', message: 'Der Besuchercode gilt nicht für heute', details: { date: toISODateOnly(visitor.booking.date) } });
+    return;
+  }
+  if (visitor.arrivedAt) {
+    res.status(409).json({ error: 'conflict', code: 'VISITOR_CODE_USED', message: 'Der Besuchercode wurde bereits verwendet', details: { arrivedAt: visitor.arrivedAt } });
+    return;
+  }
+
+  const arrived = await markVisitorArrived(req, visitor);
+  if (!arrived) {
+    res.status(409).json({ error: 'conflict', code: 'VISITOR_CODE_USED', message: 'Der Besuchercode wurde bereits verwendet' });
+    return;
+  }
+  res.json(mapReceptionVisitor(arrived));
+});
+
+app.post('/admin/visitors/:id/arrival', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const visitor = id ? await prisma.visitor.findUnique({ where: { id }, include: receptionVisitorInclude }) : null;
+  if (!visitor) {
+    res.status(404).json({ error: 'not_found', message: 'Besuch nicht gefunden' });
+    return;
+  }
+  if (visitor.arrivedAt) {
+    res.status(409).json({ error: 'conflict', code: 'VISITOR_ALREADY_ARRIVED', message: 'Der Besuch ist bereits angekommen', details: { arrivedAt: visitor.arrivedAt } });
+    return;
+  }
+
+  const arrived = await markVisitorArrived(req, visitor);
+  if (!arrived) {
+    res.status(409).json({ error: 'conflict', code: 'VISITOR_ALREADY_ARRIVED', message: 'Der Besuch ist bereits angekommen' });
+    return;
+  }
+  res.json(mapReceptionVisitor(arrived));
+});
+
+app.post('/admin/visitors/:id/departure', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const visitor = id ? await prisma.visitor.findUnique({ where: { id }, include: receptionVisitorInclude }) : null;
+  if (!visitor) {
+    res.status(404).json({ error: 'not_found', message: 'Besuch nicht gefunden' });
+    return;
+  }
+  if (!visitor.arrivedAt || visitor.departedAt) {
+    res.status(409).json(visitor.departedAt
+      ? { error: 'conflict', code: 'VISITOR_ALREADY_DEPARTED', message: 'Der Besuch ist bereits gegangen' }
+      : { error: 'conflict', code: 'VISITOR_NOT_ARRIVED', message: 'Der Besuch ist noch nicht angekommen' });
+    return;
+  }
+
+  const updated = await prisma.visitor.update({ where: { id: visitor.id }, data: { departedAt: new Date() }, include: receptionVisitorInclude });
+  console.info('[MUT] VISITOR_DEPARTED', { visitorId: visitor.id, bookingId: visitor.bookingId });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Visitor', entityId: visitor.id, before: { departedAt: null }, after: { departedAt: updated.departedAt } });
+  res.json(mapReceptionVisitor(updated));
+});
+
+app.get('/admin/db/tables', requireAdmin, requireSessionAuth, (_req, res) => {
   res.json(DB_TABLES.map((table) => ({
     name: table.routeName,
     model: table.modelName,
@@ -2387,7 +3728,7 @@ app.get('/admin/db/tables', requireAdmin, (_req, res) => {
   })));
 });
 
-app.get('/admin/db/:table/rows', requireAdmin, async (req, res) => {
+app.get('/admin/db/:table/rows', requireAdmin, requireSessionAuth, async (req, res) => {
   const tableName = getRouteId(req.params.table);
   const table = tableName ? getDbTableMeta(tableName) : null;
   if (!table) {
@@ -2418,7 +3759,7 @@ app.get('/admin/db/:table/rows', requireAdmin, async (req, res) => {
   res.json({ rows, total, limit, offset });
 });
 
-app.post('/admin/db/:table/rows', requireAdmin, async (req, res) => {
+app.post('/admin/db/:table/rows', requireAdmin, requireSessionAuth, async (req, res) => {
   const tableName = getRouteId(req.params.table);
   const table = tableName ? getDbTableMeta(tableName) : null;
   if (!table) {
@@ -2432,16 +3773,22 @@ app.post('/admin/db/:table/rows', requireAdmin, async (req, res) => {
     return;
   }
 
+  if (READ_ONLY_DB_MODELS.has(table.modelName)) {
+    res.status(403).json({ error: 'forbidden', message: 'Tabelle ist schreibgeschützt' });
+    return;
+  }
+
   try {
     const data = parseDbPayload(table, req.body?.data ?? {}, 'create');
     const created = await delegate.create({ data });
+    await recordAuditEvent(req, { action: 'DB_CREATE', entityType: table.modelName, entityId: (created as { id?: string }).id ?? null, after: created });
     res.status(201).json(created);
   } catch (error) {
     res.status(400).json({ error: 'validation', message: error instanceof Error ? error.message : 'Ungültige Daten' });
   }
 });
 
-app.delete('/admin/db/:table/rows', requireAdmin, async (req, res) => {
+app.delete('/admin/db/:table/rows', requireAdmin, requireSessionAuth, async (req, res) => {
   const tableName = getRouteId(req.params.table);
   const table = tableName ? getDbTableMeta(tableName) : null;
 
@@ -2456,15 +3803,21 @@ app.delete('/admin/db/:table/rows', requireAdmin, async (req, res) => {
     return;
   }
 
+  if (READ_ONLY_DB_MODELS.has(table.modelName)) {
+    res.status(403).json({ error: 'forbidden', message: 'Tabelle ist schreibgeschützt' });
+    return;
+  }
+
   try {
     const result = await delegate.deleteMany({});
+    await recordAuditEvent(req, { action: 'DB_CLEAR', entityType: table.modelName, before: { count: result.count } });
     res.status(200).json({ deleted: result.count });
   } catch (error) {
     res.status(400).json({ error: 'validation', message: error instanceof Error ? error.message : 'Tabelle leeren fehlgeschlagen' });
   }
 });
 
-app.patch('/admin/db/:table/rows/:id', requireAdmin, async (req, res) => {
+app.patch('/admin/db/:table/rows/:id', requireAdmin, requireSessionAuth, async (req, res) => {
   const tableName = getRouteId(req.params.table);
   const table = tableName ? getDbTableMeta(tableName) : null;
   const id = getRouteId(req.params.id);
@@ -2480,9 +3833,16 @@ app.patch('/admin/db/:table/rows/:id', requireAdmin, async (req, res) => {
     return;
   }
 
+  if (READ_ONLY_DB_MODELS.has(table.modelName)) {
+    res.status(403).json({ error: 'forbidden', message: 'Tabelle ist schreibgeschützt' });
+    return;
+  }
+
   try {
     const data = parseDbPayload(table, req.body?.data ?? {}, 'update');
+    const before = await delegate.findUnique({ where: { id } });
     const updated = await delegate.update({ where: { id }, data });
+    await recordAuditEvent(req, { action: 'DB_UPDATE', entityType: table.modelName, entityId: id, before, after: updated });
     res.json(updated);
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
@@ -2494,7 +3854,7 @@ app.patch('/admin/db/:table/rows/:id', requireAdmin, async (req, res) => {
   }
 });
 
-app.delete('/admin/db/:table/rows/:id', requireAdmin, async (req, res) => {
+app.delete('/admin/db/:table/rows/:id', requireAdmin, requireSessionAuth, async (req, res) => {
   const tableName = getRouteId(req.params.table);
   const table = tableName ? getDbTableMeta(tableName) : null;
   const id = getRouteId(req.params.id);
@@ -2510,8 +3870,14 @@ app.delete('/admin/db/:table/rows/:id', requireAdmin, async (req, res) => {
     return;
   }
 
+  if (READ_ONLY_DB_MODELS.has(table.modelName)) {
+    res.status(403).json({ error: 'forbidden', message: 'Tabelle ist schreibgeschützt' });
+    return;
+  }
+
   try {
-    await delegate.delete({ where: { id } });
+    const deleted = await delegate.delete({ where: { id } });
+    await recordAuditEvent(req, { action: 'DB_DELETE', entityType: table.modelName, entityId: id, before: deleted });
     res.status(204).end();
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
@@ -2561,7 +3927,7 @@ app.get('/admin/employees', requireAdmin, async (_req, res) => {
 app.post('/admin/employees/:id/refresh-profile', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
@@ -2571,7 +3937,7 @@ app.post('/admin/employees/:id/refresh-profile', requireAdmin, async (req, res)
   });
 
   if (!employee) {
-    res.status(404).json({ error: 'not_found', message: 'Employee not found' });
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
     return;
   }
 
@@ -2653,7 +4019,7 @@ app.post('/admin/employees/:id/refresh-profile', requireAdmin, async (req, res)
 
   const updated = await prisma.employee.findUnique({ where: { id }, select: employeeSelect });
   if (!updated) {
-    res.status(500).json({ error: 'server_error', message: 'Employee could not be loaded after profile refresh' });
+    res.status(500).json({ error: 'server_error', message: 'Mitarbeiter konnte nach dem Profilabgleich nicht geladen werden' });
     return;
   }
 
@@ -2695,7 +4061,7 @@ app.get('/employees', requireAuthenticated, async (_req, res) => {
 app.get('/employees/:id/photo', requireAuthenticated, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
@@ -2705,7 +4071,7 @@ app.get('/employees/:id/photo', requireAuthenticated, async (req, res) => {
   });
 
   if (!employee?.photoData) {
-    res.status(404).json({ error: 'not_found', message: 'Employee photo not found' });
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiterfoto nicht gefunden' });
     return;
   }
 
@@ -2721,7 +4087,7 @@ app.post('/admin/employees', requireAdmin, async (req, res) => {
   const { email, displayName, role } = req.body as { email?: string; displayName?: string; role?: string };
 
   if (!email || !displayName) {
-    res.status(400).json({ error: 'validation', message: 'email and displayName are required' });
+    res.status(400).json({ error: 'validation', message: 'email und displayName sind erforderlich' });
     return;
   }
 
@@ -2729,17 +4095,17 @@ app.post('/admin/employees', requireAdmin, async (req, res) => {
   const normalizedDisplayName = displayName.trim();
 
   if (!isValidEmailInput(normalizedEmail)) {
-    res.status(400).json({ error: 'validation', message: 'email must contain @' });
+    res.status(400).json({ error: 'validation', message: 'email muss ein @ enthalten' });
     return;
   }
 
   if (!normalizedDisplayName) {
-    res.status(400).json({ error: 'validation', message: 'displayName must not be empty' });
+    res.status(400).json({ error: 'validation', message: 'displayName darf nicht leer sein' });
     return;
   }
 
   if (typeof role !== 'undefined' && !isValidEmployeeRole(role)) {
-    res.status(400).json({ error: 'validation', message: 'role must be admin or user' });
+    res.status(400).json({ error: 'validation', message: 'role muss admin oder user sein' });
     return;
   }
 
@@ -2777,14 +4143,102 @@ app.post('/admin/employees', requireAdmin, async (req, res) => {
 
     const createdEmployee = await prisma.employee.findUnique({ where: { id: employee.id }, select: employeeSelect });
     if (!createdEmployee) {
-      res.status(500).json({ error: 'server_error', message: 'Employee could not be loaded after create' });
+      res.status(500).json({ error: 'server_error', message: 'Mitarbeiter konnte nach dem Anlegen nicht geladen werden' });
       return;
     }
 
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'Employee', entityId: createdEmployee.id, after: createdEmployee });
     res.status(201).json(toEmployeeResponse(createdEmployee));
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
-      sendConflict(res, 'Employee email already exists', { email: normalizedEmail });
+      sendConflict(res, 'Es gibt bereits einen Mitarbeiter mit dieser E-Mail-Adresse', { email: normalizedEmail });
+      return;
+    }
+
+    throw error;
+  }
+});
+
+const BULK_IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+// The preview omits the resolved row data; ids of matched records are enough to review an import.
+const toImportPreview = <T>(plan: ImportPlan<T>, dryRun: boolean) => ({
+  dryRun,
+  applied: !dryRun,
+  summary: plan.summary,
+  ignoredColumns: plan.ignoredColumns,
+  rows: plan.rows.map(({ data: _data, ...row }) => row)
+});
+
+const sendImportErrors = <T>(res: express.Response, plan: ImportPlan<T>) => {
+  res.status(400).json({ error: 'validation', code: 'IMPORT_HAS_ERRORS', message: `${plan.summary.error} Zeile(n) enthalten Fehler, es wurde nichts importiert`, preview: toImportPreview(plan, true) });
+};
+
+app.post('/admin/employees/import', requireAdmin, async (req, res) => {
+  const dryRun = req.body?.dryRun !== false;
+  const table = readImportTable({ fileName: req.body?.fileName, content: req.body?.content });
+  if (!table.ok) {
+    res.status(400).json({ error: 'validation', message: table.message });
+    return;
+  }
+
+  const existingEmployees = await prisma.employee.findMany({ select: employeeSelect });
+  const plan = planEmployeeImport(table.value, { existingEmployees: existingEmployees.map((employee) => ({ ...employee, role: employee.role as EmployeeRole })) });
+  if (!plan.ok) {
+    res.status(400).json({ error: 'validation', message: plan.message });
+    return;
+  }
+  if (dryRun) {
+    res.status(200).json(toImportPreview(plan.value, true));
+    return;
+  }
+  if (plan.value.summary.error > 0) {
+    sendImportErrors(res, plan.value);
+    return;
+  }
+
+  const existingById = new Map(existingEmployees.map((employee) => [employee.id, employee]));
+  try {
+    const changes = await prisma.$transaction(async (tx) => {
+      const applied: Array<{ action: 'CREATE' | 'UPDATE'; before: (typeof existingEmployees)[number] | null; after: (typeof existingEmployees)[number] }> = [];
+      for (const row of plan.value.rows) {
+        if (!row.data || (row.action !== 'create' && row.action !== 'update')) continue;
+        if (row.action === 'update' && row.targetId) {
+          const after = await tx.employee.update({ where: { id: row.targetId }, data: { displayName: row.data.displayName, role: row.data.role }, select: employeeSelect });
+          applied.push({ action: 'UPDATE', before: existingById.get(row.targetId) ?? null, after });
+          continue;
+        }
+
+        const tenantId = await resolveTenantIdForEmail(tx, row.data.email);
+        const created = await tx.employee.create({ data: { email: row.data.email, displayName: row.data.displayName, role: row.data.role, tenantDomainId: tenantId, photoUrl: null }, select: { id: true } });
+        const after = await tx.employee.update({ where: { id: created.id }, data: { photoUrl: getEmployeePhotoUrl(created.id) }, select: employeeSelect });
+        applied.push({ action: 'CREATE', before: null, after });
+      }
+      return applied;
+    }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
+
+    await recordAuditEvents(req, changes.map((change) => ({ action: change.action, entityType: 'Employee', entityId: change.after.id, before: change.before, after: change.after })));
+    console.info('[MUT] EMPLOYEE_IMPORT', { requestId: req.requestId, ...plan.value.summary });
+
+    // Photos and phone numbers come from Graph one employee at a time; the import does not wait for them.
+    const createdEmployees = changes.filter((change) => change.action === 'CREATE').map((change) => change.after);
+    if (createdEmployees.length > 0) {
+      void (async () => {
+        for (const employee of createdEmployees) {
+          const target = { id: employee.id, email: employee.email, entraOid: null, entraTenantId: null };
+          try {
+            await Promise.all([syncEmployeePhotoWithAppToken(target), syncEmployeePhoneWithAppToken(target)]);
+          } catch (error) {
+            console.error('EMPLOYEE_IMPORT_GRAPH_SYNC_FAILED', { employeeId: employee.id, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      })();
+    }
+
+    res.status(200).json(toImportPreview(plan.value, false));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      sendConflict(res, 'Ein Mitarbeiter aus der Datei wurde inzwischen angelegt, bitte die Vorschau erneut starten', { fileName: req.body?.fileName ?? null });
       return;
     }
 
@@ -2795,34 +4249,34 @@ app.post('/admin/employees', requireAdmin, async (req, res) => {
 app.patch('/admin/employees/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
   const { displayName, isActive, role } = req.body as { displayName?: string; isActive?: boolean; role?: string };
   if (typeof displayName === 'undefined' && typeof isActive === 'undefined' && typeof role === 'undefined') {
-    res.status(400).json({ error: 'validation', message: 'displayName, isActive or role must be provided' });
+    res.status(400).json({ error: 'validation', message: 'displayName, isActive oder role muss angegeben werden' });
     return;
   }
 
   const trimmedDisplayName = typeof displayName === 'string' ? displayName.trim() : undefined;
   if (typeof trimmedDisplayName === 'string' && !trimmedDisplayName) {
-    res.status(400).json({ error: 'validation', message: 'displayName must not be empty' });
+    res.status(400).json({ error: 'validation', message: 'displayName darf nicht leer sein' });
     return;
   }
 
   if (typeof role !== 'undefined' && !isValidEmployeeRole(role)) {
-    res.status(400).json({ error: 'validation', message: 'role must be admin or user' });
+    res.status(400).json({ error: 'validation', message: 'role muss admin oder user sein' });
     return;
   }
 
   const existing = await prisma.employee.findUnique({
     where: { id },
-    select: { id: true, role: true, email: true, isActive: true }
+    select: employeeSelect
   });
 
   if (!existing) {
-    res.status(404).json({ error: 'not_found', message: 'Employee not found' });
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
     return;
   }
 
@@ -2853,10 +4307,11 @@ app.patch('/admin/employees/:id', requireAdmin, async (req, res) => {
       req.authUser.isActive = updated.isActive;
     }
 
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Employee', entityId: id, before: existing, after: updated });
     res.status(200).json(toEmployeeResponse(updated));
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Employee not found' });
+      res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
       return;
     }
 
@@ -2867,13 +4322,13 @@ app.patch('/admin/employees/:id', requireAdmin, async (req, res) => {
 app.delete('/admin/employees/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const employee = await prisma.employee.findUnique({ where: { id }, select: { role: true, isActive: true } });
+  const employee = await prisma.employee.findUnique({ where: { id }, select: employeeSelect });
   if (!employee) {
-    res.status(404).json({ error: 'not_found', message: 'Employee not found' });
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
     return;
   }
 
@@ -2892,10 +4347,11 @@ app.delete('/admin/employees/:id', requireAdmin, async (req, res) => {
       select: employeeSelect
     });
 
+    await recordAuditEvent(req, { action: 'DELETE', entityType: 'Employee', entityId: id, before: employee, after: updated });
     res.status(200).json(toEmployeeResponse(updated));
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Employee not found' });
+      res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
       return;
     }
 
@@ -2928,21 +4384,22 @@ app.post('/admin/tenants', requireAdmin, async (req, res) => {
   const entraTenantId = typeof req.body?.entraTenantId === 'string' ? normalizeEntraTenantId(req.body.entraTenantId) : null;
 
   if (typeof req.body?.entraTenantId === 'string' && !entraTenantId) {
-    res.status(400).json({ error: 'validation', message: 'entraTenantId must be a GUID' });
+    res.status(400).json({ error: 'validation', message: 'entraTenantId muss eine GUID sein' });
     return;
   }
 
   if (!domain || !domain.includes('.')) {
-    res.status(400).json({ error: 'validation', message: 'domain must be a valid domain' });
+    res.status(400).json({ error: 'validation', message: 'domain muss eine gültige Domain sein' });
     return;
   }
 
   try {
     const created = await prisma.tenant.create({ data: { domain, name: name || domain, entraTenantId } });
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'Tenant', entityId: created.id, after: created });
     res.status(201).json(created);
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
-      res.status(409).json({ error: 'conflict', message: 'Tenant domain already exists' });
+      res.status(409).json({ error: 'conflict', message: 'Die Mandanten-Domain existiert bereits' });
       return;
     }
     throw error;
@@ -2952,7 +4409,7 @@ app.post('/admin/tenants', requireAdmin, async (req, res) => {
 app.patch('/admin/tenants/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
@@ -2961,23 +4418,24 @@ app.patch('/admin/tenants/:id', requireAdmin, async (req, res) => {
   const rawEntraTenantId = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'entraTenantId') ? req.body?.entraTenantId : undefined;
 
   if (typeof rawDomain === 'undefined' && typeof name === 'undefined' && typeof rawEntraTenantId === 'undefined') {
-    res.status(400).json({ error: 'validation', message: 'name, domain or entraTenantId must be provided' });
+    res.status(400).json({ error: 'validation', message: 'name, domain oder entraTenantId muss angegeben werden' });
     return;
   }
 
   const domain = typeof rawDomain === 'string' ? normalizeTenantDomain(rawDomain) : undefined;
   const entraTenantId = typeof rawEntraTenantId === 'string' ? normalizeEntraTenantId(rawEntraTenantId) : rawEntraTenantId === null ? null : undefined;
   if (typeof domain === 'string' && (!domain || !domain.includes('.'))) {
-    res.status(400).json({ error: 'validation', message: 'domain must be a valid domain' });
+    res.status(400).json({ error: 'validation', message: 'domain muss eine gültige Domain sein' });
     return;
   }
 
   if (typeof rawEntraTenantId !== 'undefined' && typeof entraTenantId === 'undefined') {
-    res.status(400).json({ error: 'validation', message: 'entraTenantId must be a GUID or null' });
+    res.status(400).json({ error: 'validation', message: 'entraTenantId muss eine GUID oder null sein' });
     return;
   }
 
   try {
+    const before = await prisma.tenant.findUnique({ where: { id } });
     const updated = await prisma.tenant.update({
       where: { id },
       data: {
@@ -2986,14 +4444,15 @@ app.patch('/admin/tenants/:id', requireAdmin, async (req, res) => {
         ...(typeof entraTenantId !== 'undefined' ? { entraTenantId } : {})
       }
     });
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Tenant', entityId: id, before, after: updated });
     res.status(200).json(updated);
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
-      res.status(409).json({ error: 'conflict', message: 'Tenant domain already exists' });
+      res.status(409).json({ error: 'conflict', message: 'Die Mandanten-Domain existiert bereits' });
       return;
     }
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Tenant not found' });
+      res.status(404).json({ error: 'not_found', message: 'Mandant nicht gefunden' });
       return;
     }
     throw error;
@@ -3003,1679 +4462,4656 @@ app.patch('/admin/tenants/:id', requireAdmin, async (req, res) => {
 app.delete('/admin/tenants/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
   const employeeCount = await prisma.employee.count({ where: { tenantDomainId: id } });
   if (employeeCount > 0) {
-    res.status(409).json({ error: 'conflict', message: 'Tenant is assigned to employees' });
+    res.status(409).json({ error: 'conflict', message: 'Dem Mandanten sind noch Mitarbeiter zugeordnet' });
     return;
   }
 
-  await prisma.tenant.delete({ where: { id } });
+  const deleted = await prisma.tenant.delete({ where: { id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'Tenant', entityId: id, before: deleted });
   res.status(204).send();
 });
 
-app.post('/feedback-reports', requireAuthenticated, async (req, res) => {
-  const type = parseFeedbackReportType(req.body?.type);
-  const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
-  const screenshot = parseFeedbackScreenshot(req.body?.screenshotDataUrl);
+const teamInclude = { members: { select: { employeeId: true } } } as const;
 
-  if (!type) {
-    res.status(400).json({ error: 'invalid_type', message: 'type must be BUG or FEATURE_REQUEST' });
+const mapTeamResponse = (team: { id: string; name: string; createdAt: Date; updatedAt: Date; members: Array<{ employeeId: string }> }) => ({
+  id: team.id,
+  name: team.name,
+  memberIds: team.members.map((member) => member.employeeId),
+  createdAt: team.createdAt,
+  updatedAt: team.updatedAt
+});
+
+const parseMemberIds = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  return Array.from(new Set(value.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0).map((entry) => entry.trim())));
+};
+
+app.get('/admin/teams', requireAdmin, async (_req, res) => {
+  const teams = await prisma.team.findMany({ include: teamInclude, orderBy: { name: 'asc' } });
+  res.status(200).json(teams.map(mapTeamResponse));
+});
+
+app.post('/admin/teams', requireAdmin, async (req, res) => {
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 80) : '';
+  const memberIds = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'memberIds') ? parseMemberIds(req.body.memberIds) : [];
+  if (!name) {
+    res.status(400).json({ error: 'validation', message: 'name ist erforderlich' });
     return;
   }
-
-  if (message.length < 10 || message.length > 2000) {
-    res.status(400).json({ error: 'invalid_message', message: 'message must be between 10 and 2000 characters' });
+  if (!memberIds) {
+    res.status(400).json({ error: 'validation', message: 'memberIds muss ein Array sein' });
+    return;
+  }
+  if (memberIds.length > 0 && await prisma.employee.count({ where: { id: { in: memberIds } } }) !== memberIds.length) {
+    res.status(400).json({ error: 'validation', message: 'Unbekannte Mitarbeiter in memberIds' });
     return;
   }
 
-  if (req.body?.screenshotDataUrl !== undefined && !screenshot) {
-    res.status(400).json({ error: 'invalid_screenshot', message: 'screenshotDataUrl must be a valid PNG, JPEG or WEBP data URL up to 3 MB' });
+  try {
+    const created = await prisma.team.create({
+      data: { name, members: { create: memberIds.map((employeeId) => ({ employeeId })) } },
+      include: teamInclude
+    });
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'Team', entityId: created.id, after: mapTeamResponse(created) });
+    res.status(201).json(mapTeamResponse(created));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'conflict', message: 'Es gibt bereits ein Team mit diesem Namen' });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.patch('/admin/teams/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  if (!req.authUser) {
-    res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
+  const hasName = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'name');
+  const hasMemberIds = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'memberIds');
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 80) : '';
+  const memberIds = hasMemberIds ? parseMemberIds(req.body.memberIds) : null;
+  if (!hasName && !hasMemberIds) {
+    res.status(400).json({ error: 'validation', message: 'name oder memberIds muss angegeben werden' });
+    return;
+  }
+  if (hasName && !name) {
+    res.status(400).json({ error: 'validation', message: 'name darf nicht leer sein' });
+    return;
+  }
+  if (hasMemberIds && !memberIds) {
+    res.status(400).json({ error: 'validation', message: 'memberIds muss ein Array sein' });
+    return;
+  }
+  if (memberIds && memberIds.length > 0 && await prisma.employee.count({ where: { id: { in: memberIds } } }) !== memberIds.length) {
+    res.status(400).json({ error: 'validation', message: 'Unbekannte Mitarbeiter in memberIds' });
     return;
   }
 
-  const created = await prisma.feedbackReport.create({
-    data: {
-      type,
-      message,
-      screenshotData: screenshot ? (screenshot.bytes as unknown as Uint8Array<ArrayBuffer>) : undefined,
-      screenshotMimeType: screenshot?.mimeType,
-      reporterEmail: req.authUser.email,
-      reporterDisplayName: req.authUser.displayName,
-      reporterUserId: req.authUser.source === 'local' ? req.authUser.id : null,
-      reporterEmployeeId: req.authUser.source === 'entra' ? req.authUser.id : null
-    }
-  });
+  const before = await prisma.team.findUnique({ where: { id }, include: teamInclude });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Team nicht gefunden' });
+    return;
+  }
 
-  res.status(201).json({
-    id: created.id,
-    type: created.type,
-    message: created.message,
-    hasScreenshot: Boolean(created.screenshotData),
-    createdAt: created.createdAt.toISOString()
-  });
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      if (memberIds) {
+        await tx.teamMember.deleteMany({ where: { teamId: id, employeeId: { notIn: memberIds } } });
+        await tx.teamMember.createMany({ data: memberIds.map((employeeId) => ({ teamId: id, employeeId })), skipDuplicates: true });
+      }
+      return tx.team.update({ where: { id }, data: hasName ? { name } : {}, include: teamInclude });
+    });
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Team', entityId: id, before: mapTeamResponse(before), after: mapTeamResponse(updated) });
+    res.status(200).json(mapTeamResponse(updated));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'conflict', message: 'Es gibt bereits ein Team mit diesem Namen' });
+      return;
+    }
+    throw error;
+  }
 });
 
-app.get('/admin/feedback-reports', requireAdmin, async (req, res) => {
-  const type = req.query.type ? parseFeedbackReportType(req.query.type) : null;
-  const status = req.query.status ? parseFeedbackReportStatus(req.query.status) : null;
-  if (req.query.type && !type) {
-    res.status(400).json({ error: 'invalid_type', message: 'type must be BUG or FEATURE_REQUEST' });
+app.delete('/admin/teams/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  if (req.query.status && !status) {
-    res.status(400).json({ error: 'invalid_status', message: 'status must be IN_ARBEIT, ABGELEHNT or ERLEDIGT' });
+  const existing = await prisma.team.findUnique({ where: { id }, include: teamInclude });
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Team nicht gefunden' });
     return;
   }
+  await prisma.team.delete({ where: { id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'Team', entityId: id, before: mapTeamResponse(existing) });
+  res.status(204).send();
+});
 
-  const reporter = typeof req.query.reporter === 'string' ? req.query.reporter.trim() : '';
-  const sortDirection = req.query.sort === 'asc' ? 'asc' : 'desc';
-  const fromDate = typeof req.query.fromDate === 'string' ? toDateOnly(req.query.fromDate) : null;
-  const toDate = typeof req.query.toDate === 'string' ? toDateOnly(req.query.toDate) : null;
+const zoneInclude = { teams: { select: { teamId: true, mode: true } }, desks: { select: { id: true } } } as const;
+
+const mapZoneResponse = (zone: { id: string; floorplanId: string; name: string; color: string | null; createdAt: Date; updatedAt: Date; teams: ZoneAssignment[]; desks: Array<{ id: string }> }) => ({
+  id: zone.id,
+  floorplanId: zone.floorplanId,
+  name: zone.name,
+  color: zone.color,
+  teams: zone.teams.map((assignment) => ({ teamId: assignment.teamId, mode: assignment.mode })),
+  deskIds: zone.desks.map((desk) => desk.id),
+  createdAt: zone.createdAt,
+  updatedAt: zone.updatedAt
+});
 
-  if (req.query.fromDate && !fromDate) {
-    res.status(400).json({ error: 'invalid_from_date', message: 'fromDate must use YYYY-MM-DD' });
+const validateZoneTeams = async (assignments: ZoneAssignment[]): Promise<string | null> => {
+  if (assignments.length === 0) return null;
+  const count = await prisma.team.count({ where: { id: { in: assignments.map((assignment) => assignment.teamId) } } });
+  return count === assignments.length ? null : 'teams contain unknown teams';
+};
+
+app.get('/admin/zones', requireAdmin, async (req, res) => {
+  const floorplanId = typeof req.query.floorplanId === 'string' && req.query.floorplanId ? req.query.floorplanId : null;
+  const zones = await prisma.zone.findMany({
+    where: floorplanId ? { floorplanId } : {},
+    include: zoneInclude,
+    orderBy: [{ floorplanId: 'asc' }, { name: 'asc' }]
+  });
+  res.status(200).json(zones.map(mapZoneResponse));
+});
+
+app.post('/admin/zones', requireAdmin, async (req, res) => {
+  const floorplanId = typeof req.body?.floorplanId === 'string' ? req.body.floorplanId : '';
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 60) : '';
+  const color = typeof req.body?.color === 'string' && req.body.color ? req.body.color : null;
+  const teams = parseZoneTeamAssignments(req.body?.teams);
+  if (!floorplanId || !name) {
+    res.status(400).json({ error: 'validation', message: 'floorplanId und name sind erforderlich' });
     return;
   }
-
-  if (req.query.toDate && !toDate) {
-    res.status(400).json({ error: 'invalid_to_date', message: 'toDate must use YYYY-MM-DD' });
+  if (color && !ZONE_COLOR_PATTERN.test(color)) {
+    res.status(400).json({ error: 'validation', message: 'color muss eine Hex-Farbe wie #22aa88 sein' });
     return;
   }
-
-  const createdAtFilter: Prisma.DateTimeFilter = {};
-  if (fromDate) {
-    createdAtFilter.gte = fromDate;
+  if (!teams.ok) {
+    res.status(400).json({ error: 'validation', message: teams.message });
+    return;
   }
-  if (toDate) {
-    const inclusiveEnd = new Date(toDate);
-    inclusiveEnd.setUTCDate(inclusiveEnd.getUTCDate() + 1);
-    createdAtFilter.lt = inclusiveEnd;
+  const teamError = await validateZoneTeams(teams.value);
+  if (teamError) {
+    res.status(400).json({ error: 'validation', message: teamError });
+    return;
+  }
+  if (!await prisma.floorplan.findUnique({ where: { id: floorplanId }, select: { id: true } })) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
   }
 
-  const reports = await prisma.feedbackReport.findMany({
-    where: {
-      ...(type ? { type } : {}),
-      ...(status ? { status } : {}),
-      ...(reporter ? {
-        OR: [
-          { reporterDisplayName: { contains: reporter, mode: 'insensitive' } },
-          { reporterEmail: { contains: reporter, mode: 'insensitive' } }
-        ]
-      } : {}),
-      ...(Object.keys(createdAtFilter).length > 0 ? { createdAt: createdAtFilter } : {})
-    },
-    orderBy: { createdAt: sortDirection },
-    select: {
-      id: true,
-      type: true,
-      status: true,
-      message: true,
-      reporterDisplayName: true,
-      reporterEmail: true,
-      screenshotMimeType: true,
-      createdAt: true
+  try {
+    const created = await prisma.zone.create({
+      data: { floorplanId, name, color, teams: { create: teams.value } },
+      include: zoneInclude
+    });
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'Zone', entityId: created.id, after: mapZoneResponse(created) });
+    res.status(201).json(mapZoneResponse(created));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'conflict', message: 'Auf diesem Grundriss gibt es bereits eine Zone mit diesem Namen' });
+      return;
     }
-  });
-
-  res.json({
-    reports: reports.map((report) => ({
-      id: report.id,
-      type: report.type,
-      status: report.status,
-      message: report.message,
-      reporterDisplayName: report.reporterDisplayName,
-      reporterEmail: report.reporterEmail,
-      hasScreenshot: Boolean(report.screenshotMimeType),
-      createdAt: report.createdAt.toISOString()
-    }))
-  });
+    throw error;
+  }
 });
 
-app.get('/admin/feedback-reports/:id/screenshot', requireAdmin, async (req, res) => {
+app.patch('/admin/zones/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const report = await prisma.feedbackReport.findUnique({
-    where: { id },
-    select: { screenshotData: true, screenshotMimeType: true, updatedAt: true }
-  });
-
-  if (!report?.screenshotData) {
-    res.status(404).json({ error: 'not_found', message: 'Screenshot not found' });
+  const hasName = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'name');
+  const hasColor = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'color');
+  const hasTeams = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'teams');
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 60) : '';
+  const color = typeof req.body?.color === 'string' && req.body.color ? req.body.color : null;
+  const teams = hasTeams ? parseZoneTeamAssignments(req.body.teams) : null;
+  if (!hasName && !hasColor && !hasTeams) {
+    res.status(400).json({ error: 'validation', message: 'name, color oder teams muss angegeben werden' });
     return;
   }
-
-  if (report.updatedAt) {
-    res.setHeader('Last-Modified', report.updatedAt.toUTCString());
+  if (hasName && !name) {
+    res.status(400).json({ error: 'validation', message: 'name darf nicht leer sein' });
+    return;
   }
-
-  res.setHeader('Cache-Control', 'private, max-age=300');
-  res.setHeader('Content-Type', report.screenshotMimeType ?? 'image/png');
-  res.status(200).send(Buffer.from(report.screenshotData));
-});
-
-app.patch('/admin/feedback-reports/:id/status', requireAdmin, async (req, res) => {
-  const id = getRouteId(req.params.id);
-  if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+  if (color && !ZONE_COLOR_PATTERN.test(color)) {
+    res.status(400).json({ error: 'validation', message: 'color muss eine Hex-Farbe wie #22aa88 sein' });
+    return;
+  }
+  if (teams && !teams.ok) {
+    res.status(400).json({ error: 'validation', message: teams.message });
+    return;
+  }
+  const teamError = teams?.ok ? await validateZoneTeams(teams.value) : null;
+  if (teamError) {
+    res.status(400).json({ error: 'validation', message: teamError });
     return;
   }
 
-  const status = parseFeedbackReportStatus(req.body?.status);
-  if (!status) {
-    res.status(400).json({ error: 'invalid_status', message: 'status must be IN_ARBEIT, ABGELEHNT or ERLEDIGT' });
+  const before = await prisma.zone.findUnique({ where: { id }, include: zoneInclude });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Zone nicht gefunden' });
     return;
   }
 
   try {
-    const updated = await prisma.feedbackReport.update({
-      where: { id },
-      data: { status }
-    });
-
-    res.status(200).json({
-      id: updated.id,
-      status: updated.status,
-      updatedAt: updated.updatedAt.toISOString()
+    const updated = await prisma.$transaction(async (tx) => {
+      if (teams?.ok) {
+        await tx.zoneTeam.deleteMany({ where: { zoneId: id } });
+        await tx.zoneTeam.createMany({ data: teams.value.map((assignment) => ({ zoneId: id, ...assignment })) });
+      }
+      return tx.zone.update({
+        where: { id },
+        data: { ...(hasName ? { name } : {}), ...(hasColor ? { color } : {}) },
+        include: zoneInclude
+      });
     });
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Zone', entityId: id, before: mapZoneResponse(before), after: mapZoneResponse(updated) });
+    res.status(200).json(mapZoneResponse(updated));
   } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Feedback report not found' });
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'conflict', message: 'Auf diesem Grundriss gibt es bereits eine Zone mit diesem Namen' });
       return;
     }
     throw error;
   }
 });
 
-app.delete('/admin/feedback-reports/:id', requireAdmin, async (req, res) => {
+// Replaces the desk list of a zone; desks are moved out of any other zone they were in.
+app.put('/admin/zones/:id/desks', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
+  const deskIds = parseMemberIds(req.body?.deskIds);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+  if (!deskIds) {
+    res.status(400).json({ error: 'validation', message: 'deskIds muss ein Array sein' });
     return;
   }
 
-  try {
-    await prisma.feedbackReport.delete({ where: { id } });
-    res.status(204).send();
-  } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Feedback report not found' });
-      return;
-    }
-    throw error;
+  const before = await prisma.zone.findUnique({ where: { id }, include: zoneInclude });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Zone nicht gefunden' });
+    return;
+  }
+  if (deskIds.length > 0 && await prisma.desk.count({ where: { id: { in: deskIds }, floorplanId: before.floorplanId } }) !== deskIds.length) {
+    res.status(400).json({ error: 'validation', message: 'Die Ressourcen müssen auf dem Grundriss der Zone liegen' });
+    return;
   }
-});
 
-app.get('/me', (req, res) => {
-  res.status(200).json({
-    id: req.authUser?.id,
-    email: req.authUser?.email,
-    displayName: req.authUser?.displayName,
-    role: req.authUser?.role
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.desk.updateMany({ where: { zoneId: id, id: { notIn: deskIds } }, data: { zoneId: null } });
+    await tx.desk.updateMany({ where: { id: { in: deskIds } }, data: { zoneId: id } });
+    return tx.zone.findUniqueOrThrow({ where: { id }, include: zoneInclude });
   });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Zone', entityId: id, before: mapZoneResponse(before), after: mapZoneResponse(updated) });
+  res.status(200).json(mapZoneResponse(updated));
 });
 
-app.get('/floorplans', async (req, res) => {
-  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
-  try {
-    actor = await requireActorEmployee(req);
-  } catch {
-    actor = null;
+app.delete('/admin/zones/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
   }
 
-  const floorplans = await prisma.floorplan.findMany({
-    include: { floorplanTenants: { select: { tenantId: true } } },
-    orderBy: [{ sortOrder: 'asc' }, { isDefault: 'desc' }, { createdAt: 'desc' }]
-  });
+  const existing = await prisma.zone.findUnique({ where: { id }, include: zoneInclude });
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Zone nicht gefunden' });
+    return;
+  }
+  await prisma.zone.delete({ where: { id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'Zone', entityId: id, before: mapZoneResponse(existing) });
+  res.status(204).send();
+});
 
-  let visible = actor?.role === 'admin'
-    ? floorplans
-    : floorplans.filter((floorplan) => isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null));
+type WebhookSubscriptionRow = Prisma.WebhookSubscriptionGetPayload<object>;
+type WebhookDeliveryCounts = Partial<Record<'PENDING' | 'SENT' | 'FAILED', number>>;
+
+// The secret is only returned in full right after creation or rotation.
+const mapWebhookSubscriptionResponse = (subscription: WebhookSubscriptionRow, counts: WebhookDeliveryCounts = {}, options: { includeSecret?: boolean } = {}) => ({
+  id: subscription.id,
+  name: subscription.name,
+  url: subscription.url,
+  events: subscription.events,
+  isActive: subscription.isActive,
+  secretHint: `…${subscription.secret.slice(-4)}`,
+  ...(options.includeSecret ? { secret: subscription.secret } : {}),
+  deliveryCounts: { pending: counts.PENDING ?? 0, sent: counts.SENT ?? 0, failed: counts.FAILED ?? 0 },
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt
+});
 
-  if (actor && actor.role !== 'admin' && visible.length > 0) {
-    const authorizedActor = actor;
-    const visibleFloorplanIds = visible.map((floorplan) => floorplan.id);
-    const accessibleDesks = await prisma.desk.findMany({
-      where: {
-        floorplanId: { in: visibleFloorplanIds },
-        AND: [
-          authorizedActor.tenantDomainId
-            ? {
-              OR: [
-                { tenantScope: 'ALL' },
-                { deskTenants: { some: { tenantId: authorizedActor.tenantDomainId } } }
-              ]
-            }
-            : { tenantScope: 'ALL' },
-          {
-            OR: [
-              { employeeScope: 'ALL' },
-              { deskEmployees: { some: { employeeId: authorizedActor.id } } }
-            ]
-          }
-        ]
-      },
-      select: { floorplanId: true }
-    });
+const mapWebhookDeliveryResponse = (delivery: Prisma.WebhookDeliveryGetPayload<object>) => ({
+  id: delivery.id,
+  subscriptionId: delivery.subscriptionId,
+  event: delivery.event,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  responseStatus: delivery.responseStatus,
+  lastError: delivery.lastError,
+  nextAttemptAt: delivery.status === 'PENDING' ? delivery.nextAttemptAt : null,
+  deliveredAt: delivery.deliveredAt,
+  replayOfId: delivery.replayOfId,
+  createdAt: delivery.createdAt,
+  payload: delivery.payload
+});
 
-    const accessibleFloorplanIds = new Set(accessibleDesks.map((desk) => desk.floorplanId));
-    visible = visible.filter((floorplan) => accessibleFloorplanIds.has(floorplan.id));
+app.get('/admin/webhooks', requireAdmin, async (_req, res) => {
+  const [subscriptions, counts] = await Promise.all([
+    prisma.webhookSubscription.findMany({ orderBy: { name: 'asc' } }),
+    prisma.webhookDelivery.groupBy({ by: ['subscriptionId', 'status'], _count: { _all: true } })
+  ]);
+  const countsBySubscription = new Map<string, WebhookDeliveryCounts>();
+  for (const entry of counts) {
+    countsBySubscription.set(entry.subscriptionId, { ...countsBySubscription.get(entry.subscriptionId), [entry.status]: entry._count._all });
   }
-
-  res.status(200).json(visible.map((floorplan) => ({
-    id: floorplan.id,
-    name: floorplan.name,
-    imageUrl: floorplan.imageUrl,
-    isDefault: floorplan.isDefault,
-    sortOrder: floorplan.sortOrder,
-    tenantScope: floorplan.tenantScope,
-    tenantIds: floorplan.floorplanTenants.map((entry) => entry.tenantId),
-    defaultResourceKind: floorplan.defaultResourceKind,
-    defaultAllowSeries: floorplan.defaultAllowSeries,
-    createdAt: floorplan.createdAt
-  })));
+  res.status(200).json(subscriptions.map((subscription) => mapWebhookSubscriptionResponse(subscription, countsBySubscription.get(subscription.id))));
 });
 
-app.get('/floorplans/:id', async (req, res) => {
-  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
-  try {
-    actor = await requireActorEmployee(req);
-  } catch {
-    actor = null;
+app.post('/admin/webhooks', requireAdmin, async (req, res) => {
+  const parsed = parseWebhookSubscriptionInput(req.body, { partial: false });
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
+    return;
   }
 
-  const floorplan = await prisma.floorplan.findUnique({
-    where: { id: req.params.id },
-    include: { floorplanTenants: { select: { tenantId: true } } }
-  });
+  const { name, url, events, isActive } = parsed.value as Required<typeof parsed.value>;
+  const created = await prisma.webhookSubscription.create({ data: { name, url, events, isActive, secret: createWebhookSecret() } });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'WebhookSubscription', entityId: created.id, after: created });
+  res.status(201).json(mapWebhookSubscriptionResponse(created, {}, { includeSecret: true }));
+});
 
-  if (!floorplan) {
-    res.status(404).json({ error: 'not_found', message: 'Floorplan not found' });
+app.patch('/admin/webhooks/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const isAdmin = actor?.role === 'admin';
-  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
-    res.status(403).json({ error: 'forbidden', message: 'Floorplan is not visible for current tenant' });
+  const parsed = parseWebhookSubscriptionInput(req.body, { partial: true });
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
+    return;
+  }
+  const rotateSecret = req.body?.rotateSecret === true;
+  if (Object.keys(parsed.value).length === 0 && !rotateSecret) {
+    res.status(400).json({ error: 'validation', message: 'name, url, events, isActive oder rotateSecret muss angegeben werden' });
     return;
   }
 
-  res.status(200).json({
-    id: floorplan.id,
-    name: floorplan.name,
-    imageUrl: floorplan.imageUrl,
-    isDefault: floorplan.isDefault,
-    sortOrder: floorplan.sortOrder,
-    tenantScope: floorplan.tenantScope,
-    tenantIds: floorplan.floorplanTenants.map((entry) => entry.tenantId),
-    defaultResourceKind: floorplan.defaultResourceKind,
-    defaultAllowSeries: floorplan.defaultAllowSeries,
-    createdAt: floorplan.createdAt
+  const before = await prisma.webhookSubscription.findUnique({ where: { id } });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Webhook nicht gefunden' });
+    return;
+  }
+  const updated = await prisma.webhookSubscription.update({
+    where: { id },
+    data: { ...parsed.value, ...(rotateSecret ? { secret: createWebhookSecret() } : {}) }
   });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'WebhookSubscription', entityId: id, before, after: { ...updated, secretRotated: rotateSecret } });
+  res.status(200).json(mapWebhookSubscriptionResponse(updated, {}, { includeSecret: rotateSecret }));
 });
 
-app.get('/floorplans/:id/desks', async (req, res) => {
-  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
-  try {
-    actor = await requireActorEmployee(req);
-  } catch {
-    actor = null;
+app.delete('/admin/webhooks/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
   }
 
-  const floorplan = await prisma.floorplan.findUnique({
-    where: { id: req.params.id },
-    select: { id: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } }
-  });
-  if (!floorplan) {
-    res.status(404).json({ error: 'not_found', message: 'Floorplan not found' });
+  const existing = await prisma.webhookSubscription.findUnique({ where: { id } });
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Webhook nicht gefunden' });
     return;
   }
+  await prisma.webhookSubscription.delete({ where: { id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'WebhookSubscription', entityId: id, before: existing });
+  res.status(204).send();
+});
 
-  const isAdmin = actor?.role === 'admin';
-  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
-    res.status(403).json({ error: 'forbidden', message: 'Floorplan is not visible for current tenant' });
+app.get('/admin/webhooks/:id/deliveries', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+  const status = typeof req.query.status === 'string' && req.query.status ? req.query.status.toUpperCase() : null;
+  if (status && status !== 'PENDING' && status !== 'SENT' && status !== 'FAILED') {
+    res.status(400).json({ error: 'validation', message: 'status muss PENDING, SENT oder FAILED sein' });
     return;
   }
+  const page = Math.max(Number.parseInt(String(req.query.page ?? '1'), 10) || 1, 1);
+  const pageSize = Math.min(Math.max(Number.parseInt(String(req.query.pageSize ?? '50'), 10) || 50, 1), 200);
 
-  const desks = await prisma.desk.findMany({
-    where: { floorplanId: req.params.id },
-    include: { floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } },
-    orderBy: { createdAt: 'asc' }
+  if (!await prisma.webhookSubscription.findUnique({ where: { id }, select: { id: true } })) {
+    res.status(404).json({ error: 'not_found', message: 'Webhook nicht gefunden' });
+    return;
+  }
+  const where: Prisma.WebhookDeliveryWhereInput = { subscriptionId: id, ...(status ? { status: status as 'PENDING' | 'SENT' | 'FAILED' } : {}) };
+  const [total, deliveries] = await Promise.all([
+    prisma.webhookDelivery.count({ where }),
+    prisma.webhookDelivery.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], skip: (page - 1) * pageSize, take: pageSize })
+  ]);
+  res.status(200).json({
+    items: deliveries.map(mapWebhookDeliveryResponse),
+    meta: { total, page, pageSize, totalPages: total === 0 ? 1 : Math.ceil(total / pageSize) }
   });
-
-  const visibleDesks = isAdmin
-    ? desks
-    : desks.filter((desk) => isDeskAccessibleForTenant(desk, actor?.tenantDomainId ?? null, actor?.id ?? null));
-
-  res.status(200).json(visibleDesks.map((desk) => ({
-    id: desk.id,
-    floorplanId: desk.floorplanId,
-    name: desk.name,
-    kind: desk.kind,
-    hasCharger: desk.hasCharger,
-    allowSeriesOverride: desk.allowSeriesOverride,
-    effectiveAllowSeries: resolveEffectiveAllowSeries(desk),
-    tenantScope: desk.tenantScope,
-    tenantIds: desk.deskTenants.map((entry) => entry.tenantId),
-    employeeScope: desk.employeeScope,
-    employeeIds: desk.deskEmployees.map((entry) => entry.employeeId),
-    isBookableForMe: isDeskAccessibleForTenant(desk, actor?.tenantDomainId ?? null, actor?.id ?? null),
-    position: desk.x === null || desk.y === null ? null : { x: desk.x, y: desk.y },
-    x: desk.x,
-    y: desk.y,
-    createdAt: desk.createdAt
-  })));
 });
 
-app.post('/bookings', async (req, res) => {
-  const { deskId, userEmail, date, replaceExisting, overwrite, daySlot, slot, startTime, endTime, bookedFor, guestName } = req.body as {
-    deskId?: string;
-    userEmail?: string;
-    date?: string;
-    replaceExisting?: boolean;
-    overwrite?: boolean;
-    daySlot?: string;
-    slot?: string;
-    startTime?: string;
-    endTime?: string;
-    bookedFor?: string;
-    guestName?: string;
-  };
-  const requestId = bookingRequestId();
-  logBookingEvent('MANUAL_CREATE_REQUEST_RECEIVED', {
-    requestId,
-    actorEmail: req.authUser?.email ?? null,
-    actorRole: req.authUser?.role ?? null,
-    deskId: deskId ?? null,
-    date: date ?? null,
-    bookingModeRaw: bookedFor ?? null,
-    userEmailRaw: userEmail ?? null,
-    slotRaw: slot ?? null,
-    daySlotRaw: daySlot ?? null,
-    startTimeRaw: startTime ?? null,
-    endTimeRaw: endTime ?? null,
-    overwriteRequested: overwrite ?? replaceExisting ?? false
-  });
+// Replays send the original payload again as a new delivery, so the receiver sees a fresh delivery id but the same event id.
+app.post('/admin/webhook-deliveries/:id/replay', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
 
-  if (!deskId || !date) {
-    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'deskId/date missing', deskId: deskId ?? null, date: date ?? null }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'deskId and date are required' });
+  const original = await prisma.webhookDelivery.findUnique({ where: { id } });
+  if (!original) {
+    res.status(404).json({ error: 'not_found', message: 'Zustellung nicht gefunden' });
     return;
   }
+  const replay = await prisma.webhookDelivery.create({
+    data: { subscriptionId: original.subscriptionId, event: original.event, payload: original.payload as Prisma.InputJsonValue, replayOfId: original.id }
+  });
+  console.info('[MUT] WEBHOOK_REPLAY', { requestId: req.requestId ?? 'unknown', deliveryId: original.id, replayId: replay.id });
+  void dispatchWebhookDeliveries();
+  res.status(201).json(mapWebhookDeliveryResponse(replay));
+});
 
-  const currentUser = req.authUser;
-  if (!currentUser) {
-    logBookingEvent('MANUAL_CREATE_UNAUTHORIZED', { requestId, reason: 'auth user missing' }, 'warn');
-    res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
+const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true
+} satisfies Prisma.ApiTokenSelect;
+
+const serviceAccountInclude = {
+  tokens: { select: apiTokenSelect, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }] }
+} satisfies Prisma.ServiceAccountInclude;
+
+const parseServiceAccountDescription = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value.trim().slice(0, 500) : null);
+
+app.get('/admin/service-accounts', requireAdmin, requireSessionAuth, async (_req, res) => {
+  res.status(200).json(await prisma.serviceAccount.findMany({ include: serviceAccountInclude, orderBy: { name: 'asc' } }));
+});
+
+app.post('/admin/service-accounts', requireAdmin, requireSessionAuth, async (req, res) => {
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, 80) : '';
+  if (!name) {
+    res.status(400).json({ error: 'validation', message: 'name ist erforderlich' });
     return;
   }
 
-  let actorEmployee;
   try {
-    actorEmployee = await requireActorEmployee(req);
+    const created = await prisma.serviceAccount.create({ data: { name, description: parseServiceAccountDescription(req.body?.description) }, include: serviceAccountInclude });
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'ServiceAccount', entityId: created.id, after: created });
+    res.status(201).json(created);
   } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 403;
-    logBookingEvent('MANUAL_CREATE_ACTOR_RESOLUTION_FAILED', { requestId, status, error: (error as Error).message }, 'warn');
-    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'conflict', message: 'Es gibt bereits ein Dienstkonto mit diesem Namen' });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.patch('/admin/service-accounts/:id', requireAdmin, requireSessionAuth, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const bookingMode = parseBookedFor(bookedFor);
-  const normalizedGuestName = normalizeGuestName(guestName);
-  if (bookingMode === 'GUEST') {
-    if (!normalizedGuestName || normalizedGuestName.length < 2) {
-      logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'guestName too short', bookingMode, guestNameLength: normalizedGuestName?.length ?? 0 }, 'warn');
-      res.status(400).json({ error: 'validation', message: 'guestName muss mindestens 2 Zeichen haben.' });
+  const data: Prisma.ServiceAccountUpdateInput = {};
+  if (Object.prototype.hasOwnProperty.call(req.body ?? {}, 'name')) {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim().slice(0, 80) : '';
+    if (!name) {
+      res.status(400).json({ error: 'validation', message: 'name darf nicht leer sein' });
       return;
     }
-  } else if (normalizedGuestName) {
-    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'guestName for SELF booking', bookingMode }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'guestName is only allowed for guest bookings' });
+    data.name = name;
+  }
+  if (Object.prototype.hasOwnProperty.call(req.body ?? {}, 'description')) data.description = parseServiceAccountDescription(req.body.description);
+  if (Object.prototype.hasOwnProperty.call(req.body ?? {}, 'isActive')) {
+    if (typeof req.body.isActive !== 'boolean') {
+      res.status(400).json({ error: 'validation', message: 'isActive muss ein Boolean sein' });
+      return;
+    }
+    data.isActive = req.body.isActive;
+  }
+  if (Object.keys(data).length === 0) {
+    res.status(400).json({ error: 'validation', message: 'name, description oder isActive muss angegeben werden' });
     return;
   }
 
+  const before = await prisma.serviceAccount.findUnique({ where: { id } });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Dienstkonto nicht gefunden' });
+    return;
+  }
+  try {
+    const updated = await prisma.serviceAccount.update({ where: { id }, data, include: serviceAccountInclude });
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'ServiceAccount', entityId: id, before, after: updated });
+    res.status(200).json(updated);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'conflict', message: 'Es gibt bereits ein Dienstkonto mit diesem Namen' });
+      return;
+    }
+    throw error;
+  }
+});
 
-  const parsedDate = toDateOnly(date);
-  if (!parsedDate) {
-    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'invalid date format', date }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
+app.delete('/admin/service-accounts/:id', requireAdmin, requireSessionAuth, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const desk = await getDeskContext(deskId);
-  if (!desk) {
-    logBookingEvent('MANUAL_CREATE_NOT_FOUND', { requestId, reason: 'desk not found', deskId }, 'warn');
-    res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+  const existing = await prisma.serviceAccount.findUnique({ where: { id }, include: serviceAccountInclude });
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Dienstkonto nicht gefunden' });
     return;
   }
+  await prisma.serviceAccount.delete({ where: { id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'ServiceAccount', entityId: id, before: existing });
+  res.status(204).send();
+});
 
-  const targetEmailForTenantCheck = userEmail ?? actorEmployee.email;
-  const accessIdentity = await findBookingIdentity(targetEmailForTenantCheck);
-  const identity = bookingMode === 'SELF' ? accessIdentity : null;
-  const tenantDomainIdForAccess = req.authUser?.role === 'admin'
-    ? accessIdentity.tenantDomainId ?? actorEmployee.tenantDomainId
-    : actorEmployee.tenantDomainId;
+app.post('/admin/service-accounts/:id/tokens', requireAdmin, requireSessionAuth, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
 
-  logBookingEvent('MANUAL_CREATE_ACCESS_CONTEXT', {
-    requestId,
-    bookingMode,
-    actorEmployeeId: actorEmployee.id,
-    actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
-    targetEmailForTenantCheck,
-    accessIdentityTenantDomainId: accessIdentity.tenantDomainId,
-    accessIdentityEmployeeId: accessIdentity.employeeId,
-    effectiveTenantDomainIdForAccess: tenantDomainIdForAccess ?? null,
-    deskTenantScope: desk.tenantScope,
-    deskTenantIds: desk.deskTenants.map((entry) => entry.tenantId),
-    floorplanTenantScope: desk.floorplan?.tenantScope ?? null,
-    floorplanTenantIds: desk.floorplan?.floorplanTenants.map((entry) => entry.tenantId) ?? []
-  }, 'debug');
+  const parsed = parseApiTokenInput(req.body, { allowAdminScope: true, allowWriteScope: false, now: new Date() });
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
+    return;
+  }
+  if (!await prisma.serviceAccount.findUnique({ where: { id }, select: { id: true } })) {
+    res.status(404).json({ error: 'not_found', message: 'Dienstkonto nicht gefunden' });
+    return;
+  }
 
-  if (!isDeskAccessibleForTenant(desk, tenantDomainIdForAccess, identity?.employeeId ?? actorEmployee.id)) {
-    logBookingEvent('MANUAL_CREATE_FORBIDDEN_TENANT_MISMATCH', {
-      requestId,
-      deskId,
-      tenantDomainIdForAccess: tenantDomainIdForAccess ?? null,
-      actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
-      accessIdentityTenantDomainId: accessIdentity.tenantDomainId,
-      bookingMode
-    }, 'warn');
-    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht buchbar' });
+  const { token, tokenPrefix, tokenHash } = createApiToken();
+  const created = await prisma.apiToken.create({ data: { ...parsed.value, tokenPrefix, tokenHash, serviceAccountId: id }, select: apiTokenSelect });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'ApiToken', entityId: created.id, after: { ...created, serviceAccountId: id } });
+  res.status(201).json({ ...created, token });
+});
+
+// Overview of personal tokens so admins can revoke them, e.g. when someone leaves.
+app.get('/admin/api-tokens', requireAdmin, requireSessionAuth, async (_req, res) => {
+  const tokens = await prisma.apiToken.findMany({
+    where: { employeeId: { not: null } },
+    select: { ...apiTokenSelect, employee: { select: { id: true, displayName: true, email: true } } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+  });
+  res.status(200).json(tokens);
+});
+
+app.delete('/admin/api-tokens/:id', requireAdmin, requireSessionAuth, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const existing = id ? await prisma.apiToken.findUnique({ where: { id }, select: { ...apiTokenSelect, employeeId: true, serviceAccountId: true } }) : null;
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'API-Token nicht gefunden' });
     return;
   }
+  if (!existing.revokedAt) {
+    const revoked = await prisma.apiToken.update({ where: { id: existing.id }, data: { revokedAt: new Date() }, select: apiTokenSelect });
+    await recordAuditEvent(req, { action: 'REVOKE', entityType: 'ApiToken', entityId: existing.id, before: existing, after: revoked });
+  }
+  res.status(204).send();
+});
 
-  const bookingWindowResult = resolveBookingWindow({ deskKind: desk.kind, daySlot, slot, startTime, endTime });
-  if (!bookingWindowResult.ok) {
-    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'invalid booking window', message: bookingWindowResult.message }, 'warn');
-    res.status(400).json({ error: 'validation', message: bookingWindowResult.message });
+const mapRoomDisplay = (display: RoomDisplayWithDesk & { createdByEmployee: { id: string; displayName: string } }) => ({
+  id: display.id,
+  name: display.name,
+  tokenPrefix: display.tokenPrefix,
+  allowShortBookings: display.allowShortBookings,
+  lastSeenAt: display.lastSeenAt,
+  createdAt: display.createdAt,
+  room: { id: display.desk.id, name: display.desk.name, floorplanName: display.desk.floorplan.name },
+  createdBy: display.createdByEmployee
+});
+
+app.get('/admin/room-displays', requireAdmin, requireSessionAuth, async (_req, res) => {
+  const displays = await prisma.roomDisplay.findMany({
+    include: { ...roomDisplayInclude, createdByEmployee: { select: { id: true, displayName: true } } },
+    orderBy: [{ desk: { name: 'asc' } }, { createdAt: 'asc' }]
+  });
+  res.status(200).json(displays.map(mapRoomDisplay));
+});
+
+// Like API tokens, the device token is only returned once; admins set up the tablet with it right away.
+app.post('/admin/room-displays', requireAdmin, requireSessionAuth, async (req, res) => {
+  const parsed = parseRoomDisplayInput(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
     return;
   }
 
-  const bookingWindow = bookingWindowResult.value;
-  const shouldReplaceExisting = overwrite ?? replaceExisting ?? false;
-  const result = await prisma.$transaction(async (tx) => {
-    if (identity) {
-      await acquireBookingLock(tx, bookingUserKeyForDate(identity.userKey, parsedDate));
-    }
-    await acquireBookingLock(tx, bookingDeskKeyForDate(deskId, parsedDate));
+  const desk = await prisma.desk.findUnique({ where: { id: parsed.value.deskId }, select: { kind: true } });
+  if (!desk) {
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
+  if (desk.kind !== 'RAUM') {
+    res.status(400).json({ error: 'validation', message: 'Raumdisplays gibt es nur für Räume' });
+    return;
+  }
 
-    const userKindBookings = identity
-      ? (await tx.booking.findMany({
-        where: {
-          date: parsedDate,
-          bookedFor: 'SELF',
-          userEmail: { in: identity.emailAliases },
-          desk: { kind: desk.kind }
-        },
-        include: { desk: { select: { name: true, kind: true } } },
-        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
-      }))
-      : [];
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    res.status(403).json({ error: 'forbidden', message: error instanceof Error ? error.message : 'Mitarbeiter nicht gefunden' });
+    return;
+  }
 
-    const conflictingUserBookings = userKindBookings.filter((booking) => {
-        const candidateWindow = bookingToWindow(booking);
-        return candidateWindow ? windowsOverlap(bookingWindow, candidateWindow) : false;
-      });
+  const { token, tokenPrefix, tokenHash } = createRoomDisplayToken();
+  const created = await prisma.roomDisplay.create({
+    data: { ...parsed.value, tokenPrefix, tokenHash, createdByEmployeeId: actorEmployee.id },
+    include: { ...roomDisplayInclude, createdByEmployee: { select: { id: true, displayName: true } } }
+  });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'RoomDisplay', entityId: created.id, after: created });
+  console.info('[MUT] ROOM_DISPLAY_CREATE', { requestId: req.requestId, roomDisplayId: created.id, deskId: created.deskId });
+  res.status(201).json({ ...mapRoomDisplay(created), token });
+});
 
-    const existingUserBooking = conflictingUserBookings[0] ?? null;
-    if (identity && existingUserBooking && !shouldReplaceExisting) {
-      logBookingEvent('MANUAL_CREATE_CONFLICT_USER_HAS_BOOKING', {
-        requestId,
-        deskId,
-        existingBookingId: existingUserBooking.id,
-        existingDeskId: existingUserBooking.deskId,
-        existingDeskName: existingUserBooking.desk?.name ?? existingUserBooking.deskId,
-        shouldReplaceExisting
-      }, 'warn');
-      return {
-        kind: 'conflict' as const,
-        message: desk.kind === 'PARKPLATZ'
-          ? 'User already has a parking booking for this time window'
-          : 'User already has a booking for this date and resource kind',
-        details: {
-          conflictKind: desk.kind,
-          existingBooking: {
-            id: existingUserBooking.id,
-            deskId: existingUserBooking.deskId,
-            deskName: existingUserBooking.desk?.name ?? existingUserBooking.deskId,
-            daySlot: existingUserBooking.daySlot ?? bookingSlotToDaySlot(existingUserBooking.slot)
-          },
-          requestedDesk: { id: deskId, name: desk.name },
-          date
-        }
-      };
-    }
+app.delete('/admin/room-displays/:id', requireAdmin, requireSessionAuth, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const existing = id ? await prisma.roomDisplay.findUnique({ where: { id } }) : null;
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Raumdisplay nicht gefunden' });
+    return;
+  }
+  await prisma.roomDisplay.delete({ where: { id: existing.id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'RoomDisplay', entityId: existing.id, before: existing });
+  console.info('[MUT] ROOM_DISPLAY_DELETE', { requestId: req.requestId, roomDisplayId: existing.id });
+  res.status(204).send();
+});
 
-    const ignoredBookingIds = new Set<string>(conflictingUserBookings.map((booking) => booking.id));
-    const deskBookings = await tx.booking.findMany({ where: { deskId, date: parsedDate }, orderBy: [{ createdAt: 'desc' }] });
-    const targetDeskBooking = deskBookings.find((candidate) => {
-      const candidateWindow = bookingToWindow(candidate);
-      return candidateWindow ? windowsOverlap(bookingWindow, candidateWindow) && !ignoredBookingIds.has(candidate.id) : false;
-    });
+const findClosureCollisions = async (closure: ClosureRule) => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      date: { gte: toDateOnly(closure.startDate)!, lte: toDateOnly(closure.endDate)! },
+      desk: closure.deskId ? { id: closure.deskId } : { floorplanId: closure.floorplanId }
+    },
+    include: {
+      createdByEmployee: { select: { id: true, displayName: true, email: true } },
+      employee: { select: { displayName: true } },
+      desk: { select: { id: true, name: true, floorplanId: true } }
+    },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
+  });
+  return bookings.filter((booking) => {
+    const window = bookingToWindow(booking);
+    return window ? findClosureForWindow([closure], booking.desk, booking.date, window) !== null : false;
+  });
+};
 
-    if (targetDeskBooking) {
-      logBookingEvent('MANUAL_CREATE_CONFLICT_DESK_ALREADY_BOOKED', {
-        requestId,
-        deskId,
-        conflictingBookingId: targetDeskBooking.id,
-        shouldReplaceExisting
-      }, 'warn');
-      return { kind: 'conflict' as const, message: 'Desk is already booked for this Zeitraum', details: { deskId, date, bookingId: targetDeskBooking.id } };
-    }
+const mapClosureCollision = (booking: Awaited<ReturnType<typeof findClosureCollisions>>[number]) => ({
+  ...mapBookingResponse(booking),
+  deskName: booking.desk.name,
+  employeeName: booking.bookedFor === 'GUEST' ? booking.guestName : booking.employee?.displayName ?? booking.userEmail
+});
 
-    const bookingsToReplace = shouldReplaceExisting
-      ? (desk.kind === 'PARKPLATZ' ? userKindBookings : conflictingUserBookings)
-      : [];
+app.get('/admin/closures', requireAdmin, async (req, res) => {
+  const floorplanId = typeof req.query.floorplanId === 'string' && req.query.floorplanId ? req.query.floorplanId : undefined;
+  const rows = await prisma.closurePeriod.findMany({
+    where: floorplanId ? { floorplanId } : {},
+    orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }]
+  });
+  res.status(200).json(rows.map((row) => mapClosureResponse(toClosureRule(row))));
+});
 
-    if (identity && bookingsToReplace.length > 0) {
-      await tx.booking.deleteMany({ where: { id: { in: bookingsToReplace.map((booking) => booking.id) } } });
-    }
+app.post('/admin/closures', requireAdmin, async (req, res) => {
+  const { floorplanId, deskId, startDate, endDate, startTime, endTime, reason } = req.body as {
+    floorplanId?: string;
+    deskId?: string | null;
+    startDate?: string;
+    endDate?: string | null;
+    startTime?: string | null;
+    endTime?: string | null;
+    reason?: string;
+  };
 
-    const created = await tx.booking.create({
-      data: {
-        deskId,
-        userEmail: bookingMode === 'SELF' ? (identity?.normalizedEmail ?? actorEmployee.email) : null,
-        employeeId: bookingMode === 'SELF' ? (identity?.employeeId ?? null) : null,
-        bookedFor: bookingMode,
-        guestName: bookingMode === 'GUEST' ? normalizedGuestName : null,
-        createdByEmployeeId: actorEmployee.id,
-        createdByUserId: currentUser.source === 'local' ? currentUser.id : null,
-        createdByEmail: currentUser.email,
-        date: parsedDate,
-        daySlot: bookingWindow.mode === 'day' ? bookingWindow.daySlot : null,
-        startTime: bookingWindow.mode === 'time' ? new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(bookingWindow.startMinute / 60), bookingWindow.startMinute % 60, 0, 0)) : null,
-        endTime: bookingWindow.mode === 'time' ? new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(bookingWindow.endMinute / 60), bookingWindow.endMinute % 60, 0, 0)) : null,
-        slot: bookingWindow.mode === 'day' ? (bookingWindow.daySlot === 'FULL' ? 'FULL_DAY' : bookingWindow.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM',
-        startMinute: bookingWindow.mode === 'time' ? bookingWindow.startMinute : null,
-        endMinute: bookingWindow.mode === 'time' ? bookingWindow.endMinute : null
-      },
-      include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } }
-    });
+  const normalizedReason = typeof reason === 'string' ? reason.trim() : '';
+  const parsedStart = typeof startDate === 'string' ? toDateOnly(startDate) : null;
+  const parsedEnd = typeof endDate === 'string' && endDate ? toDateOnly(endDate) : parsedStart;
+  if (!normalizedReason || !parsedStart || !parsedEnd) {
+    res.status(400).json({ error: 'validation', message: 'reason und startDate (YYYY-MM-DD) sind erforderlich' });
+    return;
+  }
+  if (parsedEnd < parsedStart) {
+    res.status(400).json({ error: 'validation', message: 'Das Enddatum darf nicht vor dem Startdatum liegen' });
+    return;
+  }
 
-    if (process.env.DEBUG === '1') {
-      console.info('BOOKING_CREATE', {
-        actorEmployeeId: actorEmployee.id,
-        bookedFor: bookingMode,
-        employeeId: created.employeeId ?? null,
-        guestName: bookingMode === 'GUEST' ? normalizedGuestName : null,
-        createdByEmployeeId: created.createdByEmployeeId
-      });
+  const startMinute = startTime ? parseTimeToMinute(startTime) : null;
+  const endMinute = endTime ? parseTimeToMinute(endTime) : null;
+  if (Boolean(startTime) !== Boolean(endTime) || (startTime && (startMinute === null || endMinute === null || endMinute <= startMinute))) {
+    res.status(400).json({ error: 'validation', message: 'startTime und endTime (HH:MM) müssen zusammen gesetzt sein und endTime muss nach startTime liegen' });
+    return;
+  }
+
+  let resolvedFloorplanId = typeof floorplanId === 'string' ? floorplanId : '';
+  if (deskId) {
+    const desk = await prisma.desk.findUnique({ where: { id: deskId }, select: { floorplanId: true } });
+    if (!desk) {
+      res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+      return;
     }
+    resolvedFloorplanId = desk.floorplanId;
+  }
+  const floorplan = resolvedFloorplanId ? await prisma.floorplan.findUnique({ where: { id: resolvedFloorplanId }, select: { id: true } }) : null;
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
 
-    logBookingEvent('MANUAL_CREATE_SUCCESS', {
-      requestId,
-      bookingId: created.id,
-      deskId,
-      date: toISODateOnly(parsedDate),
-      bookingMode,
-      createdForEmployeeId: created.employeeId ?? null,
-      createdForEmail: created.userEmail ?? null,
-      createdByEmployeeId: created.createdByEmployeeId,
-      slot: created.slot,
-      startMinute: created.startMinute,
-      endMinute: created.endMinute
-    });
+  let actorEmployeeId: string | null = null;
+  try {
+    actorEmployeeId = (await requireActorEmployee(req)).id;
+  } catch {
+    actorEmployeeId = null;
+  }
 
-    return { kind: 'ok' as const, status: 201, booking: created };
+  const created = await prisma.closurePeriod.create({
+    data: {
+      floorplanId: floorplan.id,
+      deskId: deskId || null,
+      startDate: parsedStart,
+      endDate: parsedEnd,
+      startMinute,
+      endMinute,
+      reason: normalizedReason,
+      createdByEmployeeId: actorEmployeeId
+    }
   });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'ClosurePeriod', entityId: created.id, after: created });
 
-  if (result.kind === 'conflict') {
-    logBookingEvent('MANUAL_CREATE_RESPONSE_CONFLICT', { requestId, message: result.message, details: result.details }, 'warn');
-    sendConflict(res, result.message, result.details);
+  const closure = toClosureRule(created);
+  const collisions = await findClosureCollisions(closure);
+  res.status(201).json({ closure: mapClosureResponse(closure), collisions: collisions.map(mapClosureCollision) });
+});
+
+app.get('/admin/closures/:id/collisions', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const row = id ? await prisma.closurePeriod.findUnique({ where: { id } }) : null;
+  if (!row) {
+    res.status(404).json({ error: 'not_found', message: 'Sperrzeit nicht gefunden' });
     return;
   }
 
-  res.status(result.status).json(mapBookingResponse(result.booking));
+  const collisions = await findClosureCollisions(toClosureRule(row));
+  res.status(200).json({ closure: mapClosureResponse(toClosureRule(row)), collisions: collisions.map(mapClosureCollision) });
 });
 
-
-app.put('/bookings/:id', async (req, res) => {
+app.post('/admin/closures/:id/cancel-bookings', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
-  const { deskId, date, daySlot, slot, startTime, endTime, guestName } = req.body as { deskId?: string; date?: string; daySlot?: string; slot?: string; startTime?: string; endTime?: string; guestName?: string };
-  const requestId = bookingRequestId();
-  logBookingEvent('MANUAL_UPDATE_REQUEST_RECEIVED', {
-    requestId,
-    bookingId: id ?? null,
-    deskId: deskId ?? null,
-    date: date ?? null,
-    actorEmail: req.authUser?.email ?? null,
-    actorRole: req.authUser?.role ?? null
-  });
-  if (!id || !deskId) {
-    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'id/deskId missing', bookingId: id ?? null, deskId: deskId ?? null }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'id and deskId are required' });
+  const row = id ? await prisma.closurePeriod.findUnique({ where: { id } }) : null;
+  if (!row) {
+    res.status(404).json({ error: 'not_found', message: 'Sperrzeit nicht gefunden' });
     return;
   }
 
-  if (date) {
-    const parsedDate = toDateOnly(date);
-    if (!parsedDate) {
-      logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'invalid date format', date }, 'warn');
-      res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
-      return;
-    }
+  const requestedIds = Array.isArray(req.body?.bookingIds)
+    ? new Set((req.body.bookingIds as unknown[]).filter((value): value is string => typeof value === 'string'))
+    : null;
+  const collisions = (await findClosureCollisions(toClosureRule(row))).filter((booking) => !requestedIds || requestedIds.has(booking.id));
+  if (collisions.length === 0) {
+    res.status(200).json({ cancelledCount: 0, bookingIds: [] });
+    return;
   }
 
-  const existing = await prisma.booking.findUnique({ where: { id } });
+  const actor = await resolveAuditActor(req);
+  const deleted = await prisma.$transaction(async (tx) => {
+    await enqueueBookingMails(tx, collisions, actor, (details, actorName) => ({ kind: 'BOOKING_CANCELLED', booking: details, actorName, reason: row.reason }));
+    await enqueueBookingWebhooks(tx, 'booking.cancelled', collisions, { actor, reason: 'closure' });
+    return tx.booking.deleteMany({ where: { id: { in: collisions.map((booking) => booking.id) } } });
+  });
+  console.info('[MUT] CLOSURE_CANCEL_BOOKINGS', { requestId: req.requestId ?? 'unknown', closureId: row.id, cancelledCount: deleted.count });
+  void removeGraphCalendarEvents(collisions);
+  flushOutboxes();
+  await recordAuditEvents(req, collisions.map((booking) => ({
+    action: 'CANCEL' as const,
+    entityType: 'Booking',
+    entityId: booking.id,
+    before: booking,
+    after: { closureId: row.id, reason: row.reason }
+  })));
+  res.status(200).json({ cancelledCount: deleted.count, bookingIds: collisions.map((booking) => booking.id) });
+});
+
+app.delete('/admin/closures/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const existing = id ? await prisma.closurePeriod.findUnique({ where: { id } }) : null;
   if (!existing) {
-    logBookingEvent('MANUAL_UPDATE_NOT_FOUND', { requestId, reason: 'booking not found', bookingId: id }, 'warn');
-    res.status(404).json({ error: 'not_found', message: 'Booking not found' });
+    res.status(404).json({ error: 'not_found', message: 'Sperrzeit nicht gefunden' });
+    return;
+  }
+
+  await prisma.closurePeriod.delete({ where: { id: existing.id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'ClosurePeriod', entityId: existing.id, before: existing });
+  res.status(204).send();
+});
+
+app.get('/admin/booking-policies', requireAdmin, async (_req, res) => {
+  const policies = await prisma.bookingPolicy.findMany({ orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] });
+  res.status(200).json(policies);
+});
+
+app.post('/admin/booking-policies', requireAdmin, async (req, res) => {
+  const parsed = parseBookingPolicyInput(req.body ?? {});
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
     return;
   }
 
-  let actorEmployee;
   try {
-    actorEmployee = await requireActorEmployee(req);
+    const created = await prisma.bookingPolicy.create({ data: parsed.value });
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'BookingPolicy', entityId: created.id, after: created });
+    res.status(201).json(created);
   } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 403;
-    logBookingEvent('MANUAL_UPDATE_ACTOR_RESOLUTION_FAILED', { requestId, status, error: (error as Error).message }, 'warn');
-    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      res.status(400).json({ error: 'validation', message: 'floorplanId oder tenantId existiert nicht' });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.put('/admin/booking-policies/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  if (req.authUser?.role !== 'admin' && !canCancelBooking({ booking: { bookedFor: existing.bookedFor, employeeId: existing.employeeId, createdByEmployeeId: existing.createdByEmployeeId }, actor: { employeeId: actorEmployee.id, email: req.authUser?.email ?? '', isAdmin: false } })) {
-    logBookingEvent('MANUAL_UPDATE_FORBIDDEN_BY_POLICY', { requestId, reason: 'cannot update booking of another user', actorEmployeeId: actorEmployee.id, bookingId: existing.id }, 'warn');
-    res.status(403).json({ error: 'forbidden', message: 'Cannot update booking of another user' });
+  const parsed = parseBookingPolicyInput(req.body ?? {});
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
     return;
   }
 
-  const nextDesk = await getDeskContext(deskId);
-  if (!nextDesk) {
-    logBookingEvent('MANUAL_UPDATE_NOT_FOUND', { requestId, reason: 'desk not found', deskId }, 'warn');
-    res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+  const before = await prisma.bookingPolicy.findUnique({ where: { id } });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Buchungsregel nicht gefunden' });
     return;
   }
 
-  const targetTenantIdentity = existing.bookedFor === 'SELF' && existing.userEmail
-    ? await findBookingIdentity(existing.userEmail)
-    : null;
-  const tenantDomainIdForAccess = req.authUser?.role === 'admin'
-    ? targetTenantIdentity?.tenantDomainId ?? actorEmployee.tenantDomainId
-    : actorEmployee.tenantDomainId;
-  logBookingEvent('MANUAL_UPDATE_ACCESS_CONTEXT', {
-    requestId,
-    bookingId: existing.id,
-    existingBookedFor: existing.bookedFor,
-    existingUserEmail: existing.userEmail ?? null,
-    actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
-    targetTenantDomainId: targetTenantIdentity?.tenantDomainId ?? null,
-    effectiveTenantDomainIdForAccess: tenantDomainIdForAccess ?? null,
-    deskTenantScope: nextDesk.tenantScope,
-    deskTenantIds: nextDesk.deskTenants.map((entry) => entry.tenantId),
-    floorplanTenantScope: nextDesk.floorplan?.tenantScope ?? null,
-    floorplanTenantIds: nextDesk.floorplan?.floorplanTenants.map((entry) => entry.tenantId) ?? []
-  }, 'debug');
+  try {
+    const updated = await prisma.bookingPolicy.update({ where: { id }, data: parsed.value });
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'BookingPolicy', entityId: id, before, after: updated });
+    res.status(200).json(updated);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      res.status(400).json({ error: 'validation', message: 'floorplanId oder tenantId existiert nicht' });
+      return;
+    }
+    throw error;
+  }
+});
 
-  if (!isDeskAccessibleForTenant(nextDesk, tenantDomainIdForAccess, targetTenantIdentity?.employeeId ?? actorEmployee.id)) {
-    logBookingEvent('MANUAL_UPDATE_FORBIDDEN_TENANT_MISMATCH', {
-      requestId,
-      bookingId: existing.id,
-      deskId,
-      actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
-      targetTenantDomainId: targetTenantIdentity?.tenantDomainId ?? null,
-      tenantDomainIdForAccess: tenantDomainIdForAccess ?? null
-    }, 'warn');
-    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht buchbar' });
+app.delete('/admin/booking-policies/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const bookingDate = date ? toDateOnly(date) ?? existing.date : existing.date;
-
-  if (date && bookingDate.getTime() !== existing.date.getTime()) {
-    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'date mismatch existing booking', bookingDate: toISODateOnly(bookingDate), existingDate: toISODateOnly(existing.date) }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'date does not match existing booking date' });
+  const existing = await prisma.bookingPolicy.findUnique({ where: { id } });
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Buchungsregel nicht gefunden' });
     return;
   }
 
-  const bookingWindowResult = resolveBookingWindow({ deskKind: nextDesk.kind, daySlot: typeof daySlot === 'undefined' ? (existing.daySlot ?? bookingSlotToDaySlot(existing.slot)) : daySlot, slot: typeof slot === 'undefined' ? existing.slot : slot, startTime: typeof startTime === 'undefined' ? minuteToHHMM(existing.startMinute) : startTime, endTime: typeof endTime === 'undefined' ? minuteToHHMM(existing.endMinute) : endTime });
-  if (!bookingWindowResult.ok) {
-    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'invalid booking window', message: bookingWindowResult.message }, 'warn');
-    res.status(400).json({ error: 'validation', message: bookingWindowResult.message });
+  await prisma.bookingPolicy.delete({ where: { id } });
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'BookingPolicy', entityId: id, before: existing });
+  res.status(204).send();
+});
+
+app.post('/feedback-reports', requireAuthenticated, async (req, res) => {
+  const type = parseFeedbackReportType(req.body?.type);
+  const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+  const screenshot = parseFeedbackScreenshot(req.body?.screenshotDataUrl);
+
+  if (!type) {
+    res.status(400).json({ error: 'invalid_type', message: 'type muss BUG oder FEATURE_REQUEST sein' });
     return;
   }
 
-  const nextGuestName = existing.bookedFor === 'GUEST' ? normalizeGuestName(typeof guestName === 'undefined' ? existing.guestName : guestName) : null;
-  if (existing.bookedFor === 'GUEST' && (!nextGuestName || nextGuestName.length < 2)) {
-    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'guestName too short', bookingId: existing.id, guestNameLength: nextGuestName?.length ?? 0 }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'guestName muss mindestens 2 Zeichen haben.' });
+  if (message.length < 10 || message.length > 2000) {
+    res.status(400).json({ error: 'invalid_message', message: 'message muss zwischen 10 und 2000 Zeichen lang sein' });
     return;
   }
 
-  if (existing.bookedFor === 'SELF' && !actorEmployee.id) {
-    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'missing actor employee id for self booking', bookingId: existing.id }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'employeeId is required for SELF bookings' });
+  if (req.body?.screenshotDataUrl !== undefined && !screenshot) {
+    res.status(400).json({ error: 'invalid_screenshot', message: 'screenshotDataUrl muss eine gültige PNG-, JPEG- oder WEBP-Data-URL bis 3 MB sein' });
     return;
   }
 
-  const nextWindow = bookingWindowResult.value;
-  const conflicts = await prisma.booking.findMany({ where: { deskId, date: bookingDate, id: { not: existing.id } }, orderBy: [{ createdAt: 'desc' }] });
-  const conflict = conflicts.find((candidate) => {
-    const candidateWindow = bookingToWindow(candidate);
-    return candidateWindow ? windowsOverlap(nextWindow, candidateWindow) : false;
-  });
-  if (conflict) {
-    logBookingEvent('MANUAL_UPDATE_CONFLICT_DESK_ALREADY_BOOKED', { requestId, bookingId: existing.id, conflictingBookingId: conflict.id, deskId, date: toISODateOnly(bookingDate) }, 'warn');
-    sendConflict(res, 'Desk is already booked for this date', { deskId, date: toISODateOnly(bookingDate), bookingId: conflict.id });
+  if (!req.authUser) {
+    res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
     return;
   }
 
-  if (nextDesk.kind === 'PARKPLATZ' && existing.bookedFor === 'SELF') {
-    const personalParkingConflicts = await prisma.booking.findMany({
-      where: {
-        date: bookingDate,
-        id: { not: existing.id },
-        bookedFor: 'SELF',
-        employeeId: actorEmployee.id,
-        desk: { kind: 'PARKPLATZ' }
+  const created = await prisma.feedbackReport.create({
+    data: {
+      type,
+      message,
+      screenshotData: screenshot ? (screenshot.bytes as unknown as Uint8Array<ArrayBuffer>) : undefined,
+      screenshotMimeType: screenshot?.mimeType,
+      reporterEmail: req.authUser.email,
+      reporterDisplayName: req.authUser.displayName,
+      reporterUserId: req.authUser.source === 'local' ? req.authUser.id : null,
+      reporterEmployeeId: req.authUser.source === 'entra' ? req.authUser.id : null
+    }
+  });
+
+  res.status(201).json({
+    id: created.id,
+    type: created.type,
+    message: created.message,
+    hasScreenshot: Boolean(created.screenshotData),
+    createdAt: created.createdAt.toISOString()
+  });
+});
+
+app.get('/admin/feedback-reports', requireAdmin, async (req, res) => {
+  const type = req.query.type ? parseFeedbackReportType(req.query.type) : null;
+  const status = req.query.status ? parseFeedbackReportStatus(req.query.status) : null;
+  if (req.query.type && !type) {
+    res.status(400).json({ error: 'invalid_type', message: 'type muss BUG oder FEATURE_REQUEST sein' });
+    return;
+  }
+
+  if (req.query.status && !status) {
+    res.status(400).json({ error: 'invalid_status', message: 'status muss IN_ARBEIT, ABGELEHNT oder ERLEDIGT sein' });
+    return;
+  }
+
+  const reporter = typeof req.query.reporter === 'string' ? req.query.reporter.trim() : '';
+  const sortDirection = req.query.sort === 'asc' ? 'asc' : 'desc';
+  const fromDate = typeof req.query.fromDate === 'string' ? toDateOnly(req.query.fromDate) : null;
+  const toDate = typeof req.query.toDate === 'string' ? toDateOnly(req.query.toDate) : null;
+
+  if (req.query.fromDate && !fromDate) {
+    res.status(400).json({ error: 'invalid_from_date', message: 'fromDate muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  if (req.query.toDate && !toDate) {
+    res.status(400).json({ error: 'invalid_to_date', message: 'toDate muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  const createdAtFilter: Prisma.DateTimeFilter = {};
+  if (fromDate) {
+    createdAtFilter.gte = fromDate;
+  }
+  if (toDate) {
+    const inclusiveEnd = new Date(toDate);
+    inclusiveEnd.setUTCDate(inclusiveEnd.getUTCDate() + 1);
+    createdAtFilter.lt = inclusiveEnd;
+  }
+
+  const reports = await prisma.feedbackReport.findMany({
+    where: {
+      ...(type ? { type } : {}),
+      ...(status ? { status } : {}),
+      ...(reporter ? {
+        OR: [
+          { reporterDisplayName: { contains: reporter, mode: 'insensitive' } },
+          { reporterEmail: { contains: reporter, mode: 'insensitive' } }
+        ]
+      } : {}),
+      ...(Object.keys(createdAtFilter).length > 0 ? { createdAt: createdAtFilter } : {})
+    },
+    orderBy: { createdAt: sortDirection },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      message: true,
+      reporterDisplayName: true,
+      reporterEmail: true,
+      screenshotMimeType: true,
+      createdAt: true
+    }
+  });
+
+  res.json({
+    reports: reports.map((report) => ({
+      id: report.id,
+      type: report.type,
+      status: report.status,
+      message: report.message,
+      reporterDisplayName: report.reporterDisplayName,
+      reporterEmail: report.reporterEmail,
+      hasScreenshot: Boolean(report.screenshotMimeType),
+      createdAt: report.createdAt.toISOString()
+    }))
+  });
+});
+
+app.get('/admin/feedback-reports/:id/screenshot', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const report = await prisma.feedbackReport.findUnique({
+    where: { id },
+    select: { screenshotData: true, screenshotMimeType: true, updatedAt: true }
+  });
+
+  if (!report?.screenshotData) {
+    res.status(404).json({ error: 'not_found', message: 'Screenshot nicht gefunden' });
+    return;
+  }
+
+  if (report.updatedAt) {
+    res.setHeader('Last-Modified', report.updatedAt.toUTCString());
+  }
+
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.setHeader('Content-Type', report.screenshotMimeType ?? 'image/png');
+  res.status(200).send(Buffer.from(report.screenshotData));
+});
+
+app.patch('/admin/feedback-reports/:id/status', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const status = parseFeedbackReportStatus(req.body?.status);
+  if (!status) {
+    res.status(400).json({ error: 'invalid_status', message: 'status muss IN_ARBEIT, ABGELEHNT oder ERLEDIGT sein' });
+    return;
+  }
+
+  try {
+    const updated = await prisma.feedbackReport.update({
+      where: { id },
+      data: { status }
+    });
+
+    res.status(200).json({
+      id: updated.id,
+      status: updated.status,
+      updatedAt: updated.updatedAt.toISOString()
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      res.status(404).json({ error: 'not_found', message: 'Feedback nicht gefunden' });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.delete('/admin/feedback-reports/:id', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  try {
+    await prisma.feedbackReport.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      res.status(404).json({ error: 'not_found', message: 'Feedback nicht gefunden' });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.get('/me', (req, res) => {
+  res.status(200).json({
+    id: req.authUser?.id,
+    email: req.authUser?.email,
+    displayName: req.authUser?.displayName,
+    role: req.authUser?.role
+  });
+});
+
+const CALENDAR_FEED_LOOKBACK_DAYS = 30;
+const CALENDAR_FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+const createCalendarFeedToken = (): string => crypto.randomBytes(24).toString('base64url');
+
+const calendarFeedPath = (token: string | null): string | null => (token ? `/calendar/${token}.ics` : null);
+
+const windowKey = (window: BookingWindowInput): string => (window.mode === 'day' ? window.daySlot : `${window.startMinute}-${window.endMinute}`);
+
+const calendarEventSummary = (resource: { name: string; kind: ResourceKind }, window: BookingWindowInput, guestName: string | null): string => {
+  const slotLabel = window.mode === 'day' ? daySlotCalendarLabel(window.daySlot) : null;
+  const base = `${resourceKindCalendarLabel(resource.kind)}: ${resource.name}${slotLabel ? ` (${slotLabel})` : ''}`;
+  return guestName ? `${base} – Gast: ${guestName}` : base;
+};
+
+// Series become one RRULE event each; instances that were cancelled turn into EXDATEs and
+// instances that were moved or changed stay separate events.
+const buildEmployeeCalendarEvents = async (employeeId: string): Promise<IcsEvent[]> => {
+  const from = new Date(getBerlinNow().date.getTime() - CALENDAR_FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const resourceSelect = { select: { name: true, kind: true, floorplan: { select: { name: true } } } } as const;
+
+  const [bookings, seriesList] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        date: { gte: from },
+        OR: [
+          { bookedFor: 'SELF', employeeId },
+          { bookedFor: 'GUEST', createdByEmployeeId: employeeId }
+        ]
       },
-      include: { desk: { select: { id: true, name: true } } },
-      orderBy: [{ createdAt: 'desc' }]
+      include: { desk: resourceSelect },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
+    }),
+    prisma.recurringBooking.findMany({
+      where: { createdByEmployeeId: employeeId, endDate: { gte: from } },
+      include: { resource: resourceSelect },
+      orderBy: { startDate: 'asc' }
+    })
+  ]);
+
+  const seriesInstances = seriesList.length === 0 ? [] : await prisma.booking.findMany({
+    where: { recurringBookingId: { in: seriesList.map((series) => series.id) } },
+    select: { id: true, recurringBookingId: true, deskId: true, date: true, daySlot: true, startTime: true, endTime: true, slot: true, startMinute: true, endMinute: true }
+  });
+
+  const events: IcsEvent[] = [];
+  const coveredBookingIds = new Set<string>();
+
+  for (const series of seriesList) {
+    const window = recurringToWindow(series, series.resource.kind);
+    if (!window) continue;
+
+    let dates: string[];
+    try {
+      dates = expandRecurrence(recurringToDefinition(series), Number.MAX_SAFE_INTEGER).dates;
+    } catch {
+      continue;
+    }
+
+    const expectedDates = new Set(dates);
+    const bookedDates = new Set<string>();
+    for (const instance of seriesInstances) {
+      if (instance.recurringBookingId !== series.id || instance.deskId !== series.resourceId) continue;
+      const instanceWindow = bookingToWindow(instance);
+      const dateKey = toISODateOnly(instance.date);
+      if (!instanceWindow || windowKey(instanceWindow) !== windowKey(window) || !expectedDates.has(dateKey)) continue;
+      bookedDates.add(dateKey);
+      coveredBookingIds.add(instance.id);
+    }
+    if (bookedDates.size === 0) continue;
+
+    const untilUtc = window.mode === 'time' ? new Date(getBerlinDayBoundsUtc(series.endDate).dayEndUtc.getTime() - 1000) : null;
+    events.push({
+      uid: `series-${series.id}@rb-ms`,
+      summary: calendarEventSummary(series.resource, window, series.bookedFor === 'GUEST' ? series.guestName : null),
+      location: series.resource.floorplan.name,
+      date: dates[0],
+      window,
+      rrule: buildRecurrenceRule({ ...recurringToDefinition(series), startDate: dates[0] }, untilUtc),
+      exdates: dates.filter((date) => !bookedDates.has(date)),
+      busy: series.resource.kind === 'RAUM'
+    });
+  }
+
+  for (const booking of bookings) {
+    if (coveredBookingIds.has(booking.id)) continue;
+    const window = bookingToWindow(booking);
+    if (!window) continue;
+    events.push({
+      uid: `booking-${booking.id}@rb-ms`,
+      summary: calendarEventSummary(booking.desk, window, booking.bookedFor === 'GUEST' ? booking.guestName : null),
+      location: booking.desk.floorplan.name,
+      date: toISODateOnly(booking.date),
+      window,
+      busy: booking.desk.kind === 'RAUM'
     });
+  }
+
+  return events;
+};
+
+app.get('/me/calendar-feed', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const employee = await prisma.employee.findUnique({ where: { id: actorEmployee.id }, select: { calendarFeedToken: true } });
+  res.status(200).json({ path: calendarFeedPath(employee?.calendarFeedToken ?? null) });
+});
+
+app.post('/me/calendar-feed/token', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const employee = await prisma.employee.update({
+    where: { id: actorEmployee.id },
+    data: { calendarFeedToken: createCalendarFeedToken() },
+    select: { calendarFeedToken: true }
+  });
+  console.info('[MUT] CALENDAR_FEED_TOKEN_REGENERATED', { employeeId: actorEmployee.id });
+  res.status(200).json({ path: calendarFeedPath(employee.calendarFeedToken) });
+});
+
+const notificationSettingsSelect = { emailLocale: true, emailNotifications: true } as const;
+
+// `mailEnabled` tells the UI whether a transport is configured at all; the settings are kept either way.
+app.get('/me/notification-settings', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const employee = await prisma.employee.findUnique({ where: { id: actorEmployee.id }, select: notificationSettingsSelect });
+  if (!employee) {
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
+    return;
+  }
+  res.status(200).json({ ...employee, mailEnabled: Boolean(mailTransport) });
+});
+
+app.put('/me/notification-settings', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const { emailLocale, emailNotifications } = req.body as { emailLocale?: unknown; emailNotifications?: unknown };
+  const locale = emailLocale === undefined ? undefined : parseMailLocale(emailLocale);
+  if (locale === null) {
+    res.status(400).json({ error: 'validation', message: 'emailLocale muss de oder en sein' });
+    return;
+  }
+  if (emailNotifications !== undefined && typeof emailNotifications !== 'boolean') {
+    res.status(400).json({ error: 'validation', message: 'emailNotifications muss ein Boolean sein' });
+    return;
+  }
+
+  const before = await prisma.employee.findUnique({ where: { id: actorEmployee.id }, select: notificationSettingsSelect });
+  if (!before) {
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
+    return;
+  }
+  const employee = await prisma.employee.update({
+    where: { id: actorEmployee.id },
+    data: { ...(locale ? { emailLocale: locale } : {}), ...(emailNotifications !== undefined ? { emailNotifications } : {}) },
+    select: notificationSettingsSelect
+  });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Employee', entityId: actorEmployee.id, before, after: employee });
+  res.status(200).json({ ...employee, mailEnabled: Boolean(mailTransport) });
+});
+
+app.get('/me/api-tokens', requireSessionAuth, async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const tokens = await prisma.apiToken.findMany({ where: { employeeId: actorEmployee.id }, select: apiTokenSelect, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }] });
+  res.status(200).json(tokens);
+});
+
+// The plain token is part of this response only; afterwards only its prefix is known.
+app.post('/me/api-tokens', requireSessionAuth, async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const parsed = parseApiTokenInput(req.body, { allowAdminScope: actorEmployee.role === 'admin', allowWriteScope: true, now: new Date() });
+  if (!parsed.ok) {
+    res.status(400).json({ error: 'validation', message: parsed.message });
+    return;
+  }
+
+  const { token, tokenPrefix, tokenHash } = createApiToken();
+  const created = await prisma.apiToken.create({
+    data: { ...parsed.value, tokenPrefix, tokenHash, employeeId: actorEmployee.id },
+    select: apiTokenSelect
+  });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'ApiToken', entityId: created.id, after: created });
+  res.status(201).json({ ...created, token });
+});
+
+app.delete('/me/api-tokens/:id', requireSessionAuth, async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const id = getRouteId(req.params.id);
+  const existing = id ? await prisma.apiToken.findFirst({ where: { id, employeeId: actorEmployee.id }, select: apiTokenSelect }) : null;
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'API-Token nicht gefunden' });
+    return;
+  }
+  if (!existing.revokedAt) {
+    const revoked = await prisma.apiToken.update({ where: { id: existing.id }, data: { revokedAt: new Date() }, select: apiTokenSelect });
+    await recordAuditEvent(req, { action: 'REVOKE', entityType: 'ApiToken', entityId: existing.id, before: existing, after: revoked });
+  }
+  res.status(204).send();
+});
+
+app.get('/floorplans', async (req, res) => {
+  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
+  try {
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
+  }
+
+  const floorplans = await prisma.floorplan.findMany({
+    include: { floorplanTenants: { select: { tenantId: true } } },
+    orderBy: [{ sortOrder: 'asc' }, { isDefault: 'desc' }, { createdAt: 'desc' }]
+  });
+
+  let visible = actor?.role === 'admin'
+    ? floorplans
+    : floorplans.filter((floorplan) => isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null));
+
+  if (actor && actor.role !== 'admin' && visible.length > 0) {
+    const authorizedActor = actor;
+    const visibleFloorplanIds = visible.map((floorplan) => floorplan.id);
+    const accessibleDesks = await prisma.desk.findMany({
+      where: {
+        floorplanId: { in: visibleFloorplanIds },
+        AND: [
+          authorizedActor.tenantDomainId
+            ? {
+              OR: [
+                { tenantScope: 'ALL' },
+                { deskTenants: { some: { tenantId: authorizedActor.tenantDomainId } } }
+              ]
+            }
+            : { tenantScope: 'ALL' },
+          {
+            OR: [
+              { employeeScope: 'ALL' },
+              { deskEmployees: { some: { employeeId: authorizedActor.id } } }
+            ]
+          }
+        ]
+      },
+      select: { floorplanId: true }
+    });
+
+    const accessibleFloorplanIds = new Set(accessibleDesks.map((desk) => desk.floorplanId));
+    visible = visible.filter((floorplan) => accessibleFloorplanIds.has(floorplan.id));
+  }
+
+  res.status(200).json(visible.map((floorplan) => ({
+    id: floorplan.id,
+    name: floorplan.name,
+    imageUrl: floorplan.imageUrl,
+    isDefault: floorplan.isDefault,
+    sortOrder: floorplan.sortOrder,
+    tenantScope: floorplan.tenantScope,
+    tenantIds: floorplan.floorplanTenants.map((entry) => entry.tenantId),
+    defaultResourceKind: floorplan.defaultResourceKind,
+    defaultAllowSeries: floorplan.defaultAllowSeries,
+    deskCheckInGraceMinutes: floorplan.deskCheckInGraceMinutes,
+    parkingCheckInGraceMinutes: floorplan.parkingCheckInGraceMinutes,
+    createdAt: floorplan.createdAt
+  })));
+});
+
+app.get('/floorplans/:id', async (req, res) => {
+  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
+  try {
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
+  }
+
+  const floorplan = await prisma.floorplan.findUnique({
+    where: { id: req.params.id },
+    include: { floorplanTenants: { select: { tenantId: true } } }
+  });
+
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
+
+  const isAdmin = actor?.role === 'admin';
+  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar' });
+    return;
+  }
+
+  res.status(200).json({
+    id: floorplan.id,
+    name: floorplan.name,
+    imageUrl: floorplan.imageUrl,
+    isDefault: floorplan.isDefault,
+    sortOrder: floorplan.sortOrder,
+    tenantScope: floorplan.tenantScope,
+    tenantIds: floorplan.floorplanTenants.map((entry) => entry.tenantId),
+    defaultResourceKind: floorplan.defaultResourceKind,
+    defaultAllowSeries: floorplan.defaultAllowSeries,
+    deskCheckInGraceMinutes: floorplan.deskCheckInGraceMinutes,
+    parkingCheckInGraceMinutes: floorplan.parkingCheckInGraceMinutes,
+    createdAt: floorplan.createdAt
+  });
+});
+
+app.get('/floorplans/:id/desks', async (req, res) => {
+  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
+  try {
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
+  }
+
+  const floorplan = await prisma.floorplan.findUnique({
+    where: { id: req.params.id },
+    select: { id: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } }
+  });
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
+
+  const isAdmin = actor?.role === 'admin';
+  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar' });
+    return;
+  }
+
+  const [desks, actorTeamIds] = await Promise.all([
+    prisma.desk.findMany({
+      where: { floorplanId: req.params.id },
+      include: { floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } }, zone: deskZoneSelect },
+      orderBy: { createdAt: 'asc' }
+    }),
+    getEmployeeTeamIds(actor?.id)
+  ]);
+
+  // Exclusive zones of other teams stay visible on the plan, they are just not bookable.
+  const visibleDesks = isAdmin
+    ? desks
+    : desks.filter((desk) => isDeskAccessibleForTenant({ ...desk, zone: null }, actor?.tenantDomainId ?? null, actor?.id ?? null));
+
+  res.status(200).json(visibleDesks.map((desk) => ({
+    id: desk.id,
+    floorplanId: desk.floorplanId,
+    name: desk.name,
+    kind: desk.kind,
+    hasCharger: desk.hasCharger,
+    capacity: desk.capacity,
+    equipment: desk.equipment,
+    allowSeriesOverride: desk.allowSeriesOverride,
+    effectiveAllowSeries: resolveEffectiveAllowSeries(desk),
+    tenantScope: desk.tenantScope,
+    tenantIds: desk.deskTenants.map((entry) => entry.tenantId),
+    employeeScope: desk.employeeScope,
+    employeeIds: desk.deskEmployees.map((entry) => entry.employeeId),
+    isBookableForMe: isDeskAccessibleForTenant(desk, actor?.tenantDomainId ?? null, actor?.id ?? null, actorTeamIds),
+    zone: desk.zone ? describeZoneForTeams(desk.zone, actorTeamIds) : null,
+    position: desk.x === null || desk.y === null ? null : { x: desk.x, y: desk.y },
+    x: desk.x,
+    y: desk.y,
+    createdAt: desk.createdAt
+  })));
+});
+
+app.post('/bookings', async (req, res) => {
+  const { deskId, userEmail, date, replaceExisting, overwrite, daySlot, slot, startTime, endTime, bookedFor, guestName } = req.body as {
+    deskId?: string;
+    userEmail?: string;
+    date?: string;
+    replaceExisting?: boolean;
+    overwrite?: boolean;
+    daySlot?: string;
+    slot?: string;
+    startTime?: string;
+    endTime?: string;
+    bookedFor?: string;
+    guestName?: string;
+  };
+  const requestId = bookingRequestId();
+  logBookingEvent('MANUAL_CREATE_REQUEST_RECEIVED', {
+    requestId,
+    actorEmail: req.authUser?.email ?? null,
+    actorRole: req.authUser?.role ?? null,
+    deskId: deskId ?? null,
+    date: date ?? null,
+    bookingModeRaw: bookedFor ?? null,
+    userEmailRaw: userEmail ?? null,
+    slotRaw: slot ?? null,
+    daySlotRaw: daySlot ?? null,
+    startTimeRaw: startTime ?? null,
+    endTimeRaw: endTime ?? null,
+    overwriteRequested: overwrite ?? replaceExisting ?? false
+  });
+
+  if (!deskId || !date) {
+    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'deskId/date missing', deskId: deskId ?? null, date: date ?? null }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'deskId und date sind erforderlich' });
+    return;
+  }
+
+  const currentUser = req.authUser;
+  if (!currentUser) {
+    logBookingEvent('MANUAL_CREATE_UNAUTHORIZED', { requestId, reason: 'auth user missing' }, 'warn');
+    res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    logBookingEvent('MANUAL_CREATE_ACTOR_RESOLUTION_FAILED', { requestId, status, error: (error as Error).message }, 'warn');
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const bookingMode = parseBookedFor(bookedFor);
+  const normalizedGuestName = normalizeGuestName(guestName);
+  if (bookingMode === 'GUEST') {
+    if (!normalizedGuestName || normalizedGuestName.length < 2) {
+      logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'guestName too short', bookingMode, guestNameLength: normalizedGuestName?.length ?? 0 }, 'warn');
+      res.status(400).json({ error: 'validation', message: 'guestName muss mindestens 2 Zeichen haben.' });
+      return;
+    }
+  } else if (normalizedGuestName) {
+    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'guestName for SELF booking', bookingMode }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'guestName ist nur bei Gastbuchungen erlaubt' });
+    return;
+  }
+
+  const rawVisitor = (req.body as { visitor?: unknown }).visitor;
+  let visitorInput: VisitorInput | null = null;
+  if (rawVisitor !== undefined && rawVisitor !== null) {
+    const parsedVisitor = bookingMode === 'GUEST' ? parseVisitorInput(rawVisitor) : { ok: false as const, message: 'visitor ist nur bei Gastbuchungen erlaubt' };
+    if (!parsedVisitor.ok) {
+      logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'invalid visitor', message: parsedVisitor.message }, 'warn');
+      res.status(400).json({ error: 'validation', message: parsedVisitor.message });
+      return;
+    }
+    visitorInput = parsedVisitor.value;
+    if (visitorInput.hostEmployeeId && !(await prisma.employee.count({ where: { id: visitorInput.hostEmployeeId, isActive: true } }))) {
+      res.status(400).json({ error: 'validation', message: 'Gastgeber muss ein aktiver Mitarbeiter sein' });
+      return;
+    }
+  }
+
+
+  const parsedDate = toDateOnly(date);
+  if (!parsedDate) {
+    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'invalid date format', date }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  const desk = await getDeskContext(deskId);
+  if (!desk) {
+    logBookingEvent('MANUAL_CREATE_NOT_FOUND', { requestId, reason: 'desk not found', deskId }, 'warn');
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
+
+  const targetEmailForTenantCheck = userEmail ?? actorEmployee.email;
+  const accessIdentity = await findBookingIdentity(targetEmailForTenantCheck);
+  const identity = bookingMode === 'SELF' ? accessIdentity : null;
+  const isDelegatedBooking = req.authUser?.role !== 'admin' && identity !== null && !isBookingIdentityOf(identity, actorEmployee);
+  if (isDelegatedBooking && !(identity.employeeId && await hasBookingDelegation(identity.employeeId, actorEmployee.id))) {
+    logBookingEvent('MANUAL_CREATE_FORBIDDEN_NO_DELEGATION', { requestId, actorEmployeeId: actorEmployee.id, targetEmail: identity.normalizedEmail }, 'warn');
+    res.status(403).json({ error: 'forbidden', code: 'DELEGATION_REQUIRED', message: 'Du darfst nur für Kolleg:innen buchen, die dich als Vertretung eingetragen haben' });
+    return;
+  }
+  const tenantDomainIdForAccess = req.authUser?.role === 'admin' || isDelegatedBooking
+    ? accessIdentity.tenantDomainId ?? actorEmployee.tenantDomainId
+    : actorEmployee.tenantDomainId;
+
+  logBookingEvent('MANUAL_CREATE_ACCESS_CONTEXT', {
+    requestId,
+    bookingMode,
+    actorEmployeeId: actorEmployee.id,
+    actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
+    targetEmailForTenantCheck,
+    accessIdentityTenantDomainId: accessIdentity.tenantDomainId,
+    accessIdentityEmployeeId: accessIdentity.employeeId,
+    effectiveTenantDomainIdForAccess: tenantDomainIdForAccess ?? null,
+    deskTenantScope: desk.tenantScope,
+    deskTenantIds: desk.deskTenants.map((entry) => entry.tenantId),
+    floorplanTenantScope: desk.floorplan?.tenantScope ?? null,
+    floorplanTenantIds: desk.floorplan?.floorplanTenants.map((entry) => entry.tenantId) ?? []
+  }, 'debug');
+
+  if (!isDeskAccessibleForTenant(desk, tenantDomainIdForAccess, identity?.employeeId ?? actorEmployee.id, await getEmployeeTeamIds(identity?.employeeId ?? actorEmployee.id))) {
+    logBookingEvent('MANUAL_CREATE_FORBIDDEN_TENANT_MISMATCH', {
+      requestId,
+      deskId,
+      tenantDomainIdForAccess: tenantDomainIdForAccess ?? null,
+      actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
+      accessIdentityTenantDomainId: accessIdentity.tenantDomainId,
+      bookingMode
+    }, 'warn');
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht buchbar' });
+    return;
+  }
+
+  const bookingWindowResult = resolveBookingWindow({ deskKind: desk.kind, daySlot, slot, startTime, endTime });
+  if (!bookingWindowResult.ok) {
+    logBookingEvent('MANUAL_CREATE_VALIDATION_FAILED', { requestId, reason: 'invalid booking window', message: bookingWindowResult.message }, 'warn');
+    res.status(400).json({ error: 'validation', message: bookingWindowResult.message });
+    return;
+  }
+
+  const bookingWindow = bookingWindowResult.value;
+  const blockingClosure = findClosureForWindow(await loadClosures(desk.floorplanId, parsedDate, parsedDate), desk, parsedDate, bookingWindow);
+  if (blockingClosure) {
+    logBookingEvent('MANUAL_CREATE_RESOURCE_CLOSED', { requestId, deskId, closureId: blockingClosure.id }, 'warn');
+    sendClosedConflict(res, blockingClosure);
+    return;
+  }
+
+  const policyViolations = await findBookingPolicyViolations({
+    floorplanId: desk.floorplanId,
+    kind: desk.kind,
+    tenantId: tenantDomainIdForAccess,
+    emailAliases: identity?.emailAliases ?? null,
+    candidates: [toPolicyCandidate(parsedDate, bookingWindow)]
+  });
+  if (policyViolations.length > 0) {
+    logBookingEvent('MANUAL_CREATE_POLICY_VIOLATION', { requestId, deskId, violations: policyViolations }, 'warn');
+    sendPolicyViolation(res, policyViolations);
+    return;
+  }
+
+  const meeting = await resolveMeetingDetails({
+    desk,
+    title: (req.body as { title?: unknown }).title,
+    attendees: (req.body as { attendees?: unknown }).attendees,
+    bookerEmployeeId: bookingMode === 'SELF' ? (identity?.employeeId ?? actorEmployee.id) : null
+  });
+  if (!meeting.ok) {
+    logBookingEvent('MANUAL_CREATE_MEETING_REJECTED', { requestId, deskId, status: meeting.status, body: meeting.body }, 'warn');
+    res.status(meeting.status).json(meeting.body);
+    return;
+  }
+
+  const shouldReplaceExisting = overwrite ?? replaceExisting ?? false;
+  const result = await prisma.$transaction(async (tx) => {
+    if (identity) {
+      await acquireBookingLock(tx, bookingUserKeyForDate(identity.userKey, parsedDate));
+    }
+    await acquireBookingLock(tx, bookingDeskKeyForDate(deskId, parsedDate));
+
+    const userKindBookings = identity
+      ? (await tx.booking.findMany({
+        where: {
+          date: parsedDate,
+          bookedFor: 'SELF',
+          userEmail: { in: identity.emailAliases },
+          desk: { kind: desk.kind }
+        },
+        include: { desk: { select: { name: true, kind: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+      }))
+      : [];
+
+    const conflictingUserBookings = userKindBookings.filter((booking) => {
+        const candidateWindow = bookingToWindow(booking);
+        return candidateWindow ? windowsOverlap(bookingWindow, candidateWindow) : false;
+      });
+
+    const existingUserBooking = conflictingUserBookings[0] ?? null;
+    if (identity && existingUserBooking && !shouldReplaceExisting) {
+      logBookingEvent('MANUAL_CREATE_CONFLICT_USER_HAS_BOOKING', {
+        requestId,
+        deskId,
+        existingBookingId: existingUserBooking.id,
+        existingDeskId: existingUserBooking.deskId,
+        existingDeskName: existingUserBooking.desk?.name ?? existingUserBooking.deskId,
+        shouldReplaceExisting
+      }, 'warn');
+      return {
+        kind: 'conflict' as const,
+        message: desk.kind === 'PARKPLATZ'
+          ? 'Du hast in diesem Zeitraum bereits eine Parkplatz-Buchung.'
+          : 'Du hast an diesem Tag bereits eine Buchung dieser Art',
+        details: {
+          conflictKind: desk.kind,
+          existingBooking: {
+            id: existingUserBooking.id,
+            deskId: existingUserBooking.deskId,
+            deskName: existingUserBooking.desk?.name ?? existingUserBooking.deskId,
+            daySlot: existingUserBooking.daySlot ?? bookingSlotToDaySlot(existingUserBooking.slot)
+          },
+          requestedDesk: { id: deskId, name: desk.name },
+          date
+        }
+      };
+    }
+
+    const ignoredBookingIds = new Set<string>(conflictingUserBookings.map((booking) => booking.id));
+    const deskBookings = await tx.booking.findMany({ where: { deskId, date: parsedDate }, orderBy: [{ createdAt: 'desc' }] });
+    const targetDeskBooking = deskBookings.find((candidate) => {
+      const candidateWindow = bookingToWindow(candidate);
+      return candidateWindow ? windowsOverlap(bookingWindow, candidateWindow) && !ignoredBookingIds.has(candidate.id) : false;
+    });
+
+    if (targetDeskBooking) {
+      logBookingEvent('MANUAL_CREATE_CONFLICT_DESK_ALREADY_BOOKED', {
+        requestId,
+        deskId,
+        conflictingBookingId: targetDeskBooking.id,
+        shouldReplaceExisting
+      }, 'warn');
+      return { kind: 'conflict' as const, message: 'Die Ressource ist in diesem Zeitraum bereits gebucht', details: { deskId, date, bookingId: targetDeskBooking.id } };
+    }
+
+    const bookingsToReplace = shouldReplaceExisting
+      ? (desk.kind === 'PARKPLATZ' ? userKindBookings : conflictingUserBookings)
+      : [];
+
+    if (identity && bookingsToReplace.length > 0) {
+      await tx.booking.deleteMany({ where: { id: { in: bookingsToReplace.map((booking) => booking.id) } } });
+    }
+
+    const created = await tx.booking.create({
+      data: {
+        deskId,
+        userEmail: bookingMode === 'SELF' ? (identity?.normalizedEmail ?? actorEmployee.email) : null,
+        employeeId: bookingMode === 'SELF' ? (identity?.employeeId ?? null) : null,
+        bookedFor: bookingMode,
+        guestName: bookingMode === 'GUEST' ? normalizedGuestName : null,
+        createdByEmployeeId: actorEmployee.id,
+        createdByUserId: currentUser.source === 'local' ? currentUser.id : null,
+        createdByEmail: currentUser.email,
+        date: parsedDate,
+        daySlot: bookingWindow.mode === 'day' ? bookingWindow.daySlot : null,
+        startTime: bookingWindow.mode === 'time' ? new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(bookingWindow.startMinute / 60), bookingWindow.startMinute % 60, 0, 0)) : null,
+        endTime: bookingWindow.mode === 'time' ? new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(bookingWindow.endMinute / 60), bookingWindow.endMinute % 60, 0, 0)) : null,
+        slot: bookingWindow.mode === 'day' ? (bookingWindow.daySlot === 'FULL' ? 'FULL_DAY' : bookingWindow.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM',
+        startMinute: bookingWindow.mode === 'time' ? bookingWindow.startMinute : null,
+        endMinute: bookingWindow.mode === 'time' ? bookingWindow.endMinute : null,
+        title: meeting.title,
+        ...(meeting.attendees.length > 0 ? { attendees: { create: meeting.attendees } } : {}),
+        ...(visitorInput ? {
+          visitor: {
+            create: {
+              email: visitorInput.email,
+              company: visitorInput.company,
+              hostEmployeeId: visitorInput.hostEmployeeId ?? actorEmployee.id,
+              expectedArrivalMinute: visitorInput.expectedArrivalMinute,
+              code: createVisitorCode()
+            }
+          }
+        } : {})
+      },
+      include: { createdByEmployee: { select: { id: true, displayName: true, email: true } }, attendees: bookingAttendeesInclude, visitor: true }
+    });
+
+    if (process.env.DEBUG === '1') {
+      console.info('BOOKING_CREATE', {
+        actorEmployeeId: actorEmployee.id,
+        bookedFor: bookingMode,
+        employeeId: created.employeeId ?? null,
+        guestName: bookingMode === 'GUEST' ? normalizedGuestName : null,
+        createdByEmployeeId: created.createdByEmployeeId
+      });
+    }
+
+    logBookingEvent('MANUAL_CREATE_SUCCESS', {
+      requestId,
+      bookingId: created.id,
+      deskId,
+      date: toISODateOnly(parsedDate),
+      bookingMode,
+      createdForEmployeeId: created.employeeId ?? null,
+      createdForEmail: created.userEmail ?? null,
+      createdByEmployeeId: created.createdByEmployeeId,
+      slot: created.slot,
+      startMinute: created.startMinute,
+      endMinute: created.endMinute
+    });
+
+    const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+    await enqueueBookingMails(tx, [created], actor, (details) => ({ kind: 'BOOKING_CONFIRMED', booking: details }));
+    if (created.visitor) await enqueueVisitorInvitation(tx, created, created.visitor);
+    await enqueueBookingWebhooks(tx, 'booking.cancelled', identity ? bookingsToReplace : [], { actor, reason: 'replaced' });
+    await enqueueBookingWebhooks(tx, 'booking.created', [created], { actor });
+
+    return { kind: 'ok' as const, status: 201, booking: created, replacedBookings: identity ? bookingsToReplace : [] };
+  });
+
+  if (result.kind === 'conflict') {
+    logBookingEvent('MANUAL_CREATE_RESPONSE_CONFLICT', { requestId, message: result.message, details: result.details }, 'warn');
+    sendConflict(res, result.message, result.details);
+    return;
+  }
+
+  await recordAuditEvents(req, [
+    ...result.replacedBookings.map((booking) => ({ action: 'DELETE' as const, entityType: 'Booking', entityId: booking.id, before: booking, after: { replacedByBookingId: result.booking.id } })),
+    { action: 'CREATE', entityType: 'Booking', entityId: result.booking.id, after: result.booking }
+  ]);
+  void removeGraphCalendarEvents(result.replacedBookings).then(() => syncRoomBookingCalendarEvent(result.booking.id));
+  flushOutboxes();
+  res.status(result.status).json(mapBookingResponse(result.booking));
+});
+
+
+app.put('/bookings/:id', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const { deskId, date, daySlot, slot, startTime, endTime, guestName } = req.body as { deskId?: string; date?: string; daySlot?: string; slot?: string; startTime?: string; endTime?: string; guestName?: string };
+  const requestId = bookingRequestId();
+  logBookingEvent('MANUAL_UPDATE_REQUEST_RECEIVED', {
+    requestId,
+    bookingId: id ?? null,
+    deskId: deskId ?? null,
+    date: date ?? null,
+    actorEmail: req.authUser?.email ?? null,
+    actorRole: req.authUser?.role ?? null
+  });
+  if (!id || !deskId) {
+    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'id/deskId missing', bookingId: id ?? null, deskId: deskId ?? null }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'id und deskId sind erforderlich' });
+    return;
+  }
+
+  if (date) {
+    const parsedDate = toDateOnly(date);
+    if (!parsedDate) {
+      logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'invalid date format', date }, 'warn');
+      res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+      return;
+    }
+  }
+
+  const existing = await prisma.booking.findUnique({ where: { id }, include: { attendees: true } });
+  if (!existing) {
+    logBookingEvent('MANUAL_UPDATE_NOT_FOUND', { requestId, reason: 'booking not found', bookingId: id }, 'warn');
+    res.status(404).json({ error: 'not_found', message: 'Buchung nicht gefunden' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    logBookingEvent('MANUAL_UPDATE_ACTOR_RESOLUTION_FAILED', { requestId, status, error: (error as Error).message }, 'warn');
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const principalEmployeeIds = req.authUser?.role === 'admin' ? [] : await getBookingPrincipalIds(actorEmployee.id);
+  if (req.authUser?.role !== 'admin' && !canCancelBooking({ booking: { bookedFor: existing.bookedFor, employeeId: existing.employeeId, createdByEmployeeId: existing.createdByEmployeeId, roomDisplayId: existing.roomDisplayId }, actor: { employeeId: actorEmployee.id, email: req.authUser?.email ?? '', isAdmin: false, principalEmployeeIds } })) {
+    logBookingEvent('MANUAL_UPDATE_FORBIDDEN_BY_POLICY', { requestId, reason: 'cannot update booking of another user', actorEmployeeId: actorEmployee.id, bookingId: existing.id }, 'warn');
+    res.status(403).json({ error: 'forbidden', message: 'Du darfst diese Buchung nicht ändern' });
+    return;
+  }
+
+  const nextDesk = await getDeskContext(deskId);
+  if (!nextDesk) {
+    logBookingEvent('MANUAL_UPDATE_NOT_FOUND', { requestId, reason: 'desk not found', deskId }, 'warn');
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
+
+  const targetTenantIdentity = existing.bookedFor === 'SELF' && existing.userEmail
+    ? await findBookingIdentity(existing.userEmail)
+    : null;
+  // Delegates edit their principal's bookings within the principal's tenant.
+  const isDelegatedUpdate = existing.bookedFor === 'SELF' && Boolean(existing.employeeId) && existing.employeeId !== actorEmployee.id;
+  const tenantDomainIdForAccess = req.authUser?.role === 'admin' || isDelegatedUpdate
+    ? targetTenantIdentity?.tenantDomainId ?? actorEmployee.tenantDomainId
+    : actorEmployee.tenantDomainId;
+  logBookingEvent('MANUAL_UPDATE_ACCESS_CONTEXT', {
+    requestId,
+    bookingId: existing.id,
+    existingBookedFor: existing.bookedFor,
+    existingUserEmail: existing.userEmail ?? null,
+    actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
+    targetTenantDomainId: targetTenantIdentity?.tenantDomainId ?? null,
+    effectiveTenantDomainIdForAccess: tenantDomainIdForAccess ?? null,
+    deskTenantScope: nextDesk.tenantScope,
+    deskTenantIds: nextDesk.deskTenants.map((entry) => entry.tenantId),
+    floorplanTenantScope: nextDesk.floorplan?.tenantScope ?? null,
+    floorplanTenantIds: nextDesk.floorplan?.floorplanTenants.map((entry) => entry.tenantId) ?? []
+  }, 'debug');
+
+  if (!isDeskAccessibleForTenant(nextDesk, tenantDomainIdForAccess, targetTenantIdentity?.employeeId ?? actorEmployee.id, await getEmployeeTeamIds(targetTenantIdentity?.employeeId ?? actorEmployee.id))) {
+    logBookingEvent('MANUAL_UPDATE_FORBIDDEN_TENANT_MISMATCH', {
+      requestId,
+      bookingId: existing.id,
+      deskId,
+      actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
+      targetTenantDomainId: targetTenantIdentity?.tenantDomainId ?? null,
+      tenantDomainIdForAccess: tenantDomainIdForAccess ?? null
+    }, 'warn');
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht buchbar' });
+    return;
+  }
+
+  const bookingDate = date ? toDateOnly(date) ?? existing.date : existing.date;
+
+  if (date && bookingDate.getTime() !== existing.date.getTime()) {
+    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'date mismatch existing booking', bookingDate: toISODateOnly(bookingDate), existingDate: toISODateOnly(existing.date) }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'date passt nicht zum Datum der bestehenden Buchung' });
+    return;
+  }
+
+  const bookingWindowResult = resolveBookingWindow({ deskKind: nextDesk.kind, daySlot: typeof daySlot === 'undefined' ? (existing.daySlot ?? bookingSlotToDaySlot(existing.slot)) : daySlot, slot: typeof slot === 'undefined' ? existing.slot : slot, startTime: typeof startTime === 'undefined' ? minuteToHHMM(existing.startMinute) : startTime, endTime: typeof endTime === 'undefined' ? minuteToHHMM(existing.endMinute) : endTime });
+  if (!bookingWindowResult.ok) {
+    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'invalid booking window', message: bookingWindowResult.message }, 'warn');
+    res.status(400).json({ error: 'validation', message: bookingWindowResult.message });
+    return;
+  }
+
+  const nextGuestName = existing.bookedFor === 'GUEST' ? normalizeGuestName(typeof guestName === 'undefined' ? existing.guestName : guestName) : null;
+  if (existing.bookedFor === 'GUEST' && (!nextGuestName || nextGuestName.length < 2)) {
+    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'guestName too short', bookingId: existing.id, guestNameLength: nextGuestName?.length ?? 0 }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'guestName muss mindestens 2 Zeichen haben.' });
+    return;
+  }
+
+  if (existing.bookedFor === 'SELF' && !actorEmployee.id) {
+    logBookingEvent('MANUAL_UPDATE_VALIDATION_FAILED', { requestId, reason: 'missing actor employee id for self booking', bookingId: existing.id }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'employeeId ist bei SELF-Buchungen erforderlich' });
+    return;
+  }
+
+  // Omitted title/attendees keep their current values as long as the booking stays on a room.
+  const hasTitle = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'title');
+  const hasAttendees = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'attendees');
+  const keepsMeetingDetails = nextDesk.kind === 'RAUM';
+  const meeting = await resolveMeetingDetails({
+    desk: nextDesk,
+    title: hasTitle ? (req.body as { title?: unknown }).title : (keepsMeetingDetails ? existing.title : null),
+    attendees: hasAttendees ? (req.body as { attendees?: unknown }).attendees : (keepsMeetingDetails ? existing.attendees.map(toAttendeeInput) : []),
+    bookerEmployeeId: existing.bookedFor === 'SELF' ? (existing.employeeId ?? actorEmployee.id) : null
+  });
+  if (!meeting.ok) {
+    logBookingEvent('MANUAL_UPDATE_MEETING_REJECTED', { requestId, bookingId: existing.id, status: meeting.status, body: meeting.body }, 'warn');
+    res.status(meeting.status).json(meeting.body);
+    return;
+  }
+
+  const nextWindow = bookingWindowResult.value;
+  const conflicts = await prisma.booking.findMany({ where: { deskId, date: bookingDate, id: { not: existing.id } }, orderBy: [{ createdAt: 'desc' }] });
+  const conflict = conflicts.find((candidate) => {
+    const candidateWindow = bookingToWindow(candidate);
+    return candidateWindow ? windowsOverlap(nextWindow, candidateWindow) : false;
+  });
+  if (conflict) {
+    logBookingEvent('MANUAL_UPDATE_CONFLICT_DESK_ALREADY_BOOKED', { requestId, bookingId: existing.id, conflictingBookingId: conflict.id, deskId, date: toISODateOnly(bookingDate) }, 'warn');
+    sendConflict(res, 'Die Ressource ist an diesem Tag bereits gebucht', { deskId, date: toISODateOnly(bookingDate), bookingId: conflict.id });
+    return;
+  }
+
+  if (nextDesk.kind === 'PARKPLATZ' && existing.bookedFor === 'SELF') {
+    const personalParkingConflicts = await prisma.booking.findMany({
+      where: {
+        date: bookingDate,
+        id: { not: existing.id },
+        bookedFor: 'SELF',
+        employeeId: actorEmployee.id,
+        desk: { kind: 'PARKPLATZ' }
+      },
+      include: { desk: { select: { id: true, name: true } } },
+      orderBy: [{ createdAt: 'desc' }]
+    });
+
+    const personalConflict = personalParkingConflicts.find((candidate) => {
+      const candidateWindow = bookingToWindow(candidate);
+      return candidateWindow ? windowsOverlap(nextWindow, candidateWindow) : false;
+    });
+
+    if (personalConflict) {
+      logBookingEvent('MANUAL_UPDATE_CONFLICT_USER_HAS_PARKING_OVERLAP', {
+        requestId,
+        bookingId: existing.id,
+        conflictingBookingId: personalConflict.id,
+        conflictingDeskId: personalConflict.deskId,
+        date: toISODateOnly(bookingDate)
+      }, 'warn');
+      sendConflict(res, 'Du hast in diesem Zeitraum bereits eine Parkplatz-Buchung.', {
+        conflictKind: 'PARKPLATZ',
+        bookingId: personalConflict.id,
+        deskId: personalConflict.deskId,
+        deskName: personalConflict.desk?.name ?? personalConflict.deskId,
+        date: toISODateOnly(bookingDate)
+      });
+      return;
+    }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await replaceBookingAttendees(tx, existing.id, meeting.attendees);
+    queueOccupancyChange(existing);
+    const updated = await tx.booking.update({
+      where: { id },
+      data: {
+        deskId,
+        title: meeting.title,
+        employeeId: existing.bookedFor === 'SELF' ? actorEmployee.id : null,
+        guestName: nextGuestName,
+        createdByEmployeeId: actorEmployee.id,
+        daySlot: nextWindow.mode === 'day' ? nextWindow.daySlot : null,
+        startMinute: nextWindow.mode === 'time' ? nextWindow.startMinute : null,
+        endMinute: nextWindow.mode === 'time' ? nextWindow.endMinute : null,
+        startTime: nextWindow.mode === 'time' ? new Date(Date.UTC(bookingDate.getUTCFullYear(), bookingDate.getUTCMonth(), bookingDate.getUTCDate(), Math.floor(nextWindow.startMinute / 60), nextWindow.startMinute % 60, 0, 0)) : null,
+        endTime: nextWindow.mode === 'time' ? new Date(Date.UTC(bookingDate.getUTCFullYear(), bookingDate.getUTCMonth(), bookingDate.getUTCDate(), Math.floor(nextWindow.endMinute / 60), nextWindow.endMinute % 60, 0, 0)) : null,
+        slot: nextWindow.mode === 'day' ? (nextWindow.daySlot === 'FULL' ? 'FULL_DAY' : nextWindow.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM'
+      },
+      include: { createdByEmployee: { select: { id: true, displayName: true, email: true } }, attendees: bookingAttendeesInclude }
+    });
+    await enqueueBookingWebhooks(tx, 'booking.updated', [updated], { actor: { employeeId: actorEmployee.id, displayName: actorEmployee.displayName } });
+    return updated;
+  });
+  logBookingEvent('MANUAL_UPDATE_SUCCESS', {
+    requestId,
+    bookingId: updated.id,
+    deskId: updated.deskId,
+    date: toISODateOnly(updated.date),
+    slot: updated.slot,
+    startMinute: updated.startMinute,
+    endMinute: updated.endMinute,
+    actorEmployeeId: actorEmployee.id
+  });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Booking', entityId: updated.id, before: existing, after: updated });
+  void syncRoomBookingCalendarEvent(updated.id);
+  flushOutboxes();
+  res.status(200).json(mapBookingResponse(updated));
+});
+
+type BookingCancelScope = 'single' | 'series' | 'resource_day_self';
+
+const parseBookingCancelScope = (value: unknown): BookingCancelScope | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'single' || normalized === 'series' || normalized === 'resource_day_self') return normalized;
+  return null;
+};
+
+const cancelBookingByScope = async ({ id, scope, req, res }: { id: string; scope: BookingCancelScope; req: express.Request; res: express.Response }) => {
+  const requestId = req.requestId ?? 'unknown';
+  const userId = req.authUser?.id ?? null;
+
+  try {
+    const existing = await prisma.booking.findUnique({
+      where: { id },
+      include: { desk: { select: { kind: true, floorplanId: true } } }
+    });
+    if (!existing) {
+      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: null, status: 404, error: 'Booking not found' });
+      res.status(404).json({ error: 'not_found', message: 'Buchung nicht gefunden' });
+      return;
+    }
+
+    if (!req.authUser) {
+      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status: 401, error: 'Authentication required' });
+      res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
+      return;
+    }
+
+    console.info('[MUT] BOOKING_CANCEL_REQUEST', {
+      requestId,
+      bookingId: id,
+      scope,
+      recurringBookingId: existing.recurringBookingId ?? null,
+      recurringGroupId: existing.recurringGroupId ?? null
+    });
+
+    let actorEmployee;
+    try {
+      actorEmployee = await requireActorEmployee(req);
+    } catch (error) {
+      const status = (error as Error & { status?: number }).status ?? 403;
+      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status, error: (error as Error).message });
+      res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+      return;
+    }
+
+    const allowed = canCancelBooking({
+      booking: {
+        bookedFor: existing.bookedFor,
+        employeeId: existing.employeeId,
+        createdByEmployeeId: existing.createdByEmployeeId,
+        roomDisplayId: existing.roomDisplayId
+      },
+      actor: {
+        employeeId: actorEmployee.id,
+        email: req.authUser.email,
+        isAdmin: req.authUser.role === 'admin',
+        principalEmployeeIds: await getBookingPrincipalIds(actorEmployee.id)
+      }
+    });
+
+    if (process.env.DEBUG === '1') {
+      console.info('CANCEL_AUTHZ_CHECK', {
+        bookingId: id,
+        bookedFor: existing.bookedFor,
+        employeeId: existing.employeeId,
+        createdByEmployeeId: existing.createdByEmployeeId,
+        actorEmployeeId: actorEmployee.id,
+        actorIsAdmin: req.authUser.role === 'admin',
+        allowed
+      });
+    }
+
+    if (!allowed) {
+      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status: 403, error: 'Not allowed to cancel this booking' });
+      res.status(403).json({ code: 'FORBIDDEN', message: 'Du darfst diese Buchung nicht stornieren' });
+      return;
+    }
+
+    if (scope === 'series' && !existing.recurringBookingId && !existing.recurringGroupId) {
+      res.status(400).json({ error: 'validation', message: 'Die Buchung gehört zu keiner Serie' });
+      return;
+    }
+
+    const freedCapacity: FreedCapacity[] = [];
+    const removedCalendarEvents: GraphCalendarBookingRef[] = [];
+    // Series and resource-day scopes cover the bookings of whoever owns this one, which may be a delegate's principal.
+    const ownerEmployeeId = (existing.bookedFor === 'SELF' ? existing.employeeId : existing.createdByEmployeeId) ?? actorEmployee.id;
+    const mailActor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+    const deletedCount = await prisma.$transaction(async (tx) => {
+      if (scope === 'single') {
+        await enqueueBookingMails(tx, [existing], mailActor, (details, actorName) => ({ kind: 'BOOKING_CANCELLED', booking: details, actorName }));
+        await enqueueBookingWebhooks(tx, 'booking.cancelled', [existing], { actor: mailActor });
+        await tx.booking.delete({ where: { id } });
+        freedCapacity.push(...toFreedCapacity(existing.desk, [existing.date]));
+        removedCalendarEvents.push(existing);
+        return 1;
+      }
+
+      if (scope === 'resource_day_self') {
+        const resourceDayWhere = {
+          deskId: existing.deskId,
+          date: existing.date,
+          OR: [
+            { bookedFor: 'SELF' as const, employeeId: ownerEmployeeId },
+            { bookedFor: 'GUEST' as const, createdByEmployeeId: ownerEmployeeId }
+          ]
+        };
+        const resourceDayBookings = await tx.booking.findMany({ where: resourceDayWhere });
+        removedCalendarEvents.push(...resourceDayBookings.filter((booking) => booking.graphEventId));
+        await enqueueBookingMails(tx, resourceDayBookings, mailActor, (details, actorName) => ({ kind: 'BOOKING_CANCELLED', booking: details, actorName }));
+        await enqueueBookingWebhooks(tx, 'booking.cancelled', resourceDayBookings, { actor: mailActor });
+        const deleteBookingsResult = await tx.booking.deleteMany({ where: resourceDayWhere });
+        freedCapacity.push(...toFreedCapacity(existing.desk, [existing.date]));
+        return deleteBookingsResult.count;
+      }
+
+      const seriesWhereClauses: Array<{ recurringBookingId?: string; recurringGroupId?: string }> = [];
+      if (existing.recurringBookingId) seriesWhereClauses.push({ recurringBookingId: existing.recurringBookingId });
+      if (existing.recurringGroupId) seriesWhereClauses.push({ recurringGroupId: existing.recurringGroupId });
+      if (seriesWhereClauses.length === 0) return 0;
+
+      const matchingBookings = await tx.booking.findMany({
+        where: {
+          OR: seriesWhereClauses,
+          AND: [
+            {
+              OR: [
+                { bookedFor: 'SELF', employeeId: ownerEmployeeId },
+                { bookedFor: 'GUEST', createdByEmployeeId: ownerEmployeeId }
+              ]
+            }
+          ]
+        },
+      });
+      removedCalendarEvents.push(...matchingBookings);
+      const recurringBookingIds = Array.from(new Set(matchingBookings
+        .map((booking) => booking.recurringBookingId)
+        .filter((value): value is string => Boolean(value))));
+
+      freedCapacity.push(...toFreedCapacity(existing.desk, matchingBookings.map((booking) => booking.date)));
+      const deleteBookingsResult = await tx.booking.deleteMany({
+        where: {
+          OR: seriesWhereClauses,
+          AND: [
+            {
+              OR: [
+                { bookedFor: 'SELF', employeeId: ownerEmployeeId },
+                { bookedFor: 'GUEST', createdByEmployeeId: ownerEmployeeId }
+              ]
+            }
+          ]
+        }
+      });
+      await enqueueBookingWebhooks(tx, 'booking.cancelled', matchingBookings, { actor: mailActor, reason: 'series_cancelled' });
+      if (recurringBookingIds.length > 0) {
+        for (const recurringBookingId of recurringBookingIds) {
+          await enqueueSeriesDeletedWebhook(tx, recurringBookingId, { actor: mailActor, bookingCount: matchingBookings.filter((booking) => booking.recurringBookingId === recurringBookingId).length, fromDate: null });
+        }
+        await tx.recurringBooking.deleteMany({ where: { id: { in: recurringBookingIds } } });
+      }
+      await enqueueBookingMails(tx, [existing], mailActor, (details, actorName) => ({
+        kind: 'SERIES_CANCELLED',
+        booking: withoutMailDate(details),
+        fromDate: null,
+        cancelledCount: deleteBookingsResult.count,
+        actorName
+      }));
+      return deleteBookingsResult.count;
+    });
+
+    console.info('[MUT] BOOKING_CANCEL_DONE', { requestId, deletedCount, scope });
+    notifyWaitlistOfFreedCapacity(freedCapacity);
+    void removeGraphCalendarEvents(removedCalendarEvents);
+    flushOutboxes();
+    await recordAuditEvent(req, { action: 'CANCEL', entityType: 'Booking', entityId: id, before: existing, after: { scope, deletedCount } });
+    console.info('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status: 200, error: null });
+    res.status(200).json({ deletedCount, scope });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unexpected booking cancel error';
+    console.error('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: null, status: 500, error: errorMessage });
+    res.status(500).json({ error: 'internal_error', message: 'Stornierung fehlgeschlagen' });
+  }
+};
+
+app.delete('/bookings/:id', async (req, res) => {
+  const id = getRouteId(req.params.id);
+
+  if (!id) {
+    const requestId = req.requestId ?? 'unknown';
+    const userId = req.authUser?.id ?? null;
+    console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: null, resourceType: null, status: 400, error: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const scope = parseBookingCancelScope(req.query.scope ?? 'single');
+  if (!scope) {
+    res.status(400).json({ error: 'validation', message: 'scope muss single, series oder resource_day_self sein' });
+    return;
+  }
+
+  await cancelBookingByScope({ id, scope, req, res });
+});
+
+// Room bookings the current employee is invited to; their own bookings already show up via /occupancy.
+app.get('/me/meetings', async (req, res) => {
+  const date = typeof req.query.date === 'string' ? toDateOnly(req.query.date) : null;
+  if (!date) {
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const attendances = await prisma.bookingAttendee.findMany({
+    where: { employeeId: actorEmployee.id, booking: { date } },
+    include: {
+      booking: {
+        include: {
+          desk: { select: { id: true, name: true, floorplanId: true, floorplan: { select: { name: true } } } },
+          employee: { select: { id: true, displayName: true, email: true } },
+          createdByEmployee: { select: { id: true, displayName: true, email: true } },
+          _count: { select: { attendees: true } }
+        }
+      }
+    }
+  });
+
+  res.status(200).json(attendances
+    .map(({ booking, ...attendance }) => ({
+      bookingId: booking.id,
+      attendeeId: attendance.id,
+      title: booking.title,
+      date: toISODateOnly(booking.date),
+      startTime: minuteToHHMM(booking.startMinute),
+      endTime: minuteToHHMM(booking.endMinute),
+      desk: { id: booking.desk.id, name: booking.desk.name, floorplanId: booking.desk.floorplanId, floorplanName: booking.desk.floorplan.name },
+      organizer: booking.bookedFor === 'SELF' && booking.employee ? booking.employee : booking.createdByEmployee,
+      attendeeCount: booking._count.attendees,
+      response: attendance.response,
+      respondedAt: attendance.respondedAt
+    }))
+    .sort((left, right) => (left.startTime ?? '').localeCompare(right.startTime ?? '')));
+});
+
+app.put('/bookings/:id/attendance', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const response = parseAttendeeResponse((req.body as { response?: unknown } | undefined)?.response);
+  if (!id || !response) {
+    res.status(400).json({ error: 'validation', message: 'response muss ACCEPTED, TENTATIVE oder DECLINED sein' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const attendance = await prisma.bookingAttendee.findUnique({ where: { bookingId_employeeId: { bookingId: id, employeeId: actorEmployee.id } } });
+  if (!attendance) {
+    res.status(404).json({ error: 'not_found', message: 'Du bist zu dieser Buchung nicht eingeladen' });
+    return;
+  }
+
+  const updated = await prisma.bookingAttendee.update({
+    where: { id: attendance.id },
+    data: { response, respondedAt: new Date() },
+    include: { employee: { select: { displayName: true, email: true } } }
+  });
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'BookingAttendee', entityId: updated.id, before: attendance, after: updated });
+  res.status(200).json(mapBookingAttendee(updated));
+});
+
+app.get('/bookings/:id/cancel-preview', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  const requestId = req.requestId ?? 'unknown';
+  const userId = req.authUser?.id ?? null;
+
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const existing = await prisma.booking.findUnique({
+    where: { id },
+    include: {
+      desk: { select: { kind: true } },
+      recurringBooking: {
+        select: {
+          id: true,
+          startDate: true,
+          endDate: true,
+          patternType: true,
+          interval: true
+        }
+      }
+    }
+  });
+
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Buchung nicht gefunden' });
+    return;
+  }
+
+  if (!req.authUser) {
+    res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    console.warn('BOOKING_CANCEL_PREVIEW', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status, error: (error as Error).message });
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const allowed = canCancelBooking({
+    booking: {
+      bookedFor: existing.bookedFor,
+      employeeId: existing.employeeId,
+      createdByEmployeeId: existing.createdByEmployeeId,
+      roomDisplayId: existing.roomDisplayId
+    },
+    actor: {
+      employeeId: actorEmployee.id,
+      email: req.authUser.email,
+      isAdmin: req.authUser.role === 'admin',
+      principalEmployeeIds: await getBookingPrincipalIds(actorEmployee.id)
+    }
+  });
+
+  if (!allowed) {
+    res.status(403).json({ code: 'FORBIDDEN', message: 'Du darfst diese Buchung nicht stornieren' });
+    return;
+  }
+
+  const seriesWhereClauses: Array<{ recurringBookingId?: string; recurringGroupId?: string }> = [];
+  if (existing.recurringBookingId) seriesWhereClauses.push({ recurringBookingId: existing.recurringBookingId });
+  if (existing.recurringGroupId) seriesWhereClauses.push({ recurringGroupId: existing.recurringGroupId });
+  const isSeries = seriesWhereClauses.length > 0;
+
+  const seriesBookingCount = isSeries
+    ? await prisma.booking.count({ where: { OR: seriesWhereClauses } })
+    : 1;
+
+  res.status(200).json({
+    bookingId: existing.id,
+    isSeries,
+    seriesBookingCount,
+    recurringBookingId: existing.recurringBookingId,
+    recurringGroupId: existing.recurringGroupId,
+    recurrence: existing.recurringBooking
+      ? {
+        id: existing.recurringBooking.id,
+        startDate: existing.recurringBooking.startDate,
+        endDate: existing.recurringBooking.endDate,
+        patternType: existing.recurringBooking.patternType,
+        interval: existing.recurringBooking.interval
+      }
+      : null
+  });
+});
+
+app.post('/bookings/:id/cancel', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const scope = parseBookingCancelScope((req.body as { scope?: unknown } | undefined)?.scope ?? 'single');
+  if (!scope) {
+    res.status(400).json({ error: 'validation', message: 'scope muss single, series oder resource_day_self sein' });
+    return;
+  }
+
+  await cancelBookingByScope({ id, scope, req, res });
+});
+
+app.post('/bookings/:id/check-in', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const existing = await prisma.booking.findUnique({
+    where: { id },
+    include: {
+      createdByEmployee: { select: { id: true, displayName: true, email: true } },
+      desk: { select: { kind: true, floorplan: { select: { deskCheckInGraceMinutes: true, parkingCheckInGraceMinutes: true } } } }
+    }
+  });
+  if (!existing) {
+    res.status(404).json({ error: 'not_found', message: 'Buchung nicht gefunden' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const allowed = canCancelBooking({
+    booking: {
+      bookedFor: existing.bookedFor,
+      employeeId: existing.employeeId,
+      createdByEmployeeId: existing.createdByEmployeeId,
+      roomDisplayId: existing.roomDisplayId
+    },
+    actor: {
+      employeeId: actorEmployee.id,
+      email: req.authUser?.email ?? actorEmployee.email,
+      isAdmin: req.authUser?.role === 'admin'
+    }
+  });
+  if (!allowed) {
+    res.status(403).json({ code: 'FORBIDDEN', message: 'Du darfst für diese Buchung nicht einchecken' });
+    return;
+  }
+
+  if (existing.checkInStatus === 'CHECKED_IN') {
+    res.status(200).json(mapBookingResponse(existing));
+    return;
+  }
+
+  const graceMinutes = resolveCheckInGraceMinutes(existing.desk.kind, existing.desk.floorplan);
+  if (graceMinutes === null) {
+    res.status(400).json({ error: 'validation', code: 'CHECK_IN_NOT_REQUIRED', message: 'Für diese Ressource ist kein Check-in erforderlich.' });
+    return;
+  }
+
+  const window = bookingToWindow(existing);
+  const berlinNow = getBerlinNow();
+  if (!window || toISODateOnly(existing.date) !== toISODateOnly(berlinNow.date) || !isCheckInOpen(window, berlinNow.minute)) {
+    res.status(409).json({ error: 'conflict', code: 'CHECK_IN_NOT_OPEN', message: 'Check-in ist nur am Buchungstag ab 30 Minuten vor Beginn möglich.' });
+    return;
+  }
+
+  const updated = await prisma.booking.update({
+    where: { id },
+    data: { checkInStatus: 'CHECKED_IN', checkedInAt: new Date() },
+    include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } }
+  });
+
+  queueOccupancyChange(updated);
+  flushOutboxes();
+  logBookingEvent('BOOKING_CHECKED_IN', { requestId: req.requestId ?? 'unknown', bookingId: id, deskId: existing.deskId, actorEmployeeId: actorEmployee.id });
+  await recordAuditEvent(req, { action: 'CHECK_IN', entityType: 'Booking', entityId: id, before: { checkInStatus: existing.checkInStatus, checkedInAt: existing.checkedInAt }, after: { checkInStatus: updated.checkInStatus, checkedInAt: updated.checkedInAt } });
+  res.status(200).json(mapBookingResponse(updated));
+});
+
+type FreedCapacity = { floorplanId: string; kind: ResourceKind; date: Date };
+type WaitlistEntryWithEmployee = Prisma.WaitlistEntryGetPayload<{ include: { employee: { select: { id: true; email: true; isActive: true; tenantDomainId: true } } } }>;
+type WaitlistEntryWithContext = Prisma.WaitlistEntryGetPayload<{ include: { floorplan: { select: { name: true } }; offeredDesk: { select: { id: true; name: true } } } }>;
+
+const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['WAITING', 'OFFERED'];
+
+const findFreedCapacity = async (tx: BookingTx, where: Prisma.BookingWhereInput): Promise<FreedCapacity[]> => {
+  const bookings = await tx.booking.findMany({
+    where: { AND: [where, { date: { gte: getBerlinNow().date } }] },
+    select: { date: true, desk: { select: { floorplanId: true, kind: true } } }
+  });
+  const byKey = new Map<string, FreedCapacity>();
+  for (const booking of bookings) {
+    byKey.set(`${booking.desk.floorplanId}|${booking.desk.kind}|${toISODateOnly(booking.date)}`, { floorplanId: booking.desk.floorplanId, kind: booking.desk.kind, date: booking.date });
+  }
+  return Array.from(byKey.values());
+};
+
+const toFreedCapacity = (desk: { floorplanId: string; kind: ResourceKind }, dates: Date[]): FreedCapacity[] => {
+  const today = getBerlinNow().date;
+  const byDate = new Map<string, Date>();
+  for (const date of dates) {
+    if (date >= today) byDate.set(toISODateOnly(date), date);
+  }
+  return Array.from(byDate.values()).map((date) => ({ floorplanId: desk.floorplanId, kind: desk.kind, date }));
+};
+
+const waitlistEntryToWindow = (entry: { daySlot: DaySlot | null; startMinute: number; endMinute: number }): BookingWindowInput => (
+  entry.daySlot ? { mode: 'day', daySlot: entry.daySlot } : { mode: 'time', startMinute: entry.startMinute, endMinute: entry.endMinute }
+);
+
+// The waitlist books on the waiter's behalf, so the booking policies of POST /bookings apply to every offer and auto-booking.
+const findWaitlistPolicyViolations = (entry: WaitlistEntryWithEmployee, identity: BookingIdentity): Promise<BookingPolicyViolation[]> => findBookingPolicyViolations({
+  floorplanId: entry.floorplanId,
+  kind: entry.kind,
+  tenantId: entry.employee.tenantDomainId,
+  emailAliases: identity.emailAliases,
+  candidates: [toPolicyCandidate(entry.date, waitlistEntryToWindow(entry))]
+});
+
+const createWaitlistBooking = async (entry: WaitlistEntryWithEmployee, deskId: string, identity: BookingIdentity) => {
+  const window = waitlistEntryToWindow(entry);
+  const date = entry.date;
+
+  return prisma.$transaction(async (tx) => {
+    await acquireBookingLock(tx, bookingUserKeyForDate(identity.userKey, date));
+    await acquireBookingLock(tx, bookingDeskKeyForDate(deskId, date));
+
+    const deskBookings = await tx.booking.findMany({ where: { deskId, date } });
+    const deskTaken = deskBookings.some((booking) => {
+      const bookingWindow = bookingToWindow(booking);
+      return bookingWindow ? windowsOverlap(window, bookingWindow) : false;
+    });
+    if (deskTaken) return null;
+    if (await findOverlappingBooking(tx, { identity, date, targetKind: entry.kind, window })) return null;
+
+    const booking = await tx.booking.create({
+      data: {
+        deskId,
+        userEmail: identity.normalizedEmail,
+        employeeId: entry.employeeId,
+        bookedFor: 'SELF',
+        guestName: null,
+        createdByEmployeeId: entry.employeeId,
+        createdByEmail: entry.employee.email,
+        date,
+        daySlot: window.mode === 'day' ? window.daySlot : null,
+        startTime: window.mode === 'time' ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), Math.floor(window.startMinute / 60), window.startMinute % 60, 0, 0)) : null,
+        endTime: window.mode === 'time' ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), Math.floor(window.endMinute / 60), window.endMinute % 60, 0, 0)) : null,
+        slot: window.mode === 'day' ? (window.daySlot === 'FULL' ? 'FULL_DAY' : window.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM',
+        startMinute: window.mode === 'time' ? window.startMinute : null,
+        endMinute: window.mode === 'time' ? window.endMinute : null
+      },
+      include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } }
+    });
+    await tx.waitlistEntry.update({ where: { id: entry.id }, data: { status: 'BOOKED', bookingId: booking.id, offeredDeskId: deskId, offerExpiresAt: null } });
+    await enqueueBookingWebhooks(tx, 'booking.created', [booking], { reason: 'waitlist' });
+    return booking;
+  });
+};
+
+type WaitlistBookingResult =
+  | { kind: 'booked'; booking: NonNullable<Awaited<ReturnType<typeof createWaitlistBooking>>> }
+  | { kind: 'not_available' }
+  | { kind: 'closed'; closure: ClosureRule }
+  | { kind: 'policy_violation'; violations: BookingPolicyViolation[] };
+
+const bookWaitlistEntry = async (entry: WaitlistEntryWithEmployee, deskId: string): Promise<WaitlistBookingResult> => {
+  const identity = await findBookingIdentity(entry.employee.email);
+  const closure = findClosureForWindow(await loadClosures(entry.floorplanId, entry.date, entry.date), { id: deskId, floorplanId: entry.floorplanId }, entry.date, waitlistEntryToWindow(entry));
+  if (closure) return { kind: 'closed', closure };
+  const violations = await findWaitlistPolicyViolations(entry, identity);
+  if (violations.length > 0) return { kind: 'policy_violation', violations };
+
+  const booking = await createWaitlistBooking(entry, deskId, identity);
+  return booking ? { kind: 'booked', booking } : { kind: 'not_available' };
+};
+
+const processWaitlist = async (scope: FreedCapacity): Promise<void> => {
+  try {
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { floorplanId: scope.floorplanId, kind: scope.kind, date: scope.date, status: 'WAITING' },
+      include: { employee: { select: { id: true, email: true, isActive: true, tenantDomainId: true, teamMemberships: { select: { teamId: true } } } } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+    if (entries.length === 0) return;
+
+    const [desks, bookings, openOffers, waiterBookings] = await Promise.all([
+      prisma.desk.findMany({
+        where: { floorplanId: scope.floorplanId, kind: scope.kind },
+        include: { floorplan: { select: { tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } }, zone: deskZoneSelect },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.booking.findMany({ where: { date: scope.date, desk: { floorplanId: scope.floorplanId, kind: scope.kind } } }),
+      prisma.waitlistEntry.findMany({ where: { floorplanId: scope.floorplanId, kind: scope.kind, date: scope.date, status: 'OFFERED', offeredDeskId: { not: null } } }),
+      prisma.booking.findMany({
+        where: {
+          date: scope.date,
+          bookedFor: 'SELF',
+          desk: { kind: scope.kind },
+          OR: [
+            { employeeId: { in: entries.map((entry) => entry.employeeId) } },
+            { userEmail: { in: entries.map((entry) => normalizeEmail(entry.employee.email)) } }
+          ]
+        }
+      })
+    ]);
+
+    const occupations = [
+      ...bookings.flatMap((booking) => {
+        const bookingWindow = bookingToWindow(booking);
+        if (!bookingWindow) return [];
+        const range = bookingWindow.mode === 'day' ? daySlotToMinuteRange(bookingWindow.daySlot) : bookingWindow;
+        return [{ deskId: booking.deskId, startMinute: range.startMinute, endMinute: range.endMinute }];
+      }),
+      ...openOffers.map((offer) => ({ deskId: offer.offeredDeskId as string, startMinute: offer.startMinute, endMinute: offer.endMinute }))
+    ];
+
+    const closures = await loadClosures(scope.floorplanId, scope.date, scope.date);
+    const policyBlockedEntryIds = new Set<string>();
+    for (const entry of entries.filter((candidate) => candidate.employee.isActive)) {
+      const violations = await findWaitlistPolicyViolations(entry, await findBookingIdentity(entry.employee.email));
+      if (violations.length === 0) continue;
+      policyBlockedEntryIds.add(entry.id);
+      logBookingEvent('WAITLIST_SKIPPED_POLICY', { waitlistEntryId: entry.id, employeeId: entry.employeeId, codes: violations.map((violation) => violation.code) }, 'warn');
+    }
+
+    // Waiters that a policy currently blocks stay on the list but are passed over, so the freed place goes to the next one.
+    const candidates = entries
+      .filter((entry) => entry.employee.isActive && !policyBlockedEntryIds.has(entry.id))
+      .filter((entry) => !waiterBookings.some((booking) => {
+        const isWaiter = booking.employeeId === entry.employeeId || (booking.userEmail ? normalizeEmail(booking.userEmail) === normalizeEmail(entry.employee.email) : false);
+        const bookingWindow = bookingToWindow(booking);
+        return isWaiter && bookingWindow ? windowsOverlap(waitlistEntryToWindow(entry), bookingWindow) : false;
+      }))
+      .map((entry) => ({
+        id: entry.id,
+        startMinute: entry.startMinute,
+        endMinute: entry.endMinute,
+        accessibleDeskIds: desks
+          .filter((desk) => isDeskAccessibleForTenant(desk, entry.employee.tenantDomainId, entry.employeeId, new Set(entry.employee.teamMemberships.map((membership) => membership.teamId))))
+          .filter((desk) => !findClosureForWindow(closures, desk, scope.date, waitlistEntryToWindow(entry)))
+          .map((desk) => desk.id)
+      }));
+
+    for (const assignment of assignWaitlistCapacity(candidates, occupations)) {
+      const entry = entries.find((candidate) => candidate.id === assignment.entryId);
+      if (!entry) continue;
+
+      if (entry.autoBook) {
+        const result = await bookWaitlistEntry(entry, assignment.deskId);
+        const booking = result.kind === 'booked' ? result.booking : null;
+        logBookingEvent(booking ? 'WAITLIST_AUTO_BOOKED' : 'WAITLIST_AUTO_BOOK_SKIPPED', {
+          waitlistEntryId: entry.id,
+          employeeId: entry.employeeId,
+          deskId: assignment.deskId,
+          bookingId: booking?.id ?? null,
+          reason: result.kind === 'booked' ? null : result.kind,
+          date: toISODateOnly(entry.date)
+        }, booking ? 'info' : 'warn');
+        if (booking) {
+          await recordAuditEvent(null, { action: 'WAITLIST_BOOK', entityType: 'Booking', entityId: booking.id, after: { ...booking, waitlistEntryId: entry.id } });
+          flushOutboxes();
+        }
+        continue;
+      }
+
+      await prisma.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: 'OFFERED', offeredDeskId: assignment.deskId, offerExpiresAt: new Date(Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000) }
+      });
+      logBookingEvent('WAITLIST_OFFERED', { waitlistEntryId: entry.id, employeeId: entry.employeeId, deskId: assignment.deskId, date: toISODateOnly(entry.date) });
+    }
+  } catch (error) {
+    console.error('WAITLIST_PROCESS_FAILED', { floorplanId: scope.floorplanId, kind: scope.kind, date: toISODateOnly(scope.date), error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const notifyWaitlistOfFreedCapacity = (freedCapacity: FreedCapacity[]): void => {
+  if (freedCapacity.length === 0) return;
+  void (async () => {
+    for (const scope of freedCapacity) {
+      await processWaitlist(scope);
+    }
+  })();
+};
+
+const expireWaitlistOffers = async (): Promise<void> => {
+  try {
+    const expiredOffers = await prisma.waitlistEntry.findMany({
+      where: { status: 'OFFERED', offerExpiresAt: { lte: new Date() } },
+      select: { id: true, floorplanId: true, kind: true, date: true }
+    });
+    if (expiredOffers.length === 0) return;
+
+    await prisma.waitlistEntry.updateMany({ where: { id: { in: expiredOffers.map((offer) => offer.id) }, status: 'OFFERED' }, data: { status: 'EXPIRED' } });
+    logBookingEvent('WAITLIST_OFFERS_EXPIRED', { count: expiredOffers.length, waitlistEntryIds: expiredOffers.map((offer) => offer.id) });
+    notifyWaitlistOfFreedCapacity(expiredOffers.map((offer) => ({ floorplanId: offer.floorplanId, kind: offer.kind, date: offer.date })));
+  } catch (error) {
+    console.error('WAITLIST_EXPIRE_FAILED', { error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const mapWaitlistEntryResponse = (entry: WaitlistEntryWithContext, position: number | null) => ({
+  id: entry.id,
+  floorplanId: entry.floorplanId,
+  floorplanName: entry.floorplan.name,
+  kind: entry.kind,
+  employeeId: entry.employeeId,
+  date: toISODateOnly(entry.date),
+  daySlot: entry.daySlot,
+  startTime: minuteToHHMM(entry.startMinute),
+  endTime: minuteToHHMM(entry.endMinute),
+  autoBook: entry.autoBook,
+  status: entry.status,
+  position,
+  offeredDesk: entry.offeredDesk,
+  offerExpiresAt: entry.offerExpiresAt,
+  bookingId: entry.bookingId,
+  createdAt: entry.createdAt
+});
+
+const resolveWaitlistPosition = async (entry: { floorplanId: string; kind: ResourceKind; date: Date; status: WaitlistStatus; createdAt: Date }): Promise<number | null> => {
+  if (entry.status !== 'WAITING') return null;
+  const ahead = await prisma.waitlistEntry.count({
+    where: { floorplanId: entry.floorplanId, kind: entry.kind, date: entry.date, status: 'WAITING', createdAt: { lt: entry.createdAt } }
+  });
+  return ahead + 1;
+};
+
+const WAITLIST_ENTRY_INCLUDE = { floorplan: { select: { name: true } }, offeredDesk: { select: { id: true, name: true } } } as const;
+
+app.get('/waitlist', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const date = typeof req.query.date === 'string' ? toDateOnly(req.query.date) : null;
+  if (typeof req.query.date === 'string' && !date) {
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  const entries = await prisma.waitlistEntry.findMany({
+    where: {
+      employeeId: actorEmployee.id,
+      status: { in: [...ACTIVE_WAITLIST_STATUSES, 'BOOKED'] },
+      date: date ?? { gte: getBerlinNow().date }
+    },
+    include: WAITLIST_ENTRY_INCLUDE,
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  res.status(200).json(await Promise.all(entries.map(async (entry) => mapWaitlistEntryResponse(entry, await resolveWaitlistPosition(entry)))));
+});
+
+app.post('/waitlist', async (req, res) => {
+  const { floorplanId, kind, date, daySlot, slot, startTime, endTime, autoBook } = req.body as {
+    floorplanId?: string;
+    kind?: string;
+    date?: string;
+    daySlot?: string;
+    slot?: string;
+    startTime?: string;
+    endTime?: string;
+    autoBook?: boolean;
+  };
+
+  if (!floorplanId || !kind || !date) {
+    res.status(400).json({ error: 'validation', message: 'floorplanId, kind und date sind erforderlich' });
+    return;
+  }
+
+  const parsedKind = parseResourceKind(kind);
+  if (!parsedKind) {
+    res.status(400).json({ error: 'validation', message: 'kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
+    return;
+  }
+
+  const parsedDate = toDateOnly(date);
+  if (!parsedDate) {
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+  if (parsedDate < getBerlinNow().date) {
+    res.status(400).json({ error: 'validation', message: 'Für vergangene Tage ist keine Warteliste möglich.' });
+    return;
+  }
+
+  if (typeof autoBook !== 'undefined' && typeof autoBook !== 'boolean') {
+    res.status(400).json({ error: 'validation', message: 'autoBook muss ein Boolean sein' });
+    return;
+  }
+
+  const windowResult = resolveBookingWindow({ deskKind: parsedKind, daySlot, slot, startTime, endTime });
+  if (!windowResult.ok) {
+    res.status(400).json({ error: 'validation', message: windowResult.message });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const floorplan = await prisma.floorplan.findUnique({ where: { id: floorplanId }, select: { id: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } });
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
+  if (!isFloorplanVisibleForTenant(floorplan, actorEmployee.tenantDomainId ?? null)) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar' });
+    return;
+  }
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: { employeeId: actorEmployee.id, floorplanId, kind: parsedKind, date: parsedDate, status: { in: ACTIVE_WAITLIST_STATUSES } }
+  });
+  if (existing) {
+    sendConflict(res, 'Du stehst für diesen Tag bereits auf der Warteliste.', { waitlistEntryId: existing.id });
+    return;
+  }
+
+  const window = windowResult.value;
+  const range = window.mode === 'day' ? daySlotToMinuteRange(window.daySlot) : window;
+  const created = await prisma.waitlistEntry.create({
+    data: {
+      floorplanId,
+      kind: parsedKind,
+      employeeId: actorEmployee.id,
+      date: parsedDate,
+      daySlot: window.mode === 'day' ? window.daySlot : null,
+      startMinute: range.startMinute,
+      endMinute: range.endMinute,
+      autoBook: autoBook ?? true
+    }
+  });
+  logBookingEvent('WAITLIST_JOINED', { waitlistEntryId: created.id, employeeId: actorEmployee.id, floorplanId, kind: parsedKind, date: toISODateOnly(parsedDate) });
+
+  await processWaitlist({ floorplanId, kind: parsedKind, date: parsedDate });
+  const entry = await prisma.waitlistEntry.findUniqueOrThrow({ where: { id: created.id }, include: WAITLIST_ENTRY_INCLUDE });
+  res.status(201).json(mapWaitlistEntryResponse(entry, await resolveWaitlistPosition(entry)));
+});
+
+app.post('/waitlist/:id/accept', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id },
+    include: { employee: { select: { id: true, email: true, isActive: true, tenantDomainId: true } } }
+  });
+  if (!entry || entry.employeeId !== actorEmployee.id) {
+    res.status(404).json({ error: 'not_found', message: 'Wartelisteneintrag nicht gefunden' });
+    return;
+  }
+
+  if (entry.status !== 'OFFERED' || !entry.offeredDeskId || !entry.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+    sendConflict(res, 'Das Angebot ist nicht mehr gültig.', { waitlistEntryId: id, status: entry.status });
+    return;
+  }
+
+  const result = await bookWaitlistEntry(entry, entry.offeredDeskId);
+  if (result.kind !== 'booked') {
+    await prisma.waitlistEntry.update({ where: { id }, data: { status: 'WAITING', offeredDeskId: null, offerExpiresAt: null } });
+    notifyWaitlistOfFreedCapacity([{ floorplanId: entry.floorplanId, kind: entry.kind, date: entry.date }]);
+    if (result.kind === 'closed') sendClosedConflict(res, result.closure);
+    else if (result.kind === 'policy_violation') sendPolicyViolation(res, result.violations);
+    else sendConflict(res, 'Der angebotene Platz ist nicht mehr frei. Du bleibst auf der Warteliste.', { waitlistEntryId: id, deskId: entry.offeredDeskId });
+    return;
+  }
+  const { booking } = result;
+
+  logBookingEvent('WAITLIST_OFFER_ACCEPTED', { waitlistEntryId: id, employeeId: actorEmployee.id, bookingId: booking.id, deskId: booking.deskId });
+  await recordAuditEvent(req, { action: 'WAITLIST_BOOK', entityType: 'Booking', entityId: booking.id, after: { ...booking, waitlistEntryId: id } });
+  flushOutboxes();
+  res.status(200).json(mapBookingResponse(booking));
+});
+
+app.delete('/waitlist/:id', async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const entry = await prisma.waitlistEntry.findUnique({ where: { id } });
+  if (!entry || (entry.employeeId !== actorEmployee.id && actorEmployee.role !== 'admin')) {
+    res.status(404).json({ error: 'not_found', message: 'Wartelisteneintrag nicht gefunden' });
+    return;
+  }
+
+  await prisma.waitlistEntry.delete({ where: { id } });
+  logBookingEvent('WAITLIST_LEFT', { waitlistEntryId: id, employeeId: entry.employeeId, actorEmployeeId: actorEmployee.id, status: entry.status });
+  if (entry.status === 'OFFERED') {
+    notifyWaitlistOfFreedCapacity([{ floorplanId: entry.floorplanId, kind: entry.kind, date: entry.date }]);
+  }
+  res.status(204).send();
+});
+
+
+app.post('/bookings/check-conflicts', async (req, res) => {
+  const { deskId, userEmail, userId, start, end, weekdays, type, daySlot, startTime, endTime } = req.body as {
+    deskId?: string;
+    userEmail?: string;
+    userId?: string;
+    start?: string;
+    end?: string;
+    weekdays?: number[];
+    type?: 'single' | 'range' | 'recurring';
+    daySlot?: string;
+    startTime?: string;
+    endTime?: string;
+  };
+
+  if (!deskId || !userEmail || !start || !type) {
+    res.status(400).json({ error: 'validation', message: 'deskId, userEmail, start und type sind erforderlich' });
+    return;
+  }
+
+  const parsedStart = toDateOnly(start);
+  const parsedEnd = toDateOnly(end ?? start);
+  if (!parsedStart || !parsedEnd) {
+    res.status(400).json({ error: 'validation', message: 'start/end muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  const desk = await getDeskContext(deskId);
+  if (!desk) {
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  if (!isDeskAccessibleForTenant(desk, actorEmployee.tenantDomainId, actorEmployee.id, await getEmployeeTeamIds(actorEmployee.id))) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar oder buchbar' });
+    return;
+  }
+
+  const requestWindowResult = resolveBookingWindow({ deskKind: desk.kind, daySlot, startTime, endTime });
+  if (!requestWindowResult.ok) {
+    res.status(400).json({ error: 'validation', message: requestWindowResult.message });
+    return;
+  }
+
+  const targetDates = datesInRange(parsedStart, parsedEnd).filter((date) => {
+    if (type === 'single') return toISODateOnly(date) === toISODateOnly(parsedStart);
+    if (type === 'recurring') return Boolean(weekdays?.includes(date.getUTCDay()));
+    return true;
+  });
+
+  if (targetDates.length === 0) {
+    res.status(200).json({ hasConflicts: false, conflictDates: [], conflictSlots: [], conflictBookingIds: [], conflictResourceLabels: [] });
+    return;
+  }
+
+  const identity = await findBookingIdentity(userEmail);
+  const conflicts = await prisma.booking.findMany({
+    where: {
+      date: { in: targetDates },
+      userEmail: { in: identity.emailAliases },
+      desk: { kind: desk.kind }
+    },
+    include: { desk: { select: { name: true, kind: true } } },
+    orderBy: [{ date: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }]
+  });
+
+  const byDate = new Map<string, { slots: DaySlot[]; resourceLabels: string[]; bookingIds: string[] }>();
+  for (const booking of conflicts) {
+    const bookingWindow = bookingToWindow(booking);
+    if (!bookingWindow || !windowsOverlap(requestWindowResult.value, bookingWindow)) continue;
+    const dateKey = toISODateOnly(booking.date);
+    const item = byDate.get(dateKey) ?? { slots: [], resourceLabels: [], bookingIds: [] };
+    const normalizedSlot = booking.daySlot ?? bookingSlotToDaySlot(booking.slot);
+    if (normalizedSlot && !item.slots.includes(normalizedSlot)) item.slots.push(normalizedSlot);
+    const deskName = booking.desk?.name ?? booking.deskId;
+    if (!item.resourceLabels.includes(deskName)) item.resourceLabels.push(deskName);
+    item.bookingIds.push(booking.id);
+    byDate.set(dateKey, item);
+  }
+
+  const conflictDates = Array.from(byDate.keys());
+  res.status(200).json({
+    hasConflicts: conflictDates.length > 0,
+    conflictDates,
+    conflictBookingIds: conflictDates.flatMap((dateKey) => byDate.get(dateKey)?.bookingIds ?? []),
+    conflictResourceLabels: conflictDates.flatMap((dateKey) => byDate.get(dateKey)?.resourceLabels ?? []),
+    conflictSlots: conflictDates.map((dateISO) => ({ dateISO, slots: byDate.get(dateISO)?.slots ?? [], resourceLabels: byDate.get(dateISO)?.resourceLabels ?? [] })),
+    conflictKind: desk.kind,
+    userId
+  });
+});
+
+
+
+type ParkingSmartRequest = {
+  floorplanId?: string;
+  date?: string;
+  arrivalTime?: string;
+  departureTime?: string;
+  chargingMinutes?: number;
+};
+
+const loadSmartParkingSpots = async (floorplanId: string, actorEmployee: { id: string; tenantDomainId?: string | null }) => {
+  const spots = await prisma.desk.findMany({
+    where: { floorplanId, kind: 'PARKPLATZ' },
+    select: {
+      id: true,
+      name: true,
+      hasCharger: true,
+      tenantScope: true,
+      employeeScope: true,
+      deskTenants: { select: { tenantId: true } },
+      deskEmployees: { select: { employeeId: true } },
+      floorplan: { select: { tenantScope: true, floorplanTenants: { select: { tenantId: true } } } },
+      zone: deskZoneSelect
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+  const actorTeamIds = await getEmployeeTeamIds(actorEmployee.id);
+  return spots.filter((spot) => isDeskAccessibleForTenant(spot, actorEmployee.tenantDomainId, actorEmployee.id, actorTeamIds));
+};
+
+// Existing bookings per day as minute windows. Closures occupy the spot like a booking so a proposal never
+// routes anyone onto a closed spot.
+const loadParkingOccupancy = async (floorplanId: string, spotIds: string[], dates: Date[]): Promise<Map<string, ParkingBooking[]>> => {
+  const occupancy = new Map<string, ParkingBooking[]>(dates.map((date) => [toISODateOnly(date), []]));
+  const bookings = await prisma.booking.findMany({ where: { date: { in: dates }, deskId: { in: spotIds } } });
+  for (const booking of bookings) {
+    const candidateWindow = bookingToWindow(booking);
+    if (!candidateWindow) continue;
+    const timeWindow = candidateWindow.mode === 'day' ? daySlotToMinuteRange(candidateWindow.daySlot) : candidateWindow;
+    occupancy.get(toISODateOnly(booking.date))?.push({ deskId: booking.deskId, startMinute: timeWindow.startMinute, endMinute: timeWindow.endMinute });
+  }
+
+  const sortedDates = [...dates].sort((left, right) => left.getTime() - right.getTime());
+  const closures = await loadClosures(floorplanId, sortedDates[0], sortedDates[sortedDates.length - 1]);
+  for (const [dateKey, entries] of occupancy) {
+    for (const closure of closures) {
+      if (dateKey < closure.startDate || dateKey > closure.endDate) continue;
+      for (const spotId of spotIds) {
+        if (closure.deskId !== null && closure.deskId !== spotId) continue;
+        entries.push({ deskId: spotId, startMinute: closure.startMinute ?? 0, endMinute: closure.endMinute ?? 24 * 60 });
+      }
+    }
+  }
+  return occupancy;
+};
+
+const toNamedParkingBookings = (
+  spots: Array<{ id: string; name: string }>,
+  entries: Array<{ deskId: string; startMinute: number; endMinute: number; hasCharger: boolean }>
+) => entries.map((entry) => ({
+  ...entry,
+  deskName: spots.find((spot) => spot.id === entry.deskId)?.name ?? entry.deskId,
+  startTime: minuteToHHMM(entry.startMinute),
+  endTime: minuteToHHMM(entry.endMinute)
+}));
+
+app.post('/bookings/parking-smart/propose', async (req, res) => {
+  const { floorplanId, date, arrivalTime, departureTime, chargingMinutes } = req.body as ParkingSmartRequest;
+  const requestId = bookingRequestId();
+  logBookingEvent('SMART_PROPOSE_REQUEST_RECEIVED', {
+    requestId,
+    actorEmail: req.authUser?.email ?? null,
+    actorRole: req.authUser?.role ?? null,
+    floorplanId: floorplanId ?? null,
+    date: date ?? null,
+    arrivalTime: arrivalTime ?? null,
+    departureTime: departureTime ?? null,
+    chargingMinutes: typeof chargingMinutes === 'number' ? chargingMinutes : null
+  });
+  if (!floorplanId || !date || !arrivalTime || !departureTime || typeof chargingMinutes !== 'number') {
+    logBookingEvent('SMART_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'required input missing' }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'floorplanId, date, arrivalTime, departureTime und chargingMinutes sind erforderlich' });
+    return;
+  }
+
+  const parsedDate = toDateOnly(date);
+  const parsedArrivalMinute = parseTimeToMinute(arrivalTime);
+  const parsedDepartureMinute = parseTimeToMinute(departureTime);
+  if (!parsedDate || parsedArrivalMinute === null || parsedDepartureMinute === null) {
+    logBookingEvent('SMART_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'invalid date/arrival/departure', date, arrivalTime, departureTime }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'date/arrivalTime/departureTime ungültig' });
+    return;
+  }
+
+  const totalMinutes = parsedDepartureMinute - parsedArrivalMinute;
+  if (totalMinutes <= 0) {
+    logBookingEvent('SMART_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'departure must be after arrival', arrivalTime, departureTime }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'Abreise muss nach der Anreise liegen.' });
+    return;
+  }
+
+  const requestedCharging = Math.max(0, Math.floor(chargingMinutes));
+  const normalizedCharging = Math.min(totalMinutes, requestedCharging);
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const accessibleSpots = await loadSmartParkingSpots(floorplanId, actorEmployee);
+  if (accessibleSpots.length === 0) {
+    logBookingEvent('SMART_PROPOSE_NOT_FOUND', { requestId, reason: 'no accessible parking spots', floorplanId }, 'warn');
+    res.status(404).json({ error: 'not_found', message: 'Keine buchbaren Parkplätze gefunden.' });
+    return;
+  }
+
+  const normalizedBookings = (await loadParkingOccupancy(floorplanId, accessibleSpots.map((spot) => spot.id), [parsedDate])).get(toISODateOnly(parsedDate)) ?? [];
+
+  const proposal = buildParkingAssignmentProposal({
+    startMinute: parsedArrivalMinute,
+    attendanceMinutes: totalMinutes,
+    chargingMinutes: normalizedCharging,
+    spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger })),
+    bookings: normalizedBookings
+  });
+  logBookingEvent('SMART_PROPOSE_DEPENDENCIES', {
+    requestId,
+    spotsCount: accessibleSpots.length,
+    normalizedBookingsCount: normalizedBookings.length,
+    totalMinutes,
+    requestedCharging,
+    normalizedCharging,
+    parsedArrivalMinute
+  }, 'debug');
+
+  const toNamedBookings = (entries: Array<{ deskId: string; startMinute: number; endMinute: number; hasCharger: boolean }>) => toNamedParkingBookings(accessibleSpots, entries);
+
+  if (normalizedCharging > 0 && proposal.type === 'none') {
+    let shorterProposal: ReturnType<typeof buildParkingAssignmentProposal> | null = null;
+    let offeredChargingMinutes = normalizedCharging;
+    for (let candidate = normalizedCharging - 30; candidate >= 30; candidate -= 30) {
+      const candidateProposal = buildParkingAssignmentProposal({
+        startMinute: parsedArrivalMinute,
+        attendanceMinutes: totalMinutes,
+        chargingMinutes: candidate,
+        spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger })),
+        bookings: normalizedBookings
+      });
+      if (candidateProposal.type !== 'none') {
+        shorterProposal = candidateProposal;
+        offeredChargingMinutes = candidate;
+        break;
+      }
+    }
+
+    if (shorterProposal) {
+      const namedBookings = toNamedBookings(shorterProposal.bookings);
+      res.status(200).json({
+        status: 'ok',
+        proposalType: shorterProposal.type,
+        usedFallbackChargerFullWindow: shorterProposal.usedFallbackChargerFullWindow,
+        switchAfterCharging: shorterProposal.bookings.length === 2,
+        adjustedChargingMinutes: offeredChargingMinutes,
+        message: `Die gewünschte Ladedauer war nicht komplett frei. Es ist ein kürzeres Ladefenster von ${Math.floor(offeredChargingMinutes / 60)}h ${offeredChargingMinutes % 60}min verfügbar.`,
+        bookings: namedBookings
+      });
+      return;
+    }
+
+    const noChargingFallback = buildParkingAssignmentProposal({
+      startMinute: parsedArrivalMinute,
+      attendanceMinutes: totalMinutes,
+      chargingMinutes: 0,
+      spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger })),
+      bookings: normalizedBookings
+    });
+
+    if (noChargingFallback.type !== 'none') {
+      const namedFallbackBookings = toNamedBookings(noChargingFallback.bookings);
+      res.status(200).json({
+        status: 'none',
+        reason: 'ALL_CHARGING_BOOKED',
+        message: 'Alle Ladezeiten sind im gewählten Zeitraum belegt. Möchtest du stattdessen einen normalen Parkplatz ohne Laden buchen?',
+        fallbackWithoutCharging: {
+          proposalType: noChargingFallback.type,
+          usedFallbackChargerFullWindow: noChargingFallback.usedFallbackChargerFullWindow,
+          switchAfterCharging: noChargingFallback.bookings.length === 2,
+          bookings: namedFallbackBookings
+        }
+      });
+      return;
+    }
+  }
+
+  if (proposal.type === 'none') {
+    logBookingEvent('SMART_PROPOSE_NO_MATCH', { requestId, reason: proposal.reason, floorplanId, date }, 'warn');
+    res.status(200).json({ status: 'none', reason: proposal.reason, message: 'Keine passende Kombination verfügbar.', waitlistAvailable: proposal.reason === 'NO_PARKING' });
+    return;
+  }
+
+  const namedBookings = toNamedBookings(proposal.bookings);
+
+  res.status(200).json({
+    status: 'ok',
+    proposalType: proposal.type,
+    usedFallbackChargerFullWindow: proposal.usedFallbackChargerFullWindow,
+    switchAfterCharging: proposal.bookings.length === 2,
+    bookings: namedBookings
+  });
+  logBookingEvent('SMART_PROPOSE_SUCCESS', {
+    requestId,
+    proposalType: proposal.type,
+    usedFallbackChargerFullWindow: proposal.usedFallbackChargerFullWindow,
+    bookings: namedBookings.map((entry) => ({ deskId: entry.deskId, deskName: entry.deskName, startTime: entry.startTime, endTime: entry.endTime }))
+  });
+});
+
+type ParkingSmartWeekRequest = {
+  floorplanId?: string;
+  days?: Array<Omit<ParkingSmartRequest, 'floorplanId'>>;
+};
+
+// Plans up to a week in one go so a commuter keeps the same spot; the days are booked together through
+// /bookings/parking-smart/confirm with `days`.
+app.post('/bookings/parking-smart/propose-week', async (req, res) => {
+  const { floorplanId, days } = req.body as ParkingSmartWeekRequest;
+  const requestId = bookingRequestId();
+  logBookingEvent('SMART_WEEK_PROPOSE_REQUEST_RECEIVED', {
+    requestId,
+    actorEmail: req.authUser?.email ?? null,
+    floorplanId: floorplanId ?? null,
+    dayCount: Array.isArray(days) ? days.length : null
+  });
+  if (!floorplanId || !Array.isArray(days) || days.length === 0 || days.length > MAX_PARKING_WEEK_DAYS) {
+    logBookingEvent('SMART_WEEK_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'required input missing' }, 'warn');
+    res.status(400).json({ error: 'validation', message: `floorplanId und 1 bis ${MAX_PARKING_WEEK_DAYS} Tage sind erforderlich` });
+    return;
+  }
+
+  const plannedDays: Array<Omit<ParkingWeekDay, 'bookings'> & { parsedDate: Date }> = [];
+  for (const day of days) {
+    const parsedDate = day.date ? toDateOnly(day.date) : null;
+    const arrivalMinute = day.arrivalTime ? parseTimeToMinute(day.arrivalTime) : null;
+    const departureMinute = day.departureTime ? parseTimeToMinute(day.departureTime) : null;
+    if (!parsedDate || arrivalMinute === null || departureMinute === null) {
+      logBookingEvent('SMART_WEEK_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'invalid date/arrival/departure', day }, 'warn');
+      res.status(400).json({ error: 'validation', message: 'date/arrivalTime/departureTime ungültig' });
+      return;
+    }
+    if (departureMinute <= arrivalMinute) {
+      res.status(400).json({ error: 'validation', message: 'Abreise muss nach der Anreise liegen.' });
+      return;
+    }
+    if (plannedDays.some((entry) => entry.date === toISODateOnly(parsedDate))) {
+      res.status(400).json({ error: 'validation', message: 'Jeder Tag darf nur einmal vorkommen.' });
+      return;
+    }
+    plannedDays.push({
+      date: toISODateOnly(parsedDate),
+      parsedDate,
+      startMinute: arrivalMinute,
+      attendanceMinutes: departureMinute - arrivalMinute,
+      chargingMinutes: typeof day.chargingMinutes === 'number' ? Math.max(0, Math.floor(day.chargingMinutes)) : 0
+    });
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const accessibleSpots = await loadSmartParkingSpots(floorplanId, actorEmployee);
+  if (accessibleSpots.length === 0) {
+    logBookingEvent('SMART_WEEK_PROPOSE_NOT_FOUND', { requestId, reason: 'no accessible parking spots', floorplanId }, 'warn');
+    res.status(404).json({ error: 'not_found', message: 'Keine buchbaren Parkplätze gefunden.' });
+    return;
+  }
+
+  const occupancy = await loadParkingOccupancy(floorplanId, accessibleSpots.map((spot) => spot.id), plannedDays.map((day) => day.parsedDate));
+  const proposal = buildParkingWeekProposal({
+    days: plannedDays.map(({ parsedDate: _parsedDate, ...day }) => ({ ...day, bookings: occupancy.get(day.date) ?? [] })),
+    spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger }))
+  });
+
+  const spotName = (spotId: string | null) => (spotId ? accessibleSpots.find((spot) => spot.id === spotId)?.name ?? spotId : null);
+  const plannedCount = proposal.days.filter((day) => day.proposal.type !== 'none').length;
+  const response = {
+    status: plannedCount === proposal.days.length ? 'ok' : plannedCount === 0 ? 'none' : 'partial',
+    homeDeskId: proposal.homeSpotId,
+    homeDeskName: spotName(proposal.homeSpotId),
+    homeChargerId: proposal.homeChargerId,
+    homeChargerName: spotName(proposal.homeChargerId),
+    days: proposal.days.map((day) => (day.proposal.type === 'none'
+      ? { date: day.date, status: 'none', reason: day.proposal.reason, message: 'Keine passende Kombination verfügbar.', requestedChargingMinutes: day.requestedChargingMinutes, chargingMinutes: 0, bookings: [] }
+      : {
+        date: day.date,
+        status: 'ok',
+        proposalType: day.proposal.type,
+        usedFallbackChargerFullWindow: day.proposal.usedFallbackChargerFullWindow,
+        requestedChargingMinutes: day.requestedChargingMinutes,
+        chargingMinutes: day.chargingMinutes,
+        bookings: toNamedParkingBookings(accessibleSpots, day.proposal.bookings)
+      }))
+  };
+  logBookingEvent('SMART_WEEK_PROPOSE_RESULT', {
+    requestId,
+    status: response.status,
+    homeDeskId: proposal.homeSpotId,
+    homeChargerId: proposal.homeChargerId,
+    days: response.days.map((day) => ({ date: day.date, status: day.status, deskIds: day.bookings.map((entry) => entry.deskId) }))
+  });
+  res.status(200).json(response);
+});
+
+type ParkingSmartConfirmEntry = { deskId: string; startMinute: number; endMinute: number };
+
+app.post('/bookings/parking-smart/confirm', async (req, res) => {
+  const { date, bookings, days, bookedFor, guestName } = req.body as {
+    date?: string;
+    bookings?: ParkingSmartConfirmEntry[];
+    days?: Array<{ date?: string; bookings?: ParkingSmartConfirmEntry[] }>;
+    bookedFor?: string;
+    guestName?: string;
+  };
+  const requestId = bookingRequestId();
+  // A week proposal is confirmed as `days`; a single day may still send `date` and `bookings` directly.
+  const requestedDays = Array.isArray(days) ? days : [{ date, bookings }];
+  logBookingEvent('SMART_CONFIRM_REQUEST_RECEIVED', {
+    requestId,
+    actorEmail: req.authUser?.email ?? null,
+    actorRole: req.authUser?.role ?? null,
+    date: date ?? null,
+    dayCount: requestedDays.length,
+    bookedForRaw: bookedFor ?? null,
+    bookingCount: requestedDays.reduce((sum, day) => sum + (Array.isArray(day.bookings) ? day.bookings.length : 0), 0)
+  });
+  if (requestedDays.length === 0 || requestedDays.length > MAX_PARKING_WEEK_DAYS || requestedDays.some((day) => !day.date || !Array.isArray(day.bookings) || day.bookings.length === 0)) {
+    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'date/bookings missing' }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'date und bookings sind erforderlich' });
+    return;
+  }
+
+  const currentUser = req.authUser;
+  if (!currentUser) {
+    logBookingEvent('SMART_CONFIRM_UNAUTHORIZED', { requestId, reason: 'auth user missing' }, 'warn');
+    res.status(401).json({ error: 'unauthorized', message: 'Anmeldung erforderlich' });
+    return;
+  }
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    logBookingEvent('SMART_CONFIRM_ACTOR_RESOLUTION_FAILED', { requestId, status, error: (error as Error).message }, 'warn');
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
 
-    const personalConflict = personalParkingConflicts.find((candidate) => {
-      const candidateWindow = bookingToWindow(candidate);
-      return candidateWindow ? windowsOverlap(nextWindow, candidateWindow) : false;
+  const plannedDays: Array<{ date: Date; entries: ParkingSmartConfirmEntry[] }> = [];
+  for (const day of requestedDays) {
+    const parsedDate = toDateOnly(day.date as string);
+    if (!parsedDate) {
+      logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'invalid date', date: day.date }, 'warn');
+      res.status(400).json({ error: 'validation', message: 'date ungültig' });
+      return;
+    }
+    if (plannedDays.some((entry) => entry.date.getTime() === parsedDate.getTime())) {
+      logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'duplicate date', date: day.date }, 'warn');
+      res.status(400).json({ error: 'validation', message: 'Jeder Tag darf nur einmal vorkommen.' });
+      return;
+    }
+    plannedDays.push({
+      date: parsedDate,
+      entries: (day.bookings as ParkingSmartConfirmEntry[]).map((booking) => ({
+        deskId: booking.deskId,
+        startMinute: Math.floor(booking.startMinute),
+        endMinute: Math.floor(booking.endMinute)
+      }))
     });
+  }
 
-    if (personalConflict) {
-      logBookingEvent('MANUAL_UPDATE_CONFLICT_USER_HAS_PARKING_OVERLAP', {
+  const bookingMode = parseBookedFor(bookedFor);
+  const normalizedGuestName = normalizeGuestName(guestName);
+  if (bookingMode === 'GUEST' && (!normalizedGuestName || normalizedGuestName.length < 2)) {
+    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'guestName too short', bookingMode, guestNameLength: normalizedGuestName?.length ?? 0 }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'guestName muss mindestens 2 Zeichen haben.' });
+    return;
+  }
+
+  const allEntries = plannedDays.flatMap((day) => day.entries);
+  if (allEntries.some((entry) => !entry.deskId || !Number.isFinite(entry.startMinute) || !Number.isFinite(entry.endMinute) || entry.endMinute <= entry.startMinute)) {
+    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'bookings invalid', bookings: allEntries }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'bookings ungültig' });
+    return;
+  }
+
+  for (const { entries: validated } of plannedDays) {
+    const overlappingPayloadEntry = validated.find((entry, index) => validated.some((candidate, candidateIndex) => {
+      if (index === candidateIndex || entry.deskId !== candidate.deskId) return false;
+      return parkingWindowsOverlap(entry, candidate);
+    }));
+
+    const overlappingUserPayload = validated.find((entry, index) => validated.some((candidate, candidateIndex) => {
+      if (index === candidateIndex) return false;
+      return parkingWindowsOverlap(entry, candidate);
+    }));
+    if (overlappingPayloadEntry) {
+      logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', {
         requestId,
-        bookingId: existing.id,
-        conflictingBookingId: personalConflict.id,
-        conflictingDeskId: personalConflict.deskId,
-        date: toISODateOnly(bookingDate)
+        reason: 'overlapping bookings in payload',
+        deskId: overlappingPayloadEntry.deskId,
+        startMinute: overlappingPayloadEntry.startMinute,
+        endMinute: overlappingPayloadEntry.endMinute
       }, 'warn');
-      sendConflict(res, 'User already has a parking booking for this time window', {
-        conflictKind: 'PARKPLATZ',
-        bookingId: personalConflict.id,
-        deskId: personalConflict.deskId,
-        deskName: personalConflict.desk?.name ?? personalConflict.deskId,
-        date: toISODateOnly(bookingDate)
-      });
+      res.status(409).json({ error: 'conflict', message: 'Überlappende Buchungszeiten für denselben Parkplatz sind nicht erlaubt.' });
+      return;
+    }
+
+    if (bookingMode === 'SELF' && overlappingUserPayload) {
+      logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'overlapping user bookings in payload' }, 'warn');
+      res.status(409).json({ error: 'conflict', message: 'Du kannst im selben Zeitraum nur einen Parkplatz buchen.' });
       return;
     }
   }
 
-  const updated = await prisma.booking.update({
-    where: { id },
-    data: {
-      deskId,
-      employeeId: existing.bookedFor === 'SELF' ? actorEmployee.id : null,
-      guestName: nextGuestName,
-      createdByEmployeeId: actorEmployee.id,
-      daySlot: nextWindow.mode === 'day' ? nextWindow.daySlot : null,
-      startMinute: nextWindow.mode === 'time' ? nextWindow.startMinute : null,
-      endMinute: nextWindow.mode === 'time' ? nextWindow.endMinute : null,
-      startTime: nextWindow.mode === 'time' ? new Date(Date.UTC(bookingDate.getUTCFullYear(), bookingDate.getUTCMonth(), bookingDate.getUTCDate(), Math.floor(nextWindow.startMinute / 60), nextWindow.startMinute % 60, 0, 0)) : null,
-      endTime: nextWindow.mode === 'time' ? new Date(Date.UTC(bookingDate.getUTCFullYear(), bookingDate.getUTCMonth(), bookingDate.getUTCDate(), Math.floor(nextWindow.endMinute / 60), nextWindow.endMinute % 60, 0, 0)) : null,
-      slot: nextWindow.mode === 'day' ? (nextWindow.daySlot === 'FULL' ? 'FULL_DAY' : nextWindow.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM'
-    },
-    include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } }
-  });
-  logBookingEvent('MANUAL_UPDATE_SUCCESS', {
-    requestId,
-    bookingId: updated.id,
-    deskId: updated.deskId,
-    date: toISODateOnly(updated.date),
-    slot: updated.slot,
-    startMinute: updated.startMinute,
-    endMinute: updated.endMinute,
-    actorEmployeeId: actorEmployee.id
+  const deskIds = Array.from(new Set(allEntries.map((entry) => entry.deskId)));
+  const desks = await prisma.desk.findMany({ where: { id: { in: deskIds } }, select: { id: true, kind: true } });
+  if (desks.length !== deskIds.length || desks.some((desk) => desk.kind !== 'PARKPLATZ')) {
+    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'non parking resource in payload', deskIds }, 'warn');
+    res.status(400).json({ error: 'validation', message: 'Nur PARKPLATZ-Ressourcen sind erlaubt.' });
+    return;
+  }
+
+  const deskContexts = await prisma.desk.findMany({
+    where: { id: { in: deskIds } },
+    select: {
+      id: true,
+      floorplanId: true,
+      tenantScope: true,
+      employeeScope: true,
+      deskTenants: { select: { tenantId: true } },
+      deskEmployees: { select: { employeeId: true } },
+      floorplan: { select: { tenantScope: true, floorplanTenants: { select: { tenantId: true } } } },
+      zone: deskZoneSelect
+    }
   });
-  res.status(200).json(mapBookingResponse(updated));
-});
+  const actorTeamIds = await getEmployeeTeamIds(actorEmployee.id);
+  const inaccessible = deskContexts.filter((desk) => !isDeskAccessibleForTenant(desk, actorEmployee.tenantDomainId, actorEmployee.id, actorTeamIds));
+  if (inaccessible.length > 0) {
+    logBookingEvent('SMART_CONFIRM_FORBIDDEN_TENANT_MISMATCH', {
+      requestId,
+      actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
+      inaccessibleDeskIds: inaccessible.map((desk) => desk.id)
+    }, 'warn');
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht buchbar' });
+    return;
+  }
 
-type BookingCancelScope = 'single' | 'series' | 'resource_day_self';
+  const sortedDates = plannedDays.map((day) => day.date).sort((left, right) => left.getTime() - right.getTime());
+  const closuresByFloorplan = new Map<string, ClosureRule[]>();
+  for (const floorplanId of Array.from(new Set(deskContexts.map((desk) => desk.floorplanId)))) {
+    closuresByFloorplan.set(floorplanId, await loadClosures(floorplanId, sortedDates[0], sortedDates[sortedDates.length - 1]));
+  }
+  for (const day of plannedDays) {
+    for (const entry of day.entries) {
+      const deskContext = deskContexts.find((desk) => desk.id === entry.deskId);
+      if (!deskContext) continue;
+      const closure = findClosureForWindow(closuresByFloorplan.get(deskContext.floorplanId) ?? [], deskContext, day.date, { mode: 'time', startMinute: entry.startMinute, endMinute: entry.endMinute });
+      if (closure) {
+        logBookingEvent('SMART_CONFIRM_RESOURCE_CLOSED', { requestId, deskId: entry.deskId, date: toISODateOnly(day.date), closureId: closure.id }, 'warn');
+        sendClosedConflict(res, closure);
+        return;
+      }
+    }
+  }
 
-const parseBookingCancelScope = (value: unknown): BookingCancelScope | null => {
-  if (typeof value !== 'string') return null;
-  const normalized = value.trim().toLowerCase();
-  if (normalized === 'single' || normalized === 'series' || normalized === 'resource_day_self') return normalized;
-  return null;
-};
+  // A charging split is one stay on the parking lot, so duration limits apply to the whole arrival-to-departure window.
+  const smartEmailAliases = bookingMode === 'SELF' ? (await findBookingIdentity(actorEmployee.email)).emailAliases : null;
+  for (const floorplanId of Array.from(new Set(deskContexts.map((desk) => desk.floorplanId)))) {
+    const floorplanDeskIds = new Set(deskContexts.filter((desk) => desk.floorplanId === floorplanId).map((desk) => desk.id));
+    const candidates = plannedDays.flatMap((day) => {
+      const entries = day.entries.filter((entry) => floorplanDeskIds.has(entry.deskId));
+      if (entries.length === 0) return [];
+      return [toPolicyCandidate(day.date, {
+        mode: 'time',
+        startMinute: Math.min(...entries.map((entry) => entry.startMinute)),
+        endMinute: Math.max(...entries.map((entry) => entry.endMinute))
+      })];
+    });
+    const policyViolations = await findBookingPolicyViolations({
+      floorplanId,
+      kind: 'PARKPLATZ',
+      tenantId: actorEmployee.tenantDomainId,
+      emailAliases: smartEmailAliases,
+      candidates
+    });
+    if (policyViolations.length > 0) {
+      logBookingEvent('SMART_CONFIRM_POLICY_VIOLATION', { requestId, floorplanId, violations: policyViolations }, 'warn');
+      sendPolicyViolation(res, policyViolations);
+      return;
+    }
+  }
 
-const cancelBookingByScope = async ({ id, scope, req, res }: { id: string; scope: BookingCancelScope; req: express.Request; res: express.Response }) => {
-  const requestId = req.requestId ?? 'unknown';
-  const userId = req.authUser?.id ?? null;
+  logBookingEvent('SMART_CONFIRM_DEPENDENCIES', {
+    requestId,
+    actorEmployeeId: actorEmployee.id,
+    actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
+    bookingMode,
+    deskIds,
+    windows: plannedDays.map((day) => ({ date: toISODateOnly(day.date), entries: day.entries }))
+  }, 'debug');
 
   try {
-    const existing = await prisma.booking.findUnique({
-      where: { id },
-      include: { desk: { select: { kind: true } } }
+    // All days are committed in one transaction: either the whole week is booked or nothing is.
+    const created = await prisma.$transaction(async (tx) => {
+      // Locks are taken in a fixed order, so two overlapping week confirmations cannot deadlock each other.
+      const lockKeys = Array.from(new Set(plannedDays.flatMap((day) => day.entries.map((entry) => bookingDeskKeyForDate(entry.deskId, day.date))))).sort();
+      for (const lockKey of lockKeys) {
+        await acquireBookingLock(tx, lockKey);
+      }
+
+      const existingUserBookings = bookingMode === 'SELF'
+        ? await tx.booking.findMany({ where: { date: { in: sortedDates }, desk: { kind: 'PARKPLATZ' }, bookedFor: 'SELF', employeeId: actorEmployee.id } })
+        : [];
+
+      for (const day of plannedDays) {
+        for (const entry of day.entries) {
+          const userConflict = bookingMode === 'SELF' && existingUserBookings.some((candidate) => {
+            if (candidate.date.getTime() !== day.date.getTime()) return false;
+            const candidateWindow = bookingToWindow(candidate);
+            if (!candidateWindow) return false;
+            const candidateTime = candidateWindow.mode === 'day' ? daySlotToMinuteRange(candidateWindow.daySlot) : candidateWindow;
+            return parkingWindowsOverlap(entry, candidateTime);
+          });
+          if (userConflict) {
+            const error = new Error('user_conflict');
+            (error as Error & { status?: number }).status = 409;
+            throw error;
+          }
+
+          const existing = await tx.booking.findMany({ where: { deskId: entry.deskId, date: day.date } });
+          const hasConflict = existing.some((candidate) => {
+            const candidateWindow = bookingToWindow(candidate);
+            if (!candidateWindow) return false;
+            const candidateTime = candidateWindow.mode === 'day' ? daySlotToMinuteRange(candidateWindow.daySlot) : candidateWindow;
+            return parkingWindowsOverlap(entry, candidateTime);
+          });
+
+          if (hasConflict) {
+            logBookingEvent('SMART_CONFIRM_CONFLICT_DESK_ALREADY_BOOKED', { requestId, deskId: entry.deskId, date: toISODateOnly(day.date), startMinute: entry.startMinute, endMinute: entry.endMinute }, 'warn');
+            const error = new Error('not_available');
+            (error as Error & { status?: number }).status = 409;
+            throw error;
+          }
+        }
+      }
+
+      const result = [];
+      for (const { date: parsedDate, entries } of plannedDays) {
+        for (const entry of entries) {
+          result.push(await tx.booking.create({
+            data: {
+              deskId: entry.deskId,
+              userEmail: bookingMode === 'SELF' ? actorEmployee.email : null,
+              employeeId: bookingMode === 'SELF' ? actorEmployee.id : null,
+              bookedFor: bookingMode,
+              guestName: bookingMode === 'GUEST' ? normalizedGuestName : null,
+              createdByEmployeeId: actorEmployee.id,
+              createdByUserId: req.authUser?.source === 'local' ? req.authUser.id : null,
+              createdByEmail: req.authUser?.email ?? null,
+              date: parsedDate,
+              daySlot: null,
+              slot: 'CUSTOM',
+              startMinute: entry.startMinute,
+              endMinute: entry.endMinute,
+              startTime: new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(entry.startMinute / 60), entry.startMinute % 60, 0, 0)),
+              endTime: new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(entry.endMinute / 60), entry.endMinute % 60, 0, 0))
+            }
+          }));
+        }
+      }
+      const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+      await enqueueBookingMails(tx, result, actor, (details) => ({ kind: 'BOOKING_CONFIRMED', booking: details }));
+      await enqueueBookingWebhooks(tx, 'booking.created', result, { actor });
+      return result;
     });
-    if (!existing) {
-      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: null, status: 404, error: 'Booking not found' });
-      res.status(404).json({ error: 'not_found', message: 'Booking not found' });
+
+    logBookingEvent('SMART_CONFIRM_SUCCESS', {
+      requestId,
+      createdCount: created.length,
+      bookings: created.map((entry) => ({ id: entry.id, deskId: entry.deskId, date: toISODateOnly(entry.date), startMinute: entry.startMinute, endMinute: entry.endMinute, bookedFor: entry.bookedFor }))
+    });
+    await recordAuditEvents(req, created.map((entry) => ({ action: 'CREATE', entityType: 'Booking', entityId: entry.id, after: entry })));
+    flushOutboxes();
+    res.status(201).json({ createdCount: created.length, bookings: created.map((entry) => ({ id: entry.id, deskId: entry.deskId, date: entry.date, startMinute: entry.startMinute, endMinute: entry.endMinute, slot: entry.slot })) });
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 500;
+    if (status === 409) {
+      logBookingEvent('SMART_CONFIRM_RESPONSE_CONFLICT', { requestId, status, error: (error as Error).message }, 'warn');
+      if ((error as Error).message === 'user_conflict') {
+        res.status(409).json({ error: 'conflict', message: 'Du hast in diesem Zeitraum bereits eine Parkplatz-Buchung.' });
+        return;
+      }
+      res.status(409).json({ error: 'conflict', message: 'Parkplatz nicht mehr verfügbar, bitte neu zuweisen.' });
       return;
     }
+    logBookingEvent('SMART_CONFIRM_UNEXPECTED_ERROR', { requestId, status, error: error instanceof Error ? error.message : String(error) }, 'error');
+    throw error;
+  }
+});
 
-    if (!req.authUser) {
-      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status: 401, error: 'Authentication required' });
-      res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
-      return;
+app.post('/bookings/range', async (req, res) => {
+  const { deskId, userEmail, from, to, weekdaysOnly, replaceExisting, overrideExisting } = req.body as {
+    deskId?: string;
+    userEmail?: string;
+    from?: string;
+    to?: string;
+    weekdaysOnly?: boolean;
+    replaceExisting?: boolean;
+    overrideExisting?: boolean;
+  };
+
+  if (!deskId || !userEmail || !from || !to) {
+    res.status(400).json({ error: 'validation', message: 'deskId, userEmail, from und to sind erforderlich' });
+    return;
+  }
+
+  const parsedFrom = toDateOnly(from);
+  const parsedTo = toDateOnly(to);
+  if (!parsedFrom || !parsedTo) {
+    res.status(400).json({ error: 'validation', message: 'from/to muss im Format YYYY-MM-DD sein' });
+    return;
+  }
+
+  if (parsedTo < parsedFrom) {
+    res.status(400).json({ error: 'validation', message: 'Das Ende darf nicht vor dem Beginn liegen' });
+    return;
+  }
+
+  const desk = await getDeskContext(deskId);
+  if (!desk) {
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
+
+  const includeWeekdaysOnly = weekdaysOnly !== false;
+  const shouldOverrideExisting = overrideExisting ?? replaceExisting ?? false;
+  const closures = await loadClosures(desk.floorplanId, parsedFrom, parsedTo);
+  const closedDates: string[] = [];
+  const targetDates = datesInRange(parsedFrom, parsedTo).filter((date) => {
+    if (includeWeekdaysOnly) {
+      const day = date.getUTCDay();
+      if (day < 1 || day > 5) return false;
     }
 
-    console.info('[MUT] BOOKING_CANCEL_REQUEST', {
-      requestId,
-      bookingId: id,
-      scope,
-      recurringBookingId: existing.recurringBookingId ?? null,
-      recurringGroupId: existing.recurringGroupId ?? null
+    if (findClosureForWindow(closures, desk, date, { mode: 'day', daySlot: 'FULL' })) {
+      closedDates.push(toISODateOnly(date));
+      return false;
+    }
+    return true;
+  });
+
+  if (targetDates.length === 0) {
+    res.status(201).json({ createdCount: 0, updatedCount: 0, skippedCount: 0, skippedDates: [], closedDates, dates: [] });
+    return;
+  }
+
+  const identity = await findBookingIdentity(userEmail);
+
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
+
+  const isDelegatedBooking = req.authUser?.role !== 'admin' && !isBookingIdentityOf(identity, actorEmployee);
+  if (isDelegatedBooking && !(identity.employeeId && await hasBookingDelegation(identity.employeeId, actorEmployee.id))) {
+    logBookingEvent('RANGE_CREATE_FORBIDDEN_NO_DELEGATION', { actorEmployeeId: actorEmployee.id, targetEmail: identity.normalizedEmail, deskId }, 'warn');
+    res.status(403).json({ error: 'forbidden', code: 'DELEGATION_REQUIRED', message: 'Du darfst nur für Kolleg:innen buchen, die dich als Vertretung eingetragen haben' });
+    return;
+  }
+  const tenantDomainIdForAccess = req.authUser?.role === 'admin' || isDelegatedBooking
+    ? identity.tenantDomainId ?? actorEmployee.tenantDomainId
+    : actorEmployee.tenantDomainId;
+  const accessEmployeeId = identity.employeeId ?? actorEmployee.id;
+
+  if (!isDeskAccessibleForTenant(desk, tenantDomainIdForAccess, accessEmployeeId, await getEmployeeTeamIds(accessEmployeeId))) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar oder buchbar' });
+    return;
+  }
+
+  const policyViolations = await findBookingPolicyViolations({
+    floorplanId: desk.floorplanId,
+    kind: desk.kind,
+    tenantId: tenantDomainIdForAccess,
+    emailAliases: identity.emailAliases,
+    candidates: targetDates.map((targetDate) => toPolicyCandidate(targetDate, { mode: 'day' }))
+  });
+  if (policyViolations.length > 0) {
+    sendPolicyViolation(res, policyViolations);
+    return;
+  }
+
+  const auditEvents: AuditEventInput[] = [];
+  const result = await prisma.$transaction(async (tx) => {
+    const lockKeys = Array.from(new Set(targetDates.flatMap((targetDate) => [
+      bookingUserKeyForDate(identity.userKey, targetDate),
+      bookingDeskKeyForDate(deskId, targetDate)
+    ]))).sort();
+
+    for (const lockKey of lockKeys) {
+      await acquireBookingLock(tx, lockKey);
+    }
+
+    const existingUserBookings = await tx.booking.findMany({
+      where: {
+        date: { in: targetDates },
+        userEmail: { in: identity.emailAliases },
+        desk: { kind: desk.kind }
+      },
+      include: { desk: { select: { name: true, kind: true } } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }]
     });
 
-    let actorEmployee;
-    try {
-      actorEmployee = await requireActorEmployee(req);
-    } catch (error) {
-      const status = (error as Error & { status?: number }).status ?? 403;
-      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status, error: (error as Error).message });
-      res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
-      return;
+    const existingByDate = new Map<string, BookingWithDeskContext>();
+    const duplicateIdsToDelete: string[] = [];
+    for (const booking of existingUserBookings) {
+      const key = toISODateOnly(booking.date);
+      if (!existingByDate.has(key)) {
+        existingByDate.set(key, booking);
+      } else {
+        duplicateIdsToDelete.push(booking.id);
+      }
+    }
+
+    if (duplicateIdsToDelete.length > 0) {
+      await tx.booking.deleteMany({ where: { id: { in: duplicateIdsToDelete } } });
+      for (const booking of existingUserBookings.filter((candidate) => duplicateIdsToDelete.includes(candidate.id))) {
+        auditEvents.push({ action: 'DELETE', entityType: 'Booking', entityId: booking.id, before: booking });
+      }
     }
 
-    const allowed = canCancelBooking({
-      booking: {
-        bookedFor: existing.bookedFor,
-        employeeId: existing.employeeId,
-        createdByEmployeeId: existing.createdByEmployeeId
+    const keepIds = Array.from(existingByDate.values()).map((booking) => booking.id);
+    const deskSingleConflicts = await tx.booking.findMany({
+      where: {
+        deskId,
+        date: { in: targetDates },
+        id: { notIn: keepIds },
+        userEmail: { notIn: identity.emailAliases }
       },
-      actor: {
-        employeeId: actorEmployee.id,
-        email: req.authUser.email,
-        isAdmin: req.authUser.role === 'admin'
-      }
+      orderBy: { date: 'asc' }
     });
 
-    if (process.env.DEBUG === '1') {
-      console.info('CANCEL_AUTHZ_CHECK', {
-        bookingId: id,
-        bookedFor: existing.bookedFor,
-        employeeId: existing.employeeId,
-        createdByEmployeeId: existing.createdByEmployeeId,
-        actorEmployeeId: actorEmployee.id,
-        actorIsAdmin: req.authUser.role === 'admin',
-        allowed
-      });
+    if (deskSingleConflicts.length > 0) {
+      const conflictDates = deskSingleConflicts.map((booking) => toISODateOnly(booking.date));
+      return {
+        kind: 'conflict' as const,
+        message: 'Im Zeitraum sind einzelne Tage bereits belegt',
+        details: {
+          deskId,
+          from,
+          to,
+          weekdaysOnly: includeWeekdaysOnly,
+          conflictingDates: conflictDates,
+          conflictingDatesPreview: conflictDates.slice(0, 10)
+        }
+      };
     }
 
-    if (!allowed) {
-      console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status: 403, error: 'Not allowed to cancel this booking' });
-      res.status(403).json({ code: 'FORBIDDEN', message: 'Not allowed to cancel this booking' });
-      return;
-    }
+    let createdCount = 0;
+    let updatedCount = 0;
+    const skippedDates: string[] = [];
+    const updatedDates: string[] = [];
+    const changedBookings: { created: WebhookBookingRef[]; updated: WebhookBookingRef[] } = { created: [], updated: [] };
 
-    if (scope === 'series' && !existing.recurringBookingId && !existing.recurringGroupId) {
-      res.status(400).json({ error: 'validation', message: 'Booking is not part of a recurring series' });
-      return;
-    }
+    for (const targetDate of targetDates) {
+      const dateKey = toISODateOnly(targetDate);
+      const existing = existingByDate.get(dateKey);
+      if (existing) {
+        if (!shouldOverrideExisting) {
+          skippedDates.push(dateKey);
+          continue;
+        }
 
-    const deletedCount = await prisma.$transaction(async (tx) => {
-      if (scope === 'single') {
-        await tx.booking.delete({ where: { id } });
-        return 1;
-      }
+        if (existing.deskId !== deskId || existing.userEmail !== identity.normalizedEmail) {
+          queueOccupancyChange(existing);
+          const updatedBooking = await tx.booking.update({
+            where: { id: existing.id },
+            data: { deskId, userEmail: identity.normalizedEmail, employeeId: identity.employeeId, bookedFor: 'SELF', guestName: null, createdByEmployeeId: actorEmployee.id }
+          });
+          auditEvents.push({ action: 'UPDATE', entityType: 'Booking', entityId: existing.id, before: existing, after: updatedBooking });
+          changedBookings.updated.push(updatedBooking);
+        }
 
-      if (scope === 'resource_day_self') {
-        const deleteBookingsResult = await tx.booking.deleteMany({
-          where: {
-            deskId: existing.deskId,
-            date: existing.date,
-            OR: [
-              { bookedFor: 'SELF', employeeId: actorEmployee.id },
-              { bookedFor: 'GUEST', createdByEmployeeId: actorEmployee.id }
-            ]
-          }
-        });
-        return deleteBookingsResult.count;
+        updatedCount += 1;
+        updatedDates.push(dateKey);
+        continue;
       }
 
-      const seriesWhereClauses: Array<{ recurringBookingId?: string; recurringGroupId?: string }> = [];
-      if (existing.recurringBookingId) seriesWhereClauses.push({ recurringBookingId: existing.recurringBookingId });
-      if (existing.recurringGroupId) seriesWhereClauses.push({ recurringGroupId: existing.recurringGroupId });
-      if (seriesWhereClauses.length === 0) return 0;
+      const createdBooking = await tx.booking.create({ data: { deskId, userEmail: identity.normalizedEmail, employeeId: identity.employeeId, createdByEmployeeId: actorEmployee.id, createdByUserId: req.authUser?.source === 'local' ? req.authUser.id : null, createdByEmail: req.authUser?.email ?? null, bookedFor: 'SELF', guestName: null, date: targetDate } });
+      auditEvents.push({ action: 'CREATE', entityType: 'Booking', entityId: createdBooking.id, after: createdBooking });
+      changedBookings.created.push(createdBooking);
+      createdCount += 1;
+    }
 
-      const matchingBookings = await tx.booking.findMany({
-        where: {
-          OR: seriesWhereClauses,
-          AND: [
-            {
-              OR: [
-                { bookedFor: 'SELF', employeeId: actorEmployee.id },
-                { bookedFor: 'GUEST', createdByEmployeeId: actorEmployee.id }
-              ]
-            }
-          ]
-        },
-        select: { recurringBookingId: true }
-      });
-      const recurringBookingIds = Array.from(new Set(matchingBookings
-        .map((booking) => booking.recurringBookingId)
-        .filter((value): value is string => Boolean(value))));
+    const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+    await enqueueBookingWebhooks(tx, 'booking.cancelled', existingUserBookings.filter((booking) => duplicateIdsToDelete.includes(booking.id)), { actor, reason: 'replaced' });
+    await enqueueBookingWebhooks(tx, 'booking.updated', changedBookings.updated, { actor });
+    await enqueueBookingWebhooks(tx, 'booking.created', changedBookings.created, { actor });
 
-      const deleteBookingsResult = await tx.booking.deleteMany({
-        where: {
-          OR: seriesWhereClauses,
-          AND: [
-            {
-              OR: [
-                { bookedFor: 'SELF', employeeId: actorEmployee.id },
-                { bookedFor: 'GUEST', createdByEmployeeId: actorEmployee.id }
-              ]
-            }
-          ]
-        }
-      });
-      if (recurringBookingIds.length > 0) {
-        await tx.recurringBooking.deleteMany({ where: { id: { in: recurringBookingIds } } });
+    return {
+      kind: 'ok' as const,
+      payload: {
+        createdCount,
+        updatedCount,
+        skippedCount: skippedDates.length,
+        skippedDates,
+        updatedDates,
+        closedDates,
+        dates: targetDates.map((targetDate) => toISODateOnly(targetDate))
       }
-      return deleteBookingsResult.count;
-    });
-
-    console.info('[MUT] BOOKING_CANCEL_DONE', { requestId, deletedCount, scope });
-    console.info('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status: 200, error: null });
-    res.status(200).json({ deletedCount, scope });
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unexpected booking cancel error';
-    console.error('BOOKING_CANCEL', { requestId, userId, bookingId: id, resourceType: null, status: 500, error: errorMessage });
-    res.status(500).json({ error: 'internal_error', message: 'Booking cancel failed' });
-  }
-};
-
-app.delete('/bookings/:id', async (req, res) => {
-  const id = getRouteId(req.params.id);
+    };
+  });
 
-  if (!id) {
-    const requestId = req.requestId ?? 'unknown';
-    const userId = req.authUser?.id ?? null;
-    console.warn('BOOKING_CANCEL', { requestId, userId, bookingId: null, resourceType: null, status: 400, error: 'id is required' });
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+  if (result.kind === 'conflict') {
+    sendConflict(res, result.message, result.details);
     return;
   }
 
-  const scope = parseBookingCancelScope(req.query.scope ?? 'single');
-  if (!scope) {
-    res.status(400).json({ error: 'validation', message: 'scope must be single, series or resource_day_self' });
+  await recordAuditEvents(req, auditEvents);
+  flushOutboxes();
+  res.status(201).json(result.payload);
+});
+
+app.get('/closures', async (req, res) => {
+  const floorplanId = typeof req.query.floorplanId === 'string' ? req.query.floorplanId : '';
+  const from = typeof req.query.from === 'string' ? toDateOnly(req.query.from) : null;
+  const to = typeof req.query.to === 'string' ? toDateOnly(req.query.to) : null;
+  if (!floorplanId || !from || !to || to < from) {
+    res.status(400).json({ error: 'validation', message: 'floorplanId, from und to (YYYY-MM-DD) sind erforderlich' });
     return;
   }
 
-  await cancelBookingByScope({ id, scope, req, res });
+  const closures = await loadClosures(floorplanId, from, to);
+  const closedDates = fullyClosedDates(closures, floorplanId, toISODateOnly(from), toISODateOnly(to));
+  res.status(200).json({
+    closures: closures.map(mapClosureResponse),
+    closedDates: Array.from(closedDates.entries()).sort(([left], [right]) => left.localeCompare(right)).map(([date, reason]) => ({ date, reason }))
+  });
 });
 
-app.get('/bookings/:id/cancel-preview', async (req, res) => {
-  const id = getRouteId(req.params.id);
-  const requestId = req.requestId ?? 'unknown';
-  const userId = req.authUser?.id ?? null;
+app.get('/bookings', async (req, res) => {
+  const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+  const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+  const floorplanId = typeof req.query.floorplanId === 'string' ? req.query.floorplanId : undefined;
 
-  if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
-    return;
+  const where: Prisma.BookingWhereInput = {};
+
+  if (date) {
+    const parsedDate = toDateOnly(date);
+    if (!parsedDate) {
+      res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
+      return;
+    }
+    where.date = parsedDate;
   }
 
-  const existing = await prisma.booking.findUnique({
-    where: { id },
-    include: {
-      desk: { select: { kind: true } },
-      recurringBooking: {
-        select: {
-          id: true,
-          startDate: true,
-          endDate: true,
-          patternType: true,
-          interval: true
-        }
+  if (from || to) {
+    where.date = {};
+
+    if (from) {
+      const fromDate = toDateOnly(from);
+      if (!fromDate) {
+        res.status(400).json({ error: 'validation', message: 'from muss im Format YYYY-MM-DD sein' });
+        return;
       }
+      where.date.gte = fromDate;
     }
-  });
 
-  if (!existing) {
-    res.status(404).json({ error: 'not_found', message: 'Booking not found' });
-    return;
+    if (to) {
+      const toDate = toDateOnly(to);
+      if (!toDate) {
+        res.status(400).json({ error: 'validation', message: 'to muss im Format YYYY-MM-DD sein' });
+        return;
+      }
+      where.date.lte = toDate;
+    }
   }
 
-  if (!req.authUser) {
-    res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
-    return;
+  if (floorplanId) {
+    where.desk = { floorplanId };
   }
 
-  let actorEmployee;
-  try {
-    actorEmployee = await requireActorEmployee(req);
-  } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 403;
-    console.warn('BOOKING_CANCEL_PREVIEW', { requestId, userId, bookingId: id, resourceType: existing.desk?.kind ?? null, status, error: (error as Error).message });
-    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
-    return;
+  if (req.authUser?.role !== 'admin' && req.authUser?.id) {
+    try {
+      const actorEmployee = await requireActorEmployee(req);
+      where.createdByEmployeeId = actorEmployee.id;
+      where.roomDisplayId = null;
+    } catch (error) {
+      const status = (error as Error & { status?: number }).status ?? 403;
+      res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+      return;
+    }
   }
 
-  const allowed = canCancelBooking({
-    booking: {
-      bookedFor: existing.bookedFor,
-      employeeId: existing.employeeId,
-      createdByEmployeeId: existing.createdByEmployeeId
+  const bookings = await prisma.booking.findMany({
+    where,
+    select: {
+      id: true,
+      deskId: true,
+      userEmail: true,
+      employeeId: true,
+      bookedFor: true,
+      guestName: true,
+      createdByEmployeeId: true,
+      recurringBookingId: true,
+      recurringGroupId: true,
+      creatorUnknown: true,
+      date: true,
+      daySlot: true,
+      startTime: true,
+      endTime: true,
+      slot: true,
+      startMinute: true,
+      endMinute: true,
+      createdAt: true,
+      createdByEmployee: { select: { id: true, displayName: true, email: true } },
+      desk: { select: { kind: true } }
     },
-    actor: {
-      employeeId: actorEmployee.id,
-      email: req.authUser.email,
-      isAdmin: req.authUser.role === 'admin'
-    }
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
   });
 
-  if (!allowed) {
-    res.status(403).json({ code: 'FORBIDDEN', message: 'Not allowed to cancel this booking' });
-    return;
+  if (!isProd) {
+    const duplicateGroups = findDuplicateUserDateGroups(bookings);
+    if (duplicateGroups.length > 0) {
+      console.warn('BOOKINGS_DUPLICATES_DETECTED', { count: duplicateGroups.length, sample: duplicateGroups.slice(0, 10) });
+    }
   }
 
-  const seriesWhereClauses: Array<{ recurringBookingId?: string; recurringGroupId?: string }> = [];
-  if (existing.recurringBookingId) seriesWhereClauses.push({ recurringBookingId: existing.recurringBookingId });
-  if (existing.recurringGroupId) seriesWhereClauses.push({ recurringGroupId: existing.recurringGroupId });
-  const isSeries = seriesWhereClauses.length > 0;
-
-  const seriesBookingCount = isSeries
-    ? await prisma.booking.count({ where: { OR: seriesWhereClauses } })
-    : 1;
-
-  res.status(200).json({
-    bookingId: existing.id,
-    isSeries,
-    seriesBookingCount,
-    recurringBookingId: existing.recurringBookingId,
-    recurringGroupId: existing.recurringGroupId,
-    recurrence: existing.recurringBooking
-      ? {
-        id: existing.recurringBooking.id,
-        startDate: existing.recurringBooking.startDate,
-        endDate: existing.recurringBooking.endDate,
-        patternType: existing.recurringBooking.patternType,
-        interval: existing.recurringBooking.interval
+  const employeesByEmail = await getActiveEmployeesByEmail(bookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)));
+  const usersByEmail = new Map((await prisma.user.findMany({
+    where: {
+      email: {
+        in: Array.from(new Set(bookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)).map((email) => normalizeEmail(email))))
       }
-      : null
-  });
-});
-
-app.post('/bookings/:id/cancel', async (req, res) => {
-  const id = getRouteId(req.params.id);
-  if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
-    return;
-  }
+    },
+    select: { id: true, email: true, displayName: true }
+  })).map((user) => [normalizeEmail(user.email), user]));
+  const enrichedBookings = bookings.map((booking) => ({
+    ...(function () {
+      const normalizedUserEmail = booking.userEmail ? normalizeEmail(booking.userEmail) : null;
+      const employee = normalizedUserEmail ? employeesByEmail.get(normalizedUserEmail) : undefined;
+      const appUser = normalizedUserEmail ? usersByEmail.get(normalizedUserEmail) : undefined;
+      const fallbackUser = booking.userEmail
+        ? {
+          id: appUser?.id ?? booking.createdByEmployeeId ?? `legacy-${normalizedUserEmail}`,
+          displayName: employee?.displayName ?? appUser?.displayName ?? booking.userEmail,
+          email: booking.userEmail
+        }
+        : null;
+      const createdBy = resolveCreatedBySummary({
+        createdBy: booking.createdByEmployee,
+        fallbackUser
+      });
 
-  const scope = parseBookingCancelScope((req.body as { scope?: unknown } | undefined)?.scope ?? 'single');
-  if (!scope) {
-    res.status(400).json({ error: 'validation', message: 'scope must be single, series or resource_day_self' });
-    return;
-  }
+      return {
+        createdBy,
+        createdByUserId: createdBy.id,
+    createdByEmployeeId: booking.createdByEmployeeId,
+        user: booking.bookedFor === 'SELF' && fallbackUser ? fallbackUser : null,
+        userDisplayName: employee?.displayName,
+        employeeId: booking.employeeId ?? employee?.id,
+        userPhotoUrl: employee?.photoUrl ?? undefined
+      };
+    })(),
+    id: booking.id,
+    deskId: booking.deskId,
+    userEmail: booking.userEmail,
+    bookedFor: booking.bookedFor,
+    guestName: booking.guestName,
+    recurringBookingId: booking.recurringBookingId,
+    recurringGroupId: booking.recurringGroupId,
+    date: booking.date,
+    createdAt: booking.createdAt,
+    daySlot: booking.daySlot ?? bookingSlotToDaySlot(booking.slot),
+    slot: booking.slot,
+    startTime: minuteToHHMM(booking.startMinute ?? (booking.startTime ? booking.startTime.getUTCHours() * 60 + booking.startTime.getUTCMinutes() : null)),
+    endTime: minuteToHHMM(booking.endMinute ?? (booking.endTime ? booking.endTime.getUTCHours() * 60 + booking.endTime.getUTCMinutes() : null))
+  }));
 
-  await cancelBookingByScope({ id, scope, req, res });
+  res.status(200).json(enrichedBookings);
 });
 
+type OccupancyBookingSource = Prisma.BookingGetPayload<{ include: { createdByEmployee: { select: { id: true; displayName: true; email: true } } } }>;
+type OccupancyEmployee = { id: string; email: string; displayName: string; phone: string | null; photoUrl: string | null };
 
-app.post('/bookings/check-conflicts', async (req, res) => {
-  const { deskId, userEmail, userId, start, end, weekdays, type, daySlot, startTime, endTime } = req.body as {
-    deskId?: string;
-    userEmail?: string;
-    userId?: string;
-    start?: string;
-    end?: string;
-    weekdays?: number[];
-    type?: 'single' | 'range' | 'recurring';
-    daySlot?: string;
-    startTime?: string;
-    endTime?: string;
+const mapOccupancyBooking = (
+  booking: OccupancyBookingSource,
+  desk: { id: string; name: string },
+  employee: OccupancyEmployee | undefined,
+  context: { checkInRequired: boolean; isRecurringOccurrence: boolean }
+) => {
+  const employeeData = booking.bookedFor === 'SELF' && booking.userEmail
+    ? {
+      id: booking.employeeId ?? employee?.id,
+      email: booking.userEmail,
+      displayName: employee?.displayName ?? booking.userEmail,
+      phone: employee?.phone ?? null,
+      photoUrl: employee?.photoUrl ?? null
+    }
+    : null;
+
+  return {
+    id: booking.id,
+    userEmail: booking.userEmail,
+    bookedFor: booking.bookedFor,
+    guestName: booking.guestName,
+    recurringBookingId: booking.recurringBookingId,
+    recurringGroupId: booking.recurringGroupId,
+    createdBy: booking.createdByEmployee,
+    createdByUserId: booking.createdByEmployeeId,
+    createdByEmployeeId: booking.createdByEmployeeId,
+    creatorUnknown: booking.creatorUnknown,
+    employeeId: booking.employeeId ?? employee?.id,
+    userDisplayName: booking.userEmail ? employee?.displayName : undefined,
+    userPhone: booking.userEmail ? (employee?.phone ?? undefined) : undefined,
+    userPhotoUrl: booking.userEmail ? (employee?.photoUrl ?? undefined) : undefined,
+    employee: employeeData,
+    deskName: desk.name,
+    deskId: desk.id,
+    type: context.isRecurringOccurrence ? 'recurring' as const : 'single' as const,
+    daySlot: booking.daySlot ?? bookingSlotToDaySlot(booking.slot),
+    slot: booking.slot,
+    startTime: minuteToHHMM(booking.startMinute ?? (booking.startTime ? booking.startTime.getUTCHours() * 60 + booking.startTime.getUTCMinutes() : null)),
+    endTime: minuteToHHMM(booking.endMinute ?? (booking.endTime ? booking.endTime.getUTCHours() * 60 + booking.endTime.getUTCMinutes() : null)),
+    checkInRequired: context.checkInRequired,
+    checkInStatus: booking.checkInStatus,
+    checkedInAt: booking.checkedInAt,
+    title: booking.title
   };
+};
 
-  if (!deskId || !userEmail || !start || !type) {
-    res.status(400).json({ error: 'validation', message: 'deskId, userEmail, start and type are required' });
-    return;
-  }
+app.get('/occupancy', async (req, res) => {
+  const floorplanId = typeof req.query.floorplanId === 'string' ? req.query.floorplanId : undefined;
+  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
 
-  const parsedStart = toDateOnly(start);
-  const parsedEnd = toDateOnly(end ?? start);
-  if (!parsedStart || !parsedEnd) {
-    res.status(400).json({ error: 'validation', message: 'start/end must be in YYYY-MM-DD format' });
+  if (!floorplanId || !date) {
+    res.status(400).json({ error: 'validation', message: 'floorplanId und date sind erforderlich' });
     return;
   }
 
-  const desk = await getDeskContext(deskId);
-  if (!desk) {
-    res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+  const parsedDate = toDateOnly(date);
+  if (!parsedDate) {
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
     return;
   }
 
-  let actorEmployee;
+  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
   try {
-    actorEmployee = await requireActorEmployee(req);
-  } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 403;
-    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
-    return;
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
   }
 
-  if (!isDeskAccessibleForTenant(desk, actorEmployee.tenantDomainId, actorEmployee.id)) {
-    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar oder buchbar' });
+  const floorplan = await prisma.floorplan.findUnique({
+    where: { id: floorplanId },
+    select: { id: true, tenantScope: true, deskCheckInGraceMinutes: true, parkingCheckInGraceMinutes: true, floorplanTenants: { select: { tenantId: true } } }
+  });
+
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
     return;
   }
 
-  const requestWindowResult = resolveBookingWindow({ deskKind: desk.kind, daySlot, startTime, endTime });
-  if (!requestWindowResult.ok) {
-    res.status(400).json({ error: 'validation', message: requestWindowResult.message });
+  const isAdmin = actor?.role === 'admin';
+  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar' });
     return;
   }
 
-  const targetDates = datesInRange(parsedStart, parsedEnd).filter((date) => {
-    if (type === 'single') return toISODateOnly(date) === toISODateOnly(parsedStart);
-    if (type === 'recurring') return Boolean(weekdays?.includes(date.getUTCDay()));
-    return true;
-  });
+  const actorTenantDomainId = actor?.tenantDomainId ?? null;
+  const [desks, actorTeamIds] = await Promise.all([
+    prisma.desk.findMany({
+      where: { floorplanId },
+      include: { floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } }, zone: deskZoneSelect },
+      orderBy: { createdAt: 'asc' }
+    }),
+    getEmployeeTeamIds(actor?.id)
+  ]);
 
-  if (targetDates.length === 0) {
-    res.status(200).json({ hasConflicts: false, conflictDates: [], conflictSlots: [], conflictBookingIds: [], conflictResourceLabels: [] });
-    return;
+  const visibleDesks = isAdmin
+    ? desks
+    : desks.filter((desk) => isDeskAccessibleForTenant({ ...desk, zone: null }, actorTenantDomainId, actor?.id ?? null));
+
+  const visibleDeskIds = new Set(visibleDesks.map((desk) => desk.id));
+  const bookingsInRange = await getBookingsForDateRange(parsedDate, parsedDate, floorplanId);
+  const visibleSingleBookings = bookingsInRange.singleBookings
+    .filter((booking) => visibleDeskIds.has(booking.deskId))
+    .sort((left, right) => left.createdAt.getTime() - right.createdAt.getTime());
+
+  const visibleRecurringOccurrenceKeys = new Set(
+    bookingsInRange.occurrences
+      .filter((occurrence) => visibleDeskIds.has(occurrence.resourceId))
+      .map((occurrence) => `${occurrence.resourceId}|${occurrence.date}|${occurrence.createdByEmployeeId}`)
+  );
+
+  const recurringOccurrenceKeys = visibleRecurringOccurrenceKeys;
+  const employeesByEmail = await getActiveEmployeesByEmail(visibleSingleBookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)));
+  const bookingsByDeskId = new Map<string, typeof visibleSingleBookings>();
+  for (const booking of visibleSingleBookings) {
+    bookingsByDeskId.set(booking.deskId, [...(bookingsByDeskId.get(booking.deskId) ?? []), booking]);
   }
 
-  const identity = await findBookingIdentity(userEmail);
-  const conflicts = await prisma.booking.findMany({
-    where: {
-      date: { in: targetDates },
-      userEmail: { in: identity.emailAliases },
-      desk: { kind: desk.kind }
-    },
-    include: { desk: { select: { name: true, kind: true } } },
-    orderBy: [{ date: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }]
+  const occupancyDesks = visibleDesks.map((desk) => {
+    const deskBookings = bookingsByDeskId.get(desk.id) ?? [];
+    const checkInRequired = resolveCheckInGraceMinutes(desk.kind, floorplan) !== null;
+    const normalizedBookings = deskBookings.map((booking) => mapOccupancyBooking(
+      booking,
+      desk,
+      booking.userEmail ? employeesByEmail.get(normalizeEmail(booking.userEmail)) : undefined,
+      { checkInRequired, isRecurringOccurrence: recurringOccurrenceKeys.has(`${booking.deskId}|${toISODateOnly(booking.date)}|${booking.createdByEmployeeId}`) }
+    ));
+
+    const primaryBooking = normalizedBookings[0] ?? null;
+    return {
+      id: desk.id,
+      name: desk.name,
+      kind: desk.kind,
+      capacity: desk.capacity,
+      equipment: desk.equipment,
+      position: desk.x === null || desk.y === null ? null : { x: desk.x, y: desk.y },
+      x: desk.x,
+      y: desk.y,
+      allowSeriesOverride: desk.allowSeriesOverride,
+      effectiveAllowSeries: resolveEffectiveAllowSeries(desk),
+      tenantScope: desk.tenantScope,
+      tenantIds: desk.deskTenants.map((entry) => entry.tenantId),
+      employeeScope: desk.employeeScope,
+      employeeIds: desk.deskEmployees.map((entry) => entry.employeeId),
+      isBookableForMe: isDeskAccessibleForTenant(desk, actorTenantDomainId, actor?.id ?? null, actorTeamIds),
+      zone: desk.zone ? describeZoneForTeams(desk.zone, actorTeamIds) : null,
+      status: normalizedBookings.length > 0 ? 'booked' as const : 'free' as const,
+      booking: primaryBooking,
+      bookings: normalizedBookings
+    };
   });
 
-  const byDate = new Map<string, { slots: DaySlot[]; resourceLabels: string[]; bookingIds: string[] }>();
-  for (const booking of conflicts) {
-    const bookingWindow = bookingToWindow(booking);
-    if (!bookingWindow || !windowsOverlap(requestWindowResult.value, bookingWindow)) continue;
-    const dateKey = toISODateOnly(booking.date);
-    const item = byDate.get(dateKey) ?? { slots: [], resourceLabels: [], bookingIds: [] };
-    const normalizedSlot = booking.daySlot ?? bookingSlotToDaySlot(booking.slot);
-    if (normalizedSlot && !item.slots.includes(normalizedSlot)) item.slots.push(normalizedSlot);
-    const deskName = booking.desk?.name ?? booking.deskId;
-    if (!item.resourceLabels.includes(deskName)) item.resourceLabels.push(deskName);
-    item.bookingIds.push(booking.id);
-    byDate.set(dateKey, item);
-  }
+  const uniquePeopleByEmail = new Map<string, { email: string; userEmail: string; displayName?: string; photoUrl?: string; deskName?: string; deskId?: string }>();
+  occupancyDesks.forEach((desk) => {
+    for (const booking of desk.bookings ?? []) {
+      if (booking.bookedFor !== 'SELF') {
+        continue;
+      }
+      const userEmail = booking.userEmail ?? '';
+      const normalizedEmail = normalizeEmail(userEmail);
+      if (!userEmail || uniquePeopleByEmail.has(normalizedEmail)) {
+        continue;
+      }
+
+      uniquePeopleByEmail.set(normalizedEmail, {
+        email: userEmail,
+        userEmail,
+        displayName: employeesByEmail.get(normalizedEmail)?.displayName,
+        photoUrl: employeesByEmail.get(normalizeEmail(userEmail))?.photoUrl ?? undefined,
+        deskName: desk.name,
+        deskId: desk.id
+      });
+    }
+  });
+
+  const people = Array.from(uniquePeopleByEmail.values())
+    .sort((a, b) => (a.displayName ?? a.email).localeCompare(b.displayName ?? b.email, 'de'));
 
-  const conflictDates = Array.from(byDate.keys());
   res.status(200).json({
-    hasConflicts: conflictDates.length > 0,
-    conflictDates,
-    conflictBookingIds: conflictDates.flatMap((dateKey) => byDate.get(dateKey)?.bookingIds ?? []),
-    conflictResourceLabels: conflictDates.flatMap((dateKey) => byDate.get(dateKey)?.resourceLabels ?? []),
-    conflictSlots: conflictDates.map((dateISO) => ({ dateISO, slots: byDate.get(dateISO)?.slots ?? [], resourceLabels: byDate.get(dateISO)?.resourceLabels ?? [] })),
-    conflictKind: desk.kind,
-    userId
+    date: toISODateOnly(parsedDate),
+    floorplanId,
+    desks: occupancyDesks,
+    people
   });
 });
 
-
-
-type ParkingSmartRequest = {
-  floorplanId?: string;
-  date?: string;
-  arrivalTime?: string;
-  departureTime?: string;
-  chargingMinutes?: number;
-};
-
-app.post('/bookings/parking-smart/propose', async (req, res) => {
-  const { floorplanId, date, arrivalTime, departureTime, chargingMinutes } = req.body as ParkingSmartRequest;
-  const requestId = bookingRequestId();
-  logBookingEvent('SMART_PROPOSE_REQUEST_RECEIVED', {
-    requestId,
-    actorEmail: req.authUser?.email ?? null,
-    actorRole: req.authUser?.role ?? null,
-    floorplanId: floorplanId ?? null,
-    date: date ?? null,
-    arrivalTime: arrivalTime ?? null,
-    departureTime: departureTime ?? null,
-    chargingMinutes: typeof chargingMinutes === 'number' ? chargingMinutes : null
-  });
-  if (!floorplanId || !date || !arrivalTime || !departureTime || typeof chargingMinutes !== 'number') {
-    logBookingEvent('SMART_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'required input missing' }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'floorplanId, date, arrivalTime, departureTime and chargingMinutes are required' });
+// Pushes booking deltas for one floorplan and day; clients load GET /occupancy first and on every reconnect.
+app.get('/occupancy/stream', async (req, res) => {
+  const floorplanId = typeof req.query.floorplanId === 'string' ? req.query.floorplanId : undefined;
+  const parsedDate = typeof req.query.date === 'string' ? toDateOnly(req.query.date) : null;
+  if (!floorplanId || !parsedDate) {
+    res.status(400).json({ error: 'validation', message: 'floorplanId und date (YYYY-MM-DD) sind erforderlich' });
     return;
   }
 
-  const parsedDate = toDateOnly(date);
-  const parsedArrivalMinute = parseTimeToMinute(arrivalTime);
-  const parsedDepartureMinute = parseTimeToMinute(departureTime);
-  if (!parsedDate || parsedArrivalMinute === null || parsedDepartureMinute === null) {
-    logBookingEvent('SMART_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'invalid date/arrival/departure', date, arrivalTime, departureTime }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'date/arrivalTime/departureTime invalid' });
-    return;
+  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
+  try {
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
   }
 
-  const totalMinutes = parsedDepartureMinute - parsedArrivalMinute;
-  if (totalMinutes <= 0) {
-    logBookingEvent('SMART_PROPOSE_VALIDATION_FAILED', { requestId, reason: 'departure must be after arrival', arrivalTime, departureTime }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'Abreise muss nach der Anreise liegen.' });
+  const floorplan = await prisma.floorplan.findUnique({ where: { id: floorplanId }, select: { id: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } });
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
     return;
   }
-
-  const requestedCharging = Math.max(0, Math.floor(chargingMinutes));
-  const normalizedCharging = Math.min(totalMinutes, requestedCharging);
-
-  let actorEmployee;
-  try {
-    actorEmployee = await requireActorEmployee(req);
-  } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 403;
-    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+  const isAdmin = actor?.role === 'admin';
+  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar' });
     return;
   }
 
-  const spots = await prisma.desk.findMany({
-    where: { floorplanId, kind: 'PARKPLATZ' },
-    select: {
-      id: true,
-      name: true,
-      hasCharger: true,
-      tenantScope: true,
-      employeeScope: true,
-      deskTenants: { select: { tenantId: true } },
-      deskEmployees: { select: { employeeId: true } },
-      floorplan: { select: { tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }
-    },
-    orderBy: { createdAt: 'asc' }
+  const desks = await prisma.desk.findMany({
+    where: { floorplanId },
+    include: { floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } }
   });
-  const accessibleSpots = spots.filter((spot) => isDeskAccessibleForTenant(spot, actorEmployee.tenantDomainId, actorEmployee.id));
-  if (accessibleSpots.length === 0) {
-    logBookingEvent('SMART_PROPOSE_NOT_FOUND', { requestId, reason: 'no accessible parking spots', floorplanId }, 'warn');
-    res.status(404).json({ error: 'not_found', message: 'Keine buchbaren Parkplätze gefunden.' });
-    return;
-  }
+  const visibleDesks = isAdmin ? desks : desks.filter((desk) => isDeskAccessibleForTenant({ ...desk, zone: null }, actor?.tenantDomainId ?? null, actor?.id ?? null));
 
-  const bookings = await prisma.booking.findMany({ where: { date: parsedDate, deskId: { in: accessibleSpots.map((spot) => spot.id) } } });
-  const normalizedBookings = bookings.flatMap((booking) => {
-    const candidateWindow = bookingToWindow(booking);
-    if (!candidateWindow) return [];
-    const timeWindow = candidateWindow.mode === 'day' ? daySlotToMinuteRange(candidateWindow.daySlot) : candidateWindow;
-    return [{ deskId: booking.deskId, startMinute: timeWindow.startMinute, endMinute: timeWindow.endMinute }];
-  });
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${OCCUPANCY_STREAM_RETRY_MS}\n\n`);
 
-  const proposal = buildParkingAssignmentProposal({
-    startMinute: parsedArrivalMinute,
-    attendanceMinutes: totalMinutes,
-    chargingMinutes: normalizedCharging,
-    spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger })),
-    bookings: normalizedBookings
+  const unsubscribe = occupancyStreamHub.subscribe({
+    floorplanId,
+    date: toISODateOnly(parsedDate),
+    deskIds: new Set(visibleDesks.map((desk) => desk.id)),
+    send: (event, data) => {
+      res.write(formatServerSentEvent(event, data));
+    }
   });
-  logBookingEvent('SMART_PROPOSE_DEPENDENCIES', {
-    requestId,
-    spotsCount: spots.length,
-    existingBookingsCount: bookings.length,
-    normalizedBookingsCount: normalizedBookings.length,
-    totalMinutes,
-    requestedCharging,
-    normalizedCharging,
-    parsedArrivalMinute
-  }, 'debug');
-
-  const toNamedBookings = (entries: Array<{ deskId: string; startMinute: number; endMinute: number; hasCharger: boolean }>) => entries.map((entry) => ({
-    ...entry,
-    deskName: accessibleSpots.find((spot) => spot.id === entry.deskId)?.name ?? entry.deskId,
-    startTime: minuteToHHMM(entry.startMinute),
-    endTime: minuteToHHMM(entry.endMinute)
-  }));
+  // Comment lines keep proxies from closing an idle connection.
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, OCCUPANCY_STREAM_HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
 
-  if (normalizedCharging > 0 && proposal.type === 'none') {
-    let shorterProposal: ReturnType<typeof buildParkingAssignmentProposal> | null = null;
-    let offeredChargingMinutes = normalizedCharging;
-    for (let candidate = normalizedCharging - 30; candidate >= 30; candidate -= 30) {
-      const candidateProposal = buildParkingAssignmentProposal({
-        startMinute: parsedArrivalMinute,
-        attendanceMinutes: totalMinutes,
-        chargingMinutes: candidate,
-        spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger })),
-        bookings: normalizedBookings
-      });
-      if (candidateProposal.type !== 'none') {
-        shorterProposal = candidateProposal;
-        offeredChargingMinutes = candidate;
-        break;
-      }
-    }
+type ResourceSearchActor = { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null;
 
-    if (shorterProposal) {
-      const namedBookings = toNamedBookings(shorterProposal.bookings);
-      res.status(200).json({
-        status: 'ok',
-        proposalType: shorterProposal.type,
-        usedFallbackChargerFullWindow: shorterProposal.usedFallbackChargerFullWindow,
-        switchAfterCharging: shorterProposal.bookings.length === 2,
-        adjustedChargingMinutes: offeredChargingMinutes,
-        message: `Die gewünschte Ladedauer war nicht komplett frei. Es ist ein kürzeres Ladefenster von ${Math.floor(offeredChargingMinutes / 60)}h ${offeredChargingMinutes % 60}min verfügbar.`,
-        bookings: namedBookings
-      });
-      return;
+// Clock times take precedence; without them the search covers a day slot (default: the whole day).
+const parseSearchWindow = (startTime: unknown, endTime: unknown, daySlot: unknown): { ok: true; value: BookingWindowInput } | { ok: false; message: string } => {
+  if (typeof startTime === 'string' || typeof endTime === 'string') {
+    const startMinute = parseTimeToMinute(startTime);
+    const endMinute = parseTimeToMinute(endTime);
+    if (startMinute === null || endMinute === null || startMinute >= endMinute) {
+      return { ok: false, message: 'Start- und Endzeit müssen im Format HH:MM sein und der Start vor dem Ende liegen' };
     }
+    return { ok: true, value: { mode: 'time', startMinute, endMinute } };
+  }
+  const parsedDaySlot = parseDaySlot(daySlot ?? 'FULL');
+  if (!parsedDaySlot) return { ok: false, message: 'daySlot muss AM, PM oder FULL sein' };
+  return { ok: true, value: { mode: 'day', daySlot: parsedDaySlot } };
+};
 
-    const noChargingFallback = buildParkingAssignmentProposal({
-      startMinute: parsedArrivalMinute,
-      attendanceMinutes: totalMinutes,
-      chargingMinutes: 0,
-      spots: accessibleSpots.map((spot) => ({ id: spot.id, hasCharger: spot.hasCharger })),
-      bookings: normalizedBookings
-    });
+// Desks matching the filter that the actor may book and that are neither booked nor closed in the window.
+const findFreeResources = async ({ date, window, filter, floorplanId, actor }: { date: Date; window: BookingWindowInput; filter: ResourceFilter; floorplanId: string | null; actor: ResourceSearchActor }) => {
+  const desks = await prisma.desk.findMany({
+    where: {
+      ...(floorplanId ? { floorplanId } : {}),
+      ...(filter.kind ? { kind: filter.kind } : {}),
+      ...(filter.equipment.length > 0 ? { equipment: { hasEvery: filter.equipment } } : {})
+    },
+    include: { floorplan: { select: { id: true, name: true, sortOrder: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } }, zone: deskZoneSelect },
+    orderBy: { createdAt: 'asc' }
+  });
 
-    if (noChargingFallback.type !== 'none') {
-      const namedFallbackBookings = toNamedBookings(noChargingFallback.bookings);
-      res.status(200).json({
-        status: 'none',
-        reason: 'ALL_CHARGING_BOOKED',
-        message: 'Alle Ladezeiten sind im gewählten Zeitraum belegt. Möchtest du stattdessen einen normalen Parkplatz ohne Laden buchen?',
-        fallbackWithoutCharging: {
-          proposalType: noChargingFallback.type,
-          usedFallbackChargerFullWindow: noChargingFallback.usedFallbackChargerFullWindow,
-          switchAfterCharging: noChargingFallback.bookings.length === 2,
-          bookings: namedFallbackBookings
-        }
-      });
-      return;
-    }
-  }
+  const actorTeamIds = await getEmployeeTeamIds(actor?.id);
+  const candidates = desks
+    .filter((desk) => actor?.role === 'admin' || isDeskAccessibleForTenant(desk, actor?.tenantDomainId ?? null, actor?.id ?? null, actorTeamIds))
+    .filter((desk) => matchesResourceFilter(desk, filter));
 
-  if (proposal.type === 'none') {
-    logBookingEvent('SMART_PROPOSE_NO_MATCH', { requestId, reason: proposal.reason, floorplanId, date }, 'warn');
-    res.status(200).json({ status: 'none', reason: proposal.reason, message: 'Keine passende Kombination verfügbar.' });
-    return;
-  }
+  const [bookings, closuresByFloorplan] = await Promise.all([
+    prisma.booking.findMany({
+      where: { date, deskId: { in: candidates.map((desk) => desk.id) } },
+      select: { deskId: true, daySlot: true, slot: true, startTime: true, endTime: true, startMinute: true, endMinute: true }
+    }),
+    Promise.all(Array.from(new Set(candidates.map((desk) => desk.floorplanId))).map(async (id) => [id, await loadClosures(id, date, date)] as const))
+      .then((entries) => new Map(entries))
+  ]);
 
-  const namedBookings = toNamedBookings(proposal.bookings);
+  return candidates
+    .filter((desk) => !bookings.some((booking) => {
+      if (booking.deskId !== desk.id) return false;
+      const bookingWindow = bookingToWindow(booking);
+      return bookingWindow ? windowsOverlap(bookingWindow, window) : true;
+    }))
+    .filter((desk) => !findClosureForWindow(closuresByFloorplan.get(desk.floorplanId) ?? [], desk, date, window))
+    .sort((left, right) => left.floorplan.sortOrder - right.floorplan.sortOrder
+      || left.floorplan.name.localeCompare(right.floorplan.name, 'de')
+      || (left.capacity ?? 1) - (right.capacity ?? 1)
+      || left.name.localeCompare(right.name, 'de', { numeric: true }));
+};
 
-  res.status(200).json({
-    status: 'ok',
-    proposalType: proposal.type,
-    usedFallbackChargerFullWindow: proposal.usedFallbackChargerFullWindow,
-    switchAfterCharging: proposal.bookings.length === 2,
-    bookings: namedBookings
-  });
-  logBookingEvent('SMART_PROPOSE_SUCCESS', {
-    requestId,
-    proposalType: proposal.type,
-    usedFallbackChargerFullWindow: proposal.usedFallbackChargerFullWindow,
-    bookings: namedBookings.map((entry) => ({ deskId: entry.deskId, deskName: entry.deskName, startTime: entry.startTime, endTime: entry.endTime }))
-  });
+type FreeResource = Awaited<ReturnType<typeof findFreeResources>>[number];
+
+const mapFreeResource = (desk: FreeResource) => ({
+  id: desk.id,
+  name: desk.name,
+  kind: desk.kind,
+  capacity: desk.capacity,
+  equipment: desk.equipment,
+  hasCharger: desk.hasCharger,
+  zoneId: desk.zoneId,
+  floorplan: { id: desk.floorplan.id, name: desk.floorplan.name },
+  position: desk.x === null || desk.y === null ? null : { x: desk.x, y: desk.y }
 });
 
-app.post('/bookings/parking-smart/confirm', async (req, res) => {
-  const { date, bookings, bookedFor, guestName } = req.body as { date?: string; bookings?: Array<{ deskId: string; startMinute: number; endMinute: number }>; bookedFor?: string; guestName?: string };
-  const requestId = bookingRequestId();
-  logBookingEvent('SMART_CONFIRM_REQUEST_RECEIVED', {
-    requestId,
-    actorEmail: req.authUser?.email ?? null,
-    actorRole: req.authUser?.role ?? null,
-    date: date ?? null,
-    bookedForRaw: bookedFor ?? null,
-    bookingCount: Array.isArray(bookings) ? bookings.length : null
-  });
-  if (!date || !Array.isArray(bookings) || bookings.length === 0) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'date/bookings missing' }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'date and bookings are required' });
-    return;
-  }
-
-  const currentUser = req.authUser;
-  if (!currentUser) {
-    logBookingEvent('SMART_CONFIRM_UNAUTHORIZED', { requestId, reason: 'auth user missing' }, 'warn');
-    res.status(401).json({ error: 'unauthorized', message: 'Authentication required' });
-    return;
-  }
+const mapSearchWindow = (window: BookingWindowInput) => (window.mode === 'time'
+  ? { startTime: minuteToHHMM(window.startMinute), endTime: minuteToHHMM(window.endMinute) }
+  : { daySlot: window.daySlot });
 
-  let actorEmployee;
-  try {
-    actorEmployee = await requireActorEmployee(req);
-  } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 403;
-    logBookingEvent('SMART_CONFIRM_ACTOR_RESOLUTION_FAILED', { requestId, status, error: (error as Error).message }, 'warn');
-    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+app.get('/resources/search', async (req, res) => {
+  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+  if (!date) {
+    res.status(400).json({ error: 'validation', message: 'date ist erforderlich' });
     return;
   }
 
   const parsedDate = toDateOnly(date);
   if (!parsedDate) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'invalid date', date }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'date invalid' });
-    return;
-  }
-
-  const bookingMode = parseBookedFor(bookedFor);
-  const normalizedGuestName = normalizeGuestName(guestName);
-  if (bookingMode === 'GUEST' && (!normalizedGuestName || normalizedGuestName.length < 2)) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'guestName too short', bookingMode, guestNameLength: normalizedGuestName?.length ?? 0 }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'guestName muss mindestens 2 Zeichen haben.' });
-    return;
-  }
-
-  const validated = bookings.map((booking) => ({
-    deskId: booking.deskId,
-    startMinute: Math.floor(booking.startMinute),
-    endMinute: Math.floor(booking.endMinute)
-  }));
-  if (validated.some((entry) => !entry.deskId || !Number.isFinite(entry.startMinute) || !Number.isFinite(entry.endMinute) || entry.endMinute <= entry.startMinute)) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'bookings invalid', bookings: validated }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'bookings invalid' });
-    return;
-  }
-
-  const overlappingPayloadEntry = validated.find((entry, index) => validated.some((candidate, candidateIndex) => {
-    if (index === candidateIndex || entry.deskId !== candidate.deskId) return false;
-    return parkingWindowsOverlap(entry, candidate);
-  }));
-
-  const overlappingUserPayload = validated.find((entry, index) => validated.some((candidate, candidateIndex) => {
-    if (index === candidateIndex) return false;
-    return parkingWindowsOverlap(entry, candidate);
-  }));
-  if (overlappingPayloadEntry) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', {
-      requestId,
-      reason: 'overlapping bookings in payload',
-      deskId: overlappingPayloadEntry.deskId,
-      startMinute: overlappingPayloadEntry.startMinute,
-      endMinute: overlappingPayloadEntry.endMinute
-    }, 'warn');
-    res.status(409).json({ error: 'conflict', message: 'Überlappende Buchungszeiten für denselben Parkplatz sind nicht erlaubt.' });
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
     return;
   }
 
-  if (bookingMode === 'SELF' && overlappingUserPayload) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'overlapping user bookings in payload' }, 'warn');
-    res.status(409).json({ error: 'conflict', message: 'Du kannst im selben Zeitraum nur einen Parkplatz buchen.' });
+  const kind = typeof req.query.kind === 'string' && req.query.kind ? parseResourceKind(req.query.kind) : null;
+  if (typeof req.query.kind === 'string' && req.query.kind && !kind) {
+    res.status(400).json({ error: 'validation', message: 'kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
     return;
   }
 
-  const deskIds = Array.from(new Set(validated.map((entry) => entry.deskId)));
-  const desks = await prisma.desk.findMany({ where: { id: { in: deskIds } }, select: { id: true, kind: true } });
-  if (desks.length !== deskIds.length || desks.some((desk) => desk.kind !== 'PARKPLATZ')) {
-    logBookingEvent('SMART_CONFIRM_VALIDATION_FAILED', { requestId, reason: 'non parking resource in payload', deskIds }, 'warn');
-    res.status(400).json({ error: 'validation', message: 'Nur PARKPLATZ-Ressourcen sind erlaubt.' });
+  const minCapacity = typeof req.query.minCapacity === 'string' && req.query.minCapacity ? Number(req.query.minCapacity) : null;
+  if (minCapacity !== null && (!Number.isInteger(minCapacity) || minCapacity < 1)) {
+    res.status(400).json({ error: 'validation', message: 'minCapacity muss eine positive ganze Zahl sein' });
     return;
   }
 
-  const deskContexts = await prisma.desk.findMany({
-    where: { id: { in: deskIds } },
-    select: {
-      id: true,
-      tenantScope: true,
-      employeeScope: true,
-      deskTenants: { select: { tenantId: true } },
-      deskEmployees: { select: { employeeId: true } },
-      floorplan: { select: { tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }
-    }
-  });
-  const inaccessible = deskContexts.filter((desk) => !isDeskAccessibleForTenant(desk, actorEmployee.tenantDomainId, actorEmployee.id));
-  if (inaccessible.length > 0) {
-    logBookingEvent('SMART_CONFIRM_FORBIDDEN_TENANT_MISMATCH', {
-      requestId,
-      actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
-      inaccessibleDeskIds: inaccessible.map((desk) => desk.id)
-    }, 'warn');
-    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht buchbar' });
+  const equipment = parseEquipmentList(req.query.equipment);
+  if (!equipment.ok) {
+    res.status(400).json({ error: 'validation', message: equipment.message });
     return;
   }
 
-  logBookingEvent('SMART_CONFIRM_DEPENDENCIES', {
-    requestId,
-    actorEmployeeId: actorEmployee.id,
-    actorTenantDomainId: actorEmployee.tenantDomainId ?? null,
-    bookingMode,
-    deskIds,
-    windows: validated
-  }, 'debug');
+  const window = parseSearchWindow(req.query.startTime, req.query.endTime, req.query.daySlot);
+  if (!window.ok) {
+    res.status(400).json({ error: 'validation', message: window.message });
+    return;
+  }
 
+  let actor: ResourceSearchActor = null;
   try {
-    const created = await prisma.$transaction(async (tx) => {
-      for (const entry of validated) {
-        await acquireBookingLock(tx, bookingDeskKeyForDate(entry.deskId, parsedDate));
-      }
-
-      const existingUserBookings = bookingMode === 'SELF'
-        ? await tx.booking.findMany({ where: { date: parsedDate, desk: { kind: 'PARKPLATZ' }, bookedFor: 'SELF', employeeId: actorEmployee.id } })
-        : [];
-
-      for (const entry of validated) {
-        const userConflict = bookingMode === 'SELF' && existingUserBookings.some((candidate) => {
-          const candidateWindow = bookingToWindow(candidate);
-          if (!candidateWindow) return false;
-          const candidateTime = candidateWindow.mode === 'day' ? daySlotToMinuteRange(candidateWindow.daySlot) : candidateWindow;
-          return parkingWindowsOverlap(entry, candidateTime);
-        });
-        if (userConflict) {
-          const error = new Error('user_conflict');
-          (error as Error & { status?: number }).status = 409;
-          throw error;
-        }
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
+  }
 
-        const existing = await tx.booking.findMany({ where: { deskId: entry.deskId, date: parsedDate } });
-        const hasConflict = existing.some((candidate) => {
-          const candidateWindow = bookingToWindow(candidate);
-          if (!candidateWindow) return false;
-          const candidateTime = candidateWindow.mode === 'day' ? daySlotToMinuteRange(candidateWindow.daySlot) : candidateWindow;
-          return parkingWindowsOverlap(entry, candidateTime);
-        });
+  const results = await findFreeResources({
+    date: parsedDate,
+    window: window.value,
+    filter: { kind, minCapacity, equipment: equipment.value },
+    floorplanId: typeof req.query.floorplanId === 'string' && req.query.floorplanId ? req.query.floorplanId : null,
+    actor
+  });
 
-        if (hasConflict) {
-          logBookingEvent('SMART_CONFIRM_CONFLICT_DESK_ALREADY_BOOKED', { requestId, deskId: entry.deskId, startMinute: entry.startMinute, endMinute: entry.endMinute }, 'warn');
-          const error = new Error('not_available');
-          (error as Error & { status?: number }).status = 409;
-          throw error;
-        }
-      }
+  res.status(200).json({
+    date: toISODateOnly(parsedDate),
+    window: mapSearchWindow(window.value),
+    results: results.map(mapFreeResource)
+  });
+});
 
-      const result = [];
-      for (const entry of validated) {
-        result.push(await tx.booking.create({
-          data: {
-            deskId: entry.deskId,
-            userEmail: bookingMode === 'SELF' ? actorEmployee.email : null,
-            employeeId: bookingMode === 'SELF' ? actorEmployee.id : null,
-            bookedFor: bookingMode,
-            guestName: bookingMode === 'GUEST' ? normalizedGuestName : null,
-            createdByEmployeeId: actorEmployee.id,
-            createdByUserId: req.authUser?.source === 'local' ? req.authUser.id : null,
-            createdByEmail: req.authUser?.email ?? null,
-            date: parsedDate,
-            daySlot: null,
-            slot: 'CUSTOM',
-            startMinute: entry.startMinute,
-            endMinute: entry.endMinute,
-            startTime: new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(entry.startMinute / 60), entry.startMinute % 60, 0, 0)),
-            endTime: new Date(Date.UTC(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate(), Math.floor(entry.endMinute / 60), entry.endMinute % 60, 0, 0))
-          }
-        }));
-      }
-      return result;
-    });
+// Colleagues are the members of the actor's teams; without a team, people of the same tenant count instead.
+const loadRankingSignals = async (actor: { id: string; tenantDomainId?: string | null }, date: Date): Promise<RankingSignals> => {
+  const since = new Date(date);
+  since.setUTCDate(since.getUTCDate() - USAGE_LOOKBACK_DAYS);
+  const teamIds = await getEmployeeTeamIds(actor.id);
+  const colleagueFilter = teamIds.size > 0
+    ? { teamMemberships: { some: { teamId: { in: Array.from(teamIds) } } }, isActive: true }
+    : actor.tenantDomainId ? { tenantDomainId: actor.tenantDomainId, isActive: true } : null;
+  const [usage, teammateBookings, teamZones] = await Promise.all([
+    prisma.booking.groupBy({
+      by: ['deskId'],
+      where: { employeeId: actor.id, bookedFor: 'SELF', date: { gte: since, lt: date } },
+      _count: { _all: true }
+    }),
+    colleagueFilter
+      ? prisma.booking.findMany({
+        where: { date, bookedFor: 'SELF', employeeId: { not: actor.id }, employee: colleagueFilter },
+        select: { desk: { select: { floorplanId: true, x: true, y: true } } }
+      })
+      : Promise.resolve([]),
+    prisma.zoneTeam.findMany({ where: { teamId: { in: Array.from(teamIds) } }, select: { zoneId: true } })
+  ]);
 
-    logBookingEvent('SMART_CONFIRM_SUCCESS', {
-      requestId,
-      createdCount: created.length,
-      bookings: created.map((entry) => ({ id: entry.id, deskId: entry.deskId, startMinute: entry.startMinute, endMinute: entry.endMinute, bookedFor: entry.bookedFor }))
-    });
-    res.status(201).json({ createdCount: created.length, bookings: created.map((entry) => ({ id: entry.id, deskId: entry.deskId, date: entry.date, startMinute: entry.startMinute, endMinute: entry.endMinute, slot: entry.slot })) });
-  } catch (error) {
-    const status = (error as Error & { status?: number }).status ?? 500;
-    if (status === 409) {
-      logBookingEvent('SMART_CONFIRM_RESPONSE_CONFLICT', { requestId, status, error: (error as Error).message }, 'warn');
-      if ((error as Error).message === 'user_conflict') {
-        res.status(409).json({ error: 'conflict', message: 'Du hast in diesem Zeitraum bereits eine Parkplatz-Buchung.' });
-        return;
-      }
-      res.status(409).json({ error: 'conflict', message: 'Parkplatz nicht mehr verfügbar, bitte neu zuweisen.' });
-      return;
-    }
-    logBookingEvent('SMART_CONFIRM_UNEXPECTED_ERROR', { requestId, status, error: error instanceof Error ? error.message : String(error) }, 'error');
-    throw error;
+  const usedDesks = await prisma.desk.findMany({ where: { id: { in: usage.map((entry) => entry.deskId) } }, select: { id: true, floorplanId: true } });
+  const floorplanByDeskId = new Map(usedDesks.map((desk) => [desk.id, desk.floorplanId]));
+  const deskUsage = new Map<string, number>();
+  const floorplanUsage = new Map<string, number>();
+  for (const entry of usage) {
+    deskUsage.set(entry.deskId, entry._count._all);
+    const floorplanId = floorplanByDeskId.get(entry.deskId);
+    if (floorplanId) floorplanUsage.set(floorplanId, (floorplanUsage.get(floorplanId) ?? 0) + entry._count._all);
   }
-});
 
-app.post('/bookings/range', async (req, res) => {
-  const { deskId, userEmail, from, to, weekdaysOnly, replaceExisting, overrideExisting } = req.body as {
-    deskId?: string;
-    userEmail?: string;
-    from?: string;
-    to?: string;
-    weekdaysOnly?: boolean;
-    replaceExisting?: boolean;
-    overrideExisting?: boolean;
+  return {
+    deskUsage,
+    floorplanUsage,
+    teammates: teammateBookings.map((booking) => booking.desk),
+    teamZoneIds: new Set(teamZones.map((assignment) => assignment.zoneId))
   };
+};
 
-  if (!deskId || !userEmail || !from || !to) {
-    res.status(400).json({ error: 'validation', message: 'deskId, userEmail, from and to are required' });
+app.get('/availability/search', async (req, res) => {
+  const date = typeof req.query.date === 'string' ? toDateOnly(req.query.date) : null;
+  if (!date) {
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
     return;
   }
 
-  const parsedFrom = toDateOnly(from);
-  const parsedTo = toDateOnly(to);
-  if (!parsedFrom || !parsedTo) {
-    res.status(400).json({ error: 'validation', message: 'from/to must be in YYYY-MM-DD format' });
+  const kind = typeof req.query.kind === 'string' && req.query.kind ? parseResourceKind(req.query.kind) : null;
+  if (typeof req.query.kind === 'string' && req.query.kind && !kind) {
+    res.status(400).json({ error: 'validation', message: 'kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
     return;
   }
 
-  if (parsedTo < parsedFrom) {
-    res.status(400).json({ error: 'validation', message: 'to must be on or after from' });
+  const window = parseSearchWindow(req.query.from, req.query.to, req.query.daySlot);
+  if (!window.ok) {
+    res.status(400).json({ error: 'validation', message: window.message });
     return;
   }
 
-  const desk = await getDeskContext(deskId);
-  if (!desk) {
-    res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
     return;
   }
 
-  const includeWeekdaysOnly = weekdaysOnly !== false;
-  const shouldOverrideExisting = overrideExisting ?? replaceExisting ?? false;
-  const targetDates = datesInRange(parsedFrom, parsedTo).filter((date) => {
-    if (!includeWeekdaysOnly) {
-      return true;
-    }
+  // Admins get the same candidates as everybody else here: the result is meant to be booked by the actor.
+  const [resources, signals] = await Promise.all([
+    findFreeResources({ date, window: window.value, filter: { kind, minCapacity: null, equipment: [] }, floorplanId: null, actor: { ...actorEmployee, role: 'user' } }),
+    loadRankingSignals(actorEmployee, date)
+  ]);
+  const ranked = rankResources(resources, signals);
 
-    const day = date.getUTCDay();
-    return day >= 1 && day <= 5;
+  res.status(200).json({
+    date: toISODateOnly(date),
+    window: mapSearchWindow(window.value),
+    results: ranked.map(({ resource, score, reasons }) => ({ ...mapFreeResource(resource), score, reasons }))
   });
+});
 
-  if (targetDates.length === 0) {
-    res.status(201).json({ createdCount: 0, updatedCount: 0, skippedCount: 0, skippedDates: [], dates: [] });
+const followedEmployeeSelect = { id: true, email: true, displayName: true, photoUrl: true, photoUpdatedAt: true } as const;
+
+app.get('/me/follows', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
     return;
   }
 
-  const identity = await findBookingIdentity(userEmail);
+  const follows = await prisma.employeeFollow.findMany({
+    where: { followerId: actorEmployee.id, followee: { isActive: true } },
+    include: { followee: { select: followedEmployeeSelect } },
+    orderBy: { followee: { displayName: 'asc' } }
+  });
+  res.status(200).json(follows.map((follow) => toEmployeeResponse(follow.followee)));
+});
+
+app.put('/me/follows/:employeeId', async (req, res) => {
+  const employeeId = getRouteId(req.params.employeeId);
+  if (!employeeId) {
+    res.status(400).json({ error: 'validation', message: 'employeeId ist erforderlich' });
+    return;
+  }
 
   let actorEmployee;
   try {
@@ -4686,442 +9122,330 @@ app.post('/bookings/range', async (req, res) => {
     return;
   }
 
-  if (!isDeskAccessibleForTenant(desk, actorEmployee.tenantDomainId, actorEmployee.id)) {
-    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar oder buchbar' });
+  if (employeeId === actorEmployee.id) {
+    res.status(400).json({ error: 'validation', message: 'Du kannst dir nicht selbst folgen' });
+    return;
+  }
+  const followee = await prisma.employee.findFirst({ where: { id: employeeId, isActive: true }, select: followedEmployeeSelect });
+  if (!followee) {
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
+    return;
+  }
+  const existing = await prisma.employeeFollow.count({ where: { followerId: actorEmployee.id } });
+  if (existing >= MAX_FOLLOWED_EMPLOYEES) {
+    res.status(409).json({ error: 'conflict', message: `Du kannst höchstens ${MAX_FOLLOWED_EMPLOYEES} Kolleg:innen folgen` });
     return;
   }
 
-  const result = await prisma.$transaction(async (tx) => {
-    const lockKeys = Array.from(new Set(targetDates.flatMap((targetDate) => [
-      bookingUserKeyForDate(identity.userKey, targetDate),
-      bookingDeskKeyForDate(deskId, targetDate)
-    ]))).sort();
-
-    for (const lockKey of lockKeys) {
-      await acquireBookingLock(tx, lockKey);
-    }
-
-    const existingUserBookings = await tx.booking.findMany({
-      where: {
-        date: { in: targetDates },
-        userEmail: { in: identity.emailAliases },
-        desk: { kind: desk.kind }
-      },
-      include: { desk: { select: { name: true, kind: true } } },
-      orderBy: [{ date: 'asc' }, { createdAt: 'desc' }, { id: 'desc' }]
-    });
-
-    const existingByDate = new Map<string, BookingWithDeskContext>();
-    const duplicateIdsToDelete: string[] = [];
-    for (const booking of existingUserBookings) {
-      const key = toISODateOnly(booking.date);
-      if (!existingByDate.has(key)) {
-        existingByDate.set(key, booking);
-      } else {
-        duplicateIdsToDelete.push(booking.id);
-      }
-    }
-
-    if (duplicateIdsToDelete.length > 0) {
-      await tx.booking.deleteMany({ where: { id: { in: duplicateIdsToDelete } } });
-    }
-
-    const keepIds = Array.from(existingByDate.values()).map((booking) => booking.id);
-    const deskSingleConflicts = await tx.booking.findMany({
-      where: {
-        deskId,
-        date: { in: targetDates },
-        id: { notIn: keepIds },
-        userEmail: { notIn: identity.emailAliases }
-      },
-      orderBy: { date: 'asc' }
-    });
+  await prisma.employeeFollow.upsert({
+    where: { followerId_followeeId: { followerId: actorEmployee.id, followeeId: employeeId } },
+    create: { followerId: actorEmployee.id, followeeId: employeeId },
+    update: {}
+  });
+  res.status(200).json(toEmployeeResponse(followee));
+});
 
-    if (deskSingleConflicts.length > 0) {
-      const conflictDates = deskSingleConflicts.map((booking) => toISODateOnly(booking.date));
-      return {
-        kind: 'conflict' as const,
-        message: 'Range booking has conflicting dates',
-        details: {
-          deskId,
-          from,
-          to,
-          weekdaysOnly: includeWeekdaysOnly,
-          conflictingDates: conflictDates,
-          conflictingDatesPreview: conflictDates.slice(0, 10)
-        }
-      };
-    }
+app.delete('/me/follows/:employeeId', async (req, res) => {
+  const employeeId = getRouteId(req.params.employeeId);
+  if (!employeeId) {
+    res.status(400).json({ error: 'validation', message: 'employeeId ist erforderlich' });
+    return;
+  }
 
-    let createdCount = 0;
-    let updatedCount = 0;
-    const skippedDates: string[] = [];
-    const updatedDates: string[] = [];
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
 
-    for (const targetDate of targetDates) {
-      const dateKey = toISODateOnly(targetDate);
-      const existing = existingByDate.get(dateKey);
-      if (existing) {
-        if (!shouldOverrideExisting) {
-          skippedDates.push(dateKey);
-          continue;
-        }
+  await prisma.employeeFollow.deleteMany({ where: { followerId: actorEmployee.id, followeeId: employeeId } });
+  res.status(204).send();
+});
 
-        if (existing.deskId !== deskId || existing.userEmail !== identity.normalizedEmail) {
-          await tx.booking.update({
-            where: { id: existing.id },
-            data: { deskId, userEmail: identity.normalizedEmail, employeeId: actorEmployee.id, bookedFor: 'SELF', guestName: null, createdByEmployeeId: actorEmployee.id }
-          });
-        }
+// Delegates may create, edit and cancel bookings for the principal; either side can end the delegation.
+app.get('/me/delegations', async (req, res) => {
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
 
-        updatedCount += 1;
-        updatedDates.push(dateKey);
-        continue;
-      }
+  const [delegates, principals] = await Promise.all([
+    prisma.bookingDelegation.findMany({
+      where: { principalId: actorEmployee.id, delegate: { isActive: true } },
+      include: { delegate: { select: followedEmployeeSelect } },
+      orderBy: { delegate: { displayName: 'asc' } }
+    }),
+    prisma.bookingDelegation.findMany({
+      where: { delegateId: actorEmployee.id, principal: { isActive: true } },
+      include: { principal: { select: followedEmployeeSelect } },
+      orderBy: { principal: { displayName: 'asc' } }
+    })
+  ]);
+  res.status(200).json({
+    delegates: delegates.map((delegation) => toEmployeeResponse(delegation.delegate)),
+    principals: principals.map((delegation) => toEmployeeResponse(delegation.principal))
+  });
+});
 
-      await tx.booking.create({ data: { deskId, userEmail: identity.normalizedEmail, employeeId: actorEmployee.id, createdByEmployeeId: actorEmployee.id, createdByUserId: req.authUser?.source === 'local' ? req.authUser.id : null, createdByEmail: req.authUser?.email ?? null, bookedFor: 'SELF', guestName: null, date: targetDate } });
-      createdCount += 1;
-    }
+app.put('/me/delegates/:employeeId', async (req, res) => {
+  const employeeId = getRouteId(req.params.employeeId);
+  if (!employeeId) {
+    res.status(400).json({ error: 'validation', message: 'employeeId ist erforderlich' });
+    return;
+  }
 
-    return {
-      kind: 'ok' as const,
-      payload: {
-        createdCount,
-        updatedCount,
-        skippedCount: skippedDates.length,
-        skippedDates,
-        updatedDates,
-        dates: targetDates.map((targetDate) => toISODateOnly(targetDate))
-      }
-    };
-  });
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
+  }
 
-  if (result.kind === 'conflict') {
-    sendConflict(res, result.message, result.details);
+  if (employeeId === actorEmployee.id) {
+    res.status(400).json({ error: 'validation', message: 'Du kannst dich nicht selbst als Vertretung eintragen' });
+    return;
+  }
+  const delegate = await prisma.employee.findFirst({ where: { id: employeeId, isActive: true }, select: followedEmployeeSelect });
+  if (!delegate) {
+    res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
     return;
   }
 
-  res.status(201).json(result.payload);
+  const existing = await prisma.bookingDelegation.findUnique({ where: { principalId_delegateId: { principalId: actorEmployee.id, delegateId: employeeId } } });
+  if (!existing) {
+    const created = await prisma.bookingDelegation.create({ data: { principalId: actorEmployee.id, delegateId: employeeId } });
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'BookingDelegation', entityId: `${created.principalId}:${created.delegateId}`, after: created });
+  }
+  res.status(200).json(toEmployeeResponse(delegate));
 });
 
-app.get('/bookings', async (req, res) => {
-  const from = typeof req.query.from === 'string' ? req.query.from : undefined;
-  const to = typeof req.query.to === 'string' ? req.query.to : undefined;
-  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
-  const floorplanId = typeof req.query.floorplanId === 'string' ? req.query.floorplanId : undefined;
-
-  const where: Prisma.BookingWhereInput = {};
+const removeBookingDelegation = async (req: express.Request, res: express.Response, side: 'delegate' | 'principal') => {
+  const employeeId = getRouteId(req.params.employeeId);
+  if (!employeeId) {
+    res.status(400).json({ error: 'validation', message: 'employeeId ist erforderlich' });
+    return;
+  }
 
-  if (date) {
-    const parsedDate = toDateOnly(date);
-    if (!parsedDate) {
-      res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
-      return;
-    }
-    where.date = parsedDate;
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
   }
 
-  if (from || to) {
-    where.date = {};
+  const key = side === 'delegate'
+    ? { principalId: actorEmployee.id, delegateId: employeeId }
+    : { principalId: employeeId, delegateId: actorEmployee.id };
+  const existing = await prisma.bookingDelegation.findUnique({ where: { principalId_delegateId: key } });
+  if (existing) {
+    await prisma.bookingDelegation.delete({ where: { principalId_delegateId: key } });
+    await recordAuditEvent(req, { action: 'DELETE', entityType: 'BookingDelegation', entityId: `${existing.principalId}:${existing.delegateId}`, before: existing });
+  }
+  res.status(204).send();
+};
 
-    if (from) {
-      const fromDate = toDateOnly(from);
-      if (!fromDate) {
-        res.status(400).json({ error: 'validation', message: 'from must be in YYYY-MM-DD format' });
-        return;
-      }
-      where.date.gte = fromDate;
-    }
+app.delete('/me/delegates/:employeeId', (req, res) => removeBookingDelegation(req, res, 'delegate'));
+app.delete('/me/principals/:employeeId', (req, res) => removeBookingDelegation(req, res, 'principal'));
 
-    if (to) {
-      const toDate = toDateOnly(to);
-      if (!toDate) {
-        res.status(400).json({ error: 'validation', message: 'to must be in YYYY-MM-DD format' });
-        return;
-      }
-      where.date.lte = toDate;
-    }
+// Where the requested colleagues (default: the ones the actor follows) have booked over a date range.
+// Only bookings for themselves on floorplans the actor can see are returned; guest bookings stay private.
+app.get('/presence/week', async (req, res) => {
+  const range = parsePresenceRange(req.query.from, req.query.to, toISODateOnly(getBerlinNow().date));
+  if (!range.ok) {
+    res.status(400).json({ error: 'validation', message: range.message });
+    return;
   }
-
-  if (floorplanId) {
-    where.desk = { floorplanId };
+  const requestedIds = parseEmployeeIdList(req.query.employeeIds);
+  if (!requestedIds.ok) {
+    res.status(400).json({ error: 'validation', message: requestedIds.message });
+    return;
   }
 
-  if (req.authUser?.role !== 'admin' && req.authUser?.id) {
-    try {
-      const actorEmployee = await requireActorEmployee(req);
-      where.createdByEmployeeId = actorEmployee.id;
-    } catch (error) {
-      const status = (error as Error & { status?: number }).status ?? 403;
-      res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
-      return;
-    }
+  let actorEmployee;
+  try {
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
+    return;
   }
 
-  const bookings = await prisma.booking.findMany({
-    where,
+  const employeeIds = requestedIds.value.length > 0
+    ? requestedIds.value
+    : (await prisma.employeeFollow.findMany({ where: { followerId: actorEmployee.id }, select: { followeeId: true } })).map((follow) => follow.followeeId);
+  const employees = await prisma.employee.findMany({
+    where: { id: { in: employeeIds }, isActive: true },
+    select: followedEmployeeSelect,
+    orderBy: [{ displayName: 'asc' }, { email: 'asc' }]
+  });
+
+  const from = toDateOnly(range.value.from) as Date;
+  const to = toDateOnly(range.value.to) as Date;
+  const bookings = employees.length === 0 ? [] : await prisma.booking.findMany({
+    where: { employeeId: { in: employees.map((employee) => employee.id) }, bookedFor: 'SELF', date: { gte: from, lte: to } },
     select: {
-      id: true,
-      deskId: true,
-      userEmail: true,
       employeeId: true,
-      bookedFor: true,
-      guestName: true,
-      createdByEmployeeId: true,
-      recurringBookingId: true,
-      recurringGroupId: true,
-      creatorUnknown: true,
       date: true,
       daySlot: true,
+      slot: true,
       startTime: true,
       endTime: true,
-      slot: true,
       startMinute: true,
       endMinute: true,
-      createdAt: true,
-      createdByEmployee: { select: { id: true, displayName: true, email: true } },
-      desk: { select: { kind: true } }
-    },
-    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
-  });
-
-  if (!isProd) {
-    const duplicateGroups = findDuplicateUserDateGroups(bookings);
-    if (duplicateGroups.length > 0) {
-      console.warn('BOOKINGS_DUPLICATES_DETECTED', { count: duplicateGroups.length, sample: duplicateGroups.slice(0, 10) });
-    }
-  }
-
-  const employeesByEmail = await getActiveEmployeesByEmail(bookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)));
-  const usersByEmail = new Map((await prisma.user.findMany({
-    where: {
-      email: {
-        in: Array.from(new Set(bookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)).map((email) => normalizeEmail(email))))
+      desk: {
+        select: {
+          id: true,
+          name: true,
+          kind: true,
+          floorplan: { select: { id: true, name: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }
+        }
       }
     },
-    select: { id: true, email: true, displayName: true }
-  })).map((user) => [normalizeEmail(user.email), user]));
-  const enrichedBookings = bookings.map((booking) => ({
-    ...(function () {
-      const normalizedUserEmail = booking.userEmail ? normalizeEmail(booking.userEmail) : null;
-      const employee = normalizedUserEmail ? employeesByEmail.get(normalizedUserEmail) : undefined;
-      const appUser = normalizedUserEmail ? usersByEmail.get(normalizedUserEmail) : undefined;
-      const fallbackUser = booking.userEmail
-        ? {
-          id: appUser?.id ?? booking.createdByEmployeeId ?? `legacy-${normalizedUserEmail}`,
-          displayName: employee?.displayName ?? appUser?.displayName ?? booking.userEmail,
-          email: booking.userEmail
-        }
-        : null;
-      const createdBy = resolveCreatedBySummary({
-        createdBy: booking.createdByEmployee,
-        fallbackUser
-      });
-
-      return {
-        createdBy,
-        createdByUserId: createdBy.id,
-    createdByEmployeeId: booking.createdByEmployeeId,
-        user: booking.bookedFor === 'SELF' && fallbackUser ? fallbackUser : null,
-        userDisplayName: employee?.displayName,
-        employeeId: booking.employeeId ?? employee?.id,
-        userPhotoUrl: employee?.photoUrl ?? undefined
-      };
-    })(),
-    id: booking.id,
-    deskId: booking.deskId,
-    userEmail: booking.userEmail,
-    bookedFor: booking.bookedFor,
-    guestName: booking.guestName,
-    recurringBookingId: booking.recurringBookingId,
-    recurringGroupId: booking.recurringGroupId,
-    date: booking.date,
-    createdAt: booking.createdAt,
-    daySlot: booking.daySlot ?? bookingSlotToDaySlot(booking.slot),
-    slot: booking.slot,
-    startTime: minuteToHHMM(booking.startMinute ?? (booking.startTime ? booking.startTime.getUTCHours() * 60 + booking.startTime.getUTCMinutes() : null)),
-    endTime: minuteToHHMM(booking.endMinute ?? (booking.endTime ? booking.endTime.getUTCHours() * 60 + booking.endTime.getUTCMinutes() : null))
-  }));
+    orderBy: [{ date: 'asc' }, { startMinute: 'asc' }]
+  });
 
-  res.status(200).json(enrichedBookings);
+  const isAdmin = actorEmployee.role === 'admin';
+  res.status(200).json({
+    from: range.value.from,
+    to: range.value.to,
+    dates: range.value.dates,
+    employees: employees.map((employee) => toEmployeeResponse(employee)),
+    entries: bookings
+      .filter((booking) => isAdmin || isFloorplanVisibleForTenant(booking.desk.floorplan, actorEmployee.tenantDomainId ?? null))
+      .map((booking) => {
+        const window = bookingToWindow(booking);
+        return {
+          employeeId: booking.employeeId,
+          date: toISODateOnly(booking.date),
+          desk: { id: booking.desk.id, name: booking.desk.name, kind: booking.desk.kind },
+          floorplan: { id: booking.desk.floorplan.id, name: booking.desk.floorplan.name },
+          ...(window ? mapSearchWindow(window) : {})
+        };
+      })
+  });
 });
 
-app.get('/occupancy', async (req, res) => {
-  const floorplanId = typeof req.query.floorplanId === 'string' ? req.query.floorplanId : undefined;
-  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
-
-  if (!floorplanId || !date) {
-    res.status(400).json({ error: 'validation', message: 'floorplanId and date are required' });
+// "Book next to them": the closest free resource of the same kind on the colleague's floorplan for the given window.
+app.get('/presence/next-to', async (req, res) => {
+  const deskId = typeof req.query.deskId === 'string' ? req.query.deskId : '';
+  const date = typeof req.query.date === 'string' ? toDateOnly(req.query.date) : null;
+  if (!deskId || !date) {
+    res.status(400).json({ error: 'validation', message: 'deskId und date (YYYY-MM-DD) sind erforderlich' });
     return;
   }
-
-  const parsedDate = toDateOnly(date);
-  if (!parsedDate) {
-    res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
+  const window = parseSearchWindow(req.query.startTime, req.query.endTime, req.query.daySlot);
+  if (!window.ok) {
+    res.status(400).json({ error: 'validation', message: window.message });
     return;
   }
 
-  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
+  let actorEmployee;
   try {
-    actor = await requireActorEmployee(req);
-  } catch {
-    actor = null;
-  }
-
-  const floorplan = await prisma.floorplan.findUnique({
-    where: { id: floorplanId },
-    select: { id: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } }
-  });
-
-  if (!floorplan) {
-    res.status(404).json({ error: 'not_found', message: 'Floorplan not found' });
-    return;
-  }
-
-  const isAdmin = actor?.role === 'admin';
-  if (!isAdmin && !isFloorplanVisibleForTenant(floorplan, actor?.tenantDomainId ?? null)) {
-    res.status(403).json({ error: 'forbidden', message: 'Floorplan is not visible for current tenant' });
+    actorEmployee = await requireActorEmployee(req);
+  } catch (error) {
+    const status = (error as Error & { status?: number }).status ?? 403;
+    res.status(status).json({ error: status === 401 ? 'unauthorized' : 'forbidden', message: (error as Error).message });
     return;
   }
-
-  const actorTenantDomainId = actor?.tenantDomainId ?? null;
-  const desks = await prisma.desk.findMany({
-    where: { floorplanId },
-    include: { floorplan: { select: { defaultAllowSeries: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } },
-    orderBy: { createdAt: 'asc' }
-  });
-
-  const visibleDesks = isAdmin
-    ? desks
-    : desks.filter((desk) => isDeskAccessibleForTenant(desk, actorTenantDomainId, actor?.id ?? null));
-
-  const visibleDeskIds = new Set(visibleDesks.map((desk) => desk.id));
-  const bookingsInRange = await getBookingsForDateRange(parsedDate, parsedDate, floorplanId);
-  const visibleSingleBookings = bookingsInRange.singleBookings
-    .filter((booking) => visibleDeskIds.has(booking.deskId))
-    .sort((left, right) => left.createdAt.getTime() - right.createdAt.getTime());
-
-  const visibleRecurringOccurrenceKeys = new Set(
-    bookingsInRange.occurrences
-      .filter((occurrence) => visibleDeskIds.has(occurrence.resourceId))
-      .map((occurrence) => `${occurrence.resourceId}|${occurrence.date}|${occurrence.createdByEmployeeId}`)
-  );
-
-  const recurringOccurrenceKeys = visibleRecurringOccurrenceKeys;
-  const employeesByEmail = await getActiveEmployeesByEmail(visibleSingleBookings.map((booking) => booking.userEmail).filter((email): email is string => Boolean(email)));
-  const bookingsByDeskId = new Map<string, typeof visibleSingleBookings>();
-  for (const booking of visibleSingleBookings) {
-    bookingsByDeskId.set(booking.deskId, [...(bookingsByDeskId.get(booking.deskId) ?? []), booking]);
-  }
-
-  const occupancyDesks = visibleDesks.map((desk) => {
-    const deskBookings = bookingsByDeskId.get(desk.id) ?? [];
-    const normalizedBookings = deskBookings.map((booking) => {
-      const employee = booking.userEmail ? employeesByEmail.get(normalizeEmail(booking.userEmail)) : undefined;
-      const employeeData = booking.bookedFor === 'SELF' && booking.userEmail
-        ? {
-          id: booking.employeeId ?? employee?.id,
-          email: booking.userEmail,
-          displayName: employee?.displayName ?? booking.userEmail,
-          phone: employee?.phone ?? null,
-          photoUrl: employee?.photoUrl ?? null
-        }
-        : null;
-
-      return {
-        id: booking.id,
-        userEmail: booking.userEmail,
-        bookedFor: booking.bookedFor,
-        guestName: booking.guestName,
-        recurringBookingId: booking.recurringBookingId,
-        recurringGroupId: booking.recurringGroupId,
-        createdBy: booking.createdByEmployee,
-        createdByUserId: booking.createdByEmployeeId,
-        createdByEmployeeId: booking.createdByEmployeeId,
-        creatorUnknown: booking.creatorUnknown,
-        employeeId: booking.employeeId ?? employee?.id,
-        userDisplayName: booking.userEmail ? employee?.displayName : undefined,
-        userPhone: booking.userEmail ? (employee?.phone ?? undefined) : undefined,
-        userPhotoUrl: booking.userEmail ? (employee?.photoUrl ?? undefined) : undefined,
-        employee: employeeData,
-        deskName: desk.name,
-        deskId: desk.id,
-        type: recurringOccurrenceKeys.has(`${booking.deskId}|${toISODateOnly(booking.date)}|${booking.createdByEmployeeId}`) ? 'recurring' as const : 'single' as const,
-        daySlot: booking.daySlot ?? bookingSlotToDaySlot(booking.slot),
-        slot: booking.slot,
-        startTime: minuteToHHMM(booking.startMinute ?? (booking.startTime ? booking.startTime.getUTCHours() * 60 + booking.startTime.getUTCMinutes() : null)),
-        endTime: minuteToHHMM(booking.endMinute ?? (booking.endTime ? booking.endTime.getUTCHours() * 60 + booking.endTime.getUTCMinutes() : null))
-      };
-    });
-
-    const primaryBooking = normalizedBookings[0] ?? null;
-    return {
-      id: desk.id,
-      name: desk.name,
-      kind: desk.kind,
-      position: desk.x === null || desk.y === null ? null : { x: desk.x, y: desk.y },
-      x: desk.x,
-      y: desk.y,
-      allowSeriesOverride: desk.allowSeriesOverride,
-      effectiveAllowSeries: resolveEffectiveAllowSeries(desk),
-      tenantScope: desk.tenantScope,
-      tenantIds: desk.deskTenants.map((entry) => entry.tenantId),
-      employeeScope: desk.employeeScope,
-      employeeIds: desk.deskEmployees.map((entry) => entry.employeeId),
-      isBookableForMe: isDeskAccessibleForTenant(desk, actorTenantDomainId, actor?.id ?? null),
-      status: normalizedBookings.length > 0 ? 'booked' as const : 'free' as const,
-      booking: primaryBooking,
-      bookings: normalizedBookings
-    };
+
+  const target = await prisma.desk.findUnique({
+    where: { id: deskId },
+    select: { id: true, kind: true, floorplanId: true, x: true, y: true, floorplan: { select: { tenantScope: true, floorplanTenants: { select: { tenantId: true } } } } }
   });
+  if (!target || (actorEmployee.role !== 'admin' && !isFloorplanVisibleForTenant(target.floorplan, actorEmployee.tenantDomainId ?? null))) {
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
 
-  const uniquePeopleByEmail = new Map<string, { email: string; userEmail: string; displayName?: string; photoUrl?: string; deskName?: string; deskId?: string }>();
-  occupancyDesks.forEach((desk) => {
-    for (const booking of desk.bookings ?? []) {
-      if (booking.bookedFor !== 'SELF') {
-        continue;
-      }
-      const userEmail = booking.userEmail ?? '';
-      const normalizedEmail = normalizeEmail(userEmail);
-      if (!userEmail || uniquePeopleByEmail.has(normalizedEmail)) {
-        continue;
-      }
+  const candidates = await findFreeResources({
+    date,
+    window: window.value,
+    filter: { kind: target.kind, minCapacity: null, equipment: [] },
+    floorplanId: target.floorplanId,
+    actor: { ...actorEmployee, role: 'user' }
+  });
+  const nearest = pickNearestResource(target, candidates);
+  if (!nearest) {
+    res.status(404).json({ error: 'not_found', message: 'Neben dieser Person ist nichts mehr frei' });
+    return;
+  }
 
-      uniquePeopleByEmail.set(normalizedEmail, {
-        email: userEmail,
-        userEmail,
-        displayName: employeesByEmail.get(normalizedEmail)?.displayName,
-        photoUrl: employeesByEmail.get(normalizeEmail(userEmail))?.photoUrl ?? undefined,
-        deskName: desk.name,
-        deskId: desk.id
-      });
-    }
+  res.status(200).json({
+    date: toISODateOnly(date),
+    window: mapSearchWindow(window.value),
+    result: mapFreeResource(nearest)
   });
+});
 
-  const people = Array.from(uniquePeopleByEmail.values())
-    .sort((a, b) => (a.displayName ?? a.email).localeCompare(b.displayName ?? b.email, 'de'));
+// Resolves the resource behind a QR sticker to the floorplan the booking view has to open.
+app.get('/resources/:resourceId', async (req, res) => {
+  const resourceId = getRouteId(req.params.resourceId);
+  if (!resourceId) {
+    res.status(400).json({ error: 'validation', message: 'resourceId ist erforderlich' });
+    return;
+  }
 
-  res.status(200).json({
-    date: toISODateOnly(parsedDate),
-    floorplanId,
-    desks: occupancyDesks,
-    people
+  let actor: { id: string; role: EmployeeRole; tenantDomainId?: string | null } | null = null;
+  try {
+    actor = await requireActorEmployee(req);
+  } catch {
+    actor = null;
+  }
+
+  const desk = await prisma.desk.findUnique({
+    where: { id: resourceId },
+    include: { floorplan: { select: { id: true, name: true, tenantScope: true, floorplanTenants: { select: { tenantId: true } } } }, deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } }
   });
+  if (!desk) {
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
+    return;
+  }
+  if (actor?.role !== 'admin' && !isDeskAccessibleForTenant({ ...desk, zone: null }, actor?.tenantDomainId ?? null, actor?.id ?? null)) {
+    res.status(403).json({ error: 'forbidden', message: 'Für deinen Mandanten nicht sichtbar' });
+    return;
+  }
+
+  res.status(200).json({ id: desk.id, name: desk.name, kind: desk.kind, floorplan: { id: desk.floorplan.id, name: desk.floorplan.name } });
 });
 
+// Shared by the availability view and room displays, so a tablet never shows a different day than the app.
+const loadRoomDayBookings = (deskId: string, date: Date) => {
+  const { dayStartUtc, dayEndUtc } = getBerlinDayBoundsUtc(date);
+  return prisma.booking.findMany({
+    where: {
+      deskId,
+      startTime: { lt: dayEndUtc },
+      endTime: { gt: dayStartUtc }
+    },
+    include: { createdByEmployee: { select: { id: true, displayName: true, email: true } }, employee: { select: { displayName: true } } },
+    orderBy: [{ startTime: 'asc' }, { createdAt: 'asc' }]
+  });
+};
+
 app.get('/resources/:resourceId/availability', async (req, res) => {
   const requestId = req.requestId ?? 'unknown';
   const resourceId = typeof req.params.resourceId === 'string' ? req.params.resourceId : '';
   const date = typeof req.query.date === 'string' ? req.query.date : undefined;
 
   if (!resourceId || !date) {
-    res.status(400).json({ error: 'validation', message: 'resourceId and date are required' });
+    res.status(400).json({ error: 'validation', message: 'resourceId und date sind erforderlich' });
     return;
   }
 
   const parsedDate = toDateOnly(date);
   if (!parsedDate) {
-    res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
     return;
   }
 
@@ -5133,24 +9457,16 @@ app.get('/resources/:resourceId/availability', async (req, res) => {
   });
 
   if (!desk) {
-    res.status(404).json({ error: 'not_found', message: 'Resource not found' });
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
     return;
   }
 
   if (desk.kind !== 'RAUM') {
-    res.status(400).json({ error: 'validation', message: 'Availability endpoint is only available for room resources' });
+    res.status(400).json({ error: 'validation', message: 'Die Verfügbarkeit gibt es nur für Räume' });
     return;
   }
 
-  const bookings = await prisma.booking.findMany({
-    where: {
-      deskId: resourceId,
-      startTime: { lt: dayEndUtc },
-      endTime: { gt: dayStartUtc }
-    },
-    include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } },
-    orderBy: [{ startTime: 'asc' }, { createdAt: 'asc' }]
-  });
+  const bookings = await loadRoomDayBookings(resourceId, parsedDate);
   const bookingsInRange = await getBookingsForDateRange(parsedDate, parsedDate, desk.floorplanId);
   const recurringOccurrenceKeys = new Set(bookingsInRange.occurrences.map((occurrence) => `${occurrence.resourceId}|${occurrence.date}|${occurrence.createdByEmployeeId}`));
 
@@ -5389,11 +9705,11 @@ app.post('/recurring-bookings', async (req, res) => {
   };
 
   if (!resourceId || !startDate || !patternType) {
-    res.status(400).json({ error: 'validation', message: 'resourceId, startDate and patternType are required' });
+    res.status(400).json({ error: 'validation', message: 'resourceId, startDate und patternType sind erforderlich' });
     return;
   }
   if (!RECURRENCE_PATTERN_VALUES.has(patternType)) {
-    res.status(400).json({ error: 'validation', message: 'patternType must be DAILY, WEEKLY, MONTHLY or YEARLY' });
+    res.status(400).json({ error: 'validation', message: 'patternType muss DAILY, WEEKLY, MONTHLY oder YEARLY sein' });
     return;
   }
 
@@ -5430,7 +9746,7 @@ app.post('/recurring-bookings', async (req, res) => {
   }
 
   if (!resolvedEndDate) {
-    res.status(400).json({ error: 'validation', message: 'endDate is required (or provide rangeMode=BY_COUNT with count).' });
+    res.status(400).json({ error: 'validation', message: 'endDate ist erforderlich (oder rangeMode=BY_COUNT mit count angeben).' });
     return;
   }
 
@@ -5476,28 +9792,28 @@ app.post('/recurring-bookings', async (req, res) => {
     return;
   }
 
-  const resource = await prisma.desk.findUnique({ where: { id: resourceId }, include: { floorplan: { select: { defaultAllowSeries: true } } } });
+  const resource = await prisma.desk.findUnique({ where: { id: resourceId }, include: { floorplan: { select: { name: true, defaultAllowSeries: true } } } });
   if (!resource) {
-    res.status(404).json({ error: 'not_found', message: 'Resource not found' });
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
     return;
   }
 
   if (!resolveEffectiveAllowSeries(resource)) {
-    res.status(409).json({ error: 'conflict', message: 'Recurring bookings are not allowed for this resource' });
+    res.status(409).json({ error: 'conflict', message: 'Für diese Ressource sind keine Serienbuchungen erlaubt' });
     return;
   }
 
   const normalizedBookedFor: BookedFor = bookedFor === 'GUEST' ? 'GUEST' : 'SELF';
   const normalizedGuestName = normalizedBookedFor === 'GUEST' ? (guestName?.trim() ?? '') : '';
   if (normalizedBookedFor === 'GUEST' && normalizedGuestName.length < 2) {
-    res.status(400).json({ error: 'validation', message: 'guestName is required for guest bookings' });
+    res.status(400).json({ error: 'validation', message: 'guestName ist bei Gastbuchungen erforderlich' });
     return;
   }
 
   const normalizedPeriod = period ? parseDaySlot(period) : null;
   if (resource.kind === 'RAUM' || resource.kind === 'PARKPLATZ') {
     if (normalizedPeriod) {
-      res.status(400).json({ error: 'validation', message: 'period must be null for room/parking recurrences' });
+      res.status(400).json({ error: 'validation', message: 'period muss bei Raum- und Parkplatzserien null sein' });
       return;
     }
     const recurrenceStartMinute = startTime ? parseTimeToMinute(startTime) : null;
@@ -5512,19 +9828,46 @@ app.post('/recurring-bookings', async (req, res) => {
     }
   } else {
     if (!normalizedPeriod) {
-      res.status(400).json({ error: 'validation', message: 'period is required for day-slot recurrences' });
+      res.status(400).json({ error: 'validation', message: 'period ist bei Serien mit Tageshälften erforderlich' });
       return;
     }
     if (startTime || endTime) {
-      res.status(400).json({ error: 'validation', message: 'startTime/endTime must be null for day-slot recurrences' });
+      res.status(400).json({ error: 'validation', message: 'startTime/endTime müssen bei Serien mit Tageshälften null sein' });
       return;
     }
   }
 
-  const targetDates = occurrenceResolution.dates;
   const recurrenceWindow = recurringToWindow({ period: normalizedPeriod, startTime: startTime ?? null, endTime: endTime ?? null }, resource.kind);
   if (!recurrenceWindow) {
-    res.status(400).json({ error: 'validation', message: 'Invalid recurring booking window' });
+    res.status(400).json({ error: 'validation', message: 'Ungültiges Zeitfenster für die Serie' });
+    return;
+  }
+
+  // Closed dates are left out of the series like any other gap; the series itself still spans the requested range.
+  const occurrenceDates = occurrenceResolution.dates;
+  const closures = occurrenceDates.length > 0
+    ? await loadClosures(resource.floorplanId, occurrenceDates[0], occurrenceDates[occurrenceDates.length - 1])
+    : [];
+  const closedDates = occurrenceDates
+    .filter((date) => findClosureForWindow(closures, resource, date, recurrenceWindow))
+    .map((date) => toISODateOnly(date));
+  const closedDateSet = new Set(closedDates);
+  const targetDates = occurrenceDates.filter((date) => !closedDateSet.has(toISODateOnly(date)));
+  if (occurrenceDates.length > 0 && targetDates.length === 0) {
+    sendClosedConflict(res, findClosureForWindow(closures, resource, occurrenceDates[0], recurrenceWindow)!);
+    return;
+  }
+
+  const policyViolations = await findBookingPolicyViolations({
+    floorplanId: resource.floorplanId,
+    kind: resource.kind,
+    tenantId: actorEmployee.tenantDomainId,
+    emailAliases: normalizedBookedFor === 'SELF' ? (await findBookingIdentity(actorEmployee.email)).emailAliases : null,
+    candidates: targetDates.map((targetDate) => toPolicyCandidate(targetDate, recurrenceWindow))
+  });
+  if (policyViolations.length > 0) {
+    console.info('[MUT] RB_POLICY_VIOLATION', { requestId: req.requestId ?? 'unknown', deskId: resource.id, codes: Array.from(new Set(policyViolations.map((violation) => violation.code))) });
+    sendPolicyViolation(res, policyViolations);
     return;
   }
 
@@ -5579,7 +9922,7 @@ app.post('/recurring-bookings', async (req, res) => {
         return {
           kind: 'conflict' as const,
           code: 'SERIES_CONFLICT' as const,
-          message: 'Recurring series conflicts with existing bookings',
+          message: 'Die Serie überschneidet sich mit bestehenden Buchungen',
           details: { resourceId, conflicts: conflictList, conflictDates: sortedConflictDates }
         };
       }
@@ -5675,20 +10018,40 @@ app.post('/recurring-bookings', async (req, res) => {
             return {
               kind: 'conflict' as const,
               code: 'SERIES_CONFLICT_REMAINS' as const,
-              message: 'Series conflict remains after reschedule',
+              message: 'Auch nach dem Umplanen bleiben Konflikte in der Serie',
               details: { resourceId, conflictDate: date, conflicts: toConflictList(finalConflictsByDate) }
             };
           }
         }
       }
 
+      const seriesMailDetails = recurringBookingMailDetails(recurringBooking, resource);
+      const seriesMailRecipient = mailTransport ? await tx.employee.findUnique({ where: { id: actorEmployee.id }, select: mailRecipientSelect }) : null;
+      if (seriesMailDetails && seriesMailRecipient) {
+        await enqueueMail(tx, seriesMailRecipient, {
+          kind: 'SERIES_CREATED',
+          booking: seriesMailDetails,
+          startDate: toISODateOnly(recurringBooking.startDate),
+          endDate: toISODateOnly(recurringBooking.endDate),
+          createdCount: createdCount + movedCount,
+          skippedDates
+        });
+      }
+
+      const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+      await enqueueRecurringWebhook(tx, 'recurring.created', recurringBooking, { actor, bookingCount: createdCount + movedCount, skippedDates });
+      await enqueueBookingWebhooks(tx, 'booking.created', () => tx.booking.findMany({ where: { recurringBookingId: recurringBooking.id } }), { actor });
+
       console.info('[MUT] RB_DONE', { requestId, recurringBookingId: recurringBooking.id, createdCount, movedCount, skippedCount: skippedDates.length });
       return {
         kind: 'ok' as const,
+        recurringBooking,
+        audit: { createdCount, movedCount, skippedDates, closedDates },
         payload: {
           ...buildRecurringPayload({ recurringBooking, createdCount, conflicts: sortedConflictDates }),
           movedCount,
-          skippedDates
+          skippedDates,
+          closedDates
         }
       };
     });
@@ -5699,6 +10062,8 @@ app.post('/recurring-bookings', async (req, res) => {
       return;
     }
 
+    await recordAuditEvent(req, { action: 'CREATE', entityType: 'RecurringBooking', entityId: result.recurringBooking.id, after: { ...result.recurringBooking, ...result.audit } });
+    flushOutboxes();
     res.status(201).json(result.payload);
   } catch (error) {
     console.error('[MUT] RB_ERROR', { requestId, message: error instanceof Error ? error.message : 'Unknown recurring booking error' });
@@ -5725,7 +10090,7 @@ app.post('/recurring-bookings/preview', async (req, res) => {
   };
 
   if (!resourceId || !startDate || !patternType) {
-    res.status(400).json({ error: 'validation', message: 'resourceId, startDate and patternType are required' });
+    res.status(400).json({ error: 'validation', message: 'resourceId, startDate und patternType sind erforderlich' });
     return;
   }
 
@@ -5747,7 +10112,7 @@ app.post('/recurring-bookings/preview', async (req, res) => {
   }
 
   if (!resolvedEndDate) {
-    res.status(400).json({ error: 'validation', message: 'endDate is required (or provide rangeMode=BY_COUNT with count).' });
+    res.status(400).json({ error: 'validation', message: 'endDate ist erforderlich (oder rangeMode=BY_COUNT mit count angeben).' });
     return;
   }
 
@@ -5777,19 +10142,19 @@ app.post('/recurring-bookings/preview', async (req, res) => {
     return;
   }
 
-  const resource = await prisma.desk.findUnique({ where: { id: resourceId }, select: { id: true, kind: true } });
+  const resource = await prisma.desk.findUnique({ where: { id: resourceId }, select: { id: true, kind: true, floorplanId: true } });
   if (!resource) {
-    res.status(404).json({ error: 'not_found', message: 'Resource not found' });
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
     return;
   }
   if (resource.kind !== 'TISCH' && resource.kind !== 'PARKPLATZ') {
-    res.status(400).json({ error: 'validation', message: 'Preview is only supported for desk/parking series' });
+    res.status(400).json({ error: 'validation', message: 'Die Vorschau gibt es nur für Tisch- und Parkplatz-Serien' });
     return;
   }
 
   const normalizedPeriod = parseDaySlot(period ?? 'FULL');
   if (!normalizedPeriod) {
-    res.status(400).json({ error: 'validation', message: 'period must be AM, PM or FULL' });
+    res.status(400).json({ error: 'validation', message: 'period muss AM, PM oder FULL sein' });
     return;
   }
 
@@ -5830,8 +10195,20 @@ app.post('/recurring-bookings/preview', async (req, res) => {
     if (!conflictByDate.has(key)) conflictByDate.set(key, booking.id);
   }
 
+  const closures = occurrenceDates.length > 0
+    ? await loadClosures(resource.floorplanId, occurrenceDates[0], occurrenceDates[occurrenceDates.length - 1])
+    : [];
+  const closureByDate = new Map(occurrenceDates.flatMap((date) => {
+    const closure = findClosureForWindow(closures, resource, date, { mode: 'day', daySlot: normalizedPeriod });
+    return closure ? [[toISODateOnly(date), closure] as const] : [];
+  }));
+
   const occurrences = toSortedUniqueISODateList(occurrenceDates).map((date) => {
     const conflictId = conflictByDate.get(date);
+    const closure = closureByDate.get(date);
+    if (closure) {
+      return { date, status: 'CLOSED' as const, reason: closure.reason, conflictingBookingId: null };
+    }
     return conflictId
       ? { date, status: 'CONFLICT' as const, reason: 'PERSON_ALREADY_BOOKED', conflictingBookingId: conflictId }
       : { date, status: 'FREE' as const, reason: null, conflictingBookingId: null };
@@ -5840,7 +10217,8 @@ app.post('/recurring-bookings/preview', async (req, res) => {
   res.status(200).json({
     occurrences,
     conflictDates: occurrences.filter((item) => item.status === 'CONFLICT').map((item) => item.date),
-    freeDates: occurrences.filter((item) => item.status === 'FREE').map((item) => item.date)
+    freeDates: occurrences.filter((item) => item.status === 'FREE').map((item) => item.date),
+    closedDates: occurrences.filter((item) => item.status === 'CLOSED').map((item) => item.date)
   });
 });
 
@@ -5865,20 +10243,20 @@ app.post('/recurring-bookings/resolve-conflicts', async (req, res) => {
   };
 
   if (!originalResourceId || !floorplanId || !period || !Array.isArray(conflictDates)) {
-    res.status(400).json({ error: 'validation', message: 'originalResourceId, floorplanId, period and conflictDates are required' });
+    res.status(400).json({ error: 'validation', message: 'originalResourceId, floorplanId, period und conflictDates sind erforderlich' });
     return;
   }
 
   const normalizedPeriod = parseDaySlot(period);
   if (!normalizedPeriod) {
-    res.status(400).json({ error: 'validation', message: 'period must be AM, PM or FULL' });
+    res.status(400).json({ error: 'validation', message: 'period muss AM, PM oder FULL sein' });
     return;
   }
 
   const parsedConflictDates = Array.from(new Set(conflictDates.map((value) => value.trim()).filter(Boolean))).sort();
   const dateValues = parsedConflictDates.map((value) => toDateOnly(value));
   if (dateValues.some((value) => !value)) {
-    res.status(400).json({ error: 'validation', message: 'conflictDates must contain valid YYYY-MM-DD values' });
+    res.status(400).json({ error: 'validation', message: 'conflictDates darf nur gültige Daten im Format YYYY-MM-DD enthalten' });
     return;
   }
 
@@ -5893,7 +10271,7 @@ app.post('/recurring-bookings/resolve-conflicts', async (req, res) => {
 
   const originalResource = await prisma.desk.findUnique({ where: { id: originalResourceId }, select: { id: true, kind: true, floorplanId: true } });
   if (!originalResource || originalResource.floorplanId !== floorplanId || (originalResource.kind !== 'TISCH' && originalResource.kind !== 'PARKPLATZ')) {
-    res.status(404).json({ error: 'not_found', message: 'Original resource not found' });
+    res.status(404).json({ error: 'not_found', message: 'Ursprüngliche Ressource nicht gefunden' });
     return;
   }
 
@@ -5956,6 +10334,7 @@ app.post('/recurring-bookings/resolve-conflicts', async (req, res) => {
   }
 
   const seriesCreated: Array<{ seriesId: string; resourceId: string; createdCount: number }> = [];
+  const auditEvents: AuditEventInput[] = [];
   if (recurrence) {
     for (const [resourceId, grouped] of groupedDates.entries()) {
       const recurring = await prisma.recurringBooking.create({
@@ -5997,16 +10376,22 @@ app.post('/recurring-bookings/resolve-conflicts', async (req, res) => {
         });
       }
 
+      const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+      await enqueueRecurringWebhook(prisma, 'recurring.created', recurring, { actor, bookingCount: grouped.length });
+      await enqueueBookingWebhooks(prisma, 'booking.created', () => prisma.booking.findMany({ where: { recurringBookingId: recurring.id } }), { actor });
       seriesCreated.push({ seriesId: recurring.id, resourceId, createdCount: grouped.length });
+      auditEvents.push({ action: 'CREATE', entityType: 'RecurringBooking', entityId: recurring.id, after: { ...recurring, createdCount: grouped.length, dates: grouped } });
     }
   }
 
+  await recordAuditEvents(req, auditEvents);
+  flushOutboxes();
   res.status(200).json({ reassigned, unresolved, seriesCreated });
 });
 
 
 app.post('/recurring-bookings/bulk', async (_req, res) => {
-  res.status(410).json({ error: 'deprecated', message: 'Use POST /recurring-bookings with patternType, interval, startDate and endDate' });
+  res.status(410).json({ error: 'deprecated', message: 'Bitte POST /recurring-bookings mit patternType, interval, startDate und endDate verwenden' });
 });
 
 app.get('/recurring-bookings', async (req, res) => {
@@ -6022,7 +10407,7 @@ app.get('/recurring-bookings', async (req, res) => {
 });
 
 app.post('/admin/floorplans', requireAdmin, async (req, res) => {
-  const { name, imageUrl, defaultResourceKind, defaultAllowSeries, isDefault, sortOrder, tenantScope, tenantIds } = req.body as {
+  const { name, imageUrl, defaultResourceKind, defaultAllowSeries, isDefault, sortOrder, tenantScope, tenantIds, deskCheckInGraceMinutes, parkingCheckInGraceMinutes } = req.body as {
     name?: string;
     imageUrl?: string;
     defaultResourceKind?: ResourceKind;
@@ -6031,43 +10416,50 @@ app.post('/admin/floorplans', requireAdmin, async (req, res) => {
     sortOrder?: number;
     tenantScope?: FloorplanTenantScope;
     tenantIds?: string[];
+    deskCheckInGraceMinutes?: number | null;
+    parkingCheckInGraceMinutes?: number | null;
   };
 
   if (!name || !imageUrl) {
-    res.status(400).json({ error: 'validation', message: 'name and imageUrl are required' });
+    res.status(400).json({ error: 'validation', message: 'name und imageUrl sind erforderlich' });
     return;
   }
 
   const parsedDefaultKind = typeof defaultResourceKind === 'undefined' ? 'TISCH' : parseResourceKind(defaultResourceKind);
   if (!parsedDefaultKind) {
-    res.status(400).json({ error: 'validation', message: 'defaultResourceKind must be one of TISCH, PARKPLATZ, RAUM, SONSTIGES' });
+    res.status(400).json({ error: 'validation', message: 'defaultResourceKind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
     return;
   }
 
   if (typeof defaultAllowSeries !== 'undefined' && typeof defaultAllowSeries !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'defaultAllowSeries must be a boolean' });
+    res.status(400).json({ error: 'validation', message: 'defaultAllowSeries muss ein Boolean sein' });
     return;
   }
 
   if (typeof isDefault !== 'undefined' && typeof isDefault !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'isDefault must be a boolean' });
+    res.status(400).json({ error: 'validation', message: 'isDefault muss ein Boolean sein' });
     return;
   }
 
   if (typeof sortOrder !== 'undefined' && (!Number.isInteger(sortOrder) || sortOrder < 0)) {
-    res.status(400).json({ error: 'validation', message: 'sortOrder must be a non-negative integer' });
+    res.status(400).json({ error: 'validation', message: 'sortOrder muss eine nicht negative ganze Zahl sein' });
+    return;
+  }
+
+  if ((typeof deskCheckInGraceMinutes !== 'undefined' && !isValidCheckInGraceMinutes(deskCheckInGraceMinutes)) || (typeof parkingCheckInGraceMinutes !== 'undefined' && !isValidCheckInGraceMinutes(parkingCheckInGraceMinutes))) {
+    res.status(400).json({ error: 'validation', message: `deskCheckInGraceMinutes und parkingCheckInGraceMinutes müssen null oder eine ganze Zahl zwischen 1 und ${MAX_CHECK_IN_GRACE_MINUTES} sein` });
     return;
   }
 
   const parsedTenantScope = typeof tenantScope === 'undefined' ? 'ALL' : parseFloorplanTenantScope(tenantScope);
   if (!parsedTenantScope) {
-    res.status(400).json({ error: 'validation', message: 'tenantScope must be ALL or SELECTED' });
+    res.status(400).json({ error: 'validation', message: 'tenantScope muss ALL oder SELECTED sein' });
     return;
   }
 
   const normalizedTenantIds = Array.isArray(tenantIds) ? Array.from(new Set(tenantIds.filter((value): value is string => typeof value === 'string' && value.trim().length > 0))) : [];
   if (parsedTenantScope === 'SELECTED' && normalizedTenantIds.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'tenantIds must not be empty for SELECTED scope' });
+    res.status(400).json({ error: 'validation', message: 'tenantIds darf beim Scope SELECTED nicht leer sein' });
     return;
   }  const floorplan = await prisma.$transaction(async (tx) => {
     if (isDefault) {
@@ -6082,7 +10474,9 @@ app.post('/admin/floorplans', requireAdmin, async (req, res) => {
         sortOrder: typeof sortOrder === 'number' ? sortOrder : 0,
         tenantScope: parsedTenantScope,
         ...(typeof defaultAllowSeries === 'boolean' ? { defaultAllowSeries } : {}),
-        ...(typeof isDefault === 'boolean' ? { isDefault } : {})
+        ...(typeof isDefault === 'boolean' ? { isDefault } : {}),
+        ...(typeof deskCheckInGraceMinutes !== 'undefined' ? { deskCheckInGraceMinutes } : {}),
+        ...(typeof parkingCheckInGraceMinutes !== 'undefined' ? { parkingCheckInGraceMinutes } : {})
       }
     });
 
@@ -6092,20 +10486,191 @@ app.post('/admin/floorplans', requireAdmin, async (req, res) => {
 
     return tx.floorplan.findUnique({ where: { id: created.id }, include: { floorplanTenants: { select: { tenantId: true } } } });
   });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'Floorplan', entityId: floorplan?.id ?? null, after: floorplan });
   res.status(201).json({
     ...floorplan,
     tenantIds: floorplan?.floorplanTenants.map((entry) => entry.tenantId) ?? []
   });
 });
 
+app.get('/admin/floorplans/:id/export', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const format = typeof req.query.format === 'string' ? req.query.format.trim().toLowerCase() : 'zip';
+  if (format !== 'zip' && format !== 'json') {
+    res.status(400).json({ error: 'validation', message: 'format muss zip oder json sein' });
+    return;
+  }
+
+  const floorplan = await prisma.floorplan.findUnique({
+    where: { id },
+    include: {
+      floorplanTenants: { select: { tenant: { select: { domain: true } } } },
+      desks: { include: { deskTenants: { select: { tenant: { select: { domain: true } } } }, deskEmployees: { select: { employee: { select: { email: true } } } } } }
+    }
+  });
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
+
+  const bundle = buildFloorplanBundle({
+    floorplan: {
+      name: floorplan.name,
+      sortOrder: floorplan.sortOrder,
+      tenantScope: floorplan.tenantScope,
+      tenants: floorplan.floorplanTenants.map((entry) => entry.tenant.domain),
+      defaultResourceKind: floorplan.defaultResourceKind,
+      defaultAllowSeries: floorplan.defaultAllowSeries,
+      deskCheckInGraceMinutes: floorplan.deskCheckInGraceMinutes,
+      parkingCheckInGraceMinutes: floorplan.parkingCheckInGraceMinutes,
+      imageUrl: floorplan.imageUrl
+    },
+    desks: floorplan.desks.map((desk) => ({
+      name: desk.name,
+      kind: desk.kind,
+      hasCharger: desk.hasCharger,
+      capacity: desk.capacity,
+      equipment: desk.equipment,
+      allowSeriesOverride: desk.allowSeriesOverride,
+      x: desk.x,
+      y: desk.y,
+      tenantScope: desk.tenantScope,
+      tenants: desk.deskTenants.map((entry) => entry.tenant.domain),
+      employeeScope: desk.employeeScope,
+      employees: desk.deskEmployees.map((entry) => entry.employee.email)
+    }))
+  }, new Date());
+
+  const fileName = `floorplan-${floorplan.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || floorplan.id}`;
+  if (format === 'json') {
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+    res.status(200).json(bundle);
+    return;
+  }
+
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.zip"`);
+  res.status(200).type('application/zip').send(floorplanBundleToZip(bundle));
+});
+
+// Stickers outlive the admin session that printed them, so links point at the configured frontend first.
+const resolveDeepLinkBaseUrl = (req: express.Request): string => {
+  if (FRONTEND_URL) return FRONTEND_URL;
+  const referer = req.get('referer');
+  if (referer) {
+    try {
+      return new URL(referer).origin;
+    } catch {
+      // Fall through to the API host.
+    }
+  }
+  return `${req.protocol}://${req.get('host') ?? 'localhost'}`;
+};
+
+app.get('/admin/floorplans/:id/qr-labels', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const floorplan = await prisma.floorplan.findUnique({
+    where: { id },
+    select: { id: true, name: true, desks: { select: { id: true, name: true, kind: true } } }
+  });
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
+  if (floorplan.desks.length === 0) {
+    res.status(400).json({ error: 'validation', message: 'Der Grundriss hat keine Ressourcen' });
+    return;
+  }
+
+  const baseUrl = resolveDeepLinkBaseUrl(req);
+  const labels = [...floorplan.desks]
+    .sort((left, right) => left.name.localeCompare(right.name, 'de', { numeric: true }))
+    .map((desk) => ({ name: desk.name, kind: desk.kind, floorplanName: floorplan.name, url: resourceDeepLink(baseUrl, desk.id) }));
+
+  const fileName = `qr-etiketten-${floorplan.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || floorplan.id}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+  res.status(200).type('application/pdf').send(renderResourceLabelSheet(labels, { title: `QR-Etiketten ${floorplan.name}` }));
+});
+
+const toFloorplanBundlePreview = (plan: FloorplanBundlePlan, dryRun: boolean, floorplanId: string | null) => ({
+  dryRun,
+  applied: floorplanId !== null,
+  floorplanId,
+  floorplan: { name: plan.floorplan.name, tenantScope: plan.floorplan.tenantScope, tenantCount: plan.floorplan.tenantIds.length, imageEmbedded: plan.floorplan.imageUrl.startsWith('data:') },
+  deskCount: plan.desks.length,
+  unmapped: plan.unmapped,
+  errors: plan.errors
+});
+
+app.post('/admin/floorplans/import', requireAdmin, async (req, res) => {
+  const dryRun = req.body?.dryRun !== false;
+  const bundle = readFloorplanBundle({ fileName: req.body?.fileName, content: req.body?.content });
+  if (!bundle.ok) {
+    res.status(400).json({ error: 'validation', message: bundle.message });
+    return;
+  }
+
+  const [tenants, employees] = await Promise.all([
+    prisma.tenant.findMany({ select: { id: true, domain: true } }),
+    prisma.employee.findMany({ select: { id: true, email: true, tenantDomainId: true } })
+  ]);
+  const plan = planFloorplanBundleImport(bundle.value, { tenants, employees }, { name: typeof req.body?.name === 'string' ? req.body.name : undefined });
+  if (dryRun) {
+    res.status(200).json(toFloorplanBundlePreview(plan, true, null));
+    return;
+  }
+  if (plan.errors.length > 0) {
+    res.status(400).json({ error: 'validation', code: 'IMPORT_HAS_ERRORS', message: plan.errors[0], preview: toFloorplanBundlePreview(plan, true, null) });
+    return;
+  }
+
+  // Imports always create a new floorplan; it never replaces the default floorplan of the target installation.
+  const { tenantIds: floorplanTenantIds, ...floorplanData } = plan.floorplan;
+  const created = await prisma.$transaction(async (tx) => {
+    const floorplan = await tx.floorplan.create({
+      data: { ...floorplanData, isDefault: false, floorplanTenants: { create: floorplanTenantIds.map((tenantId) => ({ tenantId })) } },
+      include: { floorplanTenants: { select: { tenantId: true } } }
+    });
+    const desks = [];
+    for (const { tenantIds, employeeIds, ...desk } of plan.desks) {
+      desks.push(await tx.desk.create({
+        data: {
+          ...desk,
+          floorplanId: floorplan.id,
+          deskTenants: { create: tenantIds.map((tenantId) => ({ tenantId })) },
+          deskEmployees: { create: employeeIds.map((employeeId) => ({ employeeId })) }
+        },
+        include: { deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } }
+      }));
+    }
+    return { floorplan, desks };
+  }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
+
+  await recordAuditEvents(req, [
+    { action: 'CREATE', entityType: 'Floorplan', entityId: created.floorplan.id, after: created.floorplan },
+    ...created.desks.map((desk) => ({ action: 'CREATE' as const, entityType: 'Desk', entityId: desk.id, after: desk }))
+  ]);
+  console.info('[MUT] FLOORPLAN_IMPORT', { requestId: req.requestId, floorplanId: created.floorplan.id, desks: created.desks.length, unmapped: plan.unmapped.length });
+  res.status(201).json(toFloorplanBundlePreview(plan, false, created.floorplan.id));
+});
+
 app.patch('/admin/floorplans/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const { name, imageUrl, defaultResourceKind, defaultAllowSeries, isDefault, sortOrder, tenantScope, tenantIds } = req.body as {
+  const { name, imageUrl, defaultResourceKind, defaultAllowSeries, isDefault, sortOrder, tenantScope, tenantIds, deskCheckInGraceMinutes, parkingCheckInGraceMinutes } = req.body as {
     name?: string;
     imageUrl?: string;
     defaultResourceKind?: ResourceKind;
@@ -6114,58 +10679,67 @@ app.patch('/admin/floorplans/:id', requireAdmin, async (req, res) => {
     sortOrder?: number;
     tenantScope?: FloorplanTenantScope;
     tenantIds?: string[];
+    deskCheckInGraceMinutes?: number | null;
+    parkingCheckInGraceMinutes?: number | null;
   };
   const hasTenantScope = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'tenantScope');
   const hasTenantIds = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'tenantIds');
+  const hasCheckInGrace = typeof deskCheckInGraceMinutes !== 'undefined' || typeof parkingCheckInGraceMinutes !== 'undefined';
+
+  if (typeof name === 'undefined' && typeof imageUrl === 'undefined' && typeof defaultResourceKind === 'undefined' && typeof defaultAllowSeries === 'undefined' && typeof isDefault === 'undefined' && typeof sortOrder === 'undefined' && !hasTenantScope && !hasTenantIds && !hasCheckInGrace) {
+    res.status(400).json({ error: 'validation', message: 'name, imageUrl, defaultResourceKind, defaultAllowSeries, isDefault, sortOrder, tenantScope, tenantIds oder die Check-in-Kulanzzeiten müssen angegeben werden' });
+    return;
+  }
 
-  if (typeof name === 'undefined' && typeof imageUrl === 'undefined' && typeof defaultResourceKind === 'undefined' && typeof defaultAllowSeries === 'undefined' && typeof isDefault === 'undefined' && typeof sortOrder === 'undefined' && !hasTenantScope && !hasTenantIds) {
-    res.status(400).json({ error: 'validation', message: 'name, imageUrl, defaultResourceKind, defaultAllowSeries, isDefault, sortOrder, tenantScope or tenantIds must be provided' });
+  if ((typeof deskCheckInGraceMinutes !== 'undefined' && !isValidCheckInGraceMinutes(deskCheckInGraceMinutes)) || (typeof parkingCheckInGraceMinutes !== 'undefined' && !isValidCheckInGraceMinutes(parkingCheckInGraceMinutes))) {
+    res.status(400).json({ error: 'validation', message: `deskCheckInGraceMinutes und parkingCheckInGraceMinutes müssen null oder eine ganze Zahl zwischen 1 und ${MAX_CHECK_IN_GRACE_MINUTES} sein` });
     return;
   }
 
 
   const parsedDefaultKind = typeof defaultResourceKind === 'undefined' ? null : parseResourceKind(defaultResourceKind);
   if (typeof defaultResourceKind !== 'undefined' && !parsedDefaultKind) {
-    res.status(400).json({ error: 'validation', message: 'defaultResourceKind must be one of TISCH, PARKPLATZ, RAUM, SONSTIGES' });
+    res.status(400).json({ error: 'validation', message: 'defaultResourceKind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
     return;
   }
 
   if (typeof defaultAllowSeries !== 'undefined' && typeof defaultAllowSeries !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'defaultAllowSeries must be a boolean' });
+    res.status(400).json({ error: 'validation', message: 'defaultAllowSeries muss ein Boolean sein' });
     return;
   }
   if (typeof isDefault !== 'undefined' && typeof isDefault !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'isDefault must be a boolean' });
+    res.status(400).json({ error: 'validation', message: 'isDefault muss ein Boolean sein' });
     return;
   }
   if (typeof name === 'string' && name.trim().length === 0) {
-    res.status(400).json({ error: 'validation', message: 'name must not be empty' });
+    res.status(400).json({ error: 'validation', message: 'name darf nicht leer sein' });
     return;
   }
 
   if (typeof sortOrder !== 'undefined' && (!Number.isInteger(sortOrder) || sortOrder < 0)) {
-    res.status(400).json({ error: 'validation', message: 'sortOrder must be a non-negative integer' });
+    res.status(400).json({ error: 'validation', message: 'sortOrder muss eine nicht negative ganze Zahl sein' });
     return;
   }
 
   const parsedTenantScope = hasTenantScope ? parseFloorplanTenantScope(tenantScope) : null;
   if (hasTenantScope && !parsedTenantScope) {
-    res.status(400).json({ error: 'validation', message: 'tenantScope must be ALL or SELECTED' });
+    res.status(400).json({ error: 'validation', message: 'tenantScope muss ALL oder SELECTED sein' });
     return;
   }
   if (hasTenantIds && !Array.isArray(tenantIds)) {
-    res.status(400).json({ error: 'validation', message: 'tenantIds must be an array' });
+    res.status(400).json({ error: 'validation', message: 'tenantIds muss ein Array sein' });
     return;
   }
   const normalizedTenantIds = hasTenantIds && Array.isArray(tenantIds)
     ? Array.from(new Set(tenantIds.filter((value): value is string => typeof value === 'string' && value.trim().length > 0)))
     : null;
   if (parsedTenantScope === 'SELECTED' && (normalizedTenantIds?.length ?? 0) === 0) {
-    res.status(400).json({ error: 'validation', message: 'tenantIds must not be empty for SELECTED scope' });
+    res.status(400).json({ error: 'validation', message: 'tenantIds darf beim Scope SELECTED nicht leer sein' });
     return;
   }
 
   try {
+    const before = await prisma.floorplan.findUnique({ where: { id }, include: { floorplanTenants: { select: { tenantId: true } } } });
     const updatedFloorplan = await prisma.$transaction(async (tx) => {
       if (isDefault === true) {
         await tx.floorplan.updateMany({ where: { id: { not: id } }, data: { isDefault: false } });
@@ -6180,7 +10754,9 @@ app.patch('/admin/floorplans/:id', requireAdmin, async (req, res) => {
           ...(typeof defaultAllowSeries === 'boolean' ? { defaultAllowSeries } : {}),
           ...(typeof isDefault === 'boolean' ? { isDefault } : {}),
           ...(typeof sortOrder === 'number' ? { sortOrder } : {}),
-          ...(parsedTenantScope ? { tenantScope: parsedTenantScope } : {})
+          ...(parsedTenantScope ? { tenantScope: parsedTenantScope } : {}),
+          ...(typeof deskCheckInGraceMinutes !== 'undefined' ? { deskCheckInGraceMinutes } : {}),
+          ...(typeof parkingCheckInGraceMinutes !== 'undefined' ? { parkingCheckInGraceMinutes } : {})
         }
       });
 
@@ -6195,13 +10771,14 @@ app.patch('/admin/floorplans/:id', requireAdmin, async (req, res) => {
 
       return tx.floorplan.findUnique({ where: { id: updated.id }, include: { floorplanTenants: { select: { tenantId: true } } } });
     });
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Floorplan', entityId: id, before, after: updatedFloorplan });
     res.status(200).json({
       ...updatedFloorplan,
       tenantIds: updatedFloorplan?.floorplanTenants.map((entry) => entry.tenantId) ?? []
     });
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Floorplan not found' });
+      res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
       return;
     }
     throw error;
@@ -6211,16 +10788,17 @@ app.patch('/admin/floorplans/:id', requireAdmin, async (req, res) => {
 app.delete('/admin/floorplans/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
   try {
-    await prisma.floorplan.delete({ where: { id } });
+    const deleted = await prisma.floorplan.delete({ where: { id } });
+    await recordAuditEvent(req, { action: 'DELETE', entityType: 'Floorplan', entityId: id, before: deleted });
     res.status(204).send();
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Floorplan not found' });
+      res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
       return;
     }
 
@@ -6231,68 +10809,79 @@ app.delete('/admin/floorplans/:id', requireAdmin, async (req, res) => {
 app.post('/admin/floorplans/:id/desks', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const { name, x, y, kind, hasCharger, allowSeriesOverride, tenantScope, tenantIds, employeeScope, employeeIds } = req.body as { name?: string; x?: number | null; y?: number | null; kind?: ResourceKind; hasCharger?: boolean; allowSeriesOverride?: boolean | null; tenantScope?: DeskTenantScope; tenantIds?: string[]; employeeScope?: DeskEmployeeScope; employeeIds?: string[] };
+  const { name, x, y, kind, hasCharger, capacity, equipment, allowSeriesOverride, tenantScope, tenantIds, employeeScope, employeeIds } = req.body as { name?: string; x?: number | null; y?: number | null; kind?: ResourceKind; hasCharger?: boolean; capacity?: number | null; equipment?: unknown; allowSeriesOverride?: boolean | null; tenantScope?: DeskTenantScope; tenantIds?: string[]; employeeScope?: DeskEmployeeScope; employeeIds?: string[] };
   const parsedKind = typeof kind === 'undefined' ? null : parseResourceKind(kind);
   const parsedTenantScope = typeof tenantScope === 'undefined' ? 'ALL' : parseDeskTenantScope(tenantScope);
   const parsedEmployeeScope = typeof employeeScope === 'undefined' ? 'ALL' : parseDeskEmployeeScope(employeeScope);
+  const parsedEquipment = parseEquipmentList(equipment);
 
   if (!name) {
-    res.status(400).json({ error: 'validation', message: 'name is required' });
+    res.status(400).json({ error: 'validation', message: 'name ist erforderlich' });
     return;
   }
 
   if ((x === null) !== (y === null)) {
-    res.status(400).json({ error: 'validation', message: 'x and y must be provided together or both null' });
+    res.status(400).json({ error: 'validation', message: 'x und y müssen zusammen angegeben werden oder beide null sein' });
     return;
   }
 
   if (typeof x !== 'undefined' && x !== null && typeof x !== 'number') {
-    res.status(400).json({ error: 'validation', message: 'x must be a number or null' });
+    res.status(400).json({ error: 'validation', message: 'x muss eine Zahl oder null sein' });
     return;
   }
 
   if (typeof y !== 'undefined' && y !== null && typeof y !== 'number') {
-    res.status(400).json({ error: 'validation', message: 'y must be a number or null' });
+    res.status(400).json({ error: 'validation', message: 'y muss eine Zahl oder null sein' });
     return;
   }
 
   if (typeof kind !== 'undefined' && !parsedKind) {
-    res.status(400).json({ error: 'validation', message: 'kind must be one of TISCH, PARKPLATZ, RAUM, SONSTIGES' });
+    res.status(400).json({ error: 'validation', message: 'kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
     return;
   }
 
   if (typeof hasCharger !== 'undefined' && typeof hasCharger !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'hasCharger must be boolean' });
+    res.status(400).json({ error: 'validation', message: 'hasCharger muss ein Boolean sein' });
+    return;
+  }
+
+  if (typeof capacity !== 'undefined' && !isValidDeskCapacity(capacity)) {
+    res.status(400).json({ error: 'validation', message: 'capacity muss eine positive ganze Zahl oder null sein' });
+    return;
+  }
+
+  if (!parsedEquipment.ok) {
+    res.status(400).json({ error: 'validation', message: parsedEquipment.message });
     return;
   }
 
   if (typeof allowSeriesOverride !== 'undefined' && allowSeriesOverride !== null && typeof allowSeriesOverride !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'allowSeriesOverride must be boolean or null' });
+    res.status(400).json({ error: 'validation', message: 'allowSeriesOverride muss ein Boolean oder null sein' });
     return;
   }
 
   if (!parsedTenantScope) {
-    res.status(400).json({ error: 'validation', message: 'tenantScope must be ALL or SELECTED' });
+    res.status(400).json({ error: 'validation', message: 'tenantScope muss ALL oder SELECTED sein' });
     return;
   }
 
   if (!parsedEmployeeScope) {
-    res.status(400).json({ error: 'validation', message: 'employeeScope must be ALL or SELECTED' });
+    res.status(400).json({ error: 'validation', message: 'employeeScope muss ALL oder SELECTED sein' });
     return;
   }
 
   const normalizedTenantIds = Array.isArray(tenantIds) ? Array.from(new Set(tenantIds.filter((value): value is string => typeof value === 'string' && value.trim().length > 0))) : [];
   const normalizedEmployeeIds = Array.isArray(employeeIds) ? Array.from(new Set(employeeIds.filter((value): value is string => typeof value === 'string' && value.trim().length > 0))) : [];
   if (parsedTenantScope === 'SELECTED' && normalizedTenantIds.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'tenantIds must not be empty for SELECTED scope' });
+    res.status(400).json({ error: 'validation', message: 'tenantIds darf beim Scope SELECTED nicht leer sein' });
     return;
   }
   if (parsedEmployeeScope === 'SELECTED' && normalizedEmployeeIds.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'employeeIds must not be empty for SELECTED scope' });
+    res.status(400).json({ error: 'validation', message: 'employeeIds darf beim Scope SELECTED nicht leer sein' });
     return;
   }
 
@@ -6302,20 +10891,20 @@ app.post('/admin/floorplans/:id/desks', requireAdmin, async (req, res) => {
       select: { id: true, tenantDomainId: true }
     });
     if (allowedEmployees.length !== normalizedEmployeeIds.length) {
-      res.status(400).json({ error: 'validation', message: 'employeeIds contain unknown employees' });
+      res.status(400).json({ error: 'validation', message: 'Unbekannte Mitarbeiter in employeeIds' });
       return;
     }
 
     const isTenantMismatch = allowedEmployees.some((employee) => !employee.tenantDomainId || (parsedTenantScope === 'SELECTED' && !normalizedTenantIds.includes(employee.tenantDomainId)));
     if (isTenantMismatch) {
-      res.status(400).json({ error: 'validation', message: 'employeeIds must belong to selected tenant(s)' });
+      res.status(400).json({ error: 'validation', message: 'employeeIds müssen zu den ausgewählten Mandanten gehören' });
       return;
     }
   }
 
   const floorplan = await prisma.floorplan.findUnique({ where: { id }, select: { id: true, defaultResourceKind: true } });
   if (!floorplan) {
-    res.status(404).json({ error: 'not_found', message: 'Floorplan not found' });
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
     return;
   }
 
@@ -6328,6 +10917,8 @@ app.post('/admin/floorplans/:id/desks', requireAdmin, async (req, res) => {
         y: typeof y === 'undefined' ? null : y,
         kind: parsedKind ?? floorplan.defaultResourceKind,
         hasCharger: typeof hasCharger === 'boolean' ? hasCharger : false,
+        capacity: capacity ?? null,
+        equipment: parsedEquipment.value,
         tenantScope: parsedTenantScope,
         employeeScope: parsedEmployeeScope,
         ...(typeof allowSeriesOverride !== 'undefined' ? { allowSeriesOverride } : {})
@@ -6343,33 +10934,117 @@ app.post('/admin/floorplans/:id/desks', requireAdmin, async (req, res) => {
 
     return tx.desk.findUnique({ where: { id: created.id }, include: { deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } } });
   });
+  await recordAuditEvent(req, { action: 'CREATE', entityType: 'Desk', entityId: desk?.id ?? null, after: desk });
   res.status(201).json(desk);
 });
 
+app.post('/admin/floorplans/:id/desks/import', requireAdmin, async (req, res) => {
+  const id = getRouteId(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
+    return;
+  }
+
+  const dryRun = req.body?.dryRun !== false;
+  const table = readImportTable({ fileName: req.body?.fileName, content: req.body?.content });
+  if (!table.ok) {
+    res.status(400).json({ error: 'validation', message: table.message });
+    return;
+  }
+
+  const floorplan = await prisma.floorplan.findUnique({ where: { id }, select: { id: true, defaultResourceKind: true } });
+  if (!floorplan) {
+    res.status(404).json({ error: 'not_found', message: 'Grundriss nicht gefunden' });
+    return;
+  }
+
+  const deskInclude = { deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } } as const;
+  const [existingDesks, tenants, employees] = await Promise.all([
+    prisma.desk.findMany({ where: { floorplanId: id }, include: deskInclude }),
+    prisma.tenant.findMany({ select: { id: true, domain: true } }),
+    prisma.employee.findMany({ select: { id: true, email: true, tenantDomainId: true } })
+  ]);
+  const plan = planDeskImport(table.value, {
+    defaultKind: floorplan.defaultResourceKind,
+    existingDesks: existingDesks.map((desk) => ({
+      ...desk,
+      tenantIds: desk.deskTenants.map((entry) => entry.tenantId),
+      employeeIds: desk.deskEmployees.map((entry) => entry.employeeId)
+    })),
+    tenants,
+    employees
+  });
+  if (!plan.ok) {
+    res.status(400).json({ error: 'validation', message: plan.message });
+    return;
+  }
+  if (dryRun) {
+    res.status(200).json(toImportPreview(plan.value, true));
+    return;
+  }
+  if (plan.value.summary.error > 0) {
+    sendImportErrors(res, plan.value);
+    return;
+  }
+
+  const existingById = new Map(existingDesks.map((desk) => [desk.id, desk]));
+  const changes = await prisma.$transaction(async (tx) => {
+    const applied: Array<{ action: 'CREATE' | 'UPDATE'; before: (typeof existingDesks)[number] | null; after: (typeof existingDesks)[number] }> = [];
+    for (const row of plan.value.rows) {
+      if (!row.data || (row.action !== 'create' && row.action !== 'update')) continue;
+      const { tenantIds, employeeIds, ...fields } = row.data;
+      const scopes = {
+        deskTenants: { create: tenantIds.map((tenantId) => ({ tenantId })) },
+        deskEmployees: { create: employeeIds.map((employeeId) => ({ employeeId })) }
+      };
+      if (row.action === 'update' && row.targetId) {
+        const after = await tx.desk.update({
+          where: { id: row.targetId },
+          data: { ...fields, deskTenants: { deleteMany: {}, ...scopes.deskTenants }, deskEmployees: { deleteMany: {}, ...scopes.deskEmployees } },
+          include: deskInclude
+        });
+        applied.push({ action: 'UPDATE', before: existingById.get(row.targetId) ?? null, after });
+        continue;
+      }
+
+      const after = await tx.desk.create({ data: { floorplanId: id, ...fields, ...scopes }, include: deskInclude });
+      applied.push({ action: 'CREATE', before: null, after });
+    }
+    return applied;
+  }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
+
+  await recordAuditEvents(req, changes.map((change) => ({ action: change.action, entityType: 'Desk', entityId: change.after.id, before: change.before, after: change.after })));
+  console.info('[MUT] DESK_IMPORT', { requestId: req.requestId, floorplanId: id, ...plan.value.summary });
+  res.status(200).json(toImportPreview(plan.value, false));
+});
+
 app.delete('/admin/desks', requireAdmin, async (req, res) => {
   const ids = getIdsFromQuery(req.query.ids as string | string[] | undefined);
   if (ids.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'ids is required' });
+    res.status(400).json({ error: 'validation', message: 'ids ist erforderlich' });
     return;
   }
 
-  const result = await prisma.desk.deleteMany({ where: { id: { in: ids } } });
+  const desks = await prisma.desk.findMany({ where: { id: { in: ids } } });
+  const result = await prisma.desk.deleteMany({ where: { id: { in: desks.map((desk) => desk.id) } } });
+  await recordAuditEvents(req, desks.map((desk) => ({ action: 'DELETE', entityType: 'Desk', entityId: desk.id, before: desk })));
   res.status(200).json({ deletedCount: result.count });
 });
 
 app.delete('/admin/desks/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
   try {
-    await prisma.desk.delete({ where: { id } });
+    const deleted = await prisma.desk.delete({ where: { id } });
+    await recordAuditEvent(req, { action: 'DELETE', entityType: 'Desk', entityId: id, before: deleted });
     res.status(204).send();
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+      res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
       return;
     }
     throw error;
@@ -6379,11 +11054,11 @@ app.delete('/admin/desks/:id', requireAdmin, async (req, res) => {
 app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const { name, x, y, kind, hasCharger, allowSeriesOverride, tenantScope, tenantIds, employeeScope, employeeIds } = req.body as { name?: string; x?: number | null; y?: number | null; kind?: ResourceKind; hasCharger?: boolean; allowSeriesOverride?: boolean | null; tenantScope?: DeskTenantScope; tenantIds?: string[]; employeeScope?: DeskEmployeeScope; employeeIds?: string[] };
+  const { name, x, y, kind, hasCharger, capacity, equipment, allowSeriesOverride, tenantScope, tenantIds, employeeScope, employeeIds } = req.body as { name?: string; x?: number | null; y?: number | null; kind?: ResourceKind; hasCharger?: boolean; capacity?: number | null; equipment?: unknown; allowSeriesOverride?: boolean | null; tenantScope?: DeskTenantScope; tenantIds?: string[]; employeeScope?: DeskEmployeeScope; employeeIds?: string[] };
   const hasName = typeof name !== 'undefined';
   const hasX = typeof x !== 'undefined';
   const hasY = typeof y !== 'undefined';
@@ -6391,6 +11066,8 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
   const parsedKind = hasKind ? parseResourceKind(kind) : null;
 
   const hasHasCharger = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'hasCharger');
+  const hasCapacity = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'capacity');
+  const hasEquipment = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'equipment');
   const hasAllowSeriesOverride = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'allowSeriesOverride');
   const hasTenantScope = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'tenantScope');
   const hasTenantIds = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'tenantIds');
@@ -6398,55 +11075,66 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
   const hasEmployeeIds = Object.prototype.hasOwnProperty.call(req.body ?? {}, 'employeeIds');
   const parsedTenantScope = hasTenantScope ? parseDeskTenantScope(tenantScope) : null;
   const parsedEmployeeScope = hasEmployeeScope ? parseDeskEmployeeScope(employeeScope) : null;
+  const parsedEquipment = hasEquipment ? parseEquipmentList(equipment) : null;
 
-  if (!hasName && !hasX && !hasY && !hasKind && !hasHasCharger && !hasAllowSeriesOverride && !hasTenantScope && !hasTenantIds && !hasEmployeeScope && !hasEmployeeIds) {
-    res.status(400).json({ error: 'validation', message: 'name, x, y, kind, hasCharger, allowSeriesOverride, tenantScope, tenantIds, employeeScope or employeeIds must be provided' });
+  if (!hasName && !hasX && !hasY && !hasKind && !hasHasCharger && !hasCapacity && !hasEquipment && !hasAllowSeriesOverride && !hasTenantScope && !hasTenantIds && !hasEmployeeScope && !hasEmployeeIds) {
+    res.status(400).json({ error: 'validation', message: 'name, x, y, kind, hasCharger, capacity, equipment, allowSeriesOverride, tenantScope, tenantIds, employeeScope oder employeeIds muss angegeben werden' });
     return;
   }
 
   if (hasName && name.trim().length === 0) {
-    res.status(400).json({ error: 'validation', message: 'name must not be empty' });
+    res.status(400).json({ error: 'validation', message: 'name darf nicht leer sein' });
     return;
   }
 
   if (hasX && x !== null && typeof x !== 'number') {
-    res.status(400).json({ error: 'validation', message: 'x must be a number or null' });
+    res.status(400).json({ error: 'validation', message: 'x muss eine Zahl oder null sein' });
     return;
   }
 
   if (hasY && y !== null && typeof y !== 'number') {
-    res.status(400).json({ error: 'validation', message: 'y must be a number or null' });
+    res.status(400).json({ error: 'validation', message: 'y muss eine Zahl oder null sein' });
     return;
   }
 
   if ((hasX || hasY) && (x === null) !== (y === null)) {
-    res.status(400).json({ error: 'validation', message: 'x and y must be provided together or both null' });
+    res.status(400).json({ error: 'validation', message: 'x und y müssen zusammen angegeben werden oder beide null sein' });
     return;
   }
 
 
   if (hasAllowSeriesOverride && allowSeriesOverride !== null && typeof allowSeriesOverride !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'allowSeriesOverride must be boolean or null' });
+    res.status(400).json({ error: 'validation', message: 'allowSeriesOverride muss ein Boolean oder null sein' });
     return;
   }
 
   if (hasKind && !parsedKind) {
-    res.status(400).json({ error: 'validation', message: 'kind must be one of TISCH, PARKPLATZ, RAUM, SONSTIGES' });
+    res.status(400).json({ error: 'validation', message: 'kind muss einer der Werte TISCH, PARKPLATZ, RAUM, SONSTIGES sein' });
     return;
   }
 
   if (hasHasCharger && typeof hasCharger !== 'boolean') {
-    res.status(400).json({ error: 'validation', message: 'hasCharger must be boolean' });
+    res.status(400).json({ error: 'validation', message: 'hasCharger muss ein Boolean sein' });
+    return;
+  }
+
+  if (hasCapacity && !isValidDeskCapacity(capacity)) {
+    res.status(400).json({ error: 'validation', message: 'capacity muss eine positive ganze Zahl oder null sein' });
+    return;
+  }
+
+  if (parsedEquipment && !parsedEquipment.ok) {
+    res.status(400).json({ error: 'validation', message: parsedEquipment.message });
     return;
   }
 
   if (hasTenantScope && !parsedTenantScope) {
-    res.status(400).json({ error: 'validation', message: 'tenantScope must be ALL or SELECTED' });
+    res.status(400).json({ error: 'validation', message: 'tenantScope muss ALL oder SELECTED sein' });
     return;
   }
 
   if (hasEmployeeScope && !parsedEmployeeScope) {
-    res.status(400).json({ error: 'validation', message: 'employeeScope must be ALL or SELECTED' });
+    res.status(400).json({ error: 'validation', message: 'employeeScope muss ALL oder SELECTED sein' });
     return;
   }
 
@@ -6459,29 +11147,32 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
   const effectiveScope = hasTenantScope ? parsedTenantScope : undefined;
   const effectiveEmployeeScope = hasEmployeeScope ? parsedEmployeeScope : undefined;
   if ((effectiveScope === 'SELECTED' || (!hasTenantScope && hasTenantIds)) && normalizedTenantIds.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'tenantIds must not be empty for SELECTED scope' });
+    res.status(400).json({ error: 'validation', message: 'tenantIds darf beim Scope SELECTED nicht leer sein' });
     return;
   }
   if ((effectiveEmployeeScope === 'SELECTED' || (!hasEmployeeScope && hasEmployeeIds)) && normalizedEmployeeIds.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'employeeIds must not be empty for SELECTED scope' });
+    res.status(400).json({ error: 'validation', message: 'employeeIds darf beim Scope SELECTED nicht leer sein' });
     return;
   }
 
-  const data: { name?: string; x?: number | null; y?: number | null; kind?: ResourceKind; hasCharger?: boolean; allowSeriesOverride?: boolean | null; tenantScope?: DeskTenantScope; employeeScope?: DeskEmployeeScope } = {};
+  const data: { name?: string; x?: number | null; y?: number | null; kind?: ResourceKind; hasCharger?: boolean; capacity?: number | null; equipment?: ResourceEquipment[]; allowSeriesOverride?: boolean | null; tenantScope?: DeskTenantScope; employeeScope?: DeskEmployeeScope } = {};
   if (hasName) data.name = name.trim().slice(0, 60);
   if (hasX) data.x = x;
   if (hasY) data.y = y;
   if (hasKind && parsedKind) data.kind = parsedKind;
   if (hasHasCharger && typeof hasCharger === 'boolean') data.hasCharger = hasCharger;
+  if (hasCapacity) data.capacity = capacity ?? null;
+  if (parsedEquipment?.ok) data.equipment = parsedEquipment.value;
   if (hasAllowSeriesOverride) data.allowSeriesOverride = allowSeriesOverride ?? null;
   if (hasTenantScope && parsedTenantScope) data.tenantScope = parsedTenantScope;
   if (hasEmployeeScope && parsedEmployeeScope) data.employeeScope = parsedEmployeeScope;
 
   try {
+    const before = await prisma.desk.findUnique({ where: { id }, include: { deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } } });
     const updatedDesk = await prisma.$transaction(async (tx) => {
       const existing = await tx.desk.findUnique({ where: { id }, select: { tenantScope: true, employeeScope: true, deskTenants: { select: { tenantId: true } } } });
       if (!existing) {
-        res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+        res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
         return null;
       }
 
@@ -6497,7 +11188,7 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
 
       if (nextEmployeeScope === 'SELECTED') {
         if (nextEmployeeIds.length === 0) {
-          res.status(400).json({ error: 'validation', message: 'employeeIds must not be empty for SELECTED scope' });
+          res.status(400).json({ error: 'validation', message: 'employeeIds darf beim Scope SELECTED nicht leer sein' });
           return null;
         }
         const allowedEmployees = await tx.employee.findMany({
@@ -6505,13 +11196,13 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
           select: { id: true, tenantDomainId: true }
         });
         if (allowedEmployees.length !== nextEmployeeIds.length) {
-          res.status(400).json({ error: 'validation', message: 'employeeIds contain unknown employees' });
+          res.status(400).json({ error: 'validation', message: 'Unbekannte Mitarbeiter in employeeIds' });
           return null;
         }
 
         const isTenantMismatch = allowedEmployees.some((employee) => !employee.tenantDomainId || (nextTenantScope === 'SELECTED' && !nextTenantIds.includes(employee.tenantDomainId)));
         if (isTenantMismatch) {
-          res.status(400).json({ error: 'validation', message: 'employeeIds must belong to selected tenant(s)' });
+          res.status(400).json({ error: 'validation', message: 'employeeIds müssen zu den ausgewählten Mandanten gehören' });
           return null;
         }
       }
@@ -6532,10 +11223,11 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
       return tx.desk.findUnique({ where: { id: updated.id }, include: { deskTenants: { select: { tenantId: true } }, deskEmployees: { select: { employeeId: true } } } });
     });
     if (!updatedDesk) return;
+    await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Desk', entityId: id, before, after: updatedDesk });
     res.status(200).json(updatedDesk);
   } catch (error) {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-      res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+      res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
       return;
     }
     throw error;
@@ -6544,18 +11236,23 @@ app.patch('/admin/desks/:id', requireAdmin, async (req, res) => {
 
 app.post('/admin/desks/positions/mark-missing', requireAdmin, async (req, res) => {
   const { floorplanId } = req.body as { floorplanId?: string };
-  const result = await prisma.desk.updateMany({
+  const desks = await prisma.desk.findMany({
     where: {
       ...(floorplanId ? { floorplanId } : {}),
       x: 0,
       y: 0
     },
+    select: { id: true, x: true, y: true }
+  });
+  const result = await prisma.desk.updateMany({
+    where: { id: { in: desks.map((desk) => desk.id) } },
     data: {
       x: null,
       y: null
     }
   });
 
+  await recordAuditEvents(req, desks.map((desk) => ({ action: 'UPDATE', entityType: 'Desk', entityId: desk.id, before: desk, after: { id: desk.id, x: null, y: null } })));
   res.status(200).json({ updatedCount: result.count });
 });
 
@@ -6571,7 +11268,7 @@ app.get('/admin/bookings', requireAdmin, async (req, res) => {
   if (date) {
     const parsedDate = toDateOnly(date);
     if (!parsedDate) {
-      res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
+      res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
       return;
     }
 
@@ -6586,7 +11283,7 @@ app.get('/admin/bookings', requireAdmin, async (req, res) => {
     if (from) {
       const fromDate = toDateOnly(from);
       if (!fromDate) {
-        res.status(400).json({ error: 'validation', message: 'from must be in YYYY-MM-DD format' });
+        res.status(400).json({ error: 'validation', message: 'from muss im Format YYYY-MM-DD sein' });
         return;
       }
       rangeFilter.gte = fromDate;
@@ -6595,7 +11292,7 @@ app.get('/admin/bookings', requireAdmin, async (req, res) => {
     if (to) {
       const toDate = toDateOnly(to);
       if (!toDate) {
-        res.status(400).json({ error: 'validation', message: 'to must be in YYYY-MM-DD format' });
+        res.status(400).json({ error: 'validation', message: 'to muss im Format YYYY-MM-DD sein' });
         return;
       }
       rangeFilter.lte = toDate;
@@ -6605,7 +11302,7 @@ app.get('/admin/bookings', requireAdmin, async (req, res) => {
   } else if (!date) {
     const today = toDateOnly(toISODateOnly(new Date()));
     if (!today) {
-      res.status(500).json({ error: 'internal', message: 'Unable to create default date filter' });
+      res.status(500).json({ error: 'internal', message: 'Der Standard-Datumsfilter konnte nicht erstellt werden' });
       return;
     }
 
@@ -6622,7 +11319,7 @@ app.get('/admin/bookings', requireAdmin, async (req, res) => {
   if (employeeId) {
     const employee = await prisma.employee.findUnique({ where: { id: employeeId }, select: { email: true } });
     if (!employee) {
-      res.status(404).json({ error: 'not_found', message: 'Employee not found' });
+      res.status(404).json({ error: 'not_found', message: 'Mitarbeiter nicht gefunden' });
       return;
     }
     where.userEmail = employee.email;
@@ -6709,15 +11406,27 @@ app.get('/admin/bookings', requireAdmin, async (req, res) => {
 app.delete('/admin/bookings', requireAdmin, async (req, res) => {
   const ids = getIdsFromQuery(req.query.ids as string | string[] | undefined);
   if (ids.length === 0) {
-    res.status(400).json({ error: 'validation', message: 'ids is required' });
+    res.status(400).json({ error: 'validation', message: 'ids ist erforderlich' });
     return;
   }
 
-  const result = await prisma.booking.deleteMany({ where: { id: { in: ids } } });
+  const mailActor = await resolveAuditActor(req);
+  const { bookings, result, freedCapacity } = await prisma.$transaction(async (tx) => {
+    const bookings = await tx.booking.findMany({ where: { id: { in: ids } } });
+    const freedCapacity = await findFreedCapacity(tx, { id: { in: bookings.map((booking) => booking.id) } });
+    await enqueueBookingMails(tx, bookings, mailActor, (details, actorName) => ({ kind: 'BOOKING_CANCELLED', booking: details, actorName }));
+    await enqueueBookingWebhooks(tx, 'booking.cancelled', bookings, { actor: mailActor, reason: 'admin' });
+    const result = await tx.booking.deleteMany({ where: { id: { in: bookings.map((booking) => booking.id) } } });
+    return { bookings, result, freedCapacity };
+  });
+  void removeGraphCalendarEvents(bookings);
+  flushOutboxes();
+  notifyWaitlistOfFreedCapacity(freedCapacity);
+  await recordAuditEvents(req, bookings.map((booking) => ({ action: 'DELETE', entityType: 'Booking', entityId: booking.id, before: booking })));
   res.status(200).json({ deletedCount: result.count });
 });
 
-app.post('/admin/bookings/cleanup-duplicates', requireAdmin, async (_req, res) => {
+app.post('/admin/bookings/cleanup-duplicates', requireAdmin, async (req, res) => {
   const result = await prisma.$transaction(async (tx) => {
     const bookings = await tx.booking.findMany({
       select: { id: true, userEmail: true, date: true, createdAt: true, desk: { select: { kind: true } } },
@@ -6744,55 +11453,73 @@ app.post('/admin/bookings/cleanup-duplicates', requireAdmin, async (_req, res) =
       }
     }
 
+    const freedCapacity = await findFreedCapacity(tx, { id: { in: duplicatesToDelete } });
     if (duplicatesToDelete.length > 0) {
       await tx.booking.deleteMany({ where: { id: { in: duplicatesToDelete } } });
     }
 
-    return { deletedCount: duplicatesToDelete.length, affectedGroups: keepByKey.size };
+    return { deletedCount: duplicatesToDelete.length, affectedGroups: keepByKey.size, deletedBookings: bookings.filter((booking) => duplicatesToDelete.includes(booking.id)), freedCapacity };
   });
 
-  res.status(200).json(result);
+  const { deletedBookings, freedCapacity, ...payload } = result;
+  notifyWaitlistOfFreedCapacity(freedCapacity);
+  await recordAuditEvents(req, deletedBookings.map((booking) => ({ action: 'DELETE', entityType: 'Booking', entityId: booking.id, before: booking })));
+  res.status(200).json(payload);
 });
 
 app.delete('/admin/bookings/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const result = await prisma.booking.deleteMany({ where: { id } });
+  const mailActor = await resolveAuditActor(req);
+  const { before, result, freedCapacity } = await prisma.$transaction(async (tx) => {
+    const before = await tx.booking.findUnique({ where: { id } });
+    if (before) {
+      await enqueueBookingMails(tx, [before], mailActor, (details, actorName) => ({ kind: 'BOOKING_CANCELLED', booking: details, actorName }));
+      await enqueueBookingWebhooks(tx, 'booking.cancelled', [before], { actor: mailActor, reason: 'admin' });
+    }
+    const freedCapacity = await findFreedCapacity(tx, { id });
+    const result = await tx.booking.deleteMany({ where: { id } });
+    return { before, result, freedCapacity };
+  });
   if (result.count === 0) {
-    res.status(404).json({ error: 'not_found', message: 'Booking not found' });
+    res.status(404).json({ error: 'not_found', message: 'Buchung nicht gefunden' });
     return;
   }
 
+  if (before) void removeGraphCalendarEvents([before]);
+  flushOutboxes();
+  notifyWaitlistOfFreedCapacity(freedCapacity);
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'Booking', entityId: id, before });
   res.status(200).json({ deletedCount: result.count });
 });
 
 app.patch('/admin/bookings/:id', requireAdmin, async (req, res) => {
   const id = getRouteId(req.params.id);
   if (!id) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
   const { userEmail, date, deskId, slot, startTime, endTime } = req.body as { userEmail?: string; date?: string; deskId?: string; slot?: string; startTime?: string; endTime?: string };
 
   if (!userEmail && !date && !deskId && typeof slot === 'undefined' && typeof startTime === 'undefined' && typeof endTime === 'undefined') {
-    res.status(400).json({ error: 'validation', message: 'userEmail, deskId, date, slot or time fields must be provided' });
+    res.status(400).json({ error: 'validation', message: 'userEmail, deskId, date, slot oder die Zeitfelder müssen angegeben werden' });
     return;
   }
 
   const existing = await prisma.booking.findUnique({ where: { id } });
   if (!existing) {
-    res.status(404).json({ error: 'not_found', message: 'Booking not found' });
+    res.status(404).json({ error: 'not_found', message: 'Buchung nicht gefunden' });
     return;
   }
 
   const nextDateValue = date ? toDateOnly(date) : existing.date;
   if (date && !nextDateValue) {
-    res.status(400).json({ error: 'validation', message: 'date must be in YYYY-MM-DD format' });
+    res.status(400).json({ error: 'validation', message: 'date muss im Format YYYY-MM-DD sein' });
     return;
   }
 
@@ -6802,7 +11529,7 @@ app.patch('/admin/bookings/:id', requireAdmin, async (req, res) => {
 
   const nextDesk = await getDeskContext(nextDeskId);
   if (!nextDesk) {
-    res.status(404).json({ error: 'not_found', message: 'Desk not found' });
+    res.status(404).json({ error: 'not_found', message: 'Ressource nicht gefunden' });
     return;
   }
 
@@ -6831,7 +11558,7 @@ app.patch('/admin/bookings/:id', requireAdmin, async (req, res) => {
     const overlappingDeskConflict = conflictingBooking && (() => { const conflictWindow = bookingToWindow(conflictingBooking); return conflictWindow ? windowsOverlap(nextWindow, conflictWindow) : false; })();
 
     if (overlappingDeskConflict) {
-      sendConflict(res, 'Desk is already booked for this Zeitraum', { deskId: nextDeskId, date, bookingId: conflictingBooking.id });
+      sendConflict(res, 'Die Ressource ist in diesem Zeitraum bereits gebucht', { deskId: nextDeskId, date, bookingId: conflictingBooking.id });
       return;
     }
 
@@ -6848,7 +11575,7 @@ app.patch('/admin/bookings/:id', requireAdmin, async (req, res) => {
   });
 
   if (userDateConflict && (() => { const conflictWindow = bookingToWindow(userDateConflict); return conflictWindow ? windowsOverlap(nextWindow, conflictWindow) : false; })()) {
-    sendConflict(res, 'User already has a booking for this date and resource kind', {
+    sendConflict(res, 'Du hast an diesem Tag bereits eine Buchung dieser Art', {
       conflictKind: nextDesk.kind,
       existingBooking: {
         id: userDateConflict.id,
@@ -6859,21 +11586,35 @@ app.patch('/admin/bookings/:id', requireAdmin, async (req, res) => {
     return;
   }
 
-  const updated = await prisma.booking.update({
-    where: { id },
-    data: {
-      ...(userEmail ? { userEmail: nextUserEmail } : {}),
-      ...(date ? { date: nextDate } : {}),
-      ...(deskId ? { deskId: nextDeskId } : {}),
-      daySlot: nextWindow.mode === 'day' ? nextWindow.daySlot : null,
-      startTime: nextWindow.mode === 'time' ? new Date(Date.UTC(nextDate.getUTCFullYear(), nextDate.getUTCMonth(), nextDate.getUTCDate(), Math.floor(nextWindow.startMinute / 60), nextWindow.startMinute % 60, 0, 0)) : null,
-      endTime: nextWindow.mode === 'time' ? new Date(Date.UTC(nextDate.getUTCFullYear(), nextDate.getUTCMonth(), nextDate.getUTCDate(), Math.floor(nextWindow.endMinute / 60), nextWindow.endMinute % 60, 0, 0)) : null,
-      slot: nextWindow.mode === 'day' ? (nextWindow.daySlot === 'FULL' ? 'FULL_DAY' : nextWindow.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM',
-      startMinute: nextWindow.mode === 'time' ? nextWindow.startMinute : null,
-      endMinute: nextWindow.mode === 'time' ? nextWindow.endMinute : null
-    },
-    include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } }
+  const mailActor = await resolveAuditActor(req);
+  const { updated, freedCapacity } = await prisma.$transaction(async (tx) => {
+    // Moving or shortening a booking can free its previous place; the waitlist checks whether it really did.
+    const freedCapacity = await findFreedCapacity(tx, { id });
+    queueOccupancyChange(existing);
+    const updated = await tx.booking.update({
+      where: { id },
+      data: {
+        ...(userEmail ? { userEmail: nextUserEmail } : {}),
+        ...(date ? { date: nextDate } : {}),
+        ...(deskId ? { deskId: nextDeskId } : {}),
+        daySlot: nextWindow.mode === 'day' ? nextWindow.daySlot : null,
+        startTime: nextWindow.mode === 'time' ? new Date(Date.UTC(nextDate.getUTCFullYear(), nextDate.getUTCMonth(), nextDate.getUTCDate(), Math.floor(nextWindow.startMinute / 60), nextWindow.startMinute % 60, 0, 0)) : null,
+        endTime: nextWindow.mode === 'time' ? new Date(Date.UTC(nextDate.getUTCFullYear(), nextDate.getUTCMonth(), nextDate.getUTCDate(), Math.floor(nextWindow.endMinute / 60), nextWindow.endMinute % 60, 0, 0)) : null,
+        slot: nextWindow.mode === 'day' ? (nextWindow.daySlot === 'FULL' ? 'FULL_DAY' : nextWindow.daySlot === 'AM' ? 'MORNING' : 'AFTERNOON') : 'CUSTOM',
+        startMinute: nextWindow.mode === 'time' ? nextWindow.startMinute : null,
+        endMinute: nextWindow.mode === 'time' ? nextWindow.endMinute : null
+      },
+      include: { createdByEmployee: { select: { id: true, displayName: true, email: true } } }
+    });
+    const previous = mailTransport ? (await loadBookingMailDetails(tx, [existing]))(existing) : null;
+    await enqueueBookingMails(tx, [updated], mailActor, (details, actorName) => (
+      previous && actorName ? { kind: 'BOOKING_CHANGED_BY_ADMIN', before: previous, after: details, actorName } : null
+    ));
+    await enqueueBookingWebhooks(tx, 'booking.updated', [updated], { actor: mailActor, reason: 'admin' });
+    return { updated, freedCapacity };
   });
+  flushOutboxes();
+  notifyWaitlistOfFreedCapacity(freedCapacity);
 
   const employee = updated.userEmail ? (await getActiveEmployeesByEmail([updated.userEmail])).get(normalizeEmail(updated.userEmail)) : undefined;
   const appUser = updated.userEmail ? await prisma.user.findUnique({ where: { email: normalizeEmail(updated.userEmail) }, select: { id: true, displayName: true, email: true } }) : null;
@@ -6889,6 +11630,7 @@ app.patch('/admin/bookings/:id', requireAdmin, async (req, res) => {
     fallbackUser
   });
 
+  await recordAuditEvent(req, { action: 'UPDATE', entityType: 'Booking', entityId: id, before: existing, after: updated });
   res.status(200).json({
     ...updated,
     createdBy,
@@ -6925,46 +11667,56 @@ const parseSeriesCancelMode = (value: unknown): SeriesCancelMode | null => {
 const cancelRecurringBookingInstances = async ({
   recurringBookingId,
   mode,
-  anchorDate
+  anchorDate,
+  actor
 }: {
   recurringBookingId: string;
   mode: SeriesCancelMode;
   anchorDate?: string;
-}, tx: Prisma.TransactionClient) => {
+  actor: MailActor;
+}, tx: Prisma.TransactionClient): Promise<{ deletedCount: number; freedCapacity: FreedCapacity[] }> => {
   if (mode === 'ALL') {
+    const freedCapacity = await findFreedCapacity(tx, { recurringBookingId });
+    await enqueueBookingWebhooks(tx, 'booking.cancelled', () => tx.booking.findMany({ where: { recurringBookingId } }), { actor, reason: 'series_cancelled' });
     const deleted = await tx.booking.deleteMany({ where: { recurringBookingId } });
+    await enqueueSeriesCancelledMail(tx, recurringBookingId, { fromDate: null, cancelledCount: deleted.count, actor });
+    await enqueueSeriesDeletedWebhook(tx, recurringBookingId, { actor, bookingCount: deleted.count, fromDate: null });
     await tx.recurringBooking.deleteMany({ where: { id: recurringBookingId } });
-    return deleted.count;
+    return { deletedCount: deleted.count, freedCapacity };
   }
 
   if (!anchorDate) {
-    const error = new Error('anchorDate is required for FUTURE mode');
+    const error = new Error('anchorDate ist im Modus FUTURE erforderlich');
     (error as Error & { status?: number }).status = 400;
     throw error;
   }
 
   const parsedAnchor = toDateOnly(anchorDate);
   if (!parsedAnchor) {
-    const error = new Error('anchorDate must be in YYYY-MM-DD format');
+    const error = new Error('anchorDate muss im Format YYYY-MM-DD sein');
     (error as Error & { status?: number }).status = 400;
     throw error;
   }
 
+  const freedCapacity = await findFreedCapacity(tx, { recurringBookingId, date: { gte: parsedAnchor } });
+  await enqueueBookingWebhooks(tx, 'booking.cancelled', () => tx.booking.findMany({ where: { recurringBookingId, date: { gte: parsedAnchor } } }), { actor, reason: 'series_cancelled' });
   const deleted = await tx.booking.deleteMany({ where: { recurringBookingId, date: { gte: parsedAnchor } } });
-  return deleted.count;
+  await enqueueSeriesCancelledMail(tx, recurringBookingId, { fromDate: toISODateOnly(parsedAnchor), cancelledCount: deleted.count, actor });
+  await enqueueSeriesDeletedWebhook(tx, recurringBookingId, { actor, bookingCount: deleted.count, fromDate: toISODateOnly(parsedAnchor) });
+  return { deletedCount: deleted.count, freedCapacity };
 };
 
 app.delete('/recurring-bookings/:recurringBookingId/instances', async (req, res) => {
   const recurringBookingId = getRouteId(req.params.recurringBookingId);
   const requestId = req.requestId ?? 'unknown';
   if (!recurringBookingId) {
-    res.status(400).json({ error: 'validation', message: 'recurringBookingId is required' });
+    res.status(400).json({ error: 'validation', message: 'recurringBookingId ist erforderlich' });
     return;
   }
 
   const mode = parseSeriesCancelMode((req.query.mode as unknown) ?? (req.body as { mode?: unknown } | undefined)?.mode ?? 'ALL');
   if (!mode) {
-    res.status(400).json({ error: 'validation', message: 'mode must be ALL or FUTURE' });
+    res.status(400).json({ error: 'validation', message: 'mode muss ALL oder FUTURE sein' });
     return;
   }
 
@@ -6974,9 +11726,9 @@ app.delete('/recurring-bookings/:recurringBookingId/instances', async (req, res)
       ? (req.body as { anchorDate?: string }).anchorDate
       : undefined;
 
-  const recurring = await prisma.recurringBooking.findUnique({ where: { id: recurringBookingId }, select: { id: true, createdByEmployeeId: true } });
+  const recurring = await prisma.recurringBooking.findUnique({ where: { id: recurringBookingId } });
   if (!recurring) {
-    res.status(404).json({ error: 'not_found', message: 'Recurring booking not found' });
+    res.status(404).json({ error: 'not_found', message: 'Serie nicht gefunden' });
     return;
   }
 
@@ -6996,15 +11748,19 @@ app.delete('/recurring-bookings/:recurringBookingId/instances', async (req, res)
   }
 
   try {
-    const deletedCount = await prisma.$transaction(async (tx) => cancelRecurringBookingInstances({ recurringBookingId, mode, anchorDate: anchorDateRaw }, tx));
+    const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+    const { deletedCount, freedCapacity } = await prisma.$transaction(async (tx) => cancelRecurringBookingInstances({ recurringBookingId, mode, anchorDate: anchorDateRaw, actor }, tx));
     console.info('SERIES_CANCEL', { requestId, recurringBookingId, actorEmployeeId: actorEmployee.id, deletedCount, mode });
+    notifyWaitlistOfFreedCapacity(freedCapacity);
+    flushOutboxes();
+    await recordAuditEvent(req, { action: 'CANCEL', entityType: 'RecurringBooking', entityId: recurringBookingId, before: recurring, after: { mode, anchorDate: anchorDateRaw ?? null, deletedCount } });
     res.status(200).json({ deletedCount });
   } catch (error) {
     const status = (error as Error & { status?: number }).status ?? 500;
-    const message = error instanceof Error ? error.message : 'Series cancel failed';
+    const message = error instanceof Error ? error.message : 'Stornierung der Serie fehlgeschlagen';
     if (status >= 500) {
       console.error('SERIES_CANCEL', { requestId, recurringBookingId, actorEmployeeId: actorEmployee.id, deletedCount: 0, mode, error: message, status });
-      res.status(status).json({ error: 'internal_error', message: 'Series cancel failed' });
+      res.status(status).json({ error: 'internal_error', message: 'Stornierung der Serie fehlgeschlagen' });
       return;
     }
 
@@ -7015,13 +11771,13 @@ app.delete('/recurring-bookings/:recurringBookingId/instances', async (req, res)
 app.delete('/recurring-bookings/:id', async (req, res) => {
   const recurringBookingId = getRouteId(req.params.id);
   if (!recurringBookingId) {
-    res.status(400).json({ error: 'validation', message: 'id is required' });
+    res.status(400).json({ error: 'validation', message: 'id ist erforderlich' });
     return;
   }
 
-  const recurring = await prisma.recurringBooking.findUnique({ where: { id: recurringBookingId }, select: { id: true, createdByEmployeeId: true } });
+  const recurring = await prisma.recurringBooking.findUnique({ where: { id: recurringBookingId } });
   if (!recurring) {
-    res.status(404).json({ error: 'not_found', message: 'Recurring booking not found' });
+    res.status(404).json({ error: 'not_found', message: 'Serie nicht gefunden' });
     return;
   }
 
@@ -7036,18 +11792,134 @@ app.delete('/recurring-bookings/:id', async (req, res) => {
 
   const isAdmin = req.authUser?.role === 'admin';
   if (!isAdmin && recurring.createdByEmployeeId !== actorEmployee.id) {
-    res.status(403).json({ error: 'forbidden', message: 'Not allowed to delete this recurring booking' });
+    res.status(403).json({ error: 'forbidden', message: 'Du darfst diese Serie nicht löschen' });
     return;
   }
 
-  await prisma.$transaction(async (tx) => {
-    await tx.booking.deleteMany({ where: { recurringBookingId } });
+  const { freedCapacity, deletedCount } = await prisma.$transaction(async (tx) => {
+    const freed = await findFreedCapacity(tx, { recurringBookingId });
+    const actor = { employeeId: actorEmployee.id, displayName: actorEmployee.displayName };
+    await enqueueBookingWebhooks(tx, 'booking.cancelled', () => tx.booking.findMany({ where: { recurringBookingId } }), { actor, reason: 'series_cancelled' });
+    const deleted = await tx.booking.deleteMany({ where: { recurringBookingId } });
+    await enqueueSeriesCancelledMail(tx, recurringBookingId, { fromDate: null, cancelledCount: deleted.count, actor });
+    await enqueueSeriesDeletedWebhook(tx, recurringBookingId, { actor, bookingCount: deleted.count, fromDate: null });
     await tx.recurringBooking.deleteMany({ where: { id: recurringBookingId } });
+    return { freedCapacity: freed, deletedCount: deleted.count };
   });
+  notifyWaitlistOfFreedCapacity(freedCapacity);
+  flushOutboxes();
+  await recordAuditEvent(req, { action: 'DELETE', entityType: 'RecurringBooking', entityId: recurringBookingId, before: recurring, after: { deletedCount } });
 
   res.status(204).send();
 });
 
+const releaseOverdueCheckIns = async (): Promise<void> => {
+  try {
+    const berlinNow = getBerlinNow();
+    const pendingBookings = await prisma.booking.findMany({
+      where: {
+        date: berlinNow.date,
+        checkInStatus: 'PENDING',
+        desk: {
+          OR: [
+            { kind: 'TISCH', floorplan: { deskCheckInGraceMinutes: { not: null } } },
+            { kind: 'PARKPLATZ', floorplan: { parkingCheckInGraceMinutes: { not: null } } }
+          ]
+        }
+      },
+      include: { desk: { select: { kind: true, floorplan: { select: { deskCheckInGraceMinutes: true, parkingCheckInGraceMinutes: true } } } } }
+    });
+
+    const overdueBookings = pendingBookings.filter((booking) => {
+      const graceMinutes = resolveCheckInGraceMinutes(booking.desk.kind, booking.desk.floorplan);
+      const window = bookingToWindow(booking);
+      if (graceMinutes === null || !window) return false;
+      const createdLocal = getBerlinNow(booking.createdAt);
+      const createdMinute = toISODateOnly(createdLocal.date) === toISODateOnly(berlinNow.date) ? createdLocal.minute : 0;
+      return isCheckInOverdue({ window, graceMinutes, nowMinute: berlinNow.minute, createdMinute });
+    });
+    if (overdueBookings.length === 0) return;
+
+    // Rows are re-read under the transaction: a booking checked in since the query above must neither be deleted
+    // nor show up in the log, the audit trail or the owner's mail.
+    const { released, freedCapacity } = await prisma.$transaction(async (tx) => {
+      const releaseWhere: Prisma.BookingWhereInput = { id: { in: overdueBookings.map((booking) => booking.id) }, checkInStatus: 'PENDING' };
+      const rows = await tx.booking.findMany({
+        where: releaseWhere,
+        include: { desk: { select: { kind: true, floorplan: { select: { deskCheckInGraceMinutes: true, parkingCheckInGraceMinutes: true } } } } }
+      });
+      if (rows.length === 0) return { released: rows, freedCapacity: [] };
+      const rowWhere: Prisma.BookingWhereInput = { id: { in: rows.map((booking) => booking.id) } };
+      const freed = await findFreedCapacity(tx, rowWhere);
+      await enqueueBookingWebhooks(tx, 'booking.cancelled', rows, { reason: 'auto_release' });
+      const graceMinutesByDesk = new Map(rows.map((row) => [row.deskId, resolveCheckInGraceMinutes(row.desk.kind, row.desk.floorplan)]));
+      await enqueueBookingMails(tx, rows, null, (details, _actorName, booking) => {
+        const graceMinutes = graceMinutesByDesk.get(booking.deskId) ?? null;
+        return graceMinutes === null ? null : { kind: 'BOOKING_RELEASED', booking: details, graceMinutes };
+      });
+      await tx.booking.deleteMany({ where: rowWhere });
+      return { released: rows, freedCapacity: freed };
+    });
+    for (const booking of released) {
+      logBookingEvent('BOOKING_AUTO_RELEASED', {
+        bookingId: booking.id,
+        deskId: booking.deskId,
+        employeeId: booking.employeeId,
+        date: toISODateOnly(booking.date),
+        resourceType: booking.desk.kind
+      });
+    }
+    console.info('[MUT] BOOKING_AUTO_RELEASE_DONE', { releasedCount: released.length });
+    if (released.length === 0) return;
+    notifyWaitlistOfFreedCapacity(freedCapacity);
+    flushOutboxes();
+    await recordAuditEvents(null, released.map(({ desk, ...booking }) => ({ action: 'AUTO_RELEASE', entityType: 'Booking', entityId: booking.id, before: { ...booking, resourceType: desk.kind } })));
+  } catch (error) {
+    console.error('BOOKING_AUTO_RELEASE_FAILED', { error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// Visitor details and guest names are personal data; they are deleted once the visit is older than the retention
+// period. Copies of them in mails and webhook deliveries go with them: outbox rows of that age are removed (retries
+// end within hours, so only mails that could never be sent are still pending), and delivered webhook payloads of past
+// bookings lose their guest name.
+// Only data tied to a Visitor record is removed: the guest name of its booking, the mails about the visit and the
+// guest name in finished webhook deliveries of that booking. Visitors only exist on single bookings, so recurring
+// payloads never carry a visitor's name. Audit events keep their snapshots because the audit log must stay unaltered.
+const purgeExpiredVisitors = async () => {
+  try {
+    const cutoff = resolveVisitorRetentionCutoff(getBerlinNow().date, VISITOR_RETENTION_DAYS);
+    const expired = await prisma.visitor.findMany({ where: { booking: { date: { lt: cutoff } } }, select: { id: true, bookingId: true } });
+    if (expired.length === 0) return;
+
+    const visitorIds = expired.map((visitor) => visitor.id);
+    const bookingIds = expired.map((visitor) => visitor.bookingId);
+    const result = await prisma.$transaction(async (tx) => {
+      const anonymizedBookings = await tx.booking.updateMany({ where: { id: { in: bookingIds }, guestName: { not: null } }, data: { guestName: null } });
+      const purgedMails = await tx.$executeRaw`
+        DELETE FROM "OutboxMessage"
+        WHERE "topic" = 'mail'
+          AND "payload" ->> 'visitorId' = ANY(${visitorIds}::text[])
+      `;
+      const anonymizedDeliveries = await tx.$executeRaw`
+        UPDATE "WebhookDelivery"
+        SET "payload" = jsonb_set("payload", '{data,booking,guestName}', 'null'::jsonb)
+        WHERE "status" <> 'PENDING'
+          AND "payload" #>> '{data,booking,guestName}' IS NOT NULL
+          AND "payload" #>> '{data,booking,id}' = ANY(${bookingIds}::text[])
+      `;
+      const purged = await tx.visitor.deleteMany({ where: { id: { in: visitorIds } } });
+      return { purgedCount: purged.count, anonymizedBookingCount: anonymizedBookings.count, purgedMailCount: purgedMails, anonymizedWebhookDeliveryCount: anonymizedDeliveries };
+    });
+    console.info('[MUT] VISITORS_PURGED', { ...result, before: toISODateOnly(cutoff) });
+  } catch (error) {
+    console.error('VISITOR_PURGE_FAILED', { error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+forwardAsyncRouteErrors(app);
+app.use(handleUncaughtErrors);
+
 const start = async () => {
   await ensureBreakglassAdmin();
   await ensureEmployeeTenantAssignments();
@@ -7056,6 +11928,15 @@ const start = async () => {
   setInterval(() => {
     void refreshLogLookupCache();
   }, 5 * 60 * 1000);
+  void purgeExpiredVisitors();
+  setInterval(() => {
+    void purgeExpiredVisitors();
+  }, 60 * 60 * 1000);
+  setInterval(() => {
+    void releaseOverdueCheckIns();
+    void expireWaitlistOffers();
+    flushOutboxes();
+  }, 60 * 1000);
   app.listen(port, '0.0.0.0', () => {
     console.log(`${APP_TITLE} API listening on ${port}`);
   });
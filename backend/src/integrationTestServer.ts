@@ -0,0 +1,51 @@
+import type { AddressInfo } from 'node:net';
+import { app } from './index';
+import { prisma } from './prisma';
+
+// Shared scaffold for the *.integration.test.ts files: they run the real routes against a listening app
+// and replace the prisma methods a route touches with in-memory fakes.
+
+export const devUserHeaders = (id: string, role: 'admin' | 'user' = 'user'): Record<string, string> => ({
+  'x-dev-user': id,
+  'x-dev-user-id': id,
+  'x-dev-user-email': `${id}@example.com`,
+  'x-dev-user-role': role
+});
+
+export const withServer = async <T>(run: (baseUrl: string) => Promise<T>): Promise<T> => {
+  const server = app.listen(0);
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  try {
+    const { port } = server.address() as AddressInfo;
+    return await run(`http://127.0.0.1:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+};
+
+export type JsonResponse<T> = { status: number; body: T };
+
+export const requestJson = <T = { code?: string; message?: string }>(
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+  path: string,
+  options: { headers?: Record<string, string>; body?: unknown } = {}
+): Promise<JsonResponse<T>> => withServer(async (baseUrl) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'content-type': 'application/json', ...options.headers },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: (text ? JSON.parse(text) : null) as T };
+});
+
+// Side effects every mutating route runs after its own work: audit events, webhook fan-out and the
+// actor lookup for the audit log. Tests override single methods after calling this.
+export const stubPrismaSideEffects = () => {
+  (prisma.employee.findUnique as unknown) = async () => null;
+  (prisma.auditEvent.createMany as unknown) = async () => ({ count: 0 });
+  (prisma.webhookSubscription.findMany as unknown) = async () => [];
+  (prisma.webhookDelivery.findMany as unknown) = async () => [];
+  (prisma.$transaction as unknown) = async (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma);
+};
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+import { createFileTransport, createMailTransportFromEnv, createSmtpTransport, formatMailMessage, MailTransportError } from './mail';
+
+type FakeSmtp = { server: Server; port: number; commands: string[]; messages: string[] };
+
+// Minimal SMTP server: multiline EHLO, AUTH PLAIN and DATA; rejects recipients at invalid.example.
+const startFakeSmtp = async (): Promise<FakeSmtp> => {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let data: string[] = [];
+    socket.write('220 fake.smtp ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index = buffer.indexOf('\r\n');
+      while (index >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        index = buffer.indexOf('\r\n');
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data.join('\r\n'));
+            data = [];
+            socket.write('250 2.0.0 queued\r\n');
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-fake.smtp\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n');
+        else if (verb === 'AUTH') socket.write(line === `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}` ? '235 2.7.0 ok\r\n' : '535 5.7.8 bad credentials\r\n');
+        else if (verb === 'MAIL') socket.write('250 2.1.0 ok\r\n');
+        else if (verb === 'RCPT') socket.write(line.includes('@invalid.example') ? '550 5.1.1 no such user\r\n' : '250 2.1.5 ok\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 2.0.0 bye\r\n');
+        else socket.write('502 5.5.2 unknown command\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, commands, messages };
+};
+
+const decodeBody = (raw: string): string => Buffer.from(raw.split('\r\n\r\n')[1].replace(/\r\n/g, ''), 'base64').toString('utf8');
+
+test('messages carry encoded headers and a base64 body', () => {
+  const raw = formatMailMessage(
+    { from: 'Raumbuchung <no-reply@example.com>', to: 'erika@example.com', subject: 'Buchung bestätigt', text: 'Hallo Erika,\n.\nGrüße' },
+    { now: new Date('2026-10-20T08:00:00.000Z'), messageId: 'fixed@example.com' }
+  );
+  assert.match(raw, /^From: Raumbuchung <no-reply@example\.com>\r\n/);
+  assert.match(raw, /\r\nSubject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/);
+  assert.match(raw, /\r\nDate: Tue, 20 Oct 2026 08:00:00 GMT\r\n/);
+  assert.match(raw, /\r\nMessage-ID: <fixed@example\.com>\r\n/);
+  assert.equal(decodeBody(raw), 'Hallo Erika,\r\n.\r\nGrüße');
+});
+
+test('smtp transport authenticates and delivers the message', async () => {
+  const fake = await startFakeSmtp();
+  try {
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: fake.port, secure: false, user: 'mailer', password: 'secret', from: 'Raumbuchung <no-reply@example.com>' });
+    await transport.send({ to: 'Erika <erika@example.com>', subject: 'Test', text: 'Zeile 1\nZeile 2' });
+
+    assert.deepEqual(fake.commands.map((command) => command.split(' ')[0]), ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    assert.equal(fake.commands[2], 'MAIL FROM:<no-reply@example.com>');
+    assert.equal(fake.commands[3], 'RCPT TO:<erika@example.com>');
+    assert.equal(fake.messages.length, 1);
+    assert.equal(decodeBody(fake.messages[0]), 'Zeile 1\r\nZeile 2');
+  } finally {
+    await new Promise((resolve) => fake.server.close(resolve));
+  }
+});
+
+test('smtp rejections are reported as permanent or transient errors', async () => {
+  const fake = await startFakeSmtp();
+  try {
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: fake.port, secure: false, from: 'no-reply@example.com' });
+    await assert.rejects(transport.send({ to: 'nobody@invalid.example', subject: 'Test', text: 'x' }), (error: unknown) => (
+      error instanceof MailTransportError && error.permanent && error.code === 550
+    ));
+
+    const closedPort = fake.port;
+    await new Promise((resolve) => fake.server.close(resolve));
+    await assert.rejects(createSmtpTransport({ host: '127.0.0.1', port: closedPort, secure: false, from: 'no-reply@example.com' }).send({ to: 'erika@example.com', subject: 'Test', text: 'x' }), (error: unknown) => (
+      error instanceof MailTransportError && !error.permanent && error.code === null
+    ));
+  } finally {
+    if (fake.server.listening) await new Promise((resolve) => fake.server.close(resolve));
+  }
+});
+
+test('file transport writes one .eml per message and env config selects the transport', async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), 'rbms-mail-'));
+  try {
+    await createFileTransport({ directory, from: 'no-reply@example.com' }).send({ to: 'erika@example.com', subject: 'Test', text: 'Hallo' });
+    const files = await readdir(directory);
+    assert.equal(files.length, 1);
+    assert.match(files[0], /\.eml$/);
+    assert.equal(decodeBody(await readFile(path.join(directory, files[0]), 'utf8')), 'Hallo');
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+
+  assert.equal(createMailTransportFromEnv({}, { appTitle: 'RB-MS' }), null);
+  assert.equal(createMailTransportFromEnv({ MAIL_TRANSPORT: 'console' }, { appTitle: 'RB-MS' })?.name, 'console');
+  assert.equal(createMailTransportFromEnv({ MAIL_TRANSPORT: 'smtp', MAIL_SMTP_HOST: 'mail.example.com' }, { appTitle: 'RB-MS' })?.name, 'smtp');
+  assert.throws(() => createMailTransportFromEnv({ MAIL_TRANSPORT: 'smtp' }, { appTitle: 'RB-MS' }), /MAIL_SMTP_HOST/);
+  assert.throws(() => createMailTransportFromEnv({ MAIL_TRANSPORT: 'pigeon' }, { appTitle: 'RB-MS' }), /MAIL_TRANSPORT/);
+});
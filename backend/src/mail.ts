@@ -0,0 +1,228 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { connect as connectTcp, type Socket } from 'node:net';
+import path from 'node:path';
+import { connect as connectTls, type TLSSocket } from 'node:tls';
+
+export type MailMessage = { to: string; subject: string; text: string };
+
+export type MailTransport = {
+  name: 'smtp' | 'file' | 'console';
+  send: (message: MailMessage) => Promise<void>;
+};
+
+// `permanent` marks failures a retry will not fix (SMTP 5xx, e.g. an unknown recipient).
+export class MailTransportError extends Error {
+  constructor(message: string, readonly permanent: boolean, readonly code: number | null) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
+
+const isAscii = (value: string): boolean => /^[\x20-\x7e]*$/.test(value);
+
+// RFC 2047 encoded words, split on character boundaries so no word exceeds the 75 character limit.
+const encodeHeaderValue = (value: string): string => {
+  if (isAscii(value)) return value;
+  const words: string[] = [];
+  let current = '';
+  for (const char of value) {
+    if (Buffer.byteLength(current + char, 'utf8') > 45) {
+      words.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) words.push(current);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`).join('\r\n ');
+};
+
+const encodeAddress = (address: string): string => {
+  const match = /^(.*)<([^>]+)>\s*$/.exec(address);
+  if (!match || !match[1].trim()) return address.trim();
+  return `${encodeHeaderValue(match[1].trim().replace(/^"|"$/g, ''))} <${match[2].trim()}>`;
+};
+
+export const extractMailAddress = (address: string): string => (/<([^>]+)>\s*$/.exec(address)?.[1] ?? address).trim();
+
+export const formatMailMessage = (message: MailMessage & { from: string }, options: { now?: Date; messageId?: string } = {}): string => {
+  const domain = extractMailAddress(message.from).split('@')[1] || 'localhost';
+  const messageId = options.messageId ?? `${Date.now().toString(36)}.${randomBytes(8).toString('hex')}@${domain}`;
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${encodeAddress(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(options.now ?? new Date()).toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+};
+
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.info('MAIL', JSON.stringify({ to: message.to, subject: message.subject }), `\n${message.text}`);
+  }
+});
+
+// Each message becomes one .eml file that any mail client can open.
+export const createFileTransport = (options: { directory: string; from: string }): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await mkdir(options.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`;
+    await writeFile(path.join(options.directory, fileName), formatMailMessage({ ...message, from: options.from }), 'utf8');
+  }
+});
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // true: implicit TLS (port 465). false: plain connection, upgraded with STARTTLS when the server offers it.
+  secure: boolean;
+  user?: string | null;
+  password?: string | null;
+  from: string;
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+const openSmtpSession = (options: SmtpOptions) => {
+  let socket: Socket | TLSSocket;
+  let buffer = '';
+  let pendingLines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index = buffer.indexOf('\n');
+    while (index >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      pendingLines.push(line.slice(4));
+      // "250-..." continues a multiline reply, "250 ..." ends it.
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: pendingLines };
+        pendingLines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+      index = buffer.indexOf('\n');
+    }
+  };
+  const onError = (error: Error) => {
+    failure ??= new MailTransportError(`SMTP connection failed: ${error.message}`, false, null);
+    while (waiting.length > 0) waiting.shift()?.reject(failure);
+  };
+  const onClose = () => onError(new Error('connection closed by server'));
+  const attach = (next: Socket | TLSSocket) => {
+    socket = next;
+    socket.setTimeout(options.timeoutMs ?? 30_000, () => socket.destroy(new Error('timed out')));
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+  };
+  const detach = () => {
+    socket.off('data', onData);
+    socket.off('error', onError);
+    socket.off('close', onClose);
+    socket.setTimeout(0);
+  };
+
+  const read = () => new Promise<SmtpReply>((resolve, reject) => {
+    const queued = replies.shift();
+    if (queued) resolve(queued);
+    else if (failure) reject(failure);
+    else waiting.push({ resolve, reject });
+  });
+
+  const command = async (line: string | null, expected: number[], label = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new MailTransportError(`SMTP ${label} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code >= 500, reply.code);
+    }
+    return reply;
+  };
+
+  const initial = options.secure
+    ? connectTls({ host: options.host, port: options.port, servername: options.host })
+    : connectTcp({ host: options.host, port: options.port });
+  let secure = options.secure;
+  // Writes are buffered until the socket is connected; connection errors surface through the first read.
+  attach(initial);
+
+  const upgrade = () => {
+    detach();
+    attach(connectTls({ socket: socket as Socket, servername: options.host }));
+    secure = true;
+  };
+
+  return { command, upgrade, isSecure: () => secure, close: () => socket.destroy() };
+};
+
+// Dot-stuffing per RFC 5321 4.5.2 plus the terminating "." line.
+const toSmtpData = (raw: string): string => `${raw.replace(/\r\n\./g, '\r\n..').replace(/^\./, '..').replace(/(\r\n)?$/, '\r\n')}.`;
+
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  name: 'smtp',
+  send: async (message) => {
+    const session = openSmtpSession(options);
+    try {
+      const clientName = options.clientName ?? 'localhost';
+      await session.command(null, [220]);
+      let ehlo = await session.command(`EHLO ${clientName}`, [250]);
+      const supports = (keyword: string) => ehlo.lines.some((line) => line.toUpperCase().split(' ')[0] === keyword);
+
+      if (!session.isSecure() && supports('STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        session.upgrade();
+        ehlo = await session.command(`EHLO ${clientName}`, [250]);
+      }
+
+      if (options.user) {
+        const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      await session.command(`MAIL FROM:<${extractMailAddress(options.from)}>`, [250], 'MAIL FROM');
+      await session.command(`RCPT TO:<${extractMailAddress(message.to)}>`, [250, 251], 'RCPT TO');
+      await session.command('DATA', [354]);
+      await session.command(toSmtpData(formatMailMessage({ ...message, from: options.from })), [250], 'message');
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+});
+
+type MailEnv = Record<string, string | undefined>;
+
+// MAIL_TRANSPORT unset means mail is switched off; invalid settings fail at startup instead of on the first send.
+export const createMailTransportFromEnv = (env: MailEnv, defaults: { appTitle: string }): MailTransport | null => {
+  const kind = env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (!kind) return null;
+  const from = env.MAIL_FROM?.trim() || `${defaults.appTitle} <no-reply@localhost>`;
+
+  if (kind === 'console') return createConsoleTransport();
+  if (kind === 'file') return createFileTransport({ directory: env.MAIL_FILE_DIR?.trim() || path.join(process.cwd(), 'mail-outbox'), from });
+  if (kind === 'smtp') {
+    const host = env.MAIL_SMTP_HOST?.trim();
+    if (!host) throw new Error('MAIL_SMTP_HOST is required when MAIL_TRANSPORT=smtp');
+    const secure = env.MAIL_SMTP_SECURE === 'true';
+    const port = Number(env.MAIL_SMTP_PORT ?? (secure ? 465 : 587));
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) throw new Error('MAIL_SMTP_PORT must be a valid port number');
+    return createSmtpTransport({ host, port, secure, user: env.MAIL_SMTP_USER?.trim() || null, password: env.MAIL_SMTP_PASSWORD ?? null, from });
+  }
+  throw new Error(`MAIL_TRANSPORT must be smtp, file or console (got "${kind}")`);
+};
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { parseMailLocale, renderMail } from './mailTemplates';
+
+const desk = { resourceName: 'A-12', resourceKind: 'TISCH', floorplanName: 'OG 2', date: '2026-10-20', window: { mode: 'day' as const, daySlot: 'AM' as const } };
+
+test('mail locale accepts de and en only', () => {
+  assert.equal(parseMailLocale('EN '), 'en');
+  assert.equal(parseMailLocale('de'), 'de');
+  assert.equal(parseMailLocale('fr'), null);
+  assert.equal(parseMailLocale(undefined), null);
+});
+
+test('booking mails are rendered in the recipient language', () => {
+  const german = renderMail({ kind: 'BOOKING_CONFIRMED', booking: desk }, { locale: 'de', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.equal(german.subject, '[RB-MS] Buchung bestätigt: A-12 am Dienstag, 20.10.2026');
+  assert.match(german.text, /^Hallo Erika,/);
+  assert.match(german.text, /Ressource: Tisch A-12 \(OG 2\)/);
+  assert.match(german.text, /Zeitraum: Vormittag/);
+
+  const english = renderMail({
+    kind: 'BOOKING_CHANGED_BY_ADMIN',
+    before: desk,
+    after: { ...desk, resourceName: 'Aquarium', resourceKind: 'RAUM', window: { mode: 'time', startMinute: 9 * 60 + 30, endMinute: 11 * 60 } },
+    actorName: 'Max Admin'
+  }, { locale: 'en', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.equal(english.subject, '[RB-MS] Booking changed: Aquarium on Tuesday, 20 October 2026');
+  assert.match(english.text, /Max Admin has changed your booking\./);
+  assert.match(english.text, /Before:\nResource: Desk A-12 \(OG 2\)/);
+  assert.match(english.text, /Now:\nResource: Room Aquarium \(OG 2\)\nDate: Tuesday, 20 October 2026\nTime: 09:30–11:00/);
+});
+
+test('cancellations and series summaries name the actor and the affected dates', () => {
+  const self = renderMail({ kind: 'BOOKING_CANCELLED', booking: desk, actorName: null }, { locale: 'de', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.match(self.text, /du hast deine Buchung storniert\./);
+
+  const byAdmin = renderMail({ kind: 'BOOKING_CANCELLED', booking: desk, actorName: 'Max Admin', reason: 'Umbau' }, { locale: 'de', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.match(byAdmin.text, /Max Admin hat deine Buchung storniert\.\nGrund: Umbau/);
+
+  const released = renderMail({ kind: 'BOOKING_RELEASED', booking: desk, graceMinutes: 15 }, { locale: 'de', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.match(released.subject, /^\[RB-MS\] Buchung freigegeben: A-12 am /);
+  assert.match(released.text, /automatisch freigegeben, weil innerhalb von 15 Minuten nach Beginn nicht eingecheckt wurde\./);
+
+  const { date: _date, ...series } = desk;
+  const created = renderMail({ kind: 'SERIES_CREATED', booking: series, startDate: '2026-10-19', endDate: '2026-11-30', createdCount: 6, skippedDates: ['2026-11-02'] }, { locale: 'en', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.equal(created.subject, '[RB-MS] Recurring booking created: A-12');
+  assert.match(created.text, /Booked dates: 6\nSkipped: Monday, 02 November 2026/);
+
+  const cancelled = renderMail({ kind: 'SERIES_CANCELLED', booking: series, fromDate: '2026-11-09', cancelledCount: 4, actorName: null }, { locale: 'de', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.match(cancelled.text, /Ab: Montag, 09\.11\.2026\nStornierte Termine: 4/);
+});
+
+test('visitor arrival mails tell the host who is waiting at reception', () => {
+  const german = renderMail({ kind: 'VISITOR_ARRIVED', booking: { ...desk, guestName: 'Jana Gast' }, visitorName: 'Jana Gast', company: 'ACME', arrivedMinute: 8 * 60 + 5 }, { locale: 'de', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.equal(german.subject, '[RB-MS] Dein Besuch ist da: Jana Gast');
+  assert.match(german.text, /Jana Gast \(ACME\) wurde um 08:05 Uhr am Empfang angemeldet\.\n\nRessource: Tisch A-12 \(OG 2\)/);
+  assert.doesNotMatch(german.text, /Gast: /);
+
+  const english = renderMail({ kind: 'VISITOR_ARRIVED', booking: desk, visitorName: 'Jana Gast', company: null, arrivedMinute: 14 * 60 }, { locale: 'en', recipientName: 'Erika', appTitle: 'RB-MS' });
+  assert.match(english.text, /Jana Gast checked in at reception at 14:00\./);
+});
+
+test('visitor invitations carry the reception code and expected arrival', () => {
+  const invitation = renderMail({ kind: 'VISITOR_INVITATION', booking: { ...desk, guestName: 'Jana Gast' }, hostName: 'Erika Muster', code: 'K7M2QX9P', expectedArrivalMinute: 9 * 60 + 30 }, { locale: 'de', recipientName: 'Jana Gast', appTitle: 'RB-MS' });
+  assert.equal(invitation.subject, '[RB-MS] Ihr Besuch am Dienstag, 20.10.2026');
+  assert.match(invitation.text, /^Hallo Jana Gast,\n\nErika Muster erwartet Sie\. Bitte nennen Sie am Empfang diesen Besuchercode:\n\n {4}K7M2QX9P\n/);
+  assert.match(invitation.text, /Ankunft: 09:30/);
+  assert.doesNotMatch(invitation.text, /Gast: /);
+});
@@ -0,0 +1,187 @@
+export type MailLocale = 'de' | 'en';
+
+export const MAIL_LOCALES: MailLocale[] = ['de', 'en'];
+
+export type MailWindow = { mode: 'day'; daySlot: 'AM' | 'PM' | 'FULL' } | { mode: 'time'; startMinute: number; endMinute: number };
+
+export type BookingMailDetails = {
+  resourceName: string;
+  resourceKind: string;
+  floorplanName: string;
+  date: string;
+  window: MailWindow;
+  guestName?: string | null;
+};
+
+// `actorName` is null when the recipient did it themselves; the wording switches from "X changed" to "you changed".
+export type MailTemplate =
+  | { kind: 'BOOKING_CONFIRMED'; booking: BookingMailDetails }
+  | { kind: 'BOOKING_CHANGED_BY_ADMIN'; before: BookingMailDetails; after: BookingMailDetails; actorName: string }
+  | { kind: 'BOOKING_CANCELLED'; booking: BookingMailDetails; actorName: string | null; reason?: string | null }
+  | { kind: 'BOOKING_RELEASED'; booking: BookingMailDetails; graceMinutes: number }
+  | { kind: 'SERIES_CREATED'; booking: Omit<BookingMailDetails, 'date'>; startDate: string; endDate: string; createdCount: number; skippedDates: string[] }
+  | { kind: 'SERIES_CANCELLED'; booking: Omit<BookingMailDetails, 'date'>; fromDate: string | null; cancelledCount: number; actorName: string | null }
+  | { kind: 'VISITOR_INVITATION'; booking: BookingMailDetails; hostName: string; code: string; expectedArrivalMinute: number | null }
+  | { kind: 'VISITOR_ARRIVED'; booking: BookingMailDetails; visitorName: string; company: string | null; arrivedMinute: number };
+
+export type RenderedMail = { subject: string; text: string };
+
+export const parseMailLocale = (value: unknown): MailLocale | null => (
+  typeof value === 'string' && MAIL_LOCALES.includes(value.trim().toLowerCase() as MailLocale) ? value.trim().toLowerCase() as MailLocale : null
+);
+
+const RESOURCE_KIND_LABELS: Record<MailLocale, Record<string, string>> = {
+  de: { TISCH: 'Tisch', PARKPLATZ: 'Parkplatz', RAUM: 'Raum', SONSTIGES: 'Ressource' },
+  en: { TISCH: 'Desk', PARKPLATZ: 'Parking space', RAUM: 'Room', SONSTIGES: 'Resource' }
+};
+
+const DAY_SLOT_LABELS: Record<MailLocale, Record<'AM' | 'PM' | 'FULL', string>> = {
+  de: { AM: 'Vormittag', PM: 'Nachmittag', FULL: 'Ganztägig' },
+  en: { AM: 'Morning', PM: 'Afternoon', FULL: 'Full day' }
+};
+
+const formatMinute = (minute: number): string => `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+const formatMailDate = (date: string, locale: MailLocale): string => new Date(`${date}T00:00:00.000Z`).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-GB', {
+  weekday: 'long',
+  day: '2-digit',
+  month: locale === 'de' ? '2-digit' : 'long',
+  year: 'numeric',
+  timeZone: 'UTC'
+});
+
+const formatWindow = (window: MailWindow, locale: MailLocale): string => (
+  window.mode === 'day' ? DAY_SLOT_LABELS[locale][window.daySlot] : `${formatMinute(window.startMinute)}–${formatMinute(window.endMinute)}`
+);
+
+const describeResource = (booking: Omit<BookingMailDetails, 'date'>, locale: MailLocale): string => (
+  `${RESOURCE_KIND_LABELS[locale][booking.resourceKind] ?? RESOURCE_KIND_LABELS[locale].SONSTIGES} ${booking.resourceName} (${booking.floorplanName})`
+);
+
+const bookingLines = (booking: BookingMailDetails, locale: MailLocale): string[] => {
+  const labels = locale === 'de'
+    ? { resource: 'Ressource', date: 'Datum', time: 'Zeitraum', guest: 'Gast' }
+    : { resource: 'Resource', date: 'Date', time: 'Time', guest: 'Guest' };
+  return [
+    `${labels.resource}: ${describeResource(booking, locale)}`,
+    `${labels.date}: ${formatMailDate(booking.date, locale)}`,
+    `${labels.time}: ${formatWindow(booking.window, locale)}`,
+    ...(booking.guestName ? [`${labels.guest}: ${booking.guestName}`] : [])
+  ];
+};
+
+const greeting = (name: string, locale: MailLocale): string => (locale === 'de' ? `Hallo ${name},` : `Hello ${name},`);
+const signature = (appTitle: string, locale: MailLocale): string => (locale === 'de'
+  ? `Diese Nachricht wurde automatisch von ${appTitle} versendet.`
+  : `This message was sent automatically by ${appTitle}.`);
+
+const renderBody = (template: MailTemplate, locale: MailLocale): { subject: string; lines: string[] } => {
+  const de = locale === 'de';
+  switch (template.kind) {
+    case 'BOOKING_CONFIRMED':
+      return {
+        subject: de ? `Buchung bestätigt: ${template.booking.resourceName} am ${formatMailDate(template.booking.date, locale)}` : `Booking confirmed: ${template.booking.resourceName} on ${formatMailDate(template.booking.date, locale)}`,
+        lines: [de ? 'deine Buchung ist eingegangen.' : 'your booking has been confirmed.', '', ...bookingLines(template.booking, locale)]
+      };
+    case 'BOOKING_CHANGED_BY_ADMIN':
+      return {
+        subject: de ? `Buchung geändert: ${template.after.resourceName} am ${formatMailDate(template.after.date, locale)}` : `Booking changed: ${template.after.resourceName} on ${formatMailDate(template.after.date, locale)}`,
+        lines: [
+          de ? `${template.actorName} hat deine Buchung geändert.` : `${template.actorName} has changed your booking.`,
+          '',
+          de ? 'Bisher:' : 'Before:',
+          ...bookingLines(template.before, locale),
+          '',
+          de ? 'Neu:' : 'Now:',
+          ...bookingLines(template.after, locale)
+        ]
+      };
+    case 'BOOKING_CANCELLED':
+      return {
+        subject: de ? `Buchung storniert: ${template.booking.resourceName} am ${formatMailDate(template.booking.date, locale)}` : `Booking cancelled: ${template.booking.resourceName} on ${formatMailDate(template.booking.date, locale)}`,
+        lines: [
+          template.actorName
+            ? (de ? `${template.actorName} hat deine Buchung storniert.` : `${template.actorName} has cancelled your booking.`)
+            : (de ? 'du hast deine Buchung storniert.' : 'you have cancelled your booking.'),
+          ...(template.reason ? [de ? `Grund: ${template.reason}` : `Reason: ${template.reason}`] : []),
+          '',
+          ...bookingLines(template.booking, locale)
+        ]
+      };
+    case 'BOOKING_RELEASED':
+      return {
+        subject: de ? `Buchung freigegeben: ${template.booking.resourceName} am ${formatMailDate(template.booking.date, locale)}` : `Booking released: ${template.booking.resourceName} on ${formatMailDate(template.booking.date, locale)}`,
+        lines: [
+          de
+            ? `deine Buchung wurde automatisch freigegeben, weil innerhalb von ${template.graceMinutes} Minuten nach Beginn nicht eingecheckt wurde.`
+            : `your booking was released automatically because nobody checked in within ${template.graceMinutes} minutes of its start.`,
+          '',
+          ...bookingLines(template.booking, locale)
+        ]
+      };
+    case 'SERIES_CREATED':
+      return {
+        subject: de ? `Serienbuchung angelegt: ${template.booking.resourceName}` : `Recurring booking created: ${template.booking.resourceName}`,
+        lines: [
+          de
+            ? `deine Serienbuchung vom ${formatMailDate(template.startDate, locale)} bis ${formatMailDate(template.endDate, locale)} wurde angelegt.`
+            : `your recurring booking from ${formatMailDate(template.startDate, locale)} to ${formatMailDate(template.endDate, locale)} has been created.`,
+          '',
+          `${de ? 'Ressource' : 'Resource'}: ${describeResource(template.booking, locale)}`,
+          `${de ? 'Zeitraum' : 'Time'}: ${formatWindow(template.booking.window, locale)}`,
+          `${de ? 'Gebuchte Termine' : 'Booked dates'}: ${template.createdCount}`,
+          ...(template.skippedDates.length > 0
+            ? [`${de ? 'Übersprungen' : 'Skipped'}: ${template.skippedDates.map((date) => formatMailDate(date, locale)).join('; ')}`]
+            : [])
+        ]
+      };
+    case 'SERIES_CANCELLED':
+      return {
+        subject: de ? `Serienbuchung storniert: ${template.booking.resourceName}` : `Recurring booking cancelled: ${template.booking.resourceName}`,
+        lines: [
+          template.actorName
+            ? (de ? `${template.actorName} hat deine Serienbuchung storniert.` : `${template.actorName} has cancelled your recurring booking.`)
+            : (de ? 'du hast deine Serienbuchung storniert.' : 'you have cancelled your recurring booking.'),
+          '',
+          `${de ? 'Ressource' : 'Resource'}: ${describeResource(template.booking, locale)}`,
+          ...(template.fromDate ? [`${de ? 'Ab' : 'From'}: ${formatMailDate(template.fromDate, locale)}`] : []),
+          `${de ? 'Stornierte Termine' : 'Cancelled dates'}: ${template.cancelledCount}`
+        ]
+      };
+    case 'VISITOR_INVITATION':
+      return {
+        subject: de ? `Ihr Besuch am ${formatMailDate(template.booking.date, locale)}` : `Your visit on ${formatMailDate(template.booking.date, locale)}`,
+        lines: [
+          de ? `${template.hostName} erwartet Sie. Bitte nennen Sie am Empfang diesen Besuchercode:` : `${template.hostName} is expecting you. Please give this visitor code at reception:`,
+          '',
+          `    ${template.code}`,
+          '',
+          ...bookingLines({ ...template.booking, guestName: null }, locale),
+          ...(template.expectedArrivalMinute !== null ? [`${de ? 'Ankunft' : 'Arrival'}: ${formatMinute(template.expectedArrivalMinute)}`] : []),
+          '',
+          de ? 'Der Code gilt einmalig am Tag Ihres Besuchs.' : 'The code can be used once on the day of your visit.'
+        ]
+      };
+    case 'VISITOR_ARRIVED': {
+      const visitor = template.company ? `${template.visitorName} (${template.company})` : template.visitorName;
+      return {
+        subject: de ? `Dein Besuch ist da: ${template.visitorName}` : `Your visitor has arrived: ${template.visitorName}`,
+        lines: [
+          de
+            ? `${visitor} wurde um ${formatMinute(template.arrivedMinute)} Uhr am Empfang angemeldet.`
+            : `${visitor} checked in at reception at ${formatMinute(template.arrivedMinute)}.`,
+          '',
+          ...bookingLines({ ...template.booking, guestName: null }, locale)
+        ]
+      };
+    }
+  }
+};
+
+export const renderMail = (template: MailTemplate, options: { locale: MailLocale; recipientName: string; appTitle: string }): RenderedMail => {
+  const { subject, lines } = renderBody(template, options.locale);
+  return {
+    subject: `[${options.appTitle}] ${subject}`,
+    text: [greeting(options.recipientName, options.locale), '', ...lines, '', '--', signature(options.appTitle, options.locale)].join('\n')
+  };
+};
@@ -0,0 +1,94 @@
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { devUserHeaders, stubPrismaSideEffects, withServer } from './integrationTestServer';
+import { prisma } from './prisma';
+
+type BookingFixture = {
+  id: string;
+  deskId: string;
+  date: Date;
+  bookedFor: 'SELF';
+  userEmail: string;
+  employeeId: string;
+  createdByEmployeeId: string;
+  desk: { kind: 'TISCH' };
+};
+
+const floorplans = [
+  { id: 'fp-1', tenantScope: 'ALL', floorplanTenants: [] },
+  { id: 'fp-2', tenantScope: 'ALL', floorplanTenants: [] },
+  { id: 'fp-tenant-b', tenantScope: 'SELECTED', floorplanTenants: [{ tenantId: 'tenant-b' }] }
+];
+
+const desks = [
+  { id: 'desk-visible', floorplanId: 'fp-1', tenantScope: 'ALL', deskTenants: [] },
+  { id: 'desk-tenant-b', floorplanId: 'fp-1', tenantScope: 'SELECTED', deskTenants: [{ tenantId: 'tenant-b' }] },
+  { id: 'desk-other-floorplan', floorplanId: 'fp-2', tenantScope: 'ALL', deskTenants: [] }
+].map((desk) => ({ ...desk, employeeScope: 'ALL', deskEmployees: [], floorplan: { defaultAllowSeries: true, tenantScope: 'ALL', floorplanTenants: [] } }));
+
+const bookings = new Map<string, BookingFixture>();
+beforeEach(() => {
+  bookings.clear();
+  for (const desk of desks) {
+    bookings.set(`booking-${desk.id}`, {
+      id: `booking-${desk.id}`,
+      deskId: desk.id,
+      date: new Date('2026-11-02T00:00:00.000Z'),
+      bookedFor: 'SELF',
+      userEmail: 'user-a@example.com',
+      employeeId: 'user-a',
+      createdByEmployeeId: 'user-a',
+      desk: { kind: 'TISCH' }
+    });
+  }
+
+  stubPrismaSideEffects();
+  (prisma.floorplan.findUnique as unknown) = async ({ where: { id } }: { where: { id: string } }) => floorplans.find((floorplan) => floorplan.id === id) ?? null;
+  (prisma.desk.findMany as unknown) = async ({ where }: { where: { floorplanId?: string; id?: { in: string[] } } }) => desks.filter((desk) => (
+    where.floorplanId ? desk.floorplanId === where.floorplanId : where.id?.in.includes(desk.id)
+  ));
+  (prisma.employee.findMany as unknown) = async () => [];
+  (prisma.booking.findUnique as unknown) = async ({ where: { id } }: { where: { id: string } }) => bookings.get(id) ?? null;
+  (prisma.booking.findMany as unknown) = async ({ where }: { where?: { id?: { in: string[] } } }) => Array.from(bookings.values()).filter((booking) => !where?.id || where.id.in.includes(booking.id));
+  (prisma.booking.delete as unknown) = async ({ where: { id } }: { where: { id: string } }) => {
+    const booking = bookings.get(id);
+    if (!booking) throw new Error('booking not found');
+    bookings.delete(id);
+    return booking;
+  };
+  (prisma.bookingDelegation.findMany as unknown) = async () => [];
+});
+
+const devHeaders = devUserHeaders('user-a');
+
+test('the stream refuses floorplans of other tenants', async () => {
+  const response = await withServer((baseUrl) => fetch(`${baseUrl}/occupancy/stream?floorplanId=fp-tenant-b&date=2026-11-02`, { headers: devHeaders }));
+  assert.equal(response.status, 403);
+});
+
+test('cancellations only reach subscribers that could see the booking', async () => {
+  const received = await withServer(async (baseUrl) => {
+    const controller = new AbortController();
+    const stream = await fetch(`${baseUrl}/occupancy/stream?floorplanId=fp-1&date=2026-11-02`, { headers: devHeaders, signal: controller.signal });
+    assert.equal(stream.status, 200);
+    const reader = stream.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    for (const bookingId of ['booking-desk-tenant-b', 'booking-desk-other-floorplan', 'booking-desk-visible']) {
+      const response = await fetch(`${baseUrl}/bookings/${bookingId}`, { method: 'DELETE', headers: devHeaders });
+      assert.equal(response.status, 200);
+    }
+
+    while (!text.includes('booking-desk-visible')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+    controller.abort();
+    return text;
+  });
+
+  const events = received.split('\n\n').filter((block) => block.startsWith('event: occupancy'));
+  assert.deepEqual(events.map((block) => JSON.parse(block.split('\ndata: ')[1])), [{ upserted: [], removed: ['booking-desk-visible'] }]);
+});
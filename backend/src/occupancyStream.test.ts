@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createOccupancyStreamHub, formatServerSentEvent, type OccupancyStreamChange, type OccupancyStreamLocation, resolveOccupancyDelta } from './occupancyStream';
+
+const location = (overrides: Partial<OccupancyStreamLocation> = {}): OccupancyStreamLocation => ({ floorplanId: 'fp-1', date: '2026-10-20', deskId: 'desk-1', ...overrides });
+
+const booked = (bookingId: string, overrides: Partial<OccupancyStreamLocation> = {}, previous: OccupancyStreamLocation | null = null): OccupancyStreamChange => ({
+  bookingId,
+  ...location(overrides),
+  previous,
+  booking: { id: bookingId }
+});
+
+test('server-sent events carry the event name and one JSON data line', () => {
+  assert.equal(formatServerSentEvent('occupancy', { removed: ['b1'] }), 'event: occupancy\ndata: {"removed":["b1"]}\n\n');
+});
+
+test('bookings on the subscribed floorplan, day and visible resources are upserted', () => {
+  const subscriber = { floorplanId: 'fp-1', date: '2026-10-20', deskIds: new Set(['desk-1', 'desk-2']) };
+  assert.deepEqual(resolveOccupancyDelta(subscriber, [
+    booked('b1'),
+    booked('b2', { deskId: 'desk-2' }),
+    booked('b3', { date: '2026-10-21' }),
+    booked('b4', { floorplanId: 'fp-2' }),
+    booked('b5', { deskId: 'hidden-desk' })
+  ]), {
+    upserted: [{ deskId: 'desk-1', booking: { id: 'b1' } }, { deskId: 'desk-2', booking: { id: 'b2' } }],
+    removed: []
+  });
+  assert.equal(resolveOccupancyDelta(subscriber, []), null);
+});
+
+test('deleted or moved bookings are only removed where they were visible before', () => {
+  const subscriber = { floorplanId: 'fp-1', date: '2026-10-20', deskIds: new Set(['desk-1', 'desk-2']) };
+  assert.deepEqual(resolveOccupancyDelta(subscriber, [
+    { bookingId: 'b1', previous: location(), booking: null },
+    booked('b2', { date: '2026-10-21' }, location({ deskId: 'desk-2' })),
+    booked('b3', { deskId: 'hidden-desk' }, location()),
+    { bookingId: 'b4', previous: location({ floorplanId: 'fp-2' }), booking: null },
+    { bookingId: 'b5', previous: location({ deskId: 'hidden-desk' }), booking: null },
+    { bookingId: 'b6', previous: null, booking: null },
+    booked('b7', { floorplanId: 'fp-2' }, location({ floorplanId: 'fp-3' }))
+  ]), { upserted: [], removed: ['b1', 'b2', 'b3'] });
+  assert.equal(resolveOccupancyDelta(subscriber, [{ bookingId: 'b8', previous: location({ date: '2026-10-19' }), booking: null }]), null);
+});
+
+test('the hub sends one delta per subscriber until it unsubscribes', () => {
+  const hub = createOccupancyStreamHub();
+  const received: Array<{ event: string; data: unknown }> = [];
+  const unsubscribe = hub.subscribe({ floorplanId: 'fp-1', date: '2026-10-20', deskIds: new Set(['desk-1']), send: (event, data) => received.push({ event, data }) });
+  assert.equal(hub.size(), 1);
+
+  hub.publish([booked('b1'), { bookingId: 'b2', previous: location(), booking: null }]);
+  hub.publish([]);
+  assert.deepEqual(received, [{ event: 'occupancy', data: { upserted: [{ deskId: 'desk-1', booking: { id: 'b1' } }], removed: ['b2'] } }]);
+
+  unsubscribe();
+  hub.publish([booked('b3')]);
+  assert.equal(hub.size(), 0);
+  assert.equal(received.length, 1);
+});
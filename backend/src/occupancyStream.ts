@@ -0,0 +1,70 @@
+// Floorplan/day channels for live occupancy. The hub is in-process: every API instance only pushes the
+// changes it committed itself, which is enough for the single-instance deployment.
+
+export type OccupancyStreamSubscriber = {
+  floorplanId: string;
+  date: string;
+  // Resources the subscriber may see, resolved like GET /occupancy when the stream is opened.
+  deskIds: ReadonlySet<string>;
+  send: (event: string, data: unknown) => void;
+};
+
+export type OccupancyStreamLocation = { floorplanId: string; date: string; deskId: string };
+
+// `booking` is the booking as GET /occupancy renders it, or null once the booking no longer exists.
+// `previous` is where the booking was before the change, null if that is unknown.
+export type OccupancyStreamChange =
+  | { bookingId: string; previous: OccupancyStreamLocation | null; booking: null }
+  | (OccupancyStreamLocation & { bookingId: string; previous: OccupancyStreamLocation | null; booking: Record<string, unknown> });
+
+export type OccupancyStreamDelta = { upserted: Array<{ deskId: string; booking: Record<string, unknown> }>; removed: string[] };
+
+export type OccupancyStreamHub = {
+  subscribe: (subscriber: OccupancyStreamSubscriber) => () => void;
+  size: () => number;
+  publish: (changes: OccupancyStreamChange[]) => void;
+};
+
+export const OCCUPANCY_STREAM_HEARTBEAT_MS = 25_000;
+export const OCCUPANCY_STREAM_RETRY_MS = 5_000;
+
+export const formatServerSentEvent = (event: string, data: unknown): string => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const isVisibleTo = (subscriber: Pick<OccupancyStreamSubscriber, 'floorplanId' | 'date' | 'deskIds'>, location: OccupancyStreamLocation): boolean => (
+  location.floorplanId === subscriber.floorplanId && location.date === subscriber.date && subscriber.deskIds.has(location.deskId)
+);
+
+// A booking that was deleted or moved away is only removed for subscribers that could see it before,
+// so booking ids never reach other floorplans, days or tenants.
+export const resolveOccupancyDelta = (subscriber: Pick<OccupancyStreamSubscriber, 'floorplanId' | 'date' | 'deskIds'>, changes: OccupancyStreamChange[]): OccupancyStreamDelta | null => {
+  const delta: OccupancyStreamDelta = { upserted: [], removed: [] };
+  for (const change of changes) {
+    if (change.booking && isVisibleTo(subscriber, change)) {
+      delta.upserted.push({ deskId: change.deskId, booking: change.booking });
+    } else if (change.previous && isVisibleTo(subscriber, change.previous)) {
+      delta.removed.push(change.bookingId);
+    }
+  }
+  return delta.upserted.length + delta.removed.length > 0 ? delta : null;
+};
+
+export const createOccupancyStreamHub = (): OccupancyStreamHub => {
+  const subscribers = new Set<OccupancyStreamSubscriber>();
+
+  return {
+    subscribe: (subscriber) => {
+      subscribers.add(subscriber);
+      return () => {
+        subscribers.delete(subscriber);
+      };
+    },
+    size: () => subscribers.size,
+    publish: (changes) => {
+      if (changes.length === 0) return;
+      for (const subscriber of subscribers) {
+        const delta = resolveOccupancyDelta(subscriber, changes);
+        if (delta) subscriber.send('occupancy', delta);
+      }
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import test from 'node:test';
+import { buildOpenApiDocument, compileRouteSpecs, HTTP_METHODS, matchRouteSpec, type RouteSpecTable, validateRouteRequest } from './openapi';
+import { routeSpecs } from './routeSpecs';
+import { s } from './schema';
+
+const table: RouteSpecTable = {
+  'GET /bookings/:id': { summary: 'Booking', tags: ['Bookings'], auth: 'user', params: s.object({ id: s.id() }), responses: { 200: { description: 'Booking' } } },
+  'POST /bookings/range': { summary: 'Range', tags: ['Bookings'], auth: 'user', body: s.object({ from: s.date() }), responses: { 201: { description: 'Created' } } },
+  'POST /bookings/:id/cancel': { summary: 'Cancel', tags: ['Bookings'], auth: 'user', params: s.object({ id: s.id() }), responses: { 200: { description: 'Cancelled' } } },
+  'GET /calendar/:token.ics': { summary: 'Feed', tags: ['Calendar'], auth: 'public', params: s.object({ token: s.string() }), responses: { 200: { description: 'Feed', contentType: 'text/calendar' } } },
+  'GET /room-display': { summary: 'Display', tags: ['Room displays'], auth: 'roomDisplay', responses: { 200: { description: 'Display state' } } }
+};
+
+test('every registered route has a spec and every spec a route', () => {
+  const source = readFileSync(join(__dirname, 'index.ts'), 'utf8');
+  const routePattern = new RegExp(`^app\\.(${HTTP_METHODS.map((method) => method.toLowerCase()).join('|')})\\('([^']+)'`, 'gm');
+  const registered = [...source.matchAll(routePattern)].map(([, method, path]) => `${method.toUpperCase()} ${path}`);
+  assert.ok(registered.length > 100);
+  assert.deepEqual(registered.filter((key) => !routeSpecs[key]), []);
+  assert.deepEqual(Object.keys(routeSpecs).filter((key) => !registered.includes(key)), []);
+});
+
+test('requests are matched to specs like Express matches routes', () => {
+  const compiled = compileRouteSpecs(table);
+  assert.equal(matchRouteSpec(compiled, 'post', '/bookings/range')?.route.key, 'POST /bookings/range');
+  assert.deepEqual(matchRouteSpec(compiled, 'POST', '/Bookings/b%201/cancel/')?.params, { id: 'b 1' });
+  assert.deepEqual(matchRouteSpec(compiled, 'GET', '/calendar/abc.ics')?.params, { token: 'abc' });
+  assert.equal(matchRouteSpec(compiled, 'DELETE', '/bookings/b1'), null);
+  assert.equal(matchRouteSpec(compiled, 'GET', '/calendar/abc'), null);
+
+  assert.deepEqual(validateRouteRequest(table['POST /bookings/range'], { params: {}, query: {}, body: { from: 'tomorrow' } }), [
+    { path: 'body.from', message: 'muss im Format YYYY-MM-DD sein' }
+  ]);
+});
+
+test('the document lists operations with parameters, bodies and error responses', () => {
+  const document = buildOpenApiDocument(table, { title: 'RB-MS API', version: '1.0.0' }) as {
+    openapi: string;
+    paths: Record<string, Record<string, { operationId: string; security?: unknown[]; parameters?: unknown[]; requestBody?: unknown; responses: Record<string, unknown> }>>;
+    components: { schemas: Record<string, unknown> };
+  };
+  assert.equal(document.openapi, '3.1.0');
+  assert.deepEqual(Object.keys(document.paths), ['/bookings/{id}', '/bookings/range', '/bookings/{id}/cancel', '/calendar/{token}.ics', '/room-display']);
+
+  const cancel = document.paths['/bookings/{id}/cancel'].post;
+  assert.equal(cancel.operationId, 'postBookingsByIdCancel');
+  assert.deepEqual(cancel.parameters, [{ name: 'id', in: 'path', required: true, schema: { type: 'string', minLength: 1 } }]);
+  assert.deepEqual(Object.keys(cancel.responses).sort(), ['200', '400', '401', '404']);
+
+  const range = document.paths['/bookings/range'].post;
+  assert.deepEqual(range.requestBody, { required: true, content: { 'application/json': { schema: { type: 'object', properties: { from: { type: 'string', format: 'date', pattern: '^\\d{4}-\\d{2}-\\d{2}$' } }, required: ['from'] } } } });
+
+  assert.deepEqual(document.paths['/calendar/{token}.ics'].get.security, []);
+  assert.deepEqual(document.paths['/room-display'].get.security, [{ roomDisplay: [] }]);
+  assert.ok(document.components.schemas.ErrorEnvelope);
+});
+
+test('the full route table renders', () => {
+  const document = buildOpenApiDocument(routeSpecs, { title: 'RB-MS API', version: '1.0.0' }) as { paths: Record<string, unknown>; components: { schemas: Record<string, unknown> } };
+  assert.ok(document.paths['/admin/webhooks/{id}/deliveries']);
+  assert.ok(document.components.schemas.Booking);
+  assert.doesNotThrow(() => JSON.stringify(document));
+});
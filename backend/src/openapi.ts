@@ -0,0 +1,167 @@
+import { type JsonSchema, type JsonSchemaContext, type ObjectSchema, type Schema, type SchemaIssue, validate } from './schema';
+import { errorEnvelopeSchema } from './httpErrors';
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+// `user` routes need a session or API token, `admin` routes additionally the admin role. `roomDisplay`
+// routes are called by room tablets with their device token instead of a user.
+export type RouteAuth = 'public' | 'user' | 'admin' | 'roomDisplay';
+
+export type RouteResponseSpec = { description: string; schema?: Schema; contentType?: string };
+
+export type RouteSpec = {
+  summary: string;
+  tags: string[];
+  auth: RouteAuth;
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+  body?: Schema;
+  responses: Record<number, RouteResponseSpec>;
+};
+
+// Keyed by "<METHOD> <express path>", e.g. "PATCH /admin/teams/:id".
+export type RouteSpecTable = Record<string, RouteSpec>;
+
+export type CompiledRouteSpec = { key: string; method: HttpMethod; path: string; pattern: RegExp; paramNames: string[]; spec: RouteSpec };
+
+const PATH_PARAM_PATTERN = /:(\w+)/g;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const parseRouteKey = (key: string): { method: HttpMethod; path: string } => {
+  const [method, path] = key.split(' ');
+  if (!(HTTP_METHODS as readonly string[]).includes(method) || !path?.startsWith('/')) throw new Error(`Invalid route key: ${key}`);
+  return { method: method as HttpMethod, path };
+};
+
+// Mirrors Express defaults: case-insensitive and tolerant of a trailing slash.
+const compilePath = (path: string): { pattern: RegExp; paramNames: string[] } => {
+  const paramNames: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+  for (const match of path.matchAll(PATH_PARAM_PATTERN)) {
+    source += `${escapeRegExp(path.slice(lastIndex, match.index))}([^/]+?)`;
+    paramNames.push(match[1]);
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  source += escapeRegExp(path.slice(lastIndex));
+  return { pattern: new RegExp(`^${source}/?$`, 'i'), paramNames };
+};
+
+// Static segments win over parameters so "/bookings/range" is not mistaken for "/bookings/:id".
+const compareSpecificity = (left: string, right: string): number => {
+  const leftSegments = left.split('/');
+  const rightSegments = right.split('/');
+  for (let index = 0; index < Math.min(leftSegments.length, rightSegments.length); index += 1) {
+    const leftIsParam = leftSegments[index].startsWith(':');
+    const rightIsParam = rightSegments[index].startsWith(':');
+    if (leftIsParam !== rightIsParam) return leftIsParam ? 1 : -1;
+  }
+  return 0;
+};
+
+export const compileRouteSpecs = (table: RouteSpecTable): CompiledRouteSpec[] => Object.entries(table)
+  .map(([key, spec]) => {
+    const { method, path } = parseRouteKey(key);
+    return { key, method, path, ...compilePath(path), spec };
+  })
+  .sort((left, right) => compareSpecificity(left.path, right.path));
+
+export const matchRouteSpec = (compiled: CompiledRouteSpec[], method: string, path: string): { route: CompiledRouteSpec; params: Record<string, string> } | null => {
+  const upperMethod = method.toUpperCase();
+  for (const route of compiled) {
+    if (route.method !== upperMethod) continue;
+    const match = route.pattern.exec(path);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    route.paramNames.forEach((name, index) => {
+      try {
+        params[name] = decodeURIComponent(match[index + 1]);
+      } catch {
+        params[name] = match[index + 1];
+      }
+    });
+    return { route, params };
+  }
+  return null;
+};
+
+export const validateRouteRequest = (spec: RouteSpec, input: { params: unknown; query: unknown; body: unknown }): SchemaIssue[] => [
+  ...(spec.params ? validate(spec.params, input.params, 'params') : []),
+  ...(spec.query ? validate(spec.query, input.query, 'query') : []),
+  ...(spec.body ? validate(spec.body, input.body, 'body') : [])
+];
+
+// Lists "<METHOD> <path>" for every route registered on an Express app, in registration order.
+const toOpenApiPath = (path: string): string => path.replace(PATH_PARAM_PATTERN, '{$1}');
+
+const toOperationId = (method: HttpMethod, path: string): string => {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .flatMap((segment) => (segment.startsWith(':') ? ['by', ...segment.slice(1).split(/[^A-Za-z0-9]+/)] : segment.split(/[^A-Za-z0-9]+/)))
+    .filter(Boolean);
+  return [method.toLowerCase(), ...words.map((word) => word[0].toUpperCase() + word.slice(1))].join('');
+};
+
+const toParameters = (location: 'path' | 'query', schema: ObjectSchema | undefined, context: JsonSchemaContext): JsonSchema[] => Object.entries(schema?.shape ?? {}).map(([name, fieldSchema]) => {
+  const { description, ...fieldJson } = fieldSchema.toJsonSchema(context);
+  return {
+    name,
+    in: location,
+    required: location === 'path' || !fieldSchema.isOptional,
+    ...(description ? { description } : {}),
+    schema: fieldJson
+  };
+});
+
+const toResponse = (response: RouteResponseSpec, context: JsonSchemaContext): JsonSchema => ({
+  description: response.description,
+  ...(response.schema || response.contentType
+    ? { content: { [response.contentType ?? 'application/json']: response.schema ? { schema: response.schema.toJsonSchema(context) } : {} } }
+    : {})
+});
+
+export const buildOpenApiDocument = (table: RouteSpecTable, info: { title: string; version: string; description?: string }): JsonSchema => {
+  const context: JsonSchemaContext = { components: {} };
+  const errorResponse = (description: string): JsonSchema => ({ description, content: { 'application/json': { schema: errorEnvelopeSchema.toJsonSchema(context) } } });
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const [key, spec] of Object.entries(table)) {
+    const { method, path } = parseRouteKey(key);
+    const responses: Record<string, JsonSchema> = Object.fromEntries(Object.entries(spec.responses).map(([status, response]) => [status, toResponse(response, context)]));
+    if (spec.params || spec.query || spec.body) responses['400'] ??= errorResponse('Request failed validation');
+    if (spec.auth !== 'public') responses['401'] ??= errorResponse('Authentication required');
+    if (spec.auth === 'admin') responses['403'] ??= errorResponse('Admin role or scope required');
+    if (spec.params) responses['404'] ??= errorResponse('Not found');
+
+    const parameters = [...toParameters('path', spec.params, context), ...toParameters('query', spec.query, context)];
+    paths[toOpenApiPath(path)] ??= {};
+    paths[toOpenApiPath(path)][method.toLowerCase()] = {
+      operationId: toOperationId(method, path),
+      summary: spec.summary,
+      tags: spec.tags,
+      ...(spec.auth === 'public' ? { security: [] } : {}),
+      ...(spec.auth === 'roomDisplay' ? { security: [{ roomDisplay: [] }] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(spec.body ? { requestBody: { required: !spec.body.isOptional, content: { 'application/json': { schema: spec.body.toJsonSchema(context) } } } } : {}),
+      responses
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas: context.components,
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: 'rbms_session' },
+        apiToken: { type: 'http', scheme: 'bearer', description: 'Personal or service account token (rbms_…)' },
+        roomDisplay: { type: 'apiKey', in: 'header', name: 'x-room-display-token', description: 'Room display device token (rbmsd_…)' }
+      }
+    },
+    security: [{ session: [] }, { apiToken: [] }]
+  };
+};
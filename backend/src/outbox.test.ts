@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { OUTBOX_MAX_ATTEMPTS, outboxRetryDelayMs, resolveOutboxOutcome } from './outbox';
+
+test('retry delay doubles per attempt and is capped at six hours', () => {
+  assert.equal(outboxRetryDelayMs(1), 60_000);
+  assert.equal(outboxRetryDelayMs(2), 120_000);
+  assert.equal(outboxRetryDelayMs(4), 480_000);
+  assert.equal(outboxRetryDelayMs(20), 6 * 60 * 60_000);
+});
+
+test('outbox outcome retries transient errors until the attempt limit', () => {
+  const now = new Date('2026-10-20T08:00:00.000Z');
+  assert.deepEqual(resolveOutboxOutcome({ attempts: 1, error: null, now }), { status: 'SENT', processedAt: now, lastError: null });
+
+  const retry = resolveOutboxOutcome({ attempts: 3, error: { message: 'connection refused' }, now });
+  assert.equal(retry.status, 'PENDING');
+  assert.equal(retry.status === 'PENDING' && retry.nextAttemptAt.toISOString(), '2026-10-20T08:04:00.000Z');
+
+  assert.equal(resolveOutboxOutcome({ attempts: 1, error: { message: '550 no such user', permanent: true }, now }).status, 'FAILED');
+  assert.equal(resolveOutboxOutcome({ attempts: OUTBOX_MAX_ATTEMPTS, error: { message: 'timeout' }, now }).status, 'FAILED');
+});
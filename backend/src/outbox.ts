@@ -0,0 +1,23 @@
+export const OUTBOX_MAX_ATTEMPTS = 8;
+export const OUTBOX_BATCH_SIZE = 20;
+// A claimed message is locked this long; a worker that dies mid-send releases it by timing out.
+export const OUTBOX_LEASE_MS = 5 * 60_000;
+
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 6 * 60 * 60_000;
+
+// 1, 2, 4, 8 … minutes after the n-th failed attempt, capped at six hours.
+export const outboxRetryDelayMs = (attempts: number): number => Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+
+export type OutboxOutcome =
+  | { status: 'SENT'; processedAt: Date; lastError: null }
+  | { status: 'PENDING'; nextAttemptAt: Date; lastError: string }
+  | { status: 'FAILED'; processedAt: Date; lastError: string };
+
+// `attempts` already includes the attempt that just finished.
+export const resolveOutboxOutcome = (params: { attempts: number; error: { message: string; permanent?: boolean } | null; now: Date }): OutboxOutcome => {
+  if (!params.error) return { status: 'SENT', processedAt: params.now, lastError: null };
+  const lastError = params.error.message.slice(0, 1000);
+  if (params.error.permanent || params.attempts >= OUTBOX_MAX_ATTEMPTS) return { status: 'FAILED', processedAt: params.now, lastError };
+  return { status: 'PENDING', nextAttemptAt: new Date(params.now.getTime() + outboxRetryDelayMs(params.attempts)), lastError };
+};
@@ -1,6 +1,6 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
-import { buildParkingAssignmentProposal, windowsOverlap } from './parkingAssignment';
+import { buildParkingAssignmentProposal, buildParkingWeekProposal, type ParkingWeekDay, windowsOverlap } from './parkingAssignment';
 
 test('parking time conflicts treat touching end/start as non-overlap', () => {
   assert.equal(windowsOverlap({ startMinute: 8 * 60, endMinute: 10 * 60 }, { startMinute: 10 * 60, endMinute: 12 * 60 }), false);
@@ -189,3 +189,65 @@ test('no proposal when split and fallback are impossible', () => {
 
   assert.equal(proposal.type, 'none');
 });
+
+const weekDay = (date: string, overrides: Partial<ParkingWeekDay> = {}): ParkingWeekDay => ({
+  date,
+  startMinute: 8 * 60,
+  attendanceMinutes: 8 * 60,
+  chargingMinutes: 0,
+  bookings: [],
+  ...overrides
+});
+
+const deskIdsPerDay = (proposal: ReturnType<typeof buildParkingWeekProposal>) => proposal.days.map((day) => (
+  day.proposal.type === 'none' ? day.proposal.reason : day.proposal.bookings.map((booking) => booking.deskId).join('+')
+));
+
+test('week planning keeps the spot that is free on most days instead of the first free one per day', () => {
+  const proposal = buildParkingWeekProposal({
+    spots: [{ id: 'regular-1', hasCharger: false }, { id: 'regular-2', hasCharger: false }, { id: 'charger-1', hasCharger: true }],
+    days: [
+      weekDay('2026-10-21'),
+      weekDay('2026-10-19', { bookings: [{ deskId: 'regular-1', startMinute: 9 * 60, endMinute: 10 * 60 }] }),
+      weekDay('2026-10-20')
+    ]
+  });
+
+  assert.equal(proposal.homeSpotId, 'regular-2');
+  assert.equal(proposal.homeChargerId, null);
+  assert.deepEqual(proposal.days.map((day) => day.date), ['2026-10-19', '2026-10-20', '2026-10-21']);
+  assert.deepEqual(deskIdsPerDay(proposal), ['regular-2', 'regular-2', 'regular-2']);
+});
+
+test('week planning switches between the same charger and home spot and spreads load over chargers', () => {
+  const proposal = buildParkingWeekProposal({
+    spots: [{ id: 'charger-1', hasCharger: true }, { id: 'charger-2', hasCharger: true }, { id: 'regular-1', hasCharger: false }],
+    days: [
+      weekDay('2026-10-19', { chargingMinutes: 120, bookings: [{ deskId: 'charger-1', startMinute: 12 * 60, endMinute: 16 * 60 }] }),
+      weekDay('2026-10-20', { chargingMinutes: 120 })
+    ]
+  });
+
+  assert.equal(proposal.homeSpotId, 'regular-1');
+  assert.equal(proposal.homeChargerId, 'charger-2');
+  assert.deepEqual(deskIdsPerDay(proposal), ['charger-2+regular-1', 'charger-2+regular-1']);
+  assert.deepEqual(proposal.days.map((day) => day.chargingMinutes), [120, 120]);
+});
+
+test('week planning shortens or drops charging only on the day where chargers are scarce', () => {
+  const proposal = buildParkingWeekProposal({
+    spots: [{ id: 'charger-1', hasCharger: true }, { id: 'regular-1', hasCharger: false }],
+    days: [
+      weekDay('2026-10-19', { chargingMinutes: 120, bookings: [{ deskId: 'charger-1', startMinute: 8 * 60, endMinute: 15 * 60 + 30 }] }),
+      weekDay('2026-10-20', { chargingMinutes: 120 }),
+      weekDay('2026-10-21', { chargingMinutes: 120, bookings: [{ deskId: 'charger-1', startMinute: 0, endMinute: 24 * 60 }] }),
+      weekDay('2026-10-22', { bookings: [{ deskId: 'charger-1', startMinute: 0, endMinute: 24 * 60 }, { deskId: 'regular-1', startMinute: 7 * 60, endMinute: 9 * 60 }] })
+    ]
+  });
+
+  assert.deepEqual(proposal.days.map((day) => [day.requestedChargingMinutes, day.chargingMinutes]), [[120, 30], [120, 120], [120, 0], [0, 0]]);
+  assert.deepEqual(deskIdsPerDay(proposal), ['regular-1+charger-1', 'charger-1+regular-1', 'regular-1', 'NO_PARKING']);
+  const [monday] = proposal.days;
+  assert.ok(monday.proposal.type === 'split');
+  assert.deepEqual(monday.proposal.bookings.map((booking) => [booking.startMinute, booking.endMinute]), [[8 * 60, 15 * 60 + 30], [15 * 60 + 30, 16 * 60]]);
+});
@@ -254,3 +254,100 @@ export const buildParkingAssignmentProposal = ({
 
   return { type: 'none', reason: chargerWindowFound ? 'NO_SPLIT_AND_NO_FALLBACK' : 'NO_CHARGER_WINDOW' };
 };
+
+// Same step the single-day proposal uses when the requested charging window is not free.
+export const PARKING_CHARGING_STEP_MINUTES = 30;
+export const MAX_PARKING_WEEK_DAYS = 7;
+
+export type ParkingWeekDay = {
+  date: string;
+  startMinute: number;
+  attendanceMinutes: number;
+  chargingMinutes: number;
+  // Existing bookings and closures of that day, as for the single-day proposal.
+  bookings: ParkingBooking[];
+};
+
+export type ParkingWeekDayProposal = {
+  date: string;
+  requestedChargingMinutes: number;
+  chargingMinutes: number;
+  proposal: ParkingAssignmentProposal;
+};
+
+export type ParkingWeekProposal = {
+  homeSpotId: string | null;
+  homeChargerId: string | null;
+  days: ParkingWeekDayProposal[];
+};
+
+const stayWindow = (day: ParkingWeekDay): ParkingWindow => ({ startMinute: day.startMinute, endMinute: day.startMinute + day.attendanceMinutes });
+
+const bookedMinutes = (spotId: string, bookings: ParkingBooking[]): number => bookings
+  .filter((booking) => booking.deskId === spotId)
+  .reduce((sum, booking) => sum + Math.max(0, booking.endMinute - booking.startMinute), 0);
+
+// The spot that is free for the whole stay on most of the given days. Ties go to regular spots, so chargers stay
+// available for people who need them, then to the less busy spot and finally to spot order.
+const pickHomeSpot = (spots: ParkingSpot[], days: ParkingWeekDay[]): ParkingSpot | null => {
+  const ranked = spots
+    .map((spot, index) => ({
+      spot,
+      index,
+      freeDays: days.filter((day) => isSpotFree(spot.id, stayWindow(day), day.bookings)).length,
+      load: days.reduce((sum, day) => sum + bookedMinutes(spot.id, day.bookings), 0)
+    }))
+    .filter((entry) => entry.freeDays > 0)
+    .sort((left, right) => right.freeDays - left.freeDays || Number(left.spot.hasCharger) - Number(right.spot.hasCharger) || left.load - right.load || left.index - right.index);
+  return ranked[0]?.spot ?? null;
+};
+
+const planParkingDay = (day: ParkingWeekDay, spots: ParkingSpot[]): ParkingWeekDayProposal => {
+  const requestedChargingMinutes = Math.min(day.attendanceMinutes, Math.max(0, Math.floor(day.chargingMinutes)));
+  const propose = (chargingMinutes: number) => buildParkingAssignmentProposal({
+    startMinute: day.startMinute,
+    attendanceMinutes: day.attendanceMinutes,
+    chargingMinutes,
+    spots,
+    bookings: day.bookings
+  });
+
+  const chargingCandidates = requestedChargingMinutes > 0 ? [requestedChargingMinutes] : [];
+  for (let candidate = requestedChargingMinutes - PARKING_CHARGING_STEP_MINUTES; candidate >= PARKING_CHARGING_STEP_MINUTES; candidate -= PARKING_CHARGING_STEP_MINUTES) chargingCandidates.push(candidate);
+  for (const chargingMinutes of chargingCandidates) {
+    const proposal = propose(chargingMinutes);
+    if (proposal.type !== 'none') return { date: day.date, requestedChargingMinutes, chargingMinutes, proposal };
+  }
+
+  return { date: day.date, requestedChargingMinutes, chargingMinutes: 0, proposal: propose(0) };
+};
+
+// Plans several days at once. Every day is still solved by buildParkingAssignmentProposal, which takes the first
+// fitting spot in the given order; the week planner only decides that order:
+// - the home spot (free on most days, regular before charger) comes first, so the commuter keeps one spot,
+// - on charging days the home charger follows, so a split switches between the same two spots all week,
+// - all other spots are ordered by how busy they already are that day, which spreads charging over all chargers
+//   instead of filling the first one,
+// - a charging request that does not fit is shortened in 30 minute steps on that day only, and dropped as a last
+//   resort, so one scarce day does not cost the charging time of the others.
+export const buildParkingWeekProposal = ({ days, spots }: { days: ParkingWeekDay[]; spots: ParkingSpot[] }): ParkingWeekProposal => {
+  const homeSpot = pickHomeSpot(spots, days);
+  const chargingDays = days.filter((day) => day.chargingMinutes > 0);
+  const homeCharger = chargingDays.length > 0 ? pickHomeSpot(spots.filter((spot) => spot.hasCharger), chargingDays) : null;
+  const preferred = [homeSpot, homeCharger].filter((spot, index, list): spot is ParkingSpot => spot !== null && list.indexOf(spot) === index);
+
+  return {
+    homeSpotId: homeSpot?.id ?? null,
+    homeChargerId: homeCharger?.id ?? null,
+    days: [...days]
+      .sort((left, right) => left.date.localeCompare(right.date))
+      .map((day) => {
+        const others = spots
+          .filter((spot) => !preferred.includes(spot))
+          .map((spot, index) => ({ spot, index, load: bookedMinutes(spot.id, day.bookings) }))
+          .sort((left, right) => left.load - right.load || left.index - right.index)
+          .map((entry) => entry.spot);
+        return planParkingDay(day, [...preferred, ...others]);
+      })
+  };
+};
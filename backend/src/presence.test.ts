@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { parseEmployeeIdList, parsePresenceRange, pickNearestResource, startOfWeek } from './presence';
+
+test('presence range defaults to the working week and rejects long or inverted ranges', () => {
+  assert.equal(startOfWeek('2026-10-21'), '2026-10-19');
+  assert.equal(startOfWeek('2026-10-25'), '2026-10-19');
+
+  const week = parsePresenceRange(undefined, undefined, '2026-10-21');
+  assert.ok(week.ok);
+  assert.deepEqual(week.value.dates, ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23']);
+
+  const custom = parsePresenceRange('2026-12-30', '2027-01-02', '2026-10-21');
+  assert.ok(custom.ok);
+  assert.deepEqual(custom.value.dates, ['2026-12-30', '2026-12-31', '2027-01-01', '2027-01-02']);
+
+  assert.equal(parsePresenceRange('2026-10-23', '2026-10-19', '2026-10-21').ok, false);
+  assert.equal(parsePresenceRange('2026-10-01', '2026-11-15', '2026-10-21').ok, false);
+  assert.equal(parsePresenceRange('2026-02-30', undefined, '2026-10-21').ok, false);
+});
+
+test('employee id lists accept comma strings and arrays', () => {
+  assert.deepEqual(parseEmployeeIdList('emp-1, emp-2,,emp-1'), { ok: true, value: ['emp-1', 'emp-2'] });
+  assert.deepEqual(parseEmployeeIdList(['emp-3']), { ok: true, value: ['emp-3'] });
+  assert.deepEqual(parseEmployeeIdList(undefined), { ok: true, value: [] });
+  assert.equal(parseEmployeeIdList([1]).ok, false);
+  assert.equal(parseEmployeeIdList(Array.from({ length: 51 }, (_, index) => `emp-${index}`)).ok, false);
+});
+
+test('the nearest free resource next to a colleague is picked by distance', () => {
+  const target = { id: 'desk-1', x: 100, y: 100 };
+  const candidates = [
+    { id: 'desk-1', x: 100, y: 100 },
+    { id: 'desk-far', x: 400, y: 100 },
+    { id: 'desk-unplaced', x: null, y: null },
+    { id: 'desk-near', x: 130, y: 120 }
+  ];
+  assert.equal(pickNearestResource(target, candidates)?.id, 'desk-near');
+  assert.equal(pickNearestResource({ id: 'desk-1', x: null, y: null }, candidates)?.id, 'desk-far');
+  assert.equal(pickNearestResource(target, [{ id: 'desk-unplaced', x: null, y: null }])?.id, 'desk-unplaced');
+  assert.equal(pickNearestResource(target, [target]), null);
+});
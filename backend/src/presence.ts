@@ -0,0 +1,71 @@
+export const MAX_PRESENCE_RANGE_DAYS = 31;
+export const MAX_PRESENCE_EMPLOYEES = 50;
+export const MAX_FOLLOWED_EMPLOYEES = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type PresenceRange = { from: string; to: string; dates: string[] };
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const isValidDate = (value: string): boolean => DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00.000Z`).getTime()) && new Date(`${value}T00:00:00.000Z`).toISOString().slice(0, 10) === value;
+
+// Monday of the week that contains the given date.
+export const startOfWeek = (date: string): string => {
+  const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return addDays(date, weekday === 0 ? -6 : 1 - weekday);
+};
+
+// Without parameters the range is the working week (Mon–Fri) around today.
+export const parsePresenceRange = (from: unknown, to: unknown, today: string): { ok: true; value: PresenceRange } | { ok: false; message: string } => {
+  const hasFrom = typeof from === 'string' && from.length > 0;
+  const hasTo = typeof to === 'string' && to.length > 0;
+  if (hasFrom && !isValidDate(from)) return { ok: false, message: 'from muss im Format YYYY-MM-DD sein' };
+  if (hasTo && !isValidDate(to)) return { ok: false, message: 'to muss im Format YYYY-MM-DD sein' };
+
+  const start = hasFrom ? from : startOfWeek(today);
+  const end = hasTo ? to : addDays(start, 4);
+  if (end < start) return { ok: false, message: 'to darf nicht vor from liegen' };
+
+  const dates: string[] = [];
+  for (let cursor = start; cursor <= end; cursor = addDays(cursor, 1)) {
+    if (dates.length === MAX_PRESENCE_RANGE_DAYS) return { ok: false, message: `Der Zeitraum darf höchstens ${MAX_PRESENCE_RANGE_DAYS} Tage umfassen` };
+    dates.push(cursor);
+  }
+  return { ok: true, value: { from: start, to: end, dates } };
+};
+
+// Accepts `a,b,c` from a query string or a JSON array; blanks and duplicates are dropped.
+export const parseEmployeeIdList = (value: unknown): { ok: true; value: string[] } | { ok: false; message: string } => {
+  if (value === undefined || value === null || value === '') return { ok: true, value: [] };
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!raw || raw.some((entry) => typeof entry !== 'string')) return { ok: false, message: 'employeeIds must be a list of ids' };
+  const ids = Array.from(new Set((raw as string[]).map((entry) => entry.trim()).filter(Boolean)));
+  if (ids.length > MAX_PRESENCE_EMPLOYEES) return { ok: false, message: `at most ${MAX_PRESENCE_EMPLOYEES} employees can be requested at once` };
+  return { ok: true, value: ids };
+};
+
+export type PositionedResource = { id: string; x: number | null; y: number | null };
+
+// Nearest free resource to the colleague's desk; unpositioned candidates are only a fallback.
+export const pickNearestResource = <T extends PositionedResource>(target: PositionedResource, candidates: T[]): T | null => {
+  const others = candidates.filter((candidate) => candidate.id !== target.id);
+  if (others.length === 0) return null;
+  if (target.x === null || target.y === null) return others[0];
+
+  let nearest: T | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+  for (const candidate of others) {
+    if (candidate.x === null || candidate.y === null) continue;
+    const distance = Math.hypot(candidate.x - target.x, candidate.y - target.y);
+    if (distance < nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+  return nearest ?? others[0];
+};
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { encodeQrCode, formatInformationBits, reedSolomonRemainder } from './qrCode';
+
+test('error correction codewords match the version 1-M reference block', () => {
+  const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+  assert.deepEqual(reedSolomonRemainder(data, 10), [196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+});
+
+test('format information encodes level M with its BCH code and fixed mask', () => {
+  assert.equal(formatInformationBits(0).toString(2).padStart(15, '0'), '101010000010010');
+  assert.equal(formatInformationBits(5).toString(2).padStart(15, '0'), '100000011001110');
+});
+
+test('the smallest version that fits the text is chosen and carries the fixed patterns', () => {
+  const short = encodeQrCode('Tisch 1');
+  assert.equal(short.version, 1);
+  assert.equal(short.size, 21);
+  assert.equal(short.modules.length, 21);
+  assert.ok(short.modules.every((row) => row.length === 21));
+
+  const link = encodeQrCode('https://booking.example.de/#/r/cm2k1x0a30001qz8y7example');
+  assert.equal(link.version, 4);
+  const { modules, size } = link;
+  for (const [left, top] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+    assert.equal(modules[top][left], true);
+    assert.equal(modules[top + 1][left + 1], false);
+    assert.equal(modules[top + 3][left + 3], true);
+  }
+  for (let index = 8; index < size - 8; index += 1) {
+    assert.equal(modules[6][index], index % 2 === 0);
+    assert.equal(modules[index][6], index % 2 === 0);
+  }
+  assert.equal(modules[size - 8][8], true);
+});
+
+test('texts beyond the capacity of version 40 are rejected', () => {
+  assert.equal(encodeQrCode('x'.repeat(2331)).version, 40);
+  assert.throws(() => encodeQrCode('x'.repeat(2332)), /too long/);
+});
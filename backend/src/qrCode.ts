@@ -0,0 +1,313 @@
+// Minimal QR code encoder (ISO/IEC 18004) for the printable resource labels: byte mode, error correction
+// level M, versions 1 to 40, automatic mask selection. Labels only carry short deep links, so there is no
+// numeric/alphanumeric mode and no structured append.
+
+export type QrCode = {
+  version: number;
+  size: number;
+  // modules[y][x], true for a dark module. The quiet zone is not included.
+  modules: boolean[][];
+};
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+// Error correction level M is encoded as 0b00 in the format information.
+const ECC_LEVEL_M_FORMAT_BITS = 0;
+const BYTE_MODE_INDICATOR = 0b0100;
+
+// Indexed by version; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28];
+const ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49];
+
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+const FINDER_LIKE_PATTERNS = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+];
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+const numRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const numDataCodewords = (version: number): number => (
+  Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+);
+
+const characterCountBits = (version: number): number => (version <= 9 ? 8 : 16);
+
+const alignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 17 - 7; result.length < numAlign; position -= step) result.splice(1, 0, position);
+  return result;
+};
+
+const multiplyGf256 = (x: number, y: number): number => {
+  let z = 0;
+  for (let index = 7; index >= 0; index -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> index) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let index = 0; index < degree; index += 1) {
+    for (let coefficient = 0; coefficient < result.length; coefficient += 1) {
+      result[coefficient] = multiplyGf256(result[coefficient], root);
+      if (coefficient + 1 < result.length) result[coefficient] ^= result[coefficient + 1];
+    }
+    root = multiplyGf256(root, 0x02);
+  }
+  return result;
+};
+
+// Error correction codewords for one block of data codewords.
+export const reedSolomonRemainder = (data: number[], degree: number): number[] => {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= multiplyGf256(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+// 15 bit format information for level M and the given mask, already XOR-ed with the fixed mask pattern.
+export const formatInformationBits = (mask: number): number => {
+  const data = (ECC_LEVEL_M_FORMAT_BITS << 3) | mask;
+  let remainder = data;
+  for (let index = 0; index < 10; index += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+const versionInformationBits = (version: number): number => {
+  let remainder = version;
+  for (let index = 0; index < 12; index += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+};
+
+const encodeDataCodewords = (bytes: Buffer, version: number): number[] => {
+  const capacityBits = numDataCodewords(version) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let index = length - 1; index >= 0; index -= 1) bits.push((value >>> index) & 1);
+  };
+
+  append(BYTE_MODE_INDICATOR, 4);
+  append(bytes.length, characterCountBits(version));
+  for (const byte of bytes) append(byte, 8);
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let index = 0; index < bits.length; index += 8) {
+    codewords.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+const addErrorCorrectionAndInterleave = (data: number[], version: number): number[] => {
+  const numBlocks = ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let index = 0; index < numBlocks; index += 1) {
+    const block = data.slice(offset, offset + shortBlockLength - blockEccLength + (index < numShortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, blockEccLength);
+    // Short blocks get a placeholder so all blocks can be interleaved column by column.
+    if (index < numShortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let column = 0; column < blocks[0].length; column += 1) {
+    blocks.forEach((block, index) => {
+      if (column !== shortBlockLength - blockEccLength || index >= numShortBlocks) result.push(block[column]);
+    });
+  }
+  return result;
+};
+
+const applyMask = (modules: boolean[][], isFunction: boolean[][], mask: number) => {
+  const size = modules.length;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      let invert: boolean;
+      switch (mask) {
+        case 0: invert = (x + y) % 2 === 0; break;
+        case 1: invert = y % 2 === 0; break;
+        case 2: invert = x % 3 === 0; break;
+        case 3: invert = (x + y) % 3 === 0; break;
+        case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+        case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+        case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+      }
+      if (invert && !isFunction[y][x]) modules[y][x] = !modules[y][x];
+    }
+  }
+};
+
+const penaltyScore = (modules: boolean[][]): number => {
+  const size = modules.length;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x]))
+  ];
+  let penalty = 0;
+
+  for (const line of lines) {
+    let runLength = 1;
+    for (let index = 1; index <= size; index += 1) {
+      if (index < size && line[index] === line[index - 1]) {
+        runLength += 1;
+        continue;
+      }
+      if (runLength >= 5) penalty += PENALTY_RUN + (runLength - 5);
+      runLength = 1;
+    }
+    for (let index = 0; index + 11 <= size; index += 1) {
+      if (FINDER_LIKE_PATTERNS.some((pattern) => pattern.every((dark, offset) => line[index + offset] === dark))) penalty += PENALTY_FINDER_LIKE;
+    }
+  }
+
+  for (let y = 0; y + 1 < size; y += 1) {
+    for (let x = 0; x + 1 < size; x += 1) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) penalty += PENALTY_BLOCK;
+    }
+  }
+
+  const total = size * size;
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const deviation = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return penalty + Math.max(0, deviation) * PENALTY_BALANCE;
+};
+
+const drawMatrix = (codewords: number[], version: number, mask: number): boolean[][] => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let index = 0; index < size; index += 1) {
+    setFunction(6, index, index % 2 === 0);
+    setFunction(index, 6, index % 2 === 0);
+  }
+
+  for (const [centerX, centerY] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  const alignment = alignmentPatternPositions(version);
+  alignment.forEach((centerX, i) => {
+    alignment.forEach((centerY, j) => {
+      // The three corners already hold finder patterns.
+      const last = alignment.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+
+  const format = formatInformationBits(mask);
+  for (let index = 0; index <= 5; index += 1) setFunction(8, index, getBit(format, index));
+  setFunction(8, 7, getBit(format, 6));
+  setFunction(8, 8, getBit(format, 7));
+  setFunction(7, 8, getBit(format, 8));
+  for (let index = 9; index < 15; index += 1) setFunction(14 - index, 8, getBit(format, index));
+  for (let index = 0; index < 8; index += 1) setFunction(size - 1 - index, 8, getBit(format, index));
+  for (let index = 8; index < 15; index += 1) setFunction(8, size - 15 + index, getBit(format, index));
+  setFunction(8, size - 8, true);
+
+  if (version >= 7) {
+    const versionBits = versionInformationBits(version);
+    for (let index = 0; index < 18; index += 1) {
+      const a = size - 11 + (index % 3);
+      const b = Math.floor(index / 3);
+      setFunction(a, b, getBit(versionBits, index));
+      setFunction(b, a, getBit(versionBits, index));
+    }
+  }
+
+  // Codewords run in two module wide columns from the bottom right, zig-zagging up and down and skipping the
+  // vertical timing pattern.
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let offset = 0; offset < 2; offset += 1) {
+        const x = right - offset;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex += 1;
+        }
+      }
+    }
+  }
+
+  applyMask(modules, isFunction, mask);
+  return modules;
+};
+
+export const encodeQrCode = (text: string): QrCode => {
+  const bytes = Buffer.from(text, 'utf8');
+  let version = MIN_VERSION;
+  while (4 + characterCountBits(version) + bytes.length * 8 > numDataCodewords(version) * 8) {
+    version += 1;
+    if (version > MAX_VERSION) throw new Error('Text is too long for a QR code');
+  }
+
+  const codewords = addErrorCorrectionAndInterleave(encodeDataCodewords(bytes, version), version);
+  let best: boolean[][] | null = null;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8; mask += 1) {
+    const modules = drawMatrix(codewords, version, mask);
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      best = modules;
+      bestPenalty = penalty;
+    }
+  }
+
+  return { version, size: version * 4 + 17, modules: best as boolean[][] };
+};
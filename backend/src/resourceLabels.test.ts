@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { inflateSync } from 'node:zlib';
+import { encodePdfText, renderResourceLabelSheet, resourceDeepLink, type ResourceLabel, wrapLabelText } from './resourceLabels';
+
+const label = (index: number): ResourceLabel => ({ name: `Tisch ${index}`, kind: 'TISCH', floorplanName: 'Büro Süd', url: `https://booking.example.de/#/r/desk-${index}` });
+
+const pageContents = (pdf: Buffer): string[] => {
+  const contents: string[] = [];
+  let offset = 0;
+  for (;;) {
+    const start = pdf.indexOf('>>\nstream\n', offset, 'latin1');
+    if (start < 0) return contents;
+    const end = pdf.indexOf('\nendstream', start, 'latin1');
+    contents.push(inflateSync(pdf.subarray(start + '>>\nstream\n'.length, end)).toString('latin1'));
+    offset = end + 1;
+  }
+};
+
+test('deep links point at the hash route of the configured frontend', () => {
+  assert.equal(resourceDeepLink('https://booking.example.de/', 'desk-1'), 'https://booking.example.de/#/r/desk-1');
+  assert.equal(resourceDeepLink('https://example.de/buchung', 'a b'), 'https://example.de/buchung/#/r/a%20b');
+});
+
+test('pdf text is escaped and encoded as WinAnsi', () => {
+  assert.equal(encodePdfText('Raum (Süd) \\ 2'), 'Raum \\(S\\374d\\) \\\\ 2');
+  assert.equal(encodePdfText('Flur – Nord…'), 'Flur \\226 Nord\\205');
+  assert.equal(encodePdfText('Desk 🚗'), 'Desk ?');
+});
+
+test('long resource names wrap onto two lines and are shortened after that', () => {
+  assert.deepEqual(wrapLabelText('Tisch 12', 11, 2), ['Tisch 12']);
+  assert.deepEqual(wrapLabelText('Großraumbüro Fensterreihe Platz 12 am Eingang', 11, 2), ['Großraumbüro', 'Fensterreihe…']);
+});
+
+test('the label sheet is a valid pdf with 24 labels per page and a correct xref table', () => {
+  const pdf = renderResourceLabelSheet(Array.from({ length: 25 }, (_, index) => label(index + 1)), { title: 'QR-Etiketten Büro Süd' });
+  const text = pdf.toString('latin1');
+  assert.ok(text.startsWith('%PDF-1.4\n'));
+  assert.ok(text.endsWith('%%EOF\n'));
+  assert.match(text, /\/Type \/Pages \/Kids \[5 0 R 7 0 R\] \/Count 2/);
+  assert.match(text, /\/Title \(QR-Etiketten B\\374ro S\\374d\)/);
+
+  const startxref = Number(/startxref\n(\d+)\n/.exec(text)?.[1]);
+  assert.ok(text.slice(startxref).startsWith('xref\n0 10\n'));
+  const offsets = text.slice(startxref).split('\n').slice(3, 12).map((line) => Number(line.slice(0, 10)));
+  offsets.forEach((offset, index) => assert.ok(text.slice(offset).startsWith(`${index + 1} 0 obj\n`)));
+
+  const [first, second] = pageContents(pdf);
+  assert.equal(first.match(/\/F2 11 Tf/g)?.length, 24);
+  assert.equal(second.match(/\/F2 11 Tf/g)?.length, 1);
+  assert.match(second, /\(Tisch 25\) Tj/);
+  assert.match(second, /\(B\\374ro S\\374d\) Tj/);
+  assert.match(second, / re\n/);
+});
@@ -0,0 +1,180 @@
+import { deflateSync } from 'node:zlib';
+import { encodeQrCode } from './qrCode';
+
+// Printable QR stickers for desks and parking spaces. The sheet follows the common 3 x 8 layout of A4 label
+// paper (70 x 37 mm, no gaps), so every label can be cut or peeled off without adjusting the printer. The PDF
+// writer is just enough for rectangles and the built-in Helvetica fonts, which every viewer ships.
+
+export type ResourceLabel = { name: string; kind: string; floorplanName: string; url: string };
+
+export const RESOURCE_LABEL_COLUMNS = 3;
+export const RESOURCE_LABEL_ROWS = 8;
+export const RESOURCE_LABELS_PER_PAGE = RESOURCE_LABEL_COLUMNS * RESOURCE_LABEL_ROWS;
+
+const POINTS_PER_MM = 72 / 25.4;
+const PAGE_WIDTH = 210 * POINTS_PER_MM;
+const PAGE_HEIGHT = 297 * POINTS_PER_MM;
+const LABEL_WIDTH = 70 * POINTS_PER_MM;
+const LABEL_HEIGHT = 37 * POINTS_PER_MM;
+const SHEET_TOP_MARGIN = 0.5 * POINTS_PER_MM;
+const LABEL_PADDING = 4 * POINTS_PER_MM;
+const QR_BOX_SIZE = LABEL_HEIGHT - 2 * LABEL_PADDING;
+const QR_QUIET_ZONE_MODULES = 4;
+const TEXT_GAP = 2 * POINTS_PER_MM;
+const TEXT_WIDTH = LABEL_WIDTH - 2 * LABEL_PADDING - QR_BOX_SIZE - TEXT_GAP;
+// Without font metrics the text is fitted with an average glyph width; Helvetica stays below these factors.
+const AVERAGE_GLYPH_WIDTH = { regular: 0.5, bold: 0.56 };
+
+const RESOURCE_KIND_LABELS: Record<string, string> = { TISCH: 'Tisch', PARKPLATZ: 'Parkplatz', RAUM: 'Raum', SONSTIGES: 'Ressource' };
+const LABEL_HINT_LINES = ['Scannen zum Buchen', 'oder Einchecken'];
+
+// WinAnsiEncoding matches Latin-1 except for the 0x80-0x9f range, which holds the typographic characters.
+const WIN_ANSI_EXTRAS: Record<string, number> = { '€': 0x80, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '–': 0x96, '—': 0x97 };
+
+const formatNumber = (value: number): string => Number(value.toFixed(2)).toString();
+
+export const encodePdfText = (text: string): string => {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    const winAnsi = WIN_ANSI_EXTRAS[char] ?? ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+    if (char === '(' || char === ')' || char === '\\') result += `\\${char}`;
+    else if (winAnsi > 0x7e) result += `\\${winAnsi.toString(8).padStart(3, '0')}`;
+    else result += String.fromCharCode(winAnsi);
+  }
+  return result;
+};
+
+const fitText = (text: string, fontSize: number, weight: keyof typeof AVERAGE_GLYPH_WIDTH): string => {
+  const maxChars = Math.floor(TEXT_WIDTH / (fontSize * AVERAGE_GLYPH_WIDTH[weight]));
+  const chars = Array.from(text);
+  return chars.length <= maxChars ? text : `${chars.slice(0, maxChars - 1).join('').trimEnd()}…`;
+};
+
+// Breaks the resource name at spaces into at most `maxLines` lines; the last line is shortened if needed.
+export const wrapLabelText = (text: string, fontSize: number, maxLines: number): string[] => {
+  const maxChars = Math.floor(TEXT_WIDTH / (fontSize * AVERAGE_GLYPH_WIDTH.bold));
+  const lines: string[] = [];
+  let remaining = text.trim().split(/\s+/).filter(Boolean);
+  while (remaining.length > 0 && lines.length < maxLines) {
+    if (lines.length === maxLines - 1) {
+      lines.push(fitText(remaining.join(' '), fontSize, 'bold'));
+      break;
+    }
+    let line = remaining[0];
+    let used = 1;
+    while (used < remaining.length && Array.from(`${line} ${remaining[used]}`).length <= maxChars) {
+      line = `${line} ${remaining[used]}`;
+      used += 1;
+    }
+    lines.push(fitText(line, fontSize, 'bold'));
+    remaining = remaining.slice(used);
+  }
+  return lines;
+};
+
+const textCommand = (font: 'F1' | 'F2', fontSize: number, x: number, y: number, text: string): string => (
+  `BT /${font} ${fontSize} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${encodePdfText(text)}) Tj ET`
+);
+
+const renderLabel = (label: ResourceLabel, left: number, bottom: number): string[] => {
+  const commands: string[] = [];
+  const qr = encodeQrCode(label.url);
+  const moduleSize = QR_BOX_SIZE / (qr.size + 2 * QR_QUIET_ZONE_MODULES);
+  const qrLeft = left + LABEL_PADDING + QR_QUIET_ZONE_MODULES * moduleSize;
+  const qrTop = bottom + LABEL_PADDING + QR_BOX_SIZE - QR_QUIET_ZONE_MODULES * moduleSize;
+
+  // Horizontal runs of dark modules become one rectangle each, which keeps the content stream small.
+  qr.modules.forEach((row, y) => {
+    for (let x = 0; x < qr.size; x += 1) {
+      if (!row[x]) continue;
+      let end = x;
+      while (end + 1 < qr.size && row[end + 1]) end += 1;
+      commands.push(`${formatNumber(qrLeft + x * moduleSize)} ${formatNumber(qrTop - (y + 1) * moduleSize)} ${formatNumber((end - x + 1) * moduleSize)} ${formatNumber(moduleSize)} re`);
+      x = end;
+    }
+  });
+  commands.push('f');
+
+  const textLeft = left + LABEL_PADDING + QR_BOX_SIZE + TEXT_GAP;
+  let baseline = bottom + LABEL_HEIGHT - LABEL_PADDING - 10;
+  for (const line of wrapLabelText(label.name, 11, 2)) {
+    commands.push(textCommand('F2', 11, textLeft, baseline, line));
+    baseline -= 13;
+  }
+  baseline -= 2;
+  commands.push(textCommand('F1', 8, textLeft, baseline, fitText(RESOURCE_KIND_LABELS[label.kind] ?? label.kind, 8, 'regular')));
+  commands.push(textCommand('F1', 8, textLeft, baseline - 10, fitText(label.floorplanName, 8, 'regular')));
+  LABEL_HINT_LINES.forEach((line, index) => {
+    commands.push(textCommand('F1', 6.5, textLeft, bottom + LABEL_PADDING + (LABEL_HINT_LINES.length - 1 - index) * 8, line));
+  });
+  return commands;
+};
+
+const renderPage = (labels: ResourceLabel[]): string => {
+  const commands = ['0 g'];
+  labels.forEach((label, index) => {
+    const column = index % RESOURCE_LABEL_COLUMNS;
+    const row = Math.floor(index / RESOURCE_LABEL_COLUMNS);
+    commands.push(...renderLabel(label, column * LABEL_WIDTH, PAGE_HEIGHT - SHEET_TOP_MARGIN - (row + 1) * LABEL_HEIGHT));
+  });
+  return commands.join('\n');
+};
+
+export const renderResourceLabelSheet = (labels: ResourceLabel[], options: { title: string }): Buffer => {
+  const pages: ResourceLabel[][] = [];
+  for (let index = 0; index < labels.length; index += RESOURCE_LABELS_PER_PAGE) pages.push(labels.slice(index, index + RESOURCE_LABELS_PER_PAGE));
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-4 are catalog, page tree and both fonts; every page adds a page object and its content stream.
+  const pageObjectId = (index: number) => 5 + index * 2;
+  const infoObjectId = pageObjectId(pages.length);
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'),
+    Buffer.from(`<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`, 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', 'latin1'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', 'latin1')
+  ];
+  pages.forEach((page, index) => {
+    objects.push(Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(PAGE_WIDTH)} ${formatNumber(PAGE_HEIGHT)}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectId(index) + 1} 0 R >>`,
+      'latin1'
+    ));
+    const content = deflateSync(Buffer.from(renderPage(page), 'latin1'));
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream', 'latin1')
+    ]));
+  });
+  objects.push(Buffer.from(`<< /Title (${encodePdfText(options.title)}) >>`, 'latin1'));
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), object, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObjectId} 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+    ''
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(chunks);
+};
+
+// Stickers use the hash route of the SPA, so the link works without any server-side rewrite rules.
+export const resourceDeepLink = (baseUrl: string, resourceId: string): string => `${baseUrl.replace(/\/+$/, '')}/#/r/${encodeURIComponent(resourceId)}`;
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { matchesResourceFilter, parseEquipmentList, type ResourceFilter } from './resourceSearch';
+
+const noFilter: ResourceFilter = { kind: null, minCapacity: null, equipment: [] };
+
+test('equipment lists accept arrays and comma separated query values', () => {
+  assert.equal(parseEquipmentList(['dock', 'MONITOR']).ok, false);
+  assert.deepEqual(parseEquipmentList(' docking_station,MONITOR,monitor'), { ok: true, value: ['MONITOR', 'DOCKING_STATION'] });
+  assert.deepEqual(parseEquipmentList(['ACCESSIBLE']), { ok: true, value: ['ACCESSIBLE'] });
+  assert.deepEqual(parseEquipmentList(undefined), { ok: true, value: [] });
+  assert.equal(parseEquipmentList(3).ok, false);
+});
+
+test('resources match kind, minimum capacity and all requested equipment', () => {
+  const room = { kind: 'RAUM' as const, capacity: 8, equipment: ['VIDEO_CONFERENCING' as const, 'MONITOR' as const] };
+  const desk = { kind: 'TISCH' as const, capacity: null, equipment: ['MONITOR' as const, 'DOCKING_STATION' as const] };
+
+  assert.equal(matchesResourceFilter(room, { ...noFilter, kind: 'RAUM', minCapacity: 8, equipment: ['MONITOR'] }), true);
+  assert.equal(matchesResourceFilter(room, { ...noFilter, minCapacity: 10 }), false);
+  assert.equal(matchesResourceFilter(room, { ...noFilter, equipment: ['MONITOR', 'ACCESSIBLE'] }), false);
+  assert.equal(matchesResourceFilter(desk, { ...noFilter, kind: 'RAUM' }), false);
+  assert.equal(matchesResourceFilter(desk, { ...noFilter, minCapacity: 1, equipment: ['DOCKING_STATION'] }), true);
+  assert.equal(matchesResourceFilter(desk, { ...noFilter, minCapacity: 2 }), false);
+});
@@ -0,0 +1,41 @@
+import type { ResourceEquipment, ResourceKind } from '@prisma/client';
+
+export const RESOURCE_EQUIPMENT: ResourceEquipment[] = ['MONITOR', 'DOCKING_STATION', 'HEIGHT_ADJUSTABLE', 'VIDEO_CONFERENCING', 'ACCESSIBLE'];
+
+export type ResourceFilter = {
+  kind: ResourceKind | null;
+  minCapacity: number | null;
+  equipment: ResourceEquipment[];
+};
+
+export type SearchableResource = {
+  kind: ResourceKind;
+  capacity: number | null;
+  equipment: ResourceEquipment[];
+};
+
+// Accepts a JSON array (admin desk payloads) or a comma separated query value (`equipment=MONITOR,DOCKING_STATION`).
+export const parseEquipmentList = (value: unknown): { ok: true; value: ResourceEquipment[] } | { ok: false; message: string } => {
+  if (value === null || value === undefined || value === '') return { ok: true, value: [] };
+  const entries = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(entries)) return { ok: false, message: 'equipment muss ein Array sein' };
+
+  const selected = new Set<ResourceEquipment>();
+  for (const entry of entries as unknown[]) {
+    if (typeof entry !== 'string') return { ok: false, message: 'equipment darf nur Strings enthalten' };
+    const normalized = entry.trim().toUpperCase();
+    if (!normalized) continue;
+    if (!RESOURCE_EQUIPMENT.includes(normalized as ResourceEquipment)) {
+      return { ok: false, message: `equipment muss einer der Werte ${RESOURCE_EQUIPMENT.join(', ')} sein` };
+    }
+    selected.add(normalized as ResourceEquipment);
+  }
+  return { ok: true, value: RESOURCE_EQUIPMENT.filter((equipment) => selected.has(equipment)) };
+};
+
+// Resources without a configured capacity count as single-person places.
+export const matchesResourceFilter = (resource: SearchableResource, filter: ResourceFilter): boolean => {
+  if (filter.kind && resource.kind !== filter.kind) return false;
+  if (filter.minCapacity !== null && (resource.capacity ?? 1) < filter.minCapacity) return false;
+  return filter.equipment.every((equipment) => resource.equipment.includes(equipment));
+};
@@ -0,0 +1,161 @@
+import test, { afterEach, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashApiToken } from './apiTokens';
+import { devUserHeaders, requestJson, stubPrismaSideEffects } from './integrationTestServer';
+import { prisma } from './prisma';
+
+const room = { id: 'room-1', name: 'Raum 1', kind: 'RAUM', capacity: 6, equipment: [], floorplanId: 'fp-1', floorplan: { name: 'HQ' } };
+
+type DisplayFixture = { id: string; name: string; deskId: string; createdByEmployeeId: string; allowShortBookings: boolean; lastSeenAt: Date | null; desk: typeof room };
+
+const displays = new Map<string, DisplayFixture>();
+const policies: Array<{ id: string; name: string; floorplanId: string | null; resourceKind: string | null; tenantId: string | null; maxDurationMinutes: number | null; blockedWeekdays: number[] }> = [];
+const bookingQueries: string[] = [];
+const createdBookings: Array<Record<string, unknown>> = [];
+const writes: string[] = [];
+beforeEach(() => {
+  // Monday, 10:00 in Berlin: walk-ins start "now", so the clock decides which durations still fit into the day.
+  mock.timers.enable({ apis: ['Date'], now: new Date('2026-11-02T09:00:00.000Z') });
+  displays.clear();
+  policies.length = 0;
+  bookingQueries.length = 0;
+  createdBookings.length = 0;
+  writes.length = 0;
+  displays.set(hashApiToken('rbmsd_room'), { id: 'display-1', name: 'Flur', deskId: room.id, createdByEmployeeId: 'admin-1', allowShortBookings: false, lastSeenAt: new Date(), desk: room });
+  displays.set(hashApiToken('rbmsd_short'), { id: 'display-3', name: 'Lobby', deskId: room.id, createdByEmployeeId: 'admin-1', allowShortBookings: true, lastSeenAt: new Date(), desk: room });
+  displays.set(hashApiToken('rbmsd_desk'), { id: 'display-2', name: 'Alt', deskId: 'desk-1', createdByEmployeeId: 'admin-1', allowShortBookings: false, lastSeenAt: new Date(), desk: { ...room, id: 'desk-1', kind: 'TISCH' } });
+
+  stubPrismaSideEffects();
+  (prisma.$executeRaw as unknown) = async () => 0;
+  (prisma.bookingPolicy.findMany as unknown) = async () => policies.map((policy) => ({
+    minLeadDays: null,
+    maxAdvanceDays: null,
+    maxBookingsPerWeek: null,
+    minDurationMinutes: null,
+    isActive: true,
+    ...policy
+  }));
+
+  (prisma.roomDisplay.findUnique as unknown) = async ({ where }: { where: { tokenHash: string } }) => displays.get(where.tokenHash) ?? null;
+  (prisma.roomDisplay.update as unknown) = async () => ({});
+  (prisma.roomDisplay.create as unknown) = async () => {
+    writes.push('roomDisplay.create');
+    throw new Error('unexpected create');
+  };
+  (prisma.booking.findMany as unknown) = async ({ where }: { where: { deskId: string } }) => {
+    bookingQueries.push(where.deskId);
+    return [];
+  };
+  (prisma.booking.create as unknown) = async ({ data }: { data: Record<string, unknown> }) => {
+    writes.push('booking.create');
+    const created = { id: `booking-${createdBookings.length + 1}`, ...data };
+    createdBookings.push(created);
+    return created;
+  };
+  (prisma.closurePeriod.findMany as unknown) = async () => [];
+});
+afterEach(() => {
+  mock.timers.reset();
+});
+
+type RoomDisplayResponse = { code?: string; room?: { id: string }; display?: { id: string }; availableDurations?: number[] };
+const request = (method: 'GET' | 'POST' | 'DELETE', path: string, headers: Record<string, string>, body?: Record<string, unknown>) => (
+  requestJson<RoomDisplayResponse>(method, path, { headers, body })
+);
+
+test('missing, unknown and non-room display tokens are rejected', async () => {
+  for (const headers of [{} as Record<string, string>, { 'x-room-display-token': 'rbmsd_unknown' }, { 'x-room-display-token': 'rbmsd_desk' }]) {
+    const response = await request('GET', '/room-display', headers);
+    assert.equal(response.status, 401);
+    assert.equal(response.body.code, 'ROOM_DISPLAY_UNKNOWN');
+  }
+  const booking = await request('POST', '/room-display/bookings', { 'x-room-display-token': 'rbmsd_unknown' }, { durationMinutes: 15 });
+  assert.equal(booking.status, 401);
+  assert.deepEqual(writes, []);
+  assert.deepEqual(bookingQueries, []);
+});
+
+test('a display token only reads the room it was registered for', async () => {
+  const response = await request('GET', '/room-display', { 'x-room-display-token': 'rbmsd_room' });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.display?.id, 'display-1');
+  assert.equal(response.body.room?.id, 'room-1');
+  assert.deepEqual(bookingQueries, ['room-1']);
+});
+
+test('regular users cannot register room displays', async () => {
+  const response = await request('POST', '/admin/room-displays', devUserHeaders('user-1'), { name: 'Flur', deskId: 'room-1' });
+  assert.equal(response.status, 403);
+  assert.deepEqual(writes, []);
+});
+
+test('walk-ins below the room minimum need the display exemption', async () => {
+  const state = await request('GET', '/room-display', { 'x-room-display-token': 'rbmsd_room' });
+  assert.deepEqual(state.body.availableDurations, [60]);
+
+  const rejected = await request('POST', '/room-display/bookings', { 'x-room-display-token': 'rbmsd_room' }, { durationMinutes: 15 });
+  assert.equal(rejected.status, 400);
+  assert.deepEqual(writes, []);
+
+  const exempt = await request('POST', '/room-display/bookings', { 'x-room-display-token': 'rbmsd_short' }, { durationMinutes: 15 });
+  assert.equal(exempt.status, 201);
+  assert.deepEqual(exempt.body.availableDurations, [15, 30, 60]);
+  assert.equal(createdBookings.length, 1);
+  assert.equal(createdBookings[0].roomDisplayId, 'display-3');
+  assert.equal(createdBookings[0].bookedFor, 'GUEST');
+  assert.equal(createdBookings[0].startMinute, 10 * 60);
+  assert.equal(createdBookings[0].endMinute, 10 * 60 + 15);
+});
+
+test('walk-ins follow the booking policies of the room', async () => {
+  policies.push({ id: 'policy-1', name: 'Kurze Meetings', floorplanId: 'fp-1', resourceKind: 'RAUM', tenantId: null, maxDurationMinutes: 30, blockedWeekdays: [] });
+
+  const state = await request('GET', '/room-display', { 'x-room-display-token': 'rbmsd_short' });
+  assert.deepEqual(state.body.availableDurations, [15, 30]);
+
+  const tooLong = await request('POST', '/room-display/bookings', { 'x-room-display-token': 'rbmsd_short' }, { durationMinutes: 60 });
+  assert.equal(tooLong.status, 422);
+  assert.equal(tooLong.body.code, 'POLICY_MAX_DURATION');
+  assert.deepEqual(writes, []);
+
+  policies.push({ id: 'policy-2', name: 'Montags zu', floorplanId: null, resourceKind: null, tenantId: null, maxDurationMinutes: null, blockedWeekdays: [1] });
+  const blocked = await request('POST', '/room-display/bookings', { 'x-room-display-token': 'rbmsd_short' }, { durationMinutes: 15 });
+  assert.equal(blocked.status, 422);
+  assert.equal(blocked.body.code, 'POLICY_WEEKDAY_BLOCKED');
+  assert.deepEqual(writes, []);
+});
+
+test('tenant policies do not apply to walk-ins', async () => {
+  policies.push({ id: 'policy-1', name: 'Mandant', floorplanId: null, resourceKind: null, tenantId: 'tenant-1', maxDurationMinutes: 30, blockedWeekdays: [] });
+  const response = await request('POST', '/room-display/bookings', { 'x-room-display-token': 'rbmsd_room' }, { durationMinutes: 60 });
+  assert.equal(response.status, 201);
+  assert.equal(createdBookings[0].roomDisplayId, 'display-1');
+});
+
+test('room displays are only listed and removed with a session', async () => {
+  (prisma.apiToken.findUnique as unknown) = async () => ({
+    id: 'token-1',
+    scopes: ['admin'],
+    employeeId: 'admin-1',
+    serviceAccountId: null,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    revokedAt: null,
+    lastUsedAt: new Date(),
+    employee: { id: 'admin-1', email: 'admin@example.com', displayName: 'Admin', role: 'admin', isActive: true },
+    serviceAccount: null
+  });
+  (prisma.roomDisplay.findMany as unknown) = async () => [];
+  (prisma.roomDisplay.delete as unknown) = async () => {
+    writes.push('roomDisplay.delete');
+    return {};
+  };
+
+  const headers = { authorization: 'Bearer rbms_admin' };
+  const list = await request('GET', '/admin/room-displays', headers);
+  assert.equal(list.status, 403);
+  assert.equal(list.body.code, 'SESSION_REQUIRED');
+  const removed = await request('DELETE', '/admin/room-displays/display-1', headers);
+  assert.equal(removed.status, 403);
+  assert.equal(removed.body.code, 'SESSION_REQUIRED');
+  assert.deepEqual(writes, []);
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { hashApiToken } from './apiTokens';
+import { createRoomDisplayToken, parseRoomDisplayDuration, parseRoomDisplayInput, parseRoomDisplayToken, resolveRoomDisplayState } from './roomDisplay';
+
+const meeting = (id: string, startMinute: number, endMinute: number) => ({ id, startMinute, endMinute });
+
+test('room display tokens are prefixed, hashed and only read from their own header format', () => {
+  const { token, tokenPrefix, tokenHash } = createRoomDisplayToken();
+  assert.match(token, /^rbmsd_[\w-]{43}$/);
+  assert.equal(tokenPrefix, token.slice(0, 12));
+  assert.equal(tokenHash, hashApiToken(token));
+  assert.equal(parseRoomDisplayToken(` ${token} `), token);
+  assert.equal(parseRoomDisplayToken('rbms_personal-api-token'), null);
+  assert.equal(parseRoomDisplayToken(undefined), null);
+});
+
+test('room display input needs a name and a resource, durations come from the fixed list', () => {
+  assert.deepEqual(parseRoomDisplayInput({ name: ' Display Besprechung 1 ', deskId: 'desk-1' }), { ok: true, value: { name: 'Display Besprechung 1', deskId: 'desk-1', allowShortBookings: false } });
+  assert.deepEqual(parseRoomDisplayInput({ name: 'Display', deskId: 'desk-1', allowShortBookings: true }), { ok: true, value: { name: 'Display', deskId: 'desk-1', allowShortBookings: true } });
+  assert.deepEqual(parseRoomDisplayInput({ name: 'Display', deskId: 'desk-1', allowShortBookings: 'ja' }), { ok: false, message: 'allowShortBookings muss ein Boolean sein' });
+  assert.deepEqual(parseRoomDisplayInput({ name: ' ', deskId: 'desk-1' }), { ok: false, message: 'name ist erforderlich' });
+  assert.deepEqual(parseRoomDisplayInput({ name: 'Display' }), { ok: false, message: 'deskId ist erforderlich' });
+  assert.equal(parseRoomDisplayDuration(30), 30);
+  assert.equal(parseRoomDisplayDuration(45), null);
+  assert.equal(parseRoomDisplayDuration('15'), null);
+});
+
+test('the display state shows the running meeting, the next one and what still fits before it', () => {
+  const meetings = [meeting('late', 14 * 60, 15 * 60), meeting('morning', 9 * 60, 10 * 60), meeting('noon', 10 * 60 + 45, 11 * 60)];
+
+  assert.deepEqual(resolveRoomDisplayState(meetings, 9 * 60 + 30), { current: meetings[1], next: meetings[2], freeUntilMinute: null, availableDurations: [] });
+  assert.deepEqual(resolveRoomDisplayState(meetings, 10 * 60), { current: null, next: meetings[2], freeUntilMinute: 10 * 60 + 45, availableDurations: [15, 30] });
+  assert.deepEqual(resolveRoomDisplayState(meetings, 11 * 60), { current: null, next: meetings[0], freeUntilMinute: 14 * 60, availableDurations: [15, 30, 60] });
+  assert.deepEqual(resolveRoomDisplayState(meetings, 23 * 60 + 40), { current: null, next: null, freeUntilMinute: 24 * 60, availableDurations: [15] });
+});
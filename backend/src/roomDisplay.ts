@@ -0,0 +1,68 @@
+import { randomBytes } from 'node:crypto';
+import { hashApiToken } from './apiTokens';
+
+// Room displays are tablets mounted outside a RAUM. They authenticate with a device token that is bound to
+// that one resource, never with a user session, so a stolen tablet can only read and book its own room.
+export const ROOM_DISPLAY_TOKEN_PREFIX = 'rbmsd_';
+export const ROOM_DISPLAY_TOKEN_HEADER = 'x-room-display-token';
+const ROOM_DISPLAY_DISPLAY_LENGTH = ROOM_DISPLAY_TOKEN_PREFIX.length + 6;
+const MAX_ROOM_DISPLAY_NAME_LENGTH = 120;
+const DAY_END_MINUTE = 24 * 60;
+
+// Walk-in meetings are often shorter than regular room bookings. 15 and 30 minutes undercut the 60 minute
+// room minimum of the app and are only offered when an admin allowed short bookings for the display.
+export const ROOM_DISPLAY_DURATIONS = [15, 30, 60] as const;
+export type RoomDisplayDuration = (typeof ROOM_DISPLAY_DURATIONS)[number];
+
+export type RoomDisplayInput = { name: string; deskId: string; allowShortBookings: boolean };
+export type RoomDisplayMeeting = { startMinute: number; endMinute: number };
+
+export type RoomDisplayState<T extends RoomDisplayMeeting> = {
+  current: T | null;
+  next: T | null;
+  // First minute the room is taken again, or null while a meeting is running.
+  freeUntilMinute: number | null;
+  availableDurations: RoomDisplayDuration[];
+};
+
+export const createRoomDisplayToken = (): { token: string; tokenPrefix: string; tokenHash: string } => {
+  const token = `${ROOM_DISPLAY_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenPrefix: token.slice(0, ROOM_DISPLAY_DISPLAY_LENGTH), tokenHash: hashApiToken(token) };
+};
+
+export const parseRoomDisplayToken = (header: string | string[] | undefined): string | null => {
+  const value = (Array.isArray(header) ? header[0] : header)?.trim() ?? '';
+  return value.startsWith(ROOM_DISPLAY_TOKEN_PREFIX) ? value : null;
+};
+
+export const parseRoomDisplayInput = (body: unknown): { ok: true; value: RoomDisplayInput } | { ok: false; message: string } => {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as { name?: unknown; deskId?: unknown; allowShortBookings?: unknown };
+
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { ok: false, message: 'name ist erforderlich' };
+  if (raw.name.trim().length > MAX_ROOM_DISPLAY_NAME_LENGTH) return { ok: false, message: `name darf höchstens ${MAX_ROOM_DISPLAY_NAME_LENGTH} Zeichen lang sein` };
+  if (typeof raw.deskId !== 'string' || !raw.deskId.trim()) return { ok: false, message: 'deskId ist erforderlich' };
+
+  if (raw.allowShortBookings !== undefined && typeof raw.allowShortBookings !== 'boolean') return { ok: false, message: 'allowShortBookings muss ein Boolean sein' };
+
+  return { ok: true, value: { name: raw.name.trim(), deskId: raw.deskId.trim(), allowShortBookings: raw.allowShortBookings ?? false } };
+};
+
+export const parseRoomDisplayDuration = (value: unknown): RoomDisplayDuration | null => (
+  (ROOM_DISPLAY_DURATIONS as readonly unknown[]).includes(value) ? value as RoomDisplayDuration : null
+);
+
+// `meetings` are today's bookings of the room; `nowMinute` is the current Berlin minute of the day.
+export const resolveRoomDisplayState = <T extends RoomDisplayMeeting>(meetings: T[], nowMinute: number): RoomDisplayState<T> => {
+  const sorted = [...meetings].sort((left, right) => left.startMinute - right.startMinute);
+  const current = sorted.find((meeting) => meeting.startMinute <= nowMinute && nowMinute < meeting.endMinute) ?? null;
+  const next = sorted.find((meeting) => meeting.startMinute > nowMinute) ?? null;
+  if (current) return { current, next, freeUntilMinute: null, availableDurations: [] };
+
+  const freeUntilMinute = next?.startMinute ?? DAY_END_MINUTE;
+  return {
+    current,
+    next,
+    freeUntilMinute,
+    availableDurations: ROOM_DISPLAY_DURATIONS.filter((duration) => nowMinute + duration <= freeUntilMinute)
+  };
+};
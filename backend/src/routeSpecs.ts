@@ -0,0 +1,1056 @@
+import { API_TOKEN_MAX_LIFETIME_DAYS, API_TOKEN_SCOPES } from './apiTokens';
+import { MAX_CHECK_IN_GRACE_MINUTES } from './checkIn';
+import type { RouteSpec, RouteSpecTable } from './openapi';
+import { MAX_PARKING_WEEK_DAYS } from './parkingAssignment';
+import { type Schema, s } from './schema';
+import { UTILIZATION_DIMENSIONS } from './utilization';
+import { WEBHOOK_EVENTS } from './webhooks';
+
+// Request and response schemas for every route in index.ts. Requests are validated by a middleware before the
+// handler runs; responses are documentation only. Handlers still run their own domain checks (existence,
+// tenant access, overlaps), the schemas only guarantee the shape of what arrives.
+
+const RESOURCE_KINDS = ['TISCH', 'PARKPLATZ', 'RAUM', 'SONSTIGES'] as const;
+const DAY_SLOTS = ['AM', 'PM', 'FULL'] as const;
+const BOOKING_SLOTS = ['FULL_DAY', 'MORNING', 'AFTERNOON', 'CUSTOM'] as const;
+const SCOPES = ['ALL', 'SELECTED'] as const;
+const RECURRENCE_PATTERNS = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+const FEEDBACK_TYPES = ['BUG', 'FEATURE_REQUEST'] as const;
+const FEEDBACK_STATUSES = ['IN_ARBEIT', 'ABGELEHNT', 'ERLEDIGT'] as const;
+const BOOKED_FOR = ['SELF', 'GUEST'] as const;
+const CANCEL_SCOPES = ['single', 'series', 'resource_day_self'] as const;
+
+// Most handlers treat a missing field and an explicit null the same way.
+const maybe = <T>(schema: Schema<T, boolean>) => s.optional(s.nullable(schema));
+// Query filters the UI sends as empty strings when unset.
+const orEmpty = <T>(schema: Schema<T, boolean>) => s.optional(s.union([schema, s.literal('')]));
+const queryDate = (description?: string) => orEmpty(s.date({ description }));
+const resourceKind = () => s.enum(RESOURCE_KINDS, { ignoreCase: true });
+const idList = (description: string) => s.union([s.string(), s.array(s.string())], { description });
+
+const idParams = s.object({ id: s.id() });
+const pagination = {
+  page: s.optional(s.integer({ min: 1, coerce: true })),
+  pageSize: s.optional(s.integer({ min: 1, coerce: true, description: 'Clamped to 200, defaults to 50' }))
+};
+const paginated = <T>(item: Schema<T, boolean>) => s.object({
+  items: s.array(item),
+  meta: s.object({ total: s.integer(), page: s.integer(), pageSize: s.integer(), totalPages: s.integer() })
+});
+
+const ok = (description: string, schema?: Schema) => ({ 200: { description, schema } });
+const created = (description: string, schema?: Schema) => ({ 201: { description, schema } });
+const noContent = (description: string) => ({ 204: { description } });
+
+const timestamps = { createdAt: s.dateTime() };
+
+const employeeSchema = s.named('Employee', s.object({
+  id: s.id(),
+  email: s.string(),
+  displayName: s.string(),
+  role: s.optional(s.enum(['admin', 'user'])),
+  isActive: s.optional(s.boolean()),
+  phone: maybe(s.string()),
+  photoUrl: s.nullable(s.string())
+}));
+
+const floorplanSchema = s.named('Floorplan', s.object({
+  id: s.id(),
+  name: s.string(),
+  imageUrl: s.string(),
+  isDefault: s.boolean(),
+  sortOrder: s.integer(),
+  tenantScope: s.enum(SCOPES),
+  tenantIds: s.array(s.string()),
+  defaultResourceKind: s.enum(RESOURCE_KINDS),
+  defaultAllowSeries: s.boolean(),
+  deskCheckInGraceMinutes: s.nullable(s.integer()),
+  parkingCheckInGraceMinutes: s.nullable(s.integer()),
+  ...timestamps
+}));
+
+const deskSchema = s.named('Desk', s.object({
+  id: s.id(),
+  floorplanId: s.id(),
+  name: s.string(),
+  kind: s.enum(RESOURCE_KINDS),
+  hasCharger: s.boolean(),
+  capacity: s.nullable(s.integer()),
+  equipment: s.array(s.string()),
+  allowSeriesOverride: s.nullable(s.boolean()),
+  effectiveAllowSeries: s.optional(s.boolean()),
+  tenantScope: s.enum(SCOPES),
+  tenantIds: s.array(s.string()),
+  employeeScope: s.enum(SCOPES),
+  employeeIds: s.array(s.string()),
+  isBookableForMe: s.optional(s.boolean()),
+  zone: maybe(s.record({ description: 'Zone of the desk as seen by the current user' })),
+  x: s.nullable(s.number()),
+  y: s.nullable(s.number()),
+  ...timestamps
+}));
+
+const visitorFields = {
+  id: s.id(),
+  email: s.nullable(s.string()),
+  company: s.nullable(s.string()),
+  hostEmployeeId: s.id(),
+  expectedArrivalTime: s.nullable(s.time()),
+  code: s.string({ description: 'One-time code the guest shows at reception' }),
+  status: s.enum(['EXPECTED', 'ARRIVED', 'DEPARTED']),
+  arrivedAt: s.nullable(s.dateTime()),
+  departedAt: s.nullable(s.dateTime())
+};
+const visitorSchema = s.named('Visitor', s.object(visitorFields));
+
+const bookingSchema = s.named('Booking', s.object({
+  id: s.id(),
+  deskId: s.id(),
+  userEmail: s.nullable(s.string()),
+  employeeId: s.nullable(s.string()),
+  bookedFor: s.enum(BOOKED_FOR),
+  guestName: s.nullable(s.string()),
+  createdByEmployeeId: s.string(),
+  recurringBookingId: s.nullable(s.string()),
+  recurringGroupId: s.nullable(s.string()),
+  date: s.dateTime(),
+  daySlot: s.nullable(s.enum(DAY_SLOTS)),
+  slot: s.nullable(s.enum(BOOKING_SLOTS)),
+  startTime: s.nullable(s.time()),
+  endTime: s.nullable(s.time()),
+  checkInStatus: s.string(),
+  checkedInAt: s.nullable(s.dateTime()),
+  title: s.nullable(s.string()),
+  attendees: s.optional(s.array(s.record())),
+  visitor: s.optional(visitorSchema),
+  ...timestamps
+}));
+
+const receptionVisitorSchema = s.named('ReceptionVisitor', s.object({
+  ...visitorFields,
+  name: s.string(),
+  host: s.object({ id: s.id(), displayName: s.string(), email: s.string() }),
+  booking: s.object({
+    id: s.id(),
+    date: s.date(),
+    deskId: s.id(),
+    deskName: s.string(),
+    resourceKind: s.enum(RESOURCE_KINDS),
+    floorplanId: s.id(),
+    floorplanName: s.string(),
+    daySlot: s.nullable(s.enum(DAY_SLOTS)),
+    startTime: s.nullable(s.time()),
+    endTime: s.nullable(s.time())
+  })
+}));
+
+const tenantSchema = s.named('Tenant', s.object({
+  id: s.id(),
+  domain: s.string(),
+  name: s.nullable(s.string()),
+  entraTenantId: s.nullable(s.string()),
+  employeeCount: s.optional(s.integer()),
+  ...timestamps
+}));
+
+const teamSchema = s.named('Team', s.object({ id: s.id(), name: s.string(), memberIds: s.array(s.string()), ...timestamps }));
+
+const zoneTeamsSchema = s.array(s.object({ teamId: s.id(), mode: s.optional(s.enum(['EXCLUSIVE', 'PREFERRED'], { ignoreCase: true })) }));
+const zoneSchema = s.named('Zone', s.object({
+  id: s.id(),
+  floorplanId: s.id(),
+  name: s.string(),
+  color: s.nullable(s.string()),
+  teams: zoneTeamsSchema,
+  deskIds: s.array(s.string()),
+  ...timestamps
+}));
+
+const closureSchema = s.named('Closure', s.object({
+  id: s.id(),
+  floorplanId: s.id(),
+  deskId: s.nullable(s.string()),
+  startDate: s.dateTime(),
+  endDate: s.dateTime(),
+  startTime: s.nullable(s.time()),
+  endTime: s.nullable(s.time()),
+  reason: s.string()
+}));
+
+const policyLimit = (min: number) => maybe(s.integer({ min }));
+const bookingPolicyInputSchema = s.object({
+  name: s.string({ minLength: 1 }),
+  floorplanId: maybe(s.string()),
+  tenantId: maybe(s.string()),
+  resourceKind: s.optional(s.nullable(s.union([resourceKind(), s.literal('')]))),
+  minLeadDays: policyLimit(0),
+  maxAdvanceDays: policyLimit(0),
+  maxBookingsPerWeek: policyLimit(1),
+  minDurationMinutes: policyLimit(1),
+  maxDurationMinutes: policyLimit(1),
+  blockedWeekdays: s.optional(s.array(s.integer({ min: 1, max: 7 }), { description: 'ISO weekdays, 1 = Monday' })),
+  isActive: s.optional(s.boolean())
+});
+const bookingPolicySchema = s.named('BookingPolicy', s.object({
+  id: s.id(),
+  name: s.string(),
+  floorplanId: s.nullable(s.string()),
+  tenantId: s.nullable(s.string()),
+  resourceKind: s.nullable(s.enum(RESOURCE_KINDS)),
+  minLeadDays: s.nullable(s.integer()),
+  maxAdvanceDays: s.nullable(s.integer()),
+  maxBookingsPerWeek: s.nullable(s.integer()),
+  minDurationMinutes: s.nullable(s.integer()),
+  maxDurationMinutes: s.nullable(s.integer()),
+  blockedWeekdays: s.array(s.integer()),
+  isActive: s.boolean()
+}));
+
+const webhookSubscriptionSchema = s.named('WebhookSubscription', s.object({
+  id: s.id(),
+  name: s.string(),
+  url: s.string(),
+  events: s.array(s.enum(WEBHOOK_EVENTS)),
+  isActive: s.boolean(),
+  secretHint: s.string(),
+  secret: s.optional(s.string({ description: 'Only returned on creation and rotation' })),
+  deliveryCounts: s.object({ pending: s.integer(), sent: s.integer(), failed: s.integer() }),
+  ...timestamps
+}));
+
+const webhookDeliverySchema = s.named('WebhookDelivery', s.object({
+  id: s.id(),
+  subscriptionId: s.id(),
+  event: s.enum(WEBHOOK_EVENTS),
+  status: s.enum(['PENDING', 'SENT', 'FAILED']),
+  attempts: s.integer(),
+  responseStatus: s.nullable(s.integer()),
+  lastError: s.nullable(s.string()),
+  nextAttemptAt: s.nullable(s.dateTime()),
+  deliveredAt: s.nullable(s.dateTime()),
+  replayOfId: s.nullable(s.string()),
+  payload: s.record(),
+  ...timestamps
+}));
+
+const apiTokenInputSchema = s.object({
+  name: s.string({ minLength: 1, maxLength: 120 }),
+  scopes: s.array(s.enum(API_TOKEN_SCOPES), { minItems: 1 }),
+  expiresInDays: s.optional(s.integer({ min: 1, max: API_TOKEN_MAX_LIFETIME_DAYS, description: 'Defaults to 90' }))
+});
+const apiTokenFields = {
+  id: s.id(),
+  name: s.string(),
+  tokenPrefix: s.string(),
+  scopes: s.array(s.enum(API_TOKEN_SCOPES)),
+  expiresAt: s.dateTime(),
+  lastUsedAt: s.nullable(s.dateTime()),
+  revokedAt: s.nullable(s.dateTime()),
+  ...timestamps
+};
+const apiTokenSchema = s.named('ApiToken', s.object(apiTokenFields));
+const createdApiTokenSchema = s.named('CreatedApiToken', s.object({
+  ...apiTokenFields,
+  token: s.string({ description: 'Shown once; send as "Authorization: Bearer <token>"' })
+}));
+const serviceAccountSchema = s.named('ServiceAccount', s.object({
+  id: s.id(),
+  name: s.string(),
+  description: s.nullable(s.string()),
+  isActive: s.boolean(),
+  tokens: s.array(apiTokenSchema),
+  ...timestamps
+}));
+
+const roomDisplayFields = {
+  id: s.id(),
+  name: s.string(),
+  tokenPrefix: s.string(),
+  allowShortBookings: s.boolean({ description: 'Walk-ins may be shorter than the 60 minute room minimum' }),
+  lastSeenAt: s.nullable(s.dateTime()),
+  room: s.object({ id: s.id(), name: s.string(), floorplanName: s.string() }),
+  createdBy: s.object({ id: s.id(), displayName: s.string() }),
+  ...timestamps
+};
+const roomDisplaySchema = s.named('RoomDisplay', s.object(roomDisplayFields));
+const createdRoomDisplaySchema = s.named('CreatedRoomDisplay', s.object({
+  ...roomDisplayFields,
+  token: s.string({ description: 'Shown once; the tablet sends it as "x-room-display-token: <token>"' })
+}));
+const roomDisplayMeetingSchema = s.object({ id: s.id(), startTime: s.string(), endTime: s.string(), title: s.nullable(s.string()), organizer: s.string() });
+const roomDisplayStateSchema = s.named('RoomDisplayState', s.object({
+  display: s.object({ id: s.id(), name: s.string() }),
+  room: s.object({ id: s.id(), name: s.string(), capacity: s.nullable(s.integer()), equipment: s.array(s.string()), floorplanName: s.string() }),
+  date: s.date(),
+  now: s.string({ description: 'Current time in Europe/Berlin, HH:MM' }),
+  meetings: s.array(roomDisplayMeetingSchema),
+  current: s.nullable(roomDisplayMeetingSchema),
+  next: s.nullable(roomDisplayMeetingSchema),
+  freeUntil: s.nullable(s.string({ description: 'HH:MM, 24:00 when the room stays free for the rest of the day; null while a meeting runs' })),
+  availableDurations: s.array(s.integer(), { description: 'Walk-in durations in minutes that fit before the next meeting' }),
+  closure: s.nullable(s.object({ reason: s.string() }))
+}));
+const waitlistEntrySchema = s.named('WaitlistEntry', s.object({
+  id: s.id(),
+  floorplanId: s.id(),
+  floorplanName: s.string(),
+  kind: s.enum(RESOURCE_KINDS),
+  employeeId: s.id(),
+  date: s.date(),
+  daySlot: s.nullable(s.enum(DAY_SLOTS)),
+  startTime: s.nullable(s.time()),
+  endTime: s.nullable(s.time()),
+  autoBook: s.boolean(),
+  status: s.string(),
+  position: s.nullable(s.integer()),
+  offeredDesk: s.nullable(s.object({ id: s.id(), name: s.string() })),
+  offerExpiresAt: s.nullable(s.dateTime()),
+  bookingId: s.nullable(s.string()),
+  ...timestamps
+}));
+
+const feedbackReportSchema = s.named('FeedbackReport', s.object({
+  id: s.id(),
+  type: s.enum(FEEDBACK_TYPES),
+  status: s.nullable(s.enum(FEEDBACK_STATUSES)),
+  message: s.string(),
+  hasScreenshot: s.optional(s.boolean()),
+  ...timestamps
+}));
+
+const auditEventSchema = s.named('AuditEvent', s.object({
+  id: s.id(),
+  action: s.string(),
+  entityType: s.string(),
+  entityId: s.string(),
+  actorEmail: s.nullable(s.string()),
+  before: s.nullable(s.record()),
+  after: s.nullable(s.record()),
+  ...timestamps
+}));
+
+const utilizationRowFields = {
+  key: s.nullable(s.string()),
+  label: s.nullable(s.string()),
+  bookedMinutes: s.integer(),
+  availableMinutes: s.nullable(s.integer({ description: 'Null for tenants, which share resources' })),
+  utilization: s.nullable(s.number({ description: 'Booked share of the available minutes, 0–1' })),
+  bookings: s.integer(),
+  guestBookings: s.integer(),
+  guestShare: s.nullable(s.number())
+};
+const utilizationRowSchema = s.named('UtilizationRow', s.object(utilizationRowFields));
+const deskUtilizationRowSchema = s.named('DeskUtilizationRow', s.object({ ...utilizationRowFields, floorplanId: s.nullable(s.string()), kind: s.nullable(resourceKind()) }));
+const utilizationFilterQuery = {
+  from: queryDate('Defaults to 29 days before to'),
+  to: queryDate('Defaults to today'),
+  weekdays: s.optional(s.string({ description: 'Comma separated ISO weekdays (1 = Monday), defaults to 1,2,3,4,5' })),
+  floorplanId: s.optional(s.string()),
+  kind: orEmpty(resourceKind())
+};
+const utilizationReportSchema = s.named('UtilizationReport', s.object({
+  filter: s.object({ from: s.date(), to: s.date(), weekdays: s.array(s.integer({ min: 1, max: 7 })), floorplanId: s.nullable(s.string()), kind: s.nullable(resourceKind()) }),
+  businessHours: s.object({ start: s.time(), end: s.time() }),
+  totals: utilizationRowSchema,
+  byFloorplan: s.array(utilizationRowSchema),
+  byDesk: s.array(deskUtilizationRowSchema),
+  byKind: s.array(utilizationRowSchema),
+  byTenant: s.array(utilizationRowSchema),
+  byWeekday: s.array(utilizationRowSchema),
+  byDay: s.array(utilizationRowSchema),
+  peakDays: s.array(utilizationRowSchema),
+  unbookedDesks: s.array(deskUtilizationRowSchema)
+}));
+
+const importBody = s.object({
+  fileName: s.optional(s.string({ description: 'Used to detect the file type (.csv, .xlsx, .json, .zip)' })),
+  content: s.string({ minLength: 1, description: 'Base64 encoded file, optionally as data URL' }),
+  dryRun: s.optional(s.boolean({ description: 'Defaults to true; false applies the file when no row has errors' }))
+});
+const importPreviewSchema = s.named('ImportPreview', s.object({
+  dryRun: s.boolean(),
+  applied: s.boolean(),
+  summary: s.object({ create: s.integer(), update: s.integer(), unchanged: s.integer(), error: s.integer() }),
+  ignoredColumns: s.array(s.string()),
+  rows: s.array(s.object({
+    row: s.integer({ description: 'Line in the file, the header is line 1' }),
+    key: s.string(),
+    action: s.enum(['create', 'update', 'unchanged', 'error']),
+    changes: s.array(s.string()),
+    errors: s.array(s.string()),
+    targetId: s.nullable(s.string())
+  }))
+}));
+
+const floorplanBundlePreviewSchema = s.named('FloorplanBundlePreview', s.object({
+  dryRun: s.boolean(),
+  applied: s.boolean(),
+  floorplanId: s.nullable(s.string({ description: 'Id of the created floorplan once applied' })),
+  floorplan: s.object({ name: s.string(), tenantScope: s.enum(SCOPES), tenantCount: s.integer(), imageEmbedded: s.boolean() }),
+  deskCount: s.integer(),
+  unmapped: s.array(s.object({ target: s.string({ description: 'Floorplan or resource name' }), type: s.enum(['tenant', 'employee']), value: s.string(), reason: s.string() })),
+  errors: s.array(s.string())
+}));
+
+const recurringBookingSchema = s.named('RecurringBooking', s.record({ description: 'Recurring booking rule with its resource' }));
+const deleteResultSchema = s.object({ deletedCount: s.integer() });
+
+// Fields shared by every booking window: either a day slot or a start/end time.
+const bookingWindowFields = {
+  daySlot: maybe(s.enum(DAY_SLOTS, { ignoreCase: true })),
+  slot: maybe(s.enum(BOOKING_SLOTS, { ignoreCase: true })),
+  startTime: maybe(s.time()),
+  endTime: maybe(s.time())
+};
+const parkingProposalBookings = s.array(s.object({ deskId: s.id(), startMinute: s.integer({ min: 0, max: 1440 }), endMinute: s.integer({ min: 0, max: 1440 }) }), { minItems: 1 });
+const attendeesSchema = s.array(s.object({ employeeId: maybe(s.string()), name: maybe(s.string()), email: maybe(s.string()) }), { description: 'Room bookings only' });
+const bookedForSchema = maybe(s.enum(BOOKED_FOR, { ignoreCase: true }));
+
+const recurrenceFields = {
+  resourceId: s.id(),
+  startDate: s.date(),
+  endDate: maybe(s.date()),
+  rangeMode: maybe(s.enum(['BY_DATE', 'BY_COUNT'])),
+  count: maybe(s.integer({ min: 1 })),
+  patternType: s.enum(RECURRENCE_PATTERNS),
+  interval: maybe(s.integer({ min: 1 })),
+  byWeekday: maybe(s.array(s.integer({ min: 1, max: 7 }), { description: 'ISO weekdays, 1 = Monday' })),
+  byMonthday: maybe(s.integer()),
+  bySetPos: maybe(s.integer()),
+  byMonth: maybe(s.integer()),
+  bookedFor: bookedForSchema,
+  period: maybe(s.enum(DAY_SLOTS, { ignoreCase: true }))
+};
+
+const floorplanInputFields = {
+  name: s.string(),
+  imageUrl: s.string(),
+  defaultResourceKind: s.optional(resourceKind()),
+  defaultAllowSeries: s.optional(s.boolean()),
+  isDefault: s.optional(s.boolean()),
+  sortOrder: s.optional(s.integer({ min: 0 })),
+  tenantScope: s.optional(s.enum(SCOPES, { ignoreCase: true })),
+  tenantIds: s.optional(s.array(s.string())),
+  deskCheckInGraceMinutes: s.optional(s.nullable(s.integer({ min: 1, max: MAX_CHECK_IN_GRACE_MINUTES }))),
+  parkingCheckInGraceMinutes: s.optional(s.nullable(s.integer({ min: 1, max: MAX_CHECK_IN_GRACE_MINUTES })))
+};
+
+const deskInputFields = {
+  name: s.string(),
+  x: s.optional(s.nullable(s.number())),
+  y: s.optional(s.nullable(s.number())),
+  kind: s.optional(resourceKind()),
+  hasCharger: s.optional(s.boolean()),
+  capacity: s.optional(s.nullable(s.integer({ min: 1 }))),
+  equipment: s.optional(s.unknown({ description: 'List of equipment keys, e.g. ["BEAMER", "WHITEBOARD"]' })),
+  allowSeriesOverride: s.optional(s.nullable(s.boolean())),
+  tenantScope: s.optional(s.enum(SCOPES, { ignoreCase: true })),
+  tenantIds: s.optional(s.array(s.string())),
+  employeeScope: s.optional(s.enum(SCOPES, { ignoreCase: true })),
+  employeeIds: s.optional(s.array(s.string()))
+};
+
+const partial = <S extends Record<string, Schema<unknown, boolean>>>(shape: S) => s.object(Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, s.optional(schema)])));
+
+const healthSpec: RouteSpec = {
+  summary: 'Health check including database connectivity',
+  tags: ['System'],
+  auth: 'public',
+  responses: { ...ok('Service is healthy', s.object({ status: s.literal('ok'), title: s.string() })), 500: { description: 'Database not reachable' } }
+};
+
+export const routeSpecs: RouteSpecTable = {
+  'GET /health': healthSpec,
+  'GET /api/health': healthSpec,
+  'GET /api/openapi.json': { summary: 'This OpenAPI document', tags: ['System'], auth: 'public', responses: ok('OpenAPI 3.1 document', s.record()) },
+
+  // Authentication
+  'GET /auth/entra/start': { summary: 'Start the Microsoft Entra login', tags: ['Auth'], auth: 'public', responses: { 302: { description: 'Redirect to Microsoft' } } },
+  'GET /auth/entra/config': { summary: 'Whether Entra login is configured', tags: ['Auth'], auth: 'public', responses: ok('Configuration', s.object({ configured: s.boolean() })) },
+  'GET /auth/entra/callback': {
+    summary: 'OIDC callback from Microsoft Entra',
+    tags: ['Auth'],
+    auth: 'public',
+    query: s.object({ code: s.optional(s.string()), state: s.optional(s.string()) }),
+    responses: { 302: { description: 'Redirect into the app with a session cookie' } }
+  },
+  'POST /auth/login': {
+    summary: 'Log in with e-mail and password (breakglass accounts)',
+    tags: ['Auth'],
+    auth: 'public',
+    body: s.object({ email: s.string({ minLength: 1 }), password: s.string({ minLength: 1 }) }),
+    responses: { ...ok('Logged in; sets the session cookie', s.object({ user: s.record() })), 429: { description: 'Too many failed attempts' } }
+  },
+  'POST /auth/logout': { summary: 'Log out and clear the session', tags: ['Auth'], auth: 'public', responses: noContent('Logged out') },
+  'GET /auth/me': { summary: 'Current session user', tags: ['Auth'], auth: 'public', responses: ok('Session user', s.object({ user: s.record() })) },
+  'GET /auth/csrf': { summary: 'Legacy CSRF endpoint, kept for old clients', tags: ['Auth'], auth: 'public', responses: noContent('Nothing to do') },
+  'GET /user/me/photo': { summary: 'Profile photo of the current user from Microsoft Graph', tags: ['Employees'], auth: 'user', responses: { 200: { description: 'Image', contentType: 'image/jpeg' }, 204: { description: 'No photo' } } },
+  'GET /calendar/:token.ics': {
+    summary: 'Personal iCalendar feed',
+    tags: ['Calendar'],
+    auth: 'public',
+    params: s.object({ token: s.string({ description: 'Secret feed token from GET /me/calendar-feed' }) }),
+    responses: { 200: { description: 'iCalendar file', contentType: 'text/calendar' } }
+  },
+  'GET /room-display': { summary: 'Today\'s schedule of the room a display is bound to', tags: ['Room displays'], auth: 'roomDisplay', responses: ok('Display state', roomDisplayStateSchema) },
+  'POST /room-display/bookings': {
+    summary: 'Book the display\'s room from now on as a walk-in meeting',
+    tags: ['Room displays'],
+    auth: 'roomDisplay',
+    body: s.object({ durationMinutes: s.integer({ description: 'One of 15, 30 or 60; below 60 only with allowShortBookings' }) }),
+    responses: { ...created('Updated display state', roomDisplayStateSchema), 409: { description: 'Room is booked or closed in that time' }, 422: { description: 'Booking policy violated' } }
+  },
+
+  // Administration: logs, audit and raw tables
+  'GET /admin/logs': {
+    summary: 'Recent in-memory application logs',
+    tags: ['Admin'],
+    auth: 'admin',
+    query: s.object({ ...pagination, query: s.optional(s.string()), level: s.optional(s.enum(['all', 'info', 'warn', 'error', 'debug'], { ignoreCase: true })) }),
+    responses: ok('Log entries', paginated(s.record()))
+  },
+  'GET /admin/audit-events': {
+    summary: 'Audit trail of mutations',
+    tags: ['Admin'],
+    auth: 'admin',
+    query: s.object({ ...pagination, actor: s.optional(s.string()), entityType: s.optional(s.string()), entityId: s.optional(s.string()), from: queryDate(), to: queryDate() }),
+    responses: ok('Audit events, newest first', paginated(auditEventSchema))
+  },
+  'GET /admin/reports/utilization': {
+    summary: 'Booked vs. available minutes per floorplan, resource, kind, tenant, weekday and day',
+    tags: ['Reports'],
+    auth: 'admin',
+    query: s.object(utilizationFilterQuery),
+    responses: ok('Utilization report', utilizationReportSchema)
+  },
+  'GET /admin/reports/utilization.csv': {
+    summary: 'One dimension of the utilization report as CSV',
+    tags: ['Reports'],
+    auth: 'admin',
+    query: s.object({ ...utilizationFilterQuery, dimension: s.optional(s.enum(UTILIZATION_DIMENSIONS, { ignoreCase: true, description: 'Defaults to desk' })) }),
+    responses: { 200: { description: 'CSV file', contentType: 'text/csv' } }
+  },
+  'GET /admin/visitors': { summary: 'Visitors expected on a day (reception view)', tags: ['Visitors'], auth: 'admin', query: s.object({ date: queryDate('Defaults to today') }), responses: ok('Visitors', s.array(receptionVisitorSchema)) },
+  'POST /admin/visitors/check-in': {
+    summary: 'Check a visitor in with their one-time code and notify the host',
+    tags: ['Visitors'],
+    auth: 'admin',
+    body: s.object({ code: s.string() }),
+    responses: { ...ok('Checked-in visitor', receptionVisitorSchema), 404: { description: 'VISITOR_CODE_UNKNOWN' }, 409: { description: 'VISITOR_CODE_USED or VISITOR_CODE_NOT_TODAY' } }
+  },
+  'POST /admin/visitors/:id/arrival': { summary: 'Mark a visitor as arrived and notify the host', tags: ['Visitors'], auth: 'admin', params: idParams, responses: { ...ok('Visitor', receptionVisitorSchema), 409: { description: 'Visitor has already arrived' } } },
+  'POST /admin/visitors/:id/departure': { summary: 'Mark a visitor as departed', tags: ['Visitors'], auth: 'admin', params: idParams, responses: { ...ok('Visitor', receptionVisitorSchema), 409: { description: 'Visitor has not arrived or already left' } } },
+  'GET /admin/db/tables': { summary: 'Tables available in the database editor', tags: ['Admin'], auth: 'admin', responses: ok('Table metadata', s.array(s.record())) },
+  'GET /admin/db/:table/rows': {
+    summary: 'Rows of a table',
+    tags: ['Admin'],
+    auth: 'admin',
+    params: s.object({ table: s.id() }),
+    query: s.object({ limit: s.optional(s.integer({ min: 1, coerce: true })), offset: s.optional(s.integer({ min: 0, coerce: true })) }),
+    responses: ok('Rows', s.record())
+  },
+  'POST /admin/db/:table/rows': { summary: 'Insert a row', tags: ['Admin'], auth: 'admin', params: s.object({ table: s.id() }), body: s.object({ data: s.record() }), responses: created('Inserted row', s.record()) },
+  'DELETE /admin/db/:table/rows': { summary: 'Delete all rows of a table', tags: ['Admin'], auth: 'admin', params: s.object({ table: s.id() }), responses: ok('Number of deleted rows', deleteResultSchema) },
+  'PATCH /admin/db/:table/rows/:id': { summary: 'Update a row', tags: ['Admin'], auth: 'admin', params: s.object({ table: s.id(), id: s.id() }), body: s.object({ data: s.record() }), responses: ok('Updated row', s.record()) },
+  'DELETE /admin/db/:table/rows/:id': { summary: 'Delete a row', tags: ['Admin'], auth: 'admin', params: s.object({ table: s.id(), id: s.id() }), responses: noContent('Deleted') },
+
+  // Employees and tenants
+  'POST /admin/employees/force-reauth': { summary: 'End all sessions so everyone logs in again', tags: ['Employees'], auth: 'admin', responses: ok('Sessions ended', s.record()) },
+  'GET /admin/employees': { summary: 'All employees including inactive ones', tags: ['Employees'], auth: 'admin', responses: ok('Employees', s.array(employeeSchema)) },
+  'POST /admin/employees/:id/refresh-profile': { summary: 'Reload name, phone and photo from Microsoft Graph', tags: ['Employees'], auth: 'admin', params: idParams, responses: ok('Refreshed employee', s.record()) },
+  'GET /employees': { summary: 'Active employees for pickers', tags: ['Employees'], auth: 'user', responses: ok('Employees', s.array(employeeSchema)) },
+  'GET /employees/:id/photo': { summary: 'Stored profile photo of an employee', tags: ['Employees'], auth: 'user', params: idParams, responses: { 200: { description: 'Image', contentType: 'image/jpeg' } } },
+  'POST /admin/employees': {
+    summary: 'Create an employee',
+    tags: ['Employees'],
+    auth: 'admin',
+    body: s.object({ email: s.string({ minLength: 1 }), displayName: s.string({ minLength: 1 }), role: s.optional(s.enum(['admin', 'user'])) }),
+    responses: created('Created employee', employeeSchema)
+  },
+  'POST /admin/employees/import': { summary: 'Preview or apply a CSV/XLSX employee import', tags: ['Employees'], auth: 'admin', body: importBody, responses: ok('Import preview', importPreviewSchema) },
+  'PATCH /admin/employees/:id': {
+    summary: 'Update name, role or active flag of an employee',
+    tags: ['Employees'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ displayName: s.optional(s.string()), isActive: s.optional(s.boolean()), role: s.optional(s.enum(['admin', 'user'])) }),
+    responses: ok('Updated employee', employeeSchema)
+  },
+  'DELETE /admin/employees/:id': { summary: 'Deactivate an employee', tags: ['Employees'], auth: 'admin', params: idParams, responses: ok('Deactivated employee', employeeSchema) },
+  'GET /admin/tenants': { summary: 'Tenant domains', tags: ['Tenants'], auth: 'admin', responses: ok('Tenants', s.array(tenantSchema)) },
+  'POST /admin/tenants': {
+    summary: 'Add a tenant domain',
+    tags: ['Tenants'],
+    auth: 'admin',
+    body: s.object({ domain: s.string({ minLength: 1 }), name: maybe(s.string()), entraTenantId: maybe(s.string({ description: 'GUID of the Entra tenant' })) }),
+    responses: created('Created tenant', tenantSchema)
+  },
+  'PATCH /admin/tenants/:id': {
+    summary: 'Update a tenant domain',
+    tags: ['Tenants'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ domain: s.optional(s.string()), name: maybe(s.string()), entraTenantId: maybe(s.string()) }),
+    responses: ok('Updated tenant', tenantSchema)
+  },
+  'DELETE /admin/tenants/:id': { summary: 'Delete a tenant domain', tags: ['Tenants'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+
+  // Teams and zones
+  'GET /admin/teams': { summary: 'Teams with their members', tags: ['Teams'], auth: 'admin', responses: ok('Teams', s.array(teamSchema)) },
+  'POST /admin/teams': { summary: 'Create a team', tags: ['Teams'], auth: 'admin', body: s.object({ name: s.string({ minLength: 1 }), memberIds: s.optional(s.array(s.string())) }), responses: created('Created team', teamSchema) },
+  'PATCH /admin/teams/:id': { summary: 'Rename a team or replace its members', tags: ['Teams'], auth: 'admin', params: idParams, body: s.object({ name: s.optional(s.string()), memberIds: s.optional(s.array(s.string())) }), responses: ok('Updated team', teamSchema) },
+  'DELETE /admin/teams/:id': { summary: 'Delete a team', tags: ['Teams'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'GET /admin/zones': { summary: 'Floorplan zones', tags: ['Teams'], auth: 'admin', query: s.object({ floorplanId: s.optional(s.string()) }), responses: ok('Zones', s.array(zoneSchema)) },
+  'POST /admin/zones': {
+    summary: 'Create a zone on a floorplan',
+    tags: ['Teams'],
+    auth: 'admin',
+    body: s.object({ floorplanId: s.id(), name: s.string({ minLength: 1 }), color: maybe(s.string({ description: 'Hex color like #22aa88' })), teams: maybe(zoneTeamsSchema) }),
+    responses: created('Created zone', zoneSchema)
+  },
+  'PATCH /admin/zones/:id': {
+    summary: 'Update name, color or team assignments of a zone',
+    tags: ['Teams'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ name: s.optional(s.string()), color: maybe(s.string()), teams: maybe(zoneTeamsSchema) }),
+    responses: ok('Updated zone', zoneSchema)
+  },
+  'PUT /admin/zones/:id/desks': { summary: 'Replace the desks of a zone', tags: ['Teams'], auth: 'admin', params: idParams, body: s.object({ deskIds: s.array(s.string()) }), responses: ok('Updated zone', zoneSchema) },
+  'DELETE /admin/zones/:id': { summary: 'Delete a zone', tags: ['Teams'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+
+  // Webhooks and API access
+  'GET /admin/webhooks': { summary: 'Webhook subscriptions with delivery counts', tags: ['Webhooks'], auth: 'admin', responses: ok('Subscriptions', s.array(webhookSubscriptionSchema)) },
+  'POST /admin/webhooks': {
+    summary: 'Create a webhook subscription',
+    tags: ['Webhooks'],
+    auth: 'admin',
+    body: s.object({ name: s.string({ minLength: 1, maxLength: 120 }), url: s.string({ format: 'uri' }), events: s.array(s.enum(WEBHOOK_EVENTS), { minItems: 1 }), isActive: s.optional(s.boolean()) }),
+    responses: created('Created subscription including its secret', webhookSubscriptionSchema)
+  },
+  'PATCH /admin/webhooks/:id': {
+    summary: 'Update a subscription or rotate its secret',
+    tags: ['Webhooks'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ name: s.optional(s.string()), url: s.optional(s.string()), events: s.optional(s.array(s.enum(WEBHOOK_EVENTS), { minItems: 1 })), isActive: s.optional(s.boolean()), rotateSecret: s.optional(s.boolean()) }),
+    responses: ok('Updated subscription; includes the new secret after rotation', webhookSubscriptionSchema)
+  },
+  'DELETE /admin/webhooks/:id': { summary: 'Delete a subscription and its deliveries', tags: ['Webhooks'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'GET /admin/webhooks/:id/deliveries': {
+    summary: 'Deliveries of a subscription',
+    tags: ['Webhooks'],
+    auth: 'admin',
+    params: idParams,
+    query: s.object({ ...pagination, status: orEmpty(s.enum(['PENDING', 'SENT', 'FAILED'])) }),
+    responses: ok('Deliveries, newest first', paginated(webhookDeliverySchema))
+  },
+  'POST /admin/webhook-deliveries/:id/replay': { summary: 'Send a delivery again as a new delivery', tags: ['Webhooks'], auth: 'admin', params: idParams, responses: created('Replay delivery', webhookDeliverySchema) },
+  'GET /admin/service-accounts': { summary: 'Service accounts with their tokens', tags: ['API access'], auth: 'admin', responses: ok('Service accounts', s.array(serviceAccountSchema)) },
+  'POST /admin/service-accounts': { summary: 'Create a service account', tags: ['API access'], auth: 'admin', body: s.object({ name: s.string({ minLength: 1 }), description: maybe(s.string()) }), responses: created('Created service account', serviceAccountSchema) },
+  'PATCH /admin/service-accounts/:id': {
+    summary: 'Update or deactivate a service account',
+    tags: ['API access'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ name: s.optional(s.string()), description: maybe(s.string()), isActive: s.optional(s.boolean()) }),
+    responses: ok('Updated service account', serviceAccountSchema)
+  },
+  'DELETE /admin/service-accounts/:id': { summary: 'Delete a service account and its tokens', tags: ['API access'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'POST /admin/service-accounts/:id/tokens': { summary: 'Issue a token for a service account', tags: ['API access'], auth: 'admin', params: idParams, body: apiTokenInputSchema, responses: created('Created token; the secret is only returned here', createdApiTokenSchema) },
+  'GET /admin/api-tokens': { summary: 'Personal tokens of all employees', tags: ['API access'], auth: 'admin', responses: ok('Tokens with their owner', s.array(apiTokenSchema)) },
+  'DELETE /admin/api-tokens/:id': { summary: 'Revoke any token', tags: ['API access'], auth: 'admin', params: idParams, responses: noContent('Revoked') },
+  'GET /admin/room-displays': { summary: 'Room displays with their room and last contact', tags: ['Room displays'], auth: 'admin', responses: ok('Room displays', s.array(roomDisplaySchema)) },
+  'POST /admin/room-displays': {
+    summary: 'Register a room display and issue its device token',
+    tags: ['Room displays'],
+    auth: 'admin',
+    body: s.object({ name: s.string({ minLength: 1, maxLength: 120 }), deskId: s.id(), allowShortBookings: s.optional(s.boolean()) }),
+    responses: created('Created display; the token is only returned here', createdRoomDisplaySchema)
+  },
+  'DELETE /admin/room-displays/:id': { summary: 'Remove a room display and invalidate its token', tags: ['Room displays'], auth: 'admin', params: idParams, responses: noContent('Removed') },
+
+  // Closures and booking policies
+  'GET /admin/closures': { summary: 'Closure periods', tags: ['Closures'], auth: 'admin', query: s.object({ floorplanId: s.optional(s.string()) }), responses: ok('Closures', s.array(closureSchema)) },
+  'POST /admin/closures': {
+    summary: 'Close a floorplan or desk for a period',
+    tags: ['Closures'],
+    auth: 'admin',
+    body: s.object({ floorplanId: s.id(), deskId: maybe(s.string()), startDate: s.date(), endDate: maybe(s.date()), startTime: maybe(s.time()), endTime: maybe(s.time()), reason: s.string({ minLength: 1 }) }),
+    responses: created('Created closure with colliding bookings', s.object({ closure: closureSchema, collisions: s.array(bookingSchema) }))
+  },
+  'GET /admin/closures/:id/collisions': { summary: 'Bookings that collide with a closure', tags: ['Closures'], auth: 'admin', params: idParams, responses: ok('Colliding bookings', s.array(bookingSchema)) },
+  'POST /admin/closures/:id/cancel-bookings': {
+    summary: 'Cancel bookings that collide with a closure',
+    tags: ['Closures'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ bookingIds: s.optional(s.array(s.string(), { description: 'Defaults to all colliding bookings' })) }),
+    responses: ok('Cancelled bookings', s.object({ cancelledCount: s.integer(), bookingIds: s.array(s.string()) }))
+  },
+  'DELETE /admin/closures/:id': { summary: 'Delete a closure', tags: ['Closures'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'GET /admin/booking-policies': { summary: 'Booking policies', tags: ['Policies'], auth: 'admin', responses: ok('Policies', s.array(bookingPolicySchema)) },
+  'POST /admin/booking-policies': { summary: 'Create a booking policy', tags: ['Policies'], auth: 'admin', body: bookingPolicyInputSchema, responses: created('Created policy', bookingPolicySchema) },
+  'PUT /admin/booking-policies/:id': { summary: 'Replace a booking policy', tags: ['Policies'], auth: 'admin', params: idParams, body: bookingPolicyInputSchema, responses: ok('Updated policy', bookingPolicySchema) },
+  'DELETE /admin/booking-policies/:id': { summary: 'Delete a booking policy', tags: ['Policies'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+
+  // Feedback
+  'POST /feedback-reports': {
+    summary: 'Report a bug or request a feature',
+    tags: ['Feedback'],
+    auth: 'user',
+    body: s.object({ type: s.enum(FEEDBACK_TYPES, { ignoreCase: true }), message: s.string({ minLength: 10, maxLength: 2000 }), screenshotDataUrl: s.optional(s.string({ description: 'PNG, JPEG or WEBP data URL up to 3 MB' })) }),
+    responses: created('Created report', feedbackReportSchema)
+  },
+  'GET /admin/feedback-reports': {
+    summary: 'Feedback reports',
+    tags: ['Feedback'],
+    auth: 'admin',
+    query: s.object({
+      type: orEmpty(s.enum(FEEDBACK_TYPES, { ignoreCase: true })),
+      status: orEmpty(s.enum(FEEDBACK_STATUSES, { ignoreCase: true })),
+      reporter: s.optional(s.string()),
+      fromDate: queryDate(),
+      toDate: queryDate(),
+      sort: s.optional(s.string())
+    }),
+    responses: ok('Reports', s.array(feedbackReportSchema))
+  },
+  'GET /admin/feedback-reports/:id/screenshot': { summary: 'Screenshot attached to a report', tags: ['Feedback'], auth: 'admin', params: idParams, responses: { 200: { description: 'Image', contentType: 'image/png' } } },
+  'PATCH /admin/feedback-reports/:id/status': { summary: 'Set the status of a report', tags: ['Feedback'], auth: 'admin', params: idParams, body: s.object({ status: s.enum(FEEDBACK_STATUSES, { ignoreCase: true }) }), responses: ok('Updated report', feedbackReportSchema) },
+  'DELETE /admin/feedback-reports/:id': { summary: 'Delete a report', tags: ['Feedback'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+
+  // Current user
+  'GET /me': { summary: 'Current user', tags: ['Me'], auth: 'user', responses: ok('User', s.object({ id: s.string(), email: s.string(), displayName: s.string(), role: s.enum(['admin', 'user']) })) },
+  'GET /me/calendar-feed': { summary: 'Path of the personal calendar feed', tags: ['Calendar'], auth: 'user', responses: ok('Feed path or null', s.object({ path: s.nullable(s.string()) })) },
+  'POST /me/calendar-feed/token': { summary: 'Create or rotate the calendar feed token', tags: ['Calendar'], auth: 'user', responses: ok('New feed path', s.object({ path: s.string() })) },
+  'GET /me/notification-settings': { summary: 'E-mail notification settings', tags: ['Me'], auth: 'user', responses: ok('Settings', s.object({ emailLocale: s.enum(['de', 'en']), emailNotifications: s.boolean(), mailEnabled: s.boolean() })) },
+  'PUT /me/notification-settings': {
+    summary: 'Update e-mail notification settings',
+    tags: ['Me'],
+    auth: 'user',
+    body: s.object({ emailLocale: s.optional(s.enum(['de', 'en'], { ignoreCase: true })), emailNotifications: s.optional(s.boolean()) }),
+    responses: ok('Updated settings', s.record())
+  },
+  'GET /me/api-tokens': { summary: 'Personal API tokens', tags: ['API access'], auth: 'user', responses: ok('Tokens', s.array(apiTokenSchema)) },
+  'POST /me/api-tokens': { summary: 'Create a personal API token', tags: ['API access'], auth: 'user', body: apiTokenInputSchema, responses: created('Created token; the secret is only returned here', createdApiTokenSchema) },
+  'DELETE /me/api-tokens/:id': { summary: 'Revoke a personal API token', tags: ['API access'], auth: 'user', params: idParams, responses: noContent('Revoked') },
+  'GET /me/follows': { summary: 'Colleagues the current user follows', tags: ['Presence'], auth: 'user', responses: ok('Followed employees', s.array(employeeSchema)) },
+  'PUT /me/follows/:employeeId': { summary: 'Follow a colleague', tags: ['Presence'], auth: 'user', params: s.object({ employeeId: s.id() }), responses: noContent('Following') },
+  'DELETE /me/follows/:employeeId': { summary: 'Stop following a colleague', tags: ['Presence'], auth: 'user', params: s.object({ employeeId: s.id() }), responses: noContent('Unfollowed') },
+  'GET /me/delegations': { summary: 'Booking delegates of the current user and the colleagues they may book for', tags: ['Bookings'], auth: 'user', responses: ok('Delegations', s.object({ delegates: s.array(employeeSchema), principals: s.array(employeeSchema) })) },
+  'PUT /me/delegates/:employeeId': { summary: 'Allow a colleague to book, edit and cancel on behalf of the current user', tags: ['Bookings'], auth: 'user', params: s.object({ employeeId: s.id() }), responses: ok('Delegate', employeeSchema) },
+  'DELETE /me/delegates/:employeeId': { summary: 'Revoke a booking delegate', tags: ['Bookings'], auth: 'user', params: s.object({ employeeId: s.id() }), responses: noContent('Revoked') },
+  'DELETE /me/principals/:employeeId': { summary: 'Stop booking on behalf of a colleague', tags: ['Bookings'], auth: 'user', params: s.object({ employeeId: s.id() }), responses: noContent('Delegation ended') },
+  'GET /me/meetings': { summary: 'Room bookings the current user attends on a day', tags: ['Bookings'], auth: 'user', query: s.object({ date: s.date() }), responses: ok('Meetings', s.array(bookingSchema)) },
+
+  // Floorplans and resources
+  'GET /floorplans': { summary: 'Floorplans visible to the current user', tags: ['Floorplans'], auth: 'user', responses: ok('Floorplans', s.array(floorplanSchema)) },
+  'GET /floorplans/:id': { summary: 'A floorplan', tags: ['Floorplans'], auth: 'user', params: idParams, responses: ok('Floorplan', floorplanSchema) },
+  'GET /floorplans/:id/desks': { summary: 'Resources on a floorplan', tags: ['Floorplans'], auth: 'user', params: idParams, responses: ok('Resources', s.array(deskSchema)) },
+  'POST /admin/floorplans': { summary: 'Create a floorplan', tags: ['Floorplans'], auth: 'admin', body: s.object(floorplanInputFields), responses: created('Created floorplan', floorplanSchema) },
+  'GET /admin/floorplans/:id/export': {
+    summary: 'Export a floorplan with image and resources as bundle',
+    tags: ['Floorplans'],
+    auth: 'admin',
+    params: idParams,
+    query: s.object({ format: s.optional(s.enum(['zip', 'json'], { ignoreCase: true })) }),
+    responses: { 200: { description: 'ZIP archive with floorplan.json and the image; with format=json the same bundle as JSON', contentType: 'application/zip' } }
+  },
+  'GET /admin/floorplans/:id/qr-labels': {
+    summary: 'Printable A4 sheet of QR labels for all resources on a floorplan',
+    tags: ['Floorplans'],
+    auth: 'admin',
+    params: idParams,
+    responses: { 200: { description: 'PDF with 3 x 8 labels (70 x 37 mm) per page; each QR code links to #/r/{resourceId}', contentType: 'application/pdf' } }
+  },
+  'POST /admin/floorplans/import': {
+    summary: 'Preview or create a floorplan from an exported bundle',
+    tags: ['Floorplans'],
+    auth: 'admin',
+    body: s.object({ ...importBody.shape, name: s.optional(s.string({ description: 'Overrides the floorplan name from the bundle' })) }),
+    responses: { ...ok('Import preview', floorplanBundlePreviewSchema), ...created('Created floorplan', floorplanBundlePreviewSchema) }
+  },
+  'PATCH /admin/floorplans/:id': { summary: 'Update a floorplan', tags: ['Floorplans'], auth: 'admin', params: idParams, body: partial(floorplanInputFields), responses: ok('Updated floorplan', floorplanSchema) },
+  'DELETE /admin/floorplans/:id': { summary: 'Delete a floorplan with its resources and bookings', tags: ['Floorplans'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'POST /admin/floorplans/:id/desks': { summary: 'Add a resource to a floorplan', tags: ['Floorplans'], auth: 'admin', params: idParams, body: s.object(deskInputFields), responses: created('Created resource', deskSchema) },
+  'POST /admin/floorplans/:id/desks/import': { summary: 'Preview or apply a CSV/XLSX resource import', tags: ['Floorplans'], auth: 'admin', params: idParams, body: importBody, responses: ok('Import preview', importPreviewSchema) },
+  'DELETE /admin/desks': { summary: 'Delete several resources', tags: ['Floorplans'], auth: 'admin', query: s.object({ ids: idList('Comma-separated or repeated resource ids') }), responses: ok('Number of deleted resources', deleteResultSchema) },
+  'DELETE /admin/desks/:id': { summary: 'Delete a resource', tags: ['Floorplans'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'PATCH /admin/desks/:id': { summary: 'Update a resource', tags: ['Floorplans'], auth: 'admin', params: idParams, body: partial(deskInputFields), responses: ok('Updated resource', deskSchema) },
+  'POST /admin/desks/positions/mark-missing': { summary: 'Remove the position of resources so they can be placed again', tags: ['Floorplans'], auth: 'admin', body: s.object({ floorplanId: s.optional(s.string()) }), responses: ok('Number of updated resources', s.object({ updatedCount: s.integer() })) },
+  'GET /resources/search': {
+    summary: 'Free resources matching kind, capacity and equipment',
+    tags: ['Availability'],
+    auth: 'user',
+    query: s.object({
+      date: s.date(),
+      floorplanId: s.optional(s.string()),
+      kind: orEmpty(resourceKind()),
+      minCapacity: orEmpty(s.integer({ min: 1, coerce: true })),
+      equipment: s.optional(s.string({ description: 'Comma-separated equipment keys' })),
+      ...bookingWindowFields
+    }),
+    responses: ok('Matching resources', s.array(s.record()))
+  },
+  'GET /availability/search': {
+    summary: 'Ranked free resources for a day, optionally across several days',
+    tags: ['Availability'],
+    auth: 'user',
+    query: s.object({ date: s.date(), from: orEmpty(s.time()), to: orEmpty(s.time()), kind: orEmpty(resourceKind()), daySlot: orEmpty(s.enum(DAY_SLOTS, { ignoreCase: true })) }),
+    responses: ok('Ranked resources', s.record())
+  },
+  'GET /resources/:resourceId': {
+    summary: 'Resolve a resource to its floorplan, e.g. for QR label deep links',
+    tags: ['Availability'],
+    auth: 'user',
+    params: s.object({ resourceId: s.id() }),
+    responses: ok('Resource', s.object({ id: s.id(), name: s.string(), kind: resourceKind(), floorplan: s.object({ id: s.id(), name: s.string() }) }))
+  },
+  'GET /resources/:resourceId/availability': {
+    summary: 'Free and busy intervals of a room on a day',
+    tags: ['Availability'],
+    auth: 'user',
+    params: s.object({ resourceId: s.id() }),
+    query: s.object({ date: s.date() }),
+    responses: ok('Availability', s.record())
+  },
+  'GET /occupancy': { summary: 'Occupancy of a floorplan on a day', tags: ['Availability'], auth: 'user', query: s.object({ floorplanId: s.id(), date: s.date() }), responses: ok('Resources with their bookings', s.record()) },
+  'GET /occupancy/stream': {
+    summary: 'Server-sent booking changes for a floorplan on a day',
+    tags: ['Availability'],
+    auth: 'user',
+    query: s.object({ floorplanId: s.id(), date: s.date() }),
+    responses: { 200: { description: '`occupancy` events with { upserted: [{ deskId, booking }], removed: [bookingId] }; bookings as in GET /occupancy', contentType: 'text/event-stream' } }
+  },
+  'GET /closures': { summary: 'Closures of a floorplan in a date range', tags: ['Closures'], auth: 'user', query: s.object({ floorplanId: s.id(), from: s.date(), to: s.date() }), responses: ok('Closures', s.array(closureSchema)) },
+
+  // Presence
+  'GET /presence/week': {
+    summary: 'Weekly presence grid of followed or given colleagues',
+    tags: ['Presence'],
+    auth: 'user',
+    query: s.object({ from: s.optional(s.string()), to: s.optional(s.string()), employeeIds: s.optional(idList('Defaults to followed colleagues')) }),
+    responses: ok('Presence grid', s.record())
+  },
+  'GET /presence/next-to': {
+    summary: 'Nearest free resource next to a colleague',
+    tags: ['Presence'],
+    auth: 'user',
+    query: s.object({ deskId: s.id(), date: s.date(), ...bookingWindowFields }),
+    responses: ok('Nearest free resource or null', s.record())
+  },
+
+  // Bookings
+  'GET /bookings': {
+    summary: 'Bookings on a day or in a date range',
+    tags: ['Bookings'],
+    auth: 'user',
+    query: s.object({ date: s.optional(s.string()), from: s.optional(s.string()), to: s.optional(s.string()), floorplanId: s.optional(s.string()) }),
+    responses: ok('Bookings', s.array(bookingSchema))
+  },
+  'POST /bookings': {
+    summary: 'Book a resource for one day',
+    tags: ['Bookings'],
+    auth: 'user',
+    body: s.object({
+      deskId: s.id(),
+      date: s.date(),
+      userEmail: maybe(s.string({ description: 'Admins may book for anyone, delegates for the colleagues who delegated to them' })),
+      bookedFor: bookedForSchema,
+      guestName: maybe(s.string()),
+      replaceExisting: maybe(s.boolean()),
+      overwrite: maybe(s.boolean()),
+      title: maybe(s.string()),
+      attendees: maybe(attendeesSchema),
+      visitor: maybe(s.object({
+        email: maybe(s.string()),
+        company: maybe(s.string()),
+        hostEmployeeId: maybe(s.string({ description: 'Defaults to the person booking the guest' })),
+        expectedArrivalTime: maybe(s.string({ description: 'HH:MM' }))
+      }, { description: 'Guest bookings only; creates a visitor record with a one-time reception code' })),
+      ...bookingWindowFields
+    }),
+    responses: { ...ok('Existing booking was replaced', bookingSchema), ...created('Created booking', bookingSchema), 403: { description: 'Not bookable for the tenant, or DELEGATION_REQUIRED when booking for someone else' }, 409: { description: 'Resource or user already booked' }, 422: { description: 'Booking policy or room capacity violated' } }
+  },
+  'PUT /bookings/:id': {
+    summary: 'Move or edit a booking',
+    tags: ['Bookings'],
+    auth: 'user',
+    params: idParams,
+    body: s.object({ deskId: s.id(), date: maybe(s.date()), guestName: maybe(s.string()), title: maybe(s.string()), attendees: maybe(attendeesSchema), ...bookingWindowFields }),
+    responses: { ...ok('Updated booking', bookingSchema), 409: { description: 'Target resource already booked' } }
+  },
+  'DELETE /bookings/:id': {
+    summary: 'Cancel a booking',
+    tags: ['Bookings'],
+    auth: 'user',
+    params: idParams,
+    query: s.object({ scope: s.optional(s.enum(CANCEL_SCOPES, { ignoreCase: true })) }),
+    responses: ok('Cancelled', s.record())
+  },
+  'PUT /bookings/:id/attendance': {
+    summary: 'Answer an invitation to a room booking',
+    tags: ['Bookings'],
+    auth: 'user',
+    params: idParams,
+    body: s.object({ response: s.enum(['ACCEPTED', 'TENTATIVE', 'DECLINED'], { ignoreCase: true }) }),
+    responses: ok('Updated booking', bookingSchema)
+  },
+  'GET /bookings/:id/cancel-preview': { summary: 'What a cancellation would remove', tags: ['Bookings'], auth: 'user', params: idParams, responses: ok('Preview', s.record()) },
+  'POST /bookings/:id/cancel': {
+    summary: 'Cancel a booking, its series or all of the day on the resource',
+    tags: ['Bookings'],
+    auth: 'user',
+    params: idParams,
+    body: s.object({ scope: s.optional(s.enum(CANCEL_SCOPES, { ignoreCase: true })) }),
+    responses: ok('Cancelled', s.record())
+  },
+  'POST /bookings/:id/check-in': { summary: 'Check in to a booking', tags: ['Bookings'], auth: 'user', params: idParams, responses: ok('Checked-in booking', bookingSchema) },
+  'POST /bookings/check-conflicts': {
+    summary: 'Check a planned single, range or recurring booking for conflicts',
+    tags: ['Bookings'],
+    auth: 'user',
+    body: s.object({
+      deskId: s.id(),
+      userEmail: s.string({ minLength: 1 }),
+      userId: maybe(s.string()),
+      type: s.enum(['single', 'range', 'recurring']),
+      start: s.date(),
+      end: maybe(s.date()),
+      weekdays: maybe(s.array(s.integer({ min: 0, max: 6 }), { description: '0 = Sunday' })),
+      daySlot: maybe(s.string()),
+      startTime: maybe(s.time()),
+      endTime: maybe(s.time())
+    }),
+    responses: ok('Conflicts', s.record())
+  },
+  'POST /bookings/range': {
+    summary: 'Book a resource for every day in a range',
+    tags: ['Bookings'],
+    auth: 'user',
+    body: s.object({ deskId: s.id(), userEmail: s.string({ minLength: 1 }), from: s.date(), to: s.date(), weekdaysOnly: maybe(s.boolean()), replaceExisting: maybe(s.boolean()), overrideExisting: maybe(s.boolean()) }),
+    responses: { ...created('Created bookings', s.record()), 403: { description: 'Not bookable for the tenant, or DELEGATION_REQUIRED when booking for someone else' } }
+  },
+  'POST /bookings/parking-smart/propose': {
+    summary: 'Propose parking spots, optionally switching to a charger for part of the day',
+    tags: ['Parking'],
+    auth: 'user',
+    body: s.object({ floorplanId: s.id(), date: s.date(), arrivalTime: s.time(), departureTime: s.time(), chargingMinutes: s.number({ min: 0 }) }),
+    responses: ok('Proposal', s.record())
+  },
+  'POST /bookings/parking-smart/propose-week': {
+    summary: 'Propose parking spots for several days, keeping the same spot where possible',
+    tags: ['Parking'],
+    auth: 'user',
+    body: s.object({
+      floorplanId: s.id(),
+      days: s.array(
+        s.object({ date: s.date(), arrivalTime: s.time(), departureTime: s.time(), chargingMinutes: s.optional(s.number({ min: 0 })) }),
+        { minItems: 1, maxItems: MAX_PARKING_WEEK_DAYS }
+      )
+    }),
+    responses: ok('Proposal per day', s.record())
+  },
+  'POST /bookings/parking-smart/confirm': {
+    summary: 'Book a parking proposal; `days` books a week proposal in one transaction',
+    tags: ['Parking'],
+    auth: 'user',
+    body: s.object({
+      date: s.optional(s.date()),
+      bookings: s.optional(parkingProposalBookings),
+      days: s.optional(s.array(s.object({ date: s.date(), bookings: parkingProposalBookings }), { minItems: 1, maxItems: MAX_PARKING_WEEK_DAYS })),
+      bookedFor: bookedForSchema,
+      guestName: maybe(s.string())
+    }),
+    responses: created('Created bookings', s.record())
+  },
+
+  // Waitlist
+  'GET /waitlist': { summary: 'Waitlist entries of the current user', tags: ['Waitlist'], auth: 'user', query: s.object({ date: queryDate() }), responses: ok('Entries', s.array(waitlistEntrySchema)) },
+  'POST /waitlist': {
+    summary: 'Join the waitlist for a resource kind on a full floorplan',
+    tags: ['Waitlist'],
+    auth: 'user',
+    body: s.object({ floorplanId: s.id(), kind: resourceKind(), date: s.date(), autoBook: s.optional(s.boolean()), ...bookingWindowFields }),
+    responses: created('Created entry', waitlistEntrySchema)
+  },
+  'POST /waitlist/:id/accept': { summary: 'Accept an offered resource', tags: ['Waitlist'], auth: 'user', params: idParams, responses: ok('Entry with the created booking', waitlistEntrySchema) },
+  'DELETE /waitlist/:id': { summary: 'Leave the waitlist', tags: ['Waitlist'], auth: 'user', params: idParams, responses: noContent('Removed') },
+
+  // Recurring bookings
+  'POST /recurring-bookings': {
+    summary: 'Create a recurring booking',
+    tags: ['Recurring bookings'],
+    auth: 'user',
+    body: s.object({
+      ...recurrenceFields,
+      guestName: maybe(s.string()),
+      startTime: maybe(s.time()),
+      endTime: maybe(s.time()),
+      allowPartial: maybe(s.boolean()),
+      explicitDates: maybe(s.array(s.date())),
+      conflictStrategy: maybe(s.enum(['abort', 'ignore', 'reschedule'])),
+      conflictResolution: maybe(s.enum(['BOOK_ONLY_FREE', 'REBOOK_CONFLICTS_AND_BOOK_FREE']))
+    }),
+    responses: { ...created('Created series', s.record()), 409: { description: 'Occurrences conflict with existing bookings' }, 422: { description: 'Booking policy violated' } }
+  },
+  'POST /recurring-bookings/preview': { summary: 'Dates and conflicts of a planned series', tags: ['Recurring bookings'], auth: 'user', body: s.object(recurrenceFields), responses: ok('Preview', s.record()) },
+  'POST /recurring-bookings/resolve-conflicts': {
+    summary: 'Suggest alternative resources for conflicting dates of a series',
+    tags: ['Recurring bookings'],
+    auth: 'user',
+    body: s.object({
+      originalResourceId: s.id(),
+      floorplanId: s.id(),
+      period: s.enum(DAY_SLOTS, { ignoreCase: true }),
+      conflictDates: s.array(s.date()),
+      bookedFor: bookedForSchema,
+      guestName: maybe(s.string()),
+      recurrence: s.optional(s.object({
+        startDate: s.date(),
+        endDate: s.date(),
+        patternType: s.enum(RECURRENCE_PATTERNS),
+        interval: s.optional(s.integer({ min: 1 })),
+        byWeekday: s.optional(s.array(s.integer({ min: 1, max: 7 }))),
+        byMonthday: s.optional(s.integer()),
+        bySetPos: s.optional(s.integer()),
+        byMonth: s.optional(s.integer())
+      }))
+    }),
+    responses: ok('Suggestions per date', s.record())
+  },
+  'POST /recurring-bookings/bulk': { summary: 'Removed; use POST /recurring-bookings', tags: ['Recurring bookings'], auth: 'user', responses: { 410: { description: 'Gone' } } },
+  'GET /recurring-bookings': { summary: 'Recurring bookings', tags: ['Recurring bookings'], auth: 'user', query: s.object({ floorplanId: s.optional(s.string()) }), responses: ok('Series', s.array(recurringBookingSchema)) },
+  'DELETE /recurring-bookings/:recurringBookingId/instances': {
+    summary: 'Cancel all or the future bookings of a series',
+    tags: ['Recurring bookings'],
+    auth: 'user',
+    params: s.object({ recurringBookingId: s.id() }),
+    query: s.object({ mode: s.optional(s.enum(['ALL', 'FUTURE'], { ignoreCase: true })), anchorDate: s.optional(s.date()) }),
+    body: s.optional(s.object({ mode: s.optional(s.enum(['ALL', 'FUTURE'], { ignoreCase: true })), anchorDate: s.optional(s.date()) })),
+    responses: ok('Cancelled bookings', s.record())
+  },
+  'DELETE /recurring-bookings/:id': { summary: 'Delete a series with all its bookings', tags: ['Recurring bookings'], auth: 'user', params: idParams, responses: ok('Deleted', s.record()) },
+
+  // Administration: bookings
+  'GET /admin/bookings': {
+    summary: 'Bookings of all users',
+    tags: ['Admin'],
+    auth: 'admin',
+    query: s.object({ date: s.optional(s.string()), from: s.optional(s.string()), to: s.optional(s.string()), floorplanId: s.optional(s.string()), employeeId: s.optional(s.string()) }),
+    responses: ok('Bookings', s.array(bookingSchema))
+  },
+  'DELETE /admin/bookings': { summary: 'Delete several bookings', tags: ['Admin'], auth: 'admin', query: s.object({ ids: idList('Comma-separated or repeated booking ids') }), responses: ok('Number of deleted bookings', deleteResultSchema) },
+  'POST /admin/bookings/cleanup-duplicates': { summary: 'Remove duplicate bookings of the same user and day', tags: ['Admin'], auth: 'admin', responses: ok('Cleanup result', s.record()) },
+  'DELETE /admin/bookings/:id': { summary: 'Delete a booking', tags: ['Admin'], auth: 'admin', params: idParams, responses: noContent('Deleted') },
+  'PATCH /admin/bookings/:id': {
+    summary: 'Change user, resource, date or time of a booking',
+    tags: ['Admin'],
+    auth: 'admin',
+    params: idParams,
+    body: s.object({ userEmail: maybe(s.string()), deskId: maybe(s.string()), date: maybe(s.date()), slot: maybe(s.enum(BOOKING_SLOTS, { ignoreCase: true })), startTime: maybe(s.time()), endTime: maybe(s.time()) }),
+    responses: ok('Updated booking', bookingSchema)
+  },
+  'GET /admin/recurring-bookings': { summary: 'Recurring bookings of all users', tags: ['Admin'], auth: 'admin', query: s.object({ floorplanId: s.optional(s.string()) }), responses: ok('Series', s.array(recurringBookingSchema)) }
+};
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { s, toJsonSchema, validate } from './schema';
+
+const bookingBody = s.object({
+  deskId: s.id(),
+  date: s.date(),
+  kind: s.optional(s.enum(['TISCH', 'RAUM'], { ignoreCase: true })),
+  guestName: s.optional(s.nullable(s.string({ maxLength: 5 }))),
+  attendees: s.optional(s.array(s.object({ employeeId: s.string() }), { maxItems: 2 }))
+});
+
+test('objects report missing, mistyped and malformed fields with their path', () => {
+  assert.deepEqual(validate(bookingBody, { deskId: 'desk-1', date: '2026-10-21', extra: true }, 'body'), []);
+  assert.deepEqual(validate(bookingBody, { date: '21.10.2026', guestName: 'Maximilian' }, 'body'), [
+    { path: 'body.deskId', message: 'ist erforderlich' },
+    { path: 'body.date', message: 'muss im Format YYYY-MM-DD sein' },
+    { path: 'body.guestName', message: 'darf höchstens 5 Zeichen lang sein' }
+  ]);
+  assert.deepEqual(validate(bookingBody, { deskId: 1, date: '2026-10-21', attendees: [{ employeeId: 'a' }, {}] }, 'body'), [
+    { path: 'body.deskId', message: 'muss ein String sein, ist aber number' },
+    { path: 'body.attendees[1].employeeId', message: 'ist erforderlich' }
+  ]);
+  assert.deepEqual(validate(bookingBody, [], 'body'), [{ path: 'body', message: 'muss ein Objekt sein, ist aber array' }]);
+  assert.deepEqual(validate(bookingBody, undefined, 'body'), [{ path: 'body', message: 'ist erforderlich' }]);
+  assert.deepEqual(validate(s.optional(bookingBody), undefined, 'body'), []);
+});
+
+test('enums, nullables and coerced query values', () => {
+  assert.deepEqual(validate(bookingBody, { deskId: 'd', date: '2026-10-21', kind: ' raum ', guestName: null }), []);
+  assert.deepEqual(validate(bookingBody, { deskId: 'd', date: '2026-10-21', kind: 'BUERO' }), [{ path: 'kind', message: 'muss einer der Werte TISCH, RAUM sein' }]);
+  assert.deepEqual(validate(s.enum(['single']), 'SINGLE'), [{ path: '', message: 'muss einer der Werte single sein' }]);
+
+  const query = s.object({ page: s.optional(s.integer({ min: 1, coerce: true })), all: s.optional(s.boolean({ coerce: true })) });
+  assert.deepEqual(validate(query, { page: '3', all: 'true' }), []);
+  assert.deepEqual(validate(query, { page: '0' }), [{ path: 'page', message: 'muss >= 1 sein' }]);
+  assert.deepEqual(validate(query, { page: '2.5' }), [{ path: 'page', message: 'muss eine ganze Zahl sein, ist aber string' }]);
+  assert.deepEqual(validate(s.integer(), '3'), [{ path: '', message: 'muss eine ganze Zahl sein, ist aber string' }]);
+
+  const idList = s.union([s.string(), s.array(s.string())]);
+  assert.deepEqual(validate(idList, ['a', 'b']), []);
+  assert.deepEqual(validate(idList, ['a', 2]), [{ path: '[1]', message: 'muss ein String sein, ist aber number' }]);
+});
+
+test('schemas render as JSON Schema with shared components', () => {
+  const components = {};
+  const desk = s.named('Desk', s.object({ id: s.id(), capacity: s.nullable(s.integer({ min: 1 })) }, { description: 'A bookable resource' }));
+  assert.deepEqual(toJsonSchema(s.array(desk), { components }), { type: 'array', items: { $ref: '#/components/schemas/Desk' } });
+  assert.deepEqual(components, {
+    Desk: {
+      type: 'object',
+      description: 'A bookable resource',
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        capacity: { anyOf: [{ type: 'integer', minimum: 1 }, { type: 'null' }] }
+      },
+      required: ['id', 'capacity']
+    }
+  });
+  assert.deepEqual(toJsonSchema(s.date()), { type: 'string', format: 'date', pattern: '^\\d{4}-\\d{2}-\\d{2}$' });
+});
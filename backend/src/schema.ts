@@ -0,0 +1,245 @@
+// A small schema DSL for request validation and OpenAPI generation. It only covers what the routes need:
+// JSON primitives, arrays, objects, enums and unions. Objects accept unknown keys so older clients keep working.
+
+export type SchemaIssue = { path: string; message: string };
+export type JsonSchema = { [key: string]: unknown };
+export type JsonSchemaContext = { components: Record<string, JsonSchema> };
+
+export type Schema<T = unknown, IsOptional extends boolean = boolean> = {
+  readonly isOptional: IsOptional;
+  // Never set at runtime; lets `Infer` recover the TypeScript type.
+  readonly __type?: T;
+  check: (value: unknown, path: string, issues: SchemaIssue[]) => void;
+  toJsonSchema: (context: JsonSchemaContext) => JsonSchema;
+};
+
+export type Infer<S> = S extends Schema<infer T, boolean> ? T : never;
+
+type Shape = Record<string, Schema<unknown, boolean>>;
+type RequiredKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<unknown, true> ? never : K }[keyof S];
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<unknown, true> ? K : never }[keyof S];
+type InferShape<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+export type ObjectSchema<S extends Shape = Shape> = Schema<InferShape<S>, false> & { readonly shape: S };
+
+type Described = { description?: string };
+
+const withDescription = (json: JsonSchema, options?: Described): JsonSchema => (options?.description ? { ...json, description: options.description } : json);
+
+const createSchema = <T>(check: Schema<T>['check'], toJsonSchema: Schema<T>['toJsonSchema']): Schema<T, false> => ({ isOptional: false, check, toJsonSchema });
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const joinPath = (path: string, key: string | number): string => (typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+
+const INTEGER_STRING_PATTERN = /^-?\d+$/;
+const NUMBER_STRING_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// `patternLabel` completes "muss … sein" in the error message, e.g. "im Format YYYY-MM-DD".
+const string = (options: Described & { minLength?: number; maxLength?: number; pattern?: RegExp; patternLabel?: string; format?: string } = {}): Schema<string, false> => createSchema<string>(
+  (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `muss ein String sein, ist aber ${describeValue(value)}` });
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) issues.push({ path, message: options.minLength === 1 ? 'darf nicht leer sein' : `muss mindestens ${options.minLength} Zeichen lang sein` });
+    if (options.maxLength !== undefined && value.length > options.maxLength) issues.push({ path, message: `darf höchstens ${options.maxLength} Zeichen lang sein` });
+    if (options.pattern && !options.pattern.test(value)) issues.push({ path, message: `muss ${options.patternLabel ?? `ein gültiger Wert (${options.format ?? 'string'})`} sein` });
+  },
+  () => withDescription({
+    type: 'string',
+    ...(options.minLength !== undefined ? { minLength: options.minLength } : {}),
+    ...(options.maxLength !== undefined ? { maxLength: options.maxLength } : {}),
+    ...(options.format ? { format: options.format } : {}),
+    ...(options.pattern ? { pattern: options.pattern.source } : {})
+  }, options)
+);
+
+// `coerce` is meant for query strings and path params, where every value arrives as text.
+const numeric = (integerOnly: boolean, options: Described & { min?: number; max?: number; coerce?: boolean }): Schema<number, false> => createSchema<number>(
+  (value, path, issues) => {
+    let candidate = value;
+    if (options.coerce && typeof value === 'string' && (integerOnly ? INTEGER_STRING_PATTERN : NUMBER_STRING_PATTERN).test(value.trim())) candidate = Number(value);
+    if (typeof candidate !== 'number' || !Number.isFinite(candidate)) {
+      issues.push({ path, message: `muss ${integerOnly ? 'eine ganze Zahl' : 'eine Zahl'} sein, ist aber ${describeValue(value)}` });
+      return;
+    }
+    if (integerOnly && !Number.isInteger(candidate)) issues.push({ path, message: 'muss eine ganze Zahl sein' });
+    if (options.min !== undefined && candidate < options.min) issues.push({ path, message: `muss >= ${options.min} sein` });
+    if (options.max !== undefined && candidate > options.max) issues.push({ path, message: `muss <= ${options.max} sein` });
+  },
+  () => withDescription({
+    type: integerOnly ? 'integer' : 'number',
+    ...(options.min !== undefined ? { minimum: options.min } : {}),
+    ...(options.max !== undefined ? { maximum: options.max } : {})
+  }, options)
+);
+
+const number = (options: Described & { min?: number; max?: number; coerce?: boolean } = {}) => numeric(false, options);
+const integer = (options: Described & { min?: number; max?: number; coerce?: boolean } = {}) => numeric(true, options);
+
+const boolean = (options: Described & { coerce?: boolean } = {}): Schema<boolean, false> => createSchema<boolean>(
+  (value, path, issues) => {
+    if (typeof value === 'boolean') return;
+    if (options.coerce && (value === 'true' || value === 'false')) return;
+    issues.push({ path, message: `muss ein Boolean sein, ist aber ${describeValue(value)}` });
+  },
+  () => withDescription({ type: 'boolean' }, options)
+);
+
+// `ignoreCase` mirrors the handlers that normalize with trim() and toUpperCase() before comparing.
+const enumOf = <const V extends readonly string[]>(values: V, options: Described & { ignoreCase?: boolean } = {}): Schema<V[number], false> => createSchema<V[number]>(
+  (value, path, issues) => {
+    const matches = typeof value === 'string' && (options.ignoreCase
+      ? values.some((entry) => entry.toLowerCase() === value.trim().toLowerCase())
+      : values.includes(value));
+    if (!matches) issues.push({ path, message: `muss einer der Werte ${values.join(', ')} sein` });
+  },
+  () => withDescription({ type: 'string', enum: [...values] }, options)
+);
+
+const literal = <const V extends string | number | boolean>(expected: V, options: Described = {}): Schema<V, false> => createSchema<V>(
+  (value, path, issues) => {
+    if (value !== expected) issues.push({ path, message: `muss ${JSON.stringify(expected)} sein` });
+  },
+  () => withDescription({ const: expected }, options)
+);
+
+const array = <T>(item: Schema<T, boolean>, options: Described & { minItems?: number; maxItems?: number } = {}): Schema<T[], false> => createSchema<T[]>(
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `muss ein Array sein, ist aber ${describeValue(value)}` });
+      return;
+    }
+    if (options.minItems !== undefined && value.length < options.minItems) issues.push({ path, message: options.minItems === 1 ? 'darf nicht leer sein' : `muss mindestens ${options.minItems} Einträge enthalten` });
+    if (options.maxItems !== undefined && value.length > options.maxItems) issues.push({ path, message: `darf höchstens ${options.maxItems} Einträge enthalten` });
+    value.forEach((entry, index) => item.check(entry, joinPath(path, index), issues));
+  },
+  (context) => withDescription({
+    type: 'array',
+    items: item.toJsonSchema(context),
+    ...(options.minItems !== undefined ? { minItems: options.minItems } : {}),
+    ...(options.maxItems !== undefined ? { maxItems: options.maxItems } : {})
+  }, options)
+);
+
+const object = <S extends Shape>(shape: S, options: Described = {}): ObjectSchema<S> => ({
+  ...createSchema<InferShape<S>>(
+    (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `muss ein Objekt sein, ist aber ${describeValue(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, schema] of Object.entries(shape)) {
+        const entry = record[key];
+        if (entry === undefined) {
+          if (!schema.isOptional) issues.push({ path: joinPath(path, key), message: 'ist erforderlich' });
+          continue;
+        }
+        schema.check(entry, joinPath(path, key), issues);
+      }
+    },
+    (context) => {
+      const required = Object.entries(shape).filter(([, schema]) => !schema.isOptional).map(([key]) => key);
+      return withDescription({
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.toJsonSchema(context)])),
+        ...(required.length > 0 ? { required } : {})
+      }, options);
+    }
+  ),
+  shape
+});
+
+// Free-form maps such as raw table rows or payloads the handler interprets itself.
+const record = (options: Described = {}): Schema<Record<string, unknown>, false> => createSchema<Record<string, unknown>>(
+  (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) issues.push({ path, message: `muss ein Objekt sein, ist aber ${describeValue(value)}` });
+  },
+  () => withDescription({ type: 'object', additionalProperties: true }, options)
+);
+
+const unknown = (options: Described = {}): Schema<unknown, false> => createSchema<unknown>(() => undefined, () => withDescription({}, options));
+
+const union = <T extends Schema<unknown, boolean>[]>(schemas: T, options: Described = {}): Schema<Infer<T[number]>, false> => createSchema<Infer<T[number]>>(
+  (value, path, issues) => {
+    const attempts = schemas.map((schema) => {
+      const schemaIssues: SchemaIssue[] = [];
+      schema.check(value, path, schemaIssues);
+      return schemaIssues;
+    });
+    if (attempts.some((attempt) => attempt.length === 0)) return;
+    // Report the alternative that got furthest instead of a vague "matches none": one whose type matched
+    // (issues below the value itself) beats one rejected outright, then the fewest issues win.
+    const rank = (attempt: SchemaIssue[]) => [attempt.some((issue) => issue.path === path) ? 1 : 0, attempt.length];
+    issues.push(...attempts.reduce((best, attempt) => {
+      const [attemptRejected, attemptCount] = rank(attempt);
+      const [bestRejected, bestCount] = rank(best);
+      return attemptRejected < bestRejected || (attemptRejected === bestRejected && attemptCount < bestCount) ? attempt : best;
+    }));
+  },
+  (context) => withDescription({ anyOf: schemas.map((schema) => schema.toJsonSchema(context)) }, options)
+);
+
+const optional = <T>(schema: Schema<T, boolean>): Schema<T | undefined, true> => ({ ...schema, isOptional: true }) as Schema<T | undefined, true>;
+
+const nullable = <T, O extends boolean>(schema: Schema<T, O>): Schema<T | null, O> => ({
+  ...schema,
+  check: (value, path, issues) => {
+    if (value !== null) schema.check(value, path, issues);
+  },
+  toJsonSchema: (context) => ({ anyOf: [schema.toJsonSchema(context), { type: 'null' }] })
+}) as Schema<T | null, O>;
+
+// Registers the schema under components/schemas and emits a $ref wherever it is used.
+const named = <T, O extends boolean>(name: string, schema: Schema<T, O>): Schema<T, O> => ({
+  ...schema,
+  toJsonSchema: (context) => {
+    if (!context.components[name]) {
+      context.components[name] = {};
+      context.components[name] = schema.toJsonSchema(context);
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+});
+
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export const s = {
+  string,
+  number,
+  integer,
+  boolean,
+  enum: enumOf,
+  literal,
+  array,
+  object,
+  record,
+  unknown,
+  union,
+  optional,
+  nullable,
+  named,
+  id: (options: Described = {}) => string({ minLength: 1, ...options }),
+  date: (options: Described = {}) => string({ pattern: ISO_DATE_PATTERN, patternLabel: 'im Format YYYY-MM-DD', format: 'date', ...options }),
+  dateTime: (options: Described = {}) => string({ format: 'date-time', ...options }),
+  time: (options: Described = {}) => string({ pattern: TIME_PATTERN, patternLabel: 'im Format HH:MM', ...options })
+};
+
+export const validate = (schema: Schema<unknown, boolean>, value: unknown, path = ''): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  if (value === undefined) {
+    if (!schema.isOptional) issues.push({ path, message: 'ist erforderlich' });
+    return issues;
+  }
+  schema.check(value, path, issues);
+  return issues;
+};
+
+export const toJsonSchema = (schema: Schema<unknown, boolean>, context: JsonSchemaContext = { components: {} }): JsonSchema => schema.toJsonSchema(context);
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { availableMinutesQuery, bookedMinutesQuery, buildUtilizationReport, parseUtilizationDimension, parseUtilizationFilter, toCsv, utilizationReportToCsv, type UtilizationFilter } from './utilization';
+
+const filter: UtilizationFilter = { from: '2026-10-12', to: '2026-10-16', weekdays: [1, 2, 3, 4, 5], floorplanId: null, kind: null };
+
+test('filters default to the last 30 days on weekdays and validate their input', () => {
+  assert.deepEqual(parseUtilizationFilter({}, '2026-10-19'), { ok: true, value: { from: '2026-09-20', to: '2026-10-19', weekdays: [1, 2, 3, 4, 5], floorplanId: null, kind: null } });
+  assert.deepEqual(parseUtilizationFilter({ from: '2026-10-01', to: '2026-10-07', weekdays: '7, 1,1', floorplanId: ' fp-1 ', kind: 'raum' }, '2026-10-19'), {
+    ok: true,
+    value: { from: '2026-10-01', to: '2026-10-07', weekdays: [1, 7], floorplanId: 'fp-1', kind: 'RAUM' }
+  });
+  assert.deepEqual(parseUtilizationFilter({ from: '2026-02-30' }, '2026-10-19'), { ok: false, message: 'from muss im Format YYYY-MM-DD sein' });
+  assert.deepEqual(parseUtilizationFilter({ from: '2026-10-08', to: '2026-10-07' }, '2026-10-19'), { ok: false, message: 'to darf nicht vor from liegen' });
+  assert.deepEqual(parseUtilizationFilter({ from: '2025-01-01', to: '2026-01-02' }, '2026-10-19'), { ok: false, message: 'Der Zeitraum darf höchstens 366 Tage umfassen' });
+  assert.equal(parseUtilizationFilter({ weekdays: '0,1' }, '2026-10-19').ok, false);
+  assert.equal(parseUtilizationFilter({ kind: 'BUERO' }, '2026-10-19').ok, false);
+
+  assert.deepEqual(parseUtilizationDimension(undefined), { ok: true, value: 'desk' });
+  assert.deepEqual(parseUtilizationDimension('Weekday'), { ok: true, value: 'weekday' });
+  assert.equal(parseUtilizationDimension('employee').ok, false);
+});
+
+test('queries only add resource filters that are set', () => {
+  const unfiltered = bookedMinutesQuery(filter);
+  assert.match(unfiltered.text, /GROUPING SETS/);
+  assert.doesNotMatch(unfiltered.text, /"floorplanId" = \$/);
+  assert.deepEqual(unfiltered.values.slice(0, 3), ['2026-10-12', '2026-10-16', [1, 2, 3, 4, 5]]);
+
+  const filtered = availableMinutesQuery({ ...filter, floorplanId: 'fp-1', kind: 'TISCH' });
+  assert.match(filtered.text, /d\."floorplanId" = \$\d+/);
+  assert.ok(filtered.values.includes('fp-1') && filtered.values.includes('TISCH'));
+});
+
+test('reports merge booked and available minutes per dimension', () => {
+  const report = buildUtilizationReport(
+    filter,
+    [
+      { dimension: 'total', key: null, minutes: 1080, bookings: 3, guest_bookings: 1 },
+      { dimension: 'desk', key: 'd1', minutes: 720, bookings: 2, guest_bookings: 1 },
+      { dimension: 'desk', key: 'd2', minutes: 360, bookings: 1, guest_bookings: 0 },
+      { dimension: 'tenant', key: 't1', minutes: 720, bookings: 2, guest_bookings: 1 },
+      { dimension: 'tenant', key: null, minutes: 360, bookings: 1, guest_bookings: 0 },
+      { dimension: 'weekday', key: '2', minutes: 1080, bookings: 3, guest_bookings: 1 },
+      { dimension: 'day', key: '2026-10-13', minutes: 1080, bookings: 3, guest_bookings: 1 }
+    ],
+    [
+      { dimension: 'total', key: null, minutes: 10800 },
+      { dimension: 'desk', key: 'd1', minutes: 3600 },
+      { dimension: 'desk', key: 'd2', minutes: 3600 },
+      { dimension: 'desk', key: 'd3', minutes: 3600 },
+      { dimension: 'weekday', key: '1', minutes: 2160 },
+      { dimension: 'weekday', key: '2', minutes: 2160 },
+      { dimension: 'day', key: '2026-10-12', minutes: 2160 },
+      { dimension: 'day', key: '2026-10-13', minutes: 2160 }
+    ],
+    {
+      desks: [{ id: 'd1', name: 'A-1', floorplanId: 'fp', kind: 'TISCH' }, { id: 'd2', name: 'A-2', floorplanId: 'fp', kind: 'TISCH' }, { id: 'd3', name: 'P-1', floorplanId: 'fp', kind: 'PARKPLATZ' }],
+      floorplans: [{ id: 'fp', name: 'HQ' }],
+      tenants: [{ id: 't1', name: null, domain: 'avency.de' }]
+    }
+  );
+
+  assert.deepEqual(report.totals, { key: null, label: null, bookedMinutes: 1080, availableMinutes: 10800, utilization: 0.1, bookings: 3, guestBookings: 1, guestShare: 0.3333 });
+  assert.deepEqual(report.byDesk.map((row) => [row.key, row.label, row.utilization, row.kind]), [['d1', 'A-1', 0.2, 'TISCH'], ['d2', 'A-2', 0.1, 'TISCH'], ['d3', 'P-1', 0, 'PARKPLATZ']]);
+  assert.deepEqual(report.unbookedDesks.map((row) => row.key), ['d3']);
+  assert.deepEqual(report.byTenant.map((row) => [row.key, row.label, row.availableMinutes, row.utilization]), [['t1', 'avency.de', null, null], [null, null, null, null]]);
+  assert.deepEqual(report.byWeekday.map((row) => [row.label, row.bookedMinutes, row.utilization]), [['Monday', 0, 0], ['Tuesday', 1080, 0.5]]);
+  assert.deepEqual(report.peakDays.map((row) => row.key), ['2026-10-13']);
+  assert.equal(report.businessHours.start, '06:00');
+});
+
+test('CSV export quotes and guards cells', () => {
+  assert.equal(toCsv(['a', 'b'], [['x, "y"', 1], ['=SUM(A1)', null]]), 'a,b\r\n"x, ""y""",1\r\n\'=SUM(A1),\r\n');
+
+  const report = buildUtilizationReport(filter, [{ dimension: 'desk', key: 'd1', minutes: 360, bookings: 1, guest_bookings: 0 }], [{ dimension: 'desk', key: 'd1', minutes: 3600 }, { dimension: 'floorplan', key: 'fp', minutes: 3600 }], {
+    desks: [{ id: 'd1', name: 'A-1', floorplanId: 'fp', kind: 'TISCH' }],
+    floorplans: [{ id: 'fp', name: 'HQ' }],
+    tenants: []
+  });
+  assert.equal(utilizationReportToCsv(report, 'desk'), 'desk,label,floorplan,kind,booked_minutes,available_minutes,utilization,bookings,guest_bookings,guest_share\r\nd1,A-1,HQ,TISCH,360,3600,0.1,1,0,0\r\n');
+});
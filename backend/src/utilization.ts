@@ -0,0 +1,285 @@
+import { Prisma, type ResourceKind } from '@prisma/client';
+
+// Utilization is measured against one business day per resource and day (06:00–18:00, as on the room ring):
+// half-day bookings cover one half, timed bookings only count the part inside the window.
+export const BUSINESS_DAY_START_MINUTE = 6 * 60;
+export const BUSINESS_DAY_END_MINUTE = 18 * 60;
+export const BUSINESS_DAY_MINUTES = BUSINESS_DAY_END_MINUTE - BUSINESS_DAY_START_MINUTE;
+export const MAX_UTILIZATION_RANGE_DAYS = 366;
+export const DEFAULT_UTILIZATION_RANGE_DAYS = 30;
+export const PEAK_DAY_COUNT = 5;
+
+export const UTILIZATION_DIMENSIONS = ['floorplan', 'desk', 'kind', 'tenant', 'weekday', 'day'] as const;
+export type UtilizationDimension = (typeof UTILIZATION_DIMENSIONS)[number];
+
+const RESOURCE_KINDS: ResourceKind[] = ['TISCH', 'PARKPLATZ', 'RAUM', 'SONSTIGES'];
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type UtilizationFilter = {
+  from: string;
+  to: string;
+  // ISO weekdays (1 = Monday … 7 = Sunday); other days count neither as booked nor as available.
+  weekdays: number[];
+  floorplanId: string | null;
+  kind: ResourceKind | null;
+};
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const isValidDate = (value: string): boolean => DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00.000Z`).getTime()) && new Date(`${value}T00:00:00.000Z`).toISOString().slice(0, 10) === value;
+
+const daysBetween = (from: string, to: string): number => Math.round((Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) / 86_400_000);
+
+// Without parameters the report covers the last 30 days up to today, Monday to Friday.
+export const parseUtilizationFilter = (query: { from?: unknown; to?: unknown; weekdays?: unknown; floorplanId?: unknown; kind?: unknown }, today: string): ParseResult<UtilizationFilter> => {
+  const hasFrom = typeof query.from === 'string' && query.from.length > 0;
+  const hasTo = typeof query.to === 'string' && query.to.length > 0;
+  if (hasFrom && !isValidDate(query.from as string)) return { ok: false, message: 'from muss im Format YYYY-MM-DD sein' };
+  if (hasTo && !isValidDate(query.to as string)) return { ok: false, message: 'to muss im Format YYYY-MM-DD sein' };
+
+  const to = hasTo ? query.to as string : today;
+  const from = hasFrom ? query.from as string : addDays(to, 1 - DEFAULT_UTILIZATION_RANGE_DAYS);
+  if (to < from) return { ok: false, message: 'to darf nicht vor from liegen' };
+  if (daysBetween(from, to) >= MAX_UTILIZATION_RANGE_DAYS) return { ok: false, message: `Der Zeitraum darf höchstens ${MAX_UTILIZATION_RANGE_DAYS} Tage umfassen` };
+
+  let weekdays = [1, 2, 3, 4, 5];
+  if (typeof query.weekdays === 'string' && query.weekdays.trim()) {
+    const parsed = query.weekdays.split(',').map((entry) => Number(entry.trim()));
+    if (parsed.some((weekday) => !Number.isInteger(weekday) || weekday < 1 || weekday > 7)) return { ok: false, message: 'weekdays must be a comma separated list of 1 (Monday) to 7 (Sunday)' };
+    weekdays = Array.from(new Set(parsed)).sort((left, right) => left - right);
+  }
+
+  const floorplanId = typeof query.floorplanId === 'string' && query.floorplanId.trim() ? query.floorplanId.trim() : null;
+  let kind: ResourceKind | null = null;
+  if (typeof query.kind === 'string' && query.kind.trim()) {
+    const normalized = query.kind.trim().toUpperCase();
+    if (!RESOURCE_KINDS.includes(normalized as ResourceKind)) return { ok: false, message: `kind muss einer der Werte ${RESOURCE_KINDS.join(', ')} sein` };
+    kind = normalized as ResourceKind;
+  }
+
+  return { ok: true, value: { from, to, weekdays, floorplanId, kind } };
+};
+
+export const parseUtilizationDimension = (value: unknown): ParseResult<UtilizationDimension> => {
+  const normalized = typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : 'desk';
+  if (!(UTILIZATION_DIMENSIONS as readonly string[]).includes(normalized)) return { ok: false, message: `dimension muss einer der Werte ${UTILIZATION_DIMENSIONS.join(', ')} sein` };
+  return { ok: true, value: normalized as UtilizationDimension };
+};
+
+const resourceFilterSql = (filter: UtilizationFilter): Prisma.Sql => Prisma.sql`
+  ${filter.floorplanId ? Prisma.sql`AND d."floorplanId" = ${filter.floorplanId}` : Prisma.empty}
+  ${filter.kind ? Prisma.sql`AND d."kind"::text = ${filter.kind}` : Prisma.empty}`;
+
+// Both queries aggregate all dimensions in one pass with GROUPING SETS; `dimension` names the set a row belongs
+// to and `key` its value (null for the grand total and for bookings by employees without a tenant).
+const dimensionColumnsSql = (withTenant: boolean): Prisma.Sql => Prisma.sql`
+  CASE
+    WHEN GROUPING(floorplan_id) = 0 THEN 'floorplan'
+    WHEN GROUPING(desk_id) = 0 THEN 'desk'
+    WHEN GROUPING(kind) = 0 THEN 'kind'
+    ${withTenant ? Prisma.sql`WHEN GROUPING(tenant_id) = 0 THEN 'tenant'` : Prisma.empty}
+    WHEN GROUPING(weekday) = 0 THEN 'weekday'
+    WHEN GROUPING(day) = 0 THEN 'day'
+    ELSE 'total'
+  END AS dimension,
+  COALESCE(floorplan_id, desk_id, kind, ${withTenant ? Prisma.sql`tenant_id,` : Prisma.empty} weekday::text, to_char(day, 'YYYY-MM-DD')) AS key`;
+
+export const bookedMinutesQuery = (filter: UtilizationFilter): Prisma.Sql => Prisma.sql`
+  WITH booking_windows AS (
+    SELECT
+      b."deskId" AS desk_id,
+      d."floorplanId" AS floorplan_id,
+      d."kind"::text AS kind,
+      COALESCE(e."tenantDomainId", c."tenantDomainId") AS tenant_id,
+      EXTRACT(ISODOW FROM b."date")::int AS weekday,
+      b."date" AS day,
+      b."bookedFor" = 'GUEST' AS is_guest,
+      COALESCE(b."startMinute", (EXTRACT(HOUR FROM b."startTime") * 60 + EXTRACT(MINUTE FROM b."startTime"))::int) AS start_minute,
+      COALESCE(b."endMinute", (EXTRACT(HOUR FROM b."endTime") * 60 + EXTRACT(MINUTE FROM b."endTime"))::int) AS end_minute,
+      COALESCE(b."daySlot"::text, CASE b."slot" WHEN 'FULL_DAY' THEN 'FULL' WHEN 'MORNING' THEN 'AM' WHEN 'AFTERNOON' THEN 'PM' END) AS day_slot
+    FROM "Booking" b
+    JOIN "Desk" d ON d."id" = b."deskId"
+    LEFT JOIN "Employee" e ON e."id" = b."employeeId"
+    LEFT JOIN "Employee" c ON c."id" = b."createdByEmployeeId"
+    WHERE b."date" BETWEEN ${filter.from}::date AND ${filter.to}::date
+      AND EXTRACT(ISODOW FROM b."date")::int = ANY(${filter.weekdays}::int[])
+      ${resourceFilterSql(filter)}
+  ),
+  booking_minutes AS (
+    SELECT *,
+      CASE
+        WHEN start_minute IS NOT NULL AND end_minute IS NOT NULL
+          THEN GREATEST(0, LEAST(end_minute, ${BUSINESS_DAY_END_MINUTE}) - GREATEST(start_minute, ${BUSINESS_DAY_START_MINUTE}))
+        WHEN day_slot IN ('AM', 'PM') THEN ${BUSINESS_DAY_MINUTES / 2}
+        WHEN day_slot = 'FULL' THEN ${BUSINESS_DAY_MINUTES}
+        ELSE 0
+      END AS minutes
+    FROM booking_windows
+  )
+  SELECT
+    ${dimensionColumnsSql(true)},
+    SUM(minutes)::int AS minutes,
+    COUNT(*)::int AS bookings,
+    (COUNT(*) FILTER (WHERE is_guest))::int AS guest_bookings
+  FROM booking_minutes
+  GROUP BY GROUPING SETS ((floorplan_id), (desk_id), (kind), (tenant_id), (weekday), (day), ())`;
+
+// A resource is available on every selected day from the day it was created.
+export const availableMinutesQuery = (filter: UtilizationFilter): Prisma.Sql => Prisma.sql`
+  WITH days AS (
+    SELECT series::date AS day
+    FROM generate_series(${filter.from}::date, ${filter.to}::date, interval '1 day') AS series
+    WHERE EXTRACT(ISODOW FROM series)::int = ANY(${filter.weekdays}::int[])
+  ),
+  desk_days AS (
+    SELECT d."id" AS desk_id, d."floorplanId" AS floorplan_id, d."kind"::text AS kind, EXTRACT(ISODOW FROM days.day)::int AS weekday, days.day
+    FROM "Desk" d
+    JOIN days ON d."createdAt"::date <= days.day
+    WHERE TRUE ${resourceFilterSql(filter)}
+  )
+  SELECT
+    ${dimensionColumnsSql(false)},
+    (COUNT(*) * ${BUSINESS_DAY_MINUTES})::int AS minutes
+  FROM desk_days
+  GROUP BY GROUPING SETS ((floorplan_id), (desk_id), (kind), (weekday), (day), ())`;
+
+export type BookedMinutesRow = { dimension: UtilizationDimension | 'total'; key: string | null; minutes: number; bookings: number; guest_bookings: number };
+export type AvailableMinutesRow = { dimension: UtilizationDimension | 'total'; key: string | null; minutes: number };
+
+export type UtilizationRow = {
+  key: string | null;
+  label: string | null;
+  bookedMinutes: number;
+  // Null for tenants: resources are shared, so there is no per-tenant capacity.
+  availableMinutes: number | null;
+  utilization: number | null;
+  bookings: number;
+  guestBookings: number;
+  guestShare: number | null;
+};
+export type DeskUtilizationRow = UtilizationRow & { floorplanId: string | null; kind: ResourceKind | null };
+
+export type UtilizationReport = {
+  filter: UtilizationFilter;
+  businessHours: { start: string; end: string };
+  totals: UtilizationRow;
+  byFloorplan: UtilizationRow[];
+  byDesk: DeskUtilizationRow[];
+  byKind: UtilizationRow[];
+  byTenant: UtilizationRow[];
+  byWeekday: UtilizationRow[];
+  byDay: UtilizationRow[];
+  peakDays: UtilizationRow[];
+  unbookedDesks: DeskUtilizationRow[];
+};
+
+export type UtilizationLabels = {
+  desks: Array<{ id: string; name: string; floorplanId: string; kind: ResourceKind }>;
+  floorplans: Array<{ id: string; name: string }>;
+  tenants: Array<{ id: string; name: string | null; domain: string }>;
+};
+
+const ratio = (part: number, whole: number | null): number | null => (whole ? Math.round((part / whole) * 10_000) / 10_000 : null);
+
+const minutesToClock = (minute: number): string => `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+const byUtilizationThenMinutes = (left: UtilizationRow, right: UtilizationRow): number => (
+  (right.utilization ?? -1) - (left.utilization ?? -1) || right.bookedMinutes - left.bookedMinutes
+);
+
+export const buildUtilizationReport = (filter: UtilizationFilter, booked: BookedMinutesRow[], available: AvailableMinutesRow[], labels: UtilizationLabels): UtilizationReport => {
+  const deskById = new Map(labels.desks.map((desk) => [desk.id, desk]));
+  const floorplanNames = new Map(labels.floorplans.map((floorplan) => [floorplan.id, floorplan.name]));
+  const tenantNames = new Map(labels.tenants.map((tenant) => [tenant.id, tenant.name || tenant.domain]));
+
+  const labelFor = (dimension: UtilizationDimension | 'total', key: string | null): string | null => {
+    if (key === null) return null;
+    if (dimension === 'floorplan') return floorplanNames.get(key) ?? null;
+    if (dimension === 'desk') return deskById.get(key)?.name ?? null;
+    if (dimension === 'tenant') return tenantNames.get(key) ?? null;
+    if (dimension === 'weekday') return WEEKDAY_NAMES[Number(key) - 1] ?? null;
+    return key;
+  };
+
+  const rowsFor = (dimension: UtilizationDimension | 'total'): UtilizationRow[] => {
+    const rows = new Map<string | null, UtilizationRow>();
+    const rowFor = (key: string | null): UtilizationRow => {
+      const existing = rows.get(key);
+      if (existing) return existing;
+      const created: UtilizationRow = { key, label: labelFor(dimension, key), bookedMinutes: 0, availableMinutes: dimension === 'tenant' ? null : 0, utilization: null, bookings: 0, guestBookings: 0, guestShare: null };
+      rows.set(key, created);
+      return created;
+    };
+    for (const entry of available.filter((candidate) => candidate.dimension === dimension)) rowFor(entry.key).availableMinutes = entry.minutes;
+    for (const entry of booked.filter((candidate) => candidate.dimension === dimension)) {
+      const row = rowFor(entry.key);
+      row.bookedMinutes = entry.minutes;
+      row.bookings = entry.bookings;
+      row.guestBookings = entry.guest_bookings;
+    }
+    return Array.from(rows.values()).map((row) => ({ ...row, utilization: ratio(row.bookedMinutes, row.availableMinutes), guestShare: ratio(row.guestBookings, row.bookings) }));
+  };
+
+  const byDesk = rowsFor('desk')
+    .map((row) => ({ ...row, floorplanId: deskById.get(row.key ?? '')?.floorplanId ?? null, kind: deskById.get(row.key ?? '')?.kind ?? null }))
+    .sort(byUtilizationThenMinutes);
+  const byDay = rowsFor('day').sort((left, right) => (left.key ?? '').localeCompare(right.key ?? ''));
+  const emptyTotals: UtilizationRow = { key: null, label: null, bookedMinutes: 0, availableMinutes: 0, utilization: null, bookings: 0, guestBookings: 0, guestShare: null };
+
+  return {
+    filter,
+    businessHours: { start: minutesToClock(BUSINESS_DAY_START_MINUTE), end: minutesToClock(BUSINESS_DAY_END_MINUTE) },
+    totals: rowsFor('total')[0] ?? emptyTotals,
+    byFloorplan: rowsFor('floorplan').sort(byUtilizationThenMinutes),
+    byDesk,
+    byKind: rowsFor('kind').sort(byUtilizationThenMinutes),
+    byTenant: rowsFor('tenant').sort((left, right) => right.bookedMinutes - left.bookedMinutes),
+    byWeekday: rowsFor('weekday').sort((left, right) => Number(left.key) - Number(right.key)),
+    byDay,
+    peakDays: byDay.filter((row) => row.bookings > 0).sort(byUtilizationThenMinutes).slice(0, PEAK_DAY_COUNT),
+    unbookedDesks: byDesk.filter((row) => row.bookings === 0 && (row.availableMinutes ?? 0) > 0).sort((left, right) => (left.label ?? '').localeCompare(right.label ?? ''))
+  };
+};
+
+// Leading =, +, - or @ would be evaluated as a formula by spreadsheet programs.
+const escapeCsvCell = (value: string | number | null): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const guarded = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+};
+
+export const toCsv = (header: string[], rows: Array<Array<string | number | null>>): string => (
+  [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n'
+);
+
+const DIMENSION_ROWS: Record<UtilizationDimension, keyof UtilizationReport> = {
+  floorplan: 'byFloorplan',
+  desk: 'byDesk',
+  kind: 'byKind',
+  tenant: 'byTenant',
+  weekday: 'byWeekday',
+  day: 'byDay'
+};
+
+export const utilizationReportToCsv = (report: UtilizationReport, dimension: UtilizationDimension): string => {
+  const rows = report[DIMENSION_ROWS[dimension]] as UtilizationRow[];
+  const floorplanNames = new Map(report.byFloorplan.map((row) => [row.key, row.label]));
+  const extraHeader = dimension === 'desk' ? ['floorplan', 'kind'] : [];
+  const extraCells = (row: UtilizationRow): Array<string | null> => {
+    if (dimension !== 'desk') return [];
+    const desk = row as DeskUtilizationRow;
+    return [floorplanNames.get(desk.floorplanId) ?? desk.floorplanId, desk.kind];
+  };
+  return toCsv(
+    [dimension, 'label', ...extraHeader, 'booked_minutes', 'available_minutes', 'utilization', 'bookings', 'guest_bookings', 'guest_share'],
+    rows.map((row) => [row.key, row.label, ...extraCells(row), row.bookedMinutes, row.availableMinutes, row.utilization, row.bookings, row.guestBookings, row.guestShare])
+  );
+};
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createVisitorCode, normalizeVisitorCode, parseVisitorInput, resolveVisitorRetentionCutoff, resolveVisitorRetentionDays, resolveVisitorStatus, VISITOR_CODE_LENGTH } from './visitors';
+
+test('visitor codes avoid look-alike characters and accept sloppy input', () => {
+  assert.equal(createVisitorCode(() => 0), 'AAAAAAAA');
+  const code = createVisitorCode();
+  assert.equal(code.length, VISITOR_CODE_LENGTH);
+  assert.match(code, /^[A-HJKMNP-Z2-9]+$/);
+  assert.equal(normalizeVisitorCode(' abcd-efgh '), 'ABCDEFGH');
+});
+
+test('visitor details are trimmed and validated', () => {
+  assert.deepEqual(parseVisitorInput({ email: ' Jana@Example.com ', company: ' ACME ', hostEmployeeId: '', expectedArrivalTime: '09:30' }), {
+    ok: true,
+    value: { email: 'jana@example.com', company: 'ACME', hostEmployeeId: null, expectedArrivalMinute: 570 }
+  });
+  assert.deepEqual(parseVisitorInput(undefined), { ok: true, value: { email: null, company: null, hostEmployeeId: null, expectedArrivalMinute: null } });
+  assert.deepEqual(parseVisitorInput({ email: 'jana' }), { ok: false, message: 'Besucher-E-Mail jana ist ungültig' });
+  assert.deepEqual(parseVisitorInput({ expectedArrivalTime: '24:00' }), { ok: false, message: 'visitor expectedArrivalTime muss im Format HH:MM sein' });
+});
+
+test('visitor status follows arrival and departure', () => {
+  const arrivedAt = new Date('2026-10-19T08:00:00.000Z');
+  assert.equal(resolveVisitorStatus({ arrivedAt: null, departedAt: null }), 'EXPECTED');
+  assert.equal(resolveVisitorStatus({ arrivedAt, departedAt: null }), 'ARRIVED');
+  assert.equal(resolveVisitorStatus({ arrivedAt, departedAt: new Date('2026-10-19T12:00:00.000Z') }), 'DEPARTED');
+});
+
+test('retention defaults to 30 days and keeps visits on the cutoff date', () => {
+  assert.equal(resolveVisitorRetentionDays(undefined), 30);
+  assert.equal(resolveVisitorRetentionDays('0'), 30);
+  assert.equal(resolveVisitorRetentionDays('7'), 7);
+  assert.equal(resolveVisitorRetentionCutoff(new Date('2026-03-03T00:00:00.000Z'), 7).toISOString(), '2026-02-24T00:00:00.000Z');
+});
@@ -0,0 +1,56 @@
+import { randomInt } from 'node:crypto';
+
+// No 0/O or 1/I/L, so a code read out at the reception desk cannot be mistyped.
+const VISITOR_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const VISITOR_CODE_LENGTH = 8;
+export const DEFAULT_VISITOR_RETENTION_DAYS = 30;
+const MAX_VISITOR_TEXT_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type VisitorStatus = 'EXPECTED' | 'ARRIVED' | 'DEPARTED';
+
+// hostEmployeeId null means the person who books the guest is the host.
+export type VisitorInput = { email: string | null; company: string | null; hostEmployeeId: string | null; expectedArrivalMinute: number | null };
+
+export const createVisitorCode = (random: (max: number) => number = randomInt): string => (
+  Array.from({ length: VISITOR_CODE_LENGTH }, () => VISITOR_CODE_ALPHABET[random(VISITOR_CODE_ALPHABET.length)]).join('')
+);
+
+// Reception may type the code with spaces, dashes or in lower case.
+export const normalizeVisitorCode = (value: string): string => value.toUpperCase().replace(/[\s-]/g, '');
+
+const optionalText = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+export const parseVisitorInput = (body: unknown): { ok: true; value: VisitorInput } | { ok: false; message: string } => {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as { email?: unknown; company?: unknown; hostEmployeeId?: unknown; expectedArrivalTime?: unknown };
+
+  const email = optionalText(raw.email)?.toLowerCase() ?? null;
+  if (email && !EMAIL_PATTERN.test(email)) return { ok: false, message: `Besucher-E-Mail ${email} ist ungültig` };
+  const company = optionalText(raw.company);
+  if (company && company.length > MAX_VISITOR_TEXT_LENGTH) return { ok: false, message: `visitor company darf höchstens ${MAX_VISITOR_TEXT_LENGTH} Zeichen lang sein` };
+
+  let expectedArrivalMinute: number | null = null;
+  const arrival = optionalText(raw.expectedArrivalTime);
+  if (arrival) {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(arrival);
+    if (!match) return { ok: false, message: 'visitor expectedArrivalTime muss im Format HH:MM sein' };
+    expectedArrivalMinute = Number(match[1]) * 60 + Number(match[2]);
+  }
+
+  return { ok: true, value: { email, company, hostEmployeeId: optionalText(raw.hostEmployeeId), expectedArrivalMinute } };
+};
+
+export const resolveVisitorStatus = (visitor: { arrivedAt: Date | null; departedAt: Date | null }): VisitorStatus => {
+  if (visitor.departedAt) return 'DEPARTED';
+  return visitor.arrivedAt ? 'ARRIVED' : 'EXPECTED';
+};
+
+export const resolveVisitorRetentionDays = (value: string | undefined): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_VISITOR_RETENTION_DAYS;
+};
+
+// Visits on or after the returned date are kept; `today` is a date-only value (UTC midnight).
+export const resolveVisitorRetentionCutoff = (today: Date, retentionDays: number): Date => (
+  new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - retentionDays))
+);
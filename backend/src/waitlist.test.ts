@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { assignWaitlistCapacity } from './waitlist';
+
+test('the first waiter gets the freed spot', () => {
+  const assignments = assignWaitlistCapacity([
+    { id: 'first', startMinute: 8 * 60, endMinute: 12 * 60, accessibleDeskIds: ['p1', 'p2'] },
+    { id: 'second', startMinute: 8 * 60, endMinute: 12 * 60, accessibleDeskIds: ['p1', 'p2'] }
+  ], [
+    { deskId: 'p2', startMinute: 7 * 60, endMinute: 18 * 60 }
+  ]);
+
+  assert.deepEqual(assignments, [{ entryId: 'first', deskId: 'p1' }]);
+});
+
+test('waiters without access to the freed spot are skipped', () => {
+  const assignments = assignWaitlistCapacity([
+    { id: 'other-tenant', startMinute: 8 * 60, endMinute: 12 * 60, accessibleDeskIds: ['p2'] },
+    { id: 'same-tenant', startMinute: 8 * 60, endMinute: 12 * 60, accessibleDeskIds: ['p1', 'p2'] }
+  ], [
+    { deskId: 'p2', startMinute: 8 * 60, endMinute: 18 * 60 }
+  ]);
+
+  assert.deepEqual(assignments, [{ entryId: 'same-tenant', deskId: 'p1' }]);
+});
+
+test('non-overlapping waiters can share one spot', () => {
+  const assignments = assignWaitlistCapacity([
+    { id: 'morning', startMinute: 8 * 60, endMinute: 12 * 60, accessibleDeskIds: ['p1'] },
+    { id: 'afternoon', startMinute: 12 * 60, endMinute: 17 * 60, accessibleDeskIds: ['p1'] },
+    { id: 'overlap', startMinute: 11 * 60, endMinute: 13 * 60, accessibleDeskIds: ['p1'] }
+  ], []);
+
+  assert.deepEqual(assignments, [
+    { entryId: 'morning', deskId: 'p1' },
+    { entryId: 'afternoon', deskId: 'p1' }
+  ]);
+});
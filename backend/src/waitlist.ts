@@ -0,0 +1,29 @@
+import { overlapsHalfOpenIntervals } from './timeOverlap';
+
+export type WaitlistWindow = { startMinute: number; endMinute: number };
+export type WaitlistCandidate = WaitlistWindow & { id: string; accessibleDeskIds: string[] };
+export type WaitlistOccupation = WaitlistWindow & { deskId: string };
+export type WaitlistAssignment = { entryId: string; deskId: string };
+
+export const WAITLIST_OFFER_MINUTES = 30;
+
+const isDeskFree = (deskId: string, window: WaitlistWindow, occupations: WaitlistOccupation[]): boolean => (
+  occupations
+    .filter((occupation) => occupation.deskId === deskId)
+    .every((occupation) => !overlapsHalfOpenIntervals(window.startMinute, window.endMinute, occupation.startMinute, occupation.endMinute))
+);
+
+// Candidates must already be sorted first-come-first-served; each assigned desk is held for the rest of the run.
+export const assignWaitlistCapacity = (candidates: WaitlistCandidate[], occupations: WaitlistOccupation[]): WaitlistAssignment[] => {
+  const held = [...occupations];
+  const assignments: WaitlistAssignment[] = [];
+
+  for (const candidate of candidates) {
+    const deskId = candidate.accessibleDeskIds.find((id) => isDeskFree(id, candidate, held));
+    if (!deskId) continue;
+    held.push({ deskId, startMinute: candidate.startMinute, endMinute: candidate.endMinute });
+    assignments.push({ entryId: candidate.id, deskId });
+  }
+
+  return assignments;
+};
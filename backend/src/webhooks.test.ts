@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+import { deliverWebhook, parseWebhookSubscriptionInput, signWebhookPayload, verifyWebhookSignature } from './webhooks';
+
+type ReceivedRequest = { headers: IncomingHttpHeaders; body: string };
+
+const startReceiver = async (status: number): Promise<{ server: Server; url: string; received: ReceivedRequest[] }> => {
+  const received: ReceivedRequest[] = [];
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+    res.writeHead(status).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`, received };
+};
+
+test('subscription input validates url and events', () => {
+  const created = parseWebhookSubscriptionInput({ name: ' HR ', url: 'https://hr.example.com/hook', events: ['booking.cancelled', 'booking.created', 'booking.created'] }, { partial: false });
+  assert.deepEqual(created, { ok: true, value: { name: 'HR', url: 'https://hr.example.com/hook', events: ['booking.created', 'booking.cancelled'], isActive: true } });
+
+  assert.equal(parseWebhookSubscriptionInput({ name: 'HR', url: 'ftp://hr.example.com', events: ['booking.created'] }, { partial: false }).ok, false);
+  assert.equal(parseWebhookSubscriptionInput({ name: 'HR', url: 'https://user:pw@hr.example.com', events: ['booking.created'] }, { partial: false }).ok, false);
+  assert.equal(parseWebhookSubscriptionInput({ name: 'HR', url: 'https://hr.example.com', events: ['booking.deleted'] }, { partial: false }).ok, false);
+  assert.equal(parseWebhookSubscriptionInput({ name: 'HR', url: 'https://hr.example.com', events: [] }, { partial: false }).ok, false);
+
+  assert.deepEqual(parseWebhookSubscriptionInput({ isActive: false }, { partial: true }), { ok: true, value: { isActive: false } });
+});
+
+test('signatures verify only with the right secret, body and a fresh timestamp', () => {
+  const body = JSON.stringify({ event: 'booking.created' });
+  const header = signWebhookPayload('whsec_test', 1_800_000_000, body);
+  assert.match(header, /^t=1800000000,v1=[0-9a-f]{64}$/);
+  assert.equal(verifyWebhookSignature({ secret: 'whsec_test', header, body, nowSeconds: 1_800_000_060 }), true);
+  assert.equal(verifyWebhookSignature({ secret: 'whsec_other', header, body, nowSeconds: 1_800_000_060 }), false);
+  assert.equal(verifyWebhookSignature({ secret: 'whsec_test', header, body: `${body} `, nowSeconds: 1_800_000_060 }), false);
+  assert.equal(verifyWebhookSignature({ secret: 'whsec_test', header, body, nowSeconds: 1_800_001_000 }), false);
+});
+
+test('deliveries are posted with event headers and a verifiable signature', async () => {
+  const receiver = await startReceiver(204);
+  try {
+    const body = JSON.stringify({ id: 'evt-1', event: 'booking.cancelled', data: { bookingId: 'b-1' } });
+    const now = new Date('2026-10-20T08:00:00.000Z');
+    const result = await deliverWebhook({ url: receiver.url, secret: 'whsec_test', event: 'booking.cancelled', deliveryId: 'dlv-1', body, userAgent: 'RB-MS-Webhooks', now });
+    assert.deepEqual(result, { ok: true, responseStatus: 204 });
+
+    const [request] = receiver.received;
+    assert.equal(request.body, body);
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(request.headers['x-webhook-event'], 'booking.cancelled');
+    assert.equal(request.headers['x-webhook-delivery'], 'dlv-1');
+    assert.equal(verifyWebhookSignature({ secret: 'whsec_test', header: String(request.headers['x-webhook-signature']), body: request.body, nowSeconds: now.getTime() / 1000 }), true);
+  } finally {
+    await new Promise((resolve) => receiver.server.close(resolve));
+  }
+});
+
+test('failed deliveries report status and whether a retry makes sense', async () => {
+  for (const [status, permanent] of [[500, false], [410, true]] as const) {
+    const receiver = await startReceiver(status);
+    try {
+      const result = await deliverWebhook({ url: receiver.url, secret: 's', event: 'booking.created', deliveryId: 'dlv', body: '{}', userAgent: 'test' });
+      assert.deepEqual(result, { ok: false, responseStatus: status, message: `Receiver answered with status ${status}`, permanent });
+    } finally {
+      await new Promise((resolve) => receiver.server.close(resolve));
+    }
+  }
+
+  const unreachable = await deliverWebhook({ url: 'http://127.0.0.1:1/hooks', secret: 's', event: 'booking.created', deliveryId: 'dlv', body: '{}', userAgent: 'test' });
+  assert.equal(unreachable.ok, false);
+  assert.equal(!unreachable.ok && unreachable.responseStatus, null);
+  assert.equal(!unreachable.ok && unreachable.permanent, false);
+});
@@ -0,0 +1,109 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export const WEBHOOK_EVENTS = ['booking.created', 'booking.updated', 'booking.cancelled', 'recurring.created', 'recurring.deleted'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+// Receivers should reject signatures older than this to make captured requests useless for replay attacks.
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookSubscriptionInput = { name: string; url: string; events: WebhookEvent[]; isActive: boolean };
+
+export const createWebhookSecret = (): string => `whsec_${randomBytes(24).toString('base64url')}`;
+
+export const isWebhookEvent = (value: unknown): value is WebhookEvent => typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+// `partial` is used for PATCH: omitted fields stay undefined instead of failing validation.
+export const parseWebhookSubscriptionInput = (body: unknown, options: { partial: boolean }): { ok: true; value: Partial<WebhookSubscriptionInput> } | { ok: false; message: string } => {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as { name?: unknown; url?: unknown; events?: unknown; isActive?: unknown };
+  const value: Partial<WebhookSubscriptionInput> = {};
+
+  if (raw.name !== undefined || !options.partial) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) return { ok: false, message: 'name ist erforderlich' };
+    if (raw.name.trim().length > 120) return { ok: false, message: 'name darf höchstens 120 Zeichen lang sein' };
+    value.name = raw.name.trim();
+  }
+
+  if (raw.url !== undefined || !options.partial) {
+    let url: URL | null = null;
+    try {
+      url = typeof raw.url === 'string' ? new URL(raw.url.trim()) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) return { ok: false, message: 'url muss eine absolute http(s)-URL sein' };
+    if (url.username || url.password) return { ok: false, message: 'url darf keine Zugangsdaten enthalten' };
+    value.url = url.toString();
+  }
+
+  if (raw.events !== undefined || !options.partial) {
+    if (!Array.isArray(raw.events) || raw.events.length === 0) return { ok: false, message: 'events muss eine nicht leere Liste sein' };
+    const invalid = raw.events.find((event) => !isWebhookEvent(event));
+    if (invalid !== undefined) return { ok: false, message: `unbekanntes Event: ${String(invalid)}` };
+    value.events = WEBHOOK_EVENTS.filter((event) => (raw.events as unknown[]).includes(event));
+  }
+
+  if (raw.isActive !== undefined) {
+    if (typeof raw.isActive !== 'boolean') return { ok: false, message: 'isActive muss ein Boolean sein' };
+    value.isActive = raw.isActive;
+  } else if (!options.partial) {
+    value.isActive = true;
+  }
+
+  return { ok: true, value };
+};
+
+// Stripe-style signature: HMAC-SHA256 over "<timestamp>.<raw body>", sent as "t=<timestamp>,v1=<hex>".
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => (
+  `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+);
+
+export const verifyWebhookSignature = (params: { secret: string; header: string; body: string; nowSeconds: number; toleranceSeconds?: number }): boolean => {
+  const parts = new Map(params.header.split(',').map((part) => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(params.nowSeconds - timestamp) > (params.toleranceSeconds ?? WEBHOOK_SIGNATURE_TOLERANCE_SECONDS)) return false;
+  const expected = Buffer.from(signWebhookPayload(params.secret, timestamp, params.body).split('v1=')[1], 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+export type WebhookDeliveryResult = { ok: true; responseStatus: number } | { ok: false; responseStatus: number | null; message: string; permanent: boolean };
+
+// 410 Gone is the receiver telling us to stop; everything else (including 4xx from a misdeployed endpoint) is retried.
+export const deliverWebhook = async (params: {
+  url: string;
+  secret: string;
+  event: string;
+  deliveryId: string;
+  body: string;
+  userAgent: string;
+  now?: Date;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}): Promise<WebhookDeliveryResult> => {
+  const timestamp = Math.floor((params.now ?? new Date()).getTime() / 1000);
+  try {
+    const response = await (params.fetchImpl ?? fetch)(params.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': params.userAgent,
+        'x-webhook-event': params.event,
+        'x-webhook-delivery': params.deliveryId,
+        'x-webhook-timestamp': String(timestamp),
+        'x-webhook-signature': signWebhookPayload(params.secret, timestamp, params.body)
+      },
+      body: params.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(params.timeoutMs ?? WEBHOOK_TIMEOUT_MS)
+    });
+    await response.body?.cancel().catch(() => undefined);
+    if (response.status >= 200 && response.status < 300) return { ok: true, responseStatus: response.status };
+    return { ok: false, responseStatus: response.status, message: `Receiver answered with status ${response.status}`, permanent: response.status === 410 };
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'TimeoutError' ? 'Receiver did not answer in time' : `Request failed: ${error instanceof Error ? error.message : String(error)}`;
+    return { ok: false, responseStatus: null, message, permanent: false };
+  }
+};
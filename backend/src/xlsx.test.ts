@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { readXlsxRows, XlsxFormatError } from './xlsx';
+import { createZip } from './zip';
+
+const workbook = (sheet: string, sharedStrings?: string) => createZip([
+  { name: 'xl/workbook.xml', data: '<workbook xmlns:r="r"><sheets><sheet name="Ressourcen" sheetId="1" r:id="rId3"/></sheets></workbook>' },
+  { name: 'xl/_rels/workbook.xml.rels', data: '<Relationships><Relationship Id="rId3" Type="worksheet" Target="worksheets/sheet7.xml"/></Relationships>' },
+  { name: 'xl/worksheets/sheet7.xml', data: `<worksheet><cols><col min="1" max="2"/></cols><sheetData>${sheet}</sheetData></worksheet>` },
+  ...(sharedStrings ? [{ name: 'xl/sharedStrings.xml', data: `<sst>${sharedStrings}</sst>` }] : [])
+]);
+
+test('the first worksheet is read with shared, inline, numeric and boolean cells', () => {
+  const data = workbook(
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>x</t></is></c></row>'
+    + '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"/><c r="C3"><v>0.25</v></c><c r="D3" t="b"><v>1</v></c></row>',
+    '<si><t>name</t></si><si><r><t>has</t></r><r><t>Charger</t></r></si><si><t>A &amp; B</t><rPh><t>ignored</t></rPh></si>'
+  );
+  assert.deepEqual(readXlsxRows(data), [['name', 'hasCharger', '', 'x'], [], ['A & B', '', '0.25', 'true']]);
+});
+
+test('files that are not workbooks are rejected', () => {
+  assert.throws(() => readXlsxRows(Buffer.from('name;kind')), XlsxFormatError);
+  assert.throws(() => readXlsxRows(createZip([{ name: 'readme.txt', data: 'hi' }])), /no worksheet/);
+});
@@ -0,0 +1,84 @@
+import { readZip, ZipFormatError } from './zip';
+
+// Reads the cell values of the first worksheet of an .xlsx workbook as text, which is all the bulk import needs.
+// Formatting, formulas (only their cached values are read) and dates (left as serial numbers) are ignored.
+
+export class XlsxFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxFormatError';
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (value: string): string => value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+  if (entity.startsWith('#x')) return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+  if (entity.startsWith('#')) return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+  return XML_ENTITIES[entity];
+});
+
+const attribute = (tag: string, name: string): string | null => {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXml(match[1]) : null;
+};
+
+// Rich text is split into runs; the visible text is every <t> in order (phonetic hints in <rPh> excluded).
+const textContent = (xml: string): string => Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const resolveFirstSheetPath = (entries: Map<string, Buffer>): string => {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8');
+  const relations = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8');
+  const sheetTag = workbook ? /<sheet\b[^>]*>/.exec(workbook)?.[0] : undefined;
+  const relationId = sheetTag ? attribute(sheetTag, 'r:id') : null;
+  if (relations && relationId) {
+    const relationTag = Array.from(relations.matchAll(/<Relationship\b[^>]*>/g), (match) => match[0]).find((tag) => attribute(tag, 'Id') === relationId);
+    const target = relationTag ? attribute(relationTag, 'Target') : null;
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  const fallback = Array.from(entries.keys()).filter((name) => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+  if (!fallback) throw new XlsxFormatError('workbook contains no worksheet');
+  return fallback;
+};
+
+export const readXlsxRows = (data: Buffer): string[][] => {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readZip(data);
+  } catch (error) {
+    if (error instanceof ZipFormatError) throw new XlsxFormatError(`not a valid .xlsx file: ${error.message}`);
+    throw error;
+  }
+
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '';
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => textContent(match[1]));
+  const sheet = entries.get(resolveFirstSheetPath(entries))?.toString('utf8');
+  if (!sheet) throw new XlsxFormatError('worksheet is missing');
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r'));
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellMatch[1], 'r');
+      const type = attribute(cellMatch[1], 't');
+      const body = cellMatch[2] ?? '';
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = '';
+      if (type === 'inlineStr') value = textContent(body);
+      else if (type === 's') value = sharedStrings[Number(rawValue)] ?? '';
+      else if (type === 'b') value = rawValue === '1' ? 'true' : 'false';
+      else if (rawValue !== undefined) value = decodeXml(rawValue);
+      cells[reference ? columnIndex(reference) : cells.length] = value;
+    }
+    // Rows without an r attribute follow each other; gaps left by empty rows are kept so row numbers match Excel.
+    const index = Number.isInteger(rowNumber) && rowNumber > 0 ? rowNumber - 1 : rows.length;
+    rows[index] = Array.from(cells, (cell) => cell ?? '');
+  }
+  return Array.from(rows, (row) => row ?? []);
+};
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { crc32, createZip, isZipArchive, MAX_ZIP_TOTAL_BYTES, readZip, ZipFormatError } from './zip';
+
+test('archives round-trip stored and deflated entries', () => {
+  const repeated = 'Tisch;'.repeat(500);
+  const archive = createZip([{ name: 'a.txt', data: 'ä' }, { name: 'big/desks.csv', data: repeated }, { name: 'image.png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) }]);
+  assert.ok(isZipArchive(archive));
+  assert.ok(archive.length < repeated.length);
+
+  const entries = readZip(archive);
+  assert.deepEqual(Array.from(entries.keys()), ['a.txt', 'big/desks.csv', 'image.png']);
+  assert.equal(entries.get('a.txt')?.toString('utf8'), 'ä');
+  assert.equal(entries.get('big/desks.csv')?.toString('utf8'), repeated);
+  assert.deepEqual(entries.get('image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+});
+
+test('broken or oversized archives are rejected', () => {
+  assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926);
+  assert.throws(() => readZip(Buffer.from('name,kind\n')), ZipFormatError);
+
+  const archive = createZip([{ name: 'a.txt', data: 'x'.repeat(100) }]);
+  assert.throws(() => readZip(archive, { maxEntryBytes: 10 }), /larger than 10 bytes/);
+
+  const corrupted = Buffer.from(createZip([{ name: 'a.txt', data: 'abc' }]));
+  corrupted[30 + 'a.txt'.length] ^= 0xff;
+  assert.throws(() => readZip(corrupted), /checksum/);
+});
+
+test('many small entries cannot expand beyond the total limit', () => {
+  const zeros = Buffer.alloc(10 * 1024 * 1024);
+  const bomb = createZip(Array.from({ length: Math.ceil(MAX_ZIP_TOTAL_BYTES / zeros.length) + 1 }, (_, index) => ({ name: `sheet${index}.xml`, data: zeros })));
+  assert.ok(bomb.length < 4 * 1024 * 1024);
+  assert.throws(() => readZip(bomb), /expands to more than/);
+
+  const archive = createZip(Array.from({ length: 50 }, (_, index) => ({ name: `${index}.txt`, data: 'x'.repeat(1_000) })));
+  assert.equal(readZip(archive, { maxTotalBytes: 50_000 }).size, 50);
+  assert.throws(() => readZip(archive, { maxTotalBytes: 49_999 }), ZipFormatError);
+});
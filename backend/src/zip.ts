@@ -0,0 +1,156 @@
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+
+// Minimal ZIP support (no ZIP64, no encryption) for spreadsheet uploads and floorplan bundles, which stay far
+// below the 4 GB limit of the classic format. Entries are stored or deflated.
+
+export const MAX_ZIP_ENTRY_BYTES = 20 * 1024 * 1024;
+export const MAX_ZIP_ENTRIES = 2_000;
+// Uploads are capped at 4 MB; 16 times that leaves room for well-compressed spreadsheets and bundle images.
+export const MAX_ZIP_TOTAL_BYTES = 64 * 1024 * 1024;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const UTF8_FLAG = 0x0800;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  return value >>> 0;
+});
+
+export const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isZipArchive = (data: Buffer): boolean => data.length >= 4 && data.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+
+const findEndOfCentralDirectory = (data: Buffer): number => {
+  // The record is 22 bytes plus a comment of at most 64 KB.
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset -= 1) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return offset;
+  }
+  throw new ZipFormatError('not a ZIP archive');
+};
+
+// Returns all file entries by path; directories are skipped. Sizes are checked per entry and in total before
+// inflating so a small upload cannot expand into gigabytes.
+export const readZip = (data: Buffer, options: { maxEntryBytes?: number; maxTotalBytes?: number } = {}): Map<string, Buffer> => {
+  const maxEntryBytes = options.maxEntryBytes ?? MAX_ZIP_ENTRY_BYTES;
+  const maxTotalBytes = options.maxTotalBytes ?? MAX_ZIP_TOTAL_BYTES;
+  const end = findEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(end + 10);
+  if (entryCount > MAX_ZIP_ENTRIES) throw new ZipFormatError(`archive must not contain more than ${MAX_ZIP_ENTRIES} entries`);
+
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+  let offset = data.readUInt32LE(end + 16);
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) throw new ZipFormatError('corrupt central directory');
+    const method = data.readUInt16LE(offset + 10);
+    const checksum = data.readUInt32LE(offset + 16);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+    if (size > maxEntryBytes) throw new ZipFormatError(`${name} is larger than ${maxEntryBytes} bytes`);
+    // Inflating is capped at the declared size below, so the sum of declared sizes bounds the real total.
+    totalBytes += size;
+    if (totalBytes > maxTotalBytes) throw new ZipFormatError(`archive expands to more than ${maxTotalBytes} bytes`);
+
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) throw new ZipFormatError(`corrupt local header for ${name}`);
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+    if (compressed.length !== compressedSize) throw new ZipFormatError(`${name} is truncated`);
+
+    let content: Buffer;
+    if (method === METHOD_STORED) content = Buffer.from(compressed);
+    else if (method === METHOD_DEFLATE) {
+      try {
+        content = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ZipFormatError(`${name} could not be decompressed`);
+      }
+    } else throw new ZipFormatError(`${name} uses unsupported compression method ${method}`);
+    if (content.length !== size || crc32(content) !== checksum) throw new ZipFormatError(`${name} failed the checksum`);
+    entries.set(name, content);
+  }
+  return entries;
+};
+
+// DOS timestamps have a two-second resolution and no time zone; UTC keeps archives reproducible across servers.
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+  date: ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate()
+});
+
+export const createZip = (files: Array<{ name: string; data: Buffer | string }>, modifiedAt = new Date()): Buffer => {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const content = typeof file.data === 'string' ? Buffer.from(file.data, 'utf8') : file.data;
+    const deflated = deflateRawSync(content);
+    const useDeflate = deflated.length < content.length;
+    const stored = useDeflate ? deflated : content;
+    const checksum = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(useDeflate ? METHOD_DEFLATE : METHOD_STORED, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, stored);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(useDeflate ? METHOD_DEFLATE : METHOD_STORED, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + stored.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
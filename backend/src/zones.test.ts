@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { describeZoneForTeams, isZoneBookableForTeams, parseZoneTeamAssignments } from './zones';
+
+test('exclusive zones are only bookable for members of an exclusive team', () => {
+  const assignments = [{ teamId: 'sales', mode: 'EXCLUSIVE' as const }, { teamId: 'support', mode: 'PREFERRED' as const }];
+  assert.equal(isZoneBookableForTeams(assignments, new Set(['sales'])), true);
+  assert.equal(isZoneBookableForTeams(assignments, new Set(['support'])), false);
+  assert.equal(isZoneBookableForTeams(assignments, new Set()), false);
+  assert.equal(isZoneBookableForTeams([{ teamId: 'support', mode: 'PREFERRED' }], new Set()), true);
+  assert.equal(isZoneBookableForTeams([], new Set()), true);
+});
+
+test('zone descriptions tell members apart from everybody else', () => {
+  const zone = { id: 'z-1', name: 'Nord', color: '#22aa88', teams: [{ teamId: 'support', mode: 'PREFERRED' as const }] };
+  assert.deepEqual(describeZoneForTeams(zone, new Set(['support'])), {
+    id: 'z-1', name: 'Nord', color: '#22aa88', teamIds: ['support'], isExclusive: false, isMyZone: true, isBookableForMe: true
+  });
+  assert.equal(describeZoneForTeams(zone, new Set(['sales'])).isMyZone, false);
+});
+
+test('team assignments default to preferred and reject unknown modes', () => {
+  assert.deepEqual(parseZoneTeamAssignments([{ teamId: 't-1' }, { teamId: 't-2', mode: 'exclusive' }, { teamId: 't-1', mode: 'EXCLUSIVE' }]), {
+    ok: true,
+    value: [{ teamId: 't-1', mode: 'EXCLUSIVE' }, { teamId: 't-2', mode: 'EXCLUSIVE' }]
+  });
+  assert.equal(parseZoneTeamAssignments([{ teamId: 't-1', mode: 'SHARED' }]).ok, false);
+  assert.equal(parseZoneTeamAssignments([{ mode: 'PREFERRED' }]).ok, false);
+  assert.equal(parseZoneTeamAssignments('t-1').ok, false);
+});
@@ -0,0 +1,36 @@
+import type { ZoneTeamMode } from '@prisma/client';
+
+export type ZoneAssignment = { teamId: string; mode: ZoneTeamMode };
+export type ZoneForAccess = { id: string; name: string; color: string | null; teams: ZoneAssignment[] };
+
+export const ZONE_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// An exclusive assignment reserves the zone for the exclusive teams; preferred teams alone never block anybody.
+export const isZoneBookableForTeams = (assignments: ZoneAssignment[], teamIds: ReadonlySet<string>): boolean => {
+  const exclusiveTeamIds = assignments.filter((assignment) => assignment.mode === 'EXCLUSIVE').map((assignment) => assignment.teamId);
+  return exclusiveTeamIds.length === 0 || exclusiveTeamIds.some((teamId) => teamIds.has(teamId));
+};
+
+export const describeZoneForTeams = (zone: ZoneForAccess, teamIds: ReadonlySet<string>) => ({
+  id: zone.id,
+  name: zone.name,
+  color: zone.color,
+  teamIds: zone.teams.map((assignment) => assignment.teamId),
+  isExclusive: zone.teams.some((assignment) => assignment.mode === 'EXCLUSIVE'),
+  isMyZone: zone.teams.some((assignment) => teamIds.has(assignment.teamId)),
+  isBookableForMe: isZoneBookableForTeams(zone.teams, teamIds)
+});
+
+export const parseZoneTeamAssignments = (value: unknown): { ok: true; value: ZoneAssignment[] } | { ok: false; message: string } => {
+  if (value === null || value === undefined) return { ok: true, value: [] };
+  if (!Array.isArray(value)) return { ok: false, message: 'teams muss ein Array sein' };
+  const byTeamId = new Map<string, ZoneAssignment>();
+  for (const entry of value as unknown[]) {
+    const raw = (typeof entry === 'object' && entry !== null ? entry : {}) as { teamId?: unknown; mode?: unknown };
+    if (typeof raw.teamId !== 'string' || !raw.teamId.trim()) return { ok: false, message: 'teams[].teamId ist erforderlich' };
+    const mode = typeof raw.mode === 'undefined' ? 'PREFERRED' : typeof raw.mode === 'string' ? raw.mode.trim().toUpperCase() : '';
+    if (mode !== 'EXCLUSIVE' && mode !== 'PREFERRED') return { ok: false, message: 'teams[].mode muss EXCLUSIVE oder PREFERRED sein' };
+    byTeamId.set(raw.teamId.trim(), { teamId: raw.teamId.trim(), mode });
+  }
+  return { ok: true, value: Array.from(byTeamId.values()) };
+};
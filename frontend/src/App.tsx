@@ -2,6 +2,7 @@ import { FormEvent, useEffect, useState } from 'react';
 import { API_BASE, ApiError, consumeLastAuthMeFailure } from './api';
 import { BookingApp } from './BookingApp';
 import { AdminRouter } from './admin/AdminRouter';
+import { RoomDisplayApp } from './RoomDisplayApp';
 import { useAuth } from './auth/AuthProvider';
 import { APP_TITLE } from './config';
 import { setLastRoute } from './debug/runtimeDebug';
@@ -16,6 +17,9 @@ type LoginDebugInfo = {
 };
 
 const AUTH_NOTICE_STORAGE_KEY = 'rbms_auth_notice';
+// QR labels link to `#/r/<resourceId>`; the id survives the login round trip, which always lands on `/`.
+const PENDING_RESOURCE_STORAGE_KEY = 'rbms_pending_resource';
+const RESOURCE_ROUTE_PREFIX = '/r/';
 
 const toRoutePath = (value: string) => {
   if (!value || value === '#') return '/';
@@ -43,6 +47,22 @@ const navigate = (to: string) => {
   }
 };
 
+const replaceRoute = (to: string) => {
+  window.history.replaceState({}, '', to);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+const resourceRouteTarget = (resourceId: string) => `/?resource=${encodeURIComponent(resourceId)}`;
+
+const parseResourceRoute = (path: string): string => {
+  if (!path.startsWith(RESOURCE_ROUTE_PREFIX)) return '';
+  try {
+    return decodeURIComponent(path.slice(RESOURCE_ROUTE_PREFIX.length).split(/[/?]/)[0]);
+  } catch {
+    return '';
+  }
+};
+
 function MicrosoftLoginPage() {
   const [notice] = useState(() => {
     if (typeof window === 'undefined') return '';
@@ -154,9 +174,18 @@ export function App() {
     document.title = APP_TITLE;
   }, []);
 
+  // Room displays run without a user session, so they are routed before any login handling.
+  if (path.startsWith('/room-display')) return <RoomDisplayApp />;
+
   if (loadingAuth) return <LoadingGate />;
 
+  const linkedResourceId = parseResourceRoute(path);
+
   if (!isAuthenticated) {
+    if (linkedResourceId) {
+      window.sessionStorage.setItem(PENDING_RESOURCE_STORAGE_KEY, linkedResourceId);
+    }
+
     if (path === '/breakglass') {
       return <BreakglassLoginPage />;
     }
@@ -181,6 +210,18 @@ export function App() {
     return <LoadingGate />;
   }
 
+  if (linkedResourceId) {
+    replaceRoute(resourceRouteTarget(linkedResourceId));
+    return <LoadingGate />;
+  }
+
+  const pendingResourceId = window.sessionStorage.getItem(PENDING_RESOURCE_STORAGE_KEY);
+  if (pendingResourceId) {
+    window.sessionStorage.removeItem(PENDING_RESOURCE_STORAGE_KEY);
+    replaceRoute(resourceRouteTarget(pendingResourceId));
+    return <LoadingGate />;
+  }
+
   if (path.startsWith('/admin')) {
     if (!isAdmin) {
       navigate('/');
@@ -1,13 +1,14 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent, WheelEvent as ReactWheelEvent } from 'react';
 import { createPortal } from 'react-dom';
-import { API_BASE, ApiError, checkBackendHealth, get, markBackendAvailable, post, put, resolveApiUrl } from './api';
+import { API_BASE, ApiError, checkBackendHealth, del, get, markBackendAvailable, post, put, resolveApiUrl } from './api';
 import { cancelBooking, createRoomBooking, fetchBookingCancelPreview } from './api/bookings';
-import type { BookingCancelPreview } from './api/bookings';
+import type { BookingCancelPreview, CreatedBookingVisitor } from './api/bookings';
 import { createMutationRequestId, logMutation, toBodySnippet } from './api/mutationLogger';
 import { Avatar } from './components/Avatar';
 import { BookingForm, createDefaultBookingFormValues } from './components/BookingForm';
 import type { BookingFormSubmitPayload, BookingFormValues } from './components/BookingForm';
+import type { BookingDelegations, DelegationEmployee } from './components/DelegationsDialog';
 import { ParkingScheduleGrid } from './components/ParkingScheduleGrid';
 import { UserMenu } from './components/UserMenu';
 import { FloorplanCanvas } from './FloorplanCanvas';
@@ -15,7 +16,7 @@ import { APP_TITLE, APP_VERSION, COMPANY_LOGO_URL } from './config';
 import type { AuthUser } from './auth/AuthProvider';
 import { useToast } from './components/toast';
 import { normalizeDaySlotBookings, normalizeDaySlotBookingsPerEntry } from './daySlotBookings';
-import { RESOURCE_KIND_OPTIONS, resourceKindLabel, type ResourceKind } from './resourceKinds';
+import { RESOURCE_EQUIPMENT_OPTIONS, RESOURCE_KIND_OPTIONS, resourceEquipmentLabel, resourceKindLabel, type ResourceEquipment, type ResourceKind } from './resourceKinds';
 import { ROOM_WINDOW_END, ROOM_WINDOW_START, ROOM_WINDOW_TOTAL_MINUTES, clampInterval, formatMinutes, invertIntervals, mergeIntervals, toMinutes } from './lib/bookingWindows';
 import { computeRoomBusySegments, computeRoomOccupancy } from './lib/roomOccupancy';
 import { bookingDisplayName, canCancelBooking, isMineBooking } from './lib/bookingOwnership';
@@ -39,6 +40,7 @@ type OccupancyBookingData = {
   employee?: OccupancyBookingEmployee | null;
   bookedFor?: 'SELF' | 'GUEST';
   guestName?: string | null;
+  title?: string | null;
   createdBy?: BookingActor;
   createdByUserId?: string;
   createdByEmployeeId?: string;
@@ -50,6 +52,9 @@ type OccupancyBookingData = {
   startTime?: string;
   endTime?: string;
   isCurrentUser?: boolean;
+  checkInRequired?: boolean;
+  checkInStatus?: 'PENDING' | 'CHECKED_IN';
+  checkedInAt?: string | null;
 };
 type OccupancyDesk = {
   id: string;
@@ -57,6 +62,8 @@ type OccupancyDesk = {
   kind?: string;
   allowSeriesOverride?: boolean | null;
   hasCharger?: boolean;
+  capacity?: number | null;
+  equipment?: ResourceEquipment[];
   effectiveAllowSeries?: boolean;
   x: number | null;
   y: number | null;
@@ -68,9 +75,12 @@ type OccupancyDesk = {
   isBookableForMe?: boolean;
   tenantScope?: 'ALL' | 'SELECTED';
   tenantIds?: string[];
+  zone?: DeskZone | null;
 };
+type DeskZone = { id: string; name: string; color: string | null; teamIds: string[]; isExclusive: boolean; isMyZone: boolean; isBookableForMe: boolean };
 type OccupancyPerson = { email: string; displayName?: string; deskName?: string; deskId?: string };
 type OccupancyResponse = { date: string; floorplanId: string; desks: OccupancyDesk[]; people: OccupancyPerson[] };
+type OccupancyStreamDelta = { upserted: Array<{ deskId: string; booking: OccupancyBookingData }>; removed: string[] };
 type BookingEmployee = { id: string; email: string; firstName?: string; displayName: string; phone?: string | null; photoUrl?: string };
 type OccupantForDay = { deskId: string; deskLabel: string; deskKindLabel: string; userId: string; name: string; firstName: string; email: string; employeeId?: string; photoUrl?: string };
 type BookingSubmitPayload = BookingFormSubmitPayload;
@@ -189,7 +199,7 @@ type FloorplanDebugCounters = {
 };
 type CalendarBooking = { date: string; deskId: string; daySlot?: 'AM' | 'PM' | 'FULL'; slot?: 'FULL_DAY' | 'MORNING' | 'AFTERNOON' | 'CUSTOM' };
 type DayAvailabilityTone = 'many-free' | 'few-free' | 'none-free';
-type OverviewView = 'presence' | 'rooms' | 'myBookings';
+type OverviewView = 'presence' | 'team' | 'rooms' | 'myBookings' | 'search';
 type FeedbackReportType = 'BUG' | 'FEATURE_REQUEST';
 
 type ParkingSmartProposal = {
@@ -201,7 +211,9 @@ type ParkingSmartProposal = {
 
 type ParkingSmartProposeResponse = {
   status: 'ok' | 'none';
+  reason?: string;
   message?: string;
+  waitlistAvailable?: boolean;
   proposalType?: 'single' | 'split';
   usedFallbackChargerFullWindow?: boolean;
   switchAfterCharging?: boolean;
@@ -210,6 +222,94 @@ type ParkingSmartProposeResponse = {
   fallbackWithoutCharging?: ParkingSmartProposal;
 };
 
+type ParkingSmartWeekDay = { date: string; enabled: boolean; arrivalTime: string; departureTime: string; chargingMinutes: number };
+
+type ParkingSmartWeekResponse = {
+  status: 'ok' | 'partial' | 'none';
+  homeDeskName: string | null;
+  days: Array<{
+    date: string;
+    status: 'ok' | 'none';
+    message?: string;
+    requestedChargingMinutes: number;
+    chargingMinutes: number;
+    bookings: ParkingSmartProposal['bookings'];
+  }>;
+};
+
+type ClosedDay = { date: string; reason: string };
+type ResourceSearchFilters = { kind: 'ALL' | ResourceKind; minCapacity: string; equipment: ResourceEquipment[]; slot: 'FULL' | 'AM' | 'PM' | 'TIME'; startTime: string; endTime: string };
+type ResourceSearchResult = {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  capacity: number | null;
+  equipment: ResourceEquipment[];
+  hasCharger: boolean;
+  floorplan: { id: string; name: string };
+};
+
+type LinkedResource = Pick<ResourceSearchResult, 'id' | 'name' | 'kind' | 'floorplan'>;
+type RankedSearchResult = ResourceSearchResult & { score: number; reasons: Array<'TEAM_ZONE' | 'USED_BEFORE' | 'FAMILIAR_FLOORPLAN' | 'NEAR_TEAM'> };
+
+type FollowedEmployee = { id: string; email: string; displayName: string; photoUrl?: string | null };
+type PresenceWeekEntry = {
+  employeeId: string;
+  date: string;
+  desk: { id: string; name: string; kind: ResourceKind };
+  floorplan: { id: string; name: string };
+  daySlot?: 'AM' | 'PM' | 'FULL';
+  startTime?: string;
+  endTime?: string;
+};
+type PresenceWeek = { from: string; to: string; dates: string[]; employees: FollowedEmployee[]; entries: PresenceWeekEntry[] };
+
+const RANKING_REASON_LABELS: Record<RankedSearchResult['reasons'][number], string> = {
+  TEAM_ZONE: 'in der Zone deines Teams',
+  USED_BEFORE: 'schon öfter gebucht',
+  FAMILIAR_FLOORPLAN: 'bekannter Standort',
+  NEAR_TEAM: 'in der Nähe deiner Kolleg:innen'
+};
+
+// Desks are booked in day slots, all other kinds by clock time; the best match uses the window that fits its kind.
+const toBestMatchWindow = (kind: ResourceKind, filters: ResourceSearchFilters): { daySlot: 'AM' | 'PM' | 'FULL' } | { startTime: string; endTime: string } => {
+  if (kind === 'TISCH') {
+    if (filters.slot !== 'TIME') return { daySlot: filters.slot };
+    if (filters.endTime <= '12:00') return { daySlot: 'AM' };
+    return { daySlot: filters.startTime >= '12:00' ? 'PM' : 'FULL' };
+  }
+  if (filters.slot === 'TIME') return { startTime: filters.startTime, endTime: filters.endTime };
+  return { startTime: filters.slot === 'PM' ? '12:00' : '08:00', endTime: filters.slot === 'AM' ? '12:00' : '18:00' };
+};
+type AttendeeResponse = 'PENDING' | 'ACCEPTED' | 'TENTATIVE' | 'DECLINED';
+type MeetingInvitation = {
+  bookingId: string;
+  attendeeId: string;
+  title: string | null;
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+  desk: { id: string; name: string; floorplanId: string; floorplanName: string };
+  organizer: string;
+  attendeeCount: number;
+  response: AttendeeResponse;
+  respondedAt: string | null;
+};
+type WaitlistEntry = {
+  id: string;
+  floorplanId: string;
+  floorplanName: string;
+  kind: ResourceKind;
+  date: string;
+  startTime: string;
+  endTime: string;
+  autoBook: boolean;
+  status: 'WAITING' | 'OFFERED' | 'BOOKED' | 'EXPIRED';
+  position: number | null;
+  offeredDesk: { id: string; name: string } | null;
+  offerExpiresAt: string | null;
+};
+
 type UserParkingSettings = {
   defaultFloorplanId: string;
   parkingReminderMinutesBefore: number;
@@ -222,6 +322,8 @@ const FEEDBACK_SCREENSHOT_ACCEPT = 'image/png,image/jpeg,image/webp';
 
 const OVERVIEW_QUERY_KEY = 'overview';
 const FLOORPLAN_QUERY_KEY = 'floorplan';
+// Set by the `#/r/<resourceId>` route that QR labels on desks and parking spaces link to.
+const RESOURCE_QUERY_KEY = 'resource';
 const USER_SETTINGS_STORAGE_KEY_PREFIX = 'rbms-user-settings';
 const DEFAULT_USER_PARKING_SETTINGS: UserParkingSettings = {
   defaultFloorplanId: '',
@@ -230,7 +332,7 @@ const DEFAULT_USER_PARKING_SETTINGS: UserParkingSettings = {
   parkingDefaultDepartureTime: '16:00'
 };
 
-const isOverviewView = (value: string | null): value is OverviewView => value === 'presence' || value === 'rooms' || value === 'myBookings';
+const isOverviewView = (value: string | null): value is OverviewView => value === 'presence' || value === 'team' || value === 'rooms' || value === 'myBookings' || value === 'search';
 
 const getInitialOverviewView = (): OverviewView => {
   if (typeof window === 'undefined') return 'presence';
@@ -352,7 +454,40 @@ const getBookingCreatorName = (booking: { createdBy?: BookingActor }): string =>
   return booking.createdBy?.displayName ?? booking.createdBy?.name ?? 'Unbekannt';
 };
 
+const shiftDateKey = (dateString: string, days: number): string => {
+  const date = new Date(`${dateString}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const startOfWeekKey = (dateString: string): string => {
+  const weekday = new Date(`${dateString}T00:00:00.000Z`).getUTCDay();
+  return shiftDateKey(dateString, weekday === 0 ? -6 : 1 - weekday);
+};
+
+const presenceEntryWindowLabel = (entry: PresenceWeekEntry): string => (
+  entry.startTime && entry.endTime ? `${entry.startTime}–${entry.endTime}` : formatDaySlotLabel(entry.daySlot) ?? 'Ganztag'
+);
+
 const formatDate = (dateString: string): string => new Date(`${dateString}T00:00:00.000Z`).toLocaleDateString('de-DE');
+const formatWeekdayDate = (dateString: string): string => new Date(`${dateString}T00:00:00.000Z`).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit', timeZone: 'UTC' });
+
+// Week planning covers Monday to Friday of the selected week; days that already lie in the past start unchecked.
+const createParkingWeekDays = (dateString: string, settings: UserParkingSettings): ParkingSmartWeekDay[] => {
+  const monday = startOfWeekKey(dateString);
+  return Array.from({ length: 5 }, (_, index) => {
+    const date = shiftDateKey(monday, index);
+    return { date, enabled: date >= today, arrivalTime: settings.parkingDefaultArrivalTime, departureTime: settings.parkingDefaultDepartureTime, chargingMinutes: 0 };
+  });
+};
+
+// Range and series requests can break a booking policy on several dates; list them so the user knows what to change.
+const getPolicyViolationMessage = (error: ApiError): string => {
+  const body = (typeof error.details === 'object' && error.details !== null ? error.details : null) as { details?: { violations?: Array<{ date?: unknown }> } } | null;
+  const dates = Array.from(new Set((body?.details?.violations ?? []).map((violation) => violation.date).filter((date): date is string => typeof date === 'string'))).sort();
+  if (dates.length <= 1) return error.message;
+  return `${error.message} Betroffen: ${dates.slice(0, 5).map(formatDate).join(', ')}${dates.length > 5 ? ' …' : ''}`;
+};
 const bookingBelongsToDay = (booking: { startTime?: string }, selectedDateValue: string): boolean => {
   if (!booking.startTime) return true;
   const parsed = new Date(booking.startTime);
@@ -529,6 +664,8 @@ const canBookDesk = (desk?: OccupancyDesk | null): boolean => {
   return getDefaultSlotForDesk(desk) !== null;
 };
 
+const unbookableReason = (desk: OccupancyDesk): string => (desk.zone && !desk.zone.isBookableForMe ? 'Exklusiv für ein anderes Team' : 'Für deinen Mandanten nicht buchbar');
+
 const deskAvailabilityLabel = (availability: DeskSlotAvailability): string => {
   if (availability === 'AM_BOOKED') return 'Vormittag belegt';
   if (availability === 'PM_BOOKED') return 'Nachmittag belegt';
@@ -655,6 +792,37 @@ const removeBookingFromOccupancy = (state: OccupancyResponse | null, bookingId:
   };
 };
 
+// Changed bookings keep their place on the resource, new ones are appended (GET /occupancy orders by creation).
+const applyOccupancyDelta = (state: OccupancyResponse | null, delta: OccupancyStreamDelta): OccupancyResponse | null => {
+  if (!state) return state;
+  const upsertedById = new Map(delta.upserted.map((entry) => [entry.booking.id, entry]));
+  const removedIds = new Set(delta.removed);
+
+  return {
+    ...state,
+    desks: state.desks.map((desk) => {
+      const sourceBookings = desk.bookings && desk.bookings.length > 0 ? desk.bookings : desk.booking ? [desk.booking] : [];
+      const keptBookings = sourceBookings.flatMap((booking) => {
+        const upserted = booking.id ? upsertedById.get(booking.id) : undefined;
+        if (upserted) return upserted.deskId === desk.id ? [upserted.booking] : [];
+        return booking.id && removedIds.has(booking.id) ? [] : [booking];
+      });
+      const addedBookings = delta.upserted
+        .filter((entry) => entry.deskId === desk.id && !sourceBookings.some((booking) => booking.id === entry.booking.id))
+        .map((entry) => entry.booking);
+      const nextBookings = [...keptBookings, ...addedBookings];
+      if (nextBookings.length === sourceBookings.length && nextBookings.every((booking, index) => booking === sourceBookings[index])) return desk;
+
+      return {
+        ...desk,
+        bookings: nextBookings,
+        booking: nextBookings[0] ?? null,
+        status: nextBookings.length > 0 ? 'booked' : 'free'
+      };
+    })
+  };
+};
+
 function TopLoadingBar({ loading }: { loading: boolean }) {
   const [shouldRender, setShouldRender] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
@@ -707,6 +875,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
   const [employees, setEmployees] = useState<BookingEmployee[]>([]);
   const [selectedEmployeeEmail, setSelectedEmployeeEmail] = useState('');
   const [selectedResourceKindFilter, setSelectedResourceKindFilter] = useState<'ALL' | ResourceKind>('ALL');
+  const [pendingLinkedResource, setPendingLinkedResource] = useState<LinkedResource | null>(null);
   const [overviewView, setOverviewView] = useState<OverviewView>(() => getInitialOverviewView());
   const [isManageEditOpen, setIsManageEditOpen] = useState(false);
   const [feedbackDialogOpen, setFeedbackDialogOpen] = useState(false);
@@ -772,6 +941,25 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
   const [parkingSmartProposal, setParkingSmartProposal] = useState<ParkingSmartProposal | null>(null);
   const [parkingSmartError, setParkingSmartError] = useState('');
   const [parkingSmartInfo, setParkingSmartInfo] = useState('');
+  const [parkingSmartWaitlistAvailable, setParkingSmartWaitlistAvailable] = useState(false);
+  const [isParkingSmartWeekMode, setIsParkingSmartWeekMode] = useState(false);
+  const [parkingSmartWeekDays, setParkingSmartWeekDays] = useState<ParkingSmartWeekDay[]>([]);
+  const [parkingSmartWeekProposal, setParkingSmartWeekProposal] = useState<ParkingSmartWeekResponse | null>(null);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  const [pendingWaitlistEntryId, setPendingWaitlistEntryId] = useState<string | null>(null);
+  const [resourceSearchFilters, setResourceSearchFilters] = useState<ResourceSearchFilters>({ kind: 'ALL', minCapacity: '', equipment: [], slot: 'FULL', startTime: '09:00', endTime: '10:00' });
+  const [resourceSearchResults, setResourceSearchResults] = useState<ResourceSearchResult[] | null>(null);
+  const [isResourceSearchLoading, setIsResourceSearchLoading] = useState(false);
+  const [isBestMatchBooking, setIsBestMatchBooking] = useState(false);
+  const [meetingInvitations, setMeetingInvitations] = useState<MeetingInvitation[]>([]);
+  const [pendingMeetingBookingId, setPendingMeetingBookingId] = useState<string | null>(null);
+  const [followedEmployees, setFollowedEmployees] = useState<FollowedEmployee[]>([]);
+  const [bookingPrincipals, setBookingPrincipals] = useState<DelegationEmployee[]>([]);
+  const bookingPrincipalIds = useMemo(() => bookingPrincipals.map((principal) => principal.id), [bookingPrincipals]);
+  const [followCandidateId, setFollowCandidateId] = useState('');
+  const [presenceWeekStart, setPresenceWeekStart] = useState(() => startOfWeekKey(today));
+  const [presenceWeek, setPresenceWeek] = useState<PresenceWeek | null>(null);
+  const [pendingNextToKey, setPendingNextToKey] = useState<string | null>(null);
   const [isParkingSmartLoading, setIsParkingSmartLoading] = useState(false);
   const [isParkingSmartDialogOpen, setIsParkingSmartDialogOpen] = useState(false);
   const [isParkingSmartConfirmDialogOpen, setIsParkingSmartConfirmDialogOpen] = useState(false);
@@ -786,6 +974,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
   const [cancelFlowState, setCancelFlowState] = useState<CancelFlowState>('NONE');
   const [cancelConfirmContext, setCancelConfirmContext] = useState<CancelConfirmContext | null>(null);
   const [isCancellingBooking, setIsCancellingBooking] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
   const [cancellingBookingId, setCancellingBookingId] = useState<string | null>(null);
   const [cancelDialogError, setCancelDialogError] = useState('');
   const [cancelSeriesPreview, setCancelSeriesPreview] = useState<CancelSeriesPreviewState>({
@@ -804,6 +993,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
   const [calendarBookings, setCalendarBookings] = useState<CalendarBooking[]>([]);
   const [floorplanResources, setFloorplanResources] = useState<FloorplanResource[]>([]);
   const [bookedCalendarDays, setBookedCalendarDays] = useState<string[]>([]);
+  const [closedCalendarDays, setClosedCalendarDays] = useState<ClosedDay[]>([]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -1286,7 +1476,18 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     if (selectedResourceKindFilter === 'ALL') return desks;
     return desks.filter((desk) => (desk.kind ?? 'SONSTIGES') === selectedResourceKindFilter);
   }, [desks, selectedResourceKindFilter]);
-  const filteredDesks = useMemo(() => desksBySelectedResourceKind.map((desk) => ({ ...desk, isHighlighted: desk.id === highlightedDeskId })), [desksBySelectedResourceKind, highlightedDeskId]);
+  const searchMatchDeskIds = useMemo(() => new Set(overviewView === 'search' ? (resourceSearchResults ?? []).map((result) => result.id) : []), [overviewView, resourceSearchResults]);
+  const filteredDesks = useMemo(() => desksBySelectedResourceKind.map((desk) => ({
+    ...desk,
+    isHighlighted: desk.id === highlightedDeskId || searchMatchDeskIds.has(desk.id),
+    zoneColor: desk.zone?.color ?? null,
+    isInTeamZone: Boolean(desk.zone?.isMyZone)
+  })), [desksBySelectedResourceKind, highlightedDeskId, searchMatchDeskIds]);
+  const followCandidates = useMemo(() => {
+    const followedIds = new Set(followedEmployees.map((employee) => employee.id));
+    return employees.filter((employee) => employee.id !== currentUser.id && !followedIds.has(employee.id));
+  }, [employees, followedEmployees, currentUser.id]);
+  const myTeamZoneNames = useMemo(() => Array.from(new Set(desks.filter((desk) => desk.zone?.isMyZone).map((desk) => desk.zone?.name ?? ''))).filter(Boolean), [desks]);
   const bookingsForSelectedDate = useMemo<OccupantForDay[]>(() => mapBookingsForDay(desksBySelectedResourceKind), [desksBySelectedResourceKind]);
   const roomsForSelectedDate = useMemo(() => desksBySelectedResourceKind
     .filter((desk) => isRoomResource(desk))
@@ -1359,7 +1560,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         const clamped = clampInterval({ startMin: start, endMin: end }, ROOM_WINDOW_START_MINUTES, ROOM_WINDOW_END_MINUTES);
         if (!clamped) return [];
         const isCurrentUser = isMineBooking(booking, currentUser?.id);
-        const canCancel = canCancelBooking(booking, currentUser?.id, currentUser?.role === 'admin');
+        const canCancel = canCancelBooking(booking, currentUser?.id, currentUser?.role === 'admin', bookingPrincipalIds);
         return [{
           id: booking.id,
           start: clamped.startMin,
@@ -1380,7 +1581,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
       .sort((a, b) => a.start - b.start);
 
     return rendered;
-  }, [popupRoomBookingsForSelectedDay, currentUser]);
+  }, [popupRoomBookingsForSelectedDay, currentUser, bookingPrincipalIds]);
   const popupRoomFreeSlotChips = useMemo(() => popupRoomFreeIntervals
     .filter((interval) => interval.endMin - interval.startMin >= 30)
     .map((interval) => ({
@@ -1483,6 +1684,11 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     return `Kollidiert mit ${formatMinutes(conflict.startMin)} – ${formatMinutes(conflict.endMin)}`;
   }, [popupDesk, bookingFormValues.startTime, bookingFormValues.endTime, popupRoomOccupiedIntervals]);
   const popupMyBookings = useMemo(() => popupDeskBookings.filter((booking) => isMineBooking(booking, currentUser?.id)), [popupDeskBookings, currentUser?.id]);
+  const popupCheckInBookingIds = useMemo(() => (selectedDate === today
+    ? popupMyBookings
+      .filter((booking) => booking.checkInRequired && booking.checkInStatus !== 'CHECKED_IN')
+      .flatMap((booking) => booking.sourceBookingIds ?? (booking.id ? [booking.id] : []))
+    : []), [popupMyBookings, selectedDate]);
   const popupMySelectedBooking = useMemo(() => {
     if (!popupDesk || isRoomResource(popupDesk) || popupMyBookings.length === 0) return null;
 
@@ -1508,8 +1714,8 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
   const meEmployeeId = currentUser?.id;
   const popupCancelableBookings = useMemo(() => {
     if (!popupDesk || isRoomResource(popupDesk)) return [] as NormalizedOccupancyBooking[];
-    return popupDeskBookings.filter((booking) => canCancelBooking(booking, meEmployeeId, currentUser?.role === 'admin'));
-  }, [currentUser?.role, meEmployeeId, popupDesk, popupDeskBookings]);
+    return popupDeskBookings.filter((booking) => canCancelBooking(booking, meEmployeeId, currentUser?.role === 'admin', bookingPrincipalIds));
+  }, [bookingPrincipalIds, currentUser?.role, meEmployeeId, popupDesk, popupDeskBookings]);
   const canCancelHere = popupCancelableBookings.length > 0;
   const popupOwnBookingIsRecurring = useMemo(() => popupDeskBookings.some((booking) => booking.isCurrentUser && (Boolean(booking.recurringBookingId) || Boolean(booking.recurringGroupId))), [popupDeskBookings]);
   const popupForeignBookings = useMemo(() => popupDeskBookings.filter((booking) => !isMineBooking(booking, currentUser?.id)), [popupDeskBookings, currentUser?.id]);
@@ -1583,6 +1789,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     to: toDateKey(calendarDays[calendarDays.length - 1])
   }), [calendarDays]);
   const bookedCalendarDaysSet = useMemo(() => new Set(bookedCalendarDays), [bookedCalendarDays]);
+  const closedReasonByDate = useMemo(() => new Map(closedCalendarDays.map((day) => [day.date, day.reason])), [closedCalendarDays]);
   const dayAvailabilityByDate = useMemo(() => {
     const monthKey = `${visibleMonth.getUTCFullYear()}-${visibleMonth.getUTCMonth() + 1}`;
     const cacheKey = `${selectedFloorplanId}|${monthKey}|${bookingVersion}`;
@@ -1761,6 +1968,30 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     loadOccupancy(selectedFloorplanId, selectedDate);
   }, [backendDown, floorplans, isBootstrapping, selectedDate, selectedFloorplanId]);
 
+  // Colleagues' bookings arrive as deltas; after a dropped connection the occupancy is reloaded once,
+  // because changes made while disconnected are not replayed.
+  useEffect(() => {
+    if (backendDown || isBootstrapping || !selectedFloorplanId || typeof EventSource === 'undefined') return;
+    const streamUrl = resolveApiUrl(`/occupancy/stream?floorplanId=${encodeURIComponent(selectedFloorplanId)}&date=${selectedDate}`);
+    if (!streamUrl) return;
+
+    const source = new EventSource(streamUrl, { withCredentials: true });
+    let wasDisconnected = false;
+    source.addEventListener('open', () => {
+      if (!wasDisconnected) return;
+      wasDisconnected = false;
+      void loadOccupancy(selectedFloorplanId, selectedDate);
+    });
+    source.addEventListener('error', () => {
+      wasDisconnected = true;
+    });
+    source.addEventListener('occupancy', (event) => {
+      const delta = JSON.parse((event as MessageEvent<string>).data) as OccupancyStreamDelta;
+      setOccupancy((current) => (current && current.floorplanId === selectedFloorplanId && current.date === selectedDate ? applyOccupancyDelta(current, delta) : current));
+    });
+    return () => source.close();
+  }, [backendDown, isBootstrapping, selectedDate, selectedFloorplanId]);
+
   useEffect(() => {
     if (backendDown) {
       setCalendarBookings([]);
@@ -1790,6 +2021,108 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     };
   }, [backendDown, calendarRange.from, calendarRange.to]);
 
+  useEffect(() => {
+    if (backendDown || !selectedFloorplanId) {
+      setClosedCalendarDays([]);
+      return;
+    }
+    let cancelled = false;
+    get<{ closedDates: ClosedDay[] }>(`/closures?floorplanId=${encodeURIComponent(selectedFloorplanId)}&from=${calendarRange.from}&to=${calendarRange.to}`)
+      .then((response) => {
+        if (!cancelled) setClosedCalendarDays(Array.isArray(response.closedDates) ? response.closedDates : []);
+      })
+      .catch(() => {
+        if (!cancelled) setClosedCalendarDays([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendDown, selectedFloorplanId, calendarRange.from, calendarRange.to]);
+
+  useEffect(() => {
+    if (backendDown || overviewView !== 'myBookings') return;
+    let cancelled = false;
+    get<WaitlistEntry[]>(`/waitlist?date=${selectedDate}`)
+      .then((entries) => {
+        if (!cancelled) setWaitlistEntries(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setWaitlistEntries([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendDown, overviewView, selectedDate, bookingVersion]);
+
+  useEffect(() => {
+    if (backendDown || overviewView !== 'myBookings') return;
+    let cancelled = false;
+    get<MeetingInvitation[]>(`/me/meetings?date=${selectedDate}`)
+      .then((entries) => {
+        if (!cancelled) setMeetingInvitations(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setMeetingInvitations([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendDown, overviewView, selectedDate, bookingVersion]);
+
+  useEffect(() => {
+    setResourceSearchResults(null);
+  }, [selectedDate]);
+
+  // Reloaded whenever a resource popup opens so new or ended delegations show up in the "book for" picker.
+  useEffect(() => {
+    if (backendDown || !popupDesk) return;
+    let cancelled = false;
+    get<BookingDelegations>('/me/delegations')
+      .then((response) => {
+        if (!cancelled) setBookingPrincipals(response.principals);
+      })
+      .catch(() => {
+        if (!cancelled) setBookingPrincipals([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendDown, popupDesk?.id]);
+
+  useEffect(() => {
+    setPresenceWeekStart(startOfWeekKey(selectedDate));
+  }, [selectedDate]);
+
+  useEffect(() => {
+    if (backendDown || overviewView !== 'team') return;
+    let cancelled = false;
+    get<FollowedEmployee[]>('/me/follows')
+      .then((entries) => {
+        if (!cancelled) setFollowedEmployees(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setFollowedEmployees([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendDown, overviewView]);
+
+  useEffect(() => {
+    if (backendDown || overviewView !== 'team') return;
+    let cancelled = false;
+    get<PresenceWeek>(`/presence/week?from=${presenceWeekStart}&to=${shiftDateKey(presenceWeekStart, 4)}`)
+      .then((week) => {
+        if (!cancelled) setPresenceWeek(week);
+      })
+      .catch(() => {
+        if (!cancelled) setPresenceWeek(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendDown, overviewView, presenceWeekStart, followedEmployees, bookingVersion]);
+
   useEffect(() => {
     availabilityCacheRef.current.clear();
   }, [selectedFloorplanId, visibleMonth, bookingVersion, floorplanResources, selectedFloorplan?.defaultResourceKind]);
@@ -2065,7 +2398,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
       : ownBooking.sourceBookingIds?.length
         ? ownBooking.sourceBookingIds.filter((id) => {
           const sourceBooking = popupDeskBookings.find((booking) => booking.id === id);
-          return Boolean(sourceBooking && canCancelBooking(sourceBooking, meEmployeeId, currentUser?.role === 'admin'));
+          return Boolean(sourceBooking && canCancelBooking(sourceBooking, meEmployeeId, currentUser?.role === 'admin', bookingPrincipalIds));
         })
         : ownBooking.id
           ? [ownBooking.id]
@@ -2102,24 +2435,33 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     setCancelFlowState('DESK_POPOVER_OPEN');
   };
 
+  const toastVisitorCode = (guestName: string | undefined, visitor: CreatedBookingVisitor, deskId: string) => {
+    toast.success(`Gebucht. Besuchercode für ${guestName?.trim() || 'den Gast'}: ${visitor.code}`, { deskId, durationMs: 12000 });
+  };
+
   const submitPopupBooking = async (deskId: string, payload: BookingSubmitPayload, options?: { overwrite?: boolean; explicitDates?: string[]; conflictResolution?: 'BOOK_ONLY_FREE' | 'REBOOK_CONFLICTS_AND_BOOK_FREE'; suppressSuccessToast?: boolean }): Promise<BulkBookingResponse | void> => {
     if (!selectedEmployeeEmail) {
       throw new Error('Bitte Mitarbeiter auswählen.');
     }
 
     if (payload.type === 'single') {
-      await runWithAppLoading(() => post('/bookings', {
+      const principal = payload.onBehalfOfEmployeeId ? bookingPrincipals.find((entry) => entry.id === payload.onBehalfOfEmployeeId) : undefined;
+      const created = await runWithAppLoading(() => post<{ visitor?: CreatedBookingVisitor }>('/bookings', {
         deskId,
-        userEmail: selectedEmployeeEmail,
+        userEmail: principal?.email ?? selectedEmployeeEmail,
         bookedFor: payload.bookedFor,
         guestName: payload.bookedFor === 'GUEST' ? payload.guestName : undefined,
+        visitor: payload.bookedFor === 'GUEST' ? payload.visitor : undefined,
         date: payload.date,
         daySlot: isTimeBasedResource(popupDesk) ? undefined : payload.slot === 'FULL_DAY' ? 'FULL' : payload.slot === 'MORNING' ? 'AM' : payload.slot === 'AFTERNOON' ? 'PM' : undefined,
         startTime: isTimeBasedResource(popupDesk) ? payload.startTime : undefined,
         endTime: isTimeBasedResource(popupDesk) ? payload.endTime : undefined,
+        title: payload.title,
+        attendees: payload.attendees,
         overwrite: options?.overwrite ?? false
       }));
-      toast.success((options?.overwrite ?? false) ? 'Umbuchung durchgeführt.' : 'Gebucht', { deskId });
+      if (created.visitor) toastVisitorCode(payload.guestName, created.visitor, deskId);
+      else toast.success((options?.overwrite ?? false) ? 'Umbuchung durchgeführt.' : principal ? `Für ${principal.displayName} gebucht` : 'Gebucht', { deskId });
       return { createdCount: 1 };
 
     }
@@ -2176,6 +2518,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
 
     setParkingSmartError('');
     setParkingSmartInfo('');
+    setParkingSmartWaitlistAvailable(false);
     setParkingSmartProposal(null);
     setIsParkingSmartConfirmDialogOpen(false);
     setIsParkingSmartLoading(true);
@@ -2195,6 +2538,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
           return;
         }
         setParkingSmartError(response.message ?? 'Keine passende Kombination verfügbar.');
+        setParkingSmartWaitlistAvailable(Boolean(response.waitlistAvailable) && parkingSmartBookedFor === 'SELF');
         return;
       }
 
@@ -2246,6 +2590,84 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     }
   };
 
+  const requestSmartParkingWeekProposal = async () => {
+    const plannedDays = parkingSmartWeekDays.filter((day) => day.enabled);
+    if (!selectedFloorplanId || plannedDays.length === 0) return;
+    if (plannedDays.some((day) => toMinutes(day.departureTime) <= toMinutes(day.arrivalTime))) {
+      setParkingSmartError('Abreise muss nach der Anreise liegen.');
+      setParkingSmartWeekProposal(null);
+      return;
+    }
+    if (parkingSmartBookedFor === 'GUEST' && parkingSmartGuestName.trim().length < 2) {
+      setParkingSmartError('Gastname muss mindestens 2 Zeichen haben.');
+      setParkingSmartWeekProposal(null);
+      return;
+    }
+
+    setParkingSmartError('');
+    setParkingSmartInfo('');
+    setParkingSmartWeekProposal(null);
+    setIsParkingSmartConfirmDialogOpen(false);
+    setIsParkingSmartLoading(true);
+    try {
+      const response = await post<ParkingSmartWeekResponse>('/bookings/parking-smart/propose-week', {
+        floorplanId: selectedFloorplanId,
+        days: plannedDays.map((day) => ({ date: day.date, arrivalTime: day.arrivalTime, departureTime: day.departureTime, chargingMinutes: day.chargingMinutes }))
+      });
+      if (response.status === 'none') {
+        setParkingSmartError('Für keinen der gewählten Tage ist ein Parkplatz frei.');
+        return;
+      }
+      if (response.status === 'partial') setParkingSmartInfo('Nicht an allen Tagen ist ein Parkplatz frei. Gebucht werden nur die Tage mit Vorschlag.');
+      else if (response.days.some((day) => day.bookings.some((entry) => entry.deskName !== response.homeDeskName && !entry.hasCharger))) {
+        setParkingSmartInfo('Nicht an allen Tagen ist derselbe Parkplatz frei.');
+      }
+      setParkingSmartWeekProposal(response);
+    } catch (error) {
+      setParkingSmartError(getApiErrorMessage(error, 'Parkplätze konnten nicht zugewiesen werden.'));
+    } finally {
+      setIsParkingSmartLoading(false);
+    }
+  };
+
+  const confirmSmartParkingWeekProposal = async () => {
+    if (!parkingSmartWeekProposal) return;
+    if (parkingSmartBookedFor === 'GUEST' && parkingSmartGuestName.trim().length < 2) {
+      setParkingSmartError('Gastname muss mindestens 2 Zeichen haben.');
+      return;
+    }
+    const plannedDays = parkingSmartWeekProposal.days.filter((day) => day.status === 'ok');
+    setIsParkingSmartLoading(true);
+    setParkingSmartError('');
+    const successEntries = plannedDays.flatMap((day) => day.bookings.map((entry, index) => ({
+      id: `${day.date}-${entry.deskId}-${index}`,
+      deskName: entry.deskName,
+      timeLabel: `${formatWeekdayDate(day.date)} · ${entry.startTime ?? formatMinutes(entry.startMinute)}-${entry.endTime ?? formatMinutes(entry.endMinute)}`
+    })));
+    try {
+      await post('/bookings/parking-smart/confirm', {
+        bookedFor: parkingSmartBookedFor,
+        guestName: parkingSmartBookedFor === 'GUEST' ? parkingSmartGuestName.trim() : undefined,
+        days: plannedDays.map((day) => ({
+          date: day.date,
+          bookings: day.bookings.map((entry) => ({ deskId: entry.deskId, startMinute: entry.startMinute, endMinute: entry.endMinute }))
+        }))
+      });
+      setIsParkingSmartDialogOpen(false);
+      setParkingSmartBookingSuccessEntries(successEntries);
+      reloadBookings().catch(() => undefined);
+    } catch (error) {
+      setParkingSmartError(getApiErrorMessage(error, 'Nicht mehr verfügbar, bitte neu zuweisen.'));
+    } finally {
+      setIsParkingSmartLoading(false);
+    }
+  };
+
+  const updateParkingSmartWeekDay = (date: string, patch: Partial<ParkingSmartWeekDay>) => {
+    setParkingSmartWeekDays((current) => current.map((day) => (day.date === date ? { ...day, ...patch } : day)));
+    setParkingSmartWeekProposal(null);
+  };
+
   const createParkingReminderCalendarEvent = () => {
     if (!parkingSmartProposal || parkingSmartProposal.bookings.length < 2) return;
     const first = parkingSmartProposal.bookings[0];
@@ -2325,15 +2747,261 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     }
   };
 
+  const handleCheckIn = async () => {
+    if (!popupDesk || popupCheckInBookingIds.length === 0) return;
+    setIsCheckingIn(true);
+    try {
+      await Promise.all(popupCheckInBookingIds.map((bookingId) => post(`/bookings/${bookingId}/check-in`, {})));
+      toast.success('Eingecheckt', { deskId: popupDesk.id });
+      await reloadBookings();
+      setBookingVersion((value) => value + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Check-in fehlgeschlagen.'));
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  const joinParkingWaitlist = async () => {
+    if (!selectedFloorplanId) return;
+    setIsParkingSmartLoading(true);
+    try {
+      await post('/waitlist', {
+        floorplanId: selectedFloorplanId,
+        kind: 'PARKPLATZ',
+        date: selectedDate,
+        startTime: parkingSmartArrivalTime,
+        endTime: parkingSmartDepartureTime,
+        autoBook: true
+      });
+      toast.success('Auf die Warteliste gesetzt. Wird ein Parkplatz frei, buchen wir ihn automatisch.');
+      setParkingSmartWaitlistAvailable(false);
+      setIsParkingSmartDialogOpen(false);
+      await reloadBookings();
+      setBookingVersion((value) => value + 1);
+    } catch (error) {
+      setParkingSmartError(getApiErrorMessage(error, 'Eintrag auf die Warteliste fehlgeschlagen.'));
+    } finally {
+      setIsParkingSmartLoading(false);
+    }
+  };
+
+  const acceptWaitlistOffer = async (entry: WaitlistEntry) => {
+    setPendingWaitlistEntryId(entry.id);
+    try {
+      await post(`/waitlist/${entry.id}/accept`, {});
+      toast.success(`${entry.offeredDesk?.name ?? 'Ressource'} gebucht`);
+      await reloadBookings();
+      setBookingVersion((value) => value + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Angebot konnte nicht angenommen werden.'));
+      setBookingVersion((value) => value + 1);
+    } finally {
+      setPendingWaitlistEntryId(null);
+    }
+  };
+
+  const leaveWaitlist = async (entry: WaitlistEntry) => {
+    setPendingWaitlistEntryId(entry.id);
+    try {
+      await del(`/waitlist/${entry.id}`);
+      toast.success(entry.status === 'OFFERED' ? 'Angebot abgelehnt' : 'Von der Warteliste entfernt');
+      setBookingVersion((value) => value + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Eintrag konnte nicht entfernt werden.'));
+    } finally {
+      setPendingWaitlistEntryId(null);
+    }
+  };
+
+  const runResourceSearch = async () => {
+    const params = new URLSearchParams({ date: selectedDate });
+    if (resourceSearchFilters.kind !== 'ALL') params.set('kind', resourceSearchFilters.kind);
+    if (resourceSearchFilters.minCapacity.trim()) params.set('minCapacity', resourceSearchFilters.minCapacity.trim());
+    if (resourceSearchFilters.equipment.length > 0) params.set('equipment', resourceSearchFilters.equipment.join(','));
+    if (resourceSearchFilters.slot === 'TIME') {
+      params.set('startTime', resourceSearchFilters.startTime);
+      params.set('endTime', resourceSearchFilters.endTime);
+    } else {
+      params.set('daySlot', resourceSearchFilters.slot);
+    }
+
+    setIsResourceSearchLoading(true);
+    try {
+      const response = await get<{ results: ResourceSearchResult[] }>(`/resources/search?${params.toString()}`);
+      setResourceSearchResults(response.results);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Suche konnte nicht ausgeführt werden.'));
+    } finally {
+      setIsResourceSearchLoading(false);
+    }
+  };
+
+  const bookBestMatch = async () => {
+    if (!selectedEmployeeEmail) {
+      toast.error('Bitte Mitarbeiter auswählen.');
+      return;
+    }
+    const kind = resourceSearchFilters.kind === 'ALL' ? 'TISCH' : resourceSearchFilters.kind;
+    const window = toBestMatchWindow(kind, resourceSearchFilters);
+    const params = new URLSearchParams({ date: selectedDate, kind });
+    if ('daySlot' in window) params.set('daySlot', window.daySlot);
+    else {
+      params.set('from', window.startTime);
+      params.set('to', window.endTime);
+    }
+
+    setIsBestMatchBooking(true);
+    try {
+      const response = await get<{ results: RankedSearchResult[] }>(`/availability/search?${params.toString()}`);
+      const bestMatch = response.results[0];
+      if (!bestMatch) {
+        toast.error(`Kein freier ${resourceKindLabel(kind)} im gewählten Zeitraum.`);
+        return;
+      }
+      await runWithAppLoading(() => post('/bookings', { deskId: bestMatch.id, userEmail: selectedEmployeeEmail, bookedFor: 'SELF', date: selectedDate, ...window }));
+      const reasons = bestMatch.reasons.map((reason) => RANKING_REASON_LABELS[reason]).join(', ');
+      toast.success(`${resourceKindLabel(bestMatch.kind)} ${bestMatch.name} (${bestMatch.floorplan.name}) gebucht${reasons ? ` – ${reasons}` : ''}`, { deskId: bestMatch.id });
+      showResourceSearchResult(bestMatch);
+      setResourceSearchResults(null);
+      setBookingVersion((value) => value + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Buchung des besten Treffers fehlgeschlagen.'));
+    } finally {
+      setIsBestMatchBooking(false);
+    }
+  };
+
+  const showResourceSearchResult = (result: ResourceSearchResult) => {
+    if (selectedResourceKindFilter !== 'ALL' && selectedResourceKindFilter !== result.kind) setSelectedResourceKindFilter('ALL');
+    switchFloorplan(result.floorplan.id);
+    triggerDeskHighlight(result.id, 2500);
+  };
+
+  const followEmployee = async (employeeId: string) => {
+    if (!employeeId) return;
+    try {
+      const followed = await put<FollowedEmployee>(`/me/follows/${employeeId}`, {});
+      setFollowedEmployees((current) => [...current.filter((entry) => entry.id !== followed.id), followed].sort((left, right) => left.displayName.localeCompare(right.displayName, 'de')));
+      setFollowCandidateId('');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Kolleg:in konnte nicht hinzugefügt werden.'));
+    }
+  };
+
+  const unfollowEmployee = async (employee: FollowedEmployee) => {
+    try {
+      await del(`/me/follows/${employee.id}`);
+      setFollowedEmployees((current) => current.filter((entry) => entry.id !== employee.id));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Kolleg:in konnte nicht entfernt werden.'));
+    }
+  };
+
+  const showPresenceEntry = (entry: Pick<PresenceWeekEntry, 'date' | 'floorplan'> & { deskId: string }) => {
+    if (entry.date !== selectedDate) selectDay(new Date(`${entry.date}T00:00:00.000Z`));
+    if (selectedResourceKindFilter !== 'ALL') setSelectedResourceKindFilter('ALL');
+    switchFloorplan(entry.floorplan.id);
+    triggerDeskHighlight(entry.deskId, 2500);
+  };
+
+  // A scanned QR label opens today's popup of that resource, so booking or checking in is one tap away.
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const params = new URLSearchParams(window.location.search);
+    const resourceId = params.get(RESOURCE_QUERY_KEY);
+    if (!resourceId) return;
+    params.delete(RESOURCE_QUERY_KEY);
+    const query = params.toString();
+    window.history.replaceState({}, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+
+    void (async () => {
+      try {
+        const resource = await get<LinkedResource>(`/resources/${encodeURIComponent(resourceId)}`);
+        selectDay(new Date(`${today}T00:00:00.000Z`));
+        setSelectedResourceKindFilter('ALL');
+        setPendingLinkedResource(resource);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Die Ressource aus dem QR-Code ist nicht verfügbar.'));
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!pendingLinkedResource || isBootstrapping || !floorplans.some((floorplan) => floorplan.id === pendingLinkedResource.floorplan.id)) return;
+    if (selectedFloorplanId !== pendingLinkedResource.floorplan.id) {
+      switchFloorplan(pendingLinkedResource.floorplan.id);
+      return;
+    }
+    // Markers only get their anchors once the floorplan image is laid out, hence the displayed rect dependency.
+    const anchor = deskAnchorElementsRef.current.get(pendingLinkedResource.id);
+    if (isUpdatingOccupancy || !anchor || !desks.some((desk) => desk.id === pendingLinkedResource.id)) return;
+    setPendingLinkedResource(null);
+    selectDeskFromCanvas(pendingLinkedResource.id, anchor, { allowUnbookable: true });
+  }, [pendingLinkedResource, isBootstrapping, floorplans, selectedFloorplanId, isUpdatingOccupancy, desks, floorplanDisplayedRect]);
+
+  // Books the closest free resource of the same kind next to the colleague, for the same day and window.
+  const bookNextTo = async (entry: PresenceWeekEntry, colleagueName: string) => {
+    if (!selectedEmployeeEmail) {
+      toast.error('Bitte Mitarbeiter auswählen.');
+      return;
+    }
+    const window: { startTime: string; endTime: string } | { daySlot: 'AM' | 'PM' | 'FULL' } = entry.startTime && entry.endTime ? { startTime: entry.startTime, endTime: entry.endTime } : { daySlot: entry.daySlot ?? 'FULL' };
+    const params = new URLSearchParams({ deskId: entry.desk.id, date: entry.date });
+    if ('daySlot' in window) params.set('daySlot', window.daySlot);
+    else {
+      params.set('startTime', window.startTime);
+      params.set('endTime', window.endTime);
+    }
+    setPendingNextToKey(`${entry.employeeId}-${entry.date}-${entry.desk.id}`);
+    try {
+      const response = await get<{ result: ResourceSearchResult }>(`/presence/next-to?${params.toString()}`);
+      await runWithAppLoading(() => post('/bookings', { deskId: response.result.id, userEmail: selectedEmployeeEmail, bookedFor: 'SELF', date: entry.date, ...window }));
+      toast.success(`${resourceKindLabel(response.result.kind)} ${response.result.name} neben ${colleagueName} gebucht`, { deskId: response.result.id });
+      showPresenceEntry({ date: entry.date, floorplan: entry.floorplan, deskId: response.result.id });
+      setBookingVersion((value) => value + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Kein freier Platz in der Nähe gefunden.'));
+    } finally {
+      setPendingNextToKey(null);
+    }
+  };
+
+  const toggleResourceSearchEquipment = (equipment: ResourceEquipment) => {
+    setResourceSearchFilters((current) => ({
+      ...current,
+      equipment: current.equipment.includes(equipment)
+        ? current.equipment.filter((entry) => entry !== equipment)
+        : RESOURCE_EQUIPMENT_OPTIONS.map((option) => option.value).filter((value) => value === equipment || current.equipment.includes(value))
+    }));
+  };
+
+  const respondToMeeting = async (invitation: MeetingInvitation, response: Exclude<AttendeeResponse, 'PENDING'>) => {
+    setPendingMeetingBookingId(invitation.bookingId);
+    try {
+      const updated = await put<{ response: AttendeeResponse; respondedAt: string | null }>(`/bookings/${invitation.bookingId}/attendance`, { response });
+      setMeetingInvitations((current) => current.map((entry) => (entry.bookingId === invitation.bookingId ? { ...entry, response: updated.response, respondedAt: updated.respondedAt } : entry)));
+      toast.success(response === 'ACCEPTED' ? 'Zugesagt' : response === 'TENTATIVE' ? 'Mit Vorbehalt zugesagt' : 'Abgesagt');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Antwort konnte nicht gespeichert werden.'));
+    } finally {
+      setPendingMeetingBookingId(null);
+    }
+  };
+
   const openParkingSmartDialog = () => {
     setParkingSmartError('');
     setParkingSmartInfo('');
+    setParkingSmartWaitlistAvailable(false);
     setParkingSmartProposal(null);
     setParkingSmartBookedFor('SELF');
     setParkingSmartGuestName('');
     setParkingSmartArrivalTime(userParkingSettings.parkingDefaultArrivalTime);
     setParkingSmartDepartureTime(userParkingSettings.parkingDefaultDepartureTime);
     setParkingChargeMinutes(0);
+    setIsParkingSmartWeekMode(false);
+    setParkingSmartWeekDays(createParkingWeekDays(selectedDate, userParkingSettings));
+    setParkingSmartWeekProposal(null);
     setParkingSmartBookingSuccessEntries(null);
     setIsParkingSmartConfirmDialogOpen(false);
     setIsParkingSmartDialogOpen(true);
@@ -2343,10 +3011,13 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     if (isParkingSmartLoading) return;
     setParkingSmartError('');
     setParkingSmartInfo('');
+    setParkingSmartWaitlistAvailable(false);
     setParkingSmartProposal(null);
     setParkingSmartBookedFor('SELF');
     setParkingSmartGuestName('');
     setParkingChargeMinutes(0);
+    setIsParkingSmartWeekMode(false);
+    setParkingSmartWeekProposal(null);
     setParkingSmartBookingSuccessEntries(null);
     setIsParkingSmartConfirmDialogOpen(false);
     setIsParkingSmartDialogOpen(false);
@@ -2533,18 +3204,23 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         if (!selectedEmployeeEmail) {
           throw new Error('Bitte Mitarbeiter auswählen.');
         }
+        const principal = payload.onBehalfOfEmployeeId ? bookingPrincipals.find((entry) => entry.id === payload.onBehalfOfEmployeeId) : undefined;
         const body = {
           deskId: popupDesk.id,
-          userEmail: selectedEmployeeEmail,
+          userEmail: principal?.email ?? selectedEmployeeEmail,
           bookedFor: payload.bookedFor,
           guestName: payload.bookedFor === 'GUEST' ? payload.guestName : undefined,
+          visitor: payload.bookedFor === 'GUEST' ? payload.visitor : undefined,
           date: payload.date,
           startTime: payload.startTime,
           endTime: payload.endTime,
+          title: payload.title,
+          attendees: payload.attendees,
           overwrite: false
         };
-        await runWithAppLoading(() => createRoomBooking(body, { requestId }));
-        toast.success('Gebucht', { deskId: popupDesk.id });
+        const created = await runWithAppLoading(() => createRoomBooking(body, { requestId }));
+        if (created.visitor) toastVisitorCode(payload.guestName, created.visitor, popupDesk.id);
+        else toast.success(principal ? `Für ${principal.displayName} gebucht` : 'Gebucht', { deskId: popupDesk.id });
       } else {
         if (payload.type === 'recurring' && !isRoomResource(popupDesk)) {
           const preview = await previewRecurringConflicts(popupDesk.id, payload);
@@ -2651,6 +3327,12 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         }
       }
 
+      if (error instanceof ApiError && error.backendCode?.startsWith('POLICY_')) {
+        setBookingDialogState('BOOKING_OPEN');
+        setDialogErrorMessage(getPolicyViolationMessage(error));
+        return;
+      }
+
       setBookingDialogState('BOOKING_OPEN');
       setDialogErrorMessage(error instanceof Error ? error.message : 'Buchung fehlgeschlagen.');
     } finally {
@@ -3011,13 +3693,15 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
           const isToday = dayKey === today;
           const hasBookingsForDay = bookedCalendarDaysSet.has(dayKey);
           const availabilityTone = dayAvailabilityByDate.get(dayKey);
+          const closedReason = closedReasonByDate.get(dayKey);
           return (
-            <button key={dayKey} className={`day-btn ${inVisibleMonth ? '' : 'outside'} ${isSelected ? 'selected' : ''} ${isToday ? 'today' : ''} ${!isSelected && hasBookingsForDay ? 'has-bookings' : ''} ${!isSelected && availabilityTone ? `availability-${availabilityTone}` : ''}`} onClick={() => selectDay(day)}>
+            <button key={dayKey} className={`day-btn ${inVisibleMonth ? '' : 'outside'} ${isSelected ? 'selected' : ''} ${isToday ? 'today' : ''} ${!isSelected && hasBookingsForDay ? 'has-bookings' : ''} ${!isSelected && availabilityTone && !closedReason ? `availability-${availabilityTone}` : ''} ${closedReason ? 'closed' : ''}`} title={closedReason ? `Geschlossen: ${closedReason}` : undefined} onClick={() => selectDay(day)}>
               {day.getUTCDate()}
             </button>
           );
         })}
       </div>
+      {closedReasonByDate.has(selectedDate) && <p className="muted">Standort geschlossen: {closedReasonByDate.get(selectedDate)}</p>}
       <label className="stack-xs">
         <span className="field-label">Ressourcenart</span>
         <select value={selectedResourceKindFilter} onChange={(event) => setSelectedResourceKindFilter(event.target.value as 'ALL' | ResourceKind)}>
@@ -3031,7 +3715,10 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         <span className="legend-chip"><i className="dot availability-none" /> Voll</span>
         <span className="legend-chip"><i className="dot booked" /> Belegt</span>
         <span className="legend-chip"><i className="dot selected" /> Dein Platz</span>
+        <span className="legend-chip"><i className="dot closed" /> Geschlossen</span>
+        {myTeamZoneNames.length > 0 && <span className="legend-chip"><i className="dot team-zone" /> Zone deines Teams</span>}
       </div>
+      {myTeamZoneNames.length > 0 && <p className="muted">Dein Team sitzt hier: {myTeamZoneNames.join(', ')}</p>}
     </section>
   );
 
@@ -3041,6 +3728,24 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
     </section>
   );
 
+  const parkingWeekProposalList = parkingSmartWeekProposal && (
+    <div className="parking-smart-success-list" role="list" aria-label="Vorschlag für die Woche">
+      {parkingSmartWeekProposal.days.map((day) => (
+        <div key={day.date} className="parking-smart-success-item" role="listitem">
+          <strong>{formatWeekdayDate(day.date)}</strong>
+          {day.status === 'ok'
+            ? (
+              <span>
+                {day.bookings.map((entry) => `${entry.deskName} ${entry.startTime ?? formatMinutes(entry.startMinute)}-${entry.endTime ?? formatMinutes(entry.endMinute)}`).join(' → ')}
+                {day.chargingMinutes < day.requestedChargingMinutes && <span className="muted"> · {day.chargingMinutes > 0 ? `nur ${Math.floor(day.chargingMinutes / 60)}h ${day.chargingMinutes % 60}min Laden` : 'ohne Laden'}</span>}
+              </span>
+              )
+            : <span className="muted">{day.message ?? 'Kein Parkplatz frei'}</span>}
+        </div>
+      ))}
+    </div>
+  );
+
   const renderOccupancyList = (items: OccupantForDay[], title: string, emptyText: string) => {
     if (items.length === 0) {
       return (
@@ -3103,13 +3808,82 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         <span className="field-label">Ansicht</span>
         <select value={overviewView} onChange={(event) => setOverviewView(event.target.value as OverviewView)} aria-label="Ansicht wählen">
           <option value="presence">Anwesenheit</option>
+          <option value="team">Kolleg:innen (Woche)</option>
           <option value="rooms">Räume</option>
           <option value="myBookings">Meine Buchungen</option>
+          <option value="search">Ressource finden</option>
         </select>
       </label>
 
       {overviewView === 'presence' && renderOccupancyList(bookingsForSelectedDate, 'Anwesenheit am ausgewählten Datum', 'Niemand anwesend')}
 
+      {overviewView === 'team' && (
+        <div className="stack-sm presence-week">
+          <div className="presence-week-follow">
+            <select value={followCandidateId} onChange={(event) => setFollowCandidateId(event.target.value)} aria-label="Kolleg:in auswählen">
+              <option value="">Kolleg:in folgen…</option>
+              {followCandidates.map((employee) => <option key={employee.id} value={employee.id}>{employee.displayName}</option>)}
+            </select>
+            <button type="button" className="btn btn-outline" onClick={() => void followEmployee(followCandidateId)} disabled={!followCandidateId}>Folgen</button>
+          </div>
+          <div className="inline-between presence-week-nav">
+            <button type="button" className="btn btn-ghost" onClick={() => setPresenceWeekStart((current) => shiftDateKey(current, -7))} aria-label="Vorherige Woche">‹</button>
+            <strong>{formatDate(presenceWeekStart)} – {formatDate(shiftDateKey(presenceWeekStart, 4))}</strong>
+            <button type="button" className="btn btn-ghost" onClick={() => setPresenceWeekStart((current) => shiftDateKey(current, 7))} aria-label="Nächste Woche">›</button>
+          </div>
+          {followedEmployees.length === 0 && <div className="empty-state compact-empty-state"><p>Du folgst noch niemandem. Wähle oben Kolleg:innen aus, um zu sehen, wann sie im Büro sind.</p></div>}
+          {followedEmployees.length > 0 && presenceWeek && (
+            <div className="presence-week-scroll">
+              <table className="presence-week-grid">
+                <thead>
+                  <tr>
+                    <th scope="col">Kolleg:in</th>
+                    {presenceWeek.dates.map((date) => (
+                      <th key={date} scope="col" className={date === selectedDate ? 'is-selected' : ''}>
+                        {new Date(`${date}T00:00:00.000Z`).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit', timeZone: 'UTC' })}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {followedEmployees.map((employee) => (
+                    <tr key={employee.id}>
+                      <th scope="row">
+                        <div className="presence-week-person">
+                          <Avatar displayName={employee.displayName} email={employee.email} photoUrl={employee.photoUrl ?? undefined} size={22} />
+                          <span>{employee.displayName}</span>
+                          <button type="button" className="btn btn-ghost btn-icon" onClick={() => void unfollowEmployee(employee)} aria-label={`${employee.displayName} nicht mehr folgen`}>✕</button>
+                        </div>
+                      </th>
+                      {presenceWeek.dates.map((date) => (
+                        <td key={date} className={date === selectedDate ? 'is-selected' : ''}>
+                          {presenceWeek.entries.filter((entry) => entry.employeeId === employee.id && entry.date === date).map((entry) => {
+                            const entryKey = `${entry.employeeId}-${entry.date}-${entry.desk.id}`;
+                            return (
+                              <div key={`${entryKey}-${presenceEntryWindowLabel(entry)}`} className="presence-week-entry">
+                                <button type="button" className="presence-week-desk" onClick={() => showPresenceEntry({ date: entry.date, floorplan: entry.floorplan, deskId: entry.desk.id })} title={`${resourceKindLabel(entry.desk.kind)} ${entry.desk.name} · ${entry.floorplan.name}`}>
+                                  <strong>{entry.desk.name}</strong>
+                                  <small>{entry.floorplan.name} · {presenceEntryWindowLabel(entry)}</small>
+                                </button>
+                                {entry.date >= today && (
+                                  <button type="button" className="btn btn-ghost presence-week-next-to" onClick={() => void bookNextTo(entry, employee.displayName)} disabled={pendingNextToKey !== null}>
+                                    {pendingNextToKey === entryKey ? 'Buche…' : 'Daneben buchen'}
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {overviewView === 'rooms' && (
         <div className="occupancy-list" role="list" aria-label="Raumübersicht">
           {roomsForSelectedDate.length === 0 && <div className="empty-state compact-empty-state"><p>Keine Räume gefunden.</p></div>}
@@ -3126,19 +3900,113 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         </div>
       )}
 
+      {overviewView === 'search' && (
+        <div className="stack-sm resource-search">
+          <div className="resource-search-filters">
+            <label className="stack-xs">
+              <span className="field-label">Art</span>
+              <select value={resourceSearchFilters.kind} onChange={(event) => setResourceSearchFilters((current) => ({ ...current, kind: event.target.value as ResourceSearchFilters['kind'] }))}>
+                <option value="ALL">Alle</option>
+                {RESOURCE_KIND_OPTIONS.map((kind) => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+              </select>
+            </label>
+            <label className="stack-xs">
+              <span className="field-label">Personen (mind.)</span>
+              <input type="number" min={1} max={999} placeholder="beliebig" value={resourceSearchFilters.minCapacity} onChange={(event) => setResourceSearchFilters((current) => ({ ...current, minCapacity: event.target.value }))} />
+            </label>
+            <label className="stack-xs">
+              <span className="field-label">Zeitraum</span>
+              <select value={resourceSearchFilters.slot} onChange={(event) => setResourceSearchFilters((current) => ({ ...current, slot: event.target.value as ResourceSearchFilters['slot'] }))}>
+                <option value="FULL">Ganztägig</option>
+                <option value="AM">Vormittag</option>
+                <option value="PM">Nachmittag</option>
+                <option value="TIME">Uhrzeit</option>
+              </select>
+            </label>
+            {resourceSearchFilters.slot === 'TIME' && (
+              <div className="resource-search-times">
+                <input type="time" aria-label="Von" value={resourceSearchFilters.startTime} onChange={(event) => setResourceSearchFilters((current) => ({ ...current, startTime: event.target.value }))} />
+                <input type="time" aria-label="Bis" value={resourceSearchFilters.endTime} onChange={(event) => setResourceSearchFilters((current) => ({ ...current, endTime: event.target.value }))} />
+              </div>
+            )}
+          </div>
+          <div className="resource-search-equipment" role="group" aria-label="Ausstattung">
+            {RESOURCE_EQUIPMENT_OPTIONS.map((option) => (
+              <button key={option.value} type="button" className={`free-slot-chip ${resourceSearchFilters.equipment.includes(option.value) ? 'is-active' : ''}`} aria-pressed={resourceSearchFilters.equipment.includes(option.value)} onClick={() => toggleResourceSearchEquipment(option.value)}>{option.label}</button>
+            ))}
+          </div>
+          <div className="resource-search-actions">
+            <button type="button" className="btn btn-outline" onClick={() => void runResourceSearch()} disabled={isResourceSearchLoading || isBestMatchBooking}>{isResourceSearchLoading ? 'Suche…' : 'Freie Ressourcen suchen'}</button>
+            <button type="button" className="btn" onClick={() => void bookBestMatch()} disabled={isResourceSearchLoading || isBestMatchBooking} title="Bucht den freien Platz, den du am häufigsten nutzt bzw. der am nächsten bei deinen Kolleg:innen liegt">{isBestMatchBooking ? 'Buche…' : resourceSearchFilters.kind === 'SONSTIGES' ? 'Beste Ressource buchen' : `Besten ${resourceKindLabel(resourceSearchFilters.kind === 'ALL' ? 'TISCH' : resourceSearchFilters.kind)} buchen`}</button>
+          </div>
+          {resourceSearchResults && (
+            <div className="occupancy-list" role="list" aria-label="Suchergebnisse">
+              {resourceSearchResults.length === 0 && <div className="empty-state compact-empty-state"><p>Keine passende freie Ressource gefunden.</p></div>}
+              {resourceSearchResults.map((result) => (
+                <button key={result.id} type="button" className={`occupant-compact-card resource-search-result ${highlightedDeskId === result.id ? 'is-highlighted' : ''}`} role="listitem" onClick={() => showResourceSearchResult(result)}>
+                  <div className="occupant-card-main">
+                    <div className="occupant-card-text">
+                      <strong>{resourceKindLabel(result.kind)}: {result.name}</strong>
+                      <p className="muted">
+                        {result.floorplan.name}{result.capacity ? ` · ${result.capacity} Personen` : ''}{result.equipment.length > 0 ? ` · ${result.equipment.map(resourceEquipmentLabel).join(', ')}` : ''}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {overviewView === 'myBookings' && (
         <div className="occupancy-list" role="list" aria-label="Eigene Buchungen">
-          {myBookingsForSelectedDate.length === 0 && <div className="empty-state compact-empty-state"><p>Keine eigenen Buchungen am gewählten Tag.</p></div>}
+          {myBookingsForSelectedDate.length === 0 && waitlistEntries.length === 0 && meetingInvitations.length === 0 && <div className="empty-state compact-empty-state"><p>Keine eigenen Buchungen am gewählten Tag.</p></div>}
           {myBookingsForSelectedDate.map(({ desk, booking }) => (
             <div key={`${desk.id}-${booking.id ?? bookingSlotLabel(booking)}`} className="occupant-compact-card" role="listitem">
               <div className="occupant-card-main">
                 <div className="occupant-card-text">
                   <strong>{resourceKindLabel(desk.kind)}: {desk.name}</strong>
-                  <p className="muted">{bookingSlotLabel(booking)}</p>
+                  <p className="muted">{booking.title ? `${booking.title} · ` : ''}{bookingSlotLabel(booking)}</p>
                 </div>
               </div>
             </div>
           ))}
+          {meetingInvitations.map((invitation) => (
+            <div key={invitation.attendeeId} className="occupant-compact-card" role="listitem">
+              <div className="occupant-card-main">
+                <div className="occupant-card-text">
+                  <strong>{invitation.title ?? 'Besprechung'}: {invitation.desk.name}</strong>
+                  <p className="muted">
+                    {invitation.startTime && invitation.endTime ? `${invitation.startTime}–${invitation.endTime}` : 'Ganztägig'} · von {invitation.organizer} · {invitation.attendeeCount} Teilnehmende
+                  </p>
+                </div>
+              </div>
+              <div className="inline-end meeting-invite-actions">
+                <button type="button" className={invitation.response === 'ACCEPTED' ? 'btn' : 'btn btn-outline'} onClick={() => void respondToMeeting(invitation, 'ACCEPTED')} disabled={pendingMeetingBookingId === invitation.bookingId}>Zusagen</button>
+                <button type="button" className={invitation.response === 'TENTATIVE' ? 'btn' : 'btn btn-outline'} onClick={() => void respondToMeeting(invitation, 'TENTATIVE')} disabled={pendingMeetingBookingId === invitation.bookingId}>Vielleicht</button>
+                <button type="button" className={invitation.response === 'DECLINED' ? 'btn' : 'btn btn-outline'} onClick={() => void respondToMeeting(invitation, 'DECLINED')} disabled={pendingMeetingBookingId === invitation.bookingId}>Absagen</button>
+              </div>
+            </div>
+          ))}
+          {waitlistEntries.filter((entry) => entry.status !== 'BOOKED').map((entry) => (
+            <div key={entry.id} className="occupant-compact-card" role="listitem">
+              <div className="occupant-card-main">
+                <div className="occupant-card-text">
+                  <strong>Warteliste {resourceKindLabel(entry.kind)}: {entry.floorplanName}</strong>
+                  <p className="muted">
+                    {entry.startTime}–{entry.endTime} · {entry.status === 'OFFERED'
+                      ? `${entry.offeredDesk?.name ?? 'Ressource'} frei${entry.offerExpiresAt ? ` bis ${new Date(entry.offerExpiresAt).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}` : ''}`
+                      : `Position ${entry.position ?? '–'}`}
+                  </p>
+                </div>
+              </div>
+              <div className="inline-end">
+                {entry.status === 'OFFERED' && <button type="button" className="btn" onClick={() => void acceptWaitlistOffer(entry)} disabled={pendingWaitlistEntryId === entry.id}>Buchen</button>}
+                <button type="button" className="btn btn-outline" onClick={() => void leaveWaitlist(entry)} disabled={pendingWaitlistEntryId === entry.id}>{entry.status === 'OFFERED' ? 'Ablehnen' : 'Austragen'}</button>
+              </div>
+            </div>
+          ))}
         </div>
       )}
     </section>
@@ -3299,6 +4167,9 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
                   errorMessage={dialogErrorMessage}
                   allowRecurring={popupDesk.effectiveAllowSeries !== false}
                   resourceKind={popupDesk.kind}
+                  attendeeOptions={employees.filter((employee) => employee.email.toLowerCase() !== selectedEmployeeEmail.toLowerCase())}
+                  delegatorOptions={bookingPrincipals}
+                  roomCapacity={popupDesk.capacity ?? null}
                   roomSchedule={isTimeBasedResource(popupDesk)
                     ? {
                       bookings: popupRoomBookingsList.map((booking) => ({
@@ -3330,6 +4201,11 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
                 />
                 {!isRoomResource(popupDesk) && canCancelHere && (
                   <footer className="desk-popup-footer-actions">
+                    {popupCheckInBookingIds.length > 0 && (
+                      <button type="button" className="btn" onClick={() => void handleCheckIn()} disabled={isCheckingIn || bookingDialogState === 'SUBMITTING'}>
+                        {isCheckingIn ? 'Einchecken…' : 'Einchecken'}
+                      </button>
+                    )}
                     <button
                       type="button"
                       className="btn btn-danger"
@@ -3410,8 +4286,10 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
                   <p><span className="muted">Datum</span><strong>{new Date(`${selectedDate}T00:00:00.000Z`).toLocaleDateString('de-DE')}</strong></p>
                   {popupMySelectedBooking
                     ? <p><span className="muted">Zeitraum: </span><strong>{bookingSlotLabel(popupMySelectedBooking)}</strong></p>
-                    : !isRoomResource(popupDesk) && <p><span className="muted">Status</span><strong>{popupDeskState === 'UNBOOKABLE' ? 'Für deinen Mandanten nicht buchbar' : deskAvailabilityLabel(popupDeskAvailability)}</strong></p>}
-                  {popupDeskState === 'UNBOOKABLE' && <p className="muted">Für deinen Mandanten nicht buchbar.</p>}
+                    : !isRoomResource(popupDesk) && <p><span className="muted">Status</span><strong>{popupDeskState === 'UNBOOKABLE' ? unbookableReason(popupDesk) : deskAvailabilityLabel(popupDeskAvailability)}</strong></p>}
+                  {popupDesk.zone && <p><span className="muted">Zone</span><strong>{popupDesk.zone.name}{popupDesk.zone.isMyZone ? ' · dein Team' : popupDesk.zone.isExclusive ? ' · exklusiv' : ''}</strong></p>}
+                  {popupMySelectedBooking?.checkInRequired && <p><span className="muted">Check-in</span><strong>{popupMySelectedBooking.checkInStatus === 'CHECKED_IN' ? 'Eingecheckt' : 'Ausstehend'}</strong></p>}
+                  {popupDeskState === 'UNBOOKABLE' && <p className="muted">{unbookableReason(popupDesk)}.</p>}
                   {popupDeskBookings.map((booking) => (
                     <p key={booking.id ?? `${booking.userEmail ?? 'unknown'}-${bookingSlotLabel(booking)}`}>
                       <span className="muted">Gebucht für</span>
@@ -3439,6 +4317,11 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
 
                 <footer className="desk-popup-footer-actions">
                   <button type="button" className="btn btn-outline" onClick={closeBookingFlow} disabled={isCancellingBooking}>Schließen</button>
+                  {popupCheckInBookingIds.length > 0 && (
+                    <button type="button" className="btn" onClick={() => void handleCheckIn()} disabled={isCheckingIn}>
+                      {isCheckingIn ? 'Einchecken…' : 'Einchecken'}
+                    </button>
+                  )}
                   {canCancelHere && (
                     <button
                       type="button"
@@ -3487,44 +4370,90 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
                     <input type="text" value={parkingSmartGuestName} onChange={(event) => setParkingSmartGuestName(event.target.value)} placeholder="Name des Gasts" disabled={isParkingSmartLoading} />
                   </label>
                 )}
-                <div className="parking-smart-row">
-                  <label className="field parking-smart-field">
-                    <span>Anreise</span>
-                    <input type="time" min="00:00" max="23:30" step={1800} value={parkingSmartArrivalTime} onChange={(event) => setParkingSmartArrivalTime(event.target.value)} disabled={isParkingSmartLoading} />
-                  </label>
-                  <label className="field parking-smart-field">
-                    <span>Abreise</span>
-                    <input type="time" min="00:30" max="23:59" step={1800} value={parkingSmartDepartureTime} onChange={(event) => setParkingSmartDepartureTime(event.target.value)} disabled={isParkingSmartLoading} />
-                  </label>
+                <div className="field parking-smart-field parking-smart-field-full">
+                  <span>Ganze Woche planen</span>
+                  <button
+                    type="button"
+                    className={`parking-switch ${isParkingSmartWeekMode ? 'is-on' : 'is-off'}`}
+                    role="switch"
+                    aria-checked={isParkingSmartWeekMode}
+                    onClick={() => {
+                      setIsParkingSmartWeekMode((current) => !current);
+                      setParkingSmartProposal(null);
+                      setParkingSmartWeekProposal(null);
+                      setParkingSmartError('');
+                      setParkingSmartInfo('');
+                      setParkingSmartWaitlistAvailable(false);
+                    }}
+                    disabled={isParkingSmartLoading}
+                  >
+                    <span className="parking-switch-track" aria-hidden="true"><span className="parking-switch-thumb" /></span>
+                    <span className="parking-switch-label">{isParkingSmartWeekMode ? 'Ja' : 'Nein'}</span>
+                  </button>
                 </div>
-                <div className="parking-smart-row">
-                  <div className="field parking-smart-field">
-                    <span>Laden erforderlich</span>
-                    <button
-                      type="button"
-                      className={`parking-switch ${parkingChargeMinutes > 0 ? 'is-on' : 'is-off'}`}
-                      role="switch"
-                      aria-checked={parkingChargeMinutes > 0}
-                      onClick={() => setParkingChargeMinutes((current) => (current > 0 ? 0 : 240))}
-                      disabled={isParkingSmartLoading}
-                    >
-                      <span className="parking-switch-track" aria-hidden="true"><span className="parking-switch-thumb" /></span>
-                      <span className="parking-switch-label">{parkingChargeMinutes > 0 ? 'Ja' : 'Nein'}</span>
-                    </button>
+                {isParkingSmartWeekMode && (
+                  <div className="parking-smart-week" role="group" aria-label="Tage der Woche">
+                    {parkingSmartWeekDays.map((day) => {
+                      const dayLabel = formatWeekdayDate(day.date);
+                      return (
+                        <div key={day.date} className="parking-smart-week-row">
+                          <label className="parking-smart-week-day">
+                            <input type="checkbox" checked={day.enabled} onChange={(event) => updateParkingSmartWeekDay(day.date, { enabled: event.target.checked })} disabled={isParkingSmartLoading || day.date < today} />
+                            <span>{dayLabel}</span>
+                          </label>
+                          <input type="time" aria-label={`Anreise ${dayLabel}`} min="00:00" max="23:30" step={1800} value={day.arrivalTime} onChange={(event) => updateParkingSmartWeekDay(day.date, { arrivalTime: event.target.value })} disabled={isParkingSmartLoading || !day.enabled} />
+                          <input type="time" aria-label={`Abreise ${dayLabel}`} min="00:30" max="23:59" step={1800} value={day.departureTime} onChange={(event) => updateParkingSmartWeekDay(day.date, { departureTime: event.target.value })} disabled={isParkingSmartLoading || !day.enabled} />
+                          <select aria-label={`Ladedauer ${dayLabel}`} value={String(day.chargingMinutes)} onChange={(event) => updateParkingSmartWeekDay(day.date, { chargingMinutes: Number(event.target.value) || 0 })} disabled={isParkingSmartLoading || !day.enabled}>
+                            <option value="0">Ohne Laden</option>
+                            {Array.from({ length: 8 }, (_, index) => <option key={index} value={(index + 1) * 60}>{index + 1} h Laden</option>)}
+                          </select>
+                        </div>
+                      );
+                    })}
                   </div>
-                  <label className="field parking-smart-field">
-                    <span>Ladedauer</span>
-                    <select value={String(parkingChargeMinutes > 0 ? parkingChargeMinutes : 240)} onChange={(event) => setParkingChargeMinutes(Math.max(60, Number(event.target.value) || 240))} disabled={isParkingSmartLoading || parkingChargeMinutes <= 0}>
-                      {Array.from({ length: 8 }, (_, index) => {
-                        const hours = index + 1;
-                        const minutes = hours * 60;
-                        return <option key={hours} value={minutes}>{hours} h</option>;
-                      })}
-                    </select>
-                  </label>
-                </div>
+                )}
+                {!isParkingSmartWeekMode && (
+                  <>
+                    <div className="parking-smart-row">
+                      <label className="field parking-smart-field">
+                        <span>Anreise</span>
+                        <input type="time" min="00:00" max="23:30" step={1800} value={parkingSmartArrivalTime} onChange={(event) => setParkingSmartArrivalTime(event.target.value)} disabled={isParkingSmartLoading} />
+                      </label>
+                      <label className="field parking-smart-field">
+                        <span>Abreise</span>
+                        <input type="time" min="00:30" max="23:59" step={1800} value={parkingSmartDepartureTime} onChange={(event) => setParkingSmartDepartureTime(event.target.value)} disabled={isParkingSmartLoading} />
+                      </label>
+                    </div>
+                    <div className="parking-smart-row">
+                      <div className="field parking-smart-field">
+                        <span>Laden erforderlich</span>
+                        <button
+                          type="button"
+                          className={`parking-switch ${parkingChargeMinutes > 0 ? 'is-on' : 'is-off'}`}
+                          role="switch"
+                          aria-checked={parkingChargeMinutes > 0}
+                          onClick={() => setParkingChargeMinutes((current) => (current > 0 ? 0 : 240))}
+                          disabled={isParkingSmartLoading}
+                        >
+                          <span className="parking-switch-track" aria-hidden="true"><span className="parking-switch-thumb" /></span>
+                          <span className="parking-switch-label">{parkingChargeMinutes > 0 ? 'Ja' : 'Nein'}</span>
+                        </button>
+                      </div>
+                      <label className="field parking-smart-field">
+                        <span>Ladedauer</span>
+                        <select value={String(parkingChargeMinutes > 0 ? parkingChargeMinutes : 240)} onChange={(event) => setParkingChargeMinutes(Math.max(60, Number(event.target.value) || 240))} disabled={isParkingSmartLoading || parkingChargeMinutes <= 0}>
+                          {Array.from({ length: 8 }, (_, index) => {
+                            const hours = index + 1;
+                            const minutes = hours * 60;
+                            return <option key={hours} value={minutes}>{hours} h</option>;
+                          })}
+                        </select>
+                      </label>
+                    </div>
+                  </>
+                )}
               </div>
-              {isParkingTimeRangeInvalid && <p className="field-error">Abreise muss nach der Anreise liegen.</p>}
+              {!isParkingSmartWeekMode && isParkingTimeRangeInvalid && <p className="field-error">Abreise muss nach der Anreise liegen.</p>}
               {hasParkingProposalConflict && <p className="field-error">Überlappende Buchungszeiten für denselben Parkplatz sind nicht erlaubt.</p>}
               {parkingSmartError && <p className="field-error">{parkingSmartError}</p>}
               {parkingSmartInfo && <p className="muted">{parkingSmartInfo}</p>}
@@ -3534,16 +4463,36 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
                   <ParkingScheduleGrid entries={parkingScheduleEntries} />
                 </div>
               )}
+              {parkingWeekProposalList && (
+                <div className="stack-xs parking-smart-proposal-block">
+                  <strong>Vorschlag{parkingSmartWeekProposal?.homeDeskName ? ` · Stammplatz ${parkingSmartWeekProposal.homeDeskName}` : ''}</strong>
+                  {parkingWeekProposalList}
+                </div>
+              )}
               <div className="parking-smart-actions">
                 <button type="button" className="btn btn-outline" onClick={closeParkingSmartDialog} disabled={isParkingSmartLoading}>Abbrechen</button>
-                {parkingSmartProposal
+                {isParkingSmartWeekMode
+                  ? (
+                    <>
+                      {parkingSmartWeekProposal && <button type="button" className="btn btn-ghost" onClick={requestSmartParkingWeekProposal} disabled={isParkingSmartLoading}>Vorschlag neu berechnen</button>}
+                      {parkingSmartWeekProposal
+                        ? <button type="button" className="btn" onClick={() => setIsParkingSmartConfirmDialogOpen(true)} disabled={isParkingSmartLoading}>Vorschlag bestätigen</button>
+                        : <button type="button" className="btn parking-smart-calculate-btn" onClick={requestSmartParkingWeekProposal} disabled={isParkingSmartLoading || !parkingSmartWeekDays.some((day) => day.enabled)}>Vorschlag berechnen</button>}
+                    </>
+                    )
+                  : parkingSmartProposal
                   ? (
                     <>
                       <button type="button" className="btn btn-ghost" onClick={requestSmartParkingProposal} disabled={isParkingSmartLoading || isParkingTimeRangeInvalid}>Vorschlag neu berechnen</button>
                       <button type="button" className="btn" onClick={() => setIsParkingSmartConfirmDialogOpen(true)} disabled={isParkingSmartLoading || hasParkingProposalConflict}>Vorschlag bestätigen</button>
                     </>
                     )
-                  : <button type="button" className="btn parking-smart-calculate-btn" onClick={requestSmartParkingProposal} disabled={isParkingSmartLoading || isParkingTimeRangeInvalid}>Vorschlag berechnen</button>}
+                  : (
+                    <>
+                      {parkingSmartWaitlistAvailable && <button type="button" className="btn btn-ghost" onClick={joinParkingWaitlist} disabled={isParkingSmartLoading}>Auf Warteliste setzen</button>}
+                      <button type="button" className="btn parking-smart-calculate-btn" onClick={requestSmartParkingProposal} disabled={isParkingSmartLoading || isParkingTimeRangeInvalid}>Vorschlag berechnen</button>
+                    </>
+                    )}
               </div>
             </div>
           </section>
@@ -3551,7 +4500,7 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
         document.body
       )}
 
-      {isParkingSmartConfirmDialogOpen && (parkingSmartProposal || parkingSmartBookingSuccessEntries) && createPortal(
+      {isParkingSmartConfirmDialogOpen && (parkingSmartProposal || parkingSmartWeekProposal || parkingSmartBookingSuccessEntries) && createPortal(
         <div className="overlay" role="presentation">
           <section className="card dialog rebook-dialog parking-smart-confirm-dialog" role="dialog" aria-modal="true" aria-labelledby="parking-smart-confirm-title">
             {parkingSmartBookingSuccessEntries
@@ -3579,6 +4528,19 @@ export function BookingApp({ onOpenAdmin, canOpenAdmin, currentUserEmail, onLogo
                   </div>
                 </>
                 )
+              : parkingSmartWeekProposal
+                ? (
+                  <>
+                    <h3 id="parking-smart-confirm-title">Parkplätze für die Woche buchen?</h3>
+                    <p className="parking-smart-confirm-intro">Alle Tage mit Vorschlag werden gemeinsam gebucht – ist ein Platz inzwischen vergeben, wird keiner gebucht.</p>
+                    {parkingWeekProposalList}
+                    {parkingSmartError && <p className="field-error">{parkingSmartError}</p>}
+                    <div className="inline-end parking-smart-confirm-actions parking-smart-confirm-actions-row">
+                      <button type="button" className="btn btn-danger" onClick={() => setIsParkingSmartConfirmDialogOpen(false)} disabled={isParkingSmartLoading}>Zurück</button>
+                      <button type="button" className="btn" onClick={confirmSmartParkingWeekProposal} disabled={isParkingSmartLoading}>Jetzt verbindlich buchen</button>
+                    </div>
+                  </>
+                  )
               : parkingSmartProposal && (
                 <>
                   <h3 id="parking-smart-confirm-title">Parkplatz-Buchung bestätigen?</h3>
@@ -25,6 +25,8 @@ type FloorplanBooking = {
   startTime?: string;
   endTime?: string;
   isCurrentUser?: boolean;
+  checkInRequired?: boolean;
+  checkInStatus?: 'PENDING' | 'CHECKED_IN';
 };
 
 type FloorplanDesk = {
@@ -44,6 +46,8 @@ type FloorplanDesk = {
   isHighlighted?: boolean;
   isSelected?: boolean;
   isBookableForMe?: boolean;
+  zoneColor?: string | null;
+  isInTeamZone?: boolean;
 };
 const PIN_HITBOX_SIZE = 44;
 const PIN_VISUAL_SIZE = 36;
@@ -92,6 +96,12 @@ const normalizeBookings = (desk: FloorplanDesk): FloorplanBooking[] => {
   return normalizeDaySlotBookings(bookings);
 };
 
+const resolveCheckInState = (bookings: FloorplanBooking[]): 'pending' | 'checked-in' | null => {
+  const required = bookings.filter((booking) => booking.checkInRequired);
+  if (required.length === 0) return null;
+  return required.some((booking) => booking.checkInStatus !== 'CHECKED_IN') ? 'pending' : 'checked-in';
+};
+
 const isClockSegmentResource = (kind?: string): boolean => kind === 'RAUM' || kind === 'PARKPLATZ';
 
 const slotFromBooking = (booking: FloorplanBooking): 'AM' | 'PM' | 'FULL' | null => {
@@ -155,6 +165,7 @@ const DeskOverlay = memo(function DeskOverlay({ markers, selectedDeskId, hovered
           const pmBooking = fullBooking ?? bookings.find((booking) => slotFromBooking(booking) === 'PM');
           const isInteracting = selectedDeskId === desk.id || hoveredDeskId === desk.id || Boolean(desk.isSelected);
           const isTenantBlocked = desk.isBookableForMe === false;
+          const checkInState = resolveCheckInState(bookings);
           const isClickable = true;
           const centerBooking = fullBooking ?? bookings[0];
           const initials = getInitials(centerBooking?.userDisplayName, centerBooking?.userEmail ?? undefined);
@@ -201,11 +212,12 @@ const DeskOverlay = memo(function DeskOverlay({ markers, selectedDeskId, hovered
               ref={(element) => onDeskAnchorChange?.(desk.id, element)}
               type="button"
               data-desk-id={desk.id}
-              className={`desk-pin ${selectedDeskId === desk.id ? 'selected' : ''} ${hoveredDeskId === desk.id ? 'hovered' : ''} ${desk.isCurrentUsersDesk ? 'is-own-desk' : ''} ${desk.isHighlighted ? 'is-highlighted' : ''} ${desk.isSelected ? 'is-selected' : ''} ${!isClickable ? 'is-click-disabled' : ''} ${isTenantBlocked ? 'is-not-bookable' : ''}`}
+              className={`desk-pin ${selectedDeskId === desk.id ? 'selected' : ''} ${hoveredDeskId === desk.id ? 'hovered' : ''} ${desk.isCurrentUsersDesk ? 'is-own-desk' : ''} ${desk.isHighlighted ? 'is-highlighted' : ''} ${desk.isSelected ? 'is-selected' : ''} ${!isClickable ? 'is-click-disabled' : ''} ${isTenantBlocked ? 'is-not-bookable' : ''} ${checkInState === 'pending' ? 'is-check-in-pending' : ''} ${checkInState === 'checked-in' ? 'is-checked-in' : ''} ${desk.zoneColor ? 'has-zone' : ''} ${desk.isInTeamZone ? 'is-team-zone' : ''}`}
               data-free={shouldShowPulse ? 'true' : 'false'}
               style={{
                 left: `${xPct}%`,
-                top: `${yPct}%`
+                top: `${yPct}%`,
+                ...(desk.zoneColor ? { '--zone-color': desk.zoneColor } as CSSProperties : {})
               }}
               onMouseEnter={(event) => {
                 const rect = event.currentTarget.getBoundingClientRect();
@@ -241,7 +253,8 @@ const DeskOverlay = memo(function DeskOverlay({ markers, selectedDeskId, hovered
                 period: nonRoomPeriod,
                 amSide: 'left',
                 roomFreeMinutes,
-                roomCoverage
+                roomCoverage,
+                checkInState
               }) : undefined}
               aria-label={`${resourceKindLabel(desk.kind)}: ${getDeskLabel(desk)}`}
             >
@@ -324,6 +337,8 @@ const DeskOverlay = memo(function DeskOverlay({ markers, selectedDeskId, hovered
               );
             })()
           )}
+          {resolveCheckInState(normalizeBookings(tooltipDesk)) === 'pending' && <span>Check-in ausstehend</span>}
+          {resolveCheckInState(normalizeBookings(tooltipDesk)) === 'checked-in' && <span>Eingecheckt</span>}
           <span>{new Date(`${selectedDate ?? new Date().toISOString().slice(0, 10)}T00:00:00.000Z`).toLocaleDateString('de-DE')}</span>
           {debugEnabled && (() => {
             const tooltipBookings = normalizeBookings(tooltipDesk);
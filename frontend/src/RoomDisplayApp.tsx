@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ApiError, get, markBackendAvailable, post, type RequestOptions } from './api';
+import { APP_TITLE } from './config';
+import { RoomBusinessDayRing } from './components/RoomBusinessDayRing';
+import { clampInterval, intervalsToSegments, invertIntervals, mergeIntervals, type MinuteInterval, toMinutes } from './lib/bookingWindows';
+import { BUSINESS_END_MINUTES, BUSINESS_START_MINUTES } from './lib/roomBusinessDayRing';
+
+const ROOM_DISPLAY_TOKEN_STORAGE_KEY = 'rbms_room_display_token';
+const ROOM_DISPLAY_TOKEN_HEADER = 'x-room-display-token';
+const ROOM_DISPLAY_DURATIONS = [15, 30, 60];
+const REFRESH_INTERVAL_MS = 30_000;
+
+type RoomDisplayMeeting = { id: string; startTime: string; endTime: string; title: string | null; organizer: string };
+
+type RoomDisplayState = {
+  display: { id: string; name: string };
+  room: { id: string; name: string; capacity: number | null; equipment: string[]; floorplanName: string };
+  date: string;
+  now: string;
+  meetings: RoomDisplayMeeting[];
+  current: RoomDisplayMeeting | null;
+  next: RoomDisplayMeeting | null;
+  freeUntil: string | null;
+  availableDurations: number[];
+  closure: { reason: string } | null;
+};
+
+// The setup link carries the token once; afterwards it only lives in this browser, not in the address bar.
+const readRoomDisplayToken = (): string | null => {
+  const token = new URLSearchParams(window.location.search).get('token');
+  if (token) {
+    window.localStorage.setItem(ROOM_DISPLAY_TOKEN_STORAGE_KEY, token);
+    window.history.replaceState({}, '', '/room-display');
+    return token;
+  }
+  return window.localStorage.getItem(ROOM_DISPLAY_TOKEN_STORAGE_KEY);
+};
+
+const meetingLabel = (meeting: RoomDisplayMeeting) => meeting.title ?? meeting.organizer;
+
+export function RoomDisplayApp() {
+  const [token, setToken] = useState(readRoomDisplayToken);
+  const [state, setState] = useState<RoomDisplayState | null>(null);
+  const [error, setError] = useState('');
+  const [bookingDuration, setBookingDuration] = useState<number | null>(null);
+  const options = useMemo<RequestOptions>(() => (token ? { headers: { [ROOM_DISPLAY_TOKEN_HEADER]: token } } : {}), [token]);
+
+  const handleError = useCallback((err: unknown, message: string) => {
+    if (err instanceof ApiError && err.status === 401) {
+      window.localStorage.removeItem(ROOM_DISPLAY_TOKEN_STORAGE_KEY);
+      setToken(null);
+      return;
+    }
+    // A tablet has to recover from Wi-Fi drops on its own; nobody is there to reload the page.
+    if (err instanceof ApiError && err.code === 'BACKEND_UNREACHABLE') markBackendAvailable(true);
+    setError(message);
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    try {
+      setState(await get<RoomDisplayState>('/room-display', options));
+      setError('');
+    } catch (err) {
+      handleError(err, 'Verbindung unterbrochen – die Anzeige aktualisiert sich automatisch.');
+    }
+  }, [handleError, options, token]);
+
+  useEffect(() => {
+    document.title = state ? `${state.room.name} · ${APP_TITLE}` : APP_TITLE;
+  }, [state]);
+
+  useEffect(() => {
+    void load();
+    const interval = window.setInterval(() => void load(), REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [load]);
+
+  const book = async (durationMinutes: number) => {
+    setBookingDuration(durationMinutes);
+    try {
+      setState(await post<RoomDisplayState>('/room-display/bookings', { durationMinutes }, options));
+      setError('');
+    } catch (err) {
+      handleError(err, err instanceof ApiError && err.status === 409 ? 'Der Raum ist inzwischen belegt.' : 'Buchung fehlgeschlagen. Bitte erneut versuchen.');
+      void load();
+    } finally {
+      setBookingDuration(null);
+    }
+  };
+
+  const ring = useMemo(() => {
+    const busy = mergeIntervals((state?.meetings ?? [])
+      .map((meeting) => clampInterval({ startMin: toMinutes(meeting.startTime), endMin: toMinutes(meeting.endTime) }, BUSINESS_START_MINUTES, BUSINESS_END_MINUTES))
+      .filter((interval): interval is MinuteInterval => interval !== null));
+    return {
+      segments: intervalsToSegments(BUSINESS_START_MINUTES, BUSINESS_END_MINUTES, busy),
+      freeSegments: intervalsToSegments(BUSINESS_START_MINUTES, BUSINESS_END_MINUTES, invertIntervals(BUSINESS_START_MINUTES, BUSINESS_END_MINUTES, busy))
+    };
+  }, [state?.meetings]);
+
+  if (!token) {
+    return (
+      <main className="room-display room-display-setup">
+        <section className="card stack-sm down-card">
+          <h2>Raumdisplay nicht eingerichtet</h2>
+          <p className="muted">Öffne auf diesem Gerät den Einrichtungslink aus der Administration unter „Raumdisplays“.</p>
+        </section>
+      </main>
+    );
+  }
+
+  if (!state) {
+    return <main className="room-display room-display-setup"><section className="card">{error || 'Lade…'}</section></main>;
+  }
+
+  const status = state.current ? 'busy' : state.closure ? 'closed' : 'free';
+
+  return (
+    <main className="room-display" data-status={status}>
+      <header className="room-display-header">
+        <div>
+          <h1>{state.room.name}</h1>
+          <p className="muted">{state.room.floorplanName}{state.room.capacity ? ` · bis ${state.room.capacity} Personen` : ''}</p>
+        </div>
+        <span className="room-display-clock">{state.now}</span>
+      </header>
+
+      <section className="room-display-body">
+        <div className="room-display-ring">
+          <RoomBusinessDayRing segments={ring.segments} freeSegments={ring.freeSegments} strokeWidth={8} label={`Belegung von ${state.room.name} heute`} />
+        </div>
+        <div className="room-display-status stack-sm">
+          <p className="room-display-state">{status === 'busy' ? 'Belegt' : status === 'closed' ? 'Geschlossen' : 'Frei'}</p>
+          {state.current && <p className="room-display-meeting">{meetingLabel(state.current)} · bis {state.current.endTime}</p>}
+          {state.closure && <p className="room-display-meeting">{state.closure.reason}</p>}
+          {!state.current && !state.closure && state.freeUntil && <p className="room-display-meeting">{state.freeUntil === '24:00' ? 'Heute frei' : `Frei bis ${state.freeUntil}`}</p>}
+          {state.next && <p className="muted">Als Nächstes: {state.next.startTime} – {state.next.endTime} · {meetingLabel(state.next)}</p>}
+          {!state.current && !state.closure && (
+            <div className="room-display-actions">
+              {ROOM_DISPLAY_DURATIONS.map((duration) => (
+                <button
+                  key={duration}
+                  type="button"
+                  className="btn room-display-book"
+                  disabled={!state.availableDurations.includes(duration) || bookingDuration !== null}
+                  onClick={() => void book(duration)}
+                >
+                  {bookingDuration === duration ? 'Buche…' : `Jetzt ${duration} Min. buchen`}
+                </button>
+              ))}
+            </div>
+          )}
+          {error && <p className="error-banner">{error}</p>}
+        </div>
+      </section>
+
+      <section className="room-display-schedule" aria-label="Heutige Termine">
+        <h2>Heute</h2>
+        {state.meetings.length === 0 && <p className="muted">Keine Buchungen.</p>}
+        <ol>
+          {state.meetings.map((meeting) => (
+            <li key={meeting.id} className={meeting.id === state.current?.id ? 'is-current' : undefined}>
+              <span className="room-display-time">{meeting.startTime} – {meeting.endTime}</span>
+              <span>{meetingLabel(meeting)}</span>
+            </li>
+          ))}
+        </ol>
+      </section>
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
-import { FormEvent, MouseEvent as ReactMouseEvent, ReactNode, useEffect, useMemo, useRef, useState } from 'react';
+import { FormEvent, Fragment, MouseEvent as ReactMouseEvent, ReactNode, useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { ApiError, del, get, patch, post, resolveApiUrl } from '../api';
+import { ApiError, del, get, patch, post, put, resolveApiUrl } from '../api';
 import { cancelBooking } from '../api/bookings';
 import { Avatar } from '../components/Avatar';
 import { UserMenu } from '../components/UserMenu';
@@ -8,11 +8,13 @@ import { FloorplanCanvas } from '../FloorplanCanvas';
 import { useToast } from '../components/toast';
 import { Popover } from '../components/ui/Popover';
 import { APP_VERSION } from '../config';
-import { RESOURCE_KIND_OPTIONS, resourceKindLabel, type ResourceKind } from '../resourceKinds';
+import { apiTokenScopeLabel, apiTokenStatus, API_TOKEN_STATUS_LABELS, type ApiToken, type ApiTokenStatus, type CreatedApiToken } from '../apiTokens';
+import { ApiTokenForm, CreatedApiTokenNotice } from '../components/ApiTokenForm';
+import { RESOURCE_EQUIPMENT_OPTIONS, RESOURCE_KIND_OPTIONS, resourceKindLabel, type ResourceEquipment, type ResourceKind } from '../resourceKinds';
 
 type SeriesPolicy = 'DEFAULT' | 'ALLOW' | 'DISALLOW';
-type Floorplan = { id: string; name: string; imageUrl: string; isDefault?: boolean; sortOrder?: number; tenantScope?: 'ALL' | 'SELECTED'; tenantIds?: string[]; defaultResourceKind?: ResourceKind; defaultAllowSeries?: boolean; createdAt?: string; updatedAt?: string };
-type Desk = { id: string; floorplanId: string; name: string; kind?: ResourceKind; hasCharger?: boolean; allowSeriesOverride?: boolean | null; effectiveAllowSeries?: boolean; x: number | null; y: number | null; position?: { x: number; y: number } | null; tenantScope?: 'ALL' | 'SELECTED'; tenantIds?: string[]; employeeScope?: 'ALL' | 'SELECTED'; employeeIds?: string[]; createdAt?: string; updatedAt?: string };
+type Floorplan = { id: string; name: string; imageUrl: string; isDefault?: boolean; sortOrder?: number; tenantScope?: 'ALL' | 'SELECTED'; tenantIds?: string[]; defaultResourceKind?: ResourceKind; defaultAllowSeries?: boolean; deskCheckInGraceMinutes?: number | null; parkingCheckInGraceMinutes?: number | null; createdAt?: string; updatedAt?: string };
+type Desk = { id: string; floorplanId: string; name: string; kind?: ResourceKind; hasCharger?: boolean; capacity?: number | null; equipment?: ResourceEquipment[]; allowSeriesOverride?: boolean | null; effectiveAllowSeries?: boolean; x: number | null; y: number | null; position?: { x: number; y: number } | null; tenantScope?: 'ALL' | 'SELECTED'; tenantIds?: string[]; employeeScope?: 'ALL' | 'SELECTED'; employeeIds?: string[]; createdAt?: string; updatedAt?: string };
 type Employee = { id: string; email: string; displayName: string; role: 'admin' | 'user'; isActive: boolean; tenantDomainId?: string | null; phone?: string | null; photoUrl?: string | null; photoUpdatedAt?: string | null; createdAt?: string; updatedAt?: string };
 type PhoneSyncInfo = {
   graphReturnedPhone: boolean;
@@ -28,8 +30,81 @@ type PhoneSyncInfo = {
 type RefreshEmployeeProfileResponse = Employee & { phoneSyncInfo: PhoneSyncInfo };
 type ForceReauthResponse = { message: string; forceReauthAfter: string; affectedSessions: number };
 type Tenant = { id: string; domain: string; name?: string | null; entraTenantId?: string | null; employeeCount?: number; createdAt?: string; updatedAt?: string };
+type Team = { id: string; name: string; memberIds: string[]; createdAt?: string; updatedAt?: string };
+type ZoneTeamMode = 'EXCLUSIVE' | 'PREFERRED';
+type Zone = { id: string; floorplanId: string; name: string; color: string | null; teams: Array<{ teamId: string; mode: ZoneTeamMode }>; deskIds: string[]; createdAt?: string; updatedAt?: string };
+type ServiceAccount = { id: string; name: string; description: string | null; isActive: boolean; tokens: ApiToken[]; createdAt?: string; updatedAt?: string };
+type EmployeeApiToken = ApiToken & { employee: { id: string; displayName: string; email: string } | null };
+type WebhookEvent = 'booking.created' | 'booking.updated' | 'booking.cancelled' | 'recurring.created' | 'recurring.deleted';
+type WebhookSubscription = { id: string; name: string; url: string; events: WebhookEvent[]; isActive: boolean; secretHint: string; secret?: string; deliveryCounts: { pending: number; sent: number; failed: number }; createdAt?: string; updatedAt?: string };
+type WebhookDeliveryStatus = 'PENDING' | 'SENT' | 'FAILED';
+type WebhookDelivery = { id: string; subscriptionId: string; event: string; status: WebhookDeliveryStatus; attempts: number; responseStatus: number | null; lastError: string | null; nextAttemptAt: string | null; deliveredAt: string | null; replayOfId: string | null; createdAt: string; payload: unknown };
+type VisitorStatus = 'EXPECTED' | 'ARRIVED' | 'DEPARTED';
+type ReceptionVisitor = {
+  id: string;
+  name: string;
+  email: string | null;
+  company: string | null;
+  expectedArrivalTime: string | null;
+  code: string;
+  status: VisitorStatus;
+  arrivedAt: string | null;
+  departedAt: string | null;
+  host: { id: string; displayName: string; email: string };
+  booking: { id: string; date: string; deskName: string; resourceKind: ResourceKind; floorplanName: string; daySlot: 'AM' | 'PM' | 'FULL' | null; startTime: string | null; endTime: string | null };
+};
+type RoomDisplay = { id: string; name: string; tokenPrefix: string; allowShortBookings: boolean; lastSeenAt: string | null; createdAt: string; room: { id: string; name: string; floorplanName: string }; createdBy: { id: string; displayName: string } };
+type CreatedRoomDisplay = RoomDisplay & { token: string };
+type ClosurePeriod = { id: string; floorplanId: string; deskId: string | null; startDate: string; endDate: string; startTime: string | null; endTime: string | null; reason: string };
+type ClosureCollision = Booking & { deskName: string; employeeName: string | null };
+type BookingPolicy = {
+  id: string;
+  name: string;
+  floorplanId: string | null;
+  resourceKind: ResourceKind | null;
+  tenantId: string | null;
+  minLeadDays: number | null;
+  maxAdvanceDays: number | null;
+  maxBookingsPerWeek: number | null;
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+  blockedWeekdays: number[];
+  isActive: boolean;
+};
 type EntraConfig = { clientId: string | null; redirectUri: string | null };
 type Booking = { id: string; deskId: string; userEmail: string; userDisplayName?: string; employeeId?: string; date: string; slot?: 'FULL_DAY' | 'MORNING' | 'AFTERNOON' | 'CUSTOM'; startTime?: string; endTime?: string; createdAt?: string; updatedAt?: string; bookedFor?: 'SELF' | 'GUEST'; guestName?: string | null; createdByUserId?: string; createdBy?: { id: string; displayName?: string | null; email: string }; user?: { id: string; displayName?: string | null; email: string } | null };
+type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+type ImportPreview = {
+  dryRun: boolean;
+  applied: boolean;
+  summary: Record<ImportAction, number>;
+  ignoredColumns: string[];
+  rows: Array<{ row: number; key: string; action: ImportAction; changes: string[]; errors: string[]; targetId: string | null }>;
+};
+type FloorplanBundlePreview = {
+  dryRun: boolean;
+  applied: boolean;
+  floorplanId: string | null;
+  floorplan: { name: string; tenantScope: 'ALL' | 'SELECTED'; tenantCount: number; imageEmbedded: boolean };
+  deskCount: number;
+  unmapped: Array<{ target: string; type: 'tenant' | 'employee'; value: string; reason: string }>;
+  errors: string[];
+};
+type UtilizationDimension = 'floorplan' | 'desk' | 'kind' | 'tenant' | 'weekday' | 'day';
+type UtilizationRow = { key: string | null; label: string | null; bookedMinutes: number; availableMinutes: number | null; utilization: number | null; bookings: number; guestBookings: number; guestShare: number | null };
+type DeskUtilizationRow = UtilizationRow & { floorplanId: string | null; kind: ResourceKind | null };
+type UtilizationReport = {
+  businessHours: { start: string; end: string };
+  totals: UtilizationRow;
+  byFloorplan: UtilizationRow[];
+  byDesk: DeskUtilizationRow[];
+  byKind: UtilizationRow[];
+  byTenant: UtilizationRow[];
+  byWeekday: UtilizationRow[];
+  byDay: UtilizationRow[];
+  peakDays: UtilizationRow[];
+  unbookedDesks: DeskUtilizationRow[];
+};
 type FeedbackReportType = 'BUG' | 'FEATURE_REQUEST';
 type FeedbackReportStatus = 'IN_ARBEIT' | 'ABGELEHNT' | 'ERLEDIGT';
 type FeedbackReport = { id: string; type: FeedbackReportType; status: FeedbackReportStatus; message: string; reporterDisplayName: string; reporterEmail: string; hasScreenshot?: boolean; createdAt: string; updatedAt?: string };
@@ -56,11 +131,27 @@ type AdminLogEntry = {
   context?: string;
 };
 
+type AuditEventEntry = {
+  id: string;
+  actorEmployeeId: string | null;
+  actorEmail: string | null;
+  actorDisplayName: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  requestId: string | null;
+  createdAt: string;
+};
+
 type DeskFormState = {
   floorplanId: string;
   name: string;
   kind: ResourceKind;
   hasCharger: boolean;
+  capacity: string;
+  equipment: ResourceEquipment[];
   seriesPolicy: SeriesPolicy;
   x: number | null;
   y: number | null;
@@ -77,17 +168,27 @@ const navItems = [
   { to: '/admin/floorplans', label: 'Floorpläne' },
   { to: '/admin/desks', label: 'Ressourcen' },
   { to: '/admin/bookings', label: 'Buchungen' },
+  { to: '/admin/reports', label: 'Auslastung' },
   { to: '/admin/employees', label: 'Mitarbeiter' },
   { to: '/admin/tenants', label: 'Mandanten' },
+  { to: '/admin/teams', label: 'Teams' },
+  { to: '/admin/booking-policies', label: 'Buchungsregeln' },
+  { to: '/admin/closures', label: 'Schließtage' },
+  { to: '/admin/visitors', label: 'Empfang' },
+  { to: '/admin/room-displays', label: 'Raumdisplays' },
+  { to: '/admin/webhooks', label: 'Webhooks' },
+  { to: '/admin/api-access', label: 'API-Zugriff' },
   { to: '/admin/feedback-reports', label: 'Feature Requests/Bug Reports' },
   { to: '/admin/release-notes', label: 'Release Notes' },
   { to: '/admin/logs', label: 'Logs' },
+  { to: '/admin/audit', label: 'Audit-Log' },
   { to: '/admin/db-admin', label: 'DB Admin' }
 ];
 
 const today = new Date().toISOString().slice(0, 10);
 const in14Days = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
 const in7Days = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+const last30DaysStart = new Date(Date.now() - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
 
 const formatDate = (value?: string) => (value ? new Date(value).toLocaleString('de-DE') : '—');
 const formatDateOnly = (value?: string) => (value ? new Date(value).toLocaleDateString('de-DE') : '—');
@@ -413,6 +514,7 @@ function DashboardPage({ path, navigate, onLogout, currentUser }: RouteProps) {
               <button className="btn btn-outline quick-action-btn" onClick={() => navigate('/admin/desks?create=1')}><span aria-hidden>🖥️</span>Ressource anlegen</button>
               <button className="btn btn-outline quick-action-btn" onClick={() => navigate('/admin/employees?create=1')}><span aria-hidden>👤</span>Mitarbeiter anlegen</button>
               <button className="btn btn-outline quick-action-btn" onClick={() => navigate('/admin/floorplans?create=1')}><span aria-hidden>🗺️</span>Floorplan anlegen</button>
+              <button className="btn btn-outline quick-action-btn" onClick={() => navigate('/admin/reports')}><span aria-hidden>📊</span>Auslastung auswerten</button>
             </div>
           )}
         </article>
@@ -421,6 +523,152 @@ function DashboardPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   );
 }
 
+const REPORT_WEEKDAYS = [{ value: 1, label: 'Mo' }, { value: 2, label: 'Di' }, { value: 3, label: 'Mi' }, { value: 4, label: 'Do' }, { value: 5, label: 'Fr' }, { value: 6, label: 'Sa' }, { value: 7, label: 'So' }];
+const REPORT_WEEKDAY_NAMES: Record<string, string> = { 1: 'Montag', 2: 'Dienstag', 3: 'Mittwoch', 4: 'Donnerstag', 5: 'Freitag', 6: 'Samstag', 7: 'Sonntag' };
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 1000) / 10} %`);
+const formatHours = (minutes: number | null) => (minutes === null ? '—' : `${(minutes / 60).toLocaleString('de-DE', { maximumFractionDigits: 1 })} h`);
+
+function UtilizationBar({ value }: { value: number | null }) {
+  return <div className="utilization-bar" aria-hidden><span style={{ width: `${Math.min(100, Math.round((value ?? 0) * 100))}%` }} /></div>;
+}
+
+function UtilizationTable({ rows, label, emptyText }: { rows: UtilizationRow[]; label: (row: UtilizationRow) => ReactNode; emptyText: string }) {
+  if (rows.length === 0) return <p className="muted">{emptyText}</p>;
+  return (
+    <div className="table-wrap"><table className="admin-table"><thead><tr><th>Name</th><th>Auslastung</th><th className="align-right">Gebucht</th><th className="align-right">Verfügbar</th><th className="align-right">Buchungen</th><th className="align-right">Gäste</th></tr></thead><tbody>
+      {rows.map((row) => <tr key={row.key ?? 'none'}><td>{label(row)}</td><td><div className="utilization-cell"><UtilizationBar value={row.utilization} /><span>{formatPercent(row.utilization)}</span></div></td><td className="align-right">{formatHours(row.bookedMinutes)}</td><td className="align-right">{formatHours(row.availableMinutes)}</td><td className="align-right">{row.bookings}</td><td className="align-right">{formatPercent(row.guestShare)}</td></tr>)}
+    </tbody></table></div>
+  );
+}
+
+function ReportsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [floorplans, setFloorplans] = useState<Floorplan[]>([]);
+  const [report, setReport] = useState<UtilizationReport | null>(null);
+  const [from, setFrom] = useState(last30DaysStart);
+  const [to, setTo] = useState(today);
+  const [floorplanId, setFloorplanId] = useState('');
+  const [kind, setKind] = useState<ResourceKind | ''>('');
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [showAllDesks, setShowAllDesks] = useState(false);
+
+  const query = useMemo(() => new URLSearchParams({ from, to, weekdays: weekdays.join(','), ...(floorplanId ? { floorplanId } : {}), ...(kind ? { kind } : {}) }).toString(), [from, to, weekdays, floorplanId, kind]);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      const [reportData, floorplanRows] = await Promise.all([get<UtilizationReport>(`/admin/reports/utilization?${query}`), floorplans.length > 0 ? Promise.resolve(floorplans) : get<Floorplan[]>('/floorplans')]);
+      setReport(reportData);
+      setFloorplans(floorplanRows);
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { if (weekdays.length > 0 && from <= to) void load(); }, [query]);
+
+  const downloadCsv = async (dimension: UtilizationDimension) => {
+    try {
+      const csv = await get<string>(`/admin/reports/utilization.csv?${query}&dimension=${dimension}`);
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `auslastung-${dimension}-${from}-${to}.csv`;
+      document.body.appendChild(anchor);
+      anchor.click();
+      anchor.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'CSV-Export fehlgeschlagen');
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => setWeekdays((current) => (current.includes(weekday) ? current.filter((value) => value !== weekday) : [...current, weekday].sort((left, right) => left - right)));
+  const floorplanName = (id: string | null) => floorplans.find((floorplan) => floorplan.id === id)?.name ?? '—';
+  const csvButton = (dimension: UtilizationDimension) => <button className="btn btn-outline" disabled={!report} onClick={() => void downloadCsv(dimension)}>CSV</button>;
+  const maxDayUtilization = Math.max(0.01, ...(report?.byDay.map((row) => row.utilization ?? 0) ?? []));
+  const deskRows = report ? (showAllDesks ? report.byDesk : report.byDesk.slice(0, 15)) : [];
+  const kpis = report ? [
+    { label: 'Auslastung', value: formatPercent(report.totals.utilization), icon: '📊' },
+    { label: `Gebucht (${report.businessHours.start}–${report.businessHours.end})`, value: formatHours(report.totals.bookedMinutes), icon: '⏱️' },
+    { label: 'Buchungen', value: String(report.totals.bookings), icon: '📅' },
+    { label: 'Gastbuchungen', value: formatPercent(report.totals.guestShare), icon: '🧳' }
+  ] : [];
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Auslastung" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Zeitraum & Filter"
+          filters={(
+            <>
+              <label className="field"><span>Von</span><input type="date" value={from} max={to} onChange={(event) => setFrom(event.target.value)} /></label>
+              <label className="field"><span>Bis</span><input type="date" value={to} min={from} onChange={(event) => setTo(event.target.value)} /></label>
+              <label className="field"><span>Floorplan</span><select value={floorplanId} onChange={(event) => setFloorplanId(event.target.value)}><option value="">Alle</option>{floorplans.map((floorplan) => <option key={floorplan.id} value={floorplan.id}>{floorplan.name}</option>)}</select></label>
+              <label className="field"><span>Art</span><select value={kind} onChange={(event) => setKind(event.target.value as ResourceKind | '')}><option value="">Alle</option>{RESOURCE_KIND_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}</select></label>
+            </>
+          )}
+        />
+        <div className="report-weekdays" role="group" aria-label="Wochentage">{REPORT_WEEKDAYS.map((weekday) => <label key={weekday.value}><input type="checkbox" checked={weekdays.includes(weekday.value)} onChange={() => toggleWeekday(weekday.value)} />{weekday.label}</label>)}</div>
+        <p className="muted">Verfügbar ist jede Ressource an jedem gewählten Tag von {report?.businessHours.start ?? '06:00'} bis {report?.businessHours.end ?? '18:00'} Uhr. Halbtagsbuchungen zählen als halber Tag, Zeitbuchungen mit ihrem Anteil in diesem Fenster.</p>
+        {weekdays.length === 0 && <p className="muted">Bitte mindestens einen Wochentag wählen.</p>}
+      </section>
+      {state.error && <ErrorState text={state.error} onRetry={load} />}
+      <section className="dashboard-grid">
+        {!report || state.loading
+          ? Array.from({ length: 4 }).map((_, index) => <div key={index} className="card dashboard-kpi-skeleton"><div className="skeleton" /><div className="skeleton" /><div className="skeleton" /></div>)
+          : kpis.map((card) => (
+            <div className="card dashboard-kpi" key={card.label}>
+              <span className="dashboard-kpi-icon" aria-hidden>{card.icon}</span>
+              <div className="stack-xs"><strong>{card.value}</strong><p>{card.label}</p></div>
+            </div>
+          ))}
+      </section>
+      {report && (
+        <>
+          <section className="report-panels">
+            <article className="card stack-sm">
+              <div className="inline-between"><h3>Nach Wochentag</h3>{csvButton('weekday')}</div>
+              <div className="report-weekday-chart">{report.byWeekday.map((row) => <div key={row.key} className="report-weekday-bar" title={`${REPORT_WEEKDAY_NAMES[row.key ?? ''] ?? row.key}: ${formatPercent(row.utilization)}`}><span className="report-weekday-value">{formatPercent(row.utilization)}</span><div className="report-weekday-track"><span style={{ height: `${Math.min(100, Math.round((row.utilization ?? 0) * 100))}%` }} /></div><span className="muted">{REPORT_WEEKDAY_NAMES[row.key ?? '']?.slice(0, 2) ?? row.key}</span></div>)}</div>
+            </article>
+            <article className="card stack-sm">
+              <div className="inline-between"><h3>Verlauf</h3>{csvButton('day')}</div>
+              {report.byDay.length === 0 ? <p className="muted">Keine Tage im Zeitraum.</p> : <div className="report-day-chart">{report.byDay.map((row) => <span key={row.key} title={`${formatDateOnly(row.key ?? undefined)}: ${formatPercent(row.utilization)} · ${row.bookings} Buchung(en)`} style={{ height: `${Math.max(2, Math.round(((row.utilization ?? 0) / maxDayUtilization) * 100))}%` }} />)}</div>}
+              <h4>Spitzentage</h4>
+              {report.peakDays.length === 0 ? <p className="muted">Keine Buchungen im Zeitraum.</p> : <ol className="report-peak-days">{report.peakDays.map((row) => <li key={row.key}><span>{formatDateOnly(row.key ?? undefined)}</span><span>{formatPercent(row.utilization)} · {row.bookings} Buchung(en)</span></li>)}</ol>}
+            </article>
+          </section>
+          <section className="card stack-sm">
+            <div className="inline-between"><h3>Nach Floorplan</h3>{csvButton('floorplan')}</div>
+            <UtilizationTable rows={report.byFloorplan} label={(row) => row.label ?? floorplanName(row.key)} emptyText="Keine Floorpläne im Filter." />
+          </section>
+          <section className="report-panels">
+            <article className="card stack-sm">
+              <div className="inline-between"><h3>Nach Ressourcenart</h3>{csvButton('kind')}</div>
+              <UtilizationTable rows={report.byKind} label={(row) => resourceKindLabel((row.key ?? undefined) as ResourceKind | undefined)} emptyText="Keine Ressourcen im Filter." />
+            </article>
+            <article className="card stack-sm">
+              <div className="inline-between"><h3>Nach Mandant</h3>{csvButton('tenant')}</div>
+              <p className="muted">Ressourcen werden geteilt, daher gibt es pro Mandant nur gebuchte Stunden und keinen Auslastungsgrad.</p>
+              {report.byTenant.length === 0 ? <p className="muted">Keine Buchungen im Zeitraum.</p> : <div className="table-wrap"><table className="admin-table"><thead><tr><th>Mandant</th><th className="align-right">Gebucht</th><th className="align-right">Anteil</th><th className="align-right">Buchungen</th><th className="align-right">Gäste</th></tr></thead><tbody>{report.byTenant.map((row) => <tr key={row.key ?? 'none'}><td>{row.label ?? (row.key ? row.key : 'Ohne Mandant')}</td><td className="align-right">{formatHours(row.bookedMinutes)}</td><td className="align-right">{formatPercent(report.totals.bookedMinutes ? row.bookedMinutes / report.totals.bookedMinutes : null)}</td><td className="align-right">{row.bookings}</td><td className="align-right">{formatPercent(row.guestShare)}</td></tr>)}</tbody></table></div>}
+            </article>
+          </section>
+          <section className="card stack-sm">
+            <div className="inline-between"><h3>Nach Ressource</h3><div className="inline-end">{report.byDesk.length > 15 && <button className="btn btn-ghost" onClick={() => setShowAllDesks((current) => !current)}>{showAllDesks ? 'Nur Top 15' : `Alle ${report.byDesk.length} anzeigen`}</button>}{csvButton('desk')}</div></div>
+            <UtilizationTable rows={deskRows} label={(row) => <span>{row.label ?? row.key}<span className="muted"> · {floorplanName((row as DeskUtilizationRow).floorplanId)} · {resourceKindLabel((row as DeskUtilizationRow).kind ?? undefined)}</span></span>} emptyText="Keine Ressourcen im Filter." />
+          </section>
+          <section className="card stack-sm">
+            <ListToolbar title="Ohne Buchung im Zeitraum" count={report.unbookedDesks.length} />
+            {report.unbookedDesks.length === 0 ? <p className="muted">Jede Ressource wurde mindestens einmal gebucht.</p> : <div className="table-wrap"><table className="admin-table"><thead><tr><th>Ressource</th><th>Floorplan</th><th>Art</th></tr></thead><tbody>{report.unbookedDesks.map((row) => <tr key={row.key}><td>{row.label ?? row.key}</td><td>{floorplanName(row.floorplanId)}</td><td>{resourceKindLabel(row.kind ?? undefined)}</td></tr>)}</tbody></table></div>}
+          </section>
+        </>
+      )}
+    </AdminLayout>
+  );
+}
+
 function FloorplansPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   const toasts = useToast();
   const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
@@ -430,6 +678,7 @@ function FloorplansPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   const [editing, setEditing] = useState<Floorplan | null>(null);
   const [showCreate, setShowCreate] = useState(hasCreateFlag(path));
   const [pendingDelete, setPendingDelete] = useState<Floorplan | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
 
   const load = async () => {
     setState((current) => ({ ...current, loading: true, error: '' }));
@@ -448,6 +697,16 @@ function FloorplansPage({ path, navigate, onLogout, currentUser }: RouteProps) {
 
   const filtered = useMemo(() => floorplans.filter((plan) => plan.name.toLowerCase().includes(query.toLowerCase())), [floorplans, query]);
 
+  // A plain link keeps the ZIP binary intact; the session cookie authenticates the download.
+  const exportBundle = (floorplan: Floorplan, format: 'zip' | 'json') => {
+    const anchor = document.createElement('a');
+    anchor.href = resolveApiUrl(`/admin/floorplans/${floorplan.id}/export?format=${format}`) ?? '';
+    anchor.download = '';
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+  };
+
   return (
     <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Floorpläne" currentUser={currentUser ?? null}>
       <section className="card stack-sm">
@@ -455,18 +714,109 @@ function FloorplansPage({ path, navigate, onLogout, currentUser }: RouteProps) {
           title="Floorpläne"
           count={filtered.length}
           filters={<div className="admin-search">🔎<input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Floorplan suchen" /></div>}
-          actions={<button className="btn" onClick={() => setShowCreate(true)}>Neu</button>}
+          actions={<div style={{ display: 'inline-flex', gap: 8 }}><button className="btn btn-outline" onClick={() => setImportOpen(true)}>Importieren</button><button className="btn" onClick={() => setShowCreate(true)}>Neu</button></div>}
         />
         {state.error && <ErrorState text={state.error} onRetry={load} />}
-        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Vorschau</th><th>Name</th><th>Reihenfolge</th><th>Sichtbarkeit</th><th>Bild URL</th><th>Erstellt</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={7} /> : <tbody>{filtered.map((floorplan) => <tr key={floorplan.id}><td><button className="floor-thumb-btn" onClick={() => setEditing(floorplan)} aria-label={`Floorplan ${floorplan.name} öffnen`}><img className="floor-thumb" src={resolveApiUrl(floorplan.imageUrl)} alt={floorplan.name} loading="lazy" /></button></td><td><div className="stack-xs"><button className="btn btn-ghost" onClick={() => setEditing(floorplan)}>{floorplan.name}</button>{floorplan.isDefault && <Badge tone="ok">Standard</Badge>}</div></td><td>{floorplan.sortOrder ?? 0}</td><td>{floorplan.tenantScope === 'SELECTED' ? <Badge tone="warn">{(floorplan.tenantIds?.length ?? 0)} Mandant(en)</Badge> : <Badge>Alle Mandanten</Badge>}</td><td className="truncate-cell" title={floorplan.imageUrl}>{floorplan.imageUrl}</td><td>{formatDate(floorplan.createdAt)}</td><td className="align-right"><RowMenu items={[{ label: 'Bearbeiten', onSelect: () => setEditing(floorplan) }, { label: 'Löschen', onSelect: () => setPendingDelete(floorplan), danger: true }]} /></td></tr>)}</tbody>}</table></div>
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Vorschau</th><th>Name</th><th>Reihenfolge</th><th>Sichtbarkeit</th><th>Bild URL</th><th>Erstellt</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={7} /> : <tbody>{filtered.map((floorplan) => <tr key={floorplan.id}><td><button className="floor-thumb-btn" onClick={() => setEditing(floorplan)} aria-label={`Floorplan ${floorplan.name} öffnen`}><img className="floor-thumb" src={resolveApiUrl(floorplan.imageUrl)} alt={floorplan.name} loading="lazy" /></button></td><td><div className="stack-xs"><button className="btn btn-ghost" onClick={() => setEditing(floorplan)}>{floorplan.name}</button>{floorplan.isDefault && <Badge tone="ok">Standard</Badge>}</div></td><td>{floorplan.sortOrder ?? 0}</td><td>{floorplan.tenantScope === 'SELECTED' ? <Badge tone="warn">{(floorplan.tenantIds?.length ?? 0)} Mandant(en)</Badge> : <Badge>Alle Mandanten</Badge>}</td><td className="truncate-cell" title={floorplan.imageUrl}>{floorplan.imageUrl}</td><td>{formatDate(floorplan.createdAt)}</td><td className="align-right"><RowMenu items={[{ label: 'Bearbeiten', onSelect: () => setEditing(floorplan) }, { label: 'Exportieren (ZIP)', onSelect: () => exportBundle(floorplan, 'zip') }, { label: 'Exportieren (JSON)', onSelect: () => exportBundle(floorplan, 'json') }, { label: 'Löschen', onSelect: () => setPendingDelete(floorplan), danger: true }]} /></td></tr>)}</tbody>}</table></div>
         {!state.loading && filtered.length === 0 && <EmptyState text="Keine Floorpläne vorhanden." action={<button className="btn" onClick={() => setShowCreate(true)}>Neu anlegen</button>} />}
       </section>
+      {importOpen && <FloorplanBundleImportDialog onClose={() => setImportOpen(false)} onImported={async (result) => { setImportOpen(false); toasts.success(`Floorplan „${result.floorplan.name}“ mit ${result.deskCount} Ressourcen angelegt`); await load(); }} />}
       {(showCreate || editing) && <FloorplanEditor floorplan={editing} tenants={tenants} onClose={() => { setShowCreate(false); setEditing(null); navigate('/admin/floorplans'); }} onSaved={async () => { setShowCreate(false); setEditing(null); toasts.success('Floorplan gespeichert'); await load(); }} onError={toasts.error} />}
       {pendingDelete && <ConfirmDialog title="Floorplan löschen?" description={`"${pendingDelete.name}" wird dauerhaft entfernt.`} onCancel={() => setPendingDelete(null)} onConfirm={async (event) => { const anchorRect = event.currentTarget.getBoundingClientRect(); await del(`/admin/floorplans/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Floorplan gelöscht', { anchorRect }); await load(); }} />}
     </AdminLayout>
   );
 }
 
+const UNMAPPED_TYPE_LABELS: Record<FloorplanBundlePreview['unmapped'][number]['type'], string> = { tenant: 'Mandant', employee: 'Mitarbeiter' };
+
+function FloorplanBundleImportDialog({ onClose, onImported }: { onClose: () => void; onImported: (result: FloorplanBundlePreview) => Promise<void> }) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [name, setName] = useState('');
+  const [preview, setPreview] = useState<FloorplanBundlePreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (selected: { name: string; content: string }, dryRun: boolean) => {
+    setBusy(true);
+    setError('');
+    try {
+      const result = await post<FloorplanBundlePreview>('/admin/floorplans/import', { fileName: selected.name, content: selected.content, name: name.trim() || undefined, dryRun });
+      if (dryRun) {
+        setPreview(result);
+        setName((current) => current || result.floorplan.name);
+      } else await onImported(result);
+    } catch (err) {
+      if (err instanceof ApiError && err.backendCode === 'IMPORT_HAS_ERRORS' && err.details && typeof err.details === 'object' && 'preview' in err.details) {
+        setPreview((err.details as { preview: FloorplanBundlePreview }).preview);
+      }
+      setError(err instanceof Error ? err.message : 'Import fehlgeschlagen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectFile = async (selectedFile: File | undefined) => {
+    setPreview(null);
+    setFile(null);
+    setName('');
+    setError('');
+    if (!selectedFile) return;
+    if (selectedFile.size > IMPORT_MAX_FILE_BYTES) {
+      setError('Die Datei darf maximal 4 MB groß sein.');
+      return;
+    }
+
+    try {
+      const selected = { name: selectedFile.name, content: await readFileAsDataUrl(selectedFile) };
+      setFile(selected);
+      await submit(selected, true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Datei konnte nicht gelesen werden');
+    }
+  };
+
+  const canApply = Boolean(file && preview && preview.errors.length === 0 && name.trim() && !busy);
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm import-dialog">
+        <h3>Floorplan importieren</h3>
+        <p className="muted">Bundle (.zip oder .json) aus „Exportieren“ einer anderen Installation. Mandanten werden über die Domain, Mitarbeitende über die E-Mail zugeordnet. Der Import legt immer einen neuen Floorplan an.</p>
+        <input type="file" accept=".zip,.json,application/zip,application/json" disabled={busy} onChange={(event) => { void selectFile(event.target.files?.[0]); }} />
+        {error && <p className="error-banner">{error}</p>}
+        {busy && !preview && <p className="muted">Bundle wird geprüft…</p>}
+        {preview && (
+          <>
+            <label className="field"><span>Name</span><input value={name} onChange={(event) => setName(event.target.value)} /></label>
+            <div className="inline-start">
+              <Badge>{preview.deskCount} Ressourcen</Badge>
+              <Badge>{preview.floorplan.tenantScope === 'SELECTED' ? `${preview.floorplan.tenantCount} Mandant(en)` : 'Alle Mandanten'}</Badge>
+              <Badge tone={preview.floorplan.imageEmbedded ? 'ok' : 'default'}>{preview.floorplan.imageEmbedded ? 'Bild enthalten' : 'Bild per URL'}</Badge>
+              {preview.unmapped.length > 0 && <Badge tone="warn">{preview.unmapped.length} nicht zugeordnet</Badge>}
+            </div>
+            {preview.errors.length > 0 && <ul className="import-errors">{preview.errors.map((message) => <li key={message}>{message}</li>)}</ul>}
+            {preview.unmapped.length > 0 && (
+              <>
+                <p className="muted">Diese Verweise gibt es hier nicht; sie werden beim Import weggelassen.</p>
+                <div className="table-wrap import-preview">
+                  <table className="admin-table">
+                    <thead><tr><th>Floorplan / Ressource</th><th>Art</th><th>Wert</th><th>Grund</th></tr></thead>
+                    <tbody>{preview.unmapped.map((entry) => <tr key={`${entry.target}-${entry.type}-${entry.value}`}><td>{entry.target}</td><td>{UNMAPPED_TYPE_LABELS[entry.type]}</td><td className="truncate-cell" title={entry.value}>{entry.value}</td><td>{entry.reason}</td></tr>)}</tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </>
+        )}
+        <div className="inline-end">
+          <button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button>
+          <button type="button" className="btn" disabled={!canApply} onClick={() => { if (file) void submit(file, false); }}>{busy && preview ? 'Importiere…' : 'Floorplan anlegen'}</button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
 function FloorplanEditor({ floorplan, tenants, onClose, onSaved, onError }: { floorplan: Floorplan | null; tenants: Tenant[]; onClose: () => void; onSaved: () => Promise<void>; onError: (message: string) => void }) {
   const [name, setName] = useState(floorplan?.name ?? '');
   const [imageUrl, setImageUrl] = useState(floorplan?.imageUrl ?? '');
@@ -476,8 +826,11 @@ function FloorplanEditor({ floorplan, tenants, onClose, onSaved, onError }: { fl
   const [defaultResourceKind, setDefaultResourceKind] = useState<ResourceKind>(floorplan?.defaultResourceKind ?? 'TISCH');
   const [defaultAllowSeries, setDefaultAllowSeries] = useState<boolean>(floorplan?.defaultAllowSeries ?? true);
   const [isDefault, setIsDefault] = useState<boolean>(floorplan?.isDefault ?? false);
+  const [deskCheckInGraceMinutes, setDeskCheckInGraceMinutes] = useState<string>(floorplan?.deskCheckInGraceMinutes ? String(floorplan.deskCheckInGraceMinutes) : '');
+  const [parkingCheckInGraceMinutes, setParkingCheckInGraceMinutes] = useState<string>(floorplan?.parkingCheckInGraceMinutes ? String(floorplan.parkingCheckInGraceMinutes) : '');
 
   const canSave = tenantScope === 'ALL' || tenantIds.length > 0;
+  const toGraceMinutes = (value: string): number | null => (value.trim() ? Math.max(1, Math.round(Number(value))) : null);
 
   const submit = async (event: FormEvent) => {
     event.preventDefault();
@@ -486,7 +839,7 @@ function FloorplanEditor({ floorplan, tenants, onClose, onSaved, onError }: { fl
       return;
     }
     try {
-      const payload = { name, imageUrl, sortOrder, tenantScope, tenantIds: tenantScope === 'SELECTED' ? tenantIds : [], defaultResourceKind, defaultAllowSeries, isDefault };
+      const payload = { name, imageUrl, sortOrder, tenantScope, tenantIds: tenantScope === 'SELECTED' ? tenantIds : [], defaultResourceKind, defaultAllowSeries, isDefault, deskCheckInGraceMinutes: toGraceMinutes(deskCheckInGraceMinutes), parkingCheckInGraceMinutes: toGraceMinutes(parkingCheckInGraceMinutes) };
       if (floorplan) await patch(`/admin/floorplans/${floorplan.id}`, payload);
       else await post('/admin/floorplans', payload);
       await onSaved();
@@ -494,7 +847,7 @@ function FloorplanEditor({ floorplan, tenants, onClose, onSaved, onError }: { fl
       onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
     }
   };
-  return <div className="overlay"><section className="card dialog stack-sm"><h3>{floorplan ? 'Floorplan bearbeiten' : 'Floorplan anlegen'}</h3><form className="stack-sm" onSubmit={submit}><input required placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} /><input required placeholder="Asset URL" value={imageUrl} onChange={(e) => setImageUrl(e.target.value)} /><label className="field"><span>Reihenfolge im Dropdown (kleiner zuerst)</span><input type="number" min={0} step={1} value={sortOrder} onChange={(event) => setSortOrder(Math.max(0, Number(event.target.value) || 0))} /></label><div className="field"><span>Sichtbarkeit</span><div className="stack-xs"><label className="inline"><input type="radio" checked={tenantScope === 'ALL'} onChange={() => { setTenantScope('ALL'); setTenantIds([]); }} />Alle Mandanten</label><label className="inline"><input type="radio" checked={tenantScope === 'SELECTED'} onChange={() => setTenantScope('SELECTED')} />Bestimmte Mandanten</label>{tenantScope === 'SELECTED' && <div className="stack-xs">{tenants.map((tenant) => <label key={tenant.id} className="inline"><input type="checkbox" checked={tenantIds.includes(tenant.id)} onChange={(event) => setTenantIds((current) => event.target.checked ? Array.from(new Set([...current, tenant.id])) : current.filter((id) => id !== tenant.id))} />{tenant.name ? `${tenant.name} (${tenant.domain})` : tenant.domain}</label>)}{tenants.length === 0 && <p className="muted">Keine Mandanten vorhanden.</p>}</div>}</div></div><div className="stack-xs"><strong>Defaults</strong><label className="field"><span>Standard-Ressourcenart</span><select value={defaultResourceKind} onChange={(event) => setDefaultResourceKind(event.target.value as ResourceKind)}>{RESOURCE_KIND_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}</select></label><label className="field"><span>Serientermine standardmäßig erlauben</span><input type="checkbox" checked={defaultAllowSeries} onChange={(event) => setDefaultAllowSeries(event.target.checked)} /></label><label className="field"><span>Beim Login als Standard-Floorplan nutzen</span><input type="checkbox" checked={isDefault} onChange={(event) => setIsDefault(event.target.checked)} /></label></div><div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={!canSave}>Speichern</button></div></form></section></div>;
+  return <div className="overlay"><section className="card dialog stack-sm"><h3>{floorplan ? 'Floorplan bearbeiten' : 'Floorplan anlegen'}</h3><form className="stack-sm" onSubmit={submit}><input required placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} /><input required placeholder="Asset URL" value={imageUrl} onChange={(e) => setImageUrl(e.target.value)} /><label className="field"><span>Reihenfolge im Dropdown (kleiner zuerst)</span><input type="number" min={0} step={1} value={sortOrder} onChange={(event) => setSortOrder(Math.max(0, Number(event.target.value) || 0))} /></label><div className="field"><span>Sichtbarkeit</span><div className="stack-xs"><label className="inline"><input type="radio" checked={tenantScope === 'ALL'} onChange={() => { setTenantScope('ALL'); setTenantIds([]); }} />Alle Mandanten</label><label className="inline"><input type="radio" checked={tenantScope === 'SELECTED'} onChange={() => setTenantScope('SELECTED')} />Bestimmte Mandanten</label>{tenantScope === 'SELECTED' && <div className="stack-xs">{tenants.map((tenant) => <label key={tenant.id} className="inline"><input type="checkbox" checked={tenantIds.includes(tenant.id)} onChange={(event) => setTenantIds((current) => event.target.checked ? Array.from(new Set([...current, tenant.id])) : current.filter((id) => id !== tenant.id))} />{tenant.name ? `${tenant.name} (${tenant.domain})` : tenant.domain}</label>)}{tenants.length === 0 && <p className="muted">Keine Mandanten vorhanden.</p>}</div>}</div></div><div className="stack-xs"><strong>Defaults</strong><label className="field"><span>Standard-Ressourcenart</span><select value={defaultResourceKind} onChange={(event) => setDefaultResourceKind(event.target.value as ResourceKind)}>{RESOURCE_KIND_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}</select></label><label className="field"><span>Serientermine standardmäßig erlauben</span><input type="checkbox" checked={defaultAllowSeries} onChange={(event) => setDefaultAllowSeries(event.target.checked)} /></label><label className="field"><span>Beim Login als Standard-Floorplan nutzen</span><input type="checkbox" checked={isDefault} onChange={(event) => setIsDefault(event.target.checked)} /></label></div><div className="stack-xs"><strong>Check-in</strong><p className="muted">Buchungen ohne Check-in werden nach Ablauf der Karenzzeit automatisch freigegeben. Leer lassen, um keinen Check-in zu verlangen.</p><label className="field"><span>Karenzzeit Tische (Minuten)</span><input type="number" min={1} max={720} step={1} value={deskCheckInGraceMinutes} onChange={(event) => setDeskCheckInGraceMinutes(event.target.value)} /></label><label className="field"><span>Karenzzeit Parkplätze (Minuten)</span><input type="number" min={1} max={720} step={1} value={parkingCheckInGraceMinutes} onChange={(event) => setParkingCheckInGraceMinutes(event.target.value)} /></label></div><div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={!canSave}>Speichern</button></div></form></section></div>;
 }
 
 function PositionPickerDialog({ floorplan, x, y, onClose, onPick }: { floorplan: Floorplan | null; x: number | null; y: number | null; onClose: () => void; onPick: (x: number, y: number) => void }) {
@@ -603,6 +956,8 @@ function DeskEditor({ desk, floorplans, tenants, employees, defaultFloorplanId,
     name: desk?.name ?? '',
     kind: desk?.kind ?? (floorplans.find((item) => item.id === (desk?.floorplanId ?? defaultFloorplanId))?.defaultResourceKind ?? 'TISCH'),
     hasCharger: Boolean(desk?.hasCharger),
+    capacity: desk?.capacity ? String(desk.capacity) : '',
+    equipment: desk?.equipment ?? [],
     seriesPolicy: toSeriesPolicy(desk?.allowSeriesOverride),
     x: desk?.x ?? initialPosition?.x ?? null,
     y: desk?.y ?? initialPosition?.y ?? null,
@@ -664,11 +1019,12 @@ function DeskEditor({ desk, floorplans, tenants, employees, defaultFloorplanId,
 
   const floorplanInvalid = !form.floorplanId;
   const nameInvalid = !form.name.trim();
+  const capacityInvalid = form.kind === 'RAUM' && form.capacity.trim() !== '' && !/^[1-9]\d{0,2}$/.test(form.capacity.trim());
   const tenantInvalid = form.tenantScope === 'SELECTED' && form.tenantIds.length === 0;
   const employeeInvalid = form.employeeScope === 'SELECTED' && form.employeeIds.length === 0;
   const positionInvalid = form.x === null || form.y === null;
   const tabErrors: Record<EditorTab, boolean> = {
-    BASIC: floorplanInvalid || nameInvalid,
+    BASIC: floorplanInvalid || nameInvalid || capacityInvalid,
     TENANTS: tenantInvalid,
     EMPLOYEES: employeeInvalid,
     POSITION: positionInvalid,
@@ -682,6 +1038,7 @@ function DeskEditor({ desk, floorplans, tenants, employees, defaultFloorplanId,
       if (firstErrorTab) setActiveTab(firstErrorTab);
       if (floorplanInvalid) setInlineError('Bitte Floorplan auswählen.');
       else if (nameInvalid) setInlineError('Bitte Namen angeben.');
+      else if (capacityInvalid) setInlineError('Kapazität muss eine ganze Zahl zwischen 1 und 999 sein.');
       else if (tenantInvalid) setInlineError('Bitte mindestens einen Mandanten auswählen.');
       else if (employeeInvalid) setInlineError('Bitte mindestens einen Mitarbeiter auswählen.');
       else if (positionInvalid) setInlineError('Bitte Position im Plan setzen.');
@@ -695,6 +1052,8 @@ function DeskEditor({ desk, floorplans, tenants, employees, defaultFloorplanId,
         name: form.name.trim(),
         kind: form.kind,
         hasCharger: form.kind === 'PARKPLATZ' ? form.hasCharger : false,
+        capacity: form.kind === 'RAUM' && form.capacity.trim() ? Number(form.capacity.trim()) : null,
+        equipment: form.equipment,
         allowSeriesOverride: fromSeriesPolicy(form.seriesPolicy),
         x: form.x,
         y: form.y,
@@ -758,6 +1117,9 @@ function DeskEditor({ desk, floorplans, tenants, employees, defaultFloorplanId,
                     {nameInvalid && <p className="error-inline">Name ist erforderlich.</p>}
                     <label className="field"><span>Serientermine</span><select value={form.seriesPolicy} onChange={(e) => setForm((current) => ({ ...current, seriesPolicy: e.target.value as SeriesPolicy }))}><option value="DEFAULT">Floor-Default verwenden</option><option value="ALLOW">Erlauben</option><option value="DISALLOW">Verbieten</option></select><p className="muted">Default = Einstellung aus Floorplan.</p></label>
                     {form.kind === 'PARKPLATZ' && <label className="inline"><input type="checkbox" checked={form.hasCharger} onChange={(e) => setForm((current) => ({ ...current, hasCharger: e.target.checked }))} />E-Ladesäule vorhanden</label>}
+                    {form.kind === 'RAUM' && <label className="field"><span>Kapazität (Personen)</span><input type="number" min={1} max={999} placeholder="unbegrenzt" value={form.capacity} onChange={(e) => setForm((current) => ({ ...current, capacity: e.target.value }))} /><p className="muted">Wird bei Buchungen mit Teilnehmenden geprüft.</p></label>}
+                    {capacityInvalid && <p className="error-inline">Kapazität muss eine ganze Zahl zwischen 1 und 999 sein.</p>}
+                    <fieldset className="field"><legend>Ausstattung</legend>{RESOURCE_EQUIPMENT_OPTIONS.map((option) => <label key={option.value} className="inline"><input type="checkbox" checked={form.equipment.includes(option.value)} onChange={(e) => setForm((current) => ({ ...current, equipment: e.target.checked ? RESOURCE_EQUIPMENT_OPTIONS.map((entry) => entry.value).filter((value) => value === option.value || current.equipment.includes(value)) : current.equipment.filter((value) => value !== option.value) }))} />{option.label}</label>)}<p className="muted">Wird in der Ressourcensuche als Filter angeboten.</p></fieldset>
                   </section>
                 )}
                 {activeTab === 'TENANTS' && (
@@ -840,6 +1202,9 @@ function DeskTableToolbar({
   disableCreate,
   onFloorplanChange,
   onCreate,
+  onImport,
+  onDownloadLabels,
+  disableLabels,
   modeActive,
   onCancelMode
 }: {
@@ -857,6 +1222,9 @@ function DeskTableToolbar({
   disableCreate: boolean;
   onFloorplanChange: (value: string) => void;
   onCreate: () => void;
+  onImport: () => void;
+  onDownloadLabels: () => void;
+  disableLabels: boolean;
   modeActive: boolean;
   onCancelMode: () => void;
 }) {
@@ -889,6 +1257,8 @@ function DeskTableToolbar({
           </select>
         )}
         <div className="inline-end">
+          <button className="btn btn-outline" disabled={disableLabels} onClick={onDownloadLabels}>QR-Etiketten (PDF)</button>
+          <button className="btn btn-outline" disabled={disableCreate} onClick={onImport}>Importieren</button>
           <button className="btn" disabled={disableCreate} onClick={onCreate}>Neue Ressource</button>
           {modeActive && <button className="btn btn-outline" onClick={onCancelMode}>Abbrechen</button>}
         </div>
@@ -926,6 +1296,128 @@ const formatDateTimeShort = (value?: string) => {
   return `${datePart}, ${timePart}`;
 };
 
+const IMPORT_MAX_FILE_BYTES = 4 * 1024 * 1024;
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    if (typeof reader.result === 'string') {
+      resolve(reader.result);
+      return;
+    }
+    reject(new Error('Datei konnte nicht gelesen werden'));
+  };
+  reader.onerror = () => reject(new Error('Datei konnte nicht gelesen werden'));
+  reader.readAsDataURL(file);
+});
+const IMPORT_ACTION_LABELS: Record<ImportAction, string> = { create: 'Neu', update: 'Ändern', unchanged: 'Unverändert', error: 'Fehler' };
+const importActionTone = (action: ImportAction): BadgeTone => (action === 'error' ? 'warn' : action === 'unchanged' ? 'default' : 'ok');
+
+function ImportDialog({ title, endpoint, columns, hint, onClose, onApplied }: { title: string; endpoint: string; columns: string[]; hint: ReactNode; onClose: () => void; onApplied: (preview: ImportPreview) => Promise<void> }) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (selected: { name: string; content: string }, dryRun: boolean) => {
+    setBusy(true);
+    setError('');
+    try {
+      const result = await post<ImportPreview>(endpoint, { fileName: selected.name, content: selected.content, dryRun });
+      if (dryRun) setPreview(result);
+      else await onApplied(result);
+    } catch (err) {
+      // The server re-validates on apply; rows that became invalid in the meantime come back as a fresh preview.
+      if (err instanceof ApiError && err.backendCode === 'IMPORT_HAS_ERRORS' && err.details && typeof err.details === 'object' && 'preview' in err.details) {
+        setPreview((err.details as { preview: ImportPreview }).preview);
+      }
+      setError(err instanceof Error ? err.message : 'Import fehlgeschlagen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectFile = async (selectedFile: File | undefined) => {
+    setPreview(null);
+    setFile(null);
+    setError('');
+    if (!selectedFile) return;
+    if (selectedFile.size > IMPORT_MAX_FILE_BYTES) {
+      setError('Die Datei darf maximal 4 MB groß sein.');
+      return;
+    }
+
+    try {
+      const selected = { name: selectedFile.name, content: await readFileAsDataUrl(selectedFile) };
+      setFile(selected);
+      await submit(selected, true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Datei konnte nicht gelesen werden');
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([`${columns.join(';')}\r\n`], { type: 'text/csv;charset=utf-8' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = 'import-vorlage.csv';
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const pendingChanges = preview ? preview.summary.create + preview.summary.update : 0;
+  const canApply = Boolean(file && preview && preview.summary.error === 0 && pendingChanges > 0 && !busy);
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm import-dialog">
+        <h3>{title}</h3>
+        <p className="muted">{hint}</p>
+        <p className="muted">Spalten: {columns.map((column, index) => <Fragment key={column}>{index > 0 && ', '}<code>{column}</code></Fragment>)}</p>
+        <div className="inline-between">
+          <input type="file" accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" disabled={busy} onChange={(event) => { void selectFile(event.target.files?.[0]); }} />
+          <button type="button" className="btn btn-ghost" onClick={downloadTemplate}>CSV-Vorlage</button>
+        </div>
+        {error && <p className="error-banner">{error}</p>}
+        {busy && !preview && <p className="muted">Datei wird geprüft…</p>}
+        {preview && (
+          <>
+            <div className="inline-start">
+              <Badge tone="ok">{preview.summary.create} neu</Badge>
+              <Badge tone="ok">{preview.summary.update} geändert</Badge>
+              <Badge>{preview.summary.unchanged} unverändert</Badge>
+              <Badge tone={preview.summary.error > 0 ? 'warn' : 'default'}>{preview.summary.error} fehlerhaft</Badge>
+            </div>
+            {preview.ignoredColumns.length > 0 && <p className="muted">Ignorierte Spalten: {preview.ignoredColumns.join(', ')}</p>}
+            <div className="table-wrap import-preview">
+              <table className="admin-table">
+                <thead><tr><th>Zeile</th><th>Eintrag</th><th>Aktion</th><th>Details</th></tr></thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.row}>
+                      <td>{row.row}</td>
+                      <td className="truncate-cell" title={row.key}>{row.key || '—'}</td>
+                      <td><Badge tone={importActionTone(row.action)}>{IMPORT_ACTION_LABELS[row.action]}</Badge></td>
+                      <td>{row.errors.length > 0 ? <ul className="import-errors">{row.errors.map((message) => <li key={message}>{message}</li>)}</ul> : row.changes.length > 0 ? row.changes.join(', ') : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.summary.error > 0 && <p className="muted">Bitte die fehlerhaften Zeilen korrigieren und die Datei erneut auswählen. Es wird nur importiert, wenn alle Zeilen gültig sind.</p>}
+          </>
+        )}
+        <div className="inline-end">
+          <button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button>
+          <button type="button" className="btn" disabled={!canApply} onClick={() => { if (file) void submit(file, false); }}>{busy && preview ? 'Importiere…' : `${pendingChanges} Änderungen übernehmen`}</button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
 function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   const toasts = useToast();
   const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
@@ -954,6 +1446,13 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   const [renderSize, setRenderSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
   const [displayedRect, setDisplayedRect] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
   const [isRepairingPositions, setIsRepairingPositions] = useState(false);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [zoneEditor, setZoneEditor] = useState<{ zone: Zone | null } | null>(null);
+  const [pendingZoneDelete, setPendingZoneDelete] = useState<Zone | null>(null);
+  const [zoneTargetId, setZoneTargetId] = useState('');
+  const [isAssigningZone, setIsAssigningZone] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const rowRefs = useRef<Record<string, HTMLTableRowElement | null>>({});
 
   const floorplan = floorplans.find((item) => item.id === floorplanId) ?? null;
@@ -961,10 +1460,11 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
 
   const loadFloorplans = async () => {
     try {
-      const [rows, tenantRows, employeeRows] = await Promise.all([get<Floorplan[]>('/floorplans'), get<Tenant[]>('/admin/tenants'), get<Employee[]>('/admin/employees')]);
+      const [rows, tenantRows, employeeRows, teamRows] = await Promise.all([get<Floorplan[]>('/floorplans'), get<Tenant[]>('/admin/tenants'), get<Employee[]>('/admin/employees'), get<Team[]>('/admin/teams')]);
       setFloorplans(rows);
       setTenants(tenantRows);
       setEmployees(employeeRows);
+      setTeams(teamRows);
       setFloorplanId((current) => current || rows[0]?.id || '');
     } catch (err) {
       setState((current) => ({ ...current, error: err instanceof Error ? err.message : 'Fehler beim Laden', loading: false, ready: true }));
@@ -987,8 +1487,20 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
     }
   };
 
+  const loadZones = async (targetFloorplanId: string) => {
+    if (!targetFloorplanId) {
+      setZones([]);
+      return;
+    }
+    try {
+      setZones(await get<Zone[]>(`/admin/zones?floorplanId=${encodeURIComponent(targetFloorplanId)}`));
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Zonen konnten nicht geladen werden');
+    }
+  };
+
   useEffect(() => { void loadFloorplans(); }, []);
-  useEffect(() => { if (floorplanId) void loadDesks(floorplanId); }, [floorplanId]);
+  useEffect(() => { if (floorplanId) { void loadDesks(floorplanId); void loadZones(floorplanId); } }, [floorplanId]);
   useEffect(() => { if (hasCreateFlag(path)) setCanvasMode('create'); }, [path]);
 
   useEffect(() => {
@@ -1040,10 +1552,28 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
     return names.join(', ');
   };
 
+  const zonesByDeskId = useMemo(() => new Map(zones.flatMap((zone) => zone.deskIds.map((deskId) => [deskId, zone] as const))), [zones]);
+  const teamsById = useMemo(() => new Map(teams.map((team) => [team.id, team])), [teams]);
+  const describeZoneTeams = (zone: Zone): string => (
+    zone.teams.length === 0
+      ? 'Keine Teams'
+      : zone.teams.map((assignment) => `${teamsById.get(assignment.teamId)?.name ?? assignment.teamId} (${ZONE_TEAM_MODE_LABELS[assignment.mode]})`).join(', ')
+  );
+
   const selectedDesk = desks.find((desk) => desk.id === selectedDeskId) ?? null;
   const isAllVisibleSelected = filtered.length > 0 && filtered.every((desk) => selectedDeskIds.has(desk.id));
   const hasMissingPositions = desks.some((desk) => !hasDeskPosition(desk));
 
+  // One sticker per resource; each QR code opens the booking view on that resource for today.
+  const downloadLabels = () => {
+    const anchor = document.createElement('a');
+    anchor.href = resolveApiUrl(`/admin/floorplans/${floorplanId}/qr-labels`) ?? '';
+    anchor.download = '';
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+  };
+
   const startCreateMode = () => {
     setEditingDesk(null);
     setPendingRepositionDesk(null);
@@ -1154,10 +1684,35 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
     }
   };
 
+  // Zone membership is replaced per zone, so moving desks means rewriting every zone that gains or loses one.
+  const updateSelectionZone = async (targetZoneId: string | null) => {
+    if (selectedDeskIds.size === 0 || isAssigningZone) return;
+    setIsAssigningZone(true);
+    try {
+      const selectedIds = Array.from(selectedDeskIds);
+      if (targetZoneId) {
+        const target = zones.find((zone) => zone.id === targetZoneId);
+        if (!target) return;
+        await put(`/admin/zones/${target.id}/desks`, { deskIds: Array.from(new Set([...target.deskIds, ...selectedIds])) });
+      } else {
+        const affected = zones.filter((zone) => zone.deskIds.some((deskId) => selectedDeskIds.has(deskId)));
+        for (const zone of affected) {
+          await put(`/admin/zones/${zone.id}/desks`, { deskIds: zone.deskIds.filter((deskId) => !selectedDeskIds.has(deskId)) });
+        }
+      }
+      toasts.success(targetZoneId ? `${selectedIds.length} Ressource(n) der Zone zugewiesen` : `${selectedIds.length} Ressource(n) aus Zonen entfernt`);
+      await loadZones(floorplanId);
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Zonenzuordnung fehlgeschlagen');
+    } finally {
+      setIsAssigningZone(false);
+    }
+  };
+
   const isSavePositionDialogOpen = canvasMode === 'CONFIRM_SAVE_POSITION' && Boolean(pendingRepositionDesk && pendingRepositionCoords);
 
   const tableBody = state.loading && !state.ready
-    ? <SkeletonRows columns={6} />
+    ? <SkeletonRows columns={7} />
     : (
       <tbody>
         {filtered.map((desk) => (
@@ -1181,6 +1736,7 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
             <td className="truncate-cell">{desk.name}</td>
             <td>{resourceKindLabel(desk.kind)}</td>
             <td className="truncate-cell" title={getDeskTenantLabel(desk)}>{getDeskTenantLabel(desk)}</td>
+            <td className="truncate-cell">{zonesByDeskId.get(desk.id) ? <span className="zone-label"><span className="zone-swatch" style={{ background: zonesByDeskId.get(desk.id)?.color ?? undefined }} aria-hidden />{zonesByDeskId.get(desk.id)?.name}</span> : '—'}</td>
             <td>{formatDateTimeShort(desk.updatedAt ?? desk.createdAt)}</td>
             <td className="align-right">
               <RowMenu items={[
@@ -1227,6 +1783,9 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
           cancelModes();
         }}
         onCreate={startCreateMode}
+        onImport={() => setImportOpen(true)}
+        onDownloadLabels={downloadLabels}
+        disableLabels={!floorplanId || desks.length === 0}
         modeActive={canvasMode !== 'idle'}
         onCancelMode={cancelModes}
       />
@@ -1238,6 +1797,16 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
             <div className="bulk-actions">
               <strong>{selectedDeskIds.size} ausgewählt</strong>
               <div className="inline-end">
+                {zones.length > 0 && (
+                  <>
+                    <select value={zoneTargetId} onChange={(event) => setZoneTargetId(event.target.value)} aria-label="Zone für Auswahl" disabled={isAssigningZone}>
+                      <option value="">Zone wählen</option>
+                      {zones.map((zone) => <option key={zone.id} value={zone.id}>{zone.name}</option>)}
+                    </select>
+                    <button className="btn btn-outline" disabled={!zoneTargetId || isAssigningZone} onClick={() => void updateSelectionZone(zoneTargetId)}>Zone zuweisen</button>
+                    <button className="btn btn-outline" disabled={isAssigningZone} onClick={() => void updateSelectionZone(null)}>Aus Zone entfernen</button>
+                  </>
+                )}
                 <button className="btn btn-danger" disabled={isBulkDeleting} onClick={() => setBulkDeleteOpen(true)}>{isBulkDeleting ? 'Lösche…' : 'Auswahl löschen'}</button>
                 <button className="btn btn-outline" disabled={isBulkDeleting} onClick={clearSelection}>Abbrechen</button>
               </div>
@@ -1251,6 +1820,7 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
                   <th>Label</th>
                   <th>Art</th>
                   <th>Mandant</th>
+                  <th>Zone</th>
                   <th>Aktualisiert</th>
                   <th className="align-right">Aktionen</th>
                 </tr>
@@ -1299,7 +1869,8 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
                         status: 'free',
                         booking: null,
                         isSelected: selectedDeskIds.has(desk.id),
-                        isHighlighted: selectedDeskId === desk.id || hoveredDeskId === desk.id
+                        isHighlighted: selectedDeskId === desk.id || hoveredDeskId === desk.id,
+                        zoneColor: zonesByDeskId.get(desk.id)?.color ?? null
                       };
                     })}
                     selectedDeskId={selectedDeskId}
@@ -1324,6 +1895,28 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
                 <Badge tone="warn">Ohne Position: {desks.filter((desk) => !hasDeskPosition(desk)).length}</Badge>
                 <button className="btn btn-outline" type="button" disabled={isRepairingPositions} onClick={() => void runMissingPositionRepair()}>Top-left als fehlend markieren</button>
               </div>
+              <section className="card stack-xs zone-panel">
+                <div className="inline-between">
+                  <strong>Zonen</strong>
+                  <button className="btn btn-outline" type="button" onClick={() => setZoneEditor({ zone: null })}>Neue Zone</button>
+                </div>
+                {zones.length === 0 && <p className="muted">Noch keine Zonen. Ressourcen in der Liste auswählen und einer Zone zuweisen.</p>}
+                {zones.map((zone) => (
+                  <div key={zone.id} className="zone-panel-row">
+                    <span className="zone-swatch" style={{ background: zone.color ?? undefined }} aria-hidden />
+                    <div className="zone-panel-text">
+                      <strong>{zone.name}</strong>
+                      <small className="muted">{zone.deskIds.length} Ressource(n) · {describeZoneTeams(zone)}</small>
+                    </div>
+                    <RowMenu items={[
+                      { label: 'Bearbeiten', onSelect: () => setZoneEditor({ zone }) },
+                      { label: 'Ressourcen auswählen', onSelect: () => setSelectedDeskIds(new Set(zone.deskIds)) },
+                      { label: 'Löschen', onSelect: () => setPendingZoneDelete(zone), danger: true }
+                    ]}
+                    />
+                  </div>
+                ))}
+              </section>
               {debugEnabled && (
                 <section className="card stack-xs">
                   <strong>Floorplan Debug</strong>
@@ -1361,8 +1954,20 @@ function DesksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
         </aside>
       </section>
 
+      {importOpen && floorplan && (
+        <ImportDialog
+          title={`Ressourcen importieren: ${floorplan.name}`}
+          endpoint={`/admin/floorplans/${floorplan.id}/desks/import`}
+          columns={['name', 'kind', 'hasCharger', 'x', 'y', 'tenantScope', 'tenants', 'employeeScope', 'employees']}
+          hint="CSV (Komma, Semikolon oder Tab) oder Excel (.xlsx). Ressourcen werden über den Namen zugeordnet; leere Zellen lassen bestehende Werte unverändert. Mandanten per Domain, Mitarbeitende per E-Mail, mehrere durch Komma oder Semikolon getrennt."
+          onClose={() => setImportOpen(false)}
+          onApplied={async (result) => { setImportOpen(false); toasts.success(`${result.summary.create} Ressourcen angelegt, ${result.summary.update} aktualisiert`); await loadDesks(floorplanId); }}
+        />
+      )}
       {(createRequest || editingDesk) && <DeskEditor desk={editingDesk} floorplans={floorplans} tenants={tenants} employees={employees} defaultFloorplanId={floorplanId} initialPosition={createRequest} lockFloorplan={Boolean(createRequest)} onRequestPositionMode={editingDesk ? () => { setPendingRepositionDesk(editingDesk); setPendingRepositionCoords(null); setSavePositionError(''); setCanvasMode('reposition'); } : undefined} onClose={() => { setCreateRequest(null); setEditingDesk(null); navigate('/admin/desks'); }} onSaved={async () => { setCreateRequest(null); setEditingDesk(null); toasts.success('Ressource gespeichert'); await loadDesks(floorplanId); }} onError={toasts.error} />}
       {!isSavePositionDialogOpen && deleteDesk && <ConfirmDialog title="Ressource löschen?" description={`Ressource "${deleteDesk.name}" wird entfernt.`} onCancel={() => setDeleteDesk(null)} onConfirm={async (event) => { const anchorRect = event.currentTarget.getBoundingClientRect(); await del(`/admin/desks/${deleteDesk.id}`); setDeleteDesk(null); toasts.success('Ressource gelöscht', { anchorRect }); await loadDesks(floorplanId); }} />}
+      {zoneEditor && <ZoneEditor zone={zoneEditor.zone} floorplanId={floorplanId} teams={teams} onClose={() => setZoneEditor(null)} onSaved={async () => { setZoneEditor(null); toasts.success('Zone gespeichert'); await loadZones(floorplanId); }} onError={toasts.error} />}
+      {pendingZoneDelete && <ConfirmDialog title="Zone löschen?" description={`Zone "${pendingZoneDelete.name}" wird entfernt. Die Ressourcen bleiben erhalten, es gelten danach keine Teamregeln mehr.`} onCancel={() => setPendingZoneDelete(null)} onConfirm={async () => { await del(`/admin/zones/${pendingZoneDelete.id}`); setPendingZoneDelete(null); toasts.success('Zone gelöscht'); await loadZones(floorplanId); }} />}
       {!isSavePositionDialogOpen && bulkDeleteOpen && <ConfirmDialog title={`${selectedDeskIds.size} Einträge löschen?`} description="Dieser Vorgang ist irreversibel." onCancel={() => setBulkDeleteOpen(false)} onConfirm={(event) => void runBulkDelete(event.currentTarget.getBoundingClientRect())} confirmDisabled={isBulkDeleting} confirmLabel={isBulkDeleting ? 'Lösche…' : 'Löschen'} />}
       {isSavePositionDialogOpen && pendingRepositionDesk && pendingRepositionCoords && (
         <ConfirmDialog
@@ -1691,6 +2296,7 @@ function EmployeesPage({ path, navigate, onRoleStateChanged, onLogout, currentAd
   const [refreshingProfileId, setRefreshingProfileId] = useState<string | null>(null);
   const [forcingReauth, setForcingReauth] = useState(false);
   const [confirmForceReauth, setConfirmForceReauth] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   const load = async () => {
     setState((current) => ({ ...current, loading: true, error: '' }));
@@ -1726,9 +2332,9 @@ function EmployeesPage({ path, navigate, onRoleStateChanged, onLogout, currentAd
         toasts.toast({ message: 'Entra-Refresh ausgeführt, aber Profil konnte nicht gespeichert werden.', durationMs: 5200 });
       }
     } catch (err) {
-      if (err instanceof ApiError && err.status === 400 && err.backendCode === 'entra_not_linked') {
+      if (err instanceof ApiError && err.status === 400 && err.backendCode === 'ENTRA_NOT_LINKED') {
         toasts.error('Mitarbeiter nicht mit Entra verknüpft');
-      } else if (err instanceof ApiError && (err.status === 401 || err.status === 403) && err.backendCode === 'graph_permissions_required') {
+      } else if (err instanceof ApiError && (err.status === 401 || err.status === 403) && err.backendCode === 'GRAPH_PERMISSIONS_REQUIRED') {
         toasts.error('Refresh fehlgeschlagen: Microsoft Graph Berechtigung fehlt (Admin Consent erforderlich).');
       } else {
         toasts.error(err instanceof Error ? err.message : 'Entra-Profil konnte nicht aktualisiert werden');
@@ -1777,7 +2383,7 @@ function EmployeesPage({ path, navigate, onRoleStateChanged, onLogout, currentAd
           title="Mitarbeiter"
           count={filtered.length}
           filters={<div className="admin-search">🔎<input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Name oder E-Mail" /></div>}
-          actions={<div style={{ display: 'inline-flex', gap: 8 }}><button className="btn btn-outline" disabled={forcingReauth} onClick={() => setConfirmForceReauth(true)}>{forcingReauth ? 'Erzwinge…' : 'Neu anmelden erzwingen'}</button><button className="btn" onClick={() => setCreating(true)}>Neu</button></div>}
+          actions={<div style={{ display: 'inline-flex', gap: 8 }}><button className="btn btn-outline" disabled={forcingReauth} onClick={() => setConfirmForceReauth(true)}>{forcingReauth ? 'Erzwinge…' : 'Neu anmelden erzwingen'}</button><button className="btn btn-outline" onClick={() => setImportOpen(true)}>Importieren</button><button className="btn" onClick={() => setCreating(true)}>Neu</button></div>}
         />
         {state.error && <ErrorState text={state.error} onRetry={load} />}
         <div className="table-wrap">
@@ -1833,6 +2439,16 @@ function EmployeesPage({ path, navigate, onRoleStateChanged, onLogout, currentAd
         {!state.loading && filtered.length === 0 && <EmptyState text="Keine Mitarbeitenden vorhanden." action={<button className="btn" onClick={() => setCreating(true)}>Neu anlegen</button>} />}
       </section>
       {(creating || editing) && <EmployeeEditor employee={editing} onClose={() => { setCreating(false); setEditing(null); navigate('/admin/employees'); }} onSaved={async () => { setCreating(false); setEditing(null); toasts.success('Mitarbeiter gespeichert'); await load(); await onRoleStateChanged(); }} onError={toasts.error} />}
+      {importOpen && (
+        <ImportDialog
+          title="Mitarbeitende importieren"
+          endpoint="/admin/employees/import"
+          columns={['email', 'displayName', 'role', 'tenantDomain']}
+          hint="CSV (Komma, Semikolon oder Tab) oder Excel (.xlsx). Mitarbeitende werden über die E-Mail zugeordnet; bestehende Einträge erhalten Name und Rolle aus der Datei, leere Zellen bleiben unverändert. Der Mandant ergibt sich aus der E-Mail-Domain."
+          onClose={() => setImportOpen(false)}
+          onApplied={async (result) => { setImportOpen(false); toasts.success(`${result.summary.create} Mitarbeitende angelegt, ${result.summary.update} aktualisiert`); await load(); await onRoleStateChanged(); }}
+        />
+      )}
       {pendingDeactivate && <ConfirmDialog title="Mitarbeiter deaktivieren?" description={`${pendingDeactivate.displayName} wird auf inaktiv gesetzt.`} onCancel={() => setPendingDeactivate(null)} onConfirm={async (event) => { const anchorRect = event.currentTarget.getBoundingClientRect(); await patch(`/admin/employees/${pendingDeactivate.id}`, { isActive: false }); setPendingDeactivate(null); toasts.success('Mitarbeiter deaktiviert', { anchorRect }); await load(); }} />}
       {confirmForceReauth && <ConfirmDialog title="Neu-Anmeldung für alle Mitarbeitenden erzwingen?" description="Alle aktiven Sitzungen werden beim nächsten API-Aufruf beendet. Mitarbeitende erhalten eine Meldung, dass sie sich wegen eines Updates neu anmelden müssen." confirmLabel="Jetzt erzwingen" onCancel={() => setConfirmForceReauth(false)} onConfirm={async (event) => { const anchorRect = event.currentTarget.getBoundingClientRect(); setConfirmForceReauth(false); await forceReauthForAllEmployees(anchorRect); }} />}
     </AdminLayout>
@@ -2162,87 +2778,1031 @@ function TenantsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   );
 }
 
-
-function FeedbackReportsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+function TeamsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   const toasts = useToast();
-  const [reports, setReports] = useState<FeedbackReport[]>([]);
   const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
-  const [reporterFilter, setReporterFilter] = useState('');
-  const [typeFilter, setTypeFilter] = useState<'ALL' | FeedbackReportType>('ALL');
-  const [statusFilter, setStatusFilter] = useState<'ALL' | FeedbackReportStatus>('ALL');
-  const [fromDate, setFromDate] = useState('');
-  const [toDate, setToDate] = useState('');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [selectedReport, setSelectedReport] = useState<FeedbackReport | null>(null);
-  const [deleteTarget, setDeleteTarget] = useState<FeedbackReport | null>(null);
-  const [updatingReportId, setUpdatingReportId] = useState<string | null>(null);
-  const [deletingReportId, setDeletingReportId] = useState<string | null>(null);
-
-  const filteredReports = useMemo(() => {
-    const needle = reporterFilter.trim().toLowerCase();
-    return reports.filter((report) => {
-      if (!needle) return true;
-      return report.reporterDisplayName.toLowerCase().includes(needle) || report.reporterEmail.toLowerCase().includes(needle);
-    });
-  }, [reports, reporterFilter]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [editing, setEditing] = useState<Team | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<Team | null>(null);
 
   const load = async () => {
-    setState({ loading: true, error: '', ready: false });
+    setState((current) => ({ ...current, loading: true, error: '' }));
     try {
-      const query = new URLSearchParams();
-      if (typeFilter !== 'ALL') query.set('type', typeFilter);
-      if (statusFilter !== 'ALL') query.set('status', statusFilter);
-      if (reporterFilter.trim()) query.set('reporter', reporterFilter.trim());
-      if (fromDate) query.set('fromDate', fromDate);
-      if (toDate) query.set('toDate', toDate);
-      query.set('sort', sortDirection);
-      const response = await get<{ reports: FeedbackReport[] }>(`/admin/feedback-reports?${query.toString()}`);
-      setReports(Array.isArray(response.reports) ? response.reports : []);
+      const [teamRows, employeeRows] = await Promise.all([get<Team[]>('/admin/teams'), get<Employee[]>('/admin/employees')]);
+      setTeams(teamRows);
+      setEmployees(employeeRows);
       setState({ loading: false, error: '', ready: true });
-    } catch (error) {
-      setState({ loading: false, error: error instanceof Error ? error.message : 'Meldungen konnten nicht geladen werden', ready: false });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
     }
   };
 
-  useEffect(() => {
-    void load();
-  }, [typeFilter, statusFilter, sortDirection, fromDate, toDate]);
-
-  const updateStatus = async (report: FeedbackReport, status: FeedbackReportStatus) => {
-    if (report.status === status) return;
-    setUpdatingReportId(report.id);
-    try {
-      await patch(`/admin/feedback-reports/${report.id}/status`, { status });
-      setReports((current) => current.map((item) => item.id === report.id ? { ...item, status } : item));
-      setSelectedReport((current) => (current && current.id === report.id ? { ...current, status } : current));
-      toasts.success('Status aktualisiert');
-    } catch (error) {
-      toasts.error(error instanceof Error ? error.message : 'Status konnte nicht aktualisiert werden');
-    } finally {
-      setUpdatingReportId(null);
-    }
-  };
+  useEffect(() => { void load(); }, []);
 
-  const deleteReport = async (report: FeedbackReport) => {
-    setDeletingReportId(report.id);
-    try {
-      await del(`/admin/feedback-reports/${report.id}`);
-      setReports((current) => current.filter((item) => item.id !== report.id));
-      setSelectedReport((current) => current?.id === report.id ? null : current);
-      setDeleteTarget(null);
-      toasts.success('Meldung gelöscht');
-    } catch (error) {
-      toasts.error(error instanceof Error ? error.message : 'Löschen fehlgeschlagen');
-    } finally {
-      setDeletingReportId(null);
-    }
+  const employeesById = useMemo(() => new Map(employees.map((employee) => [employee.id, employee])), [employees]);
+  const memberSummary = (team: Team) => {
+    const names = team.memberIds.map((id) => employeesById.get(id)?.displayName).filter((name): name is string => Boolean(name));
+    if (names.length === 0) return '—';
+    return names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3}` : names.join(', ');
   };
 
   return (
-    <AdminLayout path={path} navigate={navigate} title="Feature Requests/Bug Reports" onLogout={onLogout} currentUser={currentUser ?? null}>
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Teams" currentUser={currentUser ?? null}>
       <section className="card stack-sm">
         <ListToolbar
-          title="Meldungen"
+          title="Teams"
+          count={teams.length}
+          actions={<button className="btn" onClick={() => setShowCreate(true)}>Neues Team</button>}
+        />
+        <p className="muted">Teams werden Zonen auf den Floorplänen zugeordnet. Exklusive Zonen können nur von Mitgliedern der zugeordneten Teams gebucht werden, bevorzugte Zonen werden ihnen bei der Suche zuerst vorgeschlagen.</p>
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Name</th><th>Mitglieder</th><th>Anzahl</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={4} /> : <tbody>{teams.map((team) => <tr key={team.id}><td><button className="btn btn-ghost" onClick={() => setEditing(team)}>{team.name}</button></td><td className="truncate-cell">{memberSummary(team)}</td><td>{team.memberIds.length}</td><td className="align-right"><RowMenu items={[{ label: 'Bearbeiten', onSelect: () => setEditing(team) }, { label: 'Löschen', onSelect: () => setPendingDelete(team), danger: true }]} /></td></tr>)}</tbody>}</table></div>
+        {!state.loading && teams.length === 0 && <EmptyState text="Noch keine Teams angelegt." action={<button className="btn" onClick={() => setShowCreate(true)}>Neu anlegen</button>} />}
+      </section>
+      {(showCreate || editing) && <TeamEditor team={editing} employees={employees} onClose={() => { setShowCreate(false); setEditing(null); }} onSaved={async () => { setShowCreate(false); setEditing(null); toasts.success('Team gespeichert'); await load(); }} onError={toasts.error} />}
+      {pendingDelete && <ConfirmDialog title="Team löschen?" description={`"${pendingDelete.name}" wird entfernt und aus allen Zonen ausgetragen.`} onCancel={() => setPendingDelete(null)} onConfirm={async () => { await del(`/admin/teams/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Team gelöscht'); await load(); }} />}
+    </AdminLayout>
+  );
+}
+
+function TeamEditor({ team, employees, onClose, onSaved, onError }: { team: Team | null; employees: Employee[]; onClose: () => void; onSaved: () => Promise<void>; onError: (message: string) => void }) {
+  const [name, setName] = useState(team?.name ?? '');
+  const [memberIds, setMemberIds] = useState<string[]>(team?.memberIds ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const employeeOptions = useMemo(
+    () => employees.filter((employee) => employee.isActive || memberIds.includes(employee.id)).map((employee) => ({ id: employee.id, label: employee.displayName, meta: employee.email })),
+    [employees, memberIds]
+  );
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const payload = { name: name.trim(), memberIds };
+      if (team) {
+        await patch(`/admin/teams/${team.id}`, payload);
+      } else {
+        await post('/admin/teams', payload);
+      }
+      await onSaved();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>{team ? 'Team bearbeiten' : 'Team anlegen'}</h3>
+        <form className="stack-sm" onSubmit={submit}>
+          <label className="field"><span>Name</span><input required value={name} onChange={(event) => setName(event.target.value)} placeholder="z. B. Entwicklung" /></label>
+          <CompactMultiSelect
+            label="Mitglieder"
+            options={employeeOptions}
+            selectedIds={memberIds}
+            onChange={setMemberIds}
+            searchPlaceholder="Mitarbeitende suchen"
+            emptyText="Keine Mitarbeitenden gefunden."
+            disabled={isSaving}
+          />
+          <div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={isSaving || !name.trim()}>{isSaving ? 'Speichern…' : 'Speichern'}</button></div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+const ZONE_TEAM_MODE_LABELS: Record<ZoneTeamMode, string> = { PREFERRED: 'Bevorzugt', EXCLUSIVE: 'Exklusiv' };
+
+function ZoneEditor({ zone, floorplanId, teams, onClose, onSaved, onError }: { zone: Zone | null; floorplanId: string; teams: Team[]; onClose: () => void; onSaved: () => Promise<void>; onError: (message: string) => void }) {
+  const [name, setName] = useState(zone?.name ?? '');
+  const [color, setColor] = useState(zone?.color ?? '#0ea5e9');
+  const [assignments, setAssignments] = useState<Zone['teams']>(zone?.teams ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const modeFor = (teamId: string): ZoneTeamMode | '' => assignments.find((assignment) => assignment.teamId === teamId)?.mode ?? '';
+  const setModeFor = (teamId: string, mode: ZoneTeamMode | '') => {
+    setAssignments((current) => {
+      const rest = current.filter((assignment) => assignment.teamId !== teamId);
+      return mode ? [...rest, { teamId, mode }] : rest;
+    });
+  };
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const payload = { name: name.trim(), color, teams: assignments };
+      if (zone) {
+        await patch(`/admin/zones/${zone.id}`, payload);
+      } else {
+        await post('/admin/zones', { ...payload, floorplanId });
+      }
+      await onSaved();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>{zone ? 'Zone bearbeiten' : 'Zone anlegen'}</h3>
+        <form className="stack-sm" onSubmit={submit}>
+          <label className="field"><span>Name</span><input required value={name} onChange={(event) => setName(event.target.value)} placeholder="z. B. Nordflügel" /></label>
+          <label className="field"><span>Farbe</span><input type="color" value={color} onChange={(event) => setColor(event.target.value)} /></label>
+          <div className="stack-xs">
+            <strong>Teams</strong>
+            {teams.length === 0 && <p className="muted">Noch keine Teams angelegt.</p>}
+            {teams.map((team) => (
+              <label key={team.id} className="zone-team-row">
+                <span>{team.name}</span>
+                <select value={modeFor(team.id)} onChange={(event) => setModeFor(team.id, event.target.value as ZoneTeamMode | '')}>
+                  <option value="">Nicht zugeordnet</option>
+                  <option value="PREFERRED">{ZONE_TEAM_MODE_LABELS.PREFERRED}</option>
+                  <option value="EXCLUSIVE">{ZONE_TEAM_MODE_LABELS.EXCLUSIVE}</option>
+                </select>
+              </label>
+            ))}
+            <p className="muted">Exklusiv: nur diese Teams dürfen buchen. Bevorzugt: alle dürfen buchen, das Team bekommt die Zone zuerst vorgeschlagen.</p>
+          </div>
+          <div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={isSaving || !name.trim()}>{isSaving ? 'Speichern…' : 'Speichern'}</button></div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+const POLICY_WEEKDAYS = [
+  { value: 1, label: 'Mo' },
+  { value: 2, label: 'Di' },
+  { value: 3, label: 'Mi' },
+  { value: 4, label: 'Do' },
+  { value: 5, label: 'Fr' },
+  { value: 6, label: 'Sa' },
+  { value: 7, label: 'So' }
+];
+
+const describeBookingPolicy = (policy: BookingPolicy): string => {
+  const rules: string[] = [];
+  if (policy.minLeadDays !== null) rules.push(`ab ${policy.minLeadDays} Tag(en) vorher`);
+  if (policy.maxAdvanceDays !== null) rules.push(`max. ${policy.maxAdvanceDays} Tag(e) im Voraus`);
+  if (policy.maxBookingsPerWeek !== null) rules.push(`max. ${policy.maxBookingsPerWeek} Tag(e)/Woche`);
+  if (policy.minDurationMinutes !== null || policy.maxDurationMinutes !== null) rules.push(`Dauer ${policy.minDurationMinutes ?? 0}–${policy.maxDurationMinutes ?? '∞'} Min.`);
+  if (policy.blockedWeekdays.length > 0) rules.push(`gesperrt: ${policy.blockedWeekdays.map((day) => POLICY_WEEKDAYS[day - 1]?.label ?? day).join(', ')}`);
+  return rules.length > 0 ? rules.join(' · ') : 'Keine Einschränkungen';
+};
+
+function BookingPoliciesPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [policies, setPolicies] = useState<BookingPolicy[]>([]);
+  const [floorplans, setFloorplans] = useState<Floorplan[]>([]);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [editing, setEditing] = useState<BookingPolicy | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<BookingPolicy | null>(null);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      const [policyRows, floorplanRows, tenantRows] = await Promise.all([get<BookingPolicy[]>('/admin/booking-policies'), get<Floorplan[]>('/floorplans'), get<Tenant[]>('/admin/tenants')]);
+      setPolicies(policyRows);
+      setFloorplans(floorplanRows);
+      setTenants(tenantRows);
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const floorplanName = (id: string | null) => (id ? floorplans.find((floorplan) => floorplan.id === id)?.name ?? id : 'Alle');
+  const tenantName = (id: string | null) => {
+    if (!id) return 'Alle';
+    const tenant = tenants.find((entry) => entry.id === id);
+    return tenant ? tenant.name ?? tenant.domain : id;
+  };
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Buchungsregeln" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Buchungsregeln"
+          count={policies.length}
+          actions={<button className="btn" onClick={() => setShowCreate(true)}>Neue Regel</button>}
+        />
+        <p className="muted">Regeln gelten für alle passenden Buchungen (Einzel-, Zeitraum-, Serien- und Smart-Parking-Buchungen). Treffen mehrere Regeln zu, müssen alle eingehalten werden.</p>
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Name</th><th>Floorplan</th><th>Ressourcenart</th><th>Mandant</th><th>Regeln</th><th>Status</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={7} /> : <tbody>{policies.map((policy) => <tr key={policy.id}><td><button className="btn btn-ghost" onClick={() => setEditing(policy)}>{policy.name}</button></td><td>{floorplanName(policy.floorplanId)}</td><td>{policy.resourceKind ? resourceKindLabel(policy.resourceKind) : 'Alle'}</td><td>{tenantName(policy.tenantId)}</td><td>{describeBookingPolicy(policy)}</td><td>{policy.isActive ? <Badge tone="ok">Aktiv</Badge> : <Badge>Inaktiv</Badge>}</td><td className="align-right"><RowMenu items={[{ label: 'Bearbeiten', onSelect: () => setEditing(policy) }, { label: 'Löschen', onSelect: () => setPendingDelete(policy), danger: true }]} /></td></tr>)}</tbody>}</table></div>
+        {!state.loading && policies.length === 0 && <EmptyState text="Keine Buchungsregeln vorhanden. Es gilt nur die Regel „eine Buchung pro Tag und Ressourcenart“." action={<button className="btn" onClick={() => setShowCreate(true)}>Neu anlegen</button>} />}
+      </section>
+      {(showCreate || editing) && <BookingPolicyEditor policy={editing} floorplans={floorplans} tenants={tenants} onClose={() => { setShowCreate(false); setEditing(null); }} onSaved={async () => { setShowCreate(false); setEditing(null); toasts.success('Buchungsregel gespeichert'); await load(); }} onError={toasts.error} />}
+      {pendingDelete && <ConfirmDialog title="Buchungsregel löschen?" description={`"${pendingDelete.name}" wird dauerhaft entfernt.`} onCancel={() => setPendingDelete(null)} onConfirm={async () => { await del(`/admin/booking-policies/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Buchungsregel gelöscht'); await load(); }} />}
+    </AdminLayout>
+  );
+}
+
+function BookingPolicyEditor({ policy, floorplans, tenants, onClose, onSaved, onError }: { policy: BookingPolicy | null; floorplans: Floorplan[]; tenants: Tenant[]; onClose: () => void; onSaved: () => Promise<void>; onError: (message: string) => void }) {
+  const toInput = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+  const [name, setName] = useState(policy?.name ?? '');
+  const [floorplanId, setFloorplanId] = useState(policy?.floorplanId ?? '');
+  const [resourceKind, setResourceKind] = useState<ResourceKind | ''>(policy?.resourceKind ?? '');
+  const [tenantId, setTenantId] = useState(policy?.tenantId ?? '');
+  const [minLeadDays, setMinLeadDays] = useState(toInput(policy?.minLeadDays));
+  const [maxAdvanceDays, setMaxAdvanceDays] = useState(toInput(policy?.maxAdvanceDays));
+  const [maxBookingsPerWeek, setMaxBookingsPerWeek] = useState(toInput(policy?.maxBookingsPerWeek));
+  const [minDurationMinutes, setMinDurationMinutes] = useState(toInput(policy?.minDurationMinutes));
+  const [maxDurationMinutes, setMaxDurationMinutes] = useState(toInput(policy?.maxDurationMinutes));
+  const [blockedWeekdays, setBlockedWeekdays] = useState<number[]>(policy?.blockedWeekdays ?? []);
+  const [isActive, setIsActive] = useState(policy?.isActive ?? true);
+
+  const toLimit = (value: string): number | null => (value.trim() ? Math.round(Number(value)) : null);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      const payload = {
+        name,
+        floorplanId: floorplanId || null,
+        resourceKind: resourceKind || null,
+        tenantId: tenantId || null,
+        minLeadDays: toLimit(minLeadDays),
+        maxAdvanceDays: toLimit(maxAdvanceDays),
+        maxBookingsPerWeek: toLimit(maxBookingsPerWeek),
+        minDurationMinutes: toLimit(minDurationMinutes),
+        maxDurationMinutes: toLimit(maxDurationMinutes),
+        blockedWeekdays,
+        isActive
+      };
+      if (policy) await put(`/admin/booking-policies/${policy.id}`, payload);
+      else await post('/admin/booking-policies', payload);
+      await onSaved();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    }
+  };
+
+  return <div className="overlay"><section className="card dialog stack-sm"><h3>{policy ? 'Buchungsregel bearbeiten' : 'Buchungsregel anlegen'}</h3><form className="stack-sm" onSubmit={submit}><input required placeholder="Name" value={name} onChange={(event) => setName(event.target.value)} /><div className="stack-xs"><strong>Gilt für</strong><label className="field"><span>Floorplan</span><select value={floorplanId} onChange={(event) => setFloorplanId(event.target.value)}><option value="">Alle Floorpläne</option>{floorplans.map((floorplan) => <option key={floorplan.id} value={floorplan.id}>{floorplan.name}</option>)}</select></label><label className="field"><span>Ressourcenart</span><select value={resourceKind} onChange={(event) => setResourceKind(event.target.value as ResourceKind | '')}><option value="">Alle Ressourcenarten</option>{RESOURCE_KIND_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}</select></label><label className="field"><span>Mandant</span><select value={tenantId} onChange={(event) => setTenantId(event.target.value)}><option value="">Alle Mandanten</option>{tenants.map((tenant) => <option key={tenant.id} value={tenant.id}>{tenant.name ? `${tenant.name} (${tenant.domain})` : tenant.domain}</option>)}</select></label></div><div className="stack-xs"><strong>Regeln</strong><p className="muted">Leere Felder bedeuten keine Einschränkung.</p><label className="field"><span>Frühestens buchbar (Tage vorher)</span><input type="number" min={0} step={1} value={minLeadDays} onChange={(event) => setMinLeadDays(event.target.value)} /></label><label className="field"><span>Spätestens buchbar (Tage im Voraus)</span><input type="number" min={0} step={1} value={maxAdvanceDays} onChange={(event) => setMaxAdvanceDays(event.target.value)} /></label><label className="field"><span>Max. Buchungstage pro Woche und Person</span><input type="number" min={1} step={1} value={maxBookingsPerWeek} onChange={(event) => setMaxBookingsPerWeek(event.target.value)} /></label><label className="field"><span>Mindestdauer Zeitbuchungen (Minuten)</span><input type="number" min={1} step={1} value={minDurationMinutes} onChange={(event) => setMinDurationMinutes(event.target.value)} /></label><label className="field"><span>Höchstdauer Zeitbuchungen (Minuten)</span><input type="number" min={1} step={1} value={maxDurationMinutes} onChange={(event) => setMaxDurationMinutes(event.target.value)} /></label><div className="field"><span>Gesperrte Wochentage</span><div className="inline">{POLICY_WEEKDAYS.map((weekday) => <label key={weekday.value} className="inline"><input type="checkbox" checked={blockedWeekdays.includes(weekday.value)} onChange={(event) => setBlockedWeekdays((current) => event.target.checked ? Array.from(new Set([...current, weekday.value])).sort((a, b) => a - b) : current.filter((day) => day !== weekday.value))} />{weekday.label}</label>)}</div></div><label className="field"><span>Regel aktiv</span><input type="checkbox" checked={isActive} onChange={(event) => setIsActive(event.target.checked)} /></label></div><div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={!name.trim()}>Speichern</button></div></form></section></div>;
+}
+const formatClosureRange = (closure: ClosurePeriod): string => {
+  const dates = closure.startDate === closure.endDate ? formatDateOnly(closure.startDate) : `${formatDateOnly(closure.startDate)} – ${formatDateOnly(closure.endDate)}`;
+  return closure.startTime && closure.endTime ? `${dates}, ${closure.startTime}–${closure.endTime}` : dates;
+};
+
+function ClosuresPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [closures, setClosures] = useState<ClosurePeriod[]>([]);
+  const [floorplans, setFloorplans] = useState<Floorplan[]>([]);
+  const [desks, setDesks] = useState<Desk[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<ClosurePeriod | null>(null);
+  const [collisionReview, setCollisionReview] = useState<{ closure: ClosurePeriod; collisions: ClosureCollision[] } | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      const [closureRows, floorplanRows] = await Promise.all([get<ClosurePeriod[]>('/admin/closures'), get<Floorplan[]>('/floorplans')]);
+      const deskRows = (await Promise.all(floorplanRows.map((plan) => get<Desk[]>(`/floorplans/${plan.id}/desks`)))).flat();
+      setClosures(closureRows);
+      setFloorplans(floorplanRows);
+      setDesks(deskRows);
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const openCollisions = async (closure: ClosurePeriod) => {
+    try {
+      const response = await get<{ closure: ClosurePeriod; collisions: ClosureCollision[] }>(`/admin/closures/${closure.id}/collisions`);
+      setCollisionReview(response);
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Betroffene Buchungen konnten nicht geladen werden');
+    }
+  };
+
+  const cancelCollisions = async () => {
+    if (!collisionReview) return;
+    setIsCancelling(true);
+    try {
+      const response = await post<{ cancelledCount: number }>(`/admin/closures/${collisionReview.closure.id}/cancel-bookings`, { bookingIds: collisionReview.collisions.map((booking) => booking.id) });
+      toasts.success(`${response.cancelledCount} Buchung(en) storniert`);
+      setCollisionReview(null);
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Stornieren fehlgeschlagen');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const floorplanName = (id: string) => floorplans.find((floorplan) => floorplan.id === id)?.name ?? id;
+  const deskName = (id: string | null) => (id ? desks.find((desk) => desk.id === id)?.name ?? id : 'Ganzer Standort');
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Schließtage" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Schließtage & Sperrzeiten"
+          count={closures.length}
+          actions={<button className="btn" onClick={() => setShowCreate(true)}>Neue Sperrzeit</button>}
+        />
+        <p className="muted">An geschlossenen Tagen sind keine Buchungen möglich; Zeitraum- und Serienbuchungen überspringen diese Tage.</p>
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Zeitraum</th><th>Floorplan</th><th>Ressource</th><th>Grund</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={5} /> : <tbody>{closures.map((closure) => <tr key={closure.id}><td>{formatClosureRange(closure)}</td><td>{floorplanName(closure.floorplanId)}</td><td>{deskName(closure.deskId)}</td><td>{closure.reason}</td><td className="align-right"><RowMenu items={[{ label: 'Betroffene Buchungen', onSelect: () => { void openCollisions(closure); } }, { label: 'Löschen', onSelect: () => setPendingDelete(closure), danger: true }]} /></td></tr>)}</tbody>}</table></div>
+        {!state.loading && closures.length === 0 && <EmptyState text="Keine Schließtage eingetragen." action={<button className="btn" onClick={() => setShowCreate(true)}>Neu anlegen</button>} />}
+      </section>
+      {showCreate && <ClosureEditor floorplans={floorplans} desks={desks} onClose={() => setShowCreate(false)} onSaved={async (result) => { setShowCreate(false); toasts.success('Sperrzeit gespeichert'); await load(); if (result.collisions.length > 0) setCollisionReview(result); }} onError={toasts.error} />}
+      {collisionReview && (
+        <div className="overlay"><section className="card dialog stack-sm"><h3>Betroffene Buchungen</h3><p className="muted">{formatClosureRange(collisionReview.closure)} · {collisionReview.closure.reason}</p>{collisionReview.collisions.length === 0 ? <p>Keine Buchungen betroffen.</p> : <div className="table-wrap"><table className="admin-table"><thead><tr><th>Datum</th><th>Ressource</th><th>Gebucht für</th><th>Zeit</th></tr></thead><tbody>{collisionReview.collisions.map((booking) => <tr key={booking.id}><td>{formatDateOnly(booking.date)}</td><td>{booking.deskName}</td><td>{booking.employeeName ?? booking.userEmail ?? '—'}</td><td>{booking.startTime && booking.endTime ? `${booking.startTime}–${booking.endTime}` : ({ FULL_DAY: 'Ganzer Tag', MORNING: 'Vormittag', AFTERNOON: 'Nachmittag', CUSTOM: '—' }[booking.slot ?? 'FULL_DAY'])}</td></tr>)}</tbody></table></div>}<div className="inline-end"><button type="button" className="btn btn-outline" onClick={() => setCollisionReview(null)}>Schließen</button>{collisionReview.collisions.length > 0 && <button type="button" className="btn btn-danger" disabled={isCancelling} onClick={() => void cancelCollisions()}>{collisionReview.collisions.length} Buchung(en) stornieren</button>}</div></section></div>
+      )}
+      {pendingDelete && <ConfirmDialog title="Sperrzeit löschen?" description={`"${pendingDelete.reason}" (${formatClosureRange(pendingDelete)}) wird entfernt. Bereits stornierte Buchungen werden nicht wiederhergestellt.`} onCancel={() => setPendingDelete(null)} onConfirm={async () => { await del(`/admin/closures/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Sperrzeit gelöscht'); await load(); }} />}
+    </AdminLayout>
+  );
+}
+
+function ClosureEditor({ floorplans, desks, onClose, onSaved, onError }: { floorplans: Floorplan[]; desks: Desk[]; onClose: () => void; onSaved: (result: { closure: ClosurePeriod; collisions: ClosureCollision[] }) => Promise<void>; onError: (message: string) => void }) {
+  const [floorplanId, setFloorplanId] = useState(floorplans[0]?.id ?? '');
+  const [deskId, setDeskId] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [withTimeWindow, setWithTimeWindow] = useState(false);
+  const [startTime, setStartTime] = useState('08:00');
+  const [endTime, setEndTime] = useState('12:00');
+  const [reason, setReason] = useState('');
+
+  const floorplanDesks = useMemo(() => desks.filter((desk) => desk.floorplanId === floorplanId), [desks, floorplanId]);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      const result = await post<{ closure: ClosurePeriod; collisions: ClosureCollision[] }>('/admin/closures', {
+        floorplanId,
+        deskId: deskId || null,
+        startDate,
+        endDate,
+        startTime: withTimeWindow ? startTime : null,
+        endTime: withTimeWindow ? endTime : null,
+        reason
+      });
+      await onSaved(result);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    }
+  };
+
+  return <div className="overlay"><section className="card dialog stack-sm"><h3>Sperrzeit anlegen</h3><form className="stack-sm" onSubmit={submit}><label className="field"><span>Grund</span><input required value={reason} onChange={(event) => setReason(event.target.value)} placeholder="z. B. Feiertag, Wartung" /></label><label className="field"><span>Floorplan</span><select required value={floorplanId} onChange={(event) => { setFloorplanId(event.target.value); setDeskId(''); }}>{floorplans.map((floorplan) => <option key={floorplan.id} value={floorplan.id}>{floorplan.name}</option>)}</select></label><label className="field"><span>Ressource</span><select value={deskId} onChange={(event) => setDeskId(event.target.value)}><option value="">Ganzer Standort</option>{floorplanDesks.map((desk) => <option key={desk.id} value={desk.id}>{desk.name} ({resourceKindLabel(desk.kind)})</option>)}</select></label><label className="field"><span>Von</span><input type="date" required value={startDate} onChange={(event) => { setStartDate(event.target.value); if (event.target.value > endDate) setEndDate(event.target.value); }} /></label><label className="field"><span>Bis</span><input type="date" required min={startDate} value={endDate} onChange={(event) => setEndDate(event.target.value)} /></label><label className="field"><span>Nur zu bestimmten Uhrzeiten</span><input type="checkbox" checked={withTimeWindow} onChange={(event) => setWithTimeWindow(event.target.checked)} /></label>{withTimeWindow && <div className="split"><label className="field"><span>Ab</span><input type="time" required value={startTime} onChange={(event) => setStartTime(event.target.value)} /></label><label className="field"><span>Bis</span><input type="time" required value={endTime} onChange={(event) => setEndTime(event.target.value)} /></label></div>}<div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={!floorplanId || !reason.trim()}>Speichern</button></div></form></section></div>;
+}
+
+const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'booking.created': 'Buchung angelegt',
+  'booking.updated': 'Buchung geändert',
+  'booking.cancelled': 'Buchung storniert',
+  'recurring.created': 'Serie angelegt',
+  'recurring.deleted': 'Serie gelöscht'
+};
+const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = { PENDING: 'Ausstehend', SENT: 'Zugestellt', FAILED: 'Fehlgeschlagen' };
+const webhookDeliveryTone = (status: WebhookDeliveryStatus): BadgeTone => (status === 'SENT' ? 'ok' : status === 'FAILED' ? 'warn' : 'default');
+
+const VISITOR_STATUS_LABELS: Record<VisitorStatus, string> = { EXPECTED: 'Erwartet', ARRIVED: 'Im Haus', DEPARTED: 'Gegangen' };
+const visitorStatusTone = (status: VisitorStatus): BadgeTone => (status === 'ARRIVED' ? 'ok' : status === 'EXPECTED' ? 'warn' : 'default');
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' }) : '—');
+const formatVisitorWindow = (booking: ReceptionVisitor['booking']) => (booking.startTime && booking.endTime ? `${booking.startTime}–${booking.endTime}` : ({ FULL: 'Ganzer Tag', AM: 'Vormittag', PM: 'Nachmittag' }[booking.daySlot ?? 'FULL']));
+
+function VisitorsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [date, setDate] = useState(today);
+  const [visitors, setVisitors] = useState<ReceptionVisitor[]>([]);
+  const [code, setCode] = useState('');
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [pendingVisitorId, setPendingVisitorId] = useState<string | null>(null);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      setVisitors(await get<ReceptionVisitor[]>(`/admin/visitors?date=${date}`));
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, [date]);
+
+  const checkIn = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+    setIsCheckingIn(true);
+    try {
+      const visitor = await post<ReceptionVisitor>('/admin/visitors/check-in', { code });
+      setCode('');
+      toasts.success(`${visitor.name} angemeldet, ${visitor.host.displayName} wurde benachrichtigt`);
+      await load();
+    } catch (err) {
+      const messages: Record<string, string> = {
+        VISITOR_CODE_UNKNOWN: 'Unbekannter Besuchercode',
+        VISITOR_CODE_NOT_TODAY: 'Der Code gilt nicht für heute',
+        VISITOR_CODE_USED: 'Der Code wurde bereits verwendet'
+      };
+      toasts.error(err instanceof ApiError && err.backendCode && messages[err.backendCode] ? messages[err.backendCode] : err instanceof Error ? err.message : 'Anmeldung fehlgeschlagen');
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  const markVisitor = async (visitor: ReceptionVisitor, action: 'arrival' | 'departure') => {
+    setPendingVisitorId(visitor.id);
+    try {
+      await post(`/admin/visitors/${visitor.id}/${action}`, {});
+      toasts.success(action === 'arrival' ? `${visitor.name} angemeldet` : `${visitor.name} abgemeldet`);
+      await load();
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Aktualisieren fehlgeschlagen');
+    } finally {
+      setPendingVisitorId(null);
+    }
+  };
+
+  const inHouse = visitors.filter((visitor) => visitor.status === 'ARRIVED').length;
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Empfang" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <h3>Besucher anmelden</h3>
+        <form className="inline-end" onSubmit={(event) => void checkIn(event)}>
+          <input aria-label="Besuchercode" placeholder="Besuchercode" value={code} autoComplete="off" onChange={(event) => setCode(event.target.value.toUpperCase())} disabled={isCheckingIn} />
+          <button type="submit" className="btn" disabled={!code.trim() || isCheckingIn}>Anmelden</button>
+        </form>
+        <p className="muted">Der Code steht in der Einladung des Gastes und gilt einmalig am Besuchstag. Die Gastgeber:in erhält bei der Anmeldung eine E-Mail.</p>
+      </section>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Besucher"
+          count={date === today ? `${visitors.length} · ${inHouse} im Haus` : visitors.length}
+          filters={<label className="field"><span>Datum</span><input type="date" value={date} onChange={(event) => setDate(event.target.value || today)} /></label>}
+        />
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Gast</th><th>Gastgeber:in</th><th>Ankunft</th><th>Ressource</th><th>Status</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={6} /> : <tbody>{visitors.map((visitor) => (
+          <tr key={visitor.id}>
+            <td><strong>{visitor.name}</strong>{visitor.company && <div className="muted">{visitor.company}</div>}</td>
+            <td>{visitor.host.displayName}</td>
+            <td>{visitor.expectedArrivalTime ?? '—'}</td>
+            <td>{resourceKindLabel(visitor.booking.resourceKind)} {visitor.booking.deskName}<div className="muted">{visitor.booking.floorplanName} · {formatVisitorWindow(visitor.booking)}</div></td>
+            <td><Badge tone={visitorStatusTone(visitor.status)}>{VISITOR_STATUS_LABELS[visitor.status]}</Badge>{visitor.arrivedAt && <div className="muted">{formatTime(visitor.arrivedAt)}{visitor.departedAt ? `–${formatTime(visitor.departedAt)}` : ''}</div>}</td>
+            <td className="align-right">
+              {visitor.status === 'EXPECTED' && <button type="button" className="btn btn-outline" disabled={pendingVisitorId === visitor.id} onClick={() => void markVisitor(visitor, 'arrival')}>Angekommen</button>}
+              {visitor.status === 'ARRIVED' && <button type="button" className="btn btn-outline" disabled={pendingVisitorId === visitor.id} onClick={() => void markVisitor(visitor, 'departure')}>Gegangen</button>}
+            </td>
+          </tr>
+        ))}</tbody>}</table></div>
+        {!state.loading && visitors.length === 0 && <EmptyState text="Für diesen Tag sind keine Besucher angemeldet." />}
+      </section>
+    </AdminLayout>
+  );
+}
+
+function RoomDisplaysPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [displays, setDisplays] = useState<RoomDisplay[]>([]);
+  const [rooms, setRooms] = useState<Array<Desk & { floorplanName: string }>>([]);
+  const [name, setName] = useState('');
+  const [deskId, setDeskId] = useState('');
+  const [allowShortBookings, setAllowShortBookings] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [created, setCreated] = useState<CreatedRoomDisplay | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<RoomDisplay | null>(null);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      const [displayRows, floorplanRows] = await Promise.all([get<RoomDisplay[]>('/admin/room-displays'), get<Floorplan[]>('/floorplans')]);
+      const deskRows = await Promise.all(floorplanRows.map(async (plan) => (await get<Desk[]>(`/floorplans/${plan.id}/desks`)).map((desk) => ({ ...desk, floorplanName: plan.name }))));
+      setDisplays(displayRows);
+      setRooms(deskRows.flat().filter((desk) => desk.kind === 'RAUM'));
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const create = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      setCreated(await post<CreatedRoomDisplay>('/admin/room-displays', { name: name.trim(), deskId, allowShortBookings }));
+      setName('');
+      setDeskId('');
+      setAllowShortBookings(false);
+      await load();
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Raumdisplay konnte nicht angelegt werden');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Raumdisplays" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <h3>Display einrichten</h3>
+        <form className="inline-end" onSubmit={(event) => void create(event)}>
+          <input aria-label="Name" placeholder="z. B. Tablet Besprechung 1" maxLength={120} value={name} onChange={(event) => setName(event.target.value)} disabled={isSaving} />
+          <select aria-label="Raum" value={deskId} onChange={(event) => setDeskId(event.target.value)} disabled={isSaving}>
+            <option value="">Raum auswählen…</option>
+            {rooms.map((room) => <option key={room.id} value={room.id}>{room.name} · {room.floorplanName}</option>)}
+          </select>
+          <label className="checkbox-label"><input type="checkbox" checked={allowShortBookings} onChange={(event) => setAllowShortBookings(event.target.checked)} disabled={isSaving} /><span>15 und 30 Minuten erlauben</span></label>
+          <button type="submit" className="btn" disabled={!name.trim() || !deskId || isSaving}>Anlegen</button>
+        </form>
+        <p className="muted">Ein Raumdisplay zeigt den Tagesplan eines Raums und erlaubt Spontanbuchungen über 60 Minuten; mit Ausnahme auch über 15 oder 30 Minuten, also unter der Mindestdauer für Räume. Buchungsregeln gelten wie in der App. Es meldet sich mit einem eigenen Geräte-Token an, nicht mit einem Benutzerkonto. Spontanbuchungen werden als Gastbuchung des Displays gespeichert; du bekommst dazu keine Mails.</p>
+      </section>
+      <section className="card stack-sm">
+        <ListToolbar title="Raumdisplays" count={displays.length} />
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Name</th><th>Raum</th><th>Token</th><th>Dauer</th><th>Zuletzt online</th><th>Eingerichtet von</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={7} /> : <tbody>{displays.map((display) => (
+          <tr key={display.id}>
+            <td><strong>{display.name}</strong></td>
+            <td>{display.room.name}<div className="muted">{display.room.floorplanName}</div></td>
+            <td><code>{display.tokenPrefix}…</code></td>
+            <td>{display.allowShortBookings ? 'ab 15 Min.' : 'ab 60 Min.'}</td>
+            <td>{display.lastSeenAt ? formatDate(display.lastSeenAt) : <Badge tone="warn">Noch nie</Badge>}</td>
+            <td>{display.createdBy.displayName}</td>
+            <td className="align-right"><button type="button" className="btn btn-ghost" onClick={() => setPendingDelete(display)}>Entfernen</button></td>
+          </tr>
+        ))}</tbody>}</table></div>
+        {!state.loading && displays.length === 0 && <EmptyState text="Noch keine Raumdisplays eingerichtet." />}
+      </section>
+      {created && <RoomDisplaySetupDialog display={created} onClose={() => setCreated(null)} />}
+      {pendingDelete && <ConfirmDialog title="Raumdisplay entfernen?" description={`"${pendingDelete.name}" verliert sofort den Zugriff und zeigt danach nur noch den Einrichtungshinweis.`} onCancel={() => setPendingDelete(null)} onConfirm={async () => { await del(`/admin/room-displays/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Raumdisplay entfernt'); await load(); }} />}
+    </AdminLayout>
+  );
+}
+
+function RoomDisplaySetupDialog({ display, onClose }: { display: CreatedRoomDisplay; onClose: () => void }) {
+  const toasts = useToast();
+  const setupUrl = `${window.location.origin}/#/room-display?token=${encodeURIComponent(display.token)}`;
+
+  const copySetupUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(setupUrl);
+      toasts.success('Einrichtungslink kopiert');
+    } catch {
+      toasts.error('Einrichtungslink konnte nicht kopiert werden');
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>„{display.name}“ einrichten</h3>
+        <p className="muted">Öffne diesen Link einmal im Browser des Tablets für {display.room.name}. Der Link enthält das Geräte-Token und wird nur jetzt angezeigt.</p>
+        <input className="webhook-secret" readOnly value={setupUrl} onFocus={(event) => event.target.select()} />
+        <div className="inline-end"><button type="button" className="btn btn-outline" onClick={() => { void copySetupUrl(); }}>Kopieren</button><button type="button" className="btn" onClick={onClose}>Fertig</button></div>
+      </section>
+    </div>
+  );
+}
+
+function WebhooksPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<WebhookSubscription | null>(null);
+  const [pendingRotate, setPendingRotate] = useState<WebhookSubscription | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [deliveriesFor, setDeliveriesFor] = useState<WebhookSubscription | null>(null);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      setWebhooks(await get<WebhookSubscription[]>('/admin/webhooks'));
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const toggleActive = async (webhook: WebhookSubscription) => {
+    try {
+      await patch(`/admin/webhooks/${webhook.id}`, { isActive: !webhook.isActive });
+      toasts.success(webhook.isActive ? 'Webhook pausiert' : 'Webhook aktiviert');
+      await load();
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    }
+  };
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="Webhooks" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Webhooks"
+          count={webhooks.length}
+          actions={<button className="btn" onClick={() => setShowCreate(true)}>Neuer Webhook</button>}
+        />
+        <p className="muted">Externe Systeme erhalten bei Buchungsereignissen einen signierten POST-Request. Fehlgeschlagene Zustellungen werden mit wachsendem Abstand bis zu acht Mal wiederholt und lassen sich im Zustellprotokoll erneut senden.</p>
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Name</th><th>URL</th><th>Ereignisse</th><th>Status</th><th>Zustellungen</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={6} /> : <tbody>{webhooks.map((webhook) => <tr key={webhook.id}><td><button className="btn btn-ghost" onClick={() => setEditing(webhook)}>{webhook.name}</button></td><td className="truncate-cell" title={webhook.url}>{webhook.url}</td><td className="truncate-cell">{webhook.events.map((event) => WEBHOOK_EVENT_LABELS[event] ?? event).join(', ')}</td><td>{webhook.isActive ? <Badge tone="ok">Aktiv</Badge> : <Badge>Pausiert</Badge>}</td><td><button className="btn btn-ghost" onClick={() => setDeliveriesFor(webhook)}>{webhook.deliveryCounts.sent} zugestellt{webhook.deliveryCounts.pending > 0 ? ` · ${webhook.deliveryCounts.pending} ausstehend` : ''}{webhook.deliveryCounts.failed > 0 ? ` · ${webhook.deliveryCounts.failed} fehlgeschlagen` : ''}</button></td><td className="align-right"><RowMenu items={[{ label: 'Bearbeiten', onSelect: () => setEditing(webhook) }, { label: 'Zustellprotokoll', onSelect: () => setDeliveriesFor(webhook) }, { label: webhook.isActive ? 'Pausieren' : 'Aktivieren', onSelect: () => { void toggleActive(webhook); } }, { label: 'Secret neu erzeugen', onSelect: () => setPendingRotate(webhook) }, { label: 'Löschen', onSelect: () => setPendingDelete(webhook), danger: true }]} /></td></tr>)}</tbody>}</table></div>
+        {!state.loading && webhooks.length === 0 && <EmptyState text="Noch keine Webhooks eingerichtet." action={<button className="btn" onClick={() => setShowCreate(true)}>Neu anlegen</button>} />}
+      </section>
+      {(showCreate || editing) && <WebhookEditor webhook={editing} onClose={() => { setShowCreate(false); setEditing(null); }} onSaved={async (saved) => { setShowCreate(false); setEditing(null); if (saved.secret) setRevealedSecret({ name: saved.name, secret: saved.secret }); toasts.success('Webhook gespeichert'); await load(); }} onError={toasts.error} />}
+      {pendingDelete && <ConfirmDialog title="Webhook löschen?" description={`"${pendingDelete.name}" wird entfernt, ausstehende Zustellungen und das Zustellprotokoll werden verworfen.`} onCancel={() => setPendingDelete(null)} onConfirm={async () => { await del(`/admin/webhooks/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Webhook gelöscht'); await load(); }} />}
+      {pendingRotate && <ConfirmDialog title="Secret neu erzeugen?" description={`Das bisherige Secret von "${pendingRotate.name}" wird sofort ungültig. Der Empfänger muss das neue Secret übernehmen, bevor er Signaturen wieder prüfen kann.`} confirmLabel="Neu erzeugen" confirmVariant="primary" onCancel={() => setPendingRotate(null)} onConfirm={async () => { const rotated = await patch<WebhookSubscription>(`/admin/webhooks/${pendingRotate.id}`, { rotateSecret: true }); setPendingRotate(null); if (rotated.secret) setRevealedSecret({ name: rotated.name, secret: rotated.secret }); await load(); }} />}
+      {revealedSecret && <WebhookSecretDialog name={revealedSecret.name} secret={revealedSecret.secret} onClose={() => setRevealedSecret(null)} />}
+      {deliveriesFor && <WebhookDeliveriesDialog webhook={deliveriesFor} onClose={() => { setDeliveriesFor(null); void load(); }} />}
+    </AdminLayout>
+  );
+}
+
+function WebhookEditor({ webhook, onClose, onSaved, onError }: { webhook: WebhookSubscription | null; onClose: () => void; onSaved: (saved: WebhookSubscription) => Promise<void>; onError: (message: string) => void }) {
+  const [name, setName] = useState(webhook?.name ?? '');
+  const [url, setUrl] = useState(webhook?.url ?? '');
+  const [events, setEvents] = useState<WebhookEvent[]>(webhook?.events ?? ['booking.created', 'booking.updated', 'booking.cancelled']);
+  const [isActive, setIsActive] = useState(webhook?.isActive ?? true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleEvent = (event: WebhookEvent) => setEvents((current) => (current.includes(event) ? current.filter((entry) => entry !== event) : [...current, event]));
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const payload = { name: name.trim(), url: url.trim(), events, isActive };
+      const saved = webhook
+        ? await patch<WebhookSubscription>(`/admin/webhooks/${webhook.id}`, payload)
+        : await post<WebhookSubscription>('/admin/webhooks', payload);
+      await onSaved(saved);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>{webhook ? 'Webhook bearbeiten' : 'Webhook anlegen'}</h3>
+        <form className="stack-sm" onSubmit={submit}>
+          <label className="field"><span>Name</span><input required maxLength={120} value={name} onChange={(event) => setName(event.target.value)} placeholder="z. B. HR-System" /></label>
+          <label className="field"><span>URL</span><input required type="url" value={url} onChange={(event) => setUrl(event.target.value)} placeholder="https://example.com/hooks/raumbuchung" /></label>
+          <fieldset className="webhook-event-list">
+            <legend>Ereignisse</legend>
+            {(Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[]).map((entry) => (
+              <label key={entry} className="toggle"><input type="checkbox" checked={events.includes(entry)} onChange={() => toggleEvent(entry)} disabled={isSaving} /><span>{WEBHOOK_EVENT_LABELS[entry]} <code>{entry}</code></span></label>
+            ))}
+          </fieldset>
+          <label className="toggle"><input type="checkbox" checked={isActive} onChange={(event) => setIsActive(event.target.checked)} disabled={isSaving} /><span>Aktiv</span></label>
+          {webhook && <p className="muted">Secret: <code>{webhook.secretHint}</code></p>}
+          <div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={isSaving || !name.trim() || !url.trim() || events.length === 0}>{isSaving ? 'Speichern…' : 'Speichern'}</button></div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+function WebhookSecretDialog({ name, secret, onClose }: { name: string; secret: string; onClose: () => void }) {
+  const toasts = useToast();
+
+  const copySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toasts.success('Secret kopiert');
+    } catch {
+      toasts.error('Secret konnte nicht kopiert werden');
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>Signatur-Secret für „{name}“</h3>
+        <p className="muted">Das Secret wird nur jetzt angezeigt. Der Empfänger prüft damit den Header <code>x-webhook-signature</code> (HMAC-SHA256 über <code>&lt;Zeitstempel&gt;.&lt;Body&gt;</code>).</p>
+        <input className="webhook-secret" readOnly value={secret} onFocus={(event) => event.target.select()} />
+        <div className="inline-end"><button type="button" className="btn btn-outline" onClick={() => { void copySecret(); }}>Kopieren</button><button type="button" className="btn" onClick={onClose}>Fertig</button></div>
+      </section>
+    </div>
+  );
+}
+
+function WebhookDeliveriesDialog({ webhook, onClose }: { webhook: WebhookSubscription; onClose: () => void }) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const [meta, setMeta] = useState({ total: 0, page: 1, pageSize: 25, totalPages: 1 });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: '25' });
+      if (status) params.set('status', status);
+      const data = await get<{ items: WebhookDelivery[]; meta: { total: number; page: number; pageSize: number; totalPages: number } }>(`/admin/webhooks/${webhook.id}/deliveries?${params.toString()}`);
+      setDeliveries(data.items);
+      setMeta(data.meta);
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, [page, status]);
+
+  const replay = async (delivery: WebhookDelivery) => {
+    try {
+      await post(`/admin/webhook-deliveries/${delivery.id}/replay`, {});
+      toasts.success('Zustellung erneut eingeplant');
+      if (page === 1) await load();
+      else setPage(1);
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Erneutes Senden fehlgeschlagen');
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm webhook-deliveries-dialog">
+        <div className="inline-between">
+          <h3>Zustellprotokoll: {webhook.name}</h3>
+          <select value={status} onChange={(event) => { setStatus(event.target.value as WebhookDeliveryStatus | ''); setPage(1); }}>
+            <option value="">Alle Status</option>
+            {(Object.keys(WEBHOOK_DELIVERY_STATUS_LABELS) as WebhookDeliveryStatus[]).map((entry) => <option key={entry} value={entry}>{WEBHOOK_DELIVERY_STATUS_LABELS[entry]}</option>)}
+          </select>
+        </div>
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Erstellt</th><th>Ereignis</th><th>Status</th><th>HTTP</th><th>Versuche</th><th>Fehler</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={7} /> : <tbody>{deliveries.map((delivery) => (
+          <Fragment key={delivery.id}>
+            <tr>
+              <td>{formatDate(delivery.createdAt)}{delivery.replayOfId && <> <Badge>Wiederholung</Badge></>}</td>
+              <td><code>{delivery.event}</code></td>
+              <td><Badge tone={webhookDeliveryTone(delivery.status)}>{WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}</Badge>{delivery.nextAttemptAt && <div className="muted">nächster Versuch {formatDate(delivery.nextAttemptAt)}</div>}</td>
+              <td>{delivery.responseStatus ?? '—'}</td>
+              <td>{delivery.attempts}</td>
+              <td className="truncate-cell" title={delivery.lastError ?? undefined}>{delivery.lastError ?? '—'}</td>
+              <td className="align-right"><RowMenu items={[{ label: expandedId === delivery.id ? 'Payload ausblenden' : 'Payload anzeigen', onSelect: () => setExpandedId((current) => (current === delivery.id ? null : delivery.id)) }, { label: 'Erneut senden', onSelect: () => { void replay(delivery); } }]} /></td>
+            </tr>
+            {expandedId === delivery.id && <tr><td colSpan={7}><pre className="webhook-payload">{JSON.stringify(delivery.payload, null, 2)}</pre></td></tr>}
+          </Fragment>
+        ))}</tbody>}</table></div>
+        {!state.loading && deliveries.length === 0 && <EmptyState text="Noch keine Zustellungen." />}
+        <div className="inline-end">
+          <button className="btn btn-outline" disabled={meta.page <= 1 || state.loading} onClick={() => setPage((prev) => Math.max(prev - 1, 1))}>Zurück</button>
+          <span className="muted">Seite {meta.page} / {meta.totalPages}</span>
+          <button className="btn btn-outline" disabled={meta.page >= meta.totalPages || state.loading} onClick={() => setPage((prev) => prev + 1)}>Weiter</button>
+          <button type="button" className="btn" onClick={onClose}>Schließen</button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+const apiTokenStatusTone = (status: ApiTokenStatus): BadgeTone => (status === 'active' ? 'ok' : status === 'revoked' ? 'warn' : 'default');
+
+function ApiTokenStatusBadge({ token }: { token: ApiToken }) {
+  const status = apiTokenStatus(token);
+  return <Badge tone={apiTokenStatusTone(status)}>{API_TOKEN_STATUS_LABELS[status]}</Badge>;
+}
+
+function ApiAccessPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [serviceAccounts, setServiceAccounts] = useState<ServiceAccount[]>([]);
+  const [employeeTokens, setEmployeeTokens] = useState<EmployeeApiToken[]>([]);
+  const [editing, setEditing] = useState<ServiceAccount | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<ServiceAccount | null>(null);
+  const [tokenTarget, setTokenTarget] = useState<ServiceAccount | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<{ token: ApiToken; ownerName: string } | null>(null);
+
+  const load = async () => {
+    setState((current) => ({ ...current, loading: true, error: '' }));
+    try {
+      const [accountRows, tokenRows] = await Promise.all([get<ServiceAccount[]>('/admin/service-accounts'), get<EmployeeApiToken[]>('/admin/api-tokens')]);
+      setServiceAccounts(accountRows);
+      setEmployeeTokens(tokenRows);
+      setState({ loading: false, error: '', ready: true });
+    } catch (err) {
+      setState({ loading: false, error: err instanceof Error ? err.message : 'Fehler beim Laden', ready: true });
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const toggleActive = async (account: ServiceAccount) => {
+    try {
+      await patch(`/admin/service-accounts/${account.id}`, { isActive: !account.isActive });
+      toasts.success(account.isActive ? 'Service-Account deaktiviert' : 'Service-Account aktiviert');
+      await load();
+    } catch (err) {
+      toasts.error(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    }
+  };
+
+  const activeTokenCount = (account: ServiceAccount) => account.tokens.filter((token) => apiTokenStatus(token) === 'active').length;
+
+  return (
+    <AdminLayout path={path} navigate={navigate} onLogout={onLogout} title="API-Zugriff" currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Service-Accounts"
+          count={serviceAccounts.length}
+          actions={<button className="btn" onClick={() => setShowCreate(true)}>Neuer Service-Account</button>}
+        />
+        <p className="muted">Service-Accounts sind technische Identitäten für Integrationen, die nicht an eine Person gebunden sind. Sie melden sich ausschließlich per Bearer-Token an und können keine Buchungen im eigenen Namen anlegen.</p>
+        {state.error && <ErrorState text={state.error} onRetry={load} />}
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Name</th><th>Beschreibung</th><th>Status</th><th>Tokens</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={5} /> : <tbody>{serviceAccounts.map((account) => (
+          <Fragment key={account.id}>
+            <tr>
+              <td><button className="btn btn-ghost" onClick={() => setEditing(account)}>{account.name}</button></td>
+              <td className="truncate-cell">{account.description ?? '—'}</td>
+              <td>{account.isActive ? <Badge tone="ok">Aktiv</Badge> : <Badge>Deaktiviert</Badge>}</td>
+              <td>{activeTokenCount(account)} aktiv</td>
+              <td className="align-right"><RowMenu items={[{ label: 'Token erstellen', onSelect: () => setTokenTarget(account) }, { label: 'Bearbeiten', onSelect: () => setEditing(account) }, { label: account.isActive ? 'Deaktivieren' : 'Aktivieren', onSelect: () => { void toggleActive(account); } }, { label: 'Löschen', onSelect: () => setPendingDelete(account), danger: true }]} /></td>
+            </tr>
+            {account.tokens.length > 0 && (
+              <tr className="api-token-subrow"><td colSpan={5}>
+                <ul className="api-token-list">
+                  {account.tokens.map((token) => (
+                    <li key={token.id} className="api-token-item">
+                      <span><code>{token.tokenPrefix}…</code> {token.name} · {token.scopes.map(apiTokenScopeLabel).join(', ')} · läuft ab {formatDateOnly(token.expiresAt)} · zuletzt genutzt {formatDate(token.lastUsedAt ?? undefined)}</span>
+                      <span className="inline-end"><ApiTokenStatusBadge token={token} />{apiTokenStatus(token) === 'active' && <button className="btn btn-ghost" onClick={() => setPendingRevoke({ token, ownerName: account.name })}>Widerrufen</button>}</span>
+                    </li>
+                  ))}
+                </ul>
+              </td></tr>
+            )}
+          </Fragment>
+        ))}</tbody>}</table></div>
+        {!state.loading && serviceAccounts.length === 0 && <EmptyState text="Noch keine Service-Accounts angelegt." action={<button className="btn" onClick={() => setShowCreate(true)}>Neu anlegen</button>} />}
+      </section>
+      <section className="card stack-sm">
+        <ListToolbar title="Persönliche API-Tokens" count={employeeTokens.length} />
+        <p className="muted">Mitarbeitende erstellen persönliche Tokens über ihr Benutzermenü. Ein Token hat höchstens die Rechte seines Besitzers; Admins können jeden Token widerrufen.</p>
+        <div className="table-wrap"><table className="admin-table"><thead><tr><th>Mitarbeiter</th><th>Token</th><th>Berechtigungen</th><th>Läuft ab</th><th>Zuletzt genutzt</th><th>Status</th><th className="align-right">Aktionen</th></tr></thead>{state.loading && !state.ready ? <SkeletonRows columns={7} /> : <tbody>{employeeTokens.map((token) => <tr key={token.id}><td>{token.employee?.displayName ?? '—'}</td><td><code>{token.tokenPrefix}…</code> {token.name}</td><td>{token.scopes.map(apiTokenScopeLabel).join(', ')}</td><td>{formatDateOnly(token.expiresAt)}</td><td>{formatDate(token.lastUsedAt ?? undefined)}</td><td><ApiTokenStatusBadge token={token} /></td><td className="align-right">{apiTokenStatus(token) === 'active' && <button className="btn btn-ghost" onClick={() => setPendingRevoke({ token, ownerName: token.employee?.displayName ?? 'Unbekannt' })}>Widerrufen</button>}</td></tr>)}</tbody>}</table></div>
+        {!state.loading && employeeTokens.length === 0 && <EmptyState text="Es gibt keine persönlichen API-Tokens." />}
+      </section>
+      {(showCreate || editing) && <ServiceAccountEditor account={editing} onClose={() => { setShowCreate(false); setEditing(null); }} onSaved={async () => { setShowCreate(false); setEditing(null); toasts.success('Service-Account gespeichert'); await load(); }} onError={toasts.error} />}
+      {tokenTarget && <ServiceAccountTokenDialog account={tokenTarget} onClose={() => { setTokenTarget(null); void load(); }} onError={toasts.error} />}
+      {pendingDelete && <ConfirmDialog title="Service-Account löschen?" description={`"${pendingDelete.name}" und alle zugehörigen Tokens werden sofort ungültig.`} onCancel={() => setPendingDelete(null)} onConfirm={async () => { await del(`/admin/service-accounts/${pendingDelete.id}`); setPendingDelete(null); toasts.success('Service-Account gelöscht'); await load(); }} />}
+      {pendingRevoke && <ConfirmDialog title="Token widerrufen?" description={`"${pendingRevoke.token.name}" von ${pendingRevoke.ownerName} kann danach nicht mehr verwendet werden.`} confirmLabel="Widerrufen" onCancel={() => setPendingRevoke(null)} onConfirm={async () => { await del(`/admin/api-tokens/${pendingRevoke.token.id}`); setPendingRevoke(null); toasts.success('Token widerrufen'); await load(); }} />}
+    </AdminLayout>
+  );
+}
+
+function ServiceAccountEditor({ account, onClose, onSaved, onError }: { account: ServiceAccount | null; onClose: () => void; onSaved: () => Promise<void>; onError: (message: string) => void }) {
+  const [name, setName] = useState(account?.name ?? '');
+  const [description, setDescription] = useState(account?.description ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const payload = { name: name.trim(), description: description.trim() || null };
+      if (account) {
+        await patch(`/admin/service-accounts/${account.id}`, payload);
+      } else {
+        await post('/admin/service-accounts', payload);
+      }
+      await onSaved();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>{account ? 'Service-Account bearbeiten' : 'Service-Account anlegen'}</h3>
+        <form className="stack-sm" onSubmit={submit}>
+          <label className="field"><span>Name</span><input required maxLength={80} value={name} onChange={(event) => setName(event.target.value)} placeholder="z. B. Facility-Management" /></label>
+          <label className="field"><span>Beschreibung</span><textarea rows={3} maxLength={500} value={description} onChange={(event) => setDescription(event.target.value)} placeholder="Wofür wird der Zugang verwendet?" /></label>
+          <div className="inline-end"><button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button><button className="btn" disabled={isSaving || !name.trim()}>{isSaving ? 'Speichern…' : 'Speichern'}</button></div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+function ServiceAccountTokenDialog({ account, onClose, onError }: { account: ServiceAccount; onClose: () => void; onError: (message: string) => void }) {
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  return (
+    <div className="overlay">
+      <section className="card dialog stack-sm">
+        <h3>Token für „{account.name}“</h3>
+        {created
+          ? <CreatedApiTokenNotice token={created} onDone={onClose} />
+          : <ApiTokenForm allowAdminScope allowWriteScope={false} onCancel={onClose} onSubmit={async (value) => { try { setCreated(await post<CreatedApiToken>(`/admin/service-accounts/${account.id}/tokens`, value)); } catch (err) { onError(err instanceof Error ? err.message : 'Token konnte nicht erstellt werden'); } }} />}
+      </section>
+    </div>
+  );
+}
+
+function FeedbackReportsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const toasts = useToast();
+  const [reports, setReports] = useState<FeedbackReport[]>([]);
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [reporterFilter, setReporterFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<'ALL' | FeedbackReportType>('ALL');
+  const [statusFilter, setStatusFilter] = useState<'ALL' | FeedbackReportStatus>('ALL');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [selectedReport, setSelectedReport] = useState<FeedbackReport | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<FeedbackReport | null>(null);
+  const [updatingReportId, setUpdatingReportId] = useState<string | null>(null);
+  const [deletingReportId, setDeletingReportId] = useState<string | null>(null);
+
+  const filteredReports = useMemo(() => {
+    const needle = reporterFilter.trim().toLowerCase();
+    return reports.filter((report) => {
+      if (!needle) return true;
+      return report.reporterDisplayName.toLowerCase().includes(needle) || report.reporterEmail.toLowerCase().includes(needle);
+    });
+  }, [reports, reporterFilter]);
+
+  const load = async () => {
+    setState({ loading: true, error: '', ready: false });
+    try {
+      const query = new URLSearchParams();
+      if (typeFilter !== 'ALL') query.set('type', typeFilter);
+      if (statusFilter !== 'ALL') query.set('status', statusFilter);
+      if (reporterFilter.trim()) query.set('reporter', reporterFilter.trim());
+      if (fromDate) query.set('fromDate', fromDate);
+      if (toDate) query.set('toDate', toDate);
+      query.set('sort', sortDirection);
+      const response = await get<{ reports: FeedbackReport[] }>(`/admin/feedback-reports?${query.toString()}`);
+      setReports(Array.isArray(response.reports) ? response.reports : []);
+      setState({ loading: false, error: '', ready: true });
+    } catch (error) {
+      setState({ loading: false, error: error instanceof Error ? error.message : 'Meldungen konnten nicht geladen werden', ready: false });
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, [typeFilter, statusFilter, sortDirection, fromDate, toDate]);
+
+  const updateStatus = async (report: FeedbackReport, status: FeedbackReportStatus) => {
+    if (report.status === status) return;
+    setUpdatingReportId(report.id);
+    try {
+      await patch(`/admin/feedback-reports/${report.id}/status`, { status });
+      setReports((current) => current.map((item) => item.id === report.id ? { ...item, status } : item));
+      setSelectedReport((current) => (current && current.id === report.id ? { ...current, status } : current));
+      toasts.success('Status aktualisiert');
+    } catch (error) {
+      toasts.error(error instanceof Error ? error.message : 'Status konnte nicht aktualisiert werden');
+    } finally {
+      setUpdatingReportId(null);
+    }
+  };
+
+  const deleteReport = async (report: FeedbackReport) => {
+    setDeletingReportId(report.id);
+    try {
+      await del(`/admin/feedback-reports/${report.id}`);
+      setReports((current) => current.filter((item) => item.id !== report.id));
+      setSelectedReport((current) => current?.id === report.id ? null : current);
+      setDeleteTarget(null);
+      toasts.success('Meldung gelöscht');
+    } catch (error) {
+      toasts.error(error instanceof Error ? error.message : 'Löschen fehlgeschlagen');
+    } finally {
+      setDeletingReportId(null);
+    }
+  };
+
+  return (
+    <AdminLayout path={path} navigate={navigate} title="Feature Requests/Bug Reports" onLogout={onLogout} currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Meldungen"
           count={filteredReports.length}
           filters={(
             <>
@@ -2519,6 +4079,160 @@ function LogsPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   );
 }
 
+const auditActionLabels: Record<string, string> = {
+  CREATE: 'Angelegt',
+  UPDATE: 'Geändert',
+  DELETE: 'Gelöscht',
+  CANCEL: 'Storniert',
+  CHECK_IN: 'Check-in',
+  AUTO_RELEASE: 'Auto-Freigabe',
+  WAITLIST_BOOK: 'Warteliste',
+  DB_CREATE: 'DB: Angelegt',
+  DB_UPDATE: 'DB: Geändert',
+  DB_DELETE: 'DB: Gelöscht',
+  DB_CLEAR: 'DB: Geleert',
+  REVOKE: 'Widerrufen'
+};
+
+const auditActionTone = (action: string): BadgeTone => {
+  if (action === 'DELETE' || action === 'CANCEL' || action === 'AUTO_RELEASE' || action.startsWith('DB_')) return 'warn';
+  if (action === 'CREATE' || action === 'CHECK_IN' || action === 'WAITLIST_BOOK') return 'ok';
+  return 'default';
+};
+
+const formatAuditSnapshot = (value: unknown): string => (value === null || value === undefined ? '—' : JSON.stringify(value, null, 2));
+
+function AuditLogPage({ path, navigate, onLogout, currentUser }: RouteProps) {
+  const [events, setEvents] = useState<AuditEventEntry[]>([]);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [state, setState] = useState<DataState>({ loading: true, error: '', ready: false });
+  const [entityType, setEntityType] = useState('');
+  const [entityIdInput, setEntityIdInput] = useState('');
+  const [actorInput, setActorInput] = useState('');
+  const [fromInput, setFromInput] = useState('');
+  const [toInput, setToInput] = useState('');
+  const [filters, setFilters] = useState({ entityId: '', actor: '', from: '', to: '' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [meta, setMeta] = useState({ total: 0, page: 1, pageSize: 50, totalPages: 1 });
+
+  const load = async () => {
+    setState((prev) => ({ ...prev, loading: true, error: '' }));
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: '50' });
+      if (entityType) params.set('entityType', entityType);
+      if (filters.entityId) params.set('entityId', filters.entityId);
+      if (filters.actor) params.set('actor', filters.actor);
+      if (filters.from) params.set('from', filters.from);
+      if (filters.to) params.set('to', filters.to);
+      const data = await get<{ items: AuditEventEntry[]; entityTypes?: string[]; meta: { total: number; page: number; pageSize: number; totalPages: number } }>(`/admin/audit-events?${params.toString()}`);
+      setEvents(Array.isArray(data.items) ? data.items : []);
+      setEntityTypes(Array.isArray(data.entityTypes) ? data.entityTypes : []);
+      setMeta(data.meta ?? { total: 0, page: 1, pageSize: 50, totalPages: 1 });
+      setState({ loading: false, error: '', ready: true });
+    } catch (error) {
+      setState({ loading: false, error: error instanceof Error ? error.message : 'Audit-Log konnte nicht geladen werden', ready: false });
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, [page, entityType, filters]);
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setFilters({ entityId: entityIdInput.trim(), actor: actorInput.trim(), from: fromInput, to: toInput });
+  };
+
+  const resetFilters = () => {
+    setEntityType('');
+    setEntityIdInput('');
+    setActorInput('');
+    setFromInput('');
+    setToInput('');
+    setPage(1);
+    setFilters({ entityId: '', actor: '', from: '', to: '' });
+  };
+
+  return (
+    <AdminLayout path={path} navigate={navigate} title="Audit-Log" onLogout={onLogout} currentUser={currentUser ?? null}>
+      <section className="card stack-sm">
+        <ListToolbar
+          title="Änderungsprotokoll"
+          count={meta.total}
+          filters={(
+            <form className="logs-toolbar" onSubmit={applyFilters}>
+              <select value={entityType} onChange={(event) => { setEntityType(event.target.value); setPage(1); }}>
+                <option value="">Alle Objekte</option>
+                {entityTypes.map((type) => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <input value={entityIdInput} placeholder="Objekt-ID" onChange={(event) => setEntityIdInput(event.target.value)} />
+              <div className="admin-search"><span>🔎</span><input value={actorInput} placeholder="Akteur (Name/E-Mail)" onChange={(event) => setActorInput(event.target.value)} /></div>
+              <input type="date" value={fromInput} aria-label="Von" onChange={(event) => setFromInput(event.target.value)} />
+              <input type="date" value={toInput} aria-label="Bis" onChange={(event) => setToInput(event.target.value)} />
+              <button className="btn" type="submit">Filtern</button>
+              <button className="btn btn-ghost" type="button" onClick={resetFilters}>Zurücksetzen</button>
+            </form>
+          )}
+          actions={<button className="btn btn-outline" onClick={() => void load()}>Aktualisieren</button>}
+        />
+
+        {state.error && <ErrorState text={state.error} onRetry={() => void load()} />}
+        {!state.loading && events.length === 0 && <EmptyState text="Keine Audit-Einträge gefunden." />}
+
+        <div className="table-scroll-area logs-table-wrap">
+          <table className="admin-table logs-table">
+            <thead>
+              <tr>
+                <th>Zeit</th>
+                <th>Akteur</th>
+                <th>Aktion</th>
+                <th>Objekt</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((entry) => (
+                <Fragment key={entry.id}>
+                  <tr>
+                    <td>{formatDate(entry.createdAt)}</td>
+                    <td>
+                      <p>{entry.actorDisplayName ?? (entry.actorEmail ? entry.actorEmail : 'System')}</p>
+                      {entry.actorDisplayName && entry.actorEmail && <p className="muted">{entry.actorEmail}</p>}
+                    </td>
+                    <td><Badge tone={auditActionTone(entry.action)}>{auditActionLabels[entry.action] ?? entry.action}</Badge></td>
+                    <td>
+                      <p>{entry.entityType}</p>
+                      {entry.entityId && <p className="muted logs-context">{entry.entityId}</p>}
+                    </td>
+                    <td><button className="btn btn-ghost" onClick={() => setExpandedId((prev) => (prev === entry.id ? null : entry.id))}>{expandedId === entry.id ? 'Ausblenden' : 'Details'}</button></td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr>
+                      <td colSpan={5}>
+                        <div className="split">
+                          <div className="stack-xxs"><strong>Vorher</strong><pre className="audit-snapshot">{formatAuditSnapshot(entry.before)}</pre></div>
+                          <div className="stack-xxs"><strong>Nachher</strong><pre className="audit-snapshot">{formatAuditSnapshot(entry.after)}</pre></div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="inline-end logs-pagination">
+          <button className="btn btn-outline" disabled={meta.page <= 1 || state.loading} onClick={() => setPage((prev) => Math.max(prev - 1, 1))}>Zurück</button>
+          <span className="muted">Seite {meta.page} / {meta.totalPages}</span>
+          <button className="btn btn-outline" disabled={meta.page >= meta.totalPages || state.loading} onClick={() => setPage((prev) => prev + 1)}>Weiter</button>
+        </div>
+      </section>
+    </AdminLayout>
+  );
+}
 
 function ReleaseNotesPage({ path, navigate, onLogout, currentUser }: RouteProps) {
   const [notes, setNotes] = useState<ReleaseNote[]>([]);
@@ -2602,9 +4316,18 @@ export function AdminRouter({ path, navigate, onRoleStateChanged, onLogout, curr
   if (route === '/admin/bookings') return <BookingsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
   if (route === '/admin/employees') return <EmployeesPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentAdminEmail={adminSession?.email ?? ''} currentUser={adminSession} />;
   if (route === '/admin/tenants') return <TenantsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/teams') return <TeamsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/booking-policies') return <BookingPoliciesPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/reports') return <ReportsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/closures') return <ClosuresPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/visitors') return <VisitorsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/room-displays') return <RoomDisplaysPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/webhooks') return <WebhooksPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/api-access') return <ApiAccessPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
   if (route === '/admin/feedback-reports') return <FeedbackReportsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
   if (route === '/admin/release-notes') return <ReleaseNotesPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
   if (route === '/admin/logs') return <LogsPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
+  if (route === '/admin/audit') return <AuditLogPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
   if (route === '/admin/db-admin') return <DbAdminPage path={path} navigate={navigate} onRoleStateChanged={onRoleStateChanged} onLogout={onLogout} currentUser={adminSession} />;
 
   return <main className="app-shell"><section className="card stack-sm down-card"><h2>Admin-Seite nicht gefunden</h2><button className="btn" onClick={() => navigate('/admin')}>Zum Dashboard</button></section></main>;
@@ -14,9 +14,13 @@ const shouldUseDevAuthBypass = (): boolean => {
   return query.get(DEV_AUTH_QUERY_PARAM) === DEV_AUTH_QUERY_VALUE;
 };
 
-const createRequestHeaders = (): HeadersInit => {
+// Room displays authenticate every request with their device token instead of the session cookie.
+export type RequestOptions = { headers?: Record<string, string> };
+
+const createRequestHeaders = (extra: Record<string, string> = {}): HeadersInit => {
   const headers: Record<string, string> = {
-    'Content-Type': 'application/json'
+    'Content-Type': 'application/json',
+    ...extra
   };
 
   if (shouldUseDevAuthBypass()) {
@@ -90,7 +94,7 @@ const mapStatusToCode = (status: number): ApiErrorCode => {
 const normalizeErrorMessage = (body: unknown, status: number): string => {
   const backendCode = toBackendCode(body);
   if (status === 403 && backendCode === 'ORIGIN_NOT_ALLOWED') {
-    return 'Request blocked (Origin)';
+    return 'Anfrage blockiert (Origin).';
   }
 
   if (typeof body === 'object' && body !== null && 'message' in body && typeof body.message === 'string') {
@@ -116,18 +120,18 @@ const toBackendCode = (body: unknown): string | undefined => {
   return undefined;
 };
 
-async function sendRequest(path: string, method: HttpMethod, payload?: unknown, signal?: AbortSignal): Promise<Response> {
+async function sendRequest(path: string, method: HttpMethod, payload?: unknown, signal?: AbortSignal, options: RequestOptions = {}): Promise<Response> {
   return fetch(`${API_BASE}${path}`, {
     method,
     signal,
     credentials: 'include',
     cache: 'no-store',
-    headers: createRequestHeaders(),
+    headers: createRequestHeaders(options.headers),
     ...(typeof payload === 'undefined' ? {} : { body: JSON.stringify(payload) })
   });
 }
 
-async function request<T>(path: string, method: HttpMethod, payload?: unknown): Promise<T> {
+async function request<T>(path: string, method: HttpMethod, payload?: unknown, options?: RequestOptions): Promise<T> {
   if (!backendAvailable && !path.endsWith('/health') && !path.endsWith('/api/health')) {
     throw new ApiError({
       message: 'Backend nicht erreichbar. Bitte prüfen, ob der Server läuft.',
@@ -144,7 +148,7 @@ async function request<T>(path: string, method: HttpMethod, payload?: unknown):
 
   let response: Response;
   try {
-    response = await sendRequest(path, method, payload, controller.signal);
+    response = await sendRequest(path, method, payload, controller.signal, options);
   } catch {
     backendAvailable = false;
     throw new ApiError({
@@ -241,12 +245,12 @@ export function resetClientCaches(): void {
   lastAuthMeFailure = null;
 }
 
-export function get<T>(path: string): Promise<T> {
-  return request<T>(path, 'GET');
+export function get<T>(path: string, options?: RequestOptions): Promise<T> {
+  return request<T>(path, 'GET', undefined, options);
 }
 
-export function post<T>(path: string, payload: unknown): Promise<T> {
-  return request<T>(path, 'POST', payload);
+export function post<T>(path: string, payload: unknown, options?: RequestOptions): Promise<T> {
+  return request<T>(path, 'POST', payload, options);
 }
 
 export function patch<T>(path: string, payload: unknown): Promise<T> {
@@ -263,7 +267,7 @@ export function del<T>(path: string): Promise<T> {
 
 export function resolveApiUrl(value?: string | null): string | undefined {
   if (!value) return undefined;
-  if (/^https?:\/\//i.test(value)) return value;
+  if (/^(https?:\/\/|data:)/i.test(value)) return value;
   return `${API_BASE}${value.startsWith('/') ? value : `/${value}`}`;
 }
 
@@ -89,12 +89,17 @@ type RoomCreatePayload = {
   userEmail: string;
   bookedFor?: 'SELF' | 'GUEST';
   guestName?: string;
+  title?: string;
+  attendees?: { employeeId?: string; name: string; email?: string }[];
+  visitor?: { email?: string; company?: string; expectedArrivalTime?: string; hostEmployeeId?: string };
   date: string;
   startTime?: string;
   endTime?: string;
   overwrite?: boolean;
 };
 
+export type CreatedBookingVisitor = { id: string; code: string };
+
 const shouldUseDevAuthBypass = (): boolean => {
   if (typeof window === 'undefined') return false;
 
@@ -158,7 +163,7 @@ const extractErrorMessage = (body: unknown, status: number): string => {
   return extractMessage(body) || `Request failed with status ${status}`;
 };
 
-export async function createRoomBooking(payload: RoomCreatePayload, meta: BookingMutationMeta): Promise<void> {
+export async function createRoomBooking(payload: RoomCreatePayload, meta: BookingMutationMeta): Promise<{ visitor?: CreatedBookingVisitor }> {
   const method = 'POST';
   const path = '/bookings';
   const url = `${API_BASE}${path}`;
@@ -180,6 +185,7 @@ export async function createRoomBooking(payload: RoomCreatePayload, meta: Bookin
   if (!response.ok) {
     throw new Error(extractErrorMessage(body, response.status));
   }
+  return (typeof body === 'object' && body !== null ? body : {}) as { visitor?: CreatedBookingVisitor };
 }
 
 export async function cancelBooking(bookingId: string, scope: 'single' | 'series' | 'resource_day_self' = 'single', meta?: BookingMutationMeta): Promise<{ deletedCount: number; scope: 'single' | 'series' | 'resource_day_self' }> {
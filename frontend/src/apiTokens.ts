@@ -0,0 +1,35 @@
+export type ApiTokenScope = 'bookings:read' | 'bookings:write' | 'admin';
+
+export type ApiToken = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type CreatedApiToken = ApiToken & { token: string };
+
+export const API_TOKEN_SCOPE_OPTIONS: Array<{ value: ApiTokenScope; label: string; description: string }> = [
+  { value: 'bookings:read', label: 'Buchungen lesen', description: 'Nur lesende Anfragen (GET)' },
+  { value: 'bookings:write', label: 'Buchungen schreiben', description: 'Buchen, ändern und stornieren' },
+  { value: 'admin', label: 'Admin', description: 'Zugriff auf alle /admin-Endpunkte' }
+];
+
+export const API_TOKEN_LIFETIME_OPTIONS = [30, 90, 180, 365];
+
+export function apiTokenScopeLabel(scope: string): string {
+  return API_TOKEN_SCOPE_OPTIONS.find((option) => option.value === scope)?.label ?? scope;
+}
+
+export type ApiTokenStatus = 'active' | 'expired' | 'revoked';
+
+export function apiTokenStatus(token: Pick<ApiToken, 'expiresAt' | 'revokedAt'>, now = Date.now()): ApiTokenStatus {
+  if (token.revokedAt) return 'revoked';
+  return new Date(token.expiresAt).getTime() <= now ? 'expired' : 'active';
+}
+
+export const API_TOKEN_STATUS_LABELS: Record<ApiTokenStatus, string> = { active: 'Aktiv', expired: 'Abgelaufen', revoked: 'Widerrufen' };
@@ -0,0 +1,60 @@
+import { FormEvent, useState } from 'react';
+import { API_TOKEN_LIFETIME_OPTIONS, API_TOKEN_SCOPE_OPTIONS, type ApiTokenScope, type CreatedApiToken } from '../apiTokens';
+import { useToast } from './toast';
+
+type ApiTokenFormValue = { name: string; scopes: ApiTokenScope[]; expiresInDays: number };
+
+// Shared by the personal token dialog and the service accounts admin page; service accounts cannot book.
+export function ApiTokenForm({ allowAdminScope, allowWriteScope = true, onSubmit, onCancel }: { allowAdminScope: boolean; allowWriteScope?: boolean; onSubmit: (value: ApiTokenFormValue) => Promise<void>; onCancel: () => void }) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['bookings:read']);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleScope = (scope: ApiTokenScope) => setScopes((current) => (current.includes(scope) ? current.filter((entry) => entry !== scope) : [...current, scope]));
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit({ name: name.trim(), scopes, expiresInDays });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="stack-sm" onSubmit={submit}>
+      <label className="field"><span>Bezeichnung</span><input required maxLength={120} value={name} onChange={(event) => setName(event.target.value)} placeholder="z. B. Reporting-Skript" /></label>
+      <fieldset className="api-token-scopes">
+        <legend>Berechtigungen</legend>
+        {API_TOKEN_SCOPE_OPTIONS.filter((option) => (allowAdminScope || option.value !== 'admin') && (allowWriteScope || option.value !== 'bookings:write')).map((option) => (
+          <label key={option.value} className="checkbox-label"><input type="checkbox" checked={scopes.includes(option.value)} onChange={() => toggleScope(option.value)} disabled={isSaving} /><span>{option.label} <span className="muted">– {option.description}</span></span></label>
+        ))}
+      </fieldset>
+      <label className="field"><span>Gültigkeit</span><select value={expiresInDays} onChange={(event) => setExpiresInDays(Number(event.target.value))} disabled={isSaving}>{API_TOKEN_LIFETIME_OPTIONS.map((days) => <option key={days} value={days}>{days} Tage</option>)}</select></label>
+      <div className="inline-end"><button type="button" className="btn btn-outline" onClick={onCancel}>Abbrechen</button><button className="btn" disabled={isSaving || !name.trim() || scopes.length === 0}>{isSaving ? 'Erstelle…' : 'Token erstellen'}</button></div>
+    </form>
+  );
+}
+
+export function CreatedApiTokenNotice({ token, onDone }: { token: CreatedApiToken; onDone: () => void }) {
+  const toasts = useToast();
+
+  const copyToken = async () => {
+    try {
+      await navigator.clipboard.writeText(token.token);
+      toasts.success('Token kopiert');
+    } catch {
+      toasts.error('Kopieren fehlgeschlagen');
+    }
+  };
+
+  return (
+    <div className="stack-sm">
+      <p className="muted">Der Token „{token.name}“ wird nur jetzt angezeigt. Sende ihn als Header <code>Authorization: Bearer &lt;Token&gt;</code>.</p>
+      <input className="api-token-value" type="text" value={token.token} readOnly onFocus={(event) => event.currentTarget.select()} />
+      <div className="inline-end"><button type="button" className="btn btn-outline" onClick={() => void copyToken()}>Kopieren</button><button type="button" className="btn" onClick={onDone}>Fertig</button></div>
+    </div>
+  );
+}
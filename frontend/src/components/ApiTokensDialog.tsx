@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { del, get, post } from '../api';
+import { apiTokenScopeLabel, apiTokenStatus, API_TOKEN_STATUS_LABELS, type ApiToken, type CreatedApiToken } from '../apiTokens';
+import { ApiTokenForm, CreatedApiTokenNotice } from './ApiTokenForm';
+import { useToast } from './toast';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString('de-DE') : '—');
+
+export function ApiTokensDialog({ isAdmin, onClose }: { isAdmin: boolean; onClose: () => void }) {
+  const toasts = useToast();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<'list' | 'create'>('list');
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setTokens(await get<ApiToken[]>('/me/api-tokens'));
+      setError('');
+    } catch {
+      setError('API-Tokens konnten nicht geladen werden.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const revoke = async (token: ApiToken) => {
+    try {
+      await del(`/me/api-tokens/${token.id}`);
+      toasts.success('Token widerrufen');
+      await load();
+    } catch {
+      toasts.error('Token konnte nicht widerrufen werden');
+    }
+  };
+
+  return createPortal(
+    <div className="overlay" role="presentation">
+      <section className="card dialog stack-sm" role="dialog" aria-modal="true" aria-labelledby="api-tokens-title">
+        <h3 id="api-tokens-title">API-Tokens</h3>
+        {created ? (
+          <CreatedApiTokenNotice token={created} onDone={() => setCreated(null)} />
+        ) : mode === 'create' ? (
+          <ApiTokenForm
+            allowAdminScope={isAdmin}
+            onCancel={() => setMode('list')}
+            onSubmit={async (value) => {
+              try {
+                setCreated(await post<CreatedApiToken>('/me/api-tokens', value));
+                setMode('list');
+                await load();
+              } catch (err) {
+                toasts.error(err instanceof Error ? err.message : 'Token konnte nicht erstellt werden');
+              }
+            }}
+          />
+        ) : (
+          <>
+            <p className="muted">Mit einem persönlichen Token können Skripte und Integrationen die API in deinem Namen aufrufen. Tokens laufen automatisch ab und lassen sich jederzeit widerrufen.</p>
+            {isLoading && <p className="muted">Lade…</p>}
+            {!isLoading && tokens.length === 0 && !error && <p>Du hast noch keine API-Tokens.</p>}
+            {tokens.length > 0 && (
+              <ul className="api-token-list">
+                {tokens.map((token) => {
+                  const status = apiTokenStatus(token);
+                  return (
+                    <li key={token.id} className="api-token-item">
+                      <div className="stack-xxs">
+                        <strong>{token.name}</strong>
+                        <span className="muted"><code>{token.tokenPrefix}…</code> · {token.scopes.map(apiTokenScopeLabel).join(', ')}</span>
+                        <span className="muted">{API_TOKEN_STATUS_LABELS[status]} · läuft ab {formatDate(token.expiresAt)} · zuletzt genutzt {formatDate(token.lastUsedAt)}</span>
+                      </div>
+                      {status === 'active' && <button type="button" className="btn btn-ghost" onClick={() => void revoke(token)}>Widerrufen</button>}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {error && <p className="field-error">{error}</p>}
+            <div className="inline-end">
+              <button type="button" className="btn btn-outline" onClick={onClose}>Schließen</button>
+              <button type="button" className="btn" onClick={() => setMode('create')}>Neuer Token</button>
+            </div>
+          </>
+        )}
+      </section>
+    </div>,
+    document.body
+  );
+}
@@ -7,6 +7,11 @@ type BookingType = 'single' | 'recurring';
 type BookingSlot = 'FULL_DAY' | 'MORNING' | 'AFTERNOON';
 type RoomScheduleItem = { id: string; label: string; person: string; isCurrentUser?: boolean; isSelfMine?: boolean; isGuestMine?: boolean; canCancel?: boolean; isSeries?: boolean; debugMeta?: string };
 type RoomFreeSlot = { label: string; startTime: string; endTime: string };
+type AttendeeOption = { id: string; displayName: string; email: string };
+
+export type BookingAttendeeDraft = { employeeId?: string; name: string; email?: string };
+// Single guest bookings register the guest as a visitor; without hostEmployeeId the booker is the host.
+export type BookingVisitorDraft = { email?: string; company?: string; expectedArrivalTime?: string; hostEmployeeId?: string };
 
 export type BookingFormValues = {
   type: BookingType;
@@ -25,11 +30,19 @@ export type BookingFormValues = {
   startTime: string;
   endTime: string;
   bookedFor: 'SELF' | 'GUEST';
+  // Empty when booking for oneself, otherwise the colleague who delegated their bookings to the user.
+  onBehalfOfEmployeeId: string;
   guestName: string;
+  guestEmail: string;
+  guestCompany: string;
+  guestArrivalTime: string;
+  guestHostEmployeeId: string;
+  title: string;
+  attendees: BookingAttendeeDraft[];
 };
 
 export type BookingFormSubmitPayload =
-  | { type: 'single'; date: string; slot?: BookingSlot; startTime?: string; endTime?: string; bookedFor: 'SELF' | 'GUEST'; guestName?: string }
+  | { type: 'single'; date: string; slot?: BookingSlot; startTime?: string; endTime?: string; bookedFor: 'SELF' | 'GUEST'; onBehalfOfEmployeeId?: string; guestName?: string; visitor?: BookingVisitorDraft; title?: string; attendees?: BookingAttendeeDraft[] }
   | { type: 'recurring'; startDate: string; endDate?: string; rangeMode: 'BY_DATE' | 'BY_COUNT'; count?: number; patternType: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'; interval: number; byWeekday?: number[]; byMonthday?: number; byMonth?: number; slot?: BookingSlot; startTime?: string; endTime?: string; bookedFor: 'SELF' | 'GUEST'; guestName?: string };
 
 const addDaysToIsoDate = (dateString: string, days: number): string => {
@@ -146,7 +159,14 @@ export const createDefaultBookingFormValues = (selectedDate: string): BookingFor
     startTime: '09:00',
     endTime: '10:00',
     bookedFor: 'SELF',
-    guestName: ''
+    onBehalfOfEmployeeId: '',
+    guestName: '',
+    guestEmail: '',
+    guestCompany: '',
+    guestArrivalTime: '',
+    guestHostEmployeeId: '',
+    title: '',
+    attendees: []
   };
 };
 
@@ -160,7 +180,7 @@ const weekdayButtons = [
   { label: 'So', value: 7 }
 ];
 
-export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting, disabled, errorMessage, allowRecurring = true, resourceKind, roomSchedule }: {
+export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting, disabled, errorMessage, allowRecurring = true, resourceKind, roomSchedule, attendeeOptions = [], delegatorOptions = [], roomCapacity = null }: {
   values: BookingFormValues;
   onChange: (next: BookingFormValues) => void;
   onSubmit: (payload: BookingFormSubmitPayload) => Promise<void>;
@@ -170,6 +190,9 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
   errorMessage?: string;
   allowRecurring?: boolean;
   resourceKind?: string;
+  attendeeOptions?: AttendeeOption[];
+  delegatorOptions?: AttendeeOption[];
+  roomCapacity?: number | null;
   roomSchedule?: {
     bookings: RoomScheduleItem[];
     freeSlots: RoomFreeSlot[];
@@ -186,6 +209,7 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
   const [localError, setLocalError] = useState('');
   const [showRecurrenceDetails, setShowRecurrenceDetails] = useState(true);
   const [showRecurrencePreview, setShowRecurrencePreview] = useState(false);
+  const [externalAttendee, setExternalAttendee] = useState({ name: '', email: '' });
   const isRoom = resourceKind === 'RAUM';
   const isParking = resourceKind === 'PARKPLATZ';
   const isTimeBased = isRoom || isParking;
@@ -196,7 +220,7 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
   }, [allowRecurring, isRoom, onChange, values]);
 
   const fieldErrors = useMemo(() => {
-    const nextErrors: { date?: string; dateFrom?: string; dateTo?: string; weekdays?: string; interval?: string; monthday?: string; yearmonth?: string; occurrenceCount?: string; startTime?: string; endTime?: string; guestName?: string } = {};
+    const nextErrors: { date?: string; dateFrom?: string; dateTo?: string; weekdays?: string; interval?: string; monthday?: string; yearmonth?: string; occurrenceCount?: string; startTime?: string; endTime?: string; guestName?: string; guestEmail?: string; attendees?: string; onBehalfOf?: string } = {};
 
     if (values.type === 'single' && !values.date) nextErrors.date = 'Datum ist erforderlich.';
     if (values.type === 'single' && isTimeBased) {
@@ -209,6 +233,12 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
     if (values.type === 'single' && values.bookedFor === 'GUEST' && values.guestName.trim().length < 2) {
       nextErrors.guestName = 'Gastname ist erforderlich (mind. 2 Zeichen).';
     }
+    if (values.type === 'single' && values.bookedFor === 'GUEST' && values.guestEmail.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.guestEmail.trim())) {
+      nextErrors.guestEmail = 'Bitte gib eine gültige E-Mail-Adresse ein.';
+    }
+    if (values.type === 'single' && isRoom && roomCapacity !== null && values.attendees.length + 1 > roomCapacity) {
+      nextErrors.attendees = `Der Raum bietet Platz für ${roomCapacity} Personen.`;
+    }
 
     if (values.type === 'recurring') {
       if (!values.dateFrom) nextErrors.dateFrom = 'Startdatum ist erforderlich.';
@@ -229,10 +259,11 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
         }
       }
       if (values.bookedFor === 'GUEST' && values.guestName.trim().length < 2) nextErrors.guestName = 'Gastname ist erforderlich (mind. 2 Zeichen).';
+      if (values.bookedFor === 'SELF' && values.onBehalfOfEmployeeId) nextErrors.onBehalfOf = 'Serien können nur für dich selbst gebucht werden.';
     }
 
     return nextErrors;
-  }, [values, isTimeBased]);
+  }, [values, isTimeBased, isRoom, roomCapacity]);
 
   const hasCancelableRoomBooking = Boolean(roomSchedule?.bookings.some((booking) => booking.canCancel));
 
@@ -306,6 +337,28 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
     });
   };
 
+  const selectableAttendees = useMemo(() => {
+    const selectedIds = new Set(values.attendees.map((attendee) => attendee.employeeId).filter(Boolean));
+    return attendeeOptions.filter((option) => !selectedIds.has(option.id));
+  }, [attendeeOptions, values.attendees]);
+
+  const addEmployeeAttendee = (employeeId: string) => {
+    const option = attendeeOptions.find((entry) => entry.id === employeeId);
+    if (!option) return;
+    onChange({ ...values, attendees: [...values.attendees, { employeeId: option.id, name: option.displayName, email: option.email }] });
+  };
+
+  const addExternalAttendee = () => {
+    const name = externalAttendee.name.trim();
+    if (name.length < 2) return;
+    onChange({ ...values, attendees: [...values.attendees, { name, email: externalAttendee.email.trim() || undefined }] });
+    setExternalAttendee({ name: '', email: '' });
+  };
+
+  const removeAttendee = (index: number) => {
+    onChange({ ...values, attendees: values.attendees.filter((_, entryIndex) => entryIndex !== index) });
+  };
+
   const toggleWeekday = (weekday: number) => {
     if (values.weekdays.includes(weekday)) {
       onChange({ ...values, weekdays: values.weekdays.filter((value) => value !== weekday) });
@@ -322,10 +375,29 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
       return;
     }
 
+    const visitor: BookingVisitorDraft | undefined = values.bookedFor === 'GUEST'
+      ? {
+        email: values.guestEmail.trim() || undefined,
+        company: values.guestCompany.trim() || undefined,
+        expectedArrivalTime: values.guestArrivalTime || undefined,
+        hostEmployeeId: values.guestHostEmployeeId || undefined
+      }
+      : undefined;
     const payload: BookingFormSubmitPayload = values.type === 'single'
       ? (isTimeBased
-        ? { type: 'single', date: values.date, startTime: values.startTime, endTime: values.endTime, bookedFor: values.bookedFor, guestName: values.bookedFor === 'GUEST' ? values.guestName.trim() : undefined }
-        : { type: 'single', date: values.date, slot: values.slot, bookedFor: values.bookedFor, guestName: values.bookedFor === 'GUEST' ? values.guestName.trim() : undefined })
+        ? {
+          type: 'single',
+          date: values.date,
+          startTime: values.startTime,
+          endTime: values.endTime,
+          bookedFor: values.bookedFor,
+          onBehalfOfEmployeeId: values.bookedFor === 'SELF' ? values.onBehalfOfEmployeeId || undefined : undefined,
+          guestName: values.bookedFor === 'GUEST' ? values.guestName.trim() : undefined,
+          visitor,
+          title: isRoom ? values.title.trim() || undefined : undefined,
+          attendees: isRoom && values.attendees.length > 0 ? values.attendees : undefined
+        }
+        : { type: 'single', date: values.date, slot: values.slot, bookedFor: values.bookedFor, onBehalfOfEmployeeId: values.bookedFor === 'SELF' ? values.onBehalfOfEmployeeId || undefined : undefined, guestName: values.bookedFor === 'GUEST' ? values.guestName.trim() : undefined, visitor })
       : (isTimeBased
         ? {
           type: 'recurring',
@@ -376,10 +448,21 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
         <label>Buchung für</label>
         <div className="weekday-toggle-group" role="group" aria-label="Buchung für">
           <button type="button" className={`weekday-toggle ${values.bookedFor === 'SELF' ? 'active' : ''}`} disabled={disabled} onClick={() => onChange({ ...values, bookedFor: 'SELF', guestName: '' })}>Mich</button>
-          <button type="button" className={`weekday-toggle ${values.bookedFor === 'GUEST' ? 'active' : ''}`} disabled={disabled} onClick={() => onChange({ ...values, bookedFor: 'GUEST' })}>Gast</button>
+          <button type="button" className={`weekday-toggle ${values.bookedFor === 'GUEST' ? 'active' : ''}`} disabled={disabled} onClick={() => onChange({ ...values, bookedFor: 'GUEST', onBehalfOfEmployeeId: '' })}>Gast</button>
         </div>
       </div>
 
+      {values.bookedFor === 'SELF' && delegatorOptions.length > 0 && (
+        <div className="stack-xs">
+          <label htmlFor="booking-on-behalf-of">Buchen für</label>
+          <select id="booking-on-behalf-of" value={values.onBehalfOfEmployeeId} disabled={disabled} onChange={(event) => onChange({ ...values, onBehalfOfEmployeeId: event.target.value })}>
+            <option value="">Mich selbst</option>
+            {delegatorOptions.map((option) => <option key={option.id} value={option.id}>{option.displayName}</option>)}
+          </select>
+          {fieldErrors.onBehalfOf && <p className="field-error" role="alert">{fieldErrors.onBehalfOf}</p>}
+        </div>
+      )}
+
       {values.bookedFor === 'GUEST' && (
         <div className="stack-xs">
           <label htmlFor="guest-name">Name des Gastes</label>
@@ -387,6 +470,33 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
           {fieldErrors.guestName && <p className="field-error" role="alert">{fieldErrors.guestName}</p>}
         </div>
       )}
+
+      {values.bookedFor === 'GUEST' && values.type === 'single' && (
+        <>
+          <div className="stack-xs">
+            <label htmlFor="guest-email">E-Mail des Gastes (optional)</label>
+            <input id="guest-email" type="email" value={values.guestEmail} disabled={disabled} onChange={(event) => onChange({ ...values, guestEmail: event.target.value })} />
+            {fieldErrors.guestEmail ? <p className="field-error" role="alert">{fieldErrors.guestEmail}</p> : <p className="muted">Der Gast erhält seinen Besuchercode per E-Mail.</p>}
+          </div>
+          <div className="stack-xs">
+            <label htmlFor="guest-company">Firma (optional)</label>
+            <input id="guest-company" type="text" value={values.guestCompany} disabled={disabled} onChange={(event) => onChange({ ...values, guestCompany: event.target.value })} />
+          </div>
+          <div className="stack-xs">
+            <label htmlFor="guest-arrival">Erwartete Ankunft (optional)</label>
+            <input id="guest-arrival" type="time" value={values.guestArrivalTime} disabled={disabled} onChange={(event) => onChange({ ...values, guestArrivalTime: event.target.value })} />
+          </div>
+          {attendeeOptions.length > 0 && (
+            <div className="stack-xs">
+              <label htmlFor="guest-host">Gastgeber:in</label>
+              <select id="guest-host" value={values.guestHostEmployeeId} disabled={disabled} onChange={(event) => onChange({ ...values, guestHostEmployeeId: event.target.value })}>
+                <option value="">Ich</option>
+                {attendeeOptions.map((option) => <option key={option.id} value={option.id}>{option.displayName}</option>)}
+              </select>
+            </div>
+          )}
+        </>
+      )}
       <div className="stack-xs">
         <label>Typ</label>
         <div className="weekday-toggle-group" role="group" aria-label="Buchungstyp">
@@ -506,6 +616,34 @@ export function BookingForm({ values, onChange, onSubmit, onCancel, isSubmitting
               </div>
               <p className="muted room-bookable-hours">Buchbare Zeit 06:00 - 18:00 Uhr</p>
               {roomSchedule?.conflictMessage && <p className="field-error room-conflict-hint" role="alert">{roomSchedule.conflictMessage}</p>}
+              {isRoom && (
+                <section className="meeting-details stack-xs">
+                  <label htmlFor="booking-meeting-title">Titel</label>
+                  <input id="booking-meeting-title" type="text" maxLength={120} placeholder="z. B. Sprint Review" value={values.title} disabled={disabled} onChange={(event) => onChange({ ...values, title: event.target.value })} />
+                  <label htmlFor="booking-attendee-employee">Teilnehmende</label>
+                  <select id="booking-attendee-employee" value="" disabled={disabled || selectableAttendees.length === 0} onChange={(event) => addEmployeeAttendee(event.target.value)}>
+                    <option value="">Mitarbeitende hinzufügen…</option>
+                    {selectableAttendees.map((option) => <option key={option.id} value={option.id}>{option.displayName}</option>)}
+                  </select>
+                  <div className="meeting-external-row">
+                    <input type="text" placeholder="Externer Gast" aria-label="Name externer Gast" value={externalAttendee.name} disabled={disabled} onChange={(event) => setExternalAttendee((current) => ({ ...current, name: event.target.value }))} />
+                    <input type="email" placeholder="E-Mail (optional)" aria-label="E-Mail externer Gast" value={externalAttendee.email} disabled={disabled} onChange={(event) => setExternalAttendee((current) => ({ ...current, email: event.target.value }))} />
+                    <button type="button" className="btn btn-outline" disabled={disabled || externalAttendee.name.trim().length < 2} onClick={addExternalAttendee}>Hinzufügen</button>
+                  </div>
+                  {values.attendees.length > 0 && (
+                    <ul className="meeting-attendee-list" aria-label="Ausgewählte Teilnehmende">
+                      {values.attendees.map((attendee, index) => (
+                        <li key={attendee.employeeId ?? `${attendee.name}-${attendee.email ?? index}`} className="meeting-attendee-chip">
+                          <span>{attendee.name}{!attendee.employeeId && <em className="muted"> · extern</em>}</span>
+                          <button type="button" className="btn btn-ghost" aria-label={`${attendee.name} entfernen`} disabled={disabled} onClick={() => removeAttendee(index)}>×</button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="muted">{values.attendees.length + 1}{roomCapacity !== null ? ` / ${roomCapacity}` : ''} Personen inkl. dir</p>
+                  {fieldErrors.attendees && <p className="field-error" role="alert">{fieldErrors.attendees}</p>}
+                </section>
+              )}
             </>
           ) : (
             <div className="stack-xs">
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { get, post, resolveApiUrl } from '../api';
+import { useToast } from './toast';
+
+type CalendarFeedResponse = { path: string | null };
+
+export function CalendarFeedDialog({ onClose }: { onClose: () => void }) {
+  const toasts = useToast();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    get<CalendarFeedResponse>('/me/calendar-feed')
+      .then((response) => {
+        if (!cancelled) setFeedUrl(resolveApiUrl(response.path) ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Kalender-Abo konnte nicht geladen werden.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const regenerate = async () => {
+    if (feedUrl && !window.confirm('Der bisherige Link funktioniert danach nicht mehr. Neuen Link erzeugen?')) return;
+    setIsRegenerating(true);
+    setError('');
+    try {
+      const response = await post<CalendarFeedResponse>('/me/calendar-feed/token', {});
+      setFeedUrl(resolveApiUrl(response.path) ?? null);
+      toasts.success('Neuer Kalender-Link erzeugt');
+    } catch {
+      setError('Kalender-Link konnte nicht erzeugt werden.');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toasts.success('Link kopiert');
+    } catch {
+      toasts.error('Kopieren fehlgeschlagen');
+    }
+  };
+
+  return createPortal(
+    <div className="overlay" role="presentation">
+      <section className="card dialog stack-sm" role="dialog" aria-modal="true" aria-labelledby="calendar-feed-title">
+        <h3 id="calendar-feed-title">Kalender-Abo</h3>
+        <p className="muted">Abonniere deine Tisch-, Raum- und Parkplatzbuchungen in Outlook oder Google Calendar. Wer den Link kennt, sieht deine Buchungen.</p>
+        {isLoading && <p className="muted">Lade…</p>}
+        {!isLoading && feedUrl && (
+          <label className="field stack-xxs">
+            <span>Abo-Link (ICS)</span>
+            <input type="text" value={feedUrl} readOnly onFocus={(event) => event.currentTarget.select()} />
+          </label>
+        )}
+        {!isLoading && !feedUrl && !error && <p>Es wurde noch kein Abo-Link erzeugt.</p>}
+        {error && <p className="field-error">{error}</p>}
+        <div className="inline-end">
+          <button type="button" className="btn btn-outline" onClick={onClose}>Schließen</button>
+          <button type="button" className="btn btn-ghost" onClick={() => void regenerate()} disabled={isLoading || isRegenerating}>{feedUrl ? 'Neuen Link erzeugen' : 'Link erzeugen'}</button>
+          {feedUrl && <button type="button" className="btn" onClick={() => void copyUrl()}>Kopieren</button>}
+        </div>
+      </section>
+    </div>,
+    document.body
+  );
+}
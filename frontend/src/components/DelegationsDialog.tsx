@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { del, get, put } from '../api';
+import { useToast } from './toast';
+
+export type DelegationEmployee = { id: string; email: string; displayName: string; photoUrl?: string | null };
+export type BookingDelegations = { delegates: DelegationEmployee[]; principals: DelegationEmployee[] };
+
+export function DelegationsDialog({ currentUserEmail, onClose }: { currentUserEmail: string; onClose: () => void }) {
+  const toasts = useToast();
+  const [delegations, setDelegations] = useState<BookingDelegations>({ delegates: [], principals: [] });
+  const [employees, setEmployees] = useState<DelegationEmployee[]>([]);
+  const [selectedEmployeeId, setSelectedEmployeeId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const [nextDelegations, nextEmployees] = await Promise.all([get<BookingDelegations>('/me/delegations'), get<DelegationEmployee[]>('/employees')]);
+      setDelegations(nextDelegations);
+      setEmployees(nextEmployees);
+      setError('');
+    } catch {
+      setError('Vertretungen konnten nicht geladen werden.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { void load(); }, []);
+
+  const candidates = useMemo(() => {
+    const delegateIds = new Set(delegations.delegates.map((delegate) => delegate.id));
+    return employees.filter((employee) => !delegateIds.has(employee.id) && employee.email.toLowerCase() !== currentUserEmail.toLowerCase());
+  }, [currentUserEmail, delegations.delegates, employees]);
+
+  const addDelegate = async () => {
+    if (!selectedEmployeeId) return;
+    setIsSaving(true);
+    try {
+      await put(`/me/delegates/${selectedEmployeeId}`, {});
+      setSelectedEmployeeId('');
+      toasts.success('Vertretung hinzugefügt');
+      await load();
+    } catch {
+      toasts.error('Vertretung konnte nicht hinzugefügt werden');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (path: string, message: string) => {
+    try {
+      await del(path);
+      toasts.success(message);
+      await load();
+    } catch {
+      toasts.error('Vertretung konnte nicht entfernt werden');
+    }
+  };
+
+  return createPortal(
+    <div className="overlay" role="presentation">
+      <section className="card dialog stack-sm" role="dialog" aria-modal="true" aria-labelledby="delegations-title">
+        <h3 id="delegations-title">Vertretungen</h3>
+        <p className="muted">Deine Vertretungen dürfen in deinem Namen buchen, Buchungen ändern und stornieren. Als Ersteller wird dabei die Vertretung gespeichert.</p>
+        {isLoading && <p className="muted">Lade…</p>}
+        {!isLoading && delegations.delegates.length === 0 && !error && <p>Du hast noch niemanden als Vertretung eingetragen.</p>}
+        {delegations.delegates.length > 0 && (
+          <ul className="api-token-list">
+            {delegations.delegates.map((delegate) => (
+              <li key={delegate.id} className="api-token-item">
+                <div className="stack-xxs">
+                  <strong>{delegate.displayName}</strong>
+                  <span className="muted">{delegate.email}</span>
+                </div>
+                <button type="button" className="btn btn-ghost" onClick={() => void remove(`/me/delegates/${delegate.id}`, 'Vertretung entfernt')}>Entfernen</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="inline-end">
+          <select aria-label="Vertretung auswählen" value={selectedEmployeeId} onChange={(event) => setSelectedEmployeeId(event.target.value)} disabled={isLoading || isSaving}>
+            <option value="">Kolleg:in auswählen…</option>
+            {candidates.map((employee) => <option key={employee.id} value={employee.id}>{employee.displayName}</option>)}
+          </select>
+          <button type="button" className="btn" onClick={() => void addDelegate()} disabled={!selectedEmployeeId || isSaving}>Hinzufügen</button>
+        </div>
+        {delegations.principals.length > 0 && (
+          <>
+            <h4>Du vertrittst</h4>
+            <ul className="api-token-list">
+              {delegations.principals.map((principal) => (
+                <li key={principal.id} className="api-token-item">
+                  <div className="stack-xxs">
+                    <strong>{principal.displayName}</strong>
+                    <span className="muted">{principal.email}</span>
+                  </div>
+                  <button type="button" className="btn btn-ghost" onClick={() => void remove(`/me/principals/${principal.id}`, 'Vertretung beendet')}>Beenden</button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {error && <p className="field-error">{error}</p>}
+        <div className="inline-end">
+          <button type="button" className="btn btn-outline" onClick={onClose}>Schließen</button>
+        </div>
+      </section>
+    </div>,
+    document.body
+  );
+}
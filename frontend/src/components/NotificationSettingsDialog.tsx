@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { get, put } from '../api';
+import { useToast } from './toast';
+
+type NotificationSettings = { emailLocale: 'de' | 'en'; emailNotifications: boolean; mailEnabled: boolean };
+
+export function NotificationSettingsDialog({ onClose }: { onClose: () => void }) {
+  const toasts = useToast();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    get<NotificationSettings>('/me/notification-settings')
+      .then((response) => {
+        if (!cancelled) setSettings(response);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Benachrichtigungen konnten nicht geladen werden.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async () => {
+    if (!settings) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await put<NotificationSettings>('/me/notification-settings', { emailLocale: settings.emailLocale, emailNotifications: settings.emailNotifications });
+      setSettings(response);
+      toasts.success('Benachrichtigungen gespeichert');
+      onClose();
+    } catch {
+      setError('Benachrichtigungen konnten nicht gespeichert werden.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return createPortal(
+    <div className="overlay" role="presentation">
+      <section className="card dialog stack-sm" role="dialog" aria-modal="true" aria-labelledby="notification-settings-title">
+        <h3 id="notification-settings-title">E-Mail-Benachrichtigungen</h3>
+        <p className="muted">Du bekommst eine E-Mail, wenn du buchst, eine Serie anlegst oder jemand deine Buchungen ändert oder storniert.</p>
+        {isLoading && <p className="muted">Lade…</p>}
+        {settings && !settings.mailEnabled && <p className="muted">Der E-Mail-Versand ist auf diesem Server derzeit nicht eingerichtet. Deine Auswahl gilt, sobald er aktiviert wird.</p>}
+        {settings && (
+          <>
+            <label className="checkbox-label">
+              <input type="checkbox" checked={settings.emailNotifications} onChange={(event) => setSettings({ ...settings, emailNotifications: event.target.checked })} />
+              <span>E-Mails zu meinen Buchungen erhalten</span>
+            </label>
+            <label className="field stack-xxs">
+              <span>Sprache der E-Mails</span>
+              <select value={settings.emailLocale} onChange={(event) => setSettings({ ...settings, emailLocale: event.target.value as NotificationSettings['emailLocale'] })} disabled={!settings.emailNotifications}>
+                <option value="de">Deutsch</option>
+                <option value="en">English</option>
+              </select>
+            </label>
+          </>
+        )}
+        {error && <p className="field-error">{error}</p>}
+        <div className="inline-end">
+          <button type="button" className="btn btn-outline" onClick={onClose}>Abbrechen</button>
+          <button type="button" className="btn" onClick={() => void save()} disabled={!settings || isSaving}>{isSaving ? 'Speichere…' : 'Speichern'}</button>
+        </div>
+      </section>
+    </div>,
+    document.body
+  );
+}
@@ -1,5 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
 import { API_BASE } from '../api';
+import { ApiTokensDialog } from './ApiTokensDialog';
+import { CalendarFeedDialog } from './CalendarFeedDialog';
+import { DelegationsDialog } from './DelegationsDialog';
+import { NotificationSettingsDialog } from './NotificationSettingsDialog';
 import { Popover } from './ui/Popover';
 
 type UserInfo = { id?: string; name?: string; displayName?: string; email: string; role: 'admin' | 'user' };
@@ -14,6 +18,22 @@ function Shield({ size = 16, className }: IconProps) {
   return <svg className={className} xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden><path d="M20 13c0 5-3.5 7.5-8 9-4.5-1.5-8-4-8-9V6l8-3 8 3z" /></svg>;
 }
 
+function CalendarIcon({ size = 16, className }: IconProps) {
+  return <svg className={className} xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden><rect x="3" y="4" width="18" height="18" rx="2" /><path d="M16 2v4" /><path d="M8 2v4" /><path d="M3 10h18" /></svg>;
+}
+
+function MailIcon({ size = 16, className }: IconProps) {
+  return <svg className={className} xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden><rect x="2" y="4" width="20" height="16" rx="2" /><path d="m22 7-10 6L2 7" /></svg>;
+}
+
+function KeyIcon({ size = 16, className }: IconProps) {
+  return <svg className={className} xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden><circle cx="7.5" cy="15.5" r="5.5" /><path d="m21 2-9.6 9.6" /><path d="m15.5 7.5 3 3L22 7l-3-3" /></svg>;
+}
+
+function UsersIcon({ size = 16, className }: IconProps) {
+  return <svg className={className} xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden><path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" /><circle cx="9" cy="7" r="4" /><path d="M22 21v-2a4 4 0 0 0-3-3.87" /><path d="M16 3.13a4 4 0 0 1 0 7.75" /></svg>;
+}
+
 function LogOut({ size = 16, className }: IconProps) {
   return <svg className={className} xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden><path d="m16 17 5-5-5-5" /><path d="M21 12H9" /><path d="M13 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h8" /></svg>;
 }
@@ -42,6 +62,10 @@ export function UserMenu({ user, onLogout, onOpenAdmin, showAdminAction = false,
   onOpenSettings?: () => void;
 }) {
   const [photoFailed, setPhotoFailed] = useState(false);
+  const [isCalendarFeedOpen, setIsCalendarFeedOpen] = useState(false);
+  const [isNotificationSettingsOpen, setIsNotificationSettingsOpen] = useState(false);
+  const [isApiTokensOpen, setIsApiTokensOpen] = useState(false);
+  const [isDelegationsOpen, setIsDelegationsOpen] = useState(false);
   const initials = useMemo(() => getInitials(user), [user]);
   const displayName = user.name ?? user.displayName ?? user.email;
   const userKey = user.id ?? user.email;
@@ -51,52 +75,74 @@ export function UserMenu({ user, onLogout, onOpenAdmin, showAdminAction = false,
   }, [userKey, displayName, user.email]);
 
   return (
-    <Popover
-      trigger={
-        <button type="button" className="user-chip" aria-label={`User-Menü für ${displayName}`}>
-          <span className="avatar" aria-hidden>
-            {!photoFailed && <img key={`${userKey}-${displayName}`} src={`${API_BASE}/user/me/photo?v=${encodeURIComponent(`${userKey}-${displayName}-${user.email}`)}`} alt="Profilbild" onError={() => setPhotoFailed(true)} />}
-            {photoFailed && <span>{initials}</span>}
-          </span>
-          <strong className="user-chip-name">{displayName}</strong>
-          <ChevronDown size={14} className="user-chip-chevron" />
-        </button>
-      }
-      className="user-menu-content"
-      placement="bottom-end"
-      zIndex={2000}
-    >
-      {({ close }) => (
-        <>
-          <div className="user-menu-summary" aria-hidden>
-            <span className="avatar avatar-sm">
-              {!photoFailed && <img key={`summary-${userKey}-${displayName}`} src={`${API_BASE}/user/me/photo?v=${encodeURIComponent(`${userKey}-${displayName}-${user.email}`)}`} alt="Profilbild" onError={() => setPhotoFailed(true)} />}
+    <>
+      <Popover
+        trigger={
+          <button type="button" className="user-chip" aria-label={`User-Menü für ${displayName}`}>
+            <span className="avatar" aria-hidden>
+              {!photoFailed && <img key={`${userKey}-${displayName}`} src={`${API_BASE}/user/me/photo?v=${encodeURIComponent(`${userKey}-${displayName}-${user.email}`)}`} alt="Profilbild" onError={() => setPhotoFailed(true)} />}
               {photoFailed && <span>{initials}</span>}
             </span>
-            <div className="user-menu-meta">
-              <strong>{displayName}</strong>
-              <span className="muted user-menu-email" title={user.email}>{user.email}</span>
+            <strong className="user-chip-name">{displayName}</strong>
+            <ChevronDown size={14} className="user-chip-chevron" />
+          </button>
+        }
+        className="user-menu-content"
+        placement="bottom-end"
+        zIndex={2000}
+      >
+        {({ close }) => (
+          <>
+            <div className="user-menu-summary" aria-hidden>
+              <span className="avatar avatar-sm">
+                {!photoFailed && <img key={`summary-${userKey}-${displayName}`} src={`${API_BASE}/user/me/photo?v=${encodeURIComponent(`${userKey}-${displayName}-${user.email}`)}`} alt="Profilbild" onError={() => setPhotoFailed(true)} />}
+                {photoFailed && <span>{initials}</span>}
+              </span>
+              <div className="user-menu-meta">
+                <strong>{displayName}</strong>
+                <span className="muted user-menu-email" title={user.email}>{user.email}</span>
+              </div>
             </div>
-          </div>
-          <hr className="user-menu-separator" />
-          {showAdminAction && user.role === 'admin' && onOpenAdmin && (
-            <button className="user-menu-item" role="menuitem" onClick={() => { close(); onOpenAdmin(); }}>
-              <Shield size={16} />
-              <span>Admin</span>
+            <hr className="user-menu-separator" />
+            {showAdminAction && user.role === 'admin' && onOpenAdmin && (
+              <button className="user-menu-item" role="menuitem" onClick={() => { close(); onOpenAdmin(); }}>
+                <Shield size={16} />
+                <span>Admin</span>
+              </button>
+            )}
+            {onOpenSettings && (
+              <button className="user-menu-item" role="menuitem" onClick={() => { close(); onOpenSettings(); }}>
+                <Settings size={16} />
+                <span>Settings</span>
+              </button>
+            )}
+            <button className="user-menu-item" role="menuitem" onClick={() => { close(); setIsCalendarFeedOpen(true); }}>
+              <CalendarIcon size={16} />
+              <span>Kalender-Abo</span>
             </button>
-          )}
-          {onOpenSettings && (
-            <button className="user-menu-item" role="menuitem" onClick={() => { close(); onOpenSettings(); }}>
-              <Settings size={16} />
-              <span>Settings</span>
+            <button className="user-menu-item" role="menuitem" onClick={() => { close(); setIsNotificationSettingsOpen(true); }}>
+              <MailIcon size={16} />
+              <span>E-Mail-Benachrichtigungen</span>
             </button>
-          )}
-          <button className="user-menu-item user-menu-item-danger" role="menuitem" onClick={() => { close(); void onLogout(); }}>
-            <LogOut size={16} />
-            <span>Logout</span>
-          </button>
-        </>
-      )}
-    </Popover>
+            <button className="user-menu-item" role="menuitem" onClick={() => { close(); setIsDelegationsOpen(true); }}>
+              <UsersIcon size={16} />
+              <span>Vertretungen</span>
+            </button>
+            <button className="user-menu-item" role="menuitem" onClick={() => { close(); setIsApiTokensOpen(true); }}>
+              <KeyIcon size={16} />
+              <span>API-Tokens</span>
+            </button>
+            <button className="user-menu-item user-menu-item-danger" role="menuitem" onClick={() => { close(); void onLogout(); }}>
+              <LogOut size={16} />
+              <span>Logout</span>
+            </button>
+          </>
+        )}
+      </Popover>
+      {isCalendarFeedOpen && <CalendarFeedDialog onClose={() => setIsCalendarFeedOpen(false)} />}
+      {isNotificationSettingsOpen && <NotificationSettingsDialog onClose={() => setIsNotificationSettingsOpen(false)} />}
+      {isDelegationsOpen && <DelegationsDialog currentUserEmail={user.email} onClose={() => setIsDelegationsOpen(false)} />}
+      {isApiTokensOpen && <ApiTokensDialog isAdmin={user.role === 'admin'} onClose={() => setIsApiTokensOpen(false)} />}
+    </>
   );
 }
@@ -26,8 +26,9 @@ export const isMineBooking = (booking: BookingOwnershipInput, meEmployeeId?: str
   return false;
 };
 
-export const canCancelBooking = (booking: BookingOwnershipInput, meEmployeeId?: string | null, _isAdmin = false): boolean => (
-  isMineBooking(booking, meEmployeeId)
+// Delegates may also cancel the bookings of the colleagues who delegated to them (principalEmployeeIds).
+export const canCancelBooking = (booking: BookingOwnershipInput, meEmployeeId?: string | null, _isAdmin = false, principalEmployeeIds: readonly string[] = []): boolean => (
+  isMineBooking(booking, meEmployeeId) || principalEmployeeIds.some((principalId) => isMineBooking(booking, principalId))
 );
 
 export const bookingDisplayName = (booking: BookingOwnershipInput): string => {
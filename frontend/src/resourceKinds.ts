@@ -13,3 +13,17 @@ export function resourceKindLabel(kind?: string): 'Tisch' | 'Parkplatz' | 'Raum'
   if (kind === 'RAUM') return 'Raum';
   return 'Ressource';
 }
+
+export type ResourceEquipment = 'MONITOR' | 'DOCKING_STATION' | 'HEIGHT_ADJUSTABLE' | 'VIDEO_CONFERENCING' | 'ACCESSIBLE';
+
+export const RESOURCE_EQUIPMENT_OPTIONS: Array<{ value: ResourceEquipment; label: string }> = [
+  { value: 'MONITOR', label: 'Monitor' },
+  { value: 'DOCKING_STATION', label: 'Dockingstation' },
+  { value: 'HEIGHT_ADJUSTABLE', label: 'Höhenverstellbar' },
+  { value: 'VIDEO_CONFERENCING', label: 'Videokonferenz' },
+  { value: 'ACCESSIBLE', label: 'Barrierefrei' }
+];
+
+export function resourceEquipmentLabel(equipment: string): string {
+  return RESOURCE_EQUIPMENT_OPTIONS.find((option) => option.value === equipment)?.label ?? equipment;
+}